@@ -11,6 +11,10 @@ import { apiService } from './services/apiService';
 import { guardrailService } from './services/guardrailService';
 import { openRouterService } from './services/openRouterService';
 import { userScopeService } from './services/userScopeService';
+import { autonomousAgentService } from './services/autonomousAgentService';
+import { toolRegistryService } from './services/toolRegistryService';
+import { approvalQueueService } from './services/approvalQueueService';
+import { billingService } from './services/billingService';
 
 // Lazy-loaded views
 const TradingDashboard = lazy(() => import('./components/TradingDashboard'));
@@ -31,6 +35,7 @@ const StrategySandbox = lazy(() => import('./components/StrategySandbox'));
 import Sidebar from './components/Sidebar';
 import BrowserPopup from './components/BrowserPopup';
 import TelemetryPopup from './components/TelemetryPopup';
+import ApprovalQueue from './components/ApprovalQueue';
 
 // ─── Simple Trading App Views ─────────────────────────────
 enum TraderView {
@@ -127,6 +132,22 @@ const App: React.FC = () => {
         return unsub;
     }, []);
 
+    // ─── Agent Tooling ───────────────────────────────────────
+    useEffect(() => {
+        if (!isUnlocked) return;
+        memoryService.init();
+        approvalQueueService.init();
+        void billingService.init();
+        autonomousAgentService.init(
+            () => memoryService.getMemoryContext(),
+            (agentName, mascot, report, isAlert) => {
+                activityService.log('TERMINAL', `${mascot} ${agentName}${isAlert ? ' ⚠️' : ''}: ${report.slice(0, 120)}`);
+            },
+            (action) => toolRegistryService.execute(action, { caller: 'AGENT', agentId: action.agentId })
+        );
+        return () => autonomousAgentService.destroy();
+    }, [isUnlocked]);
+
     // Listen for browser open events
     useEffect(() => {
         const handler = () => {
@@ -270,6 +291,7 @@ const App: React.FC = () => {
                     <OpenClawAgent
                         contextData={JSON.stringify({ activeView: currentView })}
                         telemetry={telemetry}
+                        onAction={fc => toolRegistryService.execute(fc)}
                         onClose={() => setIsBotPanelOpen(false)}
                     />
                 </Suspense>
@@ -288,6 +310,9 @@ const App: React.FC = () => {
                 </button>
             )}
 
+            {/* Risky tool calls waiting for the operator */}
+            <ApprovalQueue />
+
             {/* Telemetry Popup */}
             {showTelemetry && (
                 <TelemetryPopup telemetry={telemetry} onClose={() => setShowTelemetry(false)} />
@@ -0,0 +1,272 @@
+/**
+ * alertChannels.js — Outbound Alert Delivery
+ *
+ * Each channel is { label, secrets, validate(config), send(config, alert) } so
+ * new transports (Telegram, Pushover…) only need an entry in CHANNELS:
+ *   - webhook   JSON POST over https (the body also carries `text` / `content` so
+ *               Slack and Discord incoming webhooks render it as-is). Hosts that
+ *               resolve to loopback, private or link-local addresses are refused.
+ *   - smtp      plain-text email over SMTP (implicit TLS on 465, STARTTLS otherwise).
+ *               The password is only sent over TLS unless `allowInsecureAuth` is set.
+ *
+ * Used by alertEngine.js, which decides what fires and when; channels only deliver.
+ * sendMail() is also reused for operator-approved outbound email (the sendEmail tool).
+ */
+
+const net = require('net');
+const tls = require('tls');
+const os = require('os');
+const dns = require('dns');
+const https = require('https');
+
+const SEND_TIMEOUT_MS = 10000;
+
+/** One-line summary used as the chat text / email subject */
+function alertLine(alert) {
+    return `[${alert.severity.toUpperCase()}] ${alert.name}: ${alert.message}`;
+}
+
+// ─────────────────────────────────────────────────────────────────
+//  Webhook
+// ─────────────────────────────────────────────────────────────────
+
+// Addresses a webhook must never reach — the server's own network, not the internet
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [subnet, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+]) BLOCKED_ADDRESSES.addSubnet(subnet, prefix, 'ipv4');
+for (const [subnet, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]]) {
+    BLOCKED_ADDRESSES.addSubnet(subnet, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address) {
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address); // IPv4-mapped IPv6
+    if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+    return BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * dns.lookup that refuses internal addresses. Used as the request's resolver so the
+ * address that is checked is the one connected to (no re-resolving in between).
+ */
+function publicLookup(hostname, options, callback) {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) return callback(err);
+        const blocked = addresses.find(a => isBlockedAddress(a.address));
+        if (blocked) return callback(new Error(`Webhook host ${hostname} resolves to an internal address (${blocked.address})`));
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+}
+
+function postJson(url, payload) {
+    return new Promise((resolve, reject) => {
+        const body = JSON.stringify(payload);
+        const req = https.request(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+            lookup: publicLookup,
+            timeout: SEND_TIMEOUT_MS,
+        }, res => {
+            res.resume();
+            // Redirects aren't followed — they could point anywhere
+            if (res.statusCode >= 200 && res.statusCode < 300) resolve();
+            else reject(new Error(`HTTP ${res.statusCode}`));
+        });
+        req.on('timeout', () => req.destroy(new Error('Webhook timed out')));
+        req.on('error', reject);
+        req.end(body);
+    });
+}
+
+const webhook = {
+    label: 'Webhook',
+    secrets: [],
+    validate(config) {
+        let url;
+        try {
+            url = new URL(config.url);
+        } catch {
+            return 'Webhook URL is not valid';
+        }
+        if (url.protocol !== 'https:') return 'Webhook URL must use https';
+        const host = url.hostname.replace(/^\[|\]$/g, '');
+        if (host === 'localhost' || host.endsWith('.localhost') || (net.isIP(host) && isBlockedAddress(host))) {
+            return 'Webhook URL must point to a public host';
+        }
+        return null;
+    },
+    send(config, alert) {
+        const error = webhook.validate(config);
+        if (error) return Promise.reject(new Error(error));
+        const text = alertLine(alert);
+        return postJson(config.url, { source: 'clawkeep', text, content: text, alert });
+    },
+};
+
+// ─────────────────────────────────────────────────────────────────
+//  SMTP (minimal client — EHLO, STARTTLS, AUTH LOGIN, one message)
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Line-oriented SMTP conversation over a socket
+ */
+class SmtpSession {
+    constructor(socket) {
+        this.buffer = '';
+        this.waiting = null;
+        this.attach(socket);
+    }
+
+    attach(socket) {
+        this.socket = socket;
+        socket.setEncoding('utf8');
+        socket.on('data', chunk => {
+            this.buffer += chunk;
+            this._flush();
+        });
+        socket.on('error', err => this._fail(err));
+        socket.on('close', () => this._fail(new Error('SMTP connection closed')));
+    }
+
+    // A reply is complete once a line has a space (not '-') after the code
+    _flush() {
+        if (!this.waiting) return;
+        const lines = this.buffer.split('\r\n');
+        const last = lines.findIndex(l => /^\d{3} /.test(l) || /^\d{3}$/.test(l));
+        if (last < 0) return;
+        this.buffer = lines.slice(last + 1).join('\r\n');
+        const reply = { code: parseInt(lines[last].slice(0, 3)), text: lines.slice(0, last + 1).join('\n') };
+        const { resolve } = this.waiting;
+        this.waiting = null;
+        resolve(reply);
+    }
+
+    _fail(err) {
+        if (!this.waiting) return;
+        const { reject } = this.waiting;
+        this.waiting = null;
+        reject(err);
+    }
+
+    read() {
+        return new Promise((resolve, reject) => {
+            this.waiting = { resolve, reject };
+            this._flush();
+        });
+    }
+
+    /** Send a command and require a reply code in `expect` */
+    async command(line, expect) {
+        if (line !== null) this.socket.write(`${line}\r\n`);
+        const reply = await this.read();
+        if (!expect.includes(reply.code)) {
+            throw new Error(`SMTP ${reply.code}: ${reply.text.split('\n').pop().slice(4)}`);
+        }
+        return reply;
+    }
+}
+
+function connectSocket(config) {
+    const port = Number(config.port) || (config.secure ? 465 : 587);
+    return new Promise((resolve, reject) => {
+        const opts = { host: config.host, port, servername: config.host };
+        const socket = config.secure ? tls.connect(opts) : net.connect(opts);
+        socket.setTimeout(SEND_TIMEOUT_MS, () => socket.destroy(new Error('SMTP timed out')));
+        socket.once(config.secure ? 'secureConnect' : 'connect', () => resolve(socket));
+        socket.once('error', reject);
+    });
+}
+
+function upgradeSocket(socket, host) {
+    return new Promise((resolve, reject) => {
+        const secure = tls.connect({ socket, servername: host }, () => resolve(secure));
+        secure.once('error', reject);
+    });
+}
+
+function alertBody(alert) {
+    return [
+        alertLine(alert),
+        '',
+        `Alert:    ${alert.name}`,
+        `Severity: ${alert.severity}`,
+        `Fired:    ${alert.firedAt}`,
+        '',
+        alert.message,
+        '',
+        '— ClawKeep trader alerts',
+    ].join('\n');
+}
+
+function buildMessage(from, mail) {
+    return [
+        `From: ${from}`,
+        `To: ${mail.to}`,
+        `Subject: ${String(mail.subject).replace(/[\r\n]+/g, ' ')}`,
+        `Date: ${new Date().toUTCString()}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        // Dot-stuffing: a line starting with '.' would otherwise end DATA early
+        String(mail.body).replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..'),
+    ].join('\r\n');
+}
+
+/**
+ * Deliver one plain-text message through an SMTP channel config. Refuses to log in
+ * over an unencrypted connection unless `allowInsecureAuth` is set.
+ * @param {Object} config - smtp channel config (host, port, secure, user, pass, from, allowInsecureAuth)
+ * @param {{ to: string, subject: string, body: string }} mail
+ */
+async function sendMail(config, mail) {
+    const from = config.from || config.user;
+    const socket = await connectSocket(config);
+    const session = new SmtpSession(socket);
+    try {
+        await session.command(null, [220]);
+        const ehlo = await session.command(`EHLO ${os.hostname()}`, [250]);
+        let encrypted = !!config.secure;
+        if (!encrypted && /STARTTLS/i.test(ehlo.text)) {
+            await session.command('STARTTLS', [220]);
+            socket.removeAllListeners('data');
+            session.attach(await upgradeSocket(socket, config.host));
+            encrypted = true;
+            await session.command(`EHLO ${os.hostname()}`, [250]);
+        }
+        if (config.user && !encrypted && !config.allowInsecureAuth) {
+            throw new Error('server offers no TLS — refusing to send the password in plaintext (allow insecure login to override)');
+        }
+        if (config.user) {
+            await session.command('AUTH LOGIN', [334]);
+            await session.command(Buffer.from(config.user).toString('base64'), [334]);
+            await session.command(Buffer.from(config.pass || '').toString('base64'), [235]);
+        }
+        await session.command(`MAIL FROM:<${from}>`, [250]);
+        await session.command(`RCPT TO:<${mail.to}>`, [250, 251]);
+        await session.command('DATA', [354]);
+        await session.command(`${buildMessage(from, mail)}\r\n.`, [250]);
+        await session.command('QUIT', [221]).catch(() => { });
+    } finally {
+        session.socket.destroy();
+    }
+}
+
+const smtp = {
+    label: 'Email (SMTP)',
+    secrets: ['pass'],
+    validate(config) {
+        if (!config.host) return 'SMTP host is required';
+        if (!config.to || !/^[^\s@]+@[^\s@]+$/.test(config.to)) return 'Recipient email is not valid';
+        if (!config.from && !config.user) return 'Set a sender address or SMTP user';
+        return null;
+    },
+    send(config, alert) {
+        return sendMail(config, { to: config.to, subject: alertLine(alert), body: alertBody(alert) });
+    },
+};
+
+const CHANNELS = { webhook, smtp };
+
+module.exports = { CHANNELS, alertLine, sendMail };
@@ -0,0 +1,465 @@
+/**
+ * alertEngine.js — Price, Move, Indicator & Liquidation Alerts
+ *
+ * Evaluated by SolanaTrader's monitor loop every cycle:
+ *   - price        a token trades above / below a level
+ *   - move         a token moves more than N% over a window of hours
+ *   - indicator    a strategy-rule expression (ruleExpressions.js) is true on a pair/timeframe
+ *   - liquidation  an open perp is within N% of its liquidation price
+ *
+ * An alert fires on the false → true edge only and re-arms once its condition
+ * clears, so a level that stays crossed alerts once. On top of that each alert
+ * has a cooldown, and outbound channels (alertChannels.js) are capped per hour
+ * per user. Alerts, channel settings and recent firings persist per user in alerts.json.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const ruleExpressions = require('./ruleExpressions');
+const { CHANNELS, sendMail } = require('./alertChannels');
+
+const ALERT_TYPES = ['price', 'move', 'indicator', 'liquidation'];
+const SEVERITIES = ['info', 'warning', 'critical'];
+const TIMEFRAMES = ['minute', 'hour', 'day'];
+const HISTORY_LIMIT = 100;
+const MAX_ALERTS = 50;
+const MAX_DELIVERIES_PER_HOUR = 12; // outbound channel sends per user; WS delivery is never capped
+const SEVERITY_RANK = { info: 0, warning: 1, critical: 2 };
+
+const ALERT_DEFAULTS = {
+    name: '',
+    type: 'price',
+    severity: 'warning',
+    enabled: true,
+    cooldownMin: 60,
+    token: 'SOL',           // price / move
+    op: 'above',            // price: 'above' | 'below'
+    value: 0,               // price level
+    pct: 5,                 // move: % threshold · liquidation: max distance to liquidation
+    windowHours: 24,        // move lookback
+    direction: 'either',    // move: 'up' | 'down' | 'either'
+    pair: 'SOL/USDC',       // indicator
+    timeframe: 'hour',      // indicator
+    expression: '',         // indicator
+    market: 'any',          // liquidation: 'any' or a perps underlying
+};
+
+// Which input fields each type keeps (the rest are dropped so saved alerts stay readable)
+const TYPE_FIELDS = {
+    price: ['token', 'op', 'value'],
+    move: ['token', 'pct', 'windowHours', 'direction'],
+    indicator: ['pair', 'timeframe', 'expression'],
+    liquidation: ['market', 'pct'],
+};
+
+const DEFAULT_CHANNELS = {
+    webhook: { enabled: false, minSeverity: 'warning', url: '' },
+    smtp: { enabled: false, minSeverity: 'critical', host: '', port: 465, secure: true, user: '', pass: '', from: '', to: '', allowInsecureAuth: false },
+};
+
+class AlertEngine {
+    /**
+     * @param {string} dataDir - per-user trader data directory
+     * @param {Object} deps - { getPrice(token), getCandles(pair, tf, limit), getIndicators(pair, tf),
+     *                          getPerpPositions(), isKnownToken(token), indicatorConfig, broadcast(msg), log(entry) }
+     */
+    constructor(dataDir, deps) {
+        this.statePath = path.join(dataDir, 'alerts.json');
+        this.deps = deps;
+        this.alerts = [];
+        this.channels = JSON.parse(JSON.stringify(DEFAULT_CHANNELS));
+        this.history = [];          // recent firings, newest first
+        this.deliveries = [];       // epoch ms of outbound sends in the last hour
+        this._load();
+    }
+
+    _load() {
+        try {
+            if (!fs.existsSync(this.statePath)) return;
+            const saved = JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+            this.alerts = saved.alerts || [];
+            this.history = saved.history || [];
+            for (const [id, config] of Object.entries(saved.channels || {})) {
+                if (DEFAULT_CHANNELS[id]) this.channels[id] = { ...DEFAULT_CHANNELS[id], ...config };
+            }
+        } catch (e) {
+            console.error('[AlertEngine] Failed to load alerts:', e.message);
+        }
+    }
+
+    _save() {
+        try {
+            fs.writeFileSync(this.statePath, JSON.stringify({ alerts: this.alerts, channels: this.channels, history: this.history }, null, 2));
+        } catch (e) {
+            console.error('[AlertEngine] Failed to save alerts:', e.message);
+        }
+    }
+
+    /**
+     * Alerts, recent firings and channel settings with secrets masked — safe to send to the UI
+     */
+    getState() {
+        const channels = {};
+        for (const [id, config] of Object.entries(this.channels)) {
+            channels[id] = { ...config };
+            for (const key of CHANNELS[id].secrets) channels[id][key] = config[key] ? '••••••••' : '';
+        }
+        return { alerts: this.alerts, history: this.history, channels };
+    }
+
+    // ─────────────────────────────────────────────────────────
+    //  Alert CRUD
+    // ─────────────────────────────────────────────────────────
+
+    /**
+     * Validate an alert from user input, merged over an existing alert when editing
+     * @returns {Object} the alert fields, or { error }
+     */
+    _buildAlert(input, existing = null) {
+        const merged = { ...ALERT_DEFAULTS, ...(existing || {}), ...input };
+        if (!ALERT_TYPES.includes(merged.type)) return { error: `Unknown alert type: ${merged.type}` };
+        if (!SEVERITIES.includes(merged.severity)) return { error: `Unknown severity: ${merged.severity}` };
+
+        const alert = {
+            name: String(merged.name || '').trim().slice(0, 80),
+            type: merged.type,
+            severity: merged.severity,
+            enabled: merged.enabled !== false,
+            cooldownMin: Math.min(7 * 24 * 60, Math.max(1, Math.floor(Number(merged.cooldownMin) || 60))),
+        };
+        for (const key of TYPE_FIELDS[alert.type]) alert[key] = merged[key];
+
+        switch (alert.type) {
+            case 'price':
+                if (!this.deps.isKnownToken(alert.token)) return { error: `Unknown token: ${alert.token}` };
+                if (!['above', 'below'].includes(alert.op)) return { error: `Unknown operator: ${alert.op}` };
+                alert.value = Number(alert.value);
+                if (!(alert.value > 0)) return { error: 'Price level must be positive' };
+                break;
+            case 'move':
+                if (!this.deps.isKnownToken(alert.token)) return { error: `Unknown token: ${alert.token}` };
+                if (!['up', 'down', 'either'].includes(alert.direction)) return { error: `Unknown direction: ${alert.direction}` };
+                alert.pct = Number(alert.pct);
+                if (!(alert.pct > 0)) return { error: 'Move threshold must be positive' };
+                alert.windowHours = Math.min(168, Math.max(1, Math.floor(Number(alert.windowHours) || 24)));
+                break;
+            case 'indicator': {
+                if (!TIMEFRAMES.includes(alert.timeframe)) return { error: `Unknown timeframe: ${alert.timeframe}` };
+                alert.pair = String(alert.pair || '').trim();
+                if (!alert.pair) return { error: 'Pair is required' };
+                alert.expression = String(alert.expression || '').trim();
+                const parsed = ruleExpressions.parseExpression(alert.expression);
+                if (parsed.error) return { error: `${parsed.error} (at character ${parsed.position + 1})` };
+                break;
+            }
+            case 'liquidation':
+                alert.pct = Number(alert.pct);
+                if (!(alert.pct > 0 && alert.pct < 100)) return { error: 'Liquidation distance must be between 0 and 100%' };
+                alert.market = alert.market || 'any';
+                break;
+        }
+
+        if (!alert.name) alert.name = this._defaultName(alert);
+        return alert;
+    }
+
+    _defaultName(alert) {
+        switch (alert.type) {
+            case 'price': return `${alert.token} ${alert.op} $${alert.value}`;
+            case 'move': return `${alert.token} moves ${alert.direction === 'either' ? '±' : alert.direction === 'up' ? '+' : '−'}${alert.pct}% in ${alert.windowHours}h`;
+            case 'indicator': return `${alert.pair} ${alert.timeframe}: ${alert.expression}`.slice(0, 80);
+            case 'liquidation': return `${alert.market === 'any' ? 'Any perp' : `${alert.market}-PERP`} within ${alert.pct}% of liquidation`;
+        }
+    }
+
+    addAlert(input) {
+        if (this.alerts.length >= MAX_ALERTS) return { error: `At most ${MAX_ALERTS} alerts` };
+        const fields = this._buildAlert(input);
+        if (fields.error) return fields;
+        const alert = {
+            ...fields,
+            id: crypto.randomUUID(),
+            active: false,          // condition was true on the last check (edge detection)
+            lastFiredAt: null,
+            lastCheckedAt: null,
+            lastValue: null,
+            lastError: null,
+            fireCount: 0,
+            createdAt: new Date().toISOString(),
+        };
+        this.alerts.push(alert);
+        this._save();
+        return { alert };
+    }
+
+    /**
+     * Edit an alert, or enable/disable it via { enabled }
+     */
+    updateAlert(alertId, patch) {
+        const idx = this.alerts.findIndex(a => a.id === alertId);
+        if (idx < 0) return { error: 'Alert not found' };
+        const current = this.alerts[idx];
+        const { id, createdAt, active, lastFiredAt, lastCheckedAt, lastValue, lastError, fireCount, ...editable } = patch || {};
+
+        const fields = this._buildAlert(editable, current);
+        if (fields.error) return fields;
+        // A changed condition starts un-armed so it can fire straight away
+        const conditionChanged = TYPE_FIELDS[fields.type].some(k => fields[k] !== current[k]) || fields.type !== current.type;
+        this.alerts[idx] = {
+            ...current,
+            ...fields,
+            active: conditionChanged ? false : current.active,
+            lastError: conditionChanged ? null : current.lastError,
+        };
+        this._save();
+        return { alert: this.alerts[idx] };
+    }
+
+    deleteAlert(alertId) {
+        this.alerts = this.alerts.filter(a => a.id !== alertId);
+        this._save();
+        return alertId;
+    }
+
+    clearHistory() {
+        this.history = [];
+        this._save();
+    }
+
+    // ─────────────────────────────────────────────────────────
+    //  Channels
+    // ─────────────────────────────────────────────────────────
+
+    /**
+     * Update one outbound channel. Masked or omitted secrets keep their saved value.
+     */
+    setChannel(channelId, patch = {}) {
+        const channel = CHANNELS[channelId];
+        if (!channel) return { error: `Unknown channel: ${channelId}` };
+        const next = { ...this.channels[channelId] };
+        for (const [key, value] of Object.entries(patch)) {
+            if (!(key in DEFAULT_CHANNELS[channelId])) continue;
+            if (channel.secrets.includes(key) && (value === undefined || /^•+$/.test(value))) continue;
+            next[key] = typeof DEFAULT_CHANNELS[channelId][key] === 'boolean' ? !!value
+                : typeof DEFAULT_CHANNELS[channelId][key] === 'number' ? Number(value) || DEFAULT_CHANNELS[channelId][key]
+                    : String(value ?? '').trim();
+        }
+        if (!SEVERITIES.includes(next.minSeverity)) return { error: `Unknown severity: ${next.minSeverity}` };
+        if (next.enabled) {
+            const error = channel.validate(next);
+            if (error) return { error };
+        }
+        this.channels[channelId] = next;
+        this._save();
+        return { channel: next };
+    }
+
+    /**
+     * Send a sample alert through one channel, ignoring its enabled flag and the hourly cap
+     */
+    async testChannel(channelId) {
+        const channel = CHANNELS[channelId];
+        if (!channel) return { error: `Unknown channel: ${channelId}` };
+        const error = channel.validate(this.channels[channelId]);
+        if (error) return { error };
+        try {
+            await channel.send(this.channels[channelId], {
+                id: 'test', alertId: 'test', name: 'Test alert', severity: 'info', type: 'test',
+                message: 'Alert delivery from ClawKeep is working.', firedAt: new Date().toISOString(),
+            });
+            return { ok: true };
+        } catch (e) {
+            return { error: `${channel.label} test failed: ${e.message}` };
+        }
+    }
+
+    /**
+     * Send an arbitrary email through the configured SMTP channel (the operator-approved
+     * sendEmail tool). Uses the channel's server and sender even when alerts are off.
+     */
+    async sendEmail(to, subject, body) {
+        const config = this.channels.smtp;
+        if (!config.host) return { error: 'No SMTP server configured — set one up in the trader Alerts panel (Email (SMTP))' };
+        if (!config.from && !config.user) return { error: 'SMTP channel has no sender address' };
+        if (!/^[^\s@]+@[^\s@]+$/.test(String(to || ''))) return { error: 'Recipient email is not valid' };
+        try {
+            await sendMail(config, { to: String(to), subject: String(subject || ''), body: String(body || '') });
+            return { ok: true, to: String(to) };
+        } catch (e) {
+            return { error: `Email failed: ${e.message}` };
+        }
+    }
+
+    // ─────────────────────────────────────────────────────────
+    //  Evaluation (called each bot cycle)
+    // ─────────────────────────────────────────────────────────
+
+    /**
+     * Check every enabled alert and fire those whose condition just turned true
+     * @param {{ indicatorCache?: Map }} opts - shared with the strategy scanner
+     * @returns {Promise<Array>} alerts fired this cycle
+     */
+    async evaluate(opts = {}) {
+        const enabled = this.alerts.filter(a => a.enabled);
+        if (enabled.length === 0) return [];
+
+        const ctx = { indicatorCache: opts.indicatorCache || new Map(), positions: null };
+        const fired = [];
+        const now = Date.now();
+        for (const alert of enabled) {
+            let result;
+            try {
+                result = await this._check(alert, ctx);
+            } catch (e) {
+                result = { error: e.message };
+            }
+            alert.lastCheckedAt = new Date(now).toISOString();
+            if (result.error) {
+                // Data outages neither fire nor re-arm
+                alert.lastError = result.error;
+                continue;
+            }
+            alert.lastError = null;
+            alert.lastValue = result.value ?? null;
+
+            const wasActive = alert.active;
+            alert.active = result.triggered;
+            if (!result.triggered || wasActive) continue;
+            const cooledDown = !alert.lastFiredAt || now - new Date(alert.lastFiredAt).getTime() >= alert.cooldownMin * 60000;
+            if (!cooledDown) continue;
+
+            fired.push(await this._fire(alert, result.message, now));
+        }
+        this._save();
+        // Push fresh state (armed flags, delivery outcomes) to the Alerts panel
+        if (fired.length > 0) this.deps.broadcast({ type: 'TRADER_ALERTS', ...this.getState() });
+        return fired;
+    }
+
+    /**
+     * @returns {Promise<{ triggered: boolean, message?: string, value?: number } | { error: string }>}
+     */
+    async _check(alert, ctx) {
+        switch (alert.type) {
+            case 'price': {
+                const price = await this.deps.getPrice(alert.token);
+                if (!price) return { error: `No price for ${alert.token}` };
+                const triggered = alert.op === 'above' ? price > alert.value : price < alert.value;
+                return { triggered, value: price, message: `${alert.token} is $${fmtPrice(price)}, ${alert.op} your $${alert.value} level` };
+            }
+            case 'move': {
+                const { candles, error } = await this.deps.getCandles(alert.token, 'hour', alert.windowHours + 1);
+                if (error || !candles?.length) return { error: error || `No candles for ${alert.token}` };
+                const price = await this.deps.getPrice(alert.token) || candles[candles.length - 1].c;
+                const ref = candles[Math.max(0, candles.length - 1 - alert.windowHours)].c;
+                const changePct = ((price - ref) / ref) * 100;
+                const triggered = alert.direction === 'up' ? changePct >= alert.pct
+                    : alert.direction === 'down' ? changePct <= -alert.pct
+                        : Math.abs(changePct) >= alert.pct;
+                const sign = changePct >= 0 ? '+' : '';
+                return { triggered, value: +changePct.toFixed(2), message: `${alert.token} ${sign}${changePct.toFixed(2)}% over ${alert.windowHours}h ($${fmtPrice(ref)} → $${fmtPrice(price)})` };
+            }
+            case 'indicator': {
+                const key = `${alert.pair}|${alert.timeframe}`;
+                if (!ctx.indicatorCache.has(key)) ctx.indicatorCache.set(key, this.deps.getIndicators(alert.pair, alert.timeframe));
+                const ind = await ctx.indicatorCache.get(key);
+                if (ind.error) return { error: ind.error };
+                const ex = ruleExpressions.explainExpression(alert.expression, ind, this.deps.indicatorConfig);
+                if (ex.error) return { error: ex.error };
+                const values = Object.entries(ex.values).map(([k, v]) => `${k} ${v === null ? 'n/a' : v}`).join(' · ');
+                return { triggered: ex.passed, message: `${alert.pair} (${alert.timeframe}): ${ex.description}${values ? ` — ${values}` : ''}` };
+            }
+            case 'liquidation': {
+                if (!ctx.positions) {
+                    const { positions, error } = await this.deps.getPerpPositions();
+                    if (error) return { error };
+                    ctx.positions = positions || [];
+                }
+                let closest = null;
+                for (const pos of ctx.positions) {
+                    if (alert.market !== 'any' && pos.market !== alert.market) continue;
+                    const distance = await this._liquidationDistance(pos);
+                    if (distance && (!closest || distance.pct < closest.pct)) closest = { ...distance, pos };
+                }
+                if (!closest) return { triggered: false, value: null };
+                const { pos, pct, mark, liq } = closest;
+                return {
+                    triggered: pct <= alert.pct,
+                    value: +pct.toFixed(2),
+                    message: `${pos.side.toUpperCase()} ${pos.market}-PERP is ${pct.toFixed(1)}% from liquidation (mark $${fmtPrice(mark)}, liq ≈ $${fmtPrice(liq)})`,
+                };
+            }
+        }
+        return { error: `Unknown alert type: ${alert.type}` };
+    }
+
+    /**
+     * Distance from mark to liquidation price, as % of the mark.
+     * Uses the position's liquidationPrice when the venue reports one, else estimates it
+     * from collateral / size (the price move that wipes out the collateral).
+     */
+    async _liquidationDistance(pos) {
+        if (!pos.entryPrice || !pos.sizeUsd) return null;
+        const mark = pos.markPrice || await this.deps.getPrice(pos.market);
+        if (!mark) return null;
+        const lossFraction = pos.collateralUsd / pos.sizeUsd;
+        const liq = pos.liquidationPrice || (pos.side === 'long'
+            ? pos.entryPrice * (1 - lossFraction)
+            : pos.entryPrice * (1 + lossFraction));
+        const pct = (pos.side === 'long' ? mark - liq : liq - mark) / mark * 100;
+        return { pct: Math.max(0, pct), mark, liq };
+    }
+
+    // ─────────────────────────────────────────────────────────
+    //  Firing & delivery
+    // ─────────────────────────────────────────────────────────
+
+    async _fire(alert, message, now = Date.now()) {
+        alert.lastFiredAt = new Date(now).toISOString();
+        alert.fireCount = (alert.fireCount || 0) + 1;
+        const event = {
+            id: crypto.randomUUID(),
+            alertId: alert.id,
+            name: alert.name,
+            type: alert.type,
+            severity: alert.severity,
+            message,
+            firedAt: alert.lastFiredAt,
+            delivery: {},           // { webhook: 'sent' | 'rate-limited' | 'failed: …' }
+        };
+
+        this.history = [event, ...this.history].slice(0, HISTORY_LIMIT);
+        this.deps.broadcast({ type: 'TRADER_ALERT', alert: event });
+        event.delivery = await this._deliver(event, now);
+        this.deps.log({ type: 'alert', message: `🔔 ${event.name}: ${message}` });
+        return event;
+    }
+
+    async _deliver(event, now) {
+        const delivery = {};
+        this.deliveries = this.deliveries.filter(t => now - t < 60 * 60 * 1000);
+        for (const [id, config] of Object.entries(this.channels)) {
+            if (!config.enabled || SEVERITY_RANK[event.severity] < SEVERITY_RANK[config.minSeverity]) continue;
+            if (this.deliveries.length >= MAX_DELIVERIES_PER_HOUR) {
+                delivery[id] = 'rate-limited';
+                continue;
+            }
+            this.deliveries.push(now);
+            try {
+                await CHANNELS[id].send(config, event);
+                delivery[id] = 'sent';
+            } catch (e) {
+                delivery[id] = `failed: ${e.message}`;
+                console.error(`[AlertEngine] ${CHANNELS[id].label} delivery failed:`, e.message);
+            }
+        }
+        return delivery;
+    }
+}
+
+function fmtPrice(price) {
+    return price >= 1 ? price.toFixed(2) : price.toPrecision(4);
+}
+
+module.exports = AlertEngine;
@@ -0,0 +1,298 @@
+/**
+ * backtester.js — Strategy Backtesting Engine for Solana Trader
+ *
+ * Replays OHLCV history bar-by-bar through indicators.computeReplay (what
+ * computeAll returns at each bar, computed in one pass) and the trader's own
+ * rule evaluators, so a backtest judges a strategy exactly the way the live
+ * "Think" evaluation would have on each historical bar.
+ *
+ * Fill model:
+ *   - Signals are computed on a bar's close, filled at the NEXT bar's open
+ *     (no look-ahead), adjusted for slippage in the unfavorable direction
+ *   - Hard stops are the exception: the stop set at the previous close is
+ *     checked against each bar's low and fills at the stop, or at the open
+ *     if the bar gaps through it (positions are long-only)
+ *   - Fees are charged on notional at entry and at exit
+ *   - One position at a time, sized as a % of current equity
+ *   - Any position still open on the last bar is closed at its close
+ *
+ * All functions take OHLCV arrays: [{ o, h, l, c, v, t }, ...] oldest → newest,
+ * with `t` in unix seconds (GeckoTerminal format).
+ *
+ * Entry rules pinned to a coarser timeframe (e.g. a daily stage rule in an
+ * hourly backtest) read indicators from candles rolled up bar by bar, so the
+ * forming higher-timeframe candle only ever contains bars already closed.
+ */
+
+const indicators = require('./indicators');
+
+// Bars per year for annualizing Sharpe (crypto trades 24/7)
+const PERIODS_PER_YEAR = {
+    day: 365,
+    hour: 365 * 24,
+    minute: 365 * 24 * 60,
+};
+
+const TIMEFRAME_SECONDS = {
+    minute: 60,
+    hour: 3600,
+    day: 86400,
+};
+
+const DEFAULTS = {
+    initialCapital: 1000,   // USD
+    positionSizePct: 100,   // % of equity committed per trade
+    feeBps: 10,             // per side
+    slippageBps: 50,        // per side — matches the live swap default
+    warmupBars: 30,         // bars needed before indicators are meaningful
+};
+
+// ─────────────────────────────────────────────────────────────────
+//  Metrics
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Max peak-to-trough drawdown of an equity curve
+ * @param {Array<{ equity: number }>} curve
+ * @returns {number} drawdown as a positive percentage
+ */
+function maxDrawdown(curve) {
+    let peak = -Infinity;
+    let maxDd = 0;
+    for (const point of curve) {
+        if (point.equity > peak) peak = point.equity;
+        const dd = peak > 0 ? (peak - point.equity) / peak : 0;
+        if (dd > maxDd) maxDd = dd;
+    }
+    return maxDd * 100;
+}
+
+/**
+ * Annualized Sharpe ratio of per-bar equity returns (risk-free rate = 0)
+ * @param {Array<{ equity: number }>} curve
+ * @param {number} periodsPerYear
+ * @returns {number}
+ */
+function sharpeRatio(curve, periodsPerYear) {
+    if (curve.length < 3) return 0;
+    const returns = [];
+    for (let i = 1; i < curve.length; i++) {
+        const prev = curve[i - 1].equity;
+        returns.push(prev > 0 ? curve[i].equity / prev - 1 : 0);
+    }
+    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+    const variance = returns.reduce((a, r) => a + (r - mean) ** 2, 0) / (returns.length - 1);
+    const std = Math.sqrt(variance);
+    if (std === 0) return 0;
+    return (mean / std) * Math.sqrt(periodsPerYear);
+}
+
+
+/**
+ * Fold one bar into a coarser-timeframe series, extending the forming candle
+ * @param {Array} series - rolled-up candles, mutated in place
+ * @param {Object} bar - candle of the backtest timeframe
+ * @param {number} bucketSeconds - target timeframe length
+ */
+function rollInto(series, bar, bucketSeconds) {
+    const t = Math.floor(bar.t / bucketSeconds) * bucketSeconds;
+    const last = series[series.length - 1];
+    if (last && last.t === t) {
+        last.h = Math.max(last.h, bar.h);
+        last.l = Math.min(last.l, bar.l);
+        last.c = bar.c;
+        last.v += bar.v || 0;
+    } else {
+        series.push({ t, o: bar.o, h: bar.h, l: bar.l, c: bar.c, v: bar.v || 0 });
+    }
+}
+
+
+// ─────────────────────────────────────────────────────────────────
+//  Replay
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Run a backtest of a saved strategy over historical candles
+ * @param {Array} candles - OHLCV candles sorted oldest → newest
+ * @param {Object} strategy - { name, entryRules, exitRules } (entry rules may carry a coarser `timeframe`)
+ * @param {Object} hooks - { evaluateRule(rule, ind), evaluateExitRule(rule, pos, ind, holdDays) }
+ * @param {Object} options - initialCapital, positionSizePct, feeBps, slippageBps, warmupBars, timeframe, indicatorConfig
+ * @returns {Object} { summary, equityCurve, trades }
+ */
+function runBacktest(candles, strategy, hooks, options = {}) {
+    const opts = { ...DEFAULTS, ...options };
+    const timeframe = opts.timeframe || 'day';
+    const feeRate = opts.feeBps / 10000;
+    const slipRate = opts.slippageBps / 10000;
+    const warmup = Math.max(15, opts.warmupBars);
+
+    if (candles.length < warmup + 2) {
+        return { error: `Insufficient data: need at least ${warmup + 2} candles, got ${candles.length}` };
+    }
+
+    // Coarser timeframes referenced by entry rules, rolled up as the replay advances.
+    // Unpinned rules follow the strategy's own timeframe, as they do live.
+    const ruleTimeframe = (rule) => rule.timeframe || strategy.timeframe || timeframe;
+    const rollups = {};
+    for (const rule of strategy.entryRules || []) {
+        const tf = ruleTimeframe(rule);
+        if (tf === timeframe || rollups[tf]) continue;
+        if (!(TIMEFRAME_SECONDS[tf] > TIMEFRAME_SECONDS[timeframe])) {
+            return { error: `Rules on ${tf} candles can't be replayed on ${timeframe} candles — backtest on the strategy's finest timeframe` };
+        }
+        rollups[tf] = [];
+    }
+    for (let i = 0; i < warmup; i++) {
+        for (const tf of Object.keys(rollups)) rollInto(rollups[tf], candles[i], TIMEFRAME_SECONDS[tf]);
+    }
+
+    let cash = opts.initialCapital;
+    let position = null;         // { entryPrice, avgPrice, size, entryT, entryBar, entryFee, id }
+    let pendingEntry = false;
+    let pendingExit = null;      // signal that triggered the exit
+    let totalFees = 0;
+    const trades = [];
+    const equityCurve = [];
+
+    const replay = indicators.computeReplay(candles, opts.indicatorConfig || {});
+    let prevInd = replay(warmup - 1);
+    const isStop = (rule) => rule.type === 'hard_stop';
+    const stopRules = (strategy.exitRules || []).filter(isStop);
+    const closeRules = (strategy.exitRules || []).filter(rule => !isStop(rule));
+    const holdDaysAt = (bar) => Math.floor(((bar.t - position.entryT) * 1000) / 86400000);
+
+    const closePosition = (bar, fillPrice, reason, message) => {
+        const proceeds = position.size * fillPrice;
+        const exitFee = proceeds * feeRate;
+        totalFees += exitFee;
+        cash += proceeds - exitFee;
+        const cost = position.size * position.entryPrice + position.entryFee;
+        const pnl = proceeds - exitFee - cost;
+        trades.push({
+            entryTime: position.entryT,
+            exitTime: candles[bar].t,
+            entryPrice: position.entryPrice,
+            exitPrice: fillPrice,
+            size: position.size,
+            pnl,
+            pnlPct: cost > 0 ? (pnl / cost) * 100 : 0,
+            fees: position.entryFee + exitFee,
+            bars: bar - position.entryBar,
+            reason,
+            message,
+        });
+        position = null;
+    };
+
+    for (let i = warmup; i < candles.length; i++) {
+        const bar = candles[i];
+
+        // 1. Fill orders decided on the previous bar's close at this bar's open
+        if (pendingExit && position) {
+            closePosition(i, bar.o * (1 - slipRate), pendingExit.type, pendingExit.message);
+        } else if (pendingEntry && !position) {
+            const fillPrice = bar.o * (1 + slipRate);
+            const budget = cash * Math.min(100, Math.max(0, opts.positionSizePct)) / 100;
+            const entryFee = budget * feeRate;
+            const size = (budget - entryFee) / fillPrice;
+            if (size > 0) {
+                cash -= budget;
+                totalFees += entryFee;
+                position = { id: `bt_${i}`, entryPrice: fillPrice, avgPrice: fillPrice, size, entryT: bar.t, entryBar: i, entryFee };
+            }
+        }
+        pendingEntry = false;
+        pendingExit = null;
+
+        // 2. Hard stops trigger inside the bar, at the level set on the previous close
+        if (position) {
+            for (const rule of stopRules) {
+                const { signal } = hooks.evaluateExitRule(rule, position, { ...prevInd, price: bar.l }, holdDaysAt(bar));
+                if (signal) {
+                    closePosition(i, Math.min(bar.o, signal.stopPrice ?? bar.l) * (1 - slipRate), signal.type, signal.message);
+                    break;
+                }
+            }
+        }
+
+        // 3. Evaluate the strategy on this bar's close, using only history up to it
+        const ind = replay(i);
+        const byTimeframe = { [timeframe]: ind };
+        for (const tf of Object.keys(rollups)) {
+            rollInto(rollups[tf], bar, TIMEFRAME_SECONDS[tf]);
+            try {
+                byTimeframe[tf] = indicators.computeAll(rollups[tf], opts.indicatorConfig || {});
+            } catch (e) {
+                byTimeframe[tf] = null; // not enough higher-timeframe history yet — its rules fail
+            }
+        }
+
+        if (position) {
+            for (const rule of closeRules) {
+                const { signal } = hooks.evaluateExitRule(rule, position, ind, holdDaysAt(bar));
+                if (signal) { pendingExit = signal; break; }
+            }
+        } else if ((strategy.entryRules || []).length > 0) {
+            pendingEntry = strategy.entryRules.every(rule => {
+                const tfInd = byTimeframe[ruleTimeframe(rule)];
+                return !!tfInd && hooks.evaluateRule(rule, tfInd);
+            });
+        }
+
+        // 4. Mark to market
+        const equity = cash + (position ? position.size * bar.c : 0);
+        equityCurve.push({ t: bar.t, equity, price: bar.c, inPosition: !!position });
+        prevInd = ind;
+    }
+
+    // Close anything still open at the final close
+    const last = candles.length - 1;
+    if (position) {
+        closePosition(last, candles[last].c * (1 - slipRate), 'end_of_data', 'Closed at end of backtest window');
+        equityCurve[equityCurve.length - 1].equity = cash;
+        equityCurve[equityCurve.length - 1].inPosition = false;
+    }
+
+    const finalEquity = cash;
+    const wins = trades.filter(t => t.pnl > 0);
+    const losses = trades.filter(t => t.pnl <= 0);
+    const grossWin = wins.reduce((a, t) => a + t.pnl, 0);
+    const grossLoss = Math.abs(losses.reduce((a, t) => a + t.pnl, 0));
+    const firstPrice = candles[warmup].c;
+    const lastPrice = candles[last].c;
+
+    return {
+        summary: {
+            strategyName: strategy.name,
+            timeframe,
+            bars: equityCurve.length,
+            startTime: candles[warmup].t,
+            endTime: candles[last].t,
+            initialCapital: opts.initialCapital,
+            finalEquity,
+            totalReturnPct: ((finalEquity - opts.initialCapital) / opts.initialCapital) * 100,
+            buyHoldReturnPct: firstPrice > 0 ? ((lastPrice - firstPrice) / firstPrice) * 100 : 0,
+            trades: trades.length,
+            winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+            avgTradePct: trades.length > 0 ? trades.reduce((a, t) => a + t.pnlPct, 0) / trades.length : 0,
+            // Undefined without losses (it would be Infinity, which JSON turns into null) — flagged instead
+            profitFactor: grossLoss > 0 ? grossWin / grossLoss : null,
+            noLosingTrades: grossLoss === 0 && grossWin > 0,
+            maxDrawdownPct: maxDrawdown(equityCurve),
+            sharpe: sharpeRatio(equityCurve, PERIODS_PER_YEAR[timeframe] || 365),
+            totalFees,
+            feeBps: opts.feeBps,
+            slippageBps: opts.slippageBps,
+        },
+        equityCurve,
+        trades,
+    };
+}
+
+module.exports = {
+    runBacktest,
+    maxDrawdown,
+    sharpeRatio,
+    BACKTEST_DEFAULTS: DEFAULTS,
+};
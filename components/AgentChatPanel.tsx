@@ -1,10 +1,8 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { ClawAgent, AgentChatMessage } from '../types';
-import { Send, X, Loader2, Sparkles } from 'lucide-react';
-import { GoogleGenAI } from '@google/genai';
-import { getApiKey } from '../services/geminiService';
-import { openRouterService } from '../services/openRouterService';
+import { Send, X, Loader2, Sparkles, Square } from 'lucide-react';
+import { geminiService } from '../services/geminiService';
 
 interface AgentChatPanelProps {
     agent: ClawAgent;
@@ -26,6 +24,8 @@ const COLOR_MAP: Record<string, { accent: string; border: string; bg: string; gl
 const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ agent, onClose, onUpdateAgent }) => {
     const [input, setInput] = useState('');
     const [isProcessing, setIsProcessing] = useState(false);
+    const [streamingText, setStreamingText] = useState('');
+    const abortRef = useRef<AbortController | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLTextAreaElement>(null);
     const colors = COLOR_MAP[agent.color] || COLOR_MAP.slate;
@@ -35,8 +35,14 @@ const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ agent, onClose, onUpdat
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [history.length, isProcessing]);
 
+    useEffect(() => {
+        if (streamingText) messagesEndRef.current?.scrollIntoView({ behavior: 'auto' });
+    }, [streamingText]);
+
     useEffect(() => {
         inputRef.current?.focus();
+        // Closing the panel stops a reply that's still coming in
+        return () => abortRef.current?.abort();
     }, []);
 
     const handleSend = async () => {
@@ -74,60 +80,18 @@ PERSONALITY RULES:
 - If asked about things outside your specialty, still help but note it's outside your lane
 - Keep responses under 3 paragraphs unless the user needs detail`;
 
-        try {
-            let responseText = '';
-
-            if (agent.modelId && openRouterService.isAvailable()) {
-                // --- OpenRouter path (e.g. free Qwen) ---
-                const historyForOR = updatedHistory.map(m => ({
-                    role: m.role === 'user' ? 'user' : 'assistant',
-                    content: m.content
-                }));
-                const result = await openRouterService.sendAgentMessage(
-                    systemPrompt,
-                    text,
-                    [], // no tools for agent chat
-                    agent.modelId
-                );
-                responseText = result.text;
-            } else if (getApiKey()) {
-                // --- Gemini path (has Gemini key) ---
-                const ai = new GoogleGenAI({ apiKey: getApiKey() });
-
-                const geminiHistory = updatedHistory.map(msg => ({
-                    role: msg.role === 'user' ? 'user' as const : 'model' as const,
-                    parts: [{ text: msg.content }]
-                }));
-
-                const cleanHistory: Array<{ role: 'user' | 'model'; parts: Array<{ text: string }> }> = [];
-                for (let i = 0; i < geminiHistory.length - 1; i++) {
-                    if (i === 0 && geminiHistory[i].role !== 'user') continue;
-                    if (cleanHistory.length > 0 && cleanHistory[cleanHistory.length - 1].role === geminiHistory[i].role) {
-                        cleanHistory[cleanHistory.length - 1].parts[0].text += '\n\n' + geminiHistory[i].parts[0].text;
-                    } else {
-                        cleanHistory.push({ ...geminiHistory[i] });
-                    }
-                }
-
-                const chat = ai.chats.create({
-                    model: 'gemini-2.0-flash',
-                    config: { systemInstruction: systemPrompt },
-                    history: cleanHistory
-                });
+        const controller = new AbortController();
+        abortRef.current = controller;
 
-                const result = await chat.sendMessage({ message: [{ text: text }] });
-                responseText = result.text || '';
-            } else if (openRouterService.isAvailable()) {
-                // --- OpenRouter fallback (no Gemini key, but has OpenRouter key) ---
-                const result = await openRouterService.sendAgentMessage(
-                    systemPrompt,
-                    text,
-                    []
-                );
-                responseText = result.text;
-            } else {
-                responseText = `⚠️ No API key configured. Add a Gemini or OpenRouter key in Vault → Secrets to chat with agents.`;
-            }
+        try {
+            // Same routing as missions: the agent's pinned model when its provider is set up, else Gemini or OpenRouter
+            const result = await geminiService.sendAgentMessage(systemPrompt, text, [], agent.modelId, {
+                history: history.map(m => ({ role: m.role, content: m.content })),
+                signal: controller.signal,
+                attribution: { agentId: agent.id },
+                onEvent: (event) => { if (event.type === 'text') setStreamingText(prev => prev + event.delta); },
+            });
+            const responseText = result.aborted ? `${result.text ? `${result.text}\n\n` : ''}⏹️ Stopped.` : result.text;
 
             const modelMsg: AgentChatMessage = {
                 role: 'model',
@@ -144,6 +108,8 @@ PERSONALITY RULES:
             };
             onUpdateAgent({ ...agent, chatHistory: [...updatedHistory, errorMsg] });
         } finally {
+            abortRef.current = null;
+            setStreamingText('');
             setIsProcessing(false);
         }
     };
@@ -209,7 +175,17 @@ PERSONALITY RULES:
                             </span>
                         </div>
                     ))}
-                    {isProcessing && (
+                    {isProcessing && streamingText && (
+                        <div className="flex flex-col max-w-[85%] mr-auto items-start">
+                            <span className="text-[8px] text-white/20 font-black uppercase tracking-widest mb-1 ml-1">{agent.mascot} {agent.name}</span>
+                            <div className="rounded-2xl px-4 py-3 text-[13px] shadow-lg break-words bg-white/[0.06] text-slate-100 rounded-bl-sm border border-white/[0.06]">
+                                <div className="whitespace-pre-wrap leading-relaxed font-medium">
+                                    {streamingText}<span className={`inline-block w-1.5 h-3.5 ml-0.5 align-middle animate-pulse ${colors.bubbleBg}`} />
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                    {isProcessing && !streamingText && (
                         <div className="flex items-center gap-2 text-white/30 mr-auto">
                             <div className={`w-8 h-8 rounded-xl flex items-center justify-center text-sm ${colors.bg} ${colors.border} border`}>
                                 {agent.mascot}
@@ -240,13 +216,23 @@ PERSONALITY RULES:
                             rows={1}
                             className={`flex-1 bg-black/30 border border-white/[0.08] rounded-xl p-3 text-[13px] text-white focus:outline-none focus:${colors.border} resize-none font-medium transition-all`}
                         />
-                        <button
-                            onClick={handleSend}
-                            disabled={isProcessing || !input.trim()}
-                            className={`p-3 rounded-xl shadow-xl disabled:opacity-30 transition-all text-white ${colors.bubbleBg}`}
-                        >
-                            <Send className="w-4 h-4" />
-                        </button>
+                        {isProcessing ? (
+                            <button
+                                onClick={() => abortRef.current?.abort()}
+                                className={`p-3 rounded-xl shadow-xl transition-all text-white bg-white/10 border ${colors.border}`}
+                                title="Stop"
+                            >
+                                <Square className="w-4 h-4 fill-current" />
+                            </button>
+                        ) : (
+                            <button
+                                onClick={handleSend}
+                                disabled={!input.trim()}
+                                className={`p-3 rounded-xl shadow-xl disabled:opacity-30 transition-all text-white ${colors.bubbleBg}`}
+                            >
+                                <Send className="w-4 h-4" />
+                            </button>
+                        )}
                     </div>
                 </div>
             </div>
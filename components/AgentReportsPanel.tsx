@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ClawAgent, AgentLog, AgentMission } from '../types';
+import { X, Loader2, ScrollText, AlertTriangle, Play, Server, Monitor } from 'lucide-react';
+import { autonomousAgentService } from '../services/autonomousAgentService';
+
+interface AgentReportsPanelProps {
+    agent: ClawAgent;
+    mission: AgentMission | null;
+    onClose: () => void;
+}
+
+const PAGE_SIZE = 10;
+
+const TYPE_STYLE: Record<AgentLog['type'], string> = {
+    REPORT: 'border-white/10 bg-white/[0.03]',
+    ALERT: 'border-amber-500/30 bg-amber-500/5',
+    ERROR: 'border-rose-500/30 bg-rose-500/5',
+};
+
+const AgentReportsPanel: React.FC<AgentReportsPanelProps> = ({ agent, mission, onClose }) => {
+    const [logs, setLogs] = useState<AgentLog[]>([]);
+    const [total, setTotal] = useState(0);
+    const [loading, setLoading] = useState(false);
+    const [runMessage, setRunMessage] = useState<string | null>(null);
+
+    const loadPage = useCallback(async (offset: number) => {
+        setLoading(true);
+        const page = await autonomousAgentService.fetchLogs(agent.id, PAGE_SIZE, offset);
+        setLogs(prev => offset === 0 ? page.items : [...prev, ...page.items]);
+        setTotal(page.total);
+        setLoading(false);
+    }, [agent.id]);
+
+    useEffect(() => { loadPage(0); }, [loadPage]);
+
+    const handleRunNow = async () => {
+        setRunMessage('Running…');
+        const result = await autonomousAgentService.runMission(agent.id);
+        setRunMessage(result.slice(0, 160));
+        loadPage(0);
+    };
+
+    return (
+        <div className="fixed inset-0 z-[4000] flex items-end justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+            <div
+                className="w-full max-w-lg mb-0 sm:mb-6 rounded-t-[32px] sm:rounded-[32px] glass-panel flex flex-col overflow-hidden border border-white/10"
+                style={{ maxHeight: '75vh', animation: 'slideUp 0.35s cubic-bezier(0.16, 1, 0.3, 1)' }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="p-5 border-b border-white/5 bg-white/[0.03] shrink-0">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                            <div className="w-12 h-12 rounded-2xl flex items-center justify-center text-2xl border border-white/10 bg-white/5 shadow-lg">
+                                {agent.mascot}
+                            </div>
+                            <div>
+                                <h3 className="text-base font-bold text-white uppercase tracking-tight flex items-center gap-2">
+                                    {agent.name}
+                                    <ScrollText className="w-3.5 h-3.5 text-white/40" />
+                                </h3>
+                                <span className="text-[9px] text-white/40 font-mono uppercase tracking-widest">
+                                    Field Reports · {total} total
+                                </span>
+                            </div>
+                        </div>
+                        <button onClick={onClose} className="p-2 text-white/30 hover:text-white hover:bg-white/5 rounded-xl transition-all">
+                            <X className="w-5 h-5" />
+                        </button>
+                    </div>
+
+                    {mission && (
+                        <div className="mt-4 flex items-center justify-between gap-3">
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2 text-[9px] font-mono uppercase tracking-widest text-white/40">
+                                    {autonomousAgentService.isServerScheduled()
+                                        ? <><Server className="w-3 h-3" /> Server</>
+                                        : <><Monitor className="w-3 h-3" /> Browser</>}
+                                    <span>· {mission.schedule}</span>
+                                    <span>· {mission.lastRun ? `last run ${new Date(mission.lastRun).toLocaleString()}` : 'not run yet'}</span>
+                                </div>
+                                <div className="mt-2 h-1.5 rounded-full bg-white/5 overflow-hidden">
+                                    <div className="h-full bg-emerald-500/60" style={{ width: `${mission.progress}%` }} />
+                                </div>
+                            </div>
+                            <button
+                                onClick={handleRunNow}
+                                className="px-3 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 hover:bg-emerald-500/20 transition-all flex items-center gap-1"
+                            >
+                                <Play className="w-3 h-3" /> Run Now
+                            </button>
+                        </div>
+                    )}
+                    {runMessage && <p className="mt-2 text-[10px] text-white/40 font-mono">{runMessage}</p>}
+                </div>
+
+                {/* Reports */}
+                <div className="flex-1 overflow-y-auto p-5 space-y-3 scrollbar-hide">
+                    {logs.length === 0 && !loading && (
+                        <p className="text-center text-[10px] text-white/20 font-mono uppercase tracking-widest py-10">
+                            {mission ? 'No field reports yet' : 'Agent not deployed — no reports'}
+                        </p>
+                    )}
+                    {logs.map(log => (
+                        <div key={log.id} className={`rounded-2xl border p-4 ${TYPE_STYLE[log.type]}`}>
+                            <div className="flex items-center justify-between mb-2">
+                                <span className={`text-[8px] font-black uppercase tracking-widest flex items-center gap-1 ${log.type === 'REPORT' ? 'text-white/40' : log.type === 'ALERT' ? 'text-amber-400' : 'text-rose-400'}`}>
+                                    {log.type !== 'REPORT' && <AlertTriangle className="w-3 h-3" />}
+                                    {log.type}
+                                </span>
+                                <span className="text-[9px] text-white/20 font-mono">
+                                    {new Date(log.createdAt).toLocaleString()}{log.runner ? ` · ${log.runner}` : ''}
+                                </span>
+                            </div>
+                            <p className="text-xs text-white/70 whitespace-pre-wrap leading-relaxed">{log.content}</p>
+                        </div>
+                    ))}
+                    {loading && (
+                        <div className="flex justify-center py-4"><Loader2 className="w-4 h-4 text-white/30 animate-spin" /></div>
+                    )}
+                    {!loading && logs.length < total && (
+                        <button
+                            onClick={() => loadPage(logs.length)}
+                            className="w-full py-2 rounded-xl bg-white/5 text-white/40 hover:text-white text-[9px] font-black uppercase tracking-widest transition-all"
+                        >
+                            Load older reports ({total - logs.length} more)
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AgentReportsPanel;
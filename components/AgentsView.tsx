@@ -1,8 +1,10 @@
 
-import React, { useState } from 'react';
-import { ClawAgent, AgentStatus, PersonaType } from '../types';
-import { Search, Plus, Trash2, Target, Zap, Bot, Swords, ChevronDown, Pencil, Check, X, MessageCircle, TrendingUp, BarChart3, Newspaper, DollarSign, ArrowLeftRight, Eye, Shield, Cpu } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { ClawAgent, AgentStatus, PersonaType, Delegation, DelegationStatus } from '../types';
+import { Search, Plus, Trash2, Target, Zap, Bot, Swords, ChevronDown, Pencil, Check, X, MessageCircle, TrendingUp, BarChart3, Newspaper, DollarSign, ArrowLeftRight, Eye, Shield, Cpu, ScrollText, Send, Loader2 } from 'lucide-react';
 import AgentChatPanel from './AgentChatPanel';
+import AgentReportsPanel from './AgentReportsPanel';
+import { autonomousAgentService } from '../services/autonomousAgentService';
 import { OPENROUTER_MODELS } from '../services/openRouterService';
 
 interface AgentsViewProps {
@@ -31,6 +33,13 @@ const COLOR_ACCENTS: Record<string, string> = {
     slate: 'from-slate-600/20 to-slate-900/10 border-slate-500/20',
 };
 
+const DELEGATION_STYLE: Record<DelegationStatus, string> = {
+    QUEUED: 'text-white/40 bg-white/5 border-white/10',
+    RUNNING: 'text-cyan-400 bg-cyan-500/10 border-cyan-500/20',
+    DONE: 'text-emerald-400 bg-emerald-500/10 border-emerald-500/20',
+    FAILED: 'text-rose-400 bg-rose-500/10 border-rose-500/20',
+};
+
 const MASCOTS = ['🦀', '🦐', '🐙', '🦑', '🐚', '🦞', '🐠', '🐡', '🦈', '🐋', '🐢', '🦭'];
 const COLORS = ['rose', 'emerald', 'amber', 'cyan', 'indigo', 'violet', 'pink', 'slate'];
 
@@ -126,10 +135,16 @@ const AgentsView: React.FC<AgentsViewProps> = ({ agents, persona = 'assistant',
     const [editQuest, setEditQuest] = useState('');
     const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
     const [chattingAgentId, setChattingAgentId] = useState<string | null>(null);
+    const [reportsAgentId, setReportsAgentId] = useState<string | null>(null);
     const [showPresets, setShowPresets] = useState(false);
+    const [delegations, setDelegations] = useState<Delegation[]>([]);
+    const [openDelegationId, setOpenDelegationId] = useState<string | null>(null);
+
+    useEffect(() => autonomousAgentService.subscribeDelegations(list => setDelegations([...list])), []);
 
     const isTrader = persona === 'trader';
     const chattingAgent = chattingAgentId ? agents.find(a => a.id === chattingAgentId) || null : null;
+    const reportsAgent = reportsAgentId ? agents.find(a => a.id === reportsAgentId) || null : null;
 
     const filteredAgents = agents.filter(a =>
         a.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -274,6 +289,48 @@ const AgentsView: React.FC<AgentsViewProps> = ({ agents, persona = 'assistant',
                 </div>
             )}
 
+            {/* Delegations from Claw */}
+            {delegations.length > 0 && (
+                <div className="mb-6 shrink-0 glass-panel p-5 rounded-[28px] border-white/5">
+                    <div className="flex items-center gap-2 mb-3">
+                        <Send className="w-3.5 h-3.5 text-white/30" />
+                        <span className="text-[9px] font-black text-white/30 uppercase tracking-[0.2em]">Delegated by Claw</span>
+                        <span className="text-[9px] text-white/20 font-mono">
+                            {delegations.filter(d => d.status === 'RUNNING' || d.status === 'QUEUED').length} in progress
+                        </span>
+                    </div>
+                    <div className="space-y-1.5 max-h-64 overflow-y-auto">
+                        {delegations.slice(0, 8).map(d => (
+                            <div key={d.id} className="bg-black/20 rounded-xl border border-white/5">
+                                <button
+                                    onClick={() => setOpenDelegationId(openDelegationId === d.id ? null : d.id)}
+                                    className="w-full flex items-center gap-3 px-3 py-2 text-left"
+                                >
+                                    <span className="text-lg leading-none">{d.mascot}</span>
+                                    <span className="text-[10px] font-bold text-white uppercase tracking-wide shrink-0">{d.agentName}</span>
+                                    <span className="text-[10px] text-white/50 font-mono truncate flex-1">{d.directive}</span>
+                                    {d.status === 'RUNNING' && <Loader2 className="w-3 h-3 text-cyan-400 animate-spin shrink-0" />}
+                                    <span className={`px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest border shrink-0 ${DELEGATION_STYLE[d.status]}`}>{d.status}</span>
+                                    <ChevronDown className={`w-3 h-3 text-white/20 shrink-0 transition-transform ${openDelegationId === d.id ? 'rotate-180' : ''}`} />
+                                </button>
+                                {openDelegationId === d.id && (
+                                    <div className="px-3 pb-3 text-[10px] font-mono">
+                                        <div className="text-white/25 mb-1.5">
+                                            {d.model === 'gemini' ? 'Gemini Flash' : d.model.split('/').pop()} · started {new Date(d.createdAt).toLocaleTimeString()}
+                                            {d.finishedAt && ` · ${Math.round((new Date(d.finishedAt).getTime() - new Date(d.createdAt).getTime()) / 1000)}s`}
+                                            {d.toolsUsed.length > 0 && ` · tools: ${d.toolsUsed.join(', ')}`}
+                                        </div>
+                                        {d.result && <p className="text-white/60 whitespace-pre-wrap leading-relaxed">{d.result}</p>}
+                                        {d.error && <p className="text-rose-400">{d.error}</p>}
+                                        {!d.result && !d.error && <p className="text-white/20 italic">Working on it…</p>}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Search */}
             <div className="mb-8 flex gap-4 shrink-0">
                 <div className="relative max-w-md group flex-1">
@@ -305,6 +362,7 @@ const AgentsView: React.FC<AgentsViewProps> = ({ agents, persona = 'assistant',
                         {filteredAgents.map(agent => {
                             const statusCfg = STATUS_CONFIG[agent.status];
                             const accent = COLOR_ACCENTS[agent.color] || COLOR_ACCENTS.slate;
+                            const delegation = delegations.find(d => d.agentId === agent.id);
 
                             return (
                                 <div
@@ -389,6 +447,19 @@ const AgentsView: React.FC<AgentsViewProps> = ({ agents, persona = 'assistant',
                                             </div>
                                         )}
 
+                                        {/* Latest delegation from Claw */}
+                                        {delegation && (
+                                            <button
+                                                onClick={() => setOpenDelegationId(delegation.id)}
+                                                className={`flex items-center gap-2 rounded-xl px-3 py-2 border text-left ${DELEGATION_STYLE[delegation.status]}`}
+                                                title={delegation.directive}
+                                            >
+                                                {delegation.status === 'RUNNING' ? <Loader2 className="w-3 h-3 animate-spin shrink-0" /> : <Send className="w-3 h-3 shrink-0" />}
+                                                <span className="text-[8px] font-black uppercase tracking-widest shrink-0">Delegation {delegation.status.toLowerCase()}</span>
+                                                <span className="text-[10px] text-white/50 font-mono truncate">{delegation.directive}</span>
+                                            </button>
+                                        )}
+
                                         {/* Model Selector */}
                                         <div className="flex items-center gap-2 mt-1">
                                             <Cpu className="w-3 h-3 text-white/20" />
@@ -417,6 +488,13 @@ const AgentsView: React.FC<AgentsViewProps> = ({ agents, persona = 'assistant',
                                                 >
                                                     <MessageCircle className="w-4 h-4" />
                                                 </button>
+                                                <button
+                                                    onClick={() => setReportsAgentId(agent.id)}
+                                                    className="p-2 text-white/20 hover:text-white hover:bg-white/5 rounded-xl transition-all"
+                                                    title="Field Reports"
+                                                >
+                                                    <ScrollText className="w-4 h-4" />
+                                                </button>
                                                 <button
                                                     onClick={() => startEditQuest(agent)}
                                                     className="p-2 text-white/20 hover:text-white hover:bg-white/5 rounded-xl transition-all"
@@ -458,6 +536,15 @@ const AgentsView: React.FC<AgentsViewProps> = ({ agents, persona = 'assistant',
                 )}
             </div>
 
+            {/* Field Report History */}
+            {reportsAgent && (
+                <AgentReportsPanel
+                    agent={reportsAgent}
+                    mission={autonomousAgentService.getMissionStatus(reportsAgent.id)}
+                    onClose={() => setReportsAgentId(null)}
+                />
+            )}
+
             {/* Agent Chat Panel */}
             {chattingAgent && (
                 <AgentChatPanel
@@ -0,0 +1,458 @@
+import React, { useState, useEffect } from 'react';
+import { Bell, BellRing, ChevronDown, Plus, Play, Pause, Trash2, Loader2, AlertTriangle, CheckCircle2, X, Send, Webhook, Mail } from 'lucide-react';
+import { gatewayService } from '../services/gatewayService';
+
+type AlertType = 'price' | 'move' | 'indicator' | 'liquidation';
+type Severity = 'info' | 'warning' | 'critical';
+
+interface TraderAlert {
+    id: string;
+    name: string;
+    type: AlertType;
+    severity: Severity;
+    enabled: boolean;
+    cooldownMin: number;
+    token?: string;
+    op?: 'above' | 'below';
+    value?: number;
+    pct?: number;
+    windowHours?: number;
+    direction?: 'up' | 'down' | 'either';
+    pair?: string;
+    timeframe?: string;
+    expression?: string;
+    market?: string;
+    active: boolean;
+    lastFiredAt: string | null;
+    lastCheckedAt: string | null;
+    lastValue: number | null;
+    lastError: string | null;
+    fireCount: number;
+}
+
+interface AlertEvent {
+    id: string;
+    alertId: string;
+    name: string;
+    severity: Severity;
+    message: string;
+    firedAt: string;
+    delivery: Record<string, string>;
+}
+
+interface ChannelConfig {
+    enabled: boolean;
+    minSeverity: Severity;
+    [key: string]: any;
+}
+
+const TOKEN_OPTIONS = ['SOL', 'JUP', 'BONK', 'WIF', 'JTO', 'PYTH', 'RAY', 'ORCA'];
+const PAIR_OPTIONS = ['SOL/USDC', 'JUP', 'BONK', 'WIF', 'JTO', 'PYTH', 'RAY', 'ORCA'];
+const PERP_MARKETS = ['any', 'SOL', 'ETH', 'wBTC'];
+
+const EMPTY_ALERT = {
+    type: 'price' as AlertType,
+    severity: 'warning' as Severity,
+    name: '',
+    token: 'SOL',
+    op: 'above' as 'above' | 'below',
+    value: '',
+    pct: '5',
+    windowHours: '24',
+    direction: 'either' as 'up' | 'down' | 'either',
+    pair: 'SOL/USDC',
+    timeframe: 'hour',
+    expression: '',
+    market: 'any',
+    cooldownMin: '60',
+};
+
+// The trader HUD's "Large Price Move" rule, as a live alert
+const LARGE_MOVE_PRESET = { type: 'move', severity: 'critical', name: 'Large Price Move', token: 'SOL', pct: 5, windowHours: 24, direction: 'either' };
+
+const SEVERITY_STYLE: Record<Severity, string> = {
+    info: 'bg-blue-500/10 text-blue-400',
+    warning: 'bg-amber-500/10 text-amber-400',
+    critical: 'bg-red-500/10 text-red-400',
+};
+
+const describeCondition = (a: TraderAlert) => {
+    switch (a.type) {
+        case 'price': return `${a.token} ${a.op} $${a.value}`;
+        case 'move': return `${a.token} ${a.direction === 'either' ? '±' : a.direction === 'up' ? '+' : '−'}${a.pct}% over ${a.windowHours}h`;
+        case 'indicator': return `${a.pair} ${a.timeframe} · ${a.expression}`;
+        case 'liquidation': return `${a.market === 'any' ? 'any perp' : `${a.market}-PERP`} within ${a.pct}% of liquidation`;
+    }
+};
+
+const inputClass = 'bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white outline-none';
+
+const AlertsPanel: React.FC = () => {
+    const [expanded, setExpanded] = useState(true);
+    const [alerts, setAlerts] = useState<TraderAlert[]>([]);
+    const [history, setHistory] = useState<AlertEvent[]>([]);
+    const [channels, setChannels] = useState<Record<string, ChannelConfig>>({});
+    const [showForm, setShowForm] = useState(false);
+    const [showChannels, setShowChannels] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [draft, setDraft] = useState(EMPTY_ALERT);
+    const [saving, setSaving] = useState(false);
+    const [testing, setTesting] = useState<string | null>(null);
+    const [testResult, setTestResult] = useState<Record<string, string>>({});
+    const [latest, setLatest] = useState<AlertEvent | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const unsub = gatewayService.subscribeTrader((data: any) => {
+            switch (data.type) {
+                case 'TRADER_ALERTS':
+                    setAlerts(data.alerts || []);
+                    setHistory(data.history || []);
+                    setChannels(data.channels || {});
+                    if (saving) { setSaving(false); setShowForm(false); setDraft(EMPTY_ALERT); }
+                    break;
+                case 'TRADER_ALERT':
+                    // The engine follows up with TRADER_ALERTS once delivery is done
+                    setLatest(data.alert);
+                    if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+                        new Notification(`🔔 ${data.alert.name}`, { body: data.alert.message });
+                    }
+                    break;
+                case 'TRADER_ALERT_CHANNEL_TEST':
+                    setTesting(null);
+                    setTestResult(prev => ({ ...prev, [data.channel]: data.error || 'Test alert sent' }));
+                    break;
+                case 'TRADER_ERROR':
+                    if (data.context !== 'alerts') break;
+                    setSaving(false);
+                    setError(data.error);
+                    break;
+            }
+        });
+        return () => unsub();
+    }, [saving]);
+
+    useEffect(() => { gatewayService.traderGetAlerts(); }, []);
+
+    useEffect(() => {
+        if (error) { const t = setTimeout(() => setError(''), 8000); return () => clearTimeout(t); }
+    }, [error]);
+
+    const handleAdd = () => {
+        const base = { type: draft.type, severity: draft.severity, name: draft.name, cooldownMin: parseInt(draft.cooldownMin) };
+        let fields: any;
+        switch (draft.type) {
+            case 'price':
+                if (!(parseFloat(draft.value) > 0)) { setError('Enter a price level'); return; }
+                fields = { token: draft.token, op: draft.op, value: parseFloat(draft.value) };
+                break;
+            case 'move':
+                fields = { token: draft.token, pct: parseFloat(draft.pct), windowHours: parseInt(draft.windowHours), direction: draft.direction };
+                break;
+            case 'indicator':
+                if (!draft.expression.trim()) { setError('Enter a condition, e.g. rsi < 30'); return; }
+                fields = { pair: draft.pair, timeframe: draft.timeframe, expression: draft.expression };
+                break;
+            case 'liquidation':
+                fields = { market: draft.market, pct: parseFloat(draft.pct) };
+                break;
+        }
+        setSaving(true);
+        setError('');
+        gatewayService.traderAddAlert({ ...base, ...fields });
+    };
+
+    const updateChannel = (channel: string, patch: Record<string, any>) => {
+        setChannels(prev => ({ ...prev, [channel]: { ...prev[channel], ...patch } }));
+    };
+
+    const saveChannel = (channel: string) => {
+        setTestResult(prev => ({ ...prev, [channel]: '' }));
+        gatewayService.traderSetAlertChannel(channel, channels[channel]);
+    };
+
+    const testChannel = (channel: string) => {
+        setTesting(channel);
+        setTestResult(prev => ({ ...prev, [channel]: '' }));
+        gatewayService.traderTestAlertChannel(channel);
+    };
+
+    const enabledCount = alerts.filter(a => a.enabled).length;
+    const webhook = channels.webhook;
+    const smtp = channels.smtp;
+
+    const severitySelect = (channel: string, value: Severity) => (
+        <select value={value} onChange={e => updateChannel(channel, { minSeverity: e.target.value })} className={inputClass}>
+            <option value="info">Info and up</option>
+            <option value="warning">Warning and up</option>
+            <option value="critical">Critical only</option>
+        </select>
+    );
+
+    const channelFooter = (channel: string) => (
+        <div className="flex items-center gap-2">
+            <button onClick={() => saveChannel(channel)} className="px-3 py-1 rounded-lg text-[10px] font-bold text-white bg-orange-500/20 hover:bg-orange-500/30 border border-orange-500/20">Save</button>
+            <button onClick={() => testChannel(channel)} disabled={testing === channel} className="flex items-center gap-1 px-3 py-1 rounded-lg text-[10px] font-bold text-white/60 bg-white/5 hover:bg-white/10 border border-white/10 disabled:opacity-40">
+                {testing === channel ? <Loader2 className="w-3 h-3 animate-spin" /> : <Send className="w-3 h-3" />} Send test
+            </button>
+            {testResult[channel] && <span className={`text-[9px] truncate ${testResult[channel] === 'Test alert sent' ? 'text-green-400' : 'text-red-400'}`}>{testResult[channel]}</span>}
+        </div>
+    );
+
+    return (
+        <div className="rounded-2xl border border-white/[0.06] bg-gradient-to-b from-white/[0.03] to-transparent overflow-hidden">
+            {/* Header */}
+            <div className="flex items-center justify-between p-5 pb-2 cursor-pointer" onClick={() => setExpanded(!expanded)}>
+                <h2 className="text-sm font-bold text-white flex items-center gap-2">
+                    <div className="w-7 h-7 rounded-lg bg-orange-500/10 flex items-center justify-center">
+                        <Bell className="w-4 h-4 text-orange-400" />
+                    </div>
+                    Alerts
+                    {enabledCount > 0 && (
+                        <span className="text-[8px] bg-orange-500/15 text-orange-400 px-2 py-0.5 rounded-full font-bold uppercase tracking-wider border border-orange-500/10">
+                            {enabledCount} watching
+                        </span>
+                    )}
+                </h2>
+                <ChevronDown className={`w-4 h-4 text-white/30 transition-transform duration-300 ${expanded ? 'rotate-180' : ''}`} />
+            </div>
+            <p className="text-[10px] text-white/20 px-5 pb-3">Checked by the bot loop while it is started; delivered here and to your webhook / email even when the app is closed</p>
+
+            {expanded && (
+                <div className="px-5 pb-5 space-y-3">
+                    {error && (
+                        <div className="flex items-center gap-2 p-2.5 rounded-xl bg-red-500/10 border border-red-500/20 text-[11px] text-red-300">
+                            <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                            <span className="flex-1">{error}</span>
+                            <button onClick={() => setError('')}><X className="w-3 h-3" /></button>
+                        </div>
+                    )}
+
+                    {latest && (
+                        <div className={`flex items-start gap-2 p-2.5 rounded-xl border text-[11px] ${latest.severity === 'critical' ? 'bg-red-500/10 border-red-500/20 text-red-300' : 'bg-orange-500/10 border-orange-500/20 text-orange-200'}`}>
+                            <BellRing className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                            <div className="flex-1 min-w-0">
+                                <div className="font-bold">{latest.name}</div>
+                                <div className="text-[10px] opacity-80">{latest.message}</div>
+                            </div>
+                            <button onClick={() => setLatest(null)}><X className="w-3 h-3" /></button>
+                        </div>
+                    )}
+
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] text-white/40 font-bold uppercase tracking-wider">Rules</span>
+                        <div className="flex items-center gap-3">
+                            <button onClick={() => setShowChannels(!showChannels)} className="flex items-center gap-1 text-[10px] text-white/40 hover:text-white/70 font-bold">
+                                <Send className="w-3 h-3" /> Delivery
+                            </button>
+                            <button onClick={() => setShowForm(!showForm)} className="flex items-center gap-1 text-[10px] text-orange-400 hover:text-orange-300 font-bold">
+                                <Plus className="w-3 h-3" /> New Alert
+                            </button>
+                        </div>
+                    </div>
+
+                    {showChannels && webhook && smtp && (
+                        <div className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06] space-y-3">
+                            <div className="space-y-2">
+                                <label className="flex items-center gap-2 text-[11px] text-white/70 font-bold">
+                                    <input type="checkbox" checked={webhook.enabled} onChange={e => updateChannel('webhook', { enabled: e.target.checked })} />
+                                    <Webhook className="w-3.5 h-3.5 text-white/40" /> Webhook
+                                    <span className="text-[9px] text-white/20 font-normal">JSON POST · Slack & Discord URLs work as-is</span>
+                                </label>
+                                <div className="grid grid-cols-3 gap-2">
+                                    <input value={webhook.url} onChange={e => updateChannel('webhook', { url: e.target.value })} placeholder="https://hooks.example.com/…" className={`${inputClass} col-span-2`} />
+                                    {severitySelect('webhook', webhook.minSeverity)}
+                                </div>
+                                {channelFooter('webhook')}
+                            </div>
+                            <div className="space-y-2 pt-2 border-t border-white/[0.04]">
+                                <label className="flex items-center gap-2 text-[11px] text-white/70 font-bold">
+                                    <input type="checkbox" checked={smtp.enabled} onChange={e => updateChannel('smtp', { enabled: e.target.checked })} />
+                                    <Mail className="w-3.5 h-3.5 text-white/40" /> Email (SMTP)
+                                </label>
+                                <div className="grid grid-cols-4 gap-2">
+                                    <input value={smtp.host} onChange={e => updateChannel('smtp', { host: e.target.value })} placeholder="smtp.gmail.com" className={`${inputClass} col-span-2`} />
+                                    <input type="number" value={smtp.port} onChange={e => updateChannel('smtp', { port: e.target.value })} placeholder="Port" className={inputClass} />
+                                    <select value={smtp.secure ? 'tls' : 'starttls'} onChange={e => updateChannel('smtp', { secure: e.target.value === 'tls' })} className={inputClass}>
+                                        <option value="tls">TLS</option>
+                                        <option value="starttls">STARTTLS</option>
+                                    </select>
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <input value={smtp.user} onChange={e => updateChannel('smtp', { user: e.target.value })} placeholder="Username" className={inputClass} />
+                                    <input type="password" value={smtp.pass} onChange={e => updateChannel('smtp', { pass: e.target.value })} placeholder="Password / app password" className={inputClass} />
+                                </div>
+                                <label className="flex items-center gap-2 text-[10px] text-white/40">
+                                    <input type="checkbox" checked={!!smtp.allowInsecureAuth} onChange={e => updateChannel('smtp', { allowInsecureAuth: e.target.checked })} />
+                                    Allow login without TLS <span className="text-red-400/60">(password is sent in plaintext)</span>
+                                </label>
+                                <div className="grid grid-cols-3 gap-2">
+                                    <input value={smtp.from} onChange={e => updateChannel('smtp', { from: e.target.value })} placeholder="From (defaults to user)" className={inputClass} />
+                                    <input value={smtp.to} onChange={e => updateChannel('smtp', { to: e.target.value })} placeholder="Send to" className={inputClass} />
+                                    {severitySelect('smtp', smtp.minSeverity)}
+                                </div>
+                                {channelFooter('smtp')}
+                            </div>
+                            <p className="text-[9px] text-white/20">Outbound sends are capped at 12 per hour; alerts over the cap still show here.</p>
+                        </div>
+                    )}
+
+                    {showForm && (
+                        <div className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06] space-y-2">
+                            <div className="grid grid-cols-3 gap-2">
+                                <select value={draft.type} onChange={e => setDraft(p => ({ ...p, type: e.target.value as AlertType }))} className={inputClass}>
+                                    <option value="price">Price level</option>
+                                    <option value="move">% move</option>
+                                    <option value="indicator">Indicator</option>
+                                    <option value="liquidation">Liquidation risk</option>
+                                </select>
+                                <select value={draft.severity} onChange={e => setDraft(p => ({ ...p, severity: e.target.value as Severity }))} className={inputClass}>
+                                    <option value="info">Info</option>
+                                    <option value="warning">Warning</option>
+                                    <option value="critical">Critical</option>
+                                </select>
+                                <input value={draft.name} onChange={e => setDraft(p => ({ ...p, name: e.target.value }))} placeholder="Name (optional)" className={inputClass} />
+                            </div>
+
+                            {draft.type === 'price' && (
+                                <div className="grid grid-cols-3 gap-2">
+                                    <select value={draft.token} onChange={e => setDraft(p => ({ ...p, token: e.target.value }))} className={inputClass}>
+                                        {TOKEN_OPTIONS.map(t => <option key={t} value={t}>{t}</option>)}
+                                    </select>
+                                    <select value={draft.op} onChange={e => setDraft(p => ({ ...p, op: e.target.value as 'above' | 'below' }))} className={inputClass}>
+                                        <option value="above">Goes above</option>
+                                        <option value="below">Goes below</option>
+                                    </select>
+                                    <input type="number" min="0" step="any" value={draft.value} onChange={e => setDraft(p => ({ ...p, value: e.target.value }))} placeholder="Price $" className={inputClass} />
+                                </div>
+                            )}
+                            {draft.type === 'move' && (
+                                <div className="grid grid-cols-4 gap-2">
+                                    <select value={draft.token} onChange={e => setDraft(p => ({ ...p, token: e.target.value }))} className={inputClass}>
+                                        {TOKEN_OPTIONS.map(t => <option key={t} value={t}>{t}</option>)}
+                                    </select>
+                                    <select value={draft.direction} onChange={e => setDraft(p => ({ ...p, direction: e.target.value as 'up' | 'down' | 'either' }))} className={inputClass}>
+                                        <option value="either">Up or down</option>
+                                        <option value="up">Up</option>
+                                        <option value="down">Down</option>
+                                    </select>
+                                    <input type="number" min="0" step="any" value={draft.pct} onChange={e => setDraft(p => ({ ...p, pct: e.target.value }))} placeholder="%" className={inputClass} />
+                                    <select value={draft.windowHours} onChange={e => setDraft(p => ({ ...p, windowHours: e.target.value }))} className={inputClass}>
+                                        {[1, 4, 12, 24, 72, 168].map(h => <option key={h} value={h}>in {h}h</option>)}
+                                    </select>
+                                </div>
+                            )}
+                            {draft.type === 'indicator' && (
+                                <>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <select value={draft.pair} onChange={e => setDraft(p => ({ ...p, pair: e.target.value }))} className={inputClass}>
+                                            {PAIR_OPTIONS.map(t => <option key={t} value={t}>{t}</option>)}
+                                        </select>
+                                        <select value={draft.timeframe} onChange={e => setDraft(p => ({ ...p, timeframe: e.target.value }))} className={inputClass}>
+                                            <option value="minute">Minute</option>
+                                            <option value="hour">Hour</option>
+                                            <option value="day">Day</option>
+                                        </select>
+                                    </div>
+                                    <input value={draft.expression} onChange={e => setDraft(p => ({ ...p, expression: e.target.value }))}
+                                        placeholder="rsi < 30 and crossesAbove(close, ema20)" className={`${inputClass} w-full font-mono`} spellCheck={false} />
+                                    <p className="text-[9px] text-white/20">Same expression language as Strategy Builder rules.</p>
+                                </>
+                            )}
+                            {draft.type === 'liquidation' && (
+                                <div className="grid grid-cols-2 gap-2">
+                                    <select value={draft.market} onChange={e => setDraft(p => ({ ...p, market: e.target.value }))} className={inputClass}>
+                                        {PERP_MARKETS.map(m => <option key={m} value={m}>{m === 'any' ? 'Any perp position' : `${m}-PERP`}</option>)}
+                                    </select>
+                                    <input type="number" min="0" max="100" step="any" value={draft.pct} onChange={e => setDraft(p => ({ ...p, pct: e.target.value }))} placeholder="Within % of liquidation" className={inputClass} />
+                                </div>
+                            )}
+
+                            <div className="flex items-center gap-2">
+                                <span className="text-[9px] text-white/30">Re-alert no sooner than</span>
+                                <select value={draft.cooldownMin} onChange={e => setDraft(p => ({ ...p, cooldownMin: e.target.value }))} className={inputClass}>
+                                    {[[15, '15 min'], [60, '1 hour'], [240, '4 hours'], [1440, '1 day']].map(([v, l]) => <option key={v} value={v}>{l}</option>)}
+                                </select>
+                            </div>
+                            <p className="text-[9px] text-white/20">An alert fires when its condition becomes true, then waits for it to clear before it can fire again.</p>
+                            <button onClick={handleAdd} disabled={saving} className="w-full py-2 rounded-lg text-xs font-bold text-white bg-orange-500/20 hover:bg-orange-500/30 border border-orange-500/20 disabled:opacity-40 flex items-center justify-center gap-1.5">
+                                {saving && <Loader2 className="w-3 h-3 animate-spin" />} Create Alert
+                            </button>
+                        </div>
+                    )}
+
+                    {alerts.length === 0 ? (
+                        <div className="text-center py-3 space-y-2">
+                            <p className="text-[11px] text-white/15 italic">No alerts — get notified on price levels, big moves, indicator signals or liquidation risk</p>
+                            <button onClick={() => gatewayService.traderAddAlert(LARGE_MOVE_PRESET)} className="text-[10px] text-orange-400/70 hover:text-orange-300 font-bold">
+                                + Alert me when SOL moves more than 5% in a day
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="space-y-1.5">
+                            {alerts.map(a => (
+                                <div key={a.id} className={`p-2.5 rounded-xl border transition-colors ${a.enabled ? 'bg-white/[0.03] border-white/[0.06]' : 'bg-white/[0.01] border-white/[0.03]'}`}>
+                                    <div className="flex items-center justify-between">
+                                        <div className="min-w-0">
+                                            <div className="flex items-center gap-2">
+                                                <span className={`text-xs font-bold truncate ${a.enabled ? 'text-white' : 'text-white/40'}`}>{a.name}</span>
+                                                <span className={`text-[8px] px-1.5 py-0.5 rounded-full font-bold uppercase ${SEVERITY_STYLE[a.severity]}`}>{a.severity}</span>
+                                                {a.active && a.enabled && <span className="text-[8px] px-1.5 py-0.5 rounded-full font-bold uppercase bg-orange-500/15 text-orange-300">triggered</span>}
+                                            </div>
+                                            <div className="text-[9px] text-white/25 truncate">{describeCondition(a)} · cooldown {a.cooldownMin}m</div>
+                                            <div className="text-[9px] text-white/20">
+                                                {a.fireCount} fired{a.lastFiredAt && <span> · last {new Date(a.lastFiredAt).toLocaleString()}</span>}
+                                                {a.lastValue !== null && <span> · now {a.lastValue}{a.type === 'move' || a.type === 'liquidation' ? '%' : ''}</span>}
+                                            </div>
+                                            {a.lastError && <div className="text-[9px] text-red-400/70 truncate">{a.lastError}</div>}
+                                        </div>
+                                        <div className="flex items-center gap-1 shrink-0">
+                                            <button onClick={() => gatewayService.traderUpdateAlert(a.id, { enabled: !a.enabled })} title={a.enabled ? 'Pause' : 'Resume'} className="p-1 hover:bg-white/5 rounded">
+                                                {a.enabled ? <Pause className="w-3 h-3 text-white/30" /> : <Play className="w-3 h-3 text-green-400" />}
+                                            </button>
+                                            <button onClick={() => gatewayService.traderDeleteAlert(a.id)} title="Delete" className="p-1 hover:bg-white/5 rounded"><Trash2 className="w-3 h-3 text-red-400/50" /></button>
+                                        </div>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {history.length > 0 && (
+                        <div>
+                            <div className="flex items-center justify-between">
+                                <button onClick={() => setShowHistory(!showHistory)} className="text-[9px] text-white/30 hover:text-white/60 font-bold flex items-center gap-1">
+                                    <ChevronDown className={`w-3 h-3 transition-transform ${showHistory ? 'rotate-180' : ''}`} /> Recent alerts ({history.length})
+                                </button>
+                                {showHistory && (
+                                    <button onClick={() => gatewayService.traderClearAlertHistory()} className="text-[9px] text-white/20 hover:text-white/50">Clear</button>
+                                )}
+                            </div>
+                            {showHistory && (
+                                <div className="mt-1 space-y-1 max-h-48 overflow-y-auto">
+                                    {history.map(ev => (
+                                        <div key={ev.id} className="text-[9px] font-mono">
+                                            <div className="flex items-center gap-2">
+                                                <BellRing className={`w-2.5 h-2.5 shrink-0 ${SEVERITY_STYLE[ev.severity].split(' ')[1]}`} />
+                                                <span className="text-white/25">{new Date(ev.firedAt).toLocaleString()}</span>
+                                                <span className="text-white/60 truncate">{ev.name}</span>
+                                                {Object.entries(ev.delivery || {}).map(([ch, status]) => (
+                                                    <span key={ch} title={status} className={`flex items-center gap-0.5 shrink-0 ${status === 'sent' ? 'text-green-400/60' : 'text-red-400/60'}`}>
+                                                        {status === 'sent' ? <CheckCircle2 className="w-2.5 h-2.5" /> : <AlertTriangle className="w-2.5 h-2.5" />} {ch}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                            <div className="text-white/30 pl-5 truncate">{ev.message}</div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AlertsPanel;
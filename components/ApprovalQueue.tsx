@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldAlert, ShieldCheck, Check, X, Clock, ChevronDown, Trash2, Mail, Globe, Coins, Monitor } from 'lucide-react';
+import { PendingApproval, ApprovalType, ApprovalStatus } from '../types';
+import { approvalQueueService, GRANTABLE_TYPES, GRANT_MINUTES, APPROVAL_TIMEOUT_MS } from '../services/approvalQueueService';
+
+const TYPE_META: Record<ApprovalType, { label: string; icon: React.ElementType; color: string }> = {
+    DELETION: { label: 'Deletion', icon: Trash2, color: 'text-red-400' },
+    EMAIL: { label: 'Email', icon: Mail, color: 'text-sky-400' },
+    BROWSER_ACTION: { label: 'Browser', icon: Globe, color: 'text-cyan-400' },
+    BROWSER_TAKEOVER: { label: 'Browser takeover', icon: Monitor, color: 'text-cyan-400' },
+    ASSET_COMMIT: { label: 'Trade', icon: Coins, color: 'text-amber-400' },
+};
+
+const STATUS_STYLE: Record<ApprovalStatus, string> = {
+    PENDING: 'bg-amber-500/10 text-amber-400',
+    APPROVED: 'bg-cyan-500/10 text-cyan-400',
+    EXECUTED: 'bg-green-500/10 text-green-400',
+    FAILED: 'bg-red-500/10 text-red-400',
+    REJECTED: 'bg-white/5 text-white/40',
+    EXPIRED: 'bg-white/5 text-white/30',
+};
+
+const requester = (a: PendingApproval) =>
+    a.caller === 'AGENT' ? `agent ${a.agentId || ''}` : a.caller === 'OPERATOR' ? 'you' : 'Claw';
+
+const minutesLeft = (a: PendingApproval) =>
+    Math.max(0, Math.ceil((new Date(a.createdAt).getTime() + APPROVAL_TIMEOUT_MS - Date.now()) / 60000));
+
+/**
+ * Floating queue of risky tool calls waiting for the operator, plus the audit
+ * history of past decisions. The calling tool loop stays paused until a decision.
+ */
+const ApprovalQueue: React.FC = () => {
+    const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+    const [notes, setNotes] = useState<Record<string, string>>({});
+    const [showHistory, setShowHistory] = useState(false);
+    const [, setTick] = useState(0);
+
+    useEffect(() => approvalQueueService.subscribe(list => setApprovals([...list])), []);
+
+    // Keep the expiry countdown and grant timers fresh
+    useEffect(() => {
+        const t = setInterval(() => setTick(n => n + 1), 30000);
+        return () => clearInterval(t);
+    }, []);
+
+    const pending = approvals.filter(a => a.status === 'PENDING');
+    const history = approvals.filter(a => a.status !== 'PENDING');
+    const grants = approvalQueueService.getGrants();
+
+    if (pending.length === 0 && !showHistory) {
+        if (history.length === 0 && grants.length === 0) return null;
+        return (
+            <button
+                onClick={() => setShowHistory(true)}
+                className="fixed bottom-6 right-24 z-50 h-9 px-3 rounded-xl bg-[#0b1118]/90 border border-white/10 text-[10px] font-bold text-white/40 hover:text-white/80 flex items-center gap-1.5 backdrop-blur"
+                title="Tool approval history"
+            >
+                <ShieldCheck className="w-3.5 h-3.5" /> Approvals
+                {grants.length > 0 && <span className="text-cyan-400">· auto-allow on</span>}
+            </button>
+        );
+    }
+
+    const decide = (a: PendingApproval, status: 'APPROVED' | 'REJECTED', grant = false) => {
+        approvalQueueService.decide(a.id, status, notes[a.id]?.trim() || undefined, grant ? GRANT_MINUTES : undefined);
+        setNotes(prev => { const next = { ...prev }; delete next[a.id]; return next; });
+    };
+
+    const renderArgs = (args: Record<string, any>) => (
+        <div className="mt-2 rounded-lg bg-black/40 border border-white/[0.06] p-2 max-h-40 overflow-y-auto">
+            {Object.entries(args).map(([key, value]) => (
+                <div key={key} className="text-[10px] font-mono leading-relaxed break-words">
+                    <span className="text-white/30">{key}: </span>
+                    <span className="text-white/80 whitespace-pre-wrap">{typeof value === 'string' ? value : JSON.stringify(value)}</span>
+                </div>
+            ))}
+            {Object.keys(args).length === 0 && <div className="text-[10px] text-white/20 italic">no arguments</div>}
+        </div>
+    );
+
+    const renderPending = (a: PendingApproval) => {
+        const meta = TYPE_META[a.type] || TYPE_META.ASSET_COMMIT;
+        const Icon = meta.icon;
+        return (
+            <div key={a.id} className="p-3 rounded-xl bg-amber-500/[0.05] border border-amber-500/20">
+                <div className="flex items-center gap-2">
+                    <Icon className={`w-3.5 h-3.5 shrink-0 ${meta.color}`} />
+                    <span className="text-xs font-bold text-white flex-1 min-w-0 truncate" title={a.title}>{a.title}</span>
+                    <span className="text-[9px] text-white/30 flex items-center gap-1 shrink-0"><Clock className="w-2.5 h-2.5" />{minutesLeft(a)}m</span>
+                </div>
+                <div className="text-[9px] text-white/30 mt-0.5">
+                    {meta.label} · <span className="font-mono">{a.toolName}</span> · requested by {requester(a)}
+                </div>
+                {a.description && <p className="text-[10px] text-white/50 mt-1">{a.description}</p>}
+                {renderArgs(a.args)}
+                <input
+                    value={notes[a.id] || ''}
+                    onChange={e => setNotes(prev => ({ ...prev, [a.id]: e.target.value }))}
+                    placeholder="Note for the agent (optional — e.g. why you rejected it)"
+                    className="mt-2 w-full bg-white/[0.03] border border-white/10 rounded-lg px-2 py-1.5 text-[10px] text-white placeholder-white/20 focus:outline-none focus:border-amber-500/40"
+                />
+                <div className="mt-2 flex items-center gap-1.5">
+                    <button onClick={() => decide(a, 'APPROVED')} className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-[10px] font-bold text-green-300 bg-green-500/15 hover:bg-green-500/25 border border-green-500/20">
+                        <Check className="w-3 h-3" /> Approve
+                    </button>
+                    {GRANTABLE_TYPES.includes(a.type) && (
+                        <button onClick={() => decide(a, 'APPROVED', true)} className="px-2.5 py-1 rounded-lg text-[10px] font-bold text-cyan-300 bg-cyan-500/10 hover:bg-cyan-500/20 border border-cyan-500/20" title={`Approve this and auto-approve ${meta.label.toLowerCase()} actions for ${GRANT_MINUTES} minutes`}>
+                            Allow {GRANT_MINUTES} min
+                        </button>
+                    )}
+                    <button onClick={() => decide(a, 'REJECTED')} className="ml-auto flex items-center gap-1 px-2.5 py-1 rounded-lg text-[10px] font-bold text-white/50 bg-white/5 hover:bg-white/10 border border-white/10">
+                        <X className="w-3 h-3" /> Reject
+                    </button>
+                </div>
+            </div>
+        );
+    };
+
+    const renderHistory = (a: PendingApproval) => (
+        <div key={a.id} className="p-2 rounded-lg bg-white/[0.02] border border-white/[0.04]">
+            <div className="flex items-center gap-2">
+                <span className="text-[10px] font-bold text-white/70 flex-1 min-w-0 truncate" title={a.title}>{a.title}</span>
+                <span className={`text-[8px] px-1.5 py-0.5 rounded-full font-bold uppercase shrink-0 ${STATUS_STYLE[a.status]}`}>{a.status}</span>
+            </div>
+            <div className="text-[9px] text-white/25">
+                <span className="font-mono">{a.toolName}</span> · {requester(a)} · {new Date(a.createdAt).toLocaleString()}
+                {a.decidedBy && <span> · by {a.decidedBy}</span>}
+            </div>
+            {a.note && <div className="text-[9px] text-white/40 mt-0.5">“{a.note}”</div>}
+            {a.result && <div className="text-[9px] text-white/30 mt-0.5 font-mono truncate" title={a.result}>{a.result}</div>}
+        </div>
+    );
+
+    return (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[60] w-[28rem] max-w-[calc(100vw-2rem)] max-h-[calc(100vh-2rem)] flex flex-col rounded-2xl border border-amber-500/20 bg-[#0b1118]/95 backdrop-blur shadow-2xl">
+            <div className="flex items-center gap-2 px-4 pt-3 pb-2">
+                <ShieldAlert className="w-4 h-4 text-amber-400" />
+                <h2 className="text-sm font-bold text-white flex-1">
+                    {pending.length > 0 ? `${pending.length} action${pending.length > 1 ? 's' : ''} awaiting approval` : 'Tool approvals'}
+                </h2>
+                {grants.length > 0 && (
+                    <button onClick={() => approvalQueueService.revokeGrants()} className="text-[9px] font-bold text-cyan-400 hover:text-cyan-200" title="Stop auto-approving">
+                        auto-allow on · revoke
+                    </button>
+                )}
+                {pending.length === 0 && (
+                    <button onClick={() => setShowHistory(false)} className="text-white/30 hover:text-white"><X className="w-3.5 h-3.5" /></button>
+                )}
+            </div>
+
+            <div className="px-4 pb-3 space-y-2 overflow-y-auto">
+                {pending.length > 0 && (
+                    <p className="text-[10px] text-white/25">The requesting agent is paused until you decide. Nothing runs without your approval.</p>
+                )}
+                {pending.map(renderPending)}
+
+                {history.length > 0 && (
+                    <>
+                        <button onClick={() => setShowHistory(!showHistory)} className="text-[9px] text-white/30 hover:text-white/60 font-bold flex items-center gap-1">
+                            <ChevronDown className={`w-3 h-3 transition-transform ${showHistory ? 'rotate-180' : ''}`} /> Audit history ({history.length})
+                        </button>
+                        {showHistory && <div className="space-y-1">{history.map(renderHistory)}</div>}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ApprovalQueue;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Brain, Activity, CheckCircle, XCircle, Clock, Zap, AlertTriangle, TrendingUp, TrendingDown, RefreshCw, DollarSign, ChevronDown, ChevronRight } from 'lucide-react';
+import { Brain, Activity, CheckCircle, XCircle, Clock, Zap, AlertTriangle, TrendingUp, TrendingDown, RefreshCw, DollarSign, ChevronDown, ChevronRight, FlaskConical, Radar, X, Plus } from 'lucide-react';
 import { gatewayService } from '../services/gatewayService';
 
 interface BotBrainPanelProps {
@@ -13,10 +13,25 @@ const BotBrainPanel: React.FC<BotBrainPanelProps> = ({ pair = 'SOL/USDC' }) => {
     const [positions, setPositions] = useState<any[]>([]);
     const [thinkingLog, setThinkingLog] = useState<any[]>([]);
     const [evalLoading, setEvalLoading] = useState(false);
-    const [activeTab, setActiveTab] = useState<'brain' | 'trades' | 'positions'>('brain');
+    const [activeTab, setActiveTab] = useState<'brain' | 'scanner' | 'trades' | 'positions' | 'backtest'>('brain');
     const [strategies, setStrategies] = useState<any[]>([]);
     const [selectedStrategy, setSelectedStrategy] = useState('');
     const logRef = useRef<HTMLDivElement>(null);
+    // Backtest state
+    const [backtest, setBacktest] = useState<any>(null);
+    const [btLoading, setBtLoading] = useState(false);
+    const [btError, setBtError] = useState('');
+    const [btTimeframe, setBtTimeframe] = useState<'day' | 'hour'>('day');
+    const [btFeeBps, setBtFeeBps] = useState(10);
+    const [btSlippageBps, setBtSlippageBps] = useState(50);
+    const [btCapital, setBtCapital] = useState(1000);
+    // Scanner state
+    const [scanResults, setScanResults] = useState<any[]>([]);
+    const [scannedAt, setScannedAt] = useState<string | null>(null);
+    const [watchlist, setWatchlist] = useState<string[]>([]);
+    const [newPair, setNewPair] = useState('');
+    const [scanLoading, setScanLoading] = useState(false);
+    const [scanError, setScanError] = useState('');
 
     // Subscribe to responses
     useEffect(() => {
@@ -49,11 +64,33 @@ const BotBrainPanel: React.FC<BotBrainPanelProps> = ({ pair = 'SOL/USDC' }) => {
                 case 'TRADER_HISTORY':
                     setTrades(data.history || []);
                     break;
+                case 'TRADER_BACKTEST':
+                    setBacktest(data);
+                    setBtLoading(false);
+                    setBtError('');
+                    break;
+                case 'TRADER_SCAN':
+                    setScanResults(data.results || []);
+                    setScannedAt(data.scannedAt || null);
+                    setWatchlist(data.watchlist || []);
+                    setScanLoading(false);
+                    setScanError('');
+                    break;
+                case 'TRADER_ERROR':
+                    if (data.context === 'backtest') {
+                        setBtError(data.error);
+                        setBtLoading(false);
+                    }
+                    if (data.context === 'watchlist') {
+                        setScanError(data.error);
+                    }
+                    break;
             }
         });
         // Load initial data
         gatewayService.traderGetStrategies();
         gatewayService.traderGetPositions('all');
+        gatewayService.traderGetScan();
         return unsub;
     }, []);
 
@@ -64,6 +101,60 @@ const BotBrainPanel: React.FC<BotBrainPanelProps> = ({ pair = 'SOL/USDC' }) => {
         gatewayService.traderEvaluate(selectedStrategy, pair);
     };
 
+    // Run backtest over historical candles
+    const runBacktest = () => {
+        if (!selectedStrategy) return;
+        setBtLoading(true);
+        setBtError('');
+        gatewayService.traderBacktest(selectedStrategy, pair, {
+            timeframe: btTimeframe,
+            initialCapital: btCapital,
+            feeBps: btFeeBps,
+            slippageBps: btSlippageBps,
+        });
+    };
+
+    // Scan every saved strategy across its pairs right now (the bot also does this each cycle)
+    const runScan = () => {
+        setScanLoading(true);
+        gatewayService.traderScan();
+    };
+
+    const addWatchPair = () => {
+        const p = newPair.trim().toUpperCase();
+        if (!p || watchlist.includes(p)) return;
+        if (!/^[A-Z0-9]+\/[A-Z0-9]+$/.test(p)) {
+            setScanError('Pairs look like BASE/QUOTE, e.g. JUP/USDC');
+            return;
+        }
+        gatewayService.traderSetWatchlist([...watchlist, p]);
+        setNewPair('');
+    };
+
+    const removeWatchPair = (p: string) => {
+        gatewayService.traderSetWatchlist(watchlist.filter(x => x !== p));
+    };
+
+    // Scanner matrix: one row per strategy, one column per pair it watches
+    const scanPairs = [...new Set(scanResults.map((r: any) => r.pair))] as string[];
+    const scanStrategies = [...new Set(scanResults.map((r: any) => r.strategyName))] as string[];
+    const scanCell = (strategyName: string, p: string) =>
+        scanResults.find((r: any) => r.strategyName === strategyName && r.pair === p);
+
+    // Equity curve as an SVG polyline path
+    const equityPath = (curve: any[], width: number, height: number) => {
+        if (!curve || curve.length < 2) return '';
+        const values = curve.map(p => p.equity);
+        const min = Math.min(...values);
+        const max = Math.max(...values);
+        const range = max - min || 1;
+        return curve.map((p, i) => {
+            const x = (i / (curve.length - 1)) * width;
+            const y = height - ((p.equity - min) / range) * height;
+            return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+        }).join(' ');
+    };
+
     const formatTime = (d: Date | string) => {
         const date = d instanceof Date ? d : new Date(d);
         return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
@@ -93,11 +184,13 @@ const BotBrainPanel: React.FC<BotBrainPanelProps> = ({ pair = 'SOL/USDC' }) => {
                 <div className="space-y-3">
                     {/* Tabs */}
                     <div className="flex gap-1 p-1 rounded-lg bg-white/[0.03]">
-                        {(['brain', 'trades', 'positions'] as const).map(tab => (
+                        {(['brain', 'scanner', 'backtest', 'trades', 'positions'] as const).map(tab => (
                             <button key={tab} onClick={() => setActiveTab(tab)}
                                 className={`flex-1 py-1.5 rounded-md text-[10px] font-bold uppercase tracking-wider transition-all ${activeTab === tab ? 'bg-white/[0.08] text-white' : 'text-white/30 hover:text-white/50'
                                     }`}>
                                 {tab === 'brain' && <><Brain className="w-3 h-3 inline mr-1" />Thinking</>}
+                                {tab === 'scanner' && <><Radar className="w-3 h-3 inline mr-1" />Scanner</>}
+                                {tab === 'backtest' && <><FlaskConical className="w-3 h-3 inline mr-1" />Backtest</>}
                                 {tab === 'trades' && <><Activity className="w-3 h-3 inline mr-1" />Trade Log</>}
                                 {tab === 'positions' && <><DollarSign className="w-3 h-3 inline mr-1" />Positions</>}
                             </button>
@@ -208,6 +301,229 @@ const BotBrainPanel: React.FC<BotBrainPanelProps> = ({ pair = 'SOL/USDC' }) => {
                         </div>
                     )}
 
+                    {/* Backtest Tab */}
+                    {activeTab === 'backtest' && (
+                        <div className="space-y-3">
+                            <div className="flex gap-2">
+                                <select value={selectedStrategy} onChange={e => setSelectedStrategy(e.target.value)}
+                                    className="flex-1 bg-black/40 border border-white/10 rounded-lg py-2 px-3 text-[10px] text-white outline-none">
+                                    <option value="">Select strategy...</option>
+                                    {strategies.map(s => (
+                                        <option key={s.name} value={s.name}>{s.name}</option>
+                                    ))}
+                                </select>
+                                <button onClick={runBacktest} disabled={!selectedStrategy || btLoading}
+                                    className="flex items-center gap-1 px-3 py-2 rounded-lg text-[10px] font-bold text-cyan-400 bg-cyan-500/10 border border-cyan-500/20 hover:bg-cyan-500/20 transition-all disabled:opacity-30">
+                                    {btLoading ? <RefreshCw className="w-3 h-3 animate-spin" /> : <FlaskConical className="w-3 h-3" />}
+                                    Run
+                                </button>
+                            </div>
+
+                            {/* Simulation settings */}
+                            <div className="grid grid-cols-4 gap-2">
+                                <div>
+                                    <label className="text-[7px] text-white/20 uppercase">Timeframe</label>
+                                    <select value={btTimeframe} onChange={e => setBtTimeframe(e.target.value as 'day' | 'hour')}
+                                        className="w-full bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-[10px] text-white outline-none">
+                                        <option value="day">1D</option>
+                                        <option value="hour">1H</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="text-[7px] text-white/20 uppercase">Capital $</label>
+                                    <input type="number" value={btCapital} onChange={e => setBtCapital(parseFloat(e.target.value) || 0)}
+                                        className="w-full bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-[10px] text-white outline-none" />
+                                </div>
+                                <div>
+                                    <label className="text-[7px] text-white/20 uppercase">Fee bps</label>
+                                    <input type="number" value={btFeeBps} onChange={e => setBtFeeBps(parseFloat(e.target.value) || 0)}
+                                        className="w-full bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-[10px] text-white outline-none" />
+                                </div>
+                                <div>
+                                    <label className="text-[7px] text-white/20 uppercase">Slip bps</label>
+                                    <input type="number" value={btSlippageBps} onChange={e => setBtSlippageBps(parseFloat(e.target.value) || 0)}
+                                        className="w-full bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-[10px] text-white outline-none" />
+                                </div>
+                            </div>
+
+                            {btError && (
+                                <div className="flex items-center gap-2 p-2 rounded-lg bg-red-500/10 border border-red-500/20 text-[10px] text-red-400">
+                                    <AlertTriangle className="w-3 h-3 shrink-0" /> {btError}
+                                </div>
+                            )}
+
+                            {backtest?.summary && (
+                                <>
+                                    {/* Summary stats */}
+                                    <div className="grid grid-cols-4 gap-2">
+                                        {[
+                                            { label: 'Return', value: `${backtest.summary.totalReturnPct >= 0 ? '+' : ''}${backtest.summary.totalReturnPct.toFixed(1)}%`, good: backtest.summary.totalReturnPct >= 0 },
+                                            { label: 'Buy & Hold', value: `${backtest.summary.buyHoldReturnPct >= 0 ? '+' : ''}${backtest.summary.buyHoldReturnPct.toFixed(1)}%`, good: backtest.summary.buyHoldReturnPct >= 0 },
+                                            { label: 'Win Rate', value: `${backtest.summary.winRate.toFixed(0)}%`, good: backtest.summary.winRate >= 50 },
+                                            { label: 'Max DD', value: `-${backtest.summary.maxDrawdownPct.toFixed(1)}%`, good: backtest.summary.maxDrawdownPct < 20 },
+                                            { label: 'Sharpe', value: backtest.summary.sharpe.toFixed(2), good: backtest.summary.sharpe >= 1 },
+                                            {
+                                                label: 'Profit Factor',
+                                                value: backtest.summary.profitFactor !== null ? backtest.summary.profitFactor.toFixed(2) : backtest.summary.noLosingTrades ? '∞ no losses' : '—',
+                                                good: backtest.summary.profitFactor !== null ? backtest.summary.profitFactor >= 1 : backtest.summary.noLosingTrades,
+                                            },
+                                            { label: 'Avg Trade', value: `${backtest.summary.avgTradePct >= 0 ? '+' : ''}${backtest.summary.avgTradePct.toFixed(2)}%`, good: backtest.summary.avgTradePct >= 0 },
+                                            { label: 'Trades', value: String(backtest.summary.trades), good: true },
+                                        ].map(stat => (
+                                            <div key={stat.label} className="p-2 rounded-lg bg-white/[0.03] border border-white/[0.06]">
+                                                <div className="text-[7px] text-white/20 uppercase">{stat.label}</div>
+                                                <div className={`text-[11px] font-bold ${stat.good ? 'text-green-400' : 'text-red-400'}`}>{stat.value}</div>
+                                            </div>
+                                        ))}
+                                    </div>
+
+                                    {/* Equity curve */}
+                                    <div className="p-2 rounded-lg bg-black/30 border border-white/[0.06]">
+                                        <div className="flex items-center justify-between mb-1">
+                                            <span className="text-[8px] text-white/25 font-bold uppercase tracking-wider">Equity Curve</span>
+                                            <span className="text-[8px] text-white/30 font-mono">
+                                                ${backtest.summary.initialCapital.toFixed(0)} → ${backtest.summary.finalEquity.toFixed(0)}
+                                            </span>
+                                        </div>
+                                        <svg viewBox="0 0 300 80" className="w-full h-20" preserveAspectRatio="none">
+                                            <path d={equityPath(backtest.equityCurve, 300, 80)} fill="none"
+                                                stroke={backtest.summary.totalReturnPct >= 0 ? '#4ade80' : '#f87171'} strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+                                        </svg>
+                                        <div className="flex justify-between text-[8px] text-white/20 mt-1">
+                                            <span>{formatDate(backtest.summary.startTime * 1000)}</span>
+                                            <span>{backtest.summary.bars} bars · fees ${backtest.summary.totalFees.toFixed(2)}</span>
+                                            <span>{formatDate(backtest.summary.endTime * 1000)}</span>
+                                        </div>
+                                    </div>
+
+                                    {/* Simulated trades */}
+                                    <div>
+                                        <div className="text-[8px] text-white/25 font-bold uppercase tracking-wider mb-1">
+                                            Simulated Trades ({backtest.trades.length})
+                                        </div>
+                                        <div className="max-h-48 overflow-y-auto space-y-1 pr-1" style={{ scrollbarWidth: 'thin' }}>
+                                            {backtest.trades.map((t: any, i: number) => (
+                                                <div key={i} className={`flex items-center gap-2 py-1 px-2 rounded text-[9px] ${t.pnl >= 0 ? 'bg-green-500/5' : 'bg-red-500/5'}`}>
+                                                    <span className="text-white/20 font-mono shrink-0">{formatDate(t.entryTime * 1000)}</span>
+                                                    <span className="text-white/40 shrink-0">${t.entryPrice.toFixed(2)} → ${t.exitPrice.toFixed(2)}</span>
+                                                    <span className="text-white/20 truncate flex-1">{t.reason.replace('exit_', '')} · {t.bars} bars</span>
+                                                    <span className={`font-bold shrink-0 ${t.pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                                        {t.pnlPct >= 0 ? '+' : ''}{t.pnlPct.toFixed(1)}%
+                                                    </span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                </>
+                            )}
+
+                            {!backtest && !btLoading && !btError && (
+                                <div className="text-[10px] text-white/20 text-center py-4 italic">
+                                    Replay a strategy over historical candles — fills at next bar open with fees and slippage
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Scanner Tab */}
+                    {activeTab === 'scanner' && (
+                        <div className="space-y-3">
+                            <div className="flex items-center justify-between">
+                                <div className="text-[9px] text-white/25">
+                                    {scannedAt ? `Last scan ${formatTime(scannedAt)}` : 'Not scanned yet — runs every bot cycle'}
+                                </div>
+                                <button onClick={runScan} disabled={scanLoading}
+                                    className="px-3 py-1.5 rounded-lg bg-purple-500/15 border border-purple-500/20 text-purple-400 text-[10px] font-bold uppercase hover:bg-purple-500/25 transition-all disabled:opacity-30 flex items-center gap-1">
+                                    <RefreshCw className={`w-3 h-3 ${scanLoading ? 'animate-spin' : ''}`} /> Scan Now
+                                </button>
+                            </div>
+
+                            {/* Watchlist */}
+                            <div className="p-2.5 rounded-xl bg-white/[0.02] border border-white/[0.06]">
+                                <div className="text-[8px] text-white/25 font-bold uppercase tracking-wider mb-1.5">
+                                    Watchlist — strategies without their own pairs scan these
+                                </div>
+                                <div className="flex flex-wrap gap-1 items-center">
+                                    {watchlist.map(p => (
+                                        <span key={p} className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-cyan-500/10 border border-cyan-500/15 text-[9px] text-cyan-400 font-bold">
+                                            {p}
+                                            {watchlist.length > 1 && (
+                                                <button onClick={() => removeWatchPair(p)} className="hover:text-red-400">
+                                                    <X className="w-2.5 h-2.5" />
+                                                </button>
+                                            )}
+                                        </span>
+                                    ))}
+                                    <input value={newPair} onChange={e => setNewPair(e.target.value)} onKeyDown={e => e.key === 'Enter' && addWatchPair()}
+                                        placeholder="JUP/USDC"
+                                        className="w-20 bg-black/40 border border-white/10 rounded-md py-0.5 px-1.5 text-[9px] text-white outline-none" />
+                                    <button onClick={addWatchPair} className="p-1 rounded-md hover:bg-white/5">
+                                        <Plus className="w-3 h-3 text-white/40" />
+                                    </button>
+                                </div>
+                            </div>
+
+                            {scanError && (
+                                <div className="p-2 rounded-lg bg-red-500/10 border border-red-500/20 text-[10px] text-red-400">{scanError}</div>
+                            )}
+
+                            {/* Results matrix */}
+                            {scanResults.length === 0 ? (
+                                <div className="text-[10px] text-white/20 text-center py-4 italic">
+                                    Save a strategy, then scan to see which pairs it's firing on
+                                </div>
+                            ) : (
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-[9px]">
+                                        <thead>
+                                            <tr>
+                                                <th className="text-left text-white/25 font-bold uppercase tracking-wider pb-1.5 pr-2">Strategy</th>
+                                                {scanPairs.map(p => (
+                                                    <th key={p} className="text-center text-white/25 font-bold pb-1.5 px-1">{p}</th>
+                                                ))}
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {scanStrategies.map(name => (
+                                                <tr key={name} className="border-t border-white/[0.04]">
+                                                    <td className="py-1.5 pr-2 text-white/60 font-bold truncate max-w-[100px]">{name}</td>
+                                                    {scanPairs.map(p => {
+                                                        const cell = scanCell(name, p);
+                                                        if (!cell) return <td key={p} className="text-center text-white/10">—</td>;
+                                                        if (cell.error) {
+                                                            return (
+                                                                <td key={p} className="text-center px-1" title={cell.error}>
+                                                                    <span className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-yellow-500/10 text-yellow-400/70">
+                                                                        <AlertTriangle className="w-2.5 h-2.5" /> err
+                                                                    </span>
+                                                                </td>
+                                                            );
+                                                        }
+                                                        return (
+                                                            <td key={p} className="text-center px-1"
+                                                                title={cell.failing?.length ? `Failing: ${cell.failing.join(', ')}` : `${cell.timeframe} candles`}>
+                                                                <span className={`inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded font-bold ${cell.firing
+                                                                    ? 'bg-green-500/15 text-green-400'
+                                                                    : 'bg-white/[0.03] text-white/30'
+                                                                    }`}>
+                                                                    {cell.firing && <Zap className="w-2.5 h-2.5" />}
+                                                                    {cell.passed}/{cell.total}
+                                                                </span>
+                                                                {cell.exitSignals > 0 && (
+                                                                    <span className="ml-0.5 px-1 py-0.5 rounded bg-red-500/10 text-red-400/70">exit</span>
+                                                                )}
+                                                            </td>
+                                                        );
+                                                    })}
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Trade Log Tab */}
                     {activeTab === 'trades' && (
                         <div className="space-y-1.5">
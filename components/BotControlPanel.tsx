@@ -1,24 +1,60 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Shield, Power, Plus, Trash2, ExternalLink, Copy, Check, Loader2, AlertTriangle, X, Download, ChevronDown, Eye, EyeOff, Activity, Zap, Target, CircleOff, BarChart3, TrendingUp, TrendingDown, ArrowRightLeft, RefreshCw } from 'lucide-react';
+import { Shield, FlaskConical, Power, Plus, Trash2, ExternalLink, Copy, Check, Loader2, AlertTriangle, X, Download, ChevronDown, Eye, EyeOff, Activity, Zap, Target, CircleOff, BarChart3, TrendingUp, TrendingDown, ArrowRightLeft, RefreshCw, Lock, Unlock, Database } from 'lucide-react';
 import { gatewayService } from '../services/gatewayService';
+import { approvalQueueService } from '../services/approvalQueueService';
 import { userScopeService } from '../services/userScopeService';
 import StrategyBuilder from './StrategyBuilder';
 import BotBrainPanel from './BotBrainPanel';
 import PerpsPanel from './PerpsPanel';
+import DcaPlansPanel from './DcaPlansPanel';
+import AlertsPanel from './AlertsPanel';
+import TradeProposalsPanel from './TradeProposalsPanel';
 
+type RuleType = 'stop-loss' | 'take-profit' | 'trailing-stop';
 interface BotRule {
-    id: string; token: string; type: string; triggerPrice: number;
-    action: string; outputToken: string; active: boolean; createdAt: string;
+    id: string; token: string; outputToken: string; type: RuleType;
+    triggerMode: 'price' | 'percent'; triggerPrice: number; triggerPct: number; trailPct: number;
+    entryPrice: number | null; highWater: number | null;
+    sizePct: number; cooldownSec: number; groupId: string | null;
+    lastTriggeredAt: string | null; triggerCount: number;
+    active: boolean; createdAt: string;
 }
 interface TradeEntry {
     id: string; type: string; message: string; timestamp: string;
     txHash?: string; inSymbol?: string; outSymbol?: string; inAmount?: string; outAmount?: string;
+    paper?: boolean;
 }
 
 const shortAddr = (a: string) => a ? `${a.slice(0, 4)}...${a.slice(-4)}` : '';
 
+interface MarketDataSettings {
+    source: 'live' | 'replay' | 'synthetic';
+    files?: string[];
+    clock?: number | null;
+    speed?: number;
+    seed?: string;
+    dailyVolPct?: number;
+}
+
+const describeMarketData = (m: MarketDataSettings) => {
+    if (m.source === 'replay') {
+        const files = m.files?.length ? `${m.files.length} recording${m.files.length === 1 ? '' : 's'}` : 'no files in market_data/';
+        return `${files}${m.clock ? ` · replaying ${new Date(m.clock * 1000).toLocaleDateString()}` : ''} — live trading blocked`;
+    }
+    if (m.source === 'synthetic') return `Random walk (seed ${m.seed}, ${m.dailyVolPct}%/day) — live trading blocked`;
+    return 'GeckoTerminal candles + Jupiter prices';
+};
+
 const TOKEN_OPTIONS = ['SOL', 'USDC', 'USDT', 'JUP', 'BONK', 'WIF', 'JTO', 'PYTH', 'RAY', 'ORCA'];
 
+const EMPTY_RULE = { token: 'SOL', outputToken: 'USDC', type: 'stop-loss' as RuleType, triggerMode: 'price' as 'price' | 'percent', value: '', sizePct: '100', cooldownMin: '5', ocoWith: '' };
+
+const describeTrigger = (r: BotRule) => {
+    if (r.type === 'trailing-stop') return `trail ${r.trailPct}% from high $${r.highWater ?? '—'}`;
+    if (r.triggerMode === 'percent') return `${r.type === 'stop-loss' ? '-' : '+'}${r.triggerPct}% from $${r.entryPrice}`;
+    return `@ $${r.triggerPrice}`;
+};
+
 const BotControlPanel: React.FC = () => {
     const [walletCreated, setWalletCreated] = useState(false);
     const [publicKey, setPublicKey] = useState('');
@@ -39,9 +75,21 @@ const BotControlPanel: React.FC = () => {
     const [exportedMnemonic, setExportedMnemonic] = useState('');
     const [keyVisible, setKeyVisible] = useState(false);
 
+    // Wallet encryption state
+    const [walletEncrypted, setWalletEncrypted] = useState(false);
+    const [walletLocked, setWalletLocked] = useState(false);
+    const [autoLockAt, setAutoLockAt] = useState<number | null>(null);
+    const [passphrase, setPassphrase] = useState('');
+    const [passphraseConfirm, setPassphraseConfirm] = useState('');
+    const [unlockInput, setUnlockInput] = useState('');
+    const [unlocking, setUnlocking] = useState(false);
+    const [showExportConfirm, setShowExportConfirm] = useState(false);
+    const [exportPassphrase, setExportPassphrase] = useState('');
+
     // Rule form
     const [showAddRule, setShowAddRule] = useState(false);
-    const [newRule, setNewRule] = useState({ token: 'SOL', type: 'stop-loss', triggerPrice: '', action: 'sell-all', outputToken: 'USDC' });
+    const [newRule, setNewRule] = useState(EMPTY_RULE);
+    const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
 
     // Withdraw form
     const [showWithdraw, setShowWithdraw] = useState(false);
@@ -62,6 +110,9 @@ const BotControlPanel: React.FC = () => {
     // Bot persistence
     const [keepAlive, setKeepAlive] = useState(() => userScopeService.scopedGet('bot_keep_alive') === 'true');
     const [perpsEnabled, setPerpsEnabled] = useState(() => userScopeService.scopedGet('bot_perps_enabled') === 'true');
+    const [paperMode, setPaperMode] = useState(false);
+    const [paperSlippage, setPaperSlippage] = useState(50);
+    const [marketData, setMarketData] = useState<MarketDataSettings>({ source: 'live' });
 
     // Indicator dashboard
     const [indicators, setIndicators] = useState<any>(null);
@@ -75,6 +126,9 @@ const BotControlPanel: React.FC = () => {
                 case 'TRADER_STATUS':
                     setWalletCreated(data.walletCreated);
                     setPublicKey(data.publicKey || '');
+                    setWalletEncrypted(!!data.walletEncrypted);
+                    setWalletLocked(!!data.walletLocked);
+                    setAutoLockAt(data.autoLockAt || null);
                     setBalance(data.balance || 0);
                     setUsdcBalance(data.usdcBalance || 0);
                     setSolPrice(data.solPrice || 0);
@@ -83,12 +137,26 @@ const BotControlPanel: React.FC = () => {
                     setRules(data.rules || []);
                     setTradeLog(data.recentTrades || []);
                     setLastCheck(data.lastCheck || '');
+                    setPaperMode(!!data.paperMode);
+                    if (data.paper) setPaperSlippage(data.paper.slippageBps);
+                    if (data.marketData) setMarketData(data.marketData);
                     setLoading(false);
                     break;
+                case 'TRADER_MARKET_DATA':
+                    setMarketData(data.marketData);
+                    break;
+                case 'TRADER_PAPER_MODE_ACK':
+                    setPaperMode(data.paperMode);
+                    setSuccess(data.paperMode ? 'Paper trading on — fills are simulated.' : 'Live trading on — swaps use real funds.');
+                    gatewayService.traderStatus();
+                    gatewayService.traderHistory();
+                    break;
                 case 'TRADER_WALLET':
                     if (data.error) { setError(data.error); }
                     else {
                         setPublicKey(data.publicKey); setWalletCreated(true);
+                        setWalletEncrypted(true); setWalletLocked(false);
+                        setPassphrase(''); setPassphraseConfirm('');
                         if (data.mnemonic) {
                             setExportedMnemonic(data.mnemonic);
                             setShowExportKey(true);
@@ -98,9 +166,24 @@ const BotControlPanel: React.FC = () => {
                         }
                     }
                     break;
+                case 'TRADER_UNLOCKED':
+                    setWalletLocked(false); setAutoLockAt(data.autoLockAt || null); setUnlocking(false);
+                    setSuccess('Wallet unlocked.');
+                    break;
+                case 'TRADER_LOCKED':
+                    setWalletLocked(true); setAutoLockAt(null);
+                    setSuccess(data.reason === 'idle' ? 'Wallet auto-locked after inactivity.' : 'Wallet locked.');
+                    gatewayService.traderStatus(); // a live bot stops when the key is dropped
+                    break;
+                case 'TRADER_WALLET_ENCRYPTED':
+                    setWalletEncrypted(true); setWalletLocked(false); setAutoLockAt(data.autoLockAt || null);
+                    setPassphrase(''); setPassphraseConfirm('');
+                    setSuccess('Wallet encrypted — you will need this passphrase to unlock it.');
+                    break;
                 case 'TRADER_STARTED': setIsRunning(true); setSuccess('Bot started!'); break;
                 case 'TRADER_STOPPED': setIsRunning(false); setSuccess('Bot stopped.'); break;
                 case 'TRADER_RULE_ADDED': setRules(prev => [...prev, data.rule]); break;
+                case 'TRADER_RULES': setRules(data.rules || []); break;
                 case 'TRADER_RULE_REMOVED': setRules(prev => prev.filter(r => r.id !== data.ruleId)); break;
                 case 'TRADER_RULE_TOGGLED': setRules(prev => prev.map(r => r.id === data.ruleId ? { ...r, active: !r.active } : r)); break;
                 case 'TRADER_LOG': setTradeLog(prev => [data.entry, ...prev].slice(0, 30)); break;
@@ -108,16 +191,17 @@ const BotControlPanel: React.FC = () => {
                     setExportedKey(data.secretKey || '');
                     setExportedMnemonic(data.mnemonic || '');
                     setShowExportKey(true);
+                    setShowExportConfirm(false); setExportPassphrase('');
                     break;
                 case 'TRADER_SWAP_RESULT':
                     setSwapping(false);
                     setSwapAmount('');
-                    setSuccess(`Swap complete! Tx: ${shortAddr(data.signature)}`);
+                    setSuccess(data.paper ? 'Paper swap filled (simulated).' : `Swap complete! Tx: ${shortAddr(data.signature)}`);
                     gatewayService.traderStatus(); // Refresh balances
                     break;
                 case 'TRADER_WITHDRAW_RESULT': setSuccess(`Withdrawn! Tx: ${shortAddr(data.signature)}`); break;
                 case 'TRADER_HISTORY': setTradeLog(data.history || []); break;
-                case 'TRADER_ERROR': setError(data.error); setLoading(false); setSwapping(false); break;
+                case 'TRADER_ERROR': setError(data.error); setLoading(false); setSwapping(false); setUnlocking(false); break;
                 case 'TRADER_WALLET_RESET':
                     setWalletCreated(false); setPublicKey(''); setBalance(0);
                     setIsRunning(false); setRules([]); setTradeLog([]);
@@ -143,10 +227,40 @@ const BotControlPanel: React.FC = () => {
     const clearMsg = () => { setError(''); setSuccess(''); };
 
     const handleAddRule = () => {
-        if (!newRule.triggerPrice) return;
-        gatewayService.traderAddRule({ ...newRule, triggerPrice: parseFloat(newRule.triggerPrice) });
+        const value = parseFloat(newRule.value);
+        if (!(value > 0)) return;
+        const rule = {
+            token: newRule.token,
+            outputToken: newRule.outputToken,
+            type: newRule.type,
+            triggerMode: newRule.type === 'trailing-stop' ? 'price' : newRule.triggerMode,
+            ...(newRule.type === 'trailing-stop' ? { trailPct: value }
+                : newRule.triggerMode === 'percent' ? { triggerPct: value } : { triggerPrice: value }),
+            sizePct: parseFloat(newRule.sizePct),
+            cooldownSec: Math.round(parseFloat(newRule.cooldownMin || '0') * 60),
+            ocoWith: newRule.ocoWith,
+        };
+        if (editingRuleId) gatewayService.traderUpdateRule(editingRuleId, rule);
+        else gatewayService.traderAddRule(rule);
         setShowAddRule(false);
-        setNewRule({ token: 'SOL', type: 'stop-loss', triggerPrice: '', action: 'sell-all', outputToken: 'USDC' });
+        setEditingRuleId(null);
+        setNewRule(EMPTY_RULE);
+    };
+
+    const handleEditRule = (r: BotRule) => {
+        const partner = r.groupId ? rules.find(o => o.groupId === r.groupId && o.id !== r.id) : undefined;
+        setNewRule({
+            token: r.token,
+            outputToken: r.outputToken,
+            type: r.type,
+            triggerMode: r.triggerMode,
+            value: String(r.type === 'trailing-stop' ? r.trailPct : r.triggerMode === 'percent' ? r.triggerPct : r.triggerPrice),
+            sizePct: String(r.sizePct),
+            cooldownMin: String(r.cooldownSec / 60),
+            ocoWith: partner?.id || '',
+        });
+        setEditingRuleId(r.id);
+        setShowAddRule(true);
     };
 
     const handleWithdraw = () => {
@@ -156,10 +270,24 @@ const BotControlPanel: React.FC = () => {
         setWithdrawAddr(''); setWithdrawAmount('');
     };
 
-    const handleSwap = () => {
+    // The server only swaps against an approval — confirm it in the approval queue
+    const handleSwap = async () => {
         if (!swapAmount || parseFloat(swapAmount) <= 0 || swapFrom === swapTo) return;
         setSwapping(true);
-        gatewayService.traderSwap(swapFrom, swapTo, swapAmount);
+        const decision = await approvalQueueService.request({
+            type: 'ASSET_COMMIT',
+            title: `Swap ${swapAmount} ${swapFrom} → ${swapTo}`,
+            description: 'Manual swap from the trading panel.',
+            toolName: 'executeSwap',
+            args: { inputToken: swapFrom, outputToken: swapTo, amount: swapAmount },
+            caller: 'OPERATOR',
+        });
+        if (!decision.approved) {
+            setSwapping(false);
+            setError(`Swap ${decision.status === 'EXPIRED' ? 'approval expired' : 'rejected'}`);
+            return;
+        }
+        gatewayService.traderSwap(swapFrom, swapTo, swapAmount, undefined, decision.id);
     };
 
     // Track price direction
@@ -174,19 +302,48 @@ const BotControlPanel: React.FC = () => {
     const [showImport, setShowImport] = useState(false);
     const [importKeyInput, setImportKeyInput] = useState('');
 
-    // Auto-import from SecretsView if set
+    // Prefill import from SecretsView if set — the passphrase still has to be chosen here
     useEffect(() => {
         if (!walletCreated && !loading) {
             const saved = userScopeService.scopedGet('env_SOLANA_BURNER_KEY');
             if (saved) {
-                gatewayService.traderImportKey(saved);
+                setImportKeyInput(saved);
+                setShowImport(true);
             }
         }
     }, [walletCreated, loading]);
 
+    const passphraseError = passphrase.length < 8
+        ? 'Passphrase must be at least 8 characters'
+        : passphrase !== passphraseConfirm ? 'Passphrases do not match' : '';
+
+    const handleGenerate = () => {
+        if (passphraseError) { setError(passphraseError); return; }
+        gatewayService.traderGenerateWallet(passphrase);
+    };
+
+    const handleEncryptWallet = () => {
+        if (passphraseError) { setError(passphraseError); return; }
+        gatewayService.traderEncryptWallet(passphrase);
+    };
+
+    const handleUnlock = () => {
+        if (!unlockInput) return;
+        setUnlocking(true);
+        gatewayService.traderUnlock(unlockInput);
+        setUnlockInput('');
+    };
+
+    const handleExportKey = () => {
+        if (!exportPassphrase) return;
+        gatewayService.traderExportKey(exportPassphrase);
+        setExportPassphrase('');
+    };
+
     const handleImportKey = () => {
         if (!importKeyInput.trim()) return;
-        gatewayService.traderImportKey(importKeyInput.trim());
+        if (passphraseError) { setError(passphraseError); return; }
+        gatewayService.traderImportKey(importKeyInput.trim(), passphrase);
         // Also save to localStorage/secrets
         userScopeService.scopedSet('env_SOLANA_BURNER_KEY', importKeyInput.trim());
         setImportKeyInput('');
@@ -203,7 +360,7 @@ const BotControlPanel: React.FC = () => {
     );
 
     // ─── No wallet yet ───
-    if (!walletCreated) return (
+    if (!walletCreated && !paperMode) return (
         <div className="rounded-2xl border border-white/[0.06] p-6" style={{ background: 'linear-gradient(135deg, rgba(153,69,255,0.06), rgba(20,241,149,0.03))' }}>
             <div className="flex flex-col items-center py-6 gap-4">
                 <div className="w-16 h-16 rounded-2xl flex items-center justify-center bg-white/5 border border-white/10">
@@ -213,8 +370,14 @@ const BotControlPanel: React.FC = () => {
                     <h2 className="text-lg font-bold text-white mb-1">Setup Burner Wallet</h2>
                     <p className="text-xs text-white/30 max-w-xs">Generate a new server-side keypair or import an existing <strong className="text-white/50">seed phrase</strong> or private key. The bot trades 24/7 on the VPS.</p>
                 </div>
+                <div className="w-full max-w-sm grid grid-cols-2 gap-2">
+                    <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder="Wallet passphrase"
+                        className="bg-black/40 border border-white/10 rounded-lg py-2 px-3 text-xs text-white outline-none focus:border-purple-500/30" />
+                    <input type="password" value={passphraseConfirm} onChange={e => setPassphraseConfirm(e.target.value)} placeholder="Confirm passphrase"
+                        className="bg-black/40 border border-white/10 rounded-lg py-2 px-3 text-xs text-white outline-none focus:border-purple-500/30" />
+                </div>
                 <div className="flex gap-2">
-                    <button onClick={() => gatewayService.traderGenerateWallet()}
+                    <button onClick={handleGenerate}
                         className="px-5 py-3 rounded-xl font-bold text-sm text-white transition-all hover:scale-[1.02] active:scale-[0.98]"
                         style={{ background: 'linear-gradient(135deg, #9945FF, #14F195)', boxShadow: '0 4px 20px rgba(153,69,255,0.3)' }}>
                         🔑 Generate New
@@ -223,6 +386,10 @@ const BotControlPanel: React.FC = () => {
                         className="px-5 py-3 rounded-xl font-bold text-sm text-white bg-white/5 border border-white/10 hover:bg-white/10 transition-all">
                         📥 Import Key
                     </button>
+                    <button onClick={() => gatewayService.traderPaperMode(true)}
+                        className="px-5 py-3 rounded-xl font-bold text-sm text-amber-300 bg-amber-500/10 border border-amber-500/20 hover:bg-amber-500/20 transition-all">
+                        🧪 Paper Trade
+                    </button>
                 </div>
                 {showImport && (
                     <div className="w-full max-w-sm space-y-2">
@@ -236,7 +403,7 @@ const BotControlPanel: React.FC = () => {
                         </button>
                     </div>
                 )}
-                <p className="text-[10px] text-white/20 italic">Seed phrase or private key stored on your VPS only</p>
+                <p className="text-[10px] text-white/20 italic">Seed phrase or private key stored encrypted on your VPS only — the passphrase cannot be recovered</p>
             </div>
         </div>
     );
@@ -273,26 +440,51 @@ const BotControlPanel: React.FC = () => {
             <div className="rounded-2xl border border-white/[0.06] p-5" style={{ background: 'linear-gradient(135deg, rgba(153,69,255,0.06), rgba(20,241,149,0.03))' }}>
                 <div className="flex items-center justify-between mb-3">
                     <h2 className="text-sm font-bold text-white flex items-center gap-2">
-                        <Shield className="w-4 h-4 text-green-400" /> Burner Wallet
-                        <span className="text-[8px] bg-green-500/20 text-green-400 px-2 py-0.5 rounded-full font-bold uppercase tracking-wider">VPS</span>
+                        {paperMode ? (
+                            <>
+                                <FlaskConical className="w-4 h-4 text-amber-400" /> Paper Wallet
+                                <span className="text-[8px] bg-amber-500/20 text-amber-400 px-2 py-0.5 rounded-full font-bold uppercase tracking-wider">Paper</span>
+                            </>
+                        ) : (
+                            <>
+                                <Shield className="w-4 h-4 text-green-400" /> Burner Wallet
+                                <span className="text-[8px] bg-green-500/20 text-green-400 px-2 py-0.5 rounded-full font-bold uppercase tracking-wider">Live</span>
+                            </>
+                        )}
                     </h2>
-                    <div className="flex items-center gap-2">
-                        <button onClick={() => setShowWithdraw(!showWithdraw)} className="text-[10px] text-purple-400 hover:text-purple-300 font-bold">Withdraw</button>
-                        <button onClick={() => gatewayService.traderExportKey()} className="text-[10px] text-white/20 hover:text-white/40 font-bold">Export Key</button>
-                        <button onClick={() => { if (confirm('Reset wallet? This will delete the current keypair from the VPS.')) gatewayService.traderResetWallet(); }} className="text-[10px] text-red-400/40 hover:text-red-400 font-bold">Reset</button>
-                    </div>
+                    {paperMode ? (
+                        <div className="flex items-center gap-2">
+                            <button onClick={() => { if (confirm('Reset paper wallet to starting balances? Open paper positions are discarded.')) gatewayService.traderPaperMode(true, { reset: true }); }} className="text-[10px] text-red-400/40 hover:text-red-400 font-bold">Reset Paper</button>
+                        </div>
+                    ) : (
+                        <div className="flex items-center gap-2">
+                            <button onClick={() => setShowWithdraw(!showWithdraw)} className="text-[10px] text-purple-400 hover:text-purple-300 font-bold">Withdraw</button>
+                            {walletEncrypted && !walletLocked && (
+                                <button onClick={() => gatewayService.traderLock()} className="text-[10px] text-white/20 hover:text-white/40 font-bold flex items-center gap-1"><Lock className="w-3 h-3" /> Lock</button>
+                            )}
+                            <button onClick={() => setShowExportConfirm(!showExportConfirm)} className="text-[10px] text-white/20 hover:text-white/40 font-bold">Export Key</button>
+                            <button onClick={() => { if (confirm('Reset wallet? This will delete the current keypair from the VPS.')) gatewayService.traderResetWallet(); }} className="text-[10px] text-red-400/40 hover:text-red-400 font-bold">Reset</button>
+                        </div>
+                    )}
                 </div>
                 <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
                         <div className="w-10 h-10 rounded-xl flex items-center justify-center text-lg" style={{ background: 'linear-gradient(135deg, #9945FF, #14F195)' }}>🤖</div>
-                        <div>
-                            <div className="flex items-center gap-2">
-                                <span className="text-sm font-bold text-white font-mono">{shortAddr(publicKey)}</span>
-                                <button onClick={copyAddress} className="text-white/30 hover:text-white/60">{copied ? <Check className="w-3 h-3 text-green-400" /> : <Copy className="w-3 h-3" />}</button>
-                                <a href={`https://solscan.io/account/${publicKey}`} target="_blank" rel="noopener noreferrer" className="text-white/30 hover:text-white/60"><ExternalLink className="w-3 h-3" /></a>
+                        {paperMode ? (
+                            <div>
+                                <span className="text-sm font-bold text-white">Simulated balances</span>
+                                <p className="text-[10px] text-white/20 mt-0.5">Live quotes, fake fills — nothing touches the chain</p>
                             </div>
-                            <p className="text-[10px] text-white/20 mt-0.5">Fund this address from Phantom to start trading</p>
-                        </div>
+                        ) : (
+                            <div>
+                                <div className="flex items-center gap-2">
+                                    <span className="text-sm font-bold text-white font-mono">{shortAddr(publicKey)}</span>
+                                    <button onClick={copyAddress} className="text-white/30 hover:text-white/60">{copied ? <Check className="w-3 h-3 text-green-400" /> : <Copy className="w-3 h-3" />}</button>
+                                    <a href={`https://solscan.io/account/${publicKey}`} target="_blank" rel="noopener noreferrer" className="text-white/30 hover:text-white/60"><ExternalLink className="w-3 h-3" /></a>
+                                </div>
+                                <p className="text-[10px] text-white/20 mt-0.5">Fund this address from Phantom to start trading</p>
+                            </div>
+                        )}
                     </div>
                     <div className="text-right">
                         <div className="text-xl font-black text-white">{balance.toFixed(4)} <span className="text-white/40 text-sm">SOL</span></div>
@@ -318,6 +510,48 @@ const BotControlPanel: React.FC = () => {
                     </div>
                 </div>
 
+                {/* Wallet Lock */}
+                {!paperMode && walletLocked && (
+                    <div className="mt-3 p-3 rounded-xl bg-amber-500/5 border border-amber-500/20 space-y-2">
+                        <div className="text-[10px] text-amber-400 font-bold flex items-center gap-1"><Lock className="w-3 h-3" /> Wallet locked — unlock to trade or withdraw</div>
+                        <div className="flex gap-2">
+                            <input type="password" value={unlockInput} onChange={e => setUnlockInput(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleUnlock()} placeholder="Passphrase"
+                                className="flex-1 bg-black/40 border border-white/10 rounded-lg py-2 px-3 text-xs text-white outline-none focus:border-amber-500/30" />
+                            <button onClick={handleUnlock} disabled={unlocking}
+                                className="px-4 py-2 rounded-lg text-xs font-bold text-amber-300 bg-amber-500/10 hover:bg-amber-500/20 border border-amber-500/20 flex items-center gap-1 disabled:opacity-40">
+                                {unlocking ? <Loader2 className="w-3 h-3 animate-spin" /> : <Unlock className="w-3 h-3" />} Unlock
+                            </button>
+                        </div>
+                    </div>
+                )}
+                {!paperMode && walletEncrypted && !walletLocked && autoLockAt && (
+                    <p className="mt-2 text-[9px] text-white/20">Auto-locks after inactivity · next at {new Date(autoLockAt).toLocaleTimeString()}</p>
+                )}
+                {!paperMode && walletCreated && !walletEncrypted && (
+                    <div className="mt-3 p-3 rounded-xl bg-red-500/5 border border-red-500/20 space-y-2">
+                        <div className="text-[10px] text-red-400 font-bold flex items-center gap-1"><AlertTriangle className="w-3 h-3" /> Wallet stored in plaintext — set a passphrase to encrypt it</div>
+                        <div className="flex gap-2">
+                            <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder="New passphrase"
+                                className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-lg py-2 px-3 text-xs text-white outline-none focus:border-red-500/30" />
+                            <input type="password" value={passphraseConfirm} onChange={e => setPassphraseConfirm(e.target.value)} placeholder="Confirm"
+                                className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-lg py-2 px-3 text-xs text-white outline-none focus:border-red-500/30" />
+                            <button onClick={handleEncryptWallet} className="px-4 py-2 rounded-lg text-xs font-bold text-white bg-red-500/20 hover:bg-red-500/30 border border-red-500/20">Encrypt</button>
+                        </div>
+                    </div>
+                )}
+
+                {/* Export Key Confirmation */}
+                {showExportConfirm && !paperMode && (
+                    <div className="mt-3 p-3 rounded-xl bg-white/[0.03] border border-white/[0.06] space-y-2">
+                        <div className="text-[10px] text-white/40 font-bold">Confirm your wallet passphrase to reveal the private key</div>
+                        <div className="flex gap-2">
+                            <input type="password" value={exportPassphrase} onChange={e => setExportPassphrase(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleExportKey()} placeholder="Passphrase"
+                                className="flex-1 bg-black/40 border border-white/10 rounded-lg py-2 px-3 text-xs text-white outline-none focus:border-purple-500/30" />
+                            <button onClick={handleExportKey} className="px-4 py-2 rounded-lg text-xs font-bold text-white bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/20">Reveal</button>
+                        </div>
+                    </div>
+                )}
+
                 {/* Withdraw Form */}
                 {showWithdraw && (
                     <div className="mt-3 p-3 rounded-xl bg-white/[0.03] border border-white/[0.06] space-y-2">
@@ -516,12 +750,21 @@ const BotControlPanel: React.FC = () => {
                 )}
             </div>
 
+            {/* Agent Trade Proposals — operator approval queue */}
+            <TradeProposalsPanel />
+
             {/* Strategy Builder */}
             <StrategyBuilder pair="SOL/USDC" />
 
             {/* Jupiter Perps — Leverage Trading */}
             <PerpsPanel />
 
+            {/* DCA — Scheduled Accumulation Plans */}
+            <DcaPlansPanel />
+
+            {/* Alerts — Price, Move, Indicator & Liquidation */}
+            <AlertsPanel />
+
             {/* Bot Brain — Thinking + Trade Log + Positions */}
             <BotBrainPanel pair="SOL/USDC" />
 
@@ -551,6 +794,54 @@ const BotControlPanel: React.FC = () => {
 
                 {/* Toggles */}
                 <div className="flex flex-col gap-2 mb-4">
+                    {/* Paper Trading Toggle */}
+                    <label className={`flex items-center justify-between p-2.5 rounded-xl border cursor-pointer transition-colors ${paperMode ? 'bg-amber-500/[0.04] border-amber-500/20' : 'bg-white/[0.02] border-white/[0.06] hover:bg-white/[0.04]'}`}>
+                        <div className="flex items-center gap-2">
+                            <FlaskConical className="w-3.5 h-3.5 text-amber-400" />
+                            <div>
+                                <div className="text-[11px] font-bold text-white">Paper Trading</div>
+                                <div className="text-[9px] text-white/20">{isRunning ? 'Stop the bot to switch modes' : 'Simulated wallet — real prices, no real funds'}</div>
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            {paperMode && (
+                                <input type="number" min={0} max={5000} value={paperSlippage} title="Simulated slippage (bps)"
+                                    onClick={e => e.stopPropagation()}
+                                    onChange={e => setPaperSlippage(parseInt(e.target.value) || 0)}
+                                    onBlur={() => gatewayService.traderPaperMode(true, { slippageBps: paperSlippage })}
+                                    className="w-14 bg-black/40 border border-white/10 rounded-md py-0.5 px-1.5 text-[10px] text-white font-mono outline-none" />
+                            )}
+                            <div className={`relative w-9 h-5 rounded-full transition-colors ${paperMode ? 'bg-amber-500' : 'bg-white/10'} ${isRunning ? 'opacity-40' : ''}`}
+                                onClick={() => {
+                                    if (isRunning) return;
+                                    const next = !paperMode;
+                                    if (!next && !walletCreated) { setError('Set up a burner wallet before switching to live trading.'); return; }
+                                    if (!next && !confirm('Switch to LIVE trading? Swaps and perps will use real funds.')) return;
+                                    gatewayService.traderPaperMode(next);
+                                }}>
+                                <div className={`absolute top-0.5 w-4 h-4 rounded-full bg-white shadow transition-transform ${paperMode ? 'translate-x-[18px]' : 'translate-x-0.5'}`} />
+                            </div>
+                        </div>
+                    </label>
+
+                    {/* Market Data Source */}
+                    <div className={`flex items-center justify-between p-2.5 rounded-xl border ${marketData.source !== 'live' ? 'bg-cyan-500/[0.04] border-cyan-500/20' : 'bg-white/[0.02] border-white/[0.06]'}`}>
+                        <div className="flex items-center gap-2">
+                            <Database className="w-3.5 h-3.5 text-cyan-400" />
+                            <div>
+                                <div className="text-[11px] font-bold text-white">Market Data</div>
+                                <div className="text-[9px] text-white/20">{isRunning ? 'Stop the bot to switch sources' : describeMarketData(marketData)}</div>
+                            </div>
+                        </div>
+                        <select value={marketData.source} disabled={isRunning}
+                            onChange={e => gatewayService.traderSetMarketData({ source: e.target.value as MarketDataSettings['source'] })}
+                            className="bg-black/40 border border-white/10 rounded-md py-0.5 px-1.5 text-[10px] text-white outline-none disabled:opacity-40">
+                            <option value="live">Live</option>
+                            <option value="replay">Replay</option>
+                            <option value="synthetic">Synthetic</option>
+                        </select>
+                    </div>
+
                     {/* Keep Alive Toggle */}
                     <label className="flex items-center justify-between p-2.5 rounded-xl bg-white/[0.02] border border-white/[0.06] cursor-pointer hover:bg-white/[0.04] transition-colors">
                         <div className="flex items-center gap-2">
@@ -596,51 +887,77 @@ const BotControlPanel: React.FC = () => {
                 <div className="mb-3">
                     <div className="flex items-center justify-between mb-2">
                         <span className="text-[10px] text-white/40 font-bold uppercase tracking-wider">Trading Rules</span>
-                        <button onClick={() => setShowAddRule(!showAddRule)} className="flex items-center gap-1 text-[10px] text-purple-400 hover:text-purple-300 font-bold">
+                        <button onClick={() => { setShowAddRule(!showAddRule); setEditingRuleId(null); setNewRule(EMPTY_RULE); }} className="flex items-center gap-1 text-[10px] text-purple-400 hover:text-purple-300 font-bold">
                             <Plus className="w-3 h-3" /> Add Rule
                         </button>
                     </div>
 
                     {showAddRule && (
                         <div className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06] mb-2 space-y-2">
-                            <div className="grid grid-cols-2 gap-2">
-                                <select value={newRule.token} onChange={e => setNewRule(p => ({ ...p, token: e.target.value }))} className="bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white outline-none">
+                            <div className="grid grid-cols-3 gap-2">
+                                <select value={newRule.token} onChange={e => { const token = e.target.value; setNewRule(p => ({ ...p, token, ocoWith: '', outputToken: p.outputToken === token ? (token === 'USDC' ? 'SOL' : 'USDC') : p.outputToken })); }} className="bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white outline-none">
                                     {TOKEN_OPTIONS.map(t => <option key={t} value={t}>{t}</option>)}
                                 </select>
-                                <select value={newRule.type} onChange={e => setNewRule(p => ({ ...p, type: e.target.value }))} className="bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white outline-none">
+                                <select value={newRule.type} onChange={e => setNewRule(p => ({ ...p, type: e.target.value as RuleType }))} className="bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white outline-none">
                                     <option value="stop-loss">Stop Loss</option>
                                     <option value="take-profit">Take Profit</option>
+                                    <option value="trailing-stop">Trailing Stop</option>
+                                </select>
+                                <select value={newRule.outputToken} onChange={e => setNewRule(p => ({ ...p, outputToken: e.target.value }))} className="bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white outline-none">
+                                    {TOKEN_OPTIONS.filter(t => t !== newRule.token).map(t => <option key={t} value={t}>→ {t}</option>)}
                                 </select>
                             </div>
                             <div className="grid grid-cols-3 gap-2">
-                                <input type="number" step="any" placeholder="Trigger $ price" value={newRule.triggerPrice} onChange={e => setNewRule(p => ({ ...p, triggerPrice: e.target.value }))}
+                                {newRule.type === 'trailing-stop' ? (
+                                    <div className="bg-black/20 border border-white/5 rounded-lg py-1.5 px-2 text-[10px] text-white/30">% below high</div>
+                                ) : (
+                                    <select value={newRule.triggerMode} onChange={e => setNewRule(p => ({ ...p, triggerMode: e.target.value as 'price' | 'percent' }))} className="bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white outline-none">
+                                        <option value="price">At $ price</option>
+                                        <option value="percent">% from entry</option>
+                                    </select>
+                                )}
+                                <input type="number" step="any" value={newRule.value} onChange={e => setNewRule(p => ({ ...p, value: e.target.value }))}
+                                    placeholder={newRule.type === 'trailing-stop' ? 'Trail %' : newRule.triggerMode === 'percent' ? 'Trigger %' : 'Trigger $ price'}
                                     className="bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white outline-none" />
-                                <select value={newRule.action} onChange={e => setNewRule(p => ({ ...p, action: e.target.value }))} className="bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white outline-none">
-                                    <option value="sell-all">Sell All</option>
-                                    <option value="sell-half">Sell Half</option>
+                                <select value={newRule.sizePct} onChange={e => setNewRule(p => ({ ...p, sizePct: e.target.value }))} className="bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white outline-none">
+                                    {['100', '75', '50', '25', '10'].map(pct => <option key={pct} value={pct}>Sell {pct}%</option>)}
                                 </select>
-                                <select value={newRule.outputToken} onChange={e => setNewRule(p => ({ ...p, outputToken: e.target.value }))} className="bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white outline-none">
-                                    {TOKEN_OPTIONS.map(t => <option key={t} value={t}>{t}</option>)}
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <input type="number" min="0" step="any" value={newRule.cooldownMin} onChange={e => setNewRule(p => ({ ...p, cooldownMin: e.target.value }))} placeholder="Cooldown (min)"
+                                    className="bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white outline-none" />
+                                <select value={newRule.ocoWith} onChange={e => setNewRule(p => ({ ...p, ocoWith: e.target.value }))} className="bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white outline-none">
+                                    <option value="">No OCO link</option>
+                                    {rules.filter(r => r.id !== editingRuleId && r.token === newRule.token).map(r => (
+                                        <option key={r.id} value={r.id}>OCO with {r.type} {describeTrigger(r)}</option>
+                                    ))}
                                 </select>
                             </div>
-                            <button onClick={handleAddRule} className="w-full py-2 rounded-lg text-xs font-bold text-white bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/20">Add Rule</button>
+                            <p className="text-[9px] text-white/20">{newRule.triggerMode === 'percent' || newRule.type === 'trailing-stop' ? 'Entry / high-water starts at the current price. ' : ''}Partial sells re-arm after the cooldown; OCO-linked rules cancel each other when one fires.</p>
+                            <button onClick={handleAddRule} className="w-full py-2 rounded-lg text-xs font-bold text-white bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/20">{editingRuleId ? 'Save Rule' : 'Add Rule'}</button>
                         </div>
                     )}
 
                     {rules.length === 0 ? (
-                        <p className="text-[11px] text-white/15 italic text-center py-3">No rules set — add stop-loss or take-profit rules</p>
+                        <p className="text-[11px] text-white/15 italic text-center py-3">No rules set — add stop-loss, take-profit or trailing-stop rules</p>
                     ) : (
                         <div className="space-y-1">
                             {rules.map(r => (
                                 <div key={r.id} className={`flex items-center justify-between p-2.5 rounded-xl border transition-colors ${r.active ? 'bg-white/[0.03] border-white/[0.06]' : 'bg-white/[0.01] border-white/[0.03] opacity-50'}`}>
                                     <div className="flex items-center gap-2">
-                                        {r.type === 'stop-loss' ? <Target className="w-3.5 h-3.5 text-red-400" /> : <Zap className="w-3.5 h-3.5 text-green-400" />}
+                                        {r.type === 'take-profit' ? <Zap className="w-3.5 h-3.5 text-green-400" /> : r.type === 'trailing-stop' ? <TrendingDown className="w-3.5 h-3.5 text-amber-400" /> : <Target className="w-3.5 h-3.5 text-red-400" />}
                                         <div>
                                             <span className="text-xs font-bold text-white">{r.token} {r.type}</span>
-                                            <span className="text-[10px] text-white/30 ml-2">@ ${r.triggerPrice} → {r.action} to {r.outputToken}</span>
+                                            <span className="text-[10px] text-white/30 ml-2">{describeTrigger(r)} → sell {r.sizePct}% to {r.outputToken}</span>
+                                            <div className="text-[9px] text-white/20">
+                                                {r.groupId && <span className="mr-2 text-purple-400/60">OCO #{r.groupId}</span>}
+                                                {r.cooldownSec > 0 && <span className="mr-2">cooldown {Math.round(r.cooldownSec / 60)}m</span>}
+                                                {r.triggerCount > 0 && <span>fired {r.triggerCount}× · last {new Date(r.lastTriggeredAt!).toLocaleString()}</span>}
+                                            </div>
                                         </div>
                                     </div>
                                     <div className="flex items-center gap-1">
+                                        <button onClick={() => handleEditRule(r)} className="p-1 hover:bg-white/5 rounded text-[9px] text-white/30 hover:text-white/60 font-bold">Edit</button>
                                         <button onClick={() => gatewayService.traderToggleRule(r.id)} className="p-1 hover:bg-white/5 rounded">
                                             {r.active ? <CircleOff className="w-3 h-3 text-white/30" /> : <Power className="w-3 h-3 text-green-400" />}
                                         </button>
@@ -1,11 +1,23 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { createChart, IChartApi, ISeriesApi, CandlestickData, HistogramData, LineData, Time, ColorType, CandlestickSeries, HistogramSeries, LineSeries } from 'lightweight-charts';
-import { BarChart3, RefreshCw, AlertTriangle, Code2, Play, X } from 'lucide-react';
+import { createChart, createSeriesMarkers, IChartApi, ISeriesApi, ISeriesMarkersPluginApi, SeriesMarker, CandlestickData, HistogramData, LineData, WhitespaceData, Time, ColorType, CandlestickSeries, HistogramSeries, LineSeries } from 'lightweight-charts';
+import { BarChart3, RefreshCw, AlertTriangle, Code2, Play, X, Save, Plus, Trash2, HelpCircle, ArrowUpRight } from 'lucide-react';
 import { gatewayService } from '../services/gatewayService';
-import { userScopeService } from '../services/userScopeService';
+import { chartScriptService, ChartScript, ScriptResult, ScriptRule, SCRIPT_API_DOC } from '../services/chartScriptService';
 
 // ─── Types ────────────────────────────────────────────────
 interface Candle { t: number; o: number; h: number; l: number; c: number; v: number; }
+interface Bands { upper: number[]; middle: number[]; lower: number[] }
+// Full arrays returned when indicators are requested with series (aligned to the newest candle)
+interface IndicatorSeries {
+    bollinger: Bands;
+    keltner: Bands;
+    macd: { macd: number[]; signal: number[]; histogram: number[] };
+    stochRsi: { k: number[]; d: number[] };
+    supertrend: { values: number[]; directions: Array<'up' | 'down'> };
+    obv: { values: number[]; ema: number[] };
+    adx: { adx: number[]; plusDI: number[]; minusDI: number[] };
+    ichimoku: { tenkan: number[]; kijun: number[]; spanA: number[]; spanB: number[] };
+}
 interface IndicatorData {
     price: number;
     pair: string;
@@ -18,8 +30,11 @@ interface IndicatorData {
     avwap: { major: { current: number; values: number[] }; current: { current: number; values: number[] } };
     ladder: { stage: number; landmarks: any[] };
     diamond: { hasDiamond: boolean; color: string };
-    bollingerBands?: { upper: number[]; middle: number[]; lower: number[] };
-    macd?: { macd: number[]; signal: number[]; histogram: number[] };
+    macd?: { macd: number | null; signal: number | null; histogram: number | null };
+    adx?: { adx: number | null; plusDI: number | null; minusDI: number | null };
+    supertrend?: { value: number | null; direction: 'up' | 'down' | null };
+    stochRsi?: { k: number | null; d: number | null };
+    series?: IndicatorSeries;
     error?: string;
 }
 
@@ -31,6 +46,15 @@ const TIMEFRAMES = [
 
 const PAIRS = ['SOL/USDC', 'SOL/USDT'];
 
+// Oscillators drawn in the lower pane
+const OSCILLATORS = [
+    { label: 'Off', value: '' },
+    { label: 'MACD', value: 'macd' },
+    { label: 'Stoch RSI', value: 'stochRsi' },
+    { label: 'OBV', value: 'obv' },
+    { label: 'ADX', value: 'adx' },
+];
+
 const INDICATOR_COLORS = {
     ema9: '#00d4aa',
     ema21: '#f59e0b',
@@ -40,6 +64,16 @@ const INDICATOR_COLORS = {
     val: '#45b7d1',
     avwapMajor: '#ff9ff3',
     avwapCurrent: '#54a0ff',
+    bollinger: 'rgba(244, 208, 63, 0.7)',
+    keltner: 'rgba(93, 173, 226, 0.7)',
+    supertrendUp: '#00d4aa',
+    supertrendDown: '#ff4757',
+    tenkan: '#54a0ff',
+    kijun: '#ff6b6b',
+    spanA: 'rgba(0, 212, 170, 0.5)',
+    spanB: 'rgba(255, 71, 87, 0.5)',
+    oscFast: '#54a0ff',
+    oscSlow: '#f59e0b',
     volume: 'rgba(0, 212, 170, 0.15)',
     volumeDown: 'rgba(255, 107, 107, 0.15)',
 };
@@ -51,8 +85,11 @@ const ChartView: React.FC = () => {
     const candleSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
     const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
     const indicatorSeriesRefs = useRef<Map<string, ISeriesApi<any>>>(new Map());
+    const scriptSeriesRefs = useRef<ISeriesApi<any>[]>([]);
+    const scriptMarkersRef = useRef<ISeriesMarkersPluginApi<Time> | null>(null);
 
     const [pair, setPair] = useState('SOL/USDC');
+    const [pairs, setPairs] = useState<string[]>(PAIRS);
     const [timeframe, setTimeframe] = useState('day');
     const [candles, setCandles] = useState<Candle[]>([]);
     const [indicators, setIndicators] = useState<IndicatorData | null>(null);
@@ -64,11 +101,27 @@ const ChartView: React.FC = () => {
     const [showVP, setShowVP] = useState(true);
     const [showAVWAP, setShowAVWAP] = useState(false);
     const [showVolume, setShowVolume] = useState(true);
+    const [showBB, setShowBB] = useState(false);
+    const [showKC, setShowKC] = useState(false);
+    const [showST, setShowST] = useState(false);
+    const [showIchimoku, setShowIchimoku] = useState(false);
+    const [oscillator, setOscillator] = useState('');
 
     // Script editor
     const [showScriptEditor, setShowScriptEditor] = useState(false);
-    const [scriptCode, setScriptCode] = useState(() => userScopeService.scopedGet('chart_script') || '// Custom indicator script\n// Available: ema(period), sma(period), rsi(period)\n// plot(values, label, color)\n');
+    const [scripts, setScripts] = useState<ChartScript[]>(() => chartScriptService.list());
+    const [activeScriptId, setActiveScriptId] = useState<string>(() => chartScriptService.getActiveId() || chartScriptService.list()[0]?.id || '');
+    const activeScript = scripts.find(sc => sc.id === activeScriptId) || scripts[0];
+    const [scriptName, setScriptName] = useState(activeScript?.name || 'Untitled');
+    const [scriptCode, setScriptCode] = useState(activeScript?.code || '');
     const [scriptError, setScriptError] = useState<string | null>(null);
+    const [scriptRunning, setScriptRunning] = useState(false);
+    const [scriptOutput, setScriptOutput] = useState<{ result: ScriptResult; candles: Candle[] } | null>(null);
+    const [showScriptHelp, setShowScriptHelp] = useState(false);
+    // Promote a script rule into a saved strategy
+    const [strategies, setStrategies] = useState<any[]>([]);
+    const [promoteTarget, setPromoteTarget] = useState('');
+    const [promoteMessage, setPromoteMessage] = useState<string | null>(null);
 
     // ─── Subscribe to WS trader events for chart data ──────
     useEffect(() => {
@@ -86,7 +139,19 @@ const ChartView: React.FC = () => {
                     setIndicators(data);
                 }
             }
+            // The bot's watchlist extends the pair selector
+            if (data.type === 'TRADER_SCAN' && data.watchlist) {
+                setPairs([...new Set([...PAIRS, ...data.watchlist])]);
+            }
+            if (data.type === 'TRADER_STRATEGIES' && data.strategies) {
+                setStrategies(data.strategies);
+            }
+            if (data.type === 'TRADER_ERROR' && data.context === 'strategy') {
+                setPromoteMessage(data.error);
+            }
         });
+        gatewayService.traderGetScan();
+        gatewayService.traderGetStrategies();
         return () => unsub();
     }, []);
 
@@ -95,7 +160,7 @@ const ChartView: React.FC = () => {
         setLoading(true);
         setError(null);
         gatewayService.traderGetCandles(pair, timeframe, 300);
-        gatewayService.traderGetIndicators(pair, timeframe);
+        gatewayService.traderGetIndicators(pair, timeframe, true);
     }, [pair, timeframe]);
 
     useEffect(() => { fetchData(); }, [fetchData]);
@@ -169,6 +234,8 @@ const ChartView: React.FC = () => {
             chart.remove();
             chartRef.current = null;
             indicatorSeriesRefs.current.clear();
+            scriptSeriesRefs.current = [];
+            scriptMarkersRef.current = null;
         };
     }, []);
 
@@ -208,7 +275,7 @@ const ChartView: React.FC = () => {
         });
         indicatorSeriesRefs.current.clear();
 
-        const addLineSeries = (key: string, values: number[], color: string, lineWidth: number = 1, lineStyle: number = 0) => {
+        const addLineSeries = (key: string, values: number[], color: string, lineWidth: number = 1, lineStyle: number = 0, priceScaleId?: string) => {
             if (!values || values.length === 0) return;
             const series = chart.addSeries(LineSeries, {
                 color,
@@ -217,6 +284,7 @@ const ChartView: React.FC = () => {
                 priceLineVisible: false,
                 lastValueVisible: false,
                 crosshairMarkerVisible: false,
+                ...(priceScaleId ? { priceScaleId } : {}),
             });
 
             // Align values to candle timestamps (values may be shorter due to lookback)
@@ -259,97 +327,213 @@ const ChartView: React.FC = () => {
             if (indicators.avwap.current?.values) addLineSeries('avwapCurrent', indicators.avwap.current.values, INDICATOR_COLORS.avwapCurrent, 1, 2);
         }
 
-    }, [indicators, candles, showEMA, showVP, showAVWAP]);
-
-    // ─── Script Execution ───────────────────────────────────
-    const runScript = useCallback(() => {
-        if (!chartRef.current || candles.length === 0) return;
-        setScriptError(null);
-        userScopeService.scopedSet('chart_script', scriptCode);
+        const s = indicators.series;
+        if (!s) return;
 
-        try {
-            const closes = candles.map(c => c.c);
-            const highs = candles.map(c => c.h);
-            const lows = candles.map(c => c.l);
-            const volumes = candles.map(c => c.v);
-            const times = candles.map(c => c.t / 1000);
-
-            const ema = (period: number) => {
-                const k = 2 / (period + 1);
-                const result: number[] = [closes[0]];
-                for (let i = 1; i < closes.length; i++) {
-                    result.push(closes[i] * k + result[i - 1] * (1 - k));
-                }
-                return result;
-            };
-
-            const sma = (period: number) => {
-                const result: number[] = [];
-                for (let i = 0; i < closes.length; i++) {
-                    if (i < period - 1) { result.push(NaN); continue; }
-                    const slice = closes.slice(i - period + 1, i + 1);
-                    result.push(slice.reduce((a, b) => a + b, 0) / period);
-                }
-                return result;
-            };
-
-            const rsi = (period: number = 14) => {
-                const changes = closes.map((c, i) => i === 0 ? 0 : c - closes[i - 1]);
-                let avgGain = 0, avgLoss = 0;
-                const result: number[] = [];
-                for (let i = 0; i < changes.length; i++) {
-                    if (i < period) { result.push(NaN); continue; }
-                    if (i === period) {
-                        avgGain = changes.slice(1, period + 1).filter(c => c > 0).reduce((a, b) => a + b, 0) / period;
-                        avgLoss = Math.abs(changes.slice(1, period + 1).filter(c => c < 0).reduce((a, b) => a + b, 0)) / period;
-                    } else {
-                        avgGain = (avgGain * (period - 1) + Math.max(0, changes[i])) / period;
-                        avgLoss = (avgLoss * (period - 1) + Math.abs(Math.min(0, changes[i]))) / period;
-                    }
-                    const rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
-                    result.push(100 - 100 / (1 + rs));
-                }
-                return result;
-            };
-
-            const plots: Array<{ values: number[], label: string, color: string }> = [];
-            const plot = (values: number[], label: string = 'Custom', color: string = '#00ffaa') => {
-                plots.push({ values, label, color });
-            };
-
-            const fn = new Function('close', 'high', 'low', 'volume', 'time', 'ema', 'sma', 'rsi', 'plot', scriptCode);
-            fn(closes, highs, lows, volumes, times, ema, sma, rsi, plot);
-
-            // Remove old script series
-            indicatorSeriesRefs.current.forEach((series, key) => {
-                if (key.startsWith('script_')) {
-                    try { chartRef.current?.removeSeries(series); } catch { }
-                    indicatorSeriesRefs.current.delete(key);
-                }
-            });
+        // Bollinger Bands / Keltner Channels
+        if (showBB) {
+            addLineSeries('bbUpper', s.bollinger.upper, INDICATOR_COLORS.bollinger, 1);
+            addLineSeries('bbMiddle', s.bollinger.middle, INDICATOR_COLORS.bollinger, 1, 2);
+            addLineSeries('bbLower', s.bollinger.lower, INDICATOR_COLORS.bollinger, 1);
+        }
+        if (showKC) {
+            addLineSeries('kcUpper', s.keltner.upper, INDICATOR_COLORS.keltner, 1);
+            addLineSeries('kcMiddle', s.keltner.middle, INDICATOR_COLORS.keltner, 1, 2);
+            addLineSeries('kcLower', s.keltner.lower, INDICATOR_COLORS.keltner, 1);
+        }
 
-            // Add new script series
-            plots.forEach((p, i) => {
-                const series = chartRef.current!.addSeries(LineSeries, {
-                    color: p.color,
+        // SuperTrend — one line per direction, with gaps where the other side is active
+        if (showST && s.supertrend.values.length > 0) {
+            const offset = candles.length - s.supertrend.values.length;
+            (['up', 'down'] as const).forEach(dir => {
+                const series = chart.addSeries(LineSeries, {
+                    color: dir === 'up' ? INDICATOR_COLORS.supertrendUp : INDICATOR_COLORS.supertrendDown,
                     lineWidth: 2,
-                    title: p.label,
                     priceLineVisible: false,
-                    lastValueVisible: true,
+                    lastValueVisible: false,
+                    crosshairMarkerVisible: false,
                 });
-                const data: LineData[] = p.values.map((v, j) => ({
-                    time: (candles[j]?.t / 1000) as Time,
-                    value: v,
-                })).filter(d => !isNaN(d.value) && d.time);
+                const data: (LineData | WhitespaceData)[] = s.supertrend.values.map((v, i) => {
+                    const time = (candles[i + offset]?.t / 1000) as Time;
+                    return s.supertrend.directions[i] === dir ? { time, value: v } : { time };
+                }).filter(d => d.time);
                 series.setData(data);
-                indicatorSeriesRefs.current.set(`script_${i}`, series);
+                indicatorSeriesRefs.current.set(`supertrend_${dir}`, series);
             });
+        }
+
+        // Ichimoku
+        if (showIchimoku) {
+            addLineSeries('tenkan', s.ichimoku.tenkan, INDICATOR_COLORS.tenkan, 1);
+            addLineSeries('kijun', s.ichimoku.kijun, INDICATOR_COLORS.kijun, 1);
+            addLineSeries('spanA', s.ichimoku.spanA, INDICATOR_COLORS.spanA, 1, 2);
+            addLineSeries('spanB', s.ichimoku.spanB, INDICATOR_COLORS.spanB, 1, 2);
+        }
+
+        // Oscillator pane (own price scale under the candles)
+        if (oscillator) {
+            if (oscillator === 'macd') {
+                const hist = chart.addSeries(HistogramSeries, { priceScaleId: 'osc', priceLineVisible: false, lastValueVisible: false });
+                const offset = candles.length - s.macd.histogram.length;
+                hist.setData(s.macd.histogram.map((v, i) => ({
+                    time: (candles[i + offset]?.t / 1000) as Time,
+                    value: v,
+                    color: v >= 0 ? INDICATOR_COLORS.volume : INDICATOR_COLORS.volumeDown,
+                })).filter(d => d.time));
+                indicatorSeriesRefs.current.set('osc_hist', hist);
+                addLineSeries('osc_macd', s.macd.macd, INDICATOR_COLORS.oscFast, 1, 0, 'osc');
+                addLineSeries('osc_signal', s.macd.signal, INDICATOR_COLORS.oscSlow, 1, 0, 'osc');
+            } else if (oscillator === 'stochRsi') {
+                addLineSeries('osc_k', s.stochRsi.k, INDICATOR_COLORS.oscFast, 1, 0, 'osc');
+                addLineSeries('osc_d', s.stochRsi.d, INDICATOR_COLORS.oscSlow, 1, 0, 'osc');
+            } else if (oscillator === 'obv') {
+                addLineSeries('osc_obv', s.obv.values, INDICATOR_COLORS.oscFast, 1, 0, 'osc');
+                addLineSeries('osc_obvEma', s.obv.ema, INDICATOR_COLORS.oscSlow, 1, 0, 'osc');
+            } else if (oscillator === 'adx') {
+                addLineSeries('osc_adx', s.adx.adx, '#ffffff', 2, 0, 'osc');
+                addLineSeries('osc_plusDI', s.adx.plusDI, INDICATOR_COLORS.supertrendUp, 1, 0, 'osc');
+                addLineSeries('osc_minusDI', s.adx.minusDI, INDICATOR_COLORS.supertrendDown, 1, 0, 'osc');
+            }
+            chart.priceScale('osc').applyOptions({ scaleMargins: { top: 0.72, bottom: 0.02 } });
+        }
 
+    }, [indicators, candles, showEMA, showVP, showAVWAP, showBB, showKC, showST, showIchimoku, oscillator]);
+
+    // ─── Script Execution (sandboxed worker) ────────────────
+    const runScript = useCallback(async () => {
+        if (candles.length === 0) return;
+        setScriptError(null);
+        setScriptRunning(true);
+        try {
+            const result = await chartScriptService.run(scriptCode, candles);
+            setScriptOutput({ result, candles });
         } catch (e: any) {
             setScriptError(e.message);
+        } finally {
+            setScriptRunning(false);
         }
     }, [scriptCode, candles]);
 
+    // Re-run the last script when the pair / timeframe brings new candles — through refs,
+    // so editing the script or clearing its output doesn't trigger a run
+    const scriptRanRef = useRef(false);
+    const runScriptRef = useRef(runScript);
+    useEffect(() => { scriptRanRef.current = !!scriptOutput; }, [scriptOutput]);
+    useEffect(() => { runScriptRef.current = runScript; }, [runScript]);
+    useEffect(() => {
+        if (scriptRanRef.current) runScriptRef.current();
+    }, [candles]);
+
+    // ─── Render Script Output ───────────────────────────────
+    useEffect(() => {
+        const chart = chartRef.current;
+        if (!chart || !candleSeriesRef.current) return;
+
+        scriptSeriesRefs.current.forEach(series => {
+            try { chart.removeSeries(series); } catch { }
+        });
+        scriptSeriesRefs.current = [];
+        scriptMarkersRef.current?.setMarkers([]);
+        if (!scriptOutput) return;
+
+        const { result, candles: runCandles } = scriptOutput;
+        const timeAt = (i: number) => (runCandles[i]?.t / 1000) as Time;
+
+        // 'price' draws over the candles; every other pane name gets its own pane below
+        const paneNames: string[] = [];
+        const paneIndex = (pane: string) => {
+            if (pane === 'price') return 0;
+            if (!paneNames.includes(pane)) paneNames.push(pane);
+            return paneNames.indexOf(pane) + 1;
+        };
+
+        for (const p of result.plots) {
+            const data = p.values.map((v, i) => v === null ? { time: timeAt(i) } : { time: timeAt(i), value: v }).filter(d => d.time);
+            if (p.kind === 'histogram') {
+                const series = chart.addSeries(HistogramSeries, { color: p.color, title: p.title, priceLineVisible: false }, paneIndex(p.pane));
+                series.setData(data as (HistogramData | WhitespaceData)[]);
+                scriptSeriesRefs.current.push(series);
+            } else {
+                const series = chart.addSeries(LineSeries, { color: p.color, lineWidth: p.lineWidth as any, title: p.title, priceLineVisible: false, lastValueVisible: true }, paneIndex(p.pane));
+                series.setData(data as (LineData | WhitespaceData)[]);
+                scriptSeriesRefs.current.push(series);
+            }
+        }
+
+        // Horizontal levels as flat dashed lines, so they work in any pane
+        for (const level of result.levels) {
+            const series = chart.addSeries(LineSeries, { color: level.color, lineWidth: 1, lineStyle: 2, title: level.title, priceLineVisible: false, crosshairMarkerVisible: false }, paneIndex(level.pane));
+            series.setData(runCandles.map((_, i) => ({ time: timeAt(i), value: level.price })));
+            scriptSeriesRefs.current.push(series);
+        }
+
+        const markers: SeriesMarker<Time>[] = result.markers
+            .filter(m => runCandles[m.index])
+            .sort((a, b) => a.index - b.index)
+            .map(m => ({
+                time: timeAt(m.index),
+                position: m.position === 'above' ? 'aboveBar' : 'belowBar',
+                color: m.color,
+                shape: m.shape,
+                text: m.text,
+            }));
+        if (!scriptMarkersRef.current) scriptMarkersRef.current = createSeriesMarkers(candleSeriesRef.current, markers);
+        else scriptMarkersRef.current.setMarkers(markers);
+    }, [scriptOutput]);
+
+    // ─── Saved Scripts ──────────────────────────────────────
+    const selectScript = (sc: ChartScript | undefined) => {
+        if (!sc) return;
+        setActiveScriptId(sc.id);
+        chartScriptService.setActiveId(sc.id);
+        setScriptName(sc.name);
+        setScriptCode(sc.code);
+        setScriptError(null);
+    };
+
+    const saveScript = () => {
+        const saved = chartScriptService.save({ id: activeScriptId, name: scriptName, code: scriptCode });
+        setScripts(chartScriptService.list());
+        setActiveScriptId(saved.id);
+        chartScriptService.setActiveId(saved.id);
+    };
+
+    const newScript = () => {
+        const saved = chartScriptService.save({ name: `Script ${scripts.length + 1}`, code: chartScriptService.newScriptTemplate() });
+        setScripts(chartScriptService.list());
+        selectScript(saved);
+    };
+
+    const deleteScript = () => {
+        if (!activeScript || !window.confirm(`Delete script "${activeScript.name}"?`)) return;
+        const remaining = chartScriptService.remove(activeScript.id);
+        const list = remaining.length > 0 ? remaining : chartScriptService.list();
+        setScripts(list);
+        selectScript(list[0]);
+        setScriptOutput(null);
+    };
+
+    // Add a script's rule() expression to a saved strategy (or start a new one) as an entry rule
+    const promoteRule = (rule: ScriptRule) => {
+        const entry = { indicator: 'expression', expression: rule.expression, label: rule.title, description: `From chart script "${scriptName}"`, timeframe };
+        setPromoteMessage(null);
+        if (!promoteTarget) {
+            gatewayService.traderSaveStrategy({
+                name: rule.title,
+                entryRules: [entry],
+                exitRules: [{ type: 'hard_stop', label: 'Hard Stop', atrMultiplier: 1.2, description: 'ATR-based stop loss' }],
+                timeframe,
+                pairs: [pair],
+            });
+            setPromoteMessage(`Created strategy "${rule.title}"`);
+            return;
+        }
+        const strat = strategies.find(st => st.name === promoteTarget);
+        if (!strat) return;
+        gatewayService.traderSaveStrategy({ ...strat, entryRules: [...(strat.entryRules || []), entry] });
+        setPromoteMessage(`Added to "${strat.name}"`);
+    };
+
     return (
         <div className="h-full flex flex-col bg-[#060a10]">
             {/* Chart Header */}
@@ -362,7 +546,7 @@ const ChartView: React.FC = () => {
 
                     {/* Pair Selector */}
                     <div className="flex items-center gap-1 bg-white/[0.04] rounded-xl p-0.5">
-                        {PAIRS.map(p => (
+                        {pairs.map(p => (
                             <button key={p} onClick={() => setPair(p)} className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${pair === p ? 'bg-emerald-500/20 text-emerald-400' : 'text-white/30 hover:text-white/50'}`}>
                                 {p}
                             </button>
@@ -386,12 +570,22 @@ const ChartView: React.FC = () => {
                         { label: 'VP', active: showVP, toggle: () => setShowVP(!showVP), color: 'red' },
                         { label: 'AVWAP', active: showAVWAP, toggle: () => setShowAVWAP(!showAVWAP), color: 'pink' },
                         { label: 'VOL', active: showVolume, toggle: () => setShowVolume(!showVolume), color: 'blue' },
+                        { label: 'BB', active: showBB, toggle: () => setShowBB(!showBB), color: 'yellow' },
+                        { label: 'KC', active: showKC, toggle: () => setShowKC(!showKC), color: 'sky' },
+                        { label: 'ST', active: showST, toggle: () => setShowST(!showST), color: 'emerald' },
+                        { label: 'ICHI', active: showIchimoku, toggle: () => setShowIchimoku(!showIchimoku), color: 'purple' },
                     ].map(ind => (
                         <button key={ind.label} onClick={ind.toggle} className={`px-2.5 py-1 rounded-lg text-[9px] font-bold uppercase tracking-wider transition-all border ${ind.active ? `bg-${ind.color}-500/15 border-${ind.color}-500/30 text-${ind.color}-400` : 'bg-white/[0.02] border-white/[0.06] text-white/20'}`}>
                             {ind.label}
                         </button>
                     ))}
 
+                    {/* Oscillator pane */}
+                    <select value={oscillator} onChange={e => setOscillator(e.target.value)} title="Oscillator pane"
+                        className="bg-white/[0.02] border border-white/[0.06] rounded-lg py-1 px-2 text-[9px] font-bold uppercase tracking-wider text-white/40 outline-none">
+                        {OSCILLATORS.map(o => <option key={o.value} value={o.value}>{o.value ? o.label : 'Osc: Off'}</option>)}
+                    </select>
+
                     {/* Script Editor Toggle */}
                     <button onClick={() => setShowScriptEditor(!showScriptEditor)} className={`p-2 rounded-lg transition-all ${showScriptEditor ? 'bg-amber-500/15 text-amber-400' : 'text-white/20 hover:text-white/40 hover:bg-white/[0.04]'}`} title="Custom Scripts">
                         <Code2 className="w-4 h-4" />
@@ -435,6 +629,28 @@ const ChartView: React.FC = () => {
                         <span className="text-[9px] text-white/20 uppercase">POC</span>
                         <span className="text-xs font-bold text-red-400">${indicators.vp?.poc?.toFixed(2)}</span>
                     </div>
+                    {indicators.macd?.histogram != null && (
+                        <div className="flex items-center gap-1.5">
+                            <span className="text-[9px] text-white/20 uppercase">MACD</span>
+                            <span className={`text-xs font-bold ${indicators.macd.histogram >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                                {indicators.macd.histogram >= 0 ? '+' : ''}{indicators.macd.histogram.toFixed(3)}
+                            </span>
+                        </div>
+                    )}
+                    {indicators.adx?.adx != null && (
+                        <div className="flex items-center gap-1.5">
+                            <span className="text-[9px] text-white/20 uppercase">ADX</span>
+                            <span className="text-xs font-bold text-white/60">{indicators.adx.adx.toFixed(1)}</span>
+                        </div>
+                    )}
+                    {indicators.supertrend?.direction && (
+                        <div className="flex items-center gap-1.5">
+                            <span className="text-[9px] text-white/20 uppercase">Trend</span>
+                            <span className={`text-xs font-bold ${indicators.supertrend.direction === 'up' ? 'text-emerald-400' : 'text-red-400'}`}>
+                                {indicators.supertrend.direction === 'up' ? '▲' : '▼'} ST
+                            </span>
+                        </div>
+                    )}
                 </div>
             )}
 
@@ -459,32 +675,86 @@ const ChartView: React.FC = () => {
 
             {/* Script Editor Panel */}
             {showScriptEditor && (
-                <div className="border-t border-white/[0.06] bg-[#0a0e1a] shrink-0" style={{ height: '200px' }}>
-                    <div className="flex items-center justify-between px-4 py-2 border-b border-white/[0.04]">
-                        <div className="flex items-center gap-2">
-                            <Code2 className="w-4 h-4 text-amber-400" />
-                            <span className="text-[10px] font-bold text-white/50 uppercase tracking-wider">Custom Script</span>
+                <div className="border-t border-white/[0.06] bg-[#0a0e1a] shrink-0 flex flex-col" style={{ height: '260px' }}>
+                    <div className="flex items-center justify-between px-4 py-2 border-b border-white/[0.04] gap-3">
+                        <div className="flex items-center gap-2 min-w-0">
+                            <Code2 className="w-4 h-4 text-amber-400 shrink-0" />
+                            <select value={activeScript?.id || ''} onChange={e => selectScript(scripts.find(sc => sc.id === e.target.value))}
+                                className="bg-white/[0.04] border border-white/[0.06] rounded-lg py-1 px-2 text-[10px] text-white/60 outline-none max-w-[140px]">
+                                {scripts.map(sc => <option key={sc.id} value={sc.id}>{sc.name}</option>)}
+                            </select>
+                            <input value={scriptName} onChange={e => setScriptName(e.target.value)} placeholder="Script name"
+                                className="bg-transparent border-b border-white/10 text-[10px] text-white/70 outline-none w-32 py-0.5" />
+                            <button onClick={saveScript} className="p-1 text-white/30 hover:text-emerald-400 transition-colors" title="Save script"><Save className="w-3.5 h-3.5" /></button>
+                            <button onClick={newScript} className="p-1 text-white/30 hover:text-white/60 transition-colors" title="New script"><Plus className="w-3.5 h-3.5" /></button>
+                            <button onClick={deleteScript} className="p-1 text-white/30 hover:text-red-400 transition-colors" title="Delete script"><Trash2 className="w-3.5 h-3.5" /></button>
+                            <button onClick={() => setShowScriptHelp(!showScriptHelp)} className={`p-1 transition-colors ${showScriptHelp ? 'text-amber-400' : 'text-white/30 hover:text-white/60'}`} title="Script API"><HelpCircle className="w-3.5 h-3.5" /></button>
                         </div>
                         <div className="flex items-center gap-2">
                             {scriptError && (
-                                <span className="text-[10px] text-red-400 max-w-[200px] truncate">{scriptError}</span>
+                                <span className="text-[10px] text-red-400 max-w-[260px] truncate" title={scriptError}>{scriptError}</span>
+                            )}
+                            {scriptOutput && (
+                                <button onClick={() => setScriptOutput(null)} className="px-2 py-1 rounded-lg text-[9px] font-bold uppercase tracking-wider text-white/30 hover:text-white/50 transition-all">
+                                    Clear
+                                </button>
                             )}
-                            <button onClick={runScript} className="flex items-center gap-1.5 px-3 py-1 rounded-lg bg-emerald-500/15 text-emerald-400 text-[10px] font-bold uppercase tracking-wider hover:bg-emerald-500/25 transition-all">
-                                <Play className="w-3 h-3" /> Run
+                            <button onClick={runScript} disabled={scriptRunning} className="flex items-center gap-1.5 px-3 py-1 rounded-lg bg-emerald-500/15 text-emerald-400 text-[10px] font-bold uppercase tracking-wider hover:bg-emerald-500/25 transition-all disabled:opacity-40">
+                                <Play className={`w-3 h-3 ${scriptRunning ? 'animate-pulse' : ''}`} /> Run
                             </button>
                             <button onClick={() => setShowScriptEditor(false)} className="p-1 text-white/20 hover:text-white/40 transition-colors">
                                 <X className="w-4 h-4" />
                             </button>
                         </div>
                     </div>
-                    <textarea
-                        value={scriptCode}
-                        onChange={(e) => setScriptCode(e.target.value)}
-                        className="w-full h-[calc(100%-36px)] bg-transparent text-xs text-white/70 font-mono p-4 resize-none focus:outline-none"
-                        style={{ scrollbarWidth: 'thin', scrollbarColor: '#ffffff10 transparent' }}
-                        placeholder="// Write your indicator script here..."
-                        spellCheck={false}
-                    />
+                    <div className="flex-1 flex min-h-0">
+                        <textarea
+                            value={scriptCode}
+                            onChange={(e) => setScriptCode(e.target.value)}
+                            className="flex-1 h-full bg-transparent text-xs text-white/70 font-mono p-4 resize-none focus:outline-none"
+                            style={{ scrollbarWidth: 'thin', scrollbarColor: '#ffffff10 transparent' }}
+                            placeholder="// Write your indicator script here..."
+                            spellCheck={false}
+                        />
+                        {(showScriptHelp || scriptOutput) && (
+                            <div className="w-80 shrink-0 border-l border-white/[0.04] overflow-y-auto p-3 space-y-3" style={{ scrollbarWidth: 'thin' }}>
+                                {showScriptHelp && (
+                                    <pre className="text-[9px] text-white/40 font-mono whitespace-pre-wrap leading-relaxed">{SCRIPT_API_DOC}</pre>
+                                )}
+                                {scriptOutput && scriptOutput.result.rules.length > 0 && (
+                                    <div className="space-y-1.5">
+                                        <div className="text-[9px] text-white/30 font-bold uppercase tracking-wider">Rules</div>
+                                        <select value={promoteTarget} onChange={e => setPromoteTarget(e.target.value)}
+                                            className="w-full bg-white/[0.04] border border-white/[0.06] rounded-lg py-1 px-2 text-[9px] text-white/60 outline-none">
+                                            <option value="">Promote to: new strategy</option>
+                                            {strategies.map(st => <option key={st.name} value={st.name}>Promote to: {st.name}</option>)}
+                                        </select>
+                                        {scriptOutput.result.rules.map((rule, i) => (
+                                            <div key={i} className="p-2 rounded-lg bg-white/[0.03] border border-white/[0.06]">
+                                                <div className="flex items-center justify-between gap-2">
+                                                    <span className="text-[10px] text-amber-400 font-bold truncate">{rule.title}</span>
+                                                    <button onClick={() => promoteRule(rule)} className="flex items-center gap-1 px-2 py-0.5 rounded bg-purple-500/15 text-purple-400 text-[9px] font-bold hover:bg-purple-500/25 transition-all shrink-0">
+                                                        <ArrowUpRight className="w-3 h-3" /> Promote
+                                                    </button>
+                                                </div>
+                                                <div className="text-[9px] text-white/30 font-mono mt-1 break-all">{rule.expression}</div>
+                                                <div className="text-[8px] text-white/20 mt-0.5">{rule.hits} match{rule.hits === 1 ? '' : 'es'} on this chart</div>
+                                            </div>
+                                        ))}
+                                        {promoteMessage && <div className="text-[9px] text-white/40">{promoteMessage}</div>}
+                                    </div>
+                                )}
+                                {scriptOutput && scriptOutput.result.logs.length > 0 && (
+                                    <div className="space-y-0.5">
+                                        <div className="text-[9px] text-white/30 font-bold uppercase tracking-wider">Log</div>
+                                        {scriptOutput.result.logs.map((line, i) => (
+                                            <div key={i} className="text-[9px] text-white/40 font-mono break-all">{line}</div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
                 </div>
             )}
         </div>
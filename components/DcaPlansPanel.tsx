@@ -0,0 +1,322 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarClock, ChevronDown, Plus, Play, Pause, Trash2, Loader2, AlertTriangle, CheckCircle2, X } from 'lucide-react';
+import { gatewayService } from '../services/gatewayService';
+
+type DcaCadence = 'hourly' | 'daily' | 'weekly' | 'monthly';
+
+interface DcaRun {
+    at: string;
+    status: 'filled' | 'skipped' | 'failed';
+    price?: number;
+    usd?: number;
+    reason?: string;
+    signature?: string;
+}
+
+interface DcaPlan {
+    id: string;
+    name: string;
+    side: 'buy' | 'sell';
+    token: string;
+    quoteToken: string;
+    amountMode: 'usd' | 'percent';
+    amount: number;
+    cadence: DcaCadence;
+    hourUtc: number;
+    weekday: number;
+    dayOfMonth: number;
+    minPrice: number | null;
+    maxPrice: number | null;
+    filter: { indicator: 'rsi'; op: 'below' | 'above'; value: number; timeframe: string } | null;
+    totalBudgetUsd: number | null;
+    status: 'active' | 'paused' | 'completed';
+    spentUsd: number;
+    runs: number;
+    nextRunAt: number;
+    history: DcaRun[];
+}
+
+const TOKEN_OPTIONS = ['SOL', 'USDC', 'USDT', 'JUP', 'BONK', 'WIF', 'JTO', 'PYTH', 'RAY', 'ORCA'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EMPTY_PLAN = {
+    side: 'buy' as 'buy' | 'sell',
+    token: 'SOL',
+    quoteToken: 'USDC',
+    amountMode: 'usd' as 'usd' | 'percent',
+    amount: '',
+    cadence: 'weekly' as DcaCadence,
+    hourUtc: '14',
+    weekday: '1',
+    dayOfMonth: '1',
+    minPrice: '',
+    maxPrice: '',
+    rsiOp: '' as '' | 'below' | 'above',
+    rsiValue: '',
+    totalBudgetUsd: '',
+};
+
+const RUN_STYLE: Record<DcaRun['status'], string> = {
+    filled: 'text-green-400',
+    skipped: 'text-amber-400',
+    failed: 'text-red-400',
+};
+
+const describeSchedule = (p: DcaPlan) => {
+    const hour = `${String(p.hourUtc).padStart(2, '0')}:00 UTC`;
+    if (p.cadence === 'hourly') return 'every hour';
+    if (p.cadence === 'daily') return `daily at ${hour}`;
+    if (p.cadence === 'weekly') return `${WEEKDAYS[p.weekday]}s at ${hour}`;
+    return `day ${p.dayOfMonth} of each month at ${hour}`;
+};
+
+const inputClass = 'bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white outline-none';
+
+const DcaPlansPanel: React.FC = () => {
+    const [expanded, setExpanded] = useState(true);
+    const [plans, setPlans] = useState<DcaPlan[]>([]);
+    const [showForm, setShowForm] = useState(false);
+    const [draft, setDraft] = useState(EMPTY_PLAN);
+    const [saving, setSaving] = useState(false);
+    const [running, setRunning] = useState<string | null>(null);
+    const [openHistory, setOpenHistory] = useState<string | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const unsub = gatewayService.subscribeTrader((data: any) => {
+            switch (data.type) {
+                case 'TRADER_DCA_PLANS':
+                    setPlans(data.plans || []);
+                    if (saving) { setSaving(false); setShowForm(false); setDraft(EMPTY_PLAN); }
+                    setRunning(null);
+                    break;
+                case 'TRADER_ERROR':
+                    if (data.context !== 'dca') break;
+                    setSaving(false);
+                    setRunning(null);
+                    setError(data.error);
+                    break;
+            }
+        });
+        return () => unsub();
+    }, [saving]);
+
+    useEffect(() => { gatewayService.traderGetDcaPlans(); }, []);
+
+    useEffect(() => {
+        if (error) { const t = setTimeout(() => setError(''), 8000); return () => clearTimeout(t); }
+    }, [error]);
+
+    const handleAdd = () => {
+        if (!(parseFloat(draft.amount) > 0)) { setError('Enter an amount per run'); return; }
+        setSaving(true);
+        setError('');
+        gatewayService.traderAddDcaPlan({
+            side: draft.side,
+            token: draft.token,
+            quoteToken: draft.quoteToken,
+            amountMode: draft.amountMode,
+            amount: parseFloat(draft.amount),
+            cadence: draft.cadence,
+            hourUtc: parseInt(draft.hourUtc),
+            weekday: parseInt(draft.weekday),
+            dayOfMonth: parseInt(draft.dayOfMonth),
+            minPrice: draft.minPrice ? parseFloat(draft.minPrice) : null,
+            maxPrice: draft.maxPrice ? parseFloat(draft.maxPrice) : null,
+            filter: draft.rsiOp && draft.rsiValue ? { indicator: 'rsi', op: draft.rsiOp, value: parseFloat(draft.rsiValue), timeframe: 'day' } : null,
+            totalBudgetUsd: draft.totalBudgetUsd ? parseFloat(draft.totalBudgetUsd) : null,
+        });
+    };
+
+    const handleRunNow = (planId: string) => {
+        setRunning(planId);
+        gatewayService.traderRunDcaPlan(planId);
+    };
+
+    const activeCount = plans.filter(p => p.status === 'active').length;
+
+    return (
+        <div className="rounded-2xl border border-white/[0.06] bg-gradient-to-b from-white/[0.03] to-transparent overflow-hidden">
+            {/* Header */}
+            <div className="flex items-center justify-between p-5 pb-2 cursor-pointer" onClick={() => setExpanded(!expanded)}>
+                <h2 className="text-sm font-bold text-white flex items-center gap-2">
+                    <div className="w-7 h-7 rounded-lg bg-cyan-500/10 flex items-center justify-center">
+                        <CalendarClock className="w-4 h-4 text-cyan-400" />
+                    </div>
+                    DCA Plans
+                    {activeCount > 0 && (
+                        <span className="text-[8px] bg-cyan-500/15 text-cyan-400 px-2 py-0.5 rounded-full font-bold uppercase tracking-wider border border-cyan-500/10">
+                            {activeCount} active
+                        </span>
+                    )}
+                </h2>
+                <ChevronDown className={`w-4 h-4 text-white/30 transition-transform duration-300 ${expanded ? 'rotate-180' : ''}`} />
+            </div>
+            <p className="text-[10px] text-white/20 px-5 pb-3">Recurring buys and sells, run by the bot loop while it is started</p>
+
+            {expanded && (
+                <div className="px-5 pb-5 space-y-3">
+                    {error && (
+                        <div className="flex items-center gap-2 p-2.5 rounded-xl bg-red-500/10 border border-red-500/20 text-[11px] text-red-300">
+                            <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                            <span className="flex-1">{error}</span>
+                            <button onClick={() => setError('')}><X className="w-3 h-3" /></button>
+                        </div>
+                    )}
+
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] text-white/40 font-bold uppercase tracking-wider">Plans</span>
+                        <button onClick={() => setShowForm(!showForm)} className="flex items-center gap-1 text-[10px] text-cyan-400 hover:text-cyan-300 font-bold">
+                            <Plus className="w-3 h-3" /> New Plan
+                        </button>
+                    </div>
+
+                    {showForm && (
+                        <div className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06] space-y-2">
+                            <div className="grid grid-cols-3 gap-2">
+                                <select value={draft.side} onChange={e => setDraft(p => ({ ...p, side: e.target.value as 'buy' | 'sell' }))} className={inputClass}>
+                                    <option value="buy">Buy</option>
+                                    <option value="sell">Sell</option>
+                                </select>
+                                <select value={draft.token} onChange={e => { const token = e.target.value; setDraft(p => ({ ...p, token, quoteToken: p.quoteToken === token ? (token === 'USDC' ? 'SOL' : 'USDC') : p.quoteToken })); }} className={inputClass}>
+                                    {TOKEN_OPTIONS.map(t => <option key={t} value={t}>{t}</option>)}
+                                </select>
+                                <select value={draft.quoteToken} onChange={e => setDraft(p => ({ ...p, quoteToken: e.target.value }))} className={inputClass}>
+                                    {TOKEN_OPTIONS.filter(t => t !== draft.token).map(t => <option key={t} value={t}>{draft.side === 'buy' ? 'with' : 'for'} {t}</option>)}
+                                </select>
+                            </div>
+                            <div className="grid grid-cols-3 gap-2">
+                                <select value={draft.amountMode} onChange={e => setDraft(p => ({ ...p, amountMode: e.target.value as 'usd' | 'percent' }))} className={inputClass}>
+                                    <option value="usd">$ per run</option>
+                                    <option value="percent">% of balance</option>
+                                </select>
+                                <input type="number" min="0" step="any" value={draft.amount} onChange={e => setDraft(p => ({ ...p, amount: e.target.value }))}
+                                    placeholder={draft.amountMode === 'usd' ? 'Amount $' : 'Percent'} className={inputClass} />
+                                <input type="number" min="0" step="any" value={draft.totalBudgetUsd} onChange={e => setDraft(p => ({ ...p, totalBudgetUsd: e.target.value }))}
+                                    placeholder="Total budget $" className={inputClass} />
+                            </div>
+                            <div className="grid grid-cols-3 gap-2">
+                                <select value={draft.cadence} onChange={e => setDraft(p => ({ ...p, cadence: e.target.value as DcaCadence }))} className={inputClass}>
+                                    <option value="hourly">Hourly</option>
+                                    <option value="daily">Daily</option>
+                                    <option value="weekly">Weekly</option>
+                                    <option value="monthly">Monthly</option>
+                                </select>
+                                {draft.cadence === 'weekly' ? (
+                                    <select value={draft.weekday} onChange={e => setDraft(p => ({ ...p, weekday: e.target.value }))} className={inputClass}>
+                                        {WEEKDAYS.map((d, i) => <option key={d} value={i}>{d}</option>)}
+                                    </select>
+                                ) : draft.cadence === 'monthly' ? (
+                                    <select value={draft.dayOfMonth} onChange={e => setDraft(p => ({ ...p, dayOfMonth: e.target.value }))} className={inputClass}>
+                                        {Array.from({ length: 28 }, (_, i) => <option key={i + 1} value={i + 1}>Day {i + 1}</option>)}
+                                    </select>
+                                ) : (
+                                    <div className="bg-black/20 border border-white/5 rounded-lg py-1.5 px-2 text-[10px] text-white/30">{draft.cadence === 'hourly' ? 'on the hour' : 'every day'}</div>
+                                )}
+                                {draft.cadence === 'hourly' ? (
+                                    <div className="bg-black/20 border border-white/5 rounded-lg py-1.5 px-2 text-[10px] text-white/30">—</div>
+                                ) : (
+                                    <select value={draft.hourUtc} onChange={e => setDraft(p => ({ ...p, hourUtc: e.target.value }))} className={inputClass}>
+                                        {Array.from({ length: 24 }, (_, h) => <option key={h} value={h}>{String(h).padStart(2, '0')}:00 UTC</option>)}
+                                    </select>
+                                )}
+                            </div>
+                            <div className="grid grid-cols-4 gap-2">
+                                <input type="number" min="0" step="any" value={draft.minPrice} onChange={e => setDraft(p => ({ ...p, minPrice: e.target.value }))}
+                                    placeholder="Min $" className={inputClass} />
+                                <input type="number" min="0" step="any" value={draft.maxPrice} onChange={e => setDraft(p => ({ ...p, maxPrice: e.target.value }))}
+                                    placeholder="Max $" className={inputClass} />
+                                <select value={draft.rsiOp} onChange={e => setDraft(p => ({ ...p, rsiOp: e.target.value as '' | 'below' | 'above' }))} className={inputClass}>
+                                    <option value="">No RSI filter</option>
+                                    <option value="below">RSI below</option>
+                                    <option value="above">RSI above</option>
+                                </select>
+                                <input type="number" min="0" max="100" step="any" value={draft.rsiValue} disabled={!draft.rsiOp} onChange={e => setDraft(p => ({ ...p, rsiValue: e.target.value }))}
+                                    placeholder="RSI" className={`${inputClass} disabled:opacity-30`} />
+                            </div>
+                            <p className="text-[9px] text-white/20">Runs outside the price band or failing the daily RSI filter are skipped and logged. The plan completes once the total budget is spent.</p>
+                            <button onClick={handleAdd} disabled={saving} className="w-full py-2 rounded-lg text-xs font-bold text-white bg-cyan-500/20 hover:bg-cyan-500/30 border border-cyan-500/20 disabled:opacity-40 flex items-center justify-center gap-1.5">
+                                {saving && <Loader2 className="w-3 h-3 animate-spin" />} Create Plan
+                            </button>
+                        </div>
+                    )}
+
+                    {plans.length === 0 ? (
+                        <p className="text-[11px] text-white/15 italic text-center py-3">No DCA plans — schedule recurring buys or sells</p>
+                    ) : (
+                        <div className="space-y-1.5">
+                            {plans.map(p => {
+                                const budgetPct = p.totalBudgetUsd ? Math.min(100, (p.spentUsd / p.totalBudgetUsd) * 100) : 0;
+                                return (
+                                    <div key={p.id} className={`p-2.5 rounded-xl border transition-colors ${p.status === 'active' ? 'bg-white/[0.03] border-white/[0.06]' : 'bg-white/[0.01] border-white/[0.03]'}`}>
+                                        <div className="flex items-center justify-between">
+                                            <div className="min-w-0">
+                                                <div className="flex items-center gap-2">
+                                                    <span className={`text-xs font-bold ${p.status === 'active' ? 'text-white' : 'text-white/40'}`}>{p.name}</span>
+                                                    <span className={`text-[8px] px-1.5 py-0.5 rounded-full font-bold uppercase ${p.status === 'active' ? 'bg-green-500/10 text-green-400' : p.status === 'completed' ? 'bg-cyan-500/10 text-cyan-400' : 'bg-white/5 text-white/30'}`}>
+                                                        {p.status}
+                                                    </span>
+                                                </div>
+                                                <div className="text-[9px] text-white/25">
+                                                    {p.side === 'buy' ? `${p.quoteToken} → ${p.token}` : `${p.token} → ${p.quoteToken}`} · {describeSchedule(p)}
+                                                    {(p.minPrice || p.maxPrice) && <span> · band ${p.minPrice ?? '—'}–${p.maxPrice ?? '—'}</span>}
+                                                    {p.filter && <span> · RSI {p.filter.op} {p.filter.value}</span>}
+                                                </div>
+                                                <div className="text-[9px] text-white/20">
+                                                    {p.runs} fills · ${p.spentUsd.toFixed(2)}{p.totalBudgetUsd ? ` of $${p.totalBudgetUsd}` : ''} traded
+                                                    {p.status === 'active' && <span> · next {new Date(p.nextRunAt).toLocaleString()}</span>}
+                                                </div>
+                                            </div>
+                                            <div className="flex items-center gap-1 shrink-0">
+                                                <button onClick={() => handleRunNow(p.id)} disabled={running === p.id || p.status === 'completed'} title="Run now" className="p-1 hover:bg-white/5 rounded disabled:opacity-30">
+                                                    {running === p.id ? <Loader2 className="w-3 h-3 text-white/40 animate-spin" /> : <Play className="w-3 h-3 text-cyan-400" />}
+                                                </button>
+                                                {p.status !== 'completed' && (
+                                                    <button onClick={() => gatewayService.traderUpdateDcaPlan(p.id, { status: p.status === 'active' ? 'paused' : 'active' })} title={p.status === 'active' ? 'Pause' : 'Resume'} className="p-1 hover:bg-white/5 rounded">
+                                                        {p.status === 'active' ? <Pause className="w-3 h-3 text-white/30" /> : <Play className="w-3 h-3 text-green-400" />}
+                                                    </button>
+                                                )}
+                                                <button onClick={() => gatewayService.traderDeleteDcaPlan(p.id)} title="Delete" className="p-1 hover:bg-white/5 rounded"><Trash2 className="w-3 h-3 text-red-400/50" /></button>
+                                            </div>
+                                        </div>
+
+                                        {p.totalBudgetUsd && (
+                                            <div className="mt-1.5 h-1 rounded-full bg-white/[0.06] overflow-hidden">
+                                                <div className="h-full rounded-full bg-cyan-500/60 transition-all duration-500" style={{ width: `${budgetPct}%` }} />
+                                            </div>
+                                        )}
+
+                                        {p.history.length > 0 && (
+                                            <button onClick={() => setOpenHistory(openHistory === p.id ? null : p.id)} className="mt-1.5 text-[9px] text-white/30 hover:text-white/60 font-bold flex items-center gap-1">
+                                                <ChevronDown className={`w-3 h-3 transition-transform ${openHistory === p.id ? 'rotate-180' : ''}`} /> History ({p.history.length})
+                                            </button>
+                                        )}
+                                        {openHistory === p.id && (
+                                            <div className="mt-1 space-y-0.5 max-h-40 overflow-y-auto">
+                                                {p.history.map((run, i) => (
+                                                    <div key={i} className="flex items-center gap-2 text-[9px] font-mono">
+                                                        {run.status === 'filled' ? <CheckCircle2 className="w-2.5 h-2.5 text-green-400 shrink-0" /> : <AlertTriangle className={`w-2.5 h-2.5 shrink-0 ${RUN_STYLE[run.status]}`} />}
+                                                        <span className="text-white/25">{new Date(run.at).toLocaleString()}</span>
+                                                        <span className={RUN_STYLE[run.status]}>{run.status}</span>
+                                                        <span className="text-white/40 truncate">
+                                                            {run.status === 'filled' ? `$${(run.usd || 0).toFixed(2)} @ $${run.price?.toFixed(4)}` : run.reason}
+                                                        </span>
+                                                        {run.signature && (
+                                                            <a href={`https://solscan.io/tx/${run.signature}`} target="_blank" rel="noopener noreferrer" className="text-purple-400/60 hover:text-purple-300 shrink-0">tx</a>
+                                                        )}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DcaPlansPanel;
@@ -1,13 +1,15 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Zap, Mic, MicOff, Brain, Paperclip, Eye, EyeOff, Trash2, RotateCcw, Activity, UploadCloud, X, Sparkles, LayoutGrid, BarChart3, FileText, Globe, Mail, Search, ListTodo, BookOpen, Volume2, Minus, Plus, Type } from 'lucide-react';
+import { Send, Zap, Mic, MicOff, Brain, Paperclip, Eye, EyeOff, Trash2, RotateCcw, Activity, UploadCloud, X, Sparkles, LayoutGrid, BarChart3, FileText, Globe, Mail, Search, ListTodo, BookOpen, Volume2, Minus, Plus, Type, Square, Wrench } from 'lucide-react';
 import { ChatMessage, SystemAlert, ThinkingDepth, TelemetryState } from '../types';
 import { agentService } from '../services/agentService';
 import { activityService } from '../services/activityService';
 import { userScopeService } from '../services/userScopeService';
 import { gatewayService } from '../services/gatewayService';
+import { approvalQueueService } from '../services/approvalQueueService';
 import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
 import { getApiKey, geminiService } from '../services/geminiService';
+import { LLMStreamEvent } from '../services/llmProviderService';
 
 interface OpenClawAgentProps {
   contextData: string;
@@ -97,6 +99,11 @@ const OpenClawAgent: React.FC<OpenClawAgentProps> = ({ contextData, onAction, sy
   const [thinkingDepth, setThinkingDepth] = useState<ThinkingDepth>('MEDIUM');
   const [input, setInput] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [awaitingApproval, setAwaitingApproval] = useState(0);
+  // The model turn being generated right now — replaced by a real message once it completes
+  const [streamingText, setStreamingText] = useState('');
+  const [streamingTools, setStreamingTools] = useState<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
   const [isMicActive, setIsMicActive] = useState(false);
   const [neuralLoad, setNeuralLoad] = useState(0);
   const [readiness, setReadiness] = useState(0);
@@ -231,6 +238,14 @@ const OpenClawAgent: React.FC<OpenClawAgentProps> = ({ contextData, onAction, sy
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  useEffect(() => {
+    if (streamingText || streamingTools.length) messagesEndRef.current?.scrollIntoView({ behavior: "auto" });
+  }, [streamingText, streamingTools.length]);
+
+  useEffect(() => approvalQueueService.subscribe(list =>
+    setAwaitingApproval(list.filter(a => a.status === 'PENDING' && a.caller === 'CLAW').length)
+  ), []);
+
   useEffect(() => {
     let interval: any;
     let statusInterval: any;
@@ -569,6 +584,17 @@ const OpenClawAgent: React.FC<OpenClawAgentProps> = ({ contextData, onAction, sy
     setInput('');
     setIsProcessing(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const resetStream = () => { setStreamingText(''); setStreamingTools([]); };
+    const stream = {
+      signal: controller.signal,
+      onEvent: (event: LLMStreamEvent) => {
+        if (event.type === 'text') setStreamingText(prev => prev + event.delta);
+        else if (event.type === 'tool_call') setStreamingTools(prev => [...prev, event.call.name]);
+      }
+    };
+
     let visualFrame: any = null;
     if (telemetry.isVisualActive) {
       const frame = await captureFrame();
@@ -587,7 +613,7 @@ const OpenClawAgent: React.FC<OpenClawAgentProps> = ({ contextData, onAction, sy
       let currentMessages = allMessages;
       let response = await agentService.executeCommand(finalInput || "Scanning...", currentMessages, contextData, {
         thinking: thinkingDepth, channel: 'WEB', sessionId: 'default', agentId: 'OPS'
-      }, selectedFile || visualFrame);
+      }, selectedFile || visualFrame, stream);
 
       setSelectedFile(null);
 
@@ -597,8 +623,9 @@ const OpenClawAgent: React.FC<OpenClawAgentProps> = ({ contextData, onAction, sy
       let loopCount = 0;
       const MAX_LOOPS = 8;
 
-      while (response.functionCalls && response.functionCalls.length > 0 && onAction && loopCount < MAX_LOOPS) {
+      while (response.functionCalls && response.functionCalls.length > 0 && onAction && loopCount < MAX_LOOPS && !controller.signal.aborted) {
         loopCount++;
+        resetStream();
 
         // Show Claw's text if any (e.g. "Navigating to...")
         if (response.text) {
@@ -611,8 +638,9 @@ const OpenClawAgent: React.FC<OpenClawAgentProps> = ({ contextData, onAction, sy
         const toolResults: string[] = [];
         for (const fc of response.functionCalls) {
           const res = await onAction(fc);
+          // Every call gets a result line — a silent tool would leave the model guessing
+          toolResults.push(`[${fc.name}]: ${res || 'No result returned.'}`);
           if (res) {
-            toolResults.push(`[${fc.name}]: ${res}`);
             // Show intermediate results so user can see progress
             setMessages(prev => [...prev, { id: Date.now().toString() + `_t${loopCount}`, role: 'model', content: res as string, timestamp: new Date() }]);
           }
@@ -623,18 +651,25 @@ const OpenClawAgent: React.FC<OpenClawAgentProps> = ({ contextData, onAction, sy
         const feedbackMsg = { role: 'user', content: `[TOOL RESULTS]:\n${toolFeedback}\n\nContinue with the next step if needed. If the task is complete, summarize what you found.` };
         currentMessages = [...currentMessages, feedbackMsg];
 
+        // Stopped while a tool was running — don't start another model turn
+        if (controller.signal.aborted) break;
+
         // Send follow-up to Gemini
         response = await agentService.executeCommand(feedbackMsg.content, currentMessages, contextData, {
           thinking: thinkingDepth, channel: 'WEB', sessionId: 'default', agentId: 'OPS'
-        });
+        }, null, stream);
       }
 
       // Show final response text
-      const finalText = response.text || "I'm listening. What should we do next?";
+      resetStream();
+      const stopped = controller.signal.aborted;
+      const finalText = stopped
+        ? `${response.text ? `${response.text}\n\n` : ''}⏹️ Stopped.`
+        : response.text || "I'm listening. What should we do next?";
       setMessages(prev => [...prev, { id: Date.now().toString() + '_final', role: 'model', content: finalText, timestamp: new Date() }]);
 
       // Handle any remaining non-browser function calls from the final response
-      if (response.functionCalls && onAction) {
+      if (response.functionCalls && onAction && !stopped) {
         for (const fc of response.functionCalls) {
           if (fc.name !== 'browseWeb') {
             const res = await onAction(fc);
@@ -642,7 +677,16 @@ const OpenClawAgent: React.FC<OpenClawAgentProps> = ({ contextData, onAction, sy
           }
         }
       }
-    } catch (e) { console.error(e); } finally { setIsProcessing(false); activityService.setIdle(); }
+    } catch (e) { console.error(e); } finally {
+      abortRef.current = null;
+      resetStream();
+      setIsProcessing(false);
+      activityService.setIdle();
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
   };
 
   return (
@@ -725,9 +769,29 @@ const OpenClawAgent: React.FC<OpenClawAgentProps> = ({ contextData, onAction, sy
             </div>
           </div>
         ))}
-        {isProcessing && (
+        {isProcessing && (streamingText || streamingTools.length > 0) && (
+          <div className="flex flex-col max-w-[90%] min-w-0 mr-auto items-start">
+            <div className="rounded-2xl p-3.5 relative backdrop-blur-md shadow-lg break-words w-full bg-white/[0.05] text-slate-100 rounded-bl-sm border border-white/[0.06]" style={{ fontSize: `${fontSize}px` }}>
+              {streamingText && (
+                <div className="whitespace-pre-wrap leading-relaxed font-medium">
+                  {streamingText}<span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-rose-400/70 animate-pulse" />
+                </div>
+              )}
+              {streamingTools.length > 0 && (
+                <div className={`flex flex-wrap gap-1 ${streamingText ? 'mt-2' : ''}`}>
+                  {streamingTools.map((name, i) => (
+                    <span key={i} className="flex items-center gap-1 px-1.5 py-0.5 rounded-md bg-rose-500/10 border border-rose-500/20 text-[9px] font-mono text-rose-300">
+                      <Wrench className="w-2.5 h-2.5" /> {name}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+        {isProcessing && !streamingText && streamingTools.length === 0 && (
           <div className="px-2 pb-4">
-            <NeuralReadinessGauge progress={readiness} status={currentStatus} />
+            <NeuralReadinessGauge progress={readiness} status={awaitingApproval ? `Awaiting your approval (${awaitingApproval})...` : currentStatus} />
           </div>
         )}
         <div ref={messagesEndRef} />
@@ -864,9 +928,15 @@ const OpenClawAgent: React.FC<OpenClawAgentProps> = ({ contextData, onAction, sy
                   </div>
                 )}
               </div>
-              <button onClick={() => handleSend()} disabled={isProcessing} className="p-3 bg-rose-600 text-white rounded-xl shadow-xl disabled:opacity-50 transition-all">
-                <Send className="w-4 h-4" />
-              </button>
+              {isProcessing ? (
+                <button onClick={handleStop} className="p-3 bg-white/10 border border-rose-500/30 text-rose-300 hover:text-white rounded-xl shadow-xl transition-all" title="Stop generating">
+                  <Square className="w-4 h-4 fill-current" />
+                </button>
+              ) : (
+                <button onClick={() => handleSend()} className="p-3 bg-rose-600 text-white rounded-xl shadow-xl transition-all">
+                  <Send className="w-4 h-4" />
+                </button>
+              )}
             </div>
             <button onClick={() => fileInputRef.current?.click()} className="absolute bottom-3 right-14 p-2 text-white/20 hover:text-white transition-all">
               <Paperclip className="w-4 h-4" />
@@ -5,6 +5,7 @@ import {
     Gauge, ArrowUpRight, ArrowDownRight, Clock, Flame
 } from 'lucide-react';
 import { gatewayService } from '../services/gatewayService';
+import { approvalQueueService } from '../services/approvalQueueService';
 
 interface PerpsMarket {
     symbol: string;
@@ -31,6 +32,28 @@ interface PerpsPosition {
     liquidationPrice?: number;
 }
 
+interface PerpsRiskProfile {
+    leverage: number;
+    collateralPct: number;
+    maxCollateralUsd: number;
+    minCollateralUsd: number;
+    takeProfitPct: number;
+    stopLossPct: number;
+    maxConcurrentPositions: number;
+    allowedMarkets: string[];
+    collateralToken: 'SOL' | 'USDC';
+}
+
+const RISK_FIELDS: { key: keyof PerpsRiskProfile; label: string; suffix: string; step: number }[] = [
+    { key: 'leverage', label: 'Leverage', suffix: '×', step: 0.1 },
+    { key: 'collateralPct', label: 'Collateral / Entry', suffix: '%', step: 0.5 },
+    { key: 'minCollateralUsd', label: 'Min Collateral', suffix: '$', step: 1 },
+    { key: 'maxCollateralUsd', label: 'Max Collateral', suffix: '$', step: 1 },
+    { key: 'takeProfitPct', label: 'Take Profit', suffix: '% ROI', step: 1 },
+    { key: 'stopLossPct', label: 'Stop Loss', suffix: '% ROI', step: 1 },
+    { key: 'maxConcurrentPositions', label: 'Max Positions', suffix: '', step: 1 },
+];
+
 // ─── Animated Number ─────────────────────────────────────────────
 const AnimNum: React.FC<{ value: number; prefix?: string; decimals?: number; className?: string }> = ({
     value, prefix = '', decimals = 2, className = ''
@@ -109,6 +132,13 @@ const PerpsPanel: React.FC = () => {
     const [collateralToken, setCollateralToken] = useState('SOL');
     const [showOrderForm, setShowOrderForm] = useState(false);
 
+    // Auto-perps risk profile
+    const [riskProfile, setRiskProfile] = useState<PerpsRiskProfile | null>(null);
+    const [riskDraft, setRiskDraft] = useState<PerpsRiskProfile | null>(null);
+    const [riskMarkets, setRiskMarkets] = useState<string[]>(['SOL', 'ETH', 'wBTC']);
+    const [showRisk, setShowRisk] = useState(false);
+    const [riskSaving, setRiskSaving] = useState(false);
+
     // Quick-amount presets
     const QUICK_AMOUNTS = [10, 25, 50, 100, 250];
     const LEVERAGE_PRESETS = [2, 5, 10, 15, 20];
@@ -142,14 +172,22 @@ const PerpsPanel: React.FC = () => {
                     setSuccess(`Position closed! Tx: ${data.signature?.slice(0, 12)}...`);
                     loadData();
                     break;
+                case 'TRADER_PERPS_RISK':
+                    setRiskProfile(data.profile);
+                    setRiskDraft(data.profile);
+                    if (data.markets) setRiskMarkets(data.markets);
+                    if (data.saved) { setRiskSaving(false); setSuccess('Risk profile saved.'); }
+                    break;
                 case 'TRADER_ERROR':
                     setOpening(false);
                     setClosing(null);
+                    if (data.context === 'perps_risk') { setRiskSaving(false); setError(data.error); break; }
                     if (data.error?.toLowerCase().includes('perp') || data.error?.toLowerCase().includes('position'))
                         setError(data.error);
                     break;
             }
         });
+        gatewayService.traderGetPerpsRisk();
         return () => unsub();
     }, [loadData]);
 
@@ -171,12 +209,26 @@ const PerpsPanel: React.FC = () => {
 
     const handleExpand = () => setExpanded(!expanded);
 
-    const handleOpenPosition = () => {
+    // The server only opens positions against an approval — confirm it in the approval queue
+    const handleOpenPosition = async () => {
         const collateralUsd = parseFloat(collateral);
         if (!collateralUsd || collateralUsd <= 0) return;
         setOpening(true);
         setError('');
-        gatewayService.traderOpenPerp(selectedMarket, side, collateralUsd, leverage, collateralToken);
+        const decision = await approvalQueueService.request({
+            type: 'ASSET_COMMIT',
+            title: `Open ${side.toUpperCase()} ${selectedMarket}-PERP — $${collateralUsd} × ${leverage}x`,
+            description: `Manual position from the perps panel, ${collateralToken} collateral.`,
+            toolName: 'openPerp',
+            args: { market: selectedMarket, side, collateralUsd, leverage, collateralToken },
+            caller: 'OPERATOR',
+        });
+        if (!decision.approved) {
+            setOpening(false);
+            setError(`Position ${decision.status === 'EXPIRED' ? 'approval expired' : 'rejected'}`);
+            return;
+        }
+        gatewayService.traderOpenPerp(selectedMarket, side, collateralUsd, leverage, collateralToken, decision.id);
     };
 
     const handleClosePosition = (positionKey: string) => {
@@ -184,6 +236,23 @@ const PerpsPanel: React.FC = () => {
         gatewayService.traderClosePerp(positionKey);
     };
 
+    const riskDirty = !!riskDraft && JSON.stringify(riskDraft) !== JSON.stringify(riskProfile);
+
+    const handleSaveRisk = () => {
+        if (!riskDraft) return;
+        setRiskSaving(true);
+        setError('');
+        gatewayService.traderSetPerpsRisk(riskDraft);
+    };
+
+    const toggleRiskMarket = (market: string) => {
+        if (!riskDraft) return;
+        const allowed = riskDraft.allowedMarkets.includes(market)
+            ? riskDraft.allowedMarkets.filter(m => m !== market)
+            : [...riskDraft.allowedMarkets, market];
+        setRiskDraft({ ...riskDraft, allowedMarkets: allowed });
+    };
+
     const positionSize = parseFloat(collateral || '0') * leverage;
     const selectedMarketData = markets.find(m => m.underlying === selectedMarket);
     const totalPnl = positions.reduce((sum, p) => sum + (p.pnlUsd || 0), 0);
@@ -438,6 +507,69 @@ const PerpsPanel: React.FC = () => {
                         </div>
                     )}
 
+                    {/* ── Auto-Perps Risk Profile ─────────────────────── */}
+                    {riskDraft && (
+                        <div className="rounded-xl bg-white/[0.02] border border-white/[0.06]">
+                            <button onClick={() => setShowRisk(!showRisk)} className="w-full flex items-center justify-between p-3">
+                                <span className="text-[10px] text-white/30 font-bold uppercase tracking-wider flex items-center gap-1.5">
+                                    <Shield className="w-3 h-3" /> Auto-Perps Risk Profile
+                                </span>
+                                <span className="flex items-center gap-2 text-[9px] text-white/25 font-mono">
+                                    {riskProfile?.leverage}× · TP +{riskProfile?.takeProfitPct}% · SL -{riskProfile?.stopLossPct}%
+                                    <ChevronDown className={`w-3 h-3 transition-transform ${showRisk ? 'rotate-180' : ''}`} />
+                                </span>
+                            </button>
+                            {showRisk && (
+                                <div className="px-3 pb-3 space-y-3">
+                                    <div className="grid grid-cols-2 gap-2">
+                                        {RISK_FIELDS.map(f => (
+                                            <label key={f.key} className="block">
+                                                <div className="text-[8px] text-white/25 font-bold uppercase mb-0.5">{f.label}{f.suffix && ` (${f.suffix})`}</div>
+                                                <input type="number" step={f.step} value={riskDraft[f.key] as number}
+                                                    onChange={e => setRiskDraft({ ...riskDraft, [f.key]: parseFloat(e.target.value) })}
+                                                    className="w-full bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white font-mono outline-none focus:border-amber-500/30" />
+                                            </label>
+                                        ))}
+                                        <label className="block">
+                                            <div className="text-[8px] text-white/25 font-bold uppercase mb-0.5">Collateral Token</div>
+                                            <select value={riskDraft.collateralToken}
+                                                onChange={e => setRiskDraft({ ...riskDraft, collateralToken: e.target.value as 'SOL' | 'USDC' })}
+                                                className="w-full bg-black/40 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-white outline-none">
+                                                <option value="SOL">SOL</option>
+                                                <option value="USDC">USDC</option>
+                                            </select>
+                                        </label>
+                                    </div>
+                                    <div>
+                                        <div className="text-[8px] text-white/25 font-bold uppercase mb-1">Allowed Markets</div>
+                                        <div className="flex gap-1">
+                                            {riskMarkets.map(m => (
+                                                <button key={m} onClick={() => toggleRiskMarket(m)}
+                                                    className={`flex-1 py-1 rounded text-[9px] font-bold transition-colors border ${riskDraft.allowedMarkets.includes(m)
+                                                        ? 'bg-amber-500/15 text-amber-400 border-amber-500/20'
+                                                        : 'bg-white/[0.03] text-white/25 border-transparent hover:text-white/40'
+                                                        }`}>{m}-PERP</button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <button onClick={handleSaveRisk} disabled={!riskDirty || riskSaving}
+                                            className="flex-1 py-2 rounded-lg text-[10px] font-bold bg-amber-500/15 text-amber-400 border border-amber-500/20 hover:bg-amber-500/25 disabled:opacity-30 disabled:cursor-not-allowed transition-all">
+                                            {riskSaving ? <Loader2 className="w-3 h-3 animate-spin mx-auto" /> : 'Save Risk Profile'}
+                                        </button>
+                                        {riskDirty && (
+                                            <button onClick={() => setRiskDraft(riskProfile)}
+                                                className="px-3 py-2 rounded-lg text-[10px] font-bold text-white/30 hover:text-white/50 bg-white/[0.03] border border-white/[0.06]">
+                                                Discard
+                                            </button>
+                                        )}
+                                    </div>
+                                    <p className="text-[9px] text-white/20">Applies only when Auto Perps Trading is on. Entries come from strategies flagged for perps on an allowed market.</p>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* ── Open Positions ───────────────────────────────── */}
                     {positions.length > 0 && (
                         <div className="space-y-2">
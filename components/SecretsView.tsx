@@ -5,12 +5,13 @@ import {
   Sparkles, Server, Mail, Search, Globe, Key, Cpu,
   ChevronDown, Database, Download, ShieldCheck, Zap, Plus, X,
   DollarSign, BarChart3, TrendingUp, RefreshCcw, Activity,
-  Inbox, Send
+  Inbox, Send, AlertTriangle
 } from 'lucide-react';
 import { billingService } from '../services/billingService';
+import { guardrailService } from '../services/guardrailService';
 import { api } from '../services/apiService';
 import { userScopeService } from '../services/userScopeService';
-import { UsageStats, ModelUsage } from '../types';
+import { UsageSummary } from '../types';
 
 interface SecretItem {
   key: string;
@@ -27,7 +28,7 @@ const SecretsView: React.FC = () => {
   const [activeModel, setActiveModel] = useState('DYNAMIC');
   const [showAddModal, setShowAddModal] = useState(false);
   const [newSecret, setNewSecret] = useState({ key: '', label: '', description: '', category: 'INTEGRATION' as const });
-  const [usageStats, setUsageStats] = useState<UsageStats>(billingService.getStats());
+  const [usage, setUsage] = useState<UsageSummary>(billingService.getSummary());
 
   const [secrets, setSecrets] = useState<SecretItem[]>([
     {
@@ -106,6 +107,15 @@ const SecretsView: React.FC = () => {
       required: false,
       category: 'AI'
     },
+    {
+      key: 'LOCAL_LLM_URL',
+      label: 'Local Model Endpoint',
+      description: 'OpenAI-compatible server for local models (Ollama: http://localhost:11434/v1). Select them as local/<model>.',
+      icon: Server,
+      value: '',
+      required: false,
+      category: 'AI'
+    },
     {
       key: 'TAVILY_API_KEY',
       label: 'Tavily Search',
@@ -169,7 +179,8 @@ const SecretsView: React.FC = () => {
       return [...base, ...customMapped];
     });
 
-    const unsubscribeBilling = billingService.subscribe(setUsageStats);
+    const unsubscribeBilling = billingService.subscribe(setUsage);
+    void billingService.sync();
 
     // Restore secrets from VPS if missing locally
     (async () => {
@@ -286,6 +297,10 @@ const SecretsView: React.FC = () => {
     );
   };
 
+  const budget = guardrailService.getBudgetStatus();
+  const modelUsage = (Object.entries(usage.models) as [string, UsageSummary['models'][string]][])
+    .sort(([, a], [, b]) => b.cost - a.cost);
+
   return (
     <div className="p-10 h-full flex flex-col overflow-y-auto scrollbar-hide">
       <header className="mb-8 flex justify-between items-end shrink-0">
@@ -308,17 +323,40 @@ const SecretsView: React.FC = () => {
             <h3 className="text-2xl font-bold text-white uppercase tracking-tight">Neural Economy</h3>
             <p className="text-white/40 text-[10px] font-mono uppercase tracking-widest">Real-time API Usage & Estimated Expenditure</p>
           </div>
-          <button onClick={() => billingService.reset()} className="ml-auto p-2 hover:bg-white/5 rounded-xl text-white/20 hover:text-rose-400 transition-all"><RefreshCcw className="w-4 h-4" /></button>
+          <button onClick={() => { if (confirm('Erase all recorded usage and spend history on this account?')) void billingService.reset(); }} className="ml-auto p-2 hover:bg-white/5 rounded-xl text-white/20 hover:text-rose-400 transition-all"><RefreshCcw className="w-4 h-4" /></button>
         </div>
 
+        {budget.level !== 'OK' && (
+          <div className={`mb-8 flex items-center gap-3 p-4 rounded-2xl border text-xs relative z-10 ${budget.level === 'HARD' ? 'bg-rose-500/10 border-rose-500/30 text-rose-300' : 'bg-amber-500/10 border-amber-500/30 text-amber-300'}`}>
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            <span className="flex-1">
+              {budget.reason} {budget.level === 'HARD' ? 'Model calls are blocked.' : `Calls use ${guardrailService.getSettings().budget.downgradeModel} where it is cheaper.`}
+            </span>
+            <span className="text-[9px] font-mono uppercase tracking-widest opacity-60">Settings → Guardrails</span>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-4 gap-8 relative z-10">
           <div className="space-y-1">
             <span className="text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">Total Burn</span>
-            <p className="text-4xl font-bold text-white tracking-tighter">${usageStats.totalCost.toFixed(4)}</p>
+            <p className="text-4xl font-bold text-white tracking-tighter">${usage.total.cost.toFixed(4)}</p>
+            <div className="pt-3 space-y-1 text-[10px] font-mono uppercase">
+              {([['Today', billingService.getTodayCost()], ['This week', billingService.getWeekCost()], ['This month', billingService.getMonthCost()]] as [string, number][]).map(([label, cost]) => (
+                <div key={label} className="flex justify-between text-white/40">
+                  <span>{label}</span>
+                  <span className="text-white/70">${cost.toFixed(4)}</span>
+                </div>
+              ))}
+            </div>
           </div>
           <div className="space-y-1">
             <span className="text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">Neural Density</span>
-            <p className="text-4xl font-bold text-cyan-400 tracking-tighter">{(usageStats.totalTokens / 1000).toFixed(1)}k <span className="text-sm font-mono text-cyan-400/40">Tokens</span></p>
+            <p className="text-4xl font-bold text-cyan-400 tracking-tighter">{((usage.total.inputTokens + usage.total.outputTokens) / 1000).toFixed(1)}k <span className="text-sm font-mono text-cyan-400/40">Tokens</span></p>
+            <div className="pt-3 space-y-1 text-[10px] font-mono uppercase">
+              <div className="flex justify-between text-white/40"><span>Input</span><span className="text-white/70">{(usage.total.inputTokens / 1000).toFixed(1)}k</span></div>
+              <div className="flex justify-between text-white/40"><span>Output</span><span className="text-white/70">{(usage.total.outputTokens / 1000).toFixed(1)}k</span></div>
+              <div className="flex justify-between text-white/40"><span>Calls</span><span className="text-white/70">{usage.total.calls}</span></div>
+            </div>
           </div>
           <div className="md:col-span-2 space-y-6">
             <div className="flex justify-between items-center text-[9px] font-black uppercase tracking-widest text-white/20">
@@ -326,13 +364,12 @@ const SecretsView: React.FC = () => {
               <Activity className="w-3 h-3 text-rose-500/40 animate-pulse" />
             </div>
             <div className="space-y-4">
-              {Object.entries(usageStats.byModel).map(([model, entry]) => {
-                const data = entry as ModelUsage;
-                const percentage = (data.cost / usageStats.totalCost) * 100 || 0;
+              {modelUsage.map(([model, data]) => {
+                const percentage = (data.cost / usage.total.cost) * 100 || 0;
                 return (
                   <div key={model} className="space-y-2 group">
                     <div className="flex justify-between text-[10px] font-mono uppercase">
-                      <span className="text-white/60 group-hover:text-rose-400 transition-colors">{model}</span>
+                      <span className="text-white/60 group-hover:text-rose-400 transition-colors">{model} <span className="text-white/20">· {data.provider} · {data.calls} calls</span></span>
                       <span className="text-white/40">${data.cost.toFixed(5)}</span>
                     </div>
                     <div className="w-full h-1.5 bg-black/40 rounded-full overflow-hidden border border-white/5">
@@ -341,12 +378,31 @@ const SecretsView: React.FC = () => {
                   </div>
                 );
               })}
-              {Object.keys(usageStats.byModel).length === 0 && (
+              {modelUsage.length === 0 && (
                 <p className="text-[10px] text-white/20 font-mono italic">No telemetry recorded for this cycle.</p>
               )}
             </div>
           </div>
         </div>
+
+        {usage.recent.length > 0 && (
+          <div className="mt-10 relative z-10">
+            <div className="text-[9px] font-black uppercase tracking-widest text-white/20 mb-3">Recent Calls</div>
+            <div className="space-y-1 max-h-56 overflow-y-auto scrollbar-hide">
+              {usage.recent.slice(0, 20).map(entry => (
+                <div key={entry.id} className="flex items-center gap-4 text-[10px] font-mono px-3 py-1.5 rounded-xl bg-black/20 border border-white/5">
+                  <span className="text-white/30 w-32 shrink-0">{new Date(entry.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                  <span className="text-white/60 flex-1 min-w-0 truncate">{entry.model} <span className="text-white/20">· {entry.provider}</span></span>
+                  <span className="text-white/30 w-40 shrink-0 truncate" title={entry.missionId}>{entry.agentId ? `agent ${entry.agentId}` : 'Claw'}</span>
+                  <span className="text-white/40 w-28 shrink-0 text-right">{entry.inputTokens}↑ {entry.outputTokens}↓</span>
+                  <span className="text-white/70 w-20 shrink-0 text-right" title={entry.estimated ? 'Estimated — the provider reported no usage or the model is not in the price table' : undefined}>
+                    {entry.estimated ? '~' : ''}${entry.cost.toFixed(5)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 gap-4 pb-12">
@@ -6,12 +6,14 @@ import {
     ExternalLink, RefreshCw, Plus, X, Sparkles, Palette,
     History, MessageSquare, Trash2, Moon, Sun, Mail, Globe, Zap,
     Clock, ToggleLeft, ToggleRight, Bot, TrendingUp, Building2,
-    ChevronDown, ChevronRight, Search, Eye
+    ChevronDown, ChevronRight, Search, Eye, DollarSign
 } from 'lucide-react';
 import { gatewayService } from '../services/gatewayService';
-import { guardrailService, GuardrailSettings } from '../services/guardrailService';
+import { guardrailService, GuardrailSettings, BudgetSettings } from '../services/guardrailService';
+import { billingService } from '../services/billingService';
 import { viewConfigService } from '../services/viewConfigService';
 import { OPENROUTER_MODELS, OPENAI_MODELS, openRouterService } from '../services/openRouterService';
+import { llmProviderService } from '../services/llmProviderService';
 import { PERSONA_PRESETS } from '../personas';
 import { brainService } from '../services/brainService';
 import { hudService, HUDConfig } from '../services/hudService';
@@ -265,6 +267,36 @@ const AdminUserPanel: React.FC = () => {
     );
 };
 
+// ===== Budget Limit Input (commits on blur so decimals can be typed) =====
+const BudgetLimitInput: React.FC<{ label: string; field: keyof Omit<BudgetSettings, 'downgradeModel'>; value: number }> = ({ label, field, value }) => {
+    const [draft, setDraft] = useState(value ? String(value) : '');
+    useEffect(() => { setDraft(value ? String(value) : ''); }, [value]);
+
+    const commit = () => {
+        const amount = Math.max(0, Number(draft) || 0);
+        if (amount !== value) guardrailService.updateBudget({ [field]: amount });
+        setDraft(amount ? String(amount) : '');
+    };
+
+    return (
+        <div className="flex items-center gap-3">
+            <label className="text-[10px] text-white/40 uppercase tracking-widest font-bold w-24">{label}</label>
+            <div className="flex-1 flex items-center bg-black/40 border border-white/10 rounded-xl px-3 focus-within:border-amber-500/50">
+                <span className="text-white/30 text-sm font-mono">$</span>
+                <input
+                    type="number" min="0" step="0.5" inputMode="decimal"
+                    value={draft}
+                    placeholder="no limit"
+                    onChange={e => setDraft(e.target.value)}
+                    onBlur={commit}
+                    onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                    className="flex-1 bg-transparent py-2 pl-1 text-white text-sm font-mono placeholder-white/20 focus:outline-none"
+                />
+            </div>
+        </div>
+    );
+};
+
 const SettingsView: React.FC = () => {
     const [host, setHost] = useState('ws://127.0.0.1:8080');
     const [brainSpec, setBrainSpec] = useState(brainService.getSpec());
@@ -305,11 +337,14 @@ const SettingsView: React.FC = () => {
 
     // --- Guardrails State ---
     const [guardrails, setGuardrails] = useState<GuardrailSettings>(guardrailService.getSettings());
+    const [, setUsageTick] = useState(0);
     const isAwake = guardrailService.isAwake();
+    const budgetStatus = guardrailService.getBudgetStatus();
 
     useEffect(() => {
         const unsub = guardrailService.subscribe(setGuardrails);
-        return unsub;
+        const unsubBilling = billingService.subscribe(() => setUsageTick(t => t + 1));
+        return () => { unsub(); unsubBilling(); };
     }, []);
 
     // Check admin role on mount
@@ -567,6 +602,48 @@ const SettingsView: React.FC = () => {
                             </div>
                         </div>
 
+                        {/* Spending Budget */}
+                        <div className="md:col-span-2 xl:col-span-3 p-6 bg-white/[0.03] border border-white/5 rounded-3xl">
+                            <div className="flex items-center gap-3 mb-4">
+                                <DollarSign className="w-4 h-4 text-emerald-400" />
+                                <h4 className="text-xs font-bold text-white uppercase tracking-widest">Spending Budget</h4>
+                                <span className={`ml-auto text-[9px] font-bold uppercase tracking-widest px-2 py-1 rounded-lg ${budgetStatus.level === 'HARD'
+                                    ? 'bg-rose-500/15 text-rose-400'
+                                    : budgetStatus.level === 'SOFT' ? 'bg-amber-500/15 text-amber-400' : 'bg-emerald-500/10 text-emerald-400'
+                                    }`}>
+                                    {budgetStatus.level === 'HARD' ? 'Blocked' : budgetStatus.level === 'SOFT' ? 'Downgraded' : 'Within budget'}
+                                </span>
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                                <div className="space-y-3">
+                                    <p className="text-[10px] text-white/50 font-mono">Today: <span className="text-white">${budgetStatus.today.toFixed(2)}</span></p>
+                                    <BudgetLimitInput label="Daily soft" field="dailySoft" value={guardrails.budget.dailySoft} />
+                                    <BudgetLimitInput label="Daily hard" field="dailyHard" value={guardrails.budget.dailyHard} />
+                                </div>
+                                <div className="space-y-3">
+                                    <p className="text-[10px] text-white/50 font-mono">This month: <span className="text-white">${budgetStatus.month.toFixed(2)}</span></p>
+                                    <BudgetLimitInput label="Monthly soft" field="monthlySoft" value={guardrails.budget.monthlySoft} />
+                                    <BudgetLimitInput label="Monthly hard" field="monthlyHard" value={guardrails.budget.monthlyHard} />
+                                </div>
+                                <div className="space-y-3">
+                                    <p className="text-[10px] text-white/50 font-mono">Past a soft limit, use:</p>
+                                    <input
+                                        list="budget-downgrade-models"
+                                        value={guardrails.budget.downgradeModel}
+                                        onChange={e => guardrailService.updateBudget({ downgradeModel: e.target.value.trim() })}
+                                        placeholder="gemini-3-flash-preview"
+                                        className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-white text-sm font-mono placeholder-white/20 focus:outline-none focus:border-amber-500/50"
+                                    />
+                                    <datalist id="budget-downgrade-models">
+                                        {['gemini-3-flash-preview', 'gemini-2.5-flash', 'openai/gpt-4o-mini', 'openai/gpt-4.1-mini'].map(m => <option key={m} value={m} />)}
+                                    </datalist>
+                                </div>
+                            </div>
+                            <p className="text-[9px] text-white/20 font-mono mt-4">
+                                {budgetStatus.reason || 'Soft limits switch pricier models to the cheaper one above; hard limits stop all model calls (server missions too). Empty = no limit.'}
+                            </p>
+                        </div>
+
                     </div>
                 </div>
 
@@ -771,6 +848,7 @@ const SettingsView: React.FC = () => {
                                             const orModel = OPENROUTER_MODELS.find(om => om.id === m);
                                             const oaiModel = OPENAI_MODELS.find(om => om.id === m);
                                             const label = m === 'DYNAMIC' ? 'Dynamic Pilot (Recommended)'
+                                                : llmProviderService.isLocalModel(m) ? `${m.slice('local/'.length)} — Local${!llmProviderService.isAvailable(m) ? ' 🔑' : ''}`
                                                 : oaiModel ? `${oaiModel.name} — OpenAI${!openRouterService.isOpenAIAvailable() ? ' 🔑' : ''}`
                                                     : orModel ? `${orModel.name} — ${orModel.provider}${!openRouterService.isAvailable() ? ' 🔑' : ''}`
                                                         : m;
@@ -793,7 +871,7 @@ const SettingsView: React.FC = () => {
                                         type="text"
                                         value={newModelName}
                                         onChange={(e) => setNewModelName(e.target.value)}
-                                        placeholder="e.g. anthropic/claude-sonnet-4 or meta-llama/llama-4-scout:free"
+                                        placeholder="e.g. anthropic/claude-sonnet-4, meta-llama/llama-4-scout:free or local/llama3.1"
                                         className="flex-1 bg-black/40 border border-rose-500/20 rounded-xl px-4 py-2 text-xs text-white font-mono focus:outline-none focus:border-rose-500"
                                     />
                                     <button onClick={handleAddModel} className="px-4 bg-rose-600 hover:bg-rose-500 text-white rounded-xl text-[10px] font-black uppercase">Add</button>
@@ -812,7 +890,7 @@ const SettingsView: React.FC = () => {
                                             Append <span className="text-purple-400 font-mono">:free</span> for free-tier models.
                                         </p>
                                         <p className="text-[9px] text-white/30 leading-relaxed mt-1.5">
-                                            Gemini models use your Google API key directly. All other models route through OpenRouter — set your key in Vault → Secrets.
+                                            Gemini models use your Google API key directly. <span className="text-white/60 font-mono">local/</span> models run on your Local Model Endpoint. All other models route through OpenRouter — set your key in Vault → Secrets.
                                         </p>
                                     </div>
                                 </div>
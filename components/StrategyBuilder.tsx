@@ -69,6 +69,38 @@ const ENTRY_RULE_OPTIONS = [
     { indicator: 'price_above_avwap_current', label: 'Above Current AVWAP', description: 'Above short-term VWAP' },
     { indicator: 'diamond', label: 'Diamond Signal', color: '', description: 'Flush pattern detected' },
     { indicator: 'atr_abnormal', label: 'ATR Abnormal', value: true, description: 'Abnormal volatility' },
+    { indicator: 'macd_cross', label: 'MACD Cross', direction: 'above', description: 'MACD crosses its signal line' },
+    { indicator: 'macd_histogram', label: 'MACD Histogram', condition: '>', value: 0, description: 'Histogram vs value' },
+    { indicator: 'bb_cross', label: 'Bollinger Cross', band: 'lower', direction: 'below', description: 'Close crosses a Bollinger Band' },
+    { indicator: 'bb_width', label: 'Bollinger Width', condition: '<', value: 0.1, description: 'Band width as a fraction of price (squeeze)' },
+    { indicator: 'keltner_cross', label: 'Keltner Cross', band: 'upper', direction: 'above', description: 'Close crosses a Keltner Channel' },
+    { indicator: 'stoch_rsi', label: 'Stoch RSI', condition: '<', value: 20, description: 'Stoch RSI %K vs value' },
+    { indicator: 'stoch_rsi_cross', label: 'Stoch RSI Cross', direction: 'above', description: '%K crosses %D' },
+    { indicator: 'supertrend', label: 'SuperTrend', direction: 'above', description: 'SuperTrend direction' },
+    { indicator: 'supertrend_flip', label: 'SuperTrend Flip', direction: 'above', description: 'SuperTrend flips this bar' },
+    { indicator: 'obv_cross', label: 'OBV Cross', direction: 'above', description: 'OBV crosses its EMA' },
+    { indicator: 'adx', label: 'ADX Trend Strength', condition: '>', value: 25, description: 'ADX vs value' },
+    { indicator: 'di_cross', label: 'DI Cross', direction: 'above', description: '+DI crosses -DI' },
+    { indicator: 'ichimoku_cloud', label: 'Ichimoku Cloud', position: 'above', description: 'Price vs the cloud' },
+    { indicator: 'tk_cross', label: 'Tenkan/Kijun Cross', direction: 'above', description: 'Tenkan crosses Kijun' },
+    { indicator: 'expression', label: 'Expression', expression: 'ema20 > ema50 and rsi < 70', description: 'Write your own condition' },
+];
+
+const EXPRESSION_HELP = 'Series: close, open, high, low, volume, rsi, atr, ema20, sma50, avwap_major, avwap_current, macd, macd_signal, macd_hist, bb_upper/middle/lower, bb_width, kc_upper/middle/lower, stoch_k, stoch_d, supertrend, obv, obv_ema, adx, plus_di, minus_di, tenkan, kijun, span_a, span_b, poc, vah, val, stage · close[1] = one bar ago · '
+    + 'Functions: crossesAbove(a, b), crossesBelow(a, b), barsSince(cond), abs, min, max · Combine with and / or / not and ( )';
+
+// Rules that compare a value with a condition
+const THRESHOLD_RULES = ['rsi', 'ladder_stage', 'macd_histogram', 'bb_width', 'stoch_rsi', 'adx'];
+// Rules that fire when one series crosses another this bar
+const CROSS_RULES = ['macd_cross', 'bb_cross', 'keltner_cross', 'stoch_rsi_cross', 'obv_cross', 'di_cross', 'tk_cross'];
+
+// Pairs a strategy can watch (the bot scans each one every cycle)
+const PAIR_OPTIONS = ['SOL/USDC', 'SOL/USDT', 'JUP/USDC', 'BONK/USDC', 'WIF/USDC', 'JTO/USDC', 'PYTH/USDC', 'RAY/USDC', 'ORCA/USDC'];
+
+const TIMEFRAME_OPTIONS = [
+    { label: '1m', value: 'minute' },
+    { label: '1h', value: 'hour' },
+    { label: '1D', value: 'day' },
 ];
 
 interface StrategyBuilderProps {
@@ -80,12 +112,18 @@ const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ pair = 'SOL/USDC' })
     const [strategyName, setStrategyName] = useState('');
     const [entryRules, setEntryRules] = useState<any[]>([]);
     const [exitRules, setExitRules] = useState<any[]>([]);
+    const [direction, setDirection] = useState<'long' | 'short'>('long');
+    const [autoPerps, setAutoPerps] = useState(false);
+    const [timeframe, setTimeframe] = useState('day');
+    const [pairs, setPairs] = useState<string[]>([]);
     const [savedStrategies, setSavedStrategies] = useState<any[]>([]);
     const [evaluation, setEvaluation] = useState<any>(null);
     const [evalLoading, setEvalLoading] = useState(false);
     const [showAddEntry, setShowAddEntry] = useState(false);
     const [saveSuccess, setSaveSuccess] = useState('');
     const [activeTemplate, setActiveTemplate] = useState('');
+    const [saveError, setSaveError] = useState('');
+    const [exprChecks, setExprChecks] = useState<Record<string, any>>({});
 
     // Listen for strategy/evaluation responses
     useEffect(() => {
@@ -93,12 +131,24 @@ const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ pair = 'SOL/USDC' })
             switch (data.type) {
                 case 'TRADER_STRATEGIES':
                     setSavedStrategies(data.strategies || []);
-                    if (data.ok) setSaveSuccess('Strategy saved!');
+                    if (data.ok) {
+                        setSaveSuccess('Strategy saved!');
+                        setSaveError('');
+                    }
                     break;
                 case 'TRADER_EVALUATION':
                     setEvaluation(data);
                     setEvalLoading(false);
                     break;
+                case 'TRADER_EXPRESSION_CHECK':
+                    setExprChecks(prev => ({ ...prev, [data.expression]: data }));
+                    break;
+                case 'TRADER_ERROR':
+                    if (data.context === 'strategy') {
+                        setSaveError(data.error);
+                        setEvalLoading(false);
+                    }
+                    break;
             }
         });
         gatewayService.traderGetStrategies();
@@ -112,6 +162,10 @@ const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ pair = 'SOL/USDC' })
         setStrategyName(name === 'Custom Strategy' ? '' : name);
         setEntryRules(JSON.parse(JSON.stringify(tpl.entryRules)));
         setExitRules(JSON.parse(JSON.stringify(tpl.exitRules)));
+        setDirection('long');
+        setAutoPerps(false);
+        setTimeframe('day');
+        setPairs([]);
         setActiveTemplate(name);
         setEvaluation(null);
     };
@@ -121,6 +175,10 @@ const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ pair = 'SOL/USDC' })
         setStrategyName(strat.name);
         setEntryRules(strat.entryRules || []);
         setExitRules(strat.exitRules || []);
+        setDirection(strat.direction === 'short' ? 'short' : 'long');
+        setAutoPerps(!!strat.autoPerps);
+        setTimeframe(strat.timeframe || 'day');
+        setPairs(strat.pairs || (strat.pair ? [strat.pair] : []));
         setActiveTemplate('');
         setEvaluation(null);
     };
@@ -128,14 +186,36 @@ const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ pair = 'SOL/USDC' })
     // Save strategy
     const handleSave = () => {
         if (!strategyName.trim()) return;
+        setSaveError('');
         gatewayService.traderSaveStrategy({
             name: strategyName.trim(),
             entryRules,
             exitRules,
+            direction,
+            autoPerps,
+            timeframe,
+            pairs,
         });
         setTimeout(() => setSaveSuccess(''), 3000);
     };
 
+    // Evaluate on the first watched pair, else the view's pair
+    const evalPair = pairs[0] || pair;
+
+    // Validate expression rules as they're typed (debounced); the server also previews them on evalPair
+    useEffect(() => {
+        const pending = entryRules.filter(r => r.indicator === 'expression' && r.expression && !exprChecks[r.expression]);
+        if (pending.length === 0) return;
+        const timer = setTimeout(() => {
+            pending.forEach(r => gatewayService.traderValidateExpression(r.expression, evalPair, r.timeframe || timeframe));
+        }, 400);
+        return () => clearTimeout(timer);
+    }, [entryRules, exprChecks, evalPair, timeframe]);
+
+    const togglePair = (p: string) => {
+        setPairs(prev => prev.includes(p) ? prev.filter(x => x !== p) : [...prev, p]);
+    };
+
     // Run evaluation
     const handleEvaluate = () => {
         if (!strategyName.trim()) return;
@@ -143,7 +223,7 @@ const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ pair = 'SOL/USDC' })
         handleSave();
         setEvalLoading(true);
         setTimeout(() => {
-            gatewayService.traderEvaluate(strategyName.trim(), pair);
+            gatewayService.traderEvaluate(strategyName.trim(), evalPair);
         }, 500);
     };
 
@@ -163,20 +243,58 @@ const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ pair = 'SOL/USDC' })
         setShowAddEntry(false);
     };
 
+    // Expression editor with validation feedback
+    const renderExpression = (rule: any, idx: number) => {
+        const check = exprChecks[rule.expression];
+        return (
+            <div className="w-full space-y-1">
+                <textarea value={rule.expression || ''} onChange={e => updateEntry(idx, 'expression', e.target.value)} rows={2} spellCheck={false}
+                    placeholder="ema20 > ema50 and barsSince(crossesAbove(close, avwap_current)) < 3"
+                    className={`w-full bg-black/40 border rounded py-1 px-2 text-[10px] text-white font-mono outline-none resize-y ${check && !check.ok ? 'border-red-500/40' : 'border-white/10'}`} />
+                {check && !check.ok && (
+                    <div className="text-[9px] text-red-400 font-mono">
+                        ✗ {check.error} (char {check.position + 1})
+                        <div className="text-red-400/50 whitespace-pre">{`  ${rule.expression.slice(Math.max(0, check.position - 20), check.position + 20)}\n  ${' '.repeat(Math.min(check.position, 20))}^`}</div>
+                    </div>
+                )}
+                {check?.ok && (
+                    <div className="space-y-0.5">
+                        <div className="text-[9px] text-green-400/70">✓ {check.description}</div>
+                        {check.clauses && (
+                            <div className="text-[8px] text-white/30">
+                                Now on {check.pair} ({check.timeframe}): <span className={check.passed ? 'text-green-400' : 'text-red-400/70'}>{check.passed ? 'TRUE' : 'false'}</span>
+                                {check.clauses.length > 1 && <> — {check.clauses.map((c: any) => `${c.passed ? '✓' : '✗'} ${c.text}`).join(` ${check.joiner} `)}</>}
+                            </div>
+                        )}
+                        {check.previewError && <div className="text-[8px] text-yellow-400/50">Preview unavailable: {check.previewError}</div>}
+                    </div>
+                )}
+                <div className="text-[8px] text-white/15 leading-relaxed">{EXPRESSION_HELP}</div>
+            </div>
+        );
+    };
+
     // Render an entry rule editor
     const renderEntryRule = (rule: any, idx: number) => {
         return (
             <div key={idx} className="p-2.5 rounded-lg bg-white/[0.03] border border-white/[0.06] space-y-1.5">
                 <div className="flex items-center justify-between">
                     <span className="text-[10px] text-cyan-400 font-bold">{rule.label || rule.indicator}</span>
-                    <button onClick={() => setEntryRules(prev => prev.filter((_, i) => i !== idx))} className="p-0.5 hover:bg-white/5 rounded">
-                        <Trash2 className="w-3 h-3 text-red-400/40" />
-                    </button>
+                    <div className="flex items-center gap-1">
+                        <select value={rule.timeframe || ''} onChange={e => updateEntry(idx, 'timeframe', e.target.value || undefined)} title="Timeframe this rule reads"
+                            className="bg-black/40 border border-white/10 rounded py-0.5 px-1 text-[9px] text-white/60 outline-none">
+                            <option value="">Strategy TF</option>
+                            {TIMEFRAME_OPTIONS.map(tf => <option key={tf.value} value={tf.value}>{tf.label}</option>)}
+                        </select>
+                        <button onClick={() => setEntryRules(prev => prev.filter((_, i) => i !== idx))} className="p-0.5 hover:bg-white/5 rounded">
+                            <Trash2 className="w-3 h-3 text-red-400/40" />
+                        </button>
+                    </div>
                 </div>
                 <div className="text-[8px] text-white/20">{rule.description}</div>
                 <div className="flex gap-2 flex-wrap">
                     {/* Conditional value fields based on indicator type */}
-                    {(rule.indicator === 'rsi' || rule.indicator === 'ladder_stage') && (
+                    {THRESHOLD_RULES.includes(rule.indicator) && (
                         <>
                             <select value={rule.condition || '<'} onChange={e => updateEntry(idx, 'condition', e.target.value)}
                                 className="bg-black/40 border border-white/10 rounded py-1 px-2 text-[10px] text-white outline-none w-14">
@@ -186,10 +304,40 @@ const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ pair = 'SOL/USDC' })
                                 <option value=">=">&ge;</option>
                                 <option value="==">==</option>
                             </select>
-                            <input type="number" value={rule.value} onChange={e => updateEntry(idx, 'value', parseFloat(e.target.value) || 0)}
+                            <input type="number" step={rule.indicator === 'bb_width' ? 0.01 : 1} value={rule.value} onChange={e => updateEntry(idx, 'value', parseFloat(e.target.value) || 0)}
                                 className="bg-black/40 border border-white/10 rounded py-1 px-2 text-[10px] text-white outline-none w-16" />
                         </>
                     )}
+                    {(rule.indicator === 'bb_cross' || rule.indicator === 'keltner_cross') && (
+                        <select value={rule.band || 'lower'} onChange={e => updateEntry(idx, 'band', e.target.value)}
+                            className="bg-black/40 border border-white/10 rounded py-1 px-2 text-[10px] text-white outline-none">
+                            <option value="upper">Upper band</option>
+                            <option value="middle">Middle</option>
+                            <option value="lower">Lower band</option>
+                        </select>
+                    )}
+                    {CROSS_RULES.includes(rule.indicator) && (
+                        <select value={rule.direction || 'above'} onChange={e => updateEntry(idx, 'direction', e.target.value)}
+                            className="bg-black/40 border border-white/10 rounded py-1 px-2 text-[10px] text-white outline-none">
+                            <option value="above">Crosses above</option>
+                            <option value="below">Crosses below</option>
+                        </select>
+                    )}
+                    {(rule.indicator === 'supertrend' || rule.indicator === 'supertrend_flip') && (
+                        <select value={rule.direction || 'above'} onChange={e => updateEntry(idx, 'direction', e.target.value)}
+                            className="bg-black/40 border border-white/10 rounded py-1 px-2 text-[10px] text-white outline-none">
+                            <option value="above">{rule.indicator === 'supertrend' ? 'Uptrend' : 'Flips up'}</option>
+                            <option value="below">{rule.indicator === 'supertrend' ? 'Downtrend' : 'Flips down'}</option>
+                        </select>
+                    )}
+                    {rule.indicator === 'ichimoku_cloud' && (
+                        <select value={rule.position || 'above'} onChange={e => updateEntry(idx, 'position', e.target.value)}
+                            className="bg-black/40 border border-white/10 rounded py-1 px-2 text-[10px] text-white outline-none">
+                            <option value="above">Above cloud</option>
+                            <option value="inside">Inside cloud</option>
+                            <option value="below">Below cloud</option>
+                        </select>
+                    )}
                     {(rule.indicator === 'price_vs_val' || rule.indicator === 'price_vs_poc') && (
                         <div className="flex items-center gap-1">
                             <span className="text-[9px] text-white/30">Within</span>
@@ -207,6 +355,7 @@ const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ pair = 'SOL/USDC' })
                             <option value="red">🔴 Red (Avoid)</option>
                         </select>
                     )}
+                    {rule.indicator === 'expression' && renderExpression(rule, idx)}
                     {/* Boolean indicators (no value needed) */}
                     {['price_above_vah', 'price_above_poc', 'price_above_avwap_major', 'price_above_avwap_current'].includes(rule.indicator) && (
                         <span className="text-[9px] text-green-400/60 italic">✓ Active — no value needed</span>
@@ -272,6 +421,7 @@ const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ pair = 'SOL/USDC' })
                 </h2>
                 <div className="flex items-center gap-2">
                     {saveSuccess && <span className="text-[9px] text-green-400">{saveSuccess}</span>}
+                    {saveError && <span className="text-[9px] text-red-400">{saveError}</span>}
                     {expanded ? <ChevronDown className="w-4 h-4 text-white/30" /> : <ChevronRight className="w-4 h-4 text-white/30" />}
                 </div>
             </div>
@@ -319,6 +469,51 @@ const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ pair = 'SOL/USDC' })
                                     className="mt-1 w-full bg-black/40 border border-white/10 rounded-lg py-2 px-3 text-xs text-white outline-none focus:border-purple-500/30" />
                             </div>
 
+                            {/* Perps Signal Direction */}
+                            <div className="flex items-center gap-2">
+                                <div className="flex gap-1 p-0.5 rounded-lg bg-white/[0.03] border border-white/[0.06]">
+                                    {(['long', 'short'] as const).map(d => (
+                                        <button key={d} onClick={() => setDirection(d)}
+                                            className={`px-3 py-1 rounded-md text-[9px] font-bold uppercase transition-all ${direction === d
+                                                ? d === 'long' ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
+                                                : 'text-white/30 hover:text-white/50'}`}>
+                                            {d}
+                                        </button>
+                                    ))}
+                                </div>
+                                <label className="flex items-center gap-1.5 text-[9px] text-white/40 font-bold cursor-pointer">
+                                    <input type="checkbox" checked={autoPerps} onChange={e => setAutoPerps(e.target.checked)} className="accent-amber-500" />
+                                    Use for Auto Perps
+                                </label>
+                            </div>
+
+                            {/* Timeframe + Watched Pairs */}
+                            <div className="space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-[9px] text-white/30 font-bold uppercase tracking-wider">Timeframe</span>
+                                    <div className="flex gap-1 p-0.5 rounded-lg bg-white/[0.03] border border-white/[0.06]">
+                                        {TIMEFRAME_OPTIONS.map(tf => (
+                                            <button key={tf.value} onClick={() => setTimeframe(tf.value)}
+                                                className={`px-2.5 py-1 rounded-md text-[9px] font-bold uppercase transition-all ${timeframe === tf.value ? 'bg-purple-500/20 text-purple-400' : 'text-white/30 hover:text-white/50'}`}>
+                                                {tf.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div>
+                                    <div className="text-[9px] text-white/30 font-bold uppercase tracking-wider mb-1">Watch Pairs</div>
+                                    <div className="flex flex-wrap gap-1">
+                                        {PAIR_OPTIONS.map(p => (
+                                            <button key={p} onClick={() => togglePair(p)}
+                                                className={`px-2 py-0.5 rounded-md text-[9px] font-bold transition-all border ${pairs.includes(p) ? 'bg-cyan-500/15 text-cyan-400 border-cyan-500/20' : 'text-white/30 border-white/[0.06] hover:text-white/50'}`}>
+                                                {p}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <div className="text-[8px] text-white/15 mt-1 italic">{pairs.length === 0 ? 'None selected — the bot scans your watchlist' : `Scanned every bot cycle on ${pairs.length} pair${pairs.length > 1 ? 's' : ''}`}</div>
+                                </div>
+                            </div>
+
                             {/* Entry Rules */}
                             <div>
                                 <div className="flex items-center justify-between mb-2">
@@ -338,7 +533,7 @@ const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ pair = 'SOL/USDC' })
                                 {showAddEntry && (
                                     <div className="mt-2 p-2 rounded-lg bg-white/[0.03] border border-white/[0.06]">
                                         <div className="text-[8px] text-white/30 font-bold mb-1.5">Choose condition to add:</div>
-                                        <div className="grid grid-cols-2 gap-1">
+                                        <div className="grid grid-cols-2 gap-1 max-h-48 overflow-y-auto">
                                             {ENTRY_RULE_OPTIONS.map(opt => (
                                                 <button key={opt.indicator} onClick={() => addEntryRule(opt)}
                                                     className="text-left p-1.5 rounded text-[9px] text-white/50 hover:bg-white/5 hover:text-white/80 transition-all">
@@ -379,14 +574,14 @@ const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ pair = 'SOL/USDC' })
                                 <button onClick={handleEvaluate} disabled={!strategyName.trim() || evalLoading}
                                     className="flex-1 flex items-center justify-center gap-1.5 py-2.5 rounded-xl text-xs font-bold text-cyan-400 bg-cyan-500/10 border border-cyan-500/20 hover:bg-cyan-500/20 transition-all disabled:opacity-30">
                                     {evalLoading ? <Settings className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
-                                    Run on {pair}
+                                    Run on {evalPair}
                                 </button>
                             </div>
 
                             {/* Evaluation Results */}
                             {evaluation && !evaluation.error && (
                                 <div className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06] space-y-2">
-                                    <div className="text-[9px] text-white/40 font-bold uppercase tracking-wider">Evaluation Results — {pair}</div>
+                                    <div className="text-[9px] text-white/40 font-bold uppercase tracking-wider">Evaluation Results — {evaluation.pair || evalPair}</div>
                                     {evaluation.signals && evaluation.signals.length > 0 ? (
                                         <div className="space-y-1.5">
                                             {evaluation.signals.map((sig: any, i: number) => (
@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { Bot, ChevronDown, Check, X, Loader2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { gatewayService } from '../services/gatewayService';
+
+type ProposalStatus = 'pending' | 'executing' | 'executed' | 'failed' | 'rejected' | 'expired';
+
+interface TradeProposal {
+    id: string;
+    action: 'buy' | 'sell' | 'long' | 'short';
+    token: string;
+    amountUsd: number;
+    leverage: number | null;
+    rationale: string;
+    source: { agentId: string | null; agentName: string };
+    priceAtProposal: number | null;
+    paper: boolean;
+    status: ProposalStatus;
+    createdAt: string;
+    expiresAt: string;
+    resolvedAt?: string;
+    signature?: string | null;
+    error?: string;
+    rejectReason?: string;
+}
+
+const STATUS_STYLE: Record<ProposalStatus, string> = {
+    pending: 'bg-amber-500/10 text-amber-400',
+    executing: 'bg-cyan-500/10 text-cyan-400',
+    executed: 'bg-green-500/10 text-green-400',
+    failed: 'bg-red-500/10 text-red-400',
+    rejected: 'bg-white/5 text-white/30',
+    expired: 'bg-white/5 text-white/30',
+};
+
+const ACTION_STYLE: Record<TradeProposal['action'], string> = {
+    buy: 'text-green-400',
+    long: 'text-green-400',
+    sell: 'text-red-400',
+    short: 'text-red-400',
+};
+
+const describeTrade = (p: TradeProposal) => {
+    if (p.action === 'long' || p.action === 'short') {
+        return `$${p.amountUsd} collateral × ${p.leverage}x ${p.token}-PERP`;
+    }
+    return p.action === 'buy' ? `$${p.amountUsd} of ${p.token} with USDC` : `$${p.amountUsd} of ${p.token} for USDC`;
+};
+
+const TradeProposalsPanel: React.FC = () => {
+    const [expanded, setExpanded] = useState(true);
+    const [proposals, setProposals] = useState<TradeProposal[]>([]);
+    const [showResolved, setShowResolved] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const unsub = gatewayService.subscribeTrader((data: any) => {
+            switch (data.type) {
+                case 'TRADER_PROPOSALS':
+                    setProposals(data.proposals || []);
+                    break;
+                case 'TRADER_ERROR':
+                    if (data.context === 'proposals') setError(data.error);
+                    break;
+            }
+        });
+        return () => unsub();
+    }, []);
+
+    useEffect(() => { gatewayService.traderGetProposals(); }, []);
+
+    useEffect(() => {
+        if (error) { const t = setTimeout(() => setError(''), 8000); return () => clearTimeout(t); }
+    }, [error]);
+
+    const handleApprove = (p: TradeProposal) => {
+        const what = `${p.action.toUpperCase()} ${describeTrade(p)}${p.paper ? ' (paper)' : ''}`;
+        if (!confirm(`Execute ${what} as proposed by ${p.source.agentName}?`)) return;
+        setError('');
+        gatewayService.traderApproveProposal(p.id);
+    };
+
+    const pending = proposals.filter(p => p.status === 'pending' || p.status === 'executing');
+    const resolved = proposals.filter(p => p.status !== 'pending' && p.status !== 'executing').reverse();
+
+    const renderProposal = (p: TradeProposal) => (
+        <div key={p.id} className={`p-2.5 rounded-xl border ${p.status === 'pending' ? 'bg-amber-500/[0.04] border-amber-500/15' : 'bg-white/[0.02] border-white/[0.04]'}`}>
+            <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                        <span className={`text-xs font-bold uppercase ${ACTION_STYLE[p.action]}`}>{p.action}</span>
+                        <span className="text-xs font-bold text-white">{describeTrade(p)}</span>
+                        <span className={`text-[8px] px-1.5 py-0.5 rounded-full font-bold uppercase ${STATUS_STYLE[p.status]}`}>{p.status}</span>
+                        {p.paper && <span className="text-[8px] px-1.5 py-0.5 rounded-full font-bold uppercase bg-purple-500/10 text-purple-400">paper</span>}
+                    </div>
+                    <div className="text-[9px] text-white/25">
+                        {p.source.agentName} · {new Date(p.createdAt).toLocaleString()}
+                        {p.priceAtProposal && <span> · {p.token} at ${p.priceAtProposal.toFixed(p.priceAtProposal >= 1 ? 2 : 6)}</span>}
+                        {p.status === 'pending' && <span> · expires {new Date(p.expiresAt).toLocaleString()}</span>}
+                    </div>
+                </div>
+                {p.status === 'pending' && (
+                    <div className="flex items-center gap-1 shrink-0">
+                        <button onClick={() => handleApprove(p)} className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold text-green-300 bg-green-500/15 hover:bg-green-500/25 border border-green-500/20">
+                            <Check className="w-3 h-3" /> Approve
+                        </button>
+                        <button onClick={() => gatewayService.traderRejectProposal(p.id)} className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold text-white/50 bg-white/5 hover:bg-white/10 border border-white/10">
+                            <X className="w-3 h-3" /> Reject
+                        </button>
+                    </div>
+                )}
+                {p.status === 'executing' && <Loader2 className="w-3.5 h-3.5 text-cyan-400 animate-spin shrink-0" />}
+            </div>
+            <p className="mt-1.5 text-[10px] text-white/50 whitespace-pre-wrap">{p.rationale}</p>
+            {(p.status === 'failed' || p.status === 'expired') && p.error && (
+                <div className="mt-1 flex items-center gap-1.5 text-[9px] text-red-400">
+                    <AlertTriangle className="w-2.5 h-2.5 shrink-0" /> {p.error}
+                </div>
+            )}
+            {p.status === 'executed' && (
+                <div className="mt-1 flex items-center gap-1.5 text-[9px] text-green-400">
+                    <CheckCircle2 className="w-2.5 h-2.5 shrink-0" /> Executed {p.resolvedAt && new Date(p.resolvedAt).toLocaleString()}
+                    {p.signature && !p.paper && (
+                        <a href={`https://solscan.io/tx/${p.signature}`} target="_blank" rel="noopener noreferrer" className="text-purple-400/60 hover:text-purple-300">tx</a>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="rounded-2xl border border-white/[0.06] bg-gradient-to-b from-white/[0.03] to-transparent overflow-hidden">
+            {/* Header */}
+            <div className="flex items-center justify-between p-5 pb-2 cursor-pointer" onClick={() => setExpanded(!expanded)}>
+                <h2 className="text-sm font-bold text-white flex items-center gap-2">
+                    <div className="w-7 h-7 rounded-lg bg-amber-500/10 flex items-center justify-center">
+                        <Bot className="w-4 h-4 text-amber-400" />
+                    </div>
+                    Agent Trade Proposals
+                    {pending.length > 0 && (
+                        <span className="text-[8px] bg-amber-500/15 text-amber-400 px-2 py-0.5 rounded-full font-bold uppercase tracking-wider border border-amber-500/10">
+                            {pending.length} awaiting approval
+                        </span>
+                    )}
+                </h2>
+                <ChevronDown className={`w-4 h-4 text-white/30 transition-transform duration-300 ${expanded ? 'rotate-180' : ''}`} />
+            </div>
+            <p className="text-[10px] text-white/20 px-5 pb-3">Trades suggested by agents — nothing executes until you approve it, at current prices in the current mode</p>
+
+            {expanded && (
+                <div className="px-5 pb-5 space-y-3">
+                    {error && (
+                        <div className="flex items-center gap-2 p-2.5 rounded-xl bg-red-500/10 border border-red-500/20 text-[11px] text-red-300">
+                            <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                            <span className="flex-1">{error}</span>
+                            <button onClick={() => setError('')}><X className="w-3 h-3" /></button>
+                        </div>
+                    )}
+
+                    {pending.length === 0 ? (
+                        <p className="text-[11px] text-white/15 italic text-center py-3">No pending proposals — trading agents queue their ideas here</p>
+                    ) : (
+                        <div className="space-y-1.5">{pending.map(renderProposal)}</div>
+                    )}
+
+                    {resolved.length > 0 && (
+                        <>
+                            <button onClick={() => setShowResolved(!showResolved)} className="text-[9px] text-white/30 hover:text-white/60 font-bold flex items-center gap-1">
+                                <ChevronDown className={`w-3 h-3 transition-transform ${showResolved ? 'rotate-180' : ''}`} /> History ({resolved.length})
+                            </button>
+                            {showResolved && <div className="space-y-1.5 max-h-80 overflow-y-auto">{resolved.map(renderProposal)}</div>}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TradeProposalsPanel;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Wallet, TrendingUp, TrendingDown, Activity, Power, ArrowUpRight, ArrowDownRight, Zap, BarChart3, CircleDollarSign, Bot, Clock, RefreshCw, ExternalLink } from 'lucide-react';
 import { gatewayService } from '../services/gatewayService';
+import { TraderPnl } from '../types';
 
 interface TradingDashboardProps {
     onNavigate: (view: string) => void;
@@ -19,55 +20,63 @@ interface TraderStatus {
     lastCheck: string;
     hasStrategies: boolean;
     positionCount: number;
+    paperMode?: boolean;
 }
 
+type PnlTab = 'tokens' | 'markets' | 'strategies';
+
+// Trades that change the ledger — refresh P&L when one of these is logged
+const LEDGER_LOG_TYPES = ['trade', 'withdraw', 'perp_open', 'perp_close'];
+
+const usd = (n: number) => `${n >= 0 ? '+' : '-'}$${Math.abs(n).toFixed(2)}`;
+const pnlText = (n: number) => n >= 0 ? 'text-emerald-400' : 'text-red-400';
+
 const TradingDashboard: React.FC<TradingDashboardProps> = ({ onNavigate }) => {
     const [status, setStatus] = useState<TraderStatus | null>(null);
-    const [loading, setLoading] = useState(true);
+    const [pnlReport, setPnlReport] = useState<TraderPnl | null>(null);
+    const [pnlTab, setPnlTab] = useState<PnlTab>('tokens');
 
-    const fetchStatus = useCallback(async () => {
-        try {
-            const result = await gatewayService.traderStatus();
-            if (result && !result.error) {
-                setStatus(result as any);
-            }
-        } catch (e) { }
-        setLoading(false);
+    const fetchStatus = useCallback(() => {
+        gatewayService.traderStatus();
+        gatewayService.traderPnl();
     }, []);
 
     useEffect(() => {
+        const unsub = gatewayService.subscribeTrader((data: any) => {
+            switch (data.type) {
+                case 'TRADER_STATUS': setStatus(data); break;
+                case 'TRADER_PNL': setPnlReport(data); break;
+                case 'TRADER_PAPER_MODE_ACK': fetchStatus(); break;
+                case 'TRADER_LOG':
+                    if (LEDGER_LOG_TYPES.includes(data.entry?.type)) gatewayService.traderPnl();
+                    break;
+            }
+        });
         fetchStatus();
-        const interval = setInterval(fetchStatus, 15000);
-        return () => clearInterval(interval);
+        const interval = setInterval(() => gatewayService.traderStatus(), 15000);
+        const pnlInterval = setInterval(() => gatewayService.traderPnl(), 60000);
+        return () => { unsub(); clearInterval(interval); clearInterval(pnlInterval); };
     }, [fetchStatus]);
 
-    // Listen for trader broadcasts
-    useEffect(() => {
-        const handler = (e: CustomEvent) => {
-            if (e.detail?.type === 'TRADER_STATUS') setStatus(e.detail);
-            if (e.detail?.type === 'TRADER_LOG') fetchStatus();
-        };
-        window.addEventListener('trader-broadcast' as any, handler);
-        return () => window.removeEventListener('trader-broadcast' as any, handler);
-    }, [fetchStatus]);
-
-    const pnl = status?.recentTrades?.reduce((sum, t) => {
-        if (t.type === 'trade' && t.outAmount && t.inAmount) {
-            return sum + (parseFloat(t.outAmount) - parseFloat(t.inAmount));
-        }
-        return sum;
-    }, 0) || 0;
-
-    const pnlColor = pnl >= 0 ? 'text-emerald-400' : 'text-red-400';
-    const pnlIcon = pnl >= 0 ? TrendingUp : TrendingDown;
-    const PnlIcon = pnlIcon;
+    const pnl = pnlReport?.totalUsd || 0;
+    const pnlColor = pnlText(pnl);
+    const PnlIcon = pnl >= 0 ? TrendingUp : TrendingDown;
+    const snapshots = pnlReport?.snapshots || [];
+    const snapshotMax = Math.max(1, ...snapshots.map(s => s.totalUsd));
 
     return (
         <div className="h-full overflow-y-auto p-6" style={{ scrollbarWidth: 'thin', scrollbarColor: '#ffffff10 transparent' }}>
             {/* Header */}
             <div className="flex items-center justify-between mb-8">
                 <div>
-                    <h1 className="text-2xl font-bold text-white tracking-tight">Trading Dashboard</h1>
+                    <div className="flex items-center gap-2">
+                        <h1 className="text-2xl font-bold text-white tracking-tight">Trading Dashboard</h1>
+                        {status && (
+                            <span className={`px-2 py-0.5 rounded-md text-[9px] font-bold uppercase tracking-wider border ${status.paperMode ? 'bg-amber-500/10 text-amber-400 border-amber-500/20' : 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20'}`}>
+                                {status.paperMode ? 'Paper' : 'Live'}
+                            </span>
+                        )}
+                    </div>
                     <p className="text-xs text-white/30 mt-1 font-mono">
                         {status?.isRunning ? '🟢 Bot Active' : '⭕ Bot Idle'} · Last check: {status?.lastCheck ? new Date(status.lastCheck).toLocaleTimeString() : '—'}
                     </p>
@@ -127,10 +136,13 @@ const TradingDashboard: React.FC<TradingDashboardProps> = ({ onNavigate }) => {
                         <div className={`w-8 h-8 rounded-xl flex items-center justify-center ${pnl >= 0 ? 'bg-emerald-500/10' : 'bg-red-500/10'}`}>
                             <PnlIcon className={`w-4 h-4 ${pnlColor}`} />
                         </div>
-                        <span className="text-[10px] text-white/30 uppercase tracking-wider font-bold">Session P&L</span>
+                        <span className="text-[10px] text-white/30 uppercase tracking-wider font-bold">Total P&L</span>
+                    </div>
+                    <div className={`text-2xl font-bold ${pnlColor}`}>{usd(pnl)}</div>
+                    <div className="flex gap-3 mt-2 text-[10px] text-white/30 font-mono">
+                        <span>realized {usd(pnlReport?.realizedUsd || 0)}</span>
+                        <span>open {usd(pnlReport?.unrealizedUsd || 0)}</span>
                     </div>
-                    <div className={`text-2xl font-bold ${pnlColor}`}>{pnl >= 0 ? '+' : ''}{pnl.toFixed(4)}</div>
-                    <div className="text-[10px] text-white/30 font-mono mt-2">{status?.recentTrades?.filter(t => t.type === 'trade').length || 0} trades</div>
                 </div>
             </div>
 
@@ -149,6 +161,79 @@ const TradingDashboard: React.FC<TradingDashboardProps> = ({ onNavigate }) => {
                 ))}
             </div>
 
+            {/* P&L Breakdown */}
+            <div className="bg-white/[0.03] border border-white/[0.06] rounded-2xl p-5 mb-6">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-sm font-bold text-white/70 uppercase tracking-wider">P&L Breakdown</h2>
+                    <div className="flex gap-1">
+                        {(['tokens', 'markets', 'strategies'] as PnlTab[]).map(tab => (
+                            <button key={tab} onClick={() => setPnlTab(tab)}
+                                className={`px-2.5 py-1 rounded-lg text-[9px] font-bold uppercase tracking-wider transition-all ${pnlTab === tab ? 'bg-white/10 text-white' : 'text-white/30 hover:text-white/60'}`}>
+                                {tab}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Daily portfolio value */}
+                {snapshots.length > 1 && (
+                    <div className="mb-4">
+                        <div className="flex items-end gap-0.5 h-16">
+                            {snapshots.map(s => (
+                                <div key={s.date} title={`${s.date} · $${s.totalUsd.toFixed(2)}`}
+                                    className="flex-1 rounded-t bg-emerald-500/30 hover:bg-emerald-500/60 transition-colors"
+                                    style={{ height: `${Math.max(4, (s.totalUsd / snapshotMax) * 100)}%` }} />
+                            ))}
+                        </div>
+                        <div className="flex justify-between text-[9px] text-white/20 font-mono mt-1">
+                            <span>{snapshots[0].date}</span>
+                            <span>Daily portfolio value</span>
+                            <span>{snapshots[snapshots.length - 1].date}</span>
+                        </div>
+                    </div>
+                )}
+
+                {!pnlReport || pnlReport.entryCount === 0 ? (
+                    <p className="text-center py-6 text-xs text-white/20">No ledger entries yet — fills are recorded as the bot trades</p>
+                ) : (
+                    <div className="space-y-1">
+                        {pnlTab === 'tokens' && pnlReport.tokens.map(t => (
+                            <div key={t.mint} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-white/[0.02] text-xs">
+                                <span className="w-14 font-bold text-white/70">{t.symbol}</span>
+                                <span className="flex-1 text-white/30 font-mono text-[10px]">
+                                    {t.qty.toFixed(4)} @ ${t.avgCost.toFixed(4)}{t.unknownBasisQty > 0 && ` · ${t.unknownBasisQty.toFixed(2)} w/o basis`}
+                                </span>
+                                <span className={`w-20 text-right font-mono ${pnlText(t.realizedUsd)}`}>{usd(t.realizedUsd)}</span>
+                                <span className={`w-20 text-right font-mono ${pnlText(t.unrealizedUsd)}`}>{usd(t.unrealizedUsd)}</span>
+                            </div>
+                        ))}
+                        {pnlTab === 'markets' && (pnlReport.markets.length === 0
+                            ? <p className="text-center py-4 text-xs text-white/20">No perps trades recorded</p>
+                            : pnlReport.markets.map(m => (
+                                <div key={m.market} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-white/[0.02] text-xs">
+                                    <span className="w-14 font-bold text-white/70">{m.market}-PERP</span>
+                                    <span className="flex-1 text-white/30 font-mono text-[10px]">{m.trades} opened · {m.openPositions} open now</span>
+                                    <span className={`w-20 text-right font-mono ${pnlText(m.realizedUsd)}`}>{usd(m.realizedUsd)}</span>
+                                    <span className={`w-20 text-right font-mono ${pnlText(m.unrealizedUsd)}`}>{usd(m.unrealizedUsd)}</span>
+                                </div>
+                            )))}
+                        {pnlTab === 'strategies' && pnlReport.strategies.map(st => (
+                            <div key={st.strategy} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-white/[0.02] text-xs">
+                                <span className="flex-1 font-bold text-white/70 truncate">{st.strategy}</span>
+                                <span className="text-white/30 font-mono text-[10px]">{st.trades} trades</span>
+                                <span className={`w-20 text-right font-mono ${pnlText(st.realizedUsd)}`}>{usd(st.realizedUsd)}</span>
+                                <span className={`w-20 text-right font-mono ${pnlText(st.unrealizedUsd)}`}>{usd(st.unrealizedUsd)}</span>
+                            </div>
+                        ))}
+                        <div className="flex justify-end gap-3 px-3 pt-2 text-[9px] text-white/20 font-mono uppercase tracking-wider">
+                            <span>fees {usd(-pnlReport.feesUsd)}</span>
+                            <span className="w-20 text-right">realized</span>
+                            <span className="w-20 text-right">unrealized</span>
+                        </div>
+                    </div>
+                )}
+            </div>
+
             {/* Recent Trades */}
             <div className="bg-white/[0.03] border border-white/[0.06] rounded-2xl p-5">
                 <div className="flex items-center justify-between mb-4">
@@ -8,9 +8,13 @@
  *   AVWAP (Anchored VWAP) — dual anchors
  *   Volume Profile (POC, VAH, VAL)
  *   Ladder / Stage detection
+ *   MACD, Bollinger / Keltner bands, Stochastic RSI
+ *   SuperTrend, OBV, ADX (+DI / -DI), Ichimoku
  * 
  * All functions take OHLCV arrays: [{ o, h, l, c, v, t }, ...]
  * Candles are sorted oldest → newest (index 0 = oldest).
+ * Returned value arrays are aligned to the newest candle — they may be
+ * shorter than the input by the indicator's lookback.
  */
 
 // ─────────────────────────────────────────────────────────────────
@@ -391,39 +395,371 @@ function detectDiamond(candles, ladder, rsi) {
 }
 
 
+// ─────────────────────────────────────────────────────────────────
+//  Series helpers (plain number arrays, aligned to the newest value)
+// ─────────────────────────────────────────────────────────────────
+
+/** EMA of a number series, seeded with the SMA of the first `period` values */
+function emaOf(values, period) {
+    if (values.length < period) return [];
+    const k = 2 / (period + 1);
+    let ema = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+    const out = [ema];
+    for (let i = period; i < values.length; i++) {
+        ema = values[i] * k + ema * (1 - k);
+        out.push(ema);
+    }
+    return out;
+}
+
+/** Simple moving average of a number series */
+function smaOf(values, period) {
+    if (values.length < period) return [];
+    const out = [];
+    let sum = values.slice(0, period).reduce((a, b) => a + b, 0);
+    out.push(sum / period);
+    for (let i = period; i < values.length; i++) {
+        sum += values[i] - values[i - period];
+        out.push(sum / period);
+    }
+    return out;
+}
+
+/** Value `back` bars before the newest, or null if the series is too short */
+function latest(values, back = 0) {
+    const v = values[values.length - 1 - back];
+    return v === undefined ? null : v;
+}
+
+
+// ─────────────────────────────────────────────────────────────────
+//  MACD — Moving Average Convergence Divergence
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Calculate MACD line, signal line and histogram
+ * @param {Array} candles - OHLCV candles (uses close)
+ * @param {number} fast - fast EMA period (default 12)
+ * @param {number} slow - slow EMA period (default 26)
+ * @param {number} signalPeriod - signal EMA period (default 9)
+ * @returns {{ macd: number[], signal: number[], histogram: number[] }}
+ */
+function calcMACD(candles, fast = 12, slow = 26, signalPeriod = 9) {
+    const closes = candles.map(c => c.c);
+    const fastEma = emaOf(closes, fast);
+    const slowEma = emaOf(closes, slow);
+    if (slowEma.length === 0) return { macd: [], signal: [], histogram: [] };
+
+    const lag = fastEma.length - slowEma.length;
+    const macd = slowEma.map((s, i) => fastEma[i + lag] - s);
+    const signal = emaOf(macd, signalPeriod);
+    const histogram = signal.map((s, i) => macd[i + signalPeriod - 1] - s);
+
+    return { macd, signal, histogram };
+}
+
+
+// ─────────────────────────────────────────────────────────────────
+//  Bollinger Bands / Keltner Channels
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Bollinger Bands: SMA ± stdDev × population standard deviation
+ * @param {Array} candles - OHLCV candles (uses close)
+ * @param {number} period - lookback (default 20)
+ * @param {number} stdDev - band multiplier (default 2)
+ * @returns {{ upper: number[], middle: number[], lower: number[], width: number[] }}
+ *   width = (upper - lower) / middle
+ */
+function calcBollinger(candles, period = 20, stdDev = 2) {
+    const closes = candles.map(c => c.c);
+    const middle = smaOf(closes, period);
+    const upper = [], lower = [], width = [];
+
+    middle.forEach((mean, i) => {
+        const slice = closes.slice(i, i + period);
+        const variance = slice.reduce((acc, c) => acc + (c - mean) ** 2, 0) / period;
+        const sd = Math.sqrt(variance);
+        upper.push(mean + stdDev * sd);
+        lower.push(mean - stdDev * sd);
+        width.push(mean > 0 ? (2 * stdDev * sd) / mean : 0);
+    });
+
+    return { upper, middle, lower, width };
+}
+
+/**
+ * Keltner Channels: EMA ± multiplier × ATR
+ * @param {Array} candles - OHLCV candles
+ * @param {number} period - EMA period (default 20)
+ * @param {number} atrPeriod - ATR period (default 10)
+ * @param {number} multiplier - ATR multiplier (default 2)
+ * @returns {{ upper: number[], middle: number[], lower: number[], width: number[] }}
+ */
+function calcKeltner(candles, period = 20, atrPeriod = 10, multiplier = 2) {
+    const ema = calcEMA(candles, period).values;
+    const atr = calcATR(candles, atrPeriod).values;
+    const len = Math.min(ema.length, atr.length);
+    const middle = ema.slice(ema.length - len);
+    const atrs = atr.slice(atr.length - len);
+
+    return {
+        upper: middle.map((m, i) => m + multiplier * atrs[i]),
+        middle,
+        lower: middle.map((m, i) => m - multiplier * atrs[i]),
+        width: middle.map((m, i) => m > 0 ? (2 * multiplier * atrs[i]) / m : 0),
+    };
+}
+
+
+// ─────────────────────────────────────────────────────────────────
+//  Stochastic RSI
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Stochastic RSI — where RSI sits in its own recent range, 0–100
+ * @param {Array} candles - OHLCV candles
+ * @param {number} rsiPeriod - RSI period (default 14)
+ * @param {number} stochPeriod - range lookback (default 14)
+ * @param {number} kSmooth - %K smoothing (default 3)
+ * @param {number} dSmooth - %D smoothing (default 3)
+ * @returns {{ k: number[], d: number[] }}
+ */
+function calcStochRSI(candles, rsiPeriod = 14, stochPeriod = 14, kSmooth = 3, dSmooth = 3) {
+    const rsi = calcRSI(candles, rsiPeriod).values;
+    const raw = [];
+    for (let i = stochPeriod - 1; i < rsi.length; i++) {
+        const slice = rsi.slice(i - stochPeriod + 1, i + 1);
+        const lo = Math.min(...slice);
+        const hi = Math.max(...slice);
+        raw.push(hi === lo ? 50 : ((rsi[i] - lo) / (hi - lo)) * 100);
+    }
+    const k = smaOf(raw, kSmooth);
+    return { k, d: smaOf(k, dSmooth) };
+}
+
+
+// ─────────────────────────────────────────────────────────────────
+//  SuperTrend
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * SuperTrend — ATR trailing line that flips sides when close breaks it
+ * @param {Array} candles - OHLCV candles
+ * @param {number} period - ATR period (default 10)
+ * @param {number} multiplier - ATR multiplier (default 3)
+ * @returns {{ values: number[], directions: Array<'up'|'down'> }}
+ */
+function calcSuperTrend(candles, period = 10, multiplier = 3) {
+    const atr = calcATR(candles, period).values;
+    const values = [], directions = [];
+    let finalUpper = 0, finalLower = 0, direction = 'up';
+
+    // atr[j] is the ATR as of candle j + period
+    for (let j = 0; j < atr.length; j++) {
+        const i = j + period;
+        const hl2 = (candles[i].h + candles[i].l) / 2;
+        const basicUpper = hl2 + multiplier * atr[j];
+        const basicLower = hl2 - multiplier * atr[j];
+        const prevClose = candles[i - 1].c;
+
+        finalUpper = j === 0 || basicUpper < finalUpper || prevClose > finalUpper ? basicUpper : finalUpper;
+        finalLower = j === 0 || basicLower > finalLower || prevClose < finalLower ? basicLower : finalLower;
+
+        if (j === 0) direction = candles[i].c >= hl2 ? 'up' : 'down';
+        else if (direction === 'up' && candles[i].c < finalLower) direction = 'down';
+        else if (direction === 'down' && candles[i].c > finalUpper) direction = 'up';
+
+        values.push(direction === 'up' ? finalLower : finalUpper);
+        directions.push(direction);
+    }
+
+    return { values, directions };
+}
+
+
+// ─────────────────────────────────────────────────────────────────
+//  OBV — On-Balance Volume
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * On-Balance Volume with an EMA signal line
+ * @param {Array} candles - OHLCV candles
+ * @param {number} emaPeriod - signal EMA period (default 20)
+ * @returns {{ values: number[], ema: number[] }}
+ */
+function calcOBV(candles, emaPeriod = 20) {
+    if (candles.length === 0) return { values: [], ema: [] };
+    const values = [0];
+    for (let i = 1; i < candles.length; i++) {
+        const v = candles[i].v || 0;
+        const delta = candles[i].c > candles[i - 1].c ? v : candles[i].c < candles[i - 1].c ? -v : 0;
+        values.push(values[i - 1] + delta);
+    }
+    return { values, ema: emaOf(values, emaPeriod) };
+}
+
+
+// ─────────────────────────────────────────────────────────────────
+//  ADX — Average Directional Index
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * ADX with +DI / -DI (Wilder's smoothing)
+ * @param {Array} candles - OHLCV candles
+ * @param {number} period - smoothing period (default 14)
+ * @returns {{ adx: number[], plusDI: number[], minusDI: number[] }}
+ */
+function calcADX(candles, period = 14) {
+    if (candles.length < period * 2 + 1) return { adx: [], plusDI: [], minusDI: [] };
+
+    const tr = [], plusDM = [], minusDM = [];
+    for (let i = 1; i < candles.length; i++) {
+        const up = candles[i].h - candles[i - 1].h;
+        const down = candles[i - 1].l - candles[i].l;
+        plusDM.push(up > down && up > 0 ? up : 0);
+        minusDM.push(down > up && down > 0 ? down : 0);
+        tr.push(Math.max(
+            candles[i].h - candles[i].l,
+            Math.abs(candles[i].h - candles[i - 1].c),
+            Math.abs(candles[i].l - candles[i - 1].c)
+        ));
+    }
+
+    const sum = (arr) => arr.slice(0, period).reduce((a, b) => a + b, 0);
+    let sTR = sum(tr), sPlus = sum(plusDM), sMinus = sum(minusDM);
+    const plusDI = [], minusDI = [], dx = [];
+    for (let i = period - 1; i < tr.length; i++) {
+        if (i >= period) {
+            sTR = sTR - sTR / period + tr[i];
+            sPlus = sPlus - sPlus / period + plusDM[i];
+            sMinus = sMinus - sMinus / period + minusDM[i];
+        }
+        const pdi = sTR > 0 ? (100 * sPlus) / sTR : 0;
+        const mdi = sTR > 0 ? (100 * sMinus) / sTR : 0;
+        plusDI.push(pdi);
+        minusDI.push(mdi);
+        dx.push(pdi + mdi > 0 ? (100 * Math.abs(pdi - mdi)) / (pdi + mdi) : 0);
+    }
+
+    let adx = dx.slice(0, period).reduce((a, b) => a + b, 0) / period;
+    const adxValues = [adx];
+    for (let i = period; i < dx.length; i++) {
+        adx = (adx * (period - 1) + dx[i]) / period;
+        adxValues.push(adx);
+    }
+
+    return { adx: adxValues, plusDI, minusDI };
+}
+
+
+// ─────────────────────────────────────────────────────────────────
+//  Ichimoku Cloud
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Ichimoku — Tenkan, Kijun and the cloud (Senkou A / B) as it stands at each bar.
+ * The spans are projected `displacement` bars forward, so the cloud at bar i
+ * is built from bar i - displacement (no future data).
+ * @param {Array} candles - OHLCV candles
+ * @returns {{ tenkan: number[], kijun: number[], spanA: number[], spanB: number[] }}
+ */
+function calcIchimoku(candles, tenkanPeriod = 9, kijunPeriod = 26, spanBPeriod = 52, displacement = 26) {
+    const midpoint = (end, period) => {
+        if (end + 1 < period) return null;
+        let hi = -Infinity, lo = Infinity;
+        for (let i = end - period + 1; i <= end; i++) {
+            if (candles[i].h > hi) hi = candles[i].h;
+            if (candles[i].l < lo) lo = candles[i].l;
+        }
+        return (hi + lo) / 2;
+    };
+
+    const tenkan = [], kijun = [], spanA = [], spanB = [];
+    for (let i = 0; i < candles.length; i++) {
+        const t = midpoint(i, tenkanPeriod);
+        const k = midpoint(i, kijunPeriod);
+        if (t !== null) tenkan.push(t);
+        if (k !== null) kijun.push(k);
+
+        const src = i - displacement;
+        if (src < 0) continue;
+        const srcT = midpoint(src, tenkanPeriod);
+        const srcK = midpoint(src, kijunPeriod);
+        const srcB = midpoint(src, spanBPeriod);
+        if (srcT !== null && srcK !== null) spanA.push((srcT + srcK) / 2);
+        if (srcB !== null) spanB.push(srcB);
+    }
+
+    return { tenkan, kijun, spanA, spanB };
+}
+
+
 // ─────────────────────────────────────────────────────────────────
 //  Master: Compute All Indicators
 // ─────────────────────────────────────────────────────────────────
 
 /**
- * Compute all indicators from OHLCV candles
- * @param {Array} candles - OHLCV candles sorted oldest → newest
- * @param {Object} config - optional config overrides
- * @returns {Object} all indicator values
+ * Full-history series for every causal indicator. Each one only looks back, so
+ * the series of a shorter prefix is this one with the newest values dropped.
  */
-function computeAll(candles, config = {}) {
-    const atrPeriod = config.atrPeriod || 14;
-    const rsiPeriod = config.rsiPeriod || 14;
+function computeSeries(candles, config) {
     const emaPeriods = config.emaPeriods || [20, 50, 200];
-    const vpBins = config.vpBins || 50;
-    const vpLookback = config.vpLookback || candles.length; // use all candles for profile
-    const avwapMajorLookback = config.avwapMajorLookback || 400;
-    const avwapCurrentLookback = config.avwapCurrentLookback || 63;
-
-    const atr = calcATR(candles, atrPeriod);
-    const rsi = calcRSI(candles, rsiPeriod);
     const emas = {};
     for (const p of emaPeriods) {
-        emas[`ema${p}`] = calcEMA(candles, p);
+        emas[`ema${p}`] = calcEMA(candles, p).values;
     }
-    const avwap = dualAVWAP(candles, avwapMajorLookback, avwapCurrentLookback);
-    const vpCandles = candles.slice(-Math.min(vpLookback, candles.length));
-    const vp = calcVolumeProfile(vpCandles, vpBins);
-    const ladder = detectLadderStage(candles);
-    const diamond = detectDiamond(candles, ladder, rsi);
+    return {
+        atr: calcATR(candles, config.atrPeriod || 14).values,
+        rsi: calcRSI(candles, config.rsiPeriod || 14).values,
+        emas,
+        macd: calcMACD(candles, config.macdFast || 12, config.macdSlow || 26, config.macdSignal || 9),
+        bollinger: calcBollinger(candles, config.bbPeriod || 20, config.bbStdDev || 2),
+        keltner: calcKeltner(candles, config.keltnerPeriod || 20, config.keltnerAtrPeriod || 10, config.keltnerMultiplier || 2),
+        stochRsi: calcStochRSI(candles, config.rsiPeriod || 14, config.stochPeriod || 14, config.stochK || 3, config.stochD || 3),
+        supertrend: calcSuperTrend(candles, config.supertrendPeriod || 10, config.supertrendMultiplier || 3),
+        obv: calcOBV(candles, config.obvEmaPeriod || 20),
+        adx: calcADX(candles, config.adxPeriod || 14),
+        ichimoku: calcIchimoku(candles),
+    };
+}
 
-    const lastCandle = candles[candles.length - 1] || {};
+/**
+ * computeAll's result as of candle `end`, reading the causal indicators from
+ * precomputed full-history series and the windowed ones (AVWAP, volume profile,
+ * ladder, diamond) from the candles up to `end`
+ */
+function snapshotAt(candles, series, end, config) {
+    const count = end + 1;
+    const drop = candles.length - count; // newer values the prefix wouldn't have
+    const at = (values, back = 0) => latest(values, back + drop);
+    const upTo = (lookback) => candles.slice(Math.max(0, count - lookback), count);
+
+    const atrPeriod = config.atrPeriod || 14;
+    const atrCurrent = at(series.atr) || 0;
+    const atr = { current: atrCurrent, abnormal: false, lastTR: undefined };
+    if (count >= atrPeriod + 1) {
+        // Abnormal = current TR > 2x ATR
+        const bar = candles[end], prev = candles[end - 1];
+        atr.lastTR = Math.max(bar.h - bar.l, Math.abs(bar.h - prev.c), Math.abs(bar.l - prev.c));
+        atr.abnormal = atr.lastTR > atrCurrent * 2;
+    }
+    const rsiCurrent = at(series.rsi) || 50;
+    const rsi = { current: rsiCurrent, zone: rsiCurrent >= 70 ? 'overbought' : rsiCurrent <= 30 ? 'oversold' : 'neutral' };
+
+    const avwapMajorLookback = config.avwapMajorLookback || 400;
+    const avwapCurrentLookback = config.avwapCurrentLookback || 63;
+    const avwap = dualAVWAP(upTo(Math.max(avwapMajorLookback, avwapCurrentLookback)), avwapMajorLookback, avwapCurrentLookback);
+    const vp = calcVolumeProfile(upTo(config.vpLookback || count), config.vpBins || 50); // use all candles for profile
+    const recent = upTo(20);
+    const ladder = detectLadderStage(recent);
+    const diamond = detectDiamond(recent, ladder, rsi);
+
+    const { macd, bollinger, keltner, stochRsi, supertrend, obv, adx, ichimoku } = series;
+
+    const lastCandle = candles[end] || {};
     const price = lastCandle.c || 0;
+    const prevPrice = count > 1 ? candles[end - 1].c : null;
 
     // Price relative to key levels
     const priceVsVAL = vp.val > 0 ? (price - vp.val) / vp.val : 0;
@@ -433,12 +769,22 @@ function computeAll(candles, config = {}) {
     // ATR zones around current AVWAP
     const avwapZones = atr.current > 0 ? atrZones(avwap.current.current, atr.current) : null;
 
-    return {
+    // Price vs the Ichimoku cloud
+    const cloudTop = Math.max(at(ichimoku.spanA) ?? -Infinity, at(ichimoku.spanB) ?? -Infinity);
+    const cloudBottom = Math.min(at(ichimoku.spanA) ?? Infinity, at(ichimoku.spanB) ?? Infinity);
+    const cloud = !isFinite(cloudTop) ? null : price > cloudTop ? 'above' : price < cloudBottom ? 'below' : 'inside';
+
+    const bands = (b, back) => ({ upper: at(b.upper, back), middle: at(b.middle, back), lower: at(b.lower, back) });
+    // calcADX reports nothing (not even ±DI) until it has 2 × period + 1 candles
+    const adxAt = (values, back) => count >= (config.adxPeriod || 14) * 2 + 1 ? at(values, back) : null;
+
+    const result = {
         price,
+        prevPrice,
         timestamp: lastCandle.t || null,
-        atr: { current: atr.current, abnormal: atr.abnormal, lastTR: atr.lastTR },
-        rsi: { current: rsi.current, zone: rsi.zone },
-        emas: Object.fromEntries(Object.entries(emas).map(([k, v]) => [k, v.current])),
+        atr,
+        rsi,
+        emas: Object.fromEntries(Object.entries(series.emas).map(([k, v]) => [k, at(v) || 0])),
         avwap: {
             major: { current: avwap.major.current, anchorPrice: avwap.major.anchorPrice },
             current: { current: avwap.current.current, anchorPrice: avwap.current.anchorPrice },
@@ -448,10 +794,75 @@ function computeAll(candles, config = {}) {
         ladder: { stage: ladder.stage, landmarkCount: ladder.landmarks.length },
         diamond: { hasDiamond: diamond.hasDiamond, color: diamond.color, price: diamond.price },
         priceRelative: { vsVAL: priceVsVAL, vsPOC: priceVsPOC, vsVAH: priceVsVAH },
+        macd: {
+            macd: at(macd.macd), signal: at(macd.signal), histogram: at(macd.histogram),
+            prev: { macd: at(macd.macd, 1), signal: at(macd.signal, 1), histogram: at(macd.histogram, 1) },
+        },
+        bollinger: { ...bands(bollinger, 0), width: at(bollinger.width), prev: bands(bollinger, 1) },
+        keltner: { ...bands(keltner, 0), width: at(keltner.width), prev: bands(keltner, 1) },
+        stochRsi: { k: at(stochRsi.k), d: at(stochRsi.d), prev: { k: at(stochRsi.k, 1), d: at(stochRsi.d, 1) } },
+        supertrend: {
+            value: at(supertrend.values), direction: at(supertrend.directions),
+            prev: { value: at(supertrend.values, 1), direction: at(supertrend.directions, 1) },
+        },
+        obv: { current: at(obv.values), ema: at(obv.ema), prev: { current: at(obv.values, 1), ema: at(obv.ema, 1) } },
+        adx: {
+            adx: adxAt(adx.adx), plusDI: adxAt(adx.plusDI), minusDI: adxAt(adx.minusDI),
+            prev: { plusDI: adxAt(adx.plusDI, 1), minusDI: adxAt(adx.minusDI, 1) },
+        },
+        ichimoku: {
+            tenkan: at(ichimoku.tenkan), kijun: at(ichimoku.kijun),
+            spanA: at(ichimoku.spanA), spanB: at(ichimoku.spanB), cloud,
+            prev: { tenkan: at(ichimoku.tenkan, 1), kijun: at(ichimoku.kijun, 1) },
+        },
     };
+
+    // Kept off the wire (non-enumerable) — expression rules rebuild series history from it.
+    // Sliced on first read: a replay only pays for it on bars an expression rule looks at.
+    let history = drop === 0 ? candles : null;
+    Object.defineProperty(result, 'candles', { get: () => history || (history = candles.slice(0, count)), enumerable: false });
+
+    return result;
+}
+
+/**
+ * Compute all indicators from OHLCV candles
+ * @param {Array} candles - OHLCV candles sorted oldest → newest
+ * @param {Object} config - optional config overrides; `series: true` also returns
+ *   the full band / oscillator arrays for charting
+ * @returns {Object} all indicator values — crossover-capable indicators carry a
+ *   `prev` block with the previous bar's values
+ */
+function computeAll(candles, config = {}) {
+    const series = computeSeries(candles, config);
+    const result = snapshotAt(candles, series, candles.length - 1, config);
+
+    if (config.series) {
+        const { macd, stochRsi, supertrend, obv, adx, ichimoku, bollinger, keltner } = series;
+        result.series = {
+            macd, stochRsi, supertrend, obv, adx, ichimoku,
+            bollinger: { upper: bollinger.upper, middle: bollinger.middle, lower: bollinger.lower },
+            keltner: { upper: keltner.upper, middle: keltner.middle, lower: keltner.lower },
+        };
+    }
+
+    return result;
+}
+
+/**
+ * Indicators for every bar of a history, computed once — for bar-by-bar replays
+ * @param {Array} candles - OHLCV candles sorted oldest → newest
+ * @param {Object} config - same overrides as computeAll
+ * @returns {(index: number) => Object} bar index → what computeAll would return
+ *   for the candles up to and including it
+ */
+function computeReplay(candles, config = {}) {
+    const series = computeSeries(candles, config);
+    return (index) => snapshotAt(candles, series, index, config);
 }
 
 module.exports = {
+    emaOf, smaOf,
     calcATR, atrZones,
     calcRSI,
     calcEMA,
@@ -459,5 +870,13 @@ module.exports = {
     calcVolumeProfile,
     detectLadderStage,
     detectDiamond,
+    calcMACD,
+    calcBollinger, calcKeltner,
+    calcStochRSI,
+    calcSuperTrend,
+    calcOBV,
+    calcADX,
+    calcIchimoku,
     computeAll,
+    computeReplay,
 };
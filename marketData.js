@@ -0,0 +1,516 @@
+/**
+ * marketData.js — Pluggable Market Data Providers
+ *
+ * Everything SolanaTrader reads about the market goes through one interface:
+ *   - getPrices(mints)                          → { mint: usdPrice } (missing = unknown)
+ *   - findPoolAddress(mint, pair)               → opaque candle-series key, or null
+ *   - fetchOHLCV(poolKey, timeframe, limit)     → [{ t, o, h, l, c, v }] oldest → newest, t in unix seconds
+ *
+ * Providers:
+ *   - live       GeckoTerminal candles + Jupiter prices (the default)
+ *   - replay     recorded candles from CSV/JSON files, optionally played forward at a set speed
+ *   - synthetic  seeded random walk — deterministic, no files, no network
+ *
+ * Only the live provider touches the network; the other two let strategy
+ * evaluation, backtests, paper trading and the charts run on local data.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const JUPITER_PRICE_API = 'https://api.jup.ag/price/v2';
+const GECKO_API = 'https://api.geckoterminal.com/api/v2';
+
+const MARKET_DATA_SOURCES = ['live', 'replay', 'synthetic'];
+const TIMEFRAME_SECONDS = { minute: 60, hour: 3600, day: 86400 };
+const STABLECOINS = ['USDC', 'USDT'];
+
+class MarketDataProvider {
+    /**
+     * @param {{ tokenMints?: Object<string, string> }} opts - symbol → mint, used to name files and seed walks
+     */
+    constructor(opts = {}) {
+        this.tokenMints = opts.tokenMints || {};
+    }
+
+    get source() {
+        throw new Error(`${this.constructor.name} must define source`);
+    }
+
+    /** True only for providers that reflect the real market — live trading requires one */
+    get isLive() {
+        return false;
+    }
+
+    /** Settings shown to the UI (and persisted in trader_settings.json) */
+    describe() {
+        return { source: this.source };
+    }
+
+    symbolFor(mint) {
+        return Object.keys(this.tokenMints).find(sym => this.tokenMints[sym] === mint) || mint;
+    }
+
+    async getPrice(mint) {
+        return (await this.getPrices([mint]))[mint] ?? null;
+    }
+
+    async getPrices(mints) {
+        throw new Error(`${this.constructor.name} must implement getPrices`);
+    }
+
+    async findPoolAddress(mint, pair) {
+        throw new Error(`${this.constructor.name} must implement findPoolAddress`);
+    }
+
+    async fetchOHLCV(poolKey, timeframe, limit) {
+        throw new Error(`${this.constructor.name} must implement fetchOHLCV`);
+    }
+}
+
+// ─────────────────────────────────────────────────────────
+//  Live: GeckoTerminal (candles) + Jupiter Price API
+// ─────────────────────────────────────────────────────────
+
+class LiveMarketData extends MarketDataProvider {
+    /**
+     * @param {{ tokenMints?: Object, knownPools?: Object<string, string> }} opts
+     */
+    constructor(opts = {}) {
+        super(opts);
+        this.knownPools = opts.knownPools || {};
+        this.ohlcvCache = {};       // { 'poolAddress_day': { candles, fetchedAt } }
+        this.poolCache = {};        // { tokenMint: poolAddress }
+    }
+
+    get source() {
+        return 'live';
+    }
+
+    get isLive() {
+        return true;
+    }
+
+    async getPrices(mints) {
+        const prices = {};
+        if (mints.length === 0) return prices;
+        try {
+            const res = await fetch(`${JUPITER_PRICE_API}?ids=${mints.join(',')}`);
+            const json = await res.json();
+            for (const mint of mints) {
+                const price = json.data?.[mint]?.price;
+                if (price) prices[mint] = parseFloat(price);
+            }
+        } catch (e) {
+            console.error('[MarketData] Price fetch error:', e.message);
+        }
+        return prices;
+    }
+
+    /**
+     * Find the top liquidity pool address for a token mint on Solana
+     * @param {string} tokenMint - Solana token mint address
+     * @param {string} [pair] - e.g. 'SOL/USDC', checked against the known pools first
+     * @returns {Promise<string|null>} pool address
+     */
+    async findPoolAddress(tokenMint, pair) {
+        if (pair && this.knownPools[pair]) return this.knownPools[pair];
+        if (this.poolCache[tokenMint]) return this.poolCache[tokenMint];
+
+        try {
+            const url = `${GECKO_API}/networks/solana/tokens/${tokenMint}/pools?page=1`;
+            const resp = await fetch(url);
+            if (!resp.ok) throw new Error(`GeckoTerminal pool search failed: ${resp.status}`);
+            const json = await resp.json();
+
+            if (json.data && json.data.length > 0) {
+                // Pick the pool with the highest reserve (most liquid)
+                const pool = json.data[0];
+                const addr = pool.attributes.address;
+                this.poolCache[tokenMint] = addr;
+                console.log(`[MarketData] Found pool for ${tokenMint}: ${addr} (${pool.attributes.name})`);
+                return addr;
+            }
+            return null;
+        } catch (e) {
+            console.error(`[MarketData] Pool discovery error:`, e.message);
+            return null;
+        }
+    }
+
+    /**
+     * Fetch OHLCV candle data from GeckoTerminal
+     * @param {string} poolAddress - Solana pool address
+     * @param {string} timeframe - 'day', 'hour', 'minute'
+     * @param {number} limit - number of candles (max 1000)
+     * @returns {Promise<Array>} candles as [{ t, o, h, l, c, v }, ...]
+     */
+    async fetchOHLCV(poolAddress, timeframe = 'day', limit = 200) {
+        const cacheKey = `${poolAddress}_${timeframe}`;
+        const cached = this.ohlcvCache[cacheKey];
+        const now = Date.now();
+        // Cache: 5 min for day, 1 min for hour/minute
+        const ttl = timeframe === 'day' ? 300000 : 60000;
+        if (cached && (now - cached.fetchedAt) < ttl) {
+            return cached.candles;
+        }
+
+        try {
+            const url = `${GECKO_API}/networks/solana/pools/${poolAddress}/ohlcv/${timeframe}?limit=${limit}`;
+            const resp = await fetch(url);
+            if (!resp.ok) throw new Error(`OHLCV fetch failed: ${resp.status}`);
+            const json = await resp.json();
+
+            const raw = json.data?.attributes?.ohlcv_list || [];
+            // API returns newest first, we want oldest first
+            const candles = raw.reverse().map(([t, o, h, l, c, v]) => ({ t, o, h, l, c, v }));
+
+            this.ohlcvCache[cacheKey] = { candles, fetchedAt: now };
+            console.log(`[MarketData] Fetched ${candles.length} ${timeframe} candles for pool ${poolAddress.slice(0, 8)}...`);
+            return candles;
+        } catch (e) {
+            console.error(`[MarketData] OHLCV fetch error:`, e.message);
+            return cached ? cached.candles : [];
+        }
+    }
+}
+
+// ─────────────────────────────────────────────────────────
+//  Replay: recorded candles from disk
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Files live in one directory, named `<SYMBOL or mint>_<timeframe>.json|csv`, e.g. SOL_hour.csv.
+ *   JSON  [{ t, o, h, l, c, v }], [[t, o, h, l, c, v]], or a saved GeckoTerminal ohlcv response
+ *   CSV   t,o,h,l,c,v rows — a header row (t/timestamp, open, high, ...) is optional
+ * Timestamps may be seconds or milliseconds.
+ *
+ * The replay clock starts at `startAt` (unix seconds) and advances `speed` replayed
+ * seconds per wall-clock second. Without `startAt` the whole recording is visible.
+ * Only bars that have closed by the replay clock are served, so nothing leaks ahead.
+ */
+class ReplayMarketData extends MarketDataProvider {
+    /**
+     * @param {{ dir: string, tokenMints?: Object, startAt?: number|null, speed?: number }} opts
+     */
+    constructor(opts = {}) {
+        super(opts);
+        this.dir = opts.dir;
+        this.startAt = opts.startAt ? Number(opts.startAt) : null;
+        this.speed = Math.max(0, Number(opts.speed) || 0);
+        this.startedAt = Date.now();
+        this.series = {};           // { 'SOL_day': candles }
+    }
+
+    get source() {
+        return 'replay';
+    }
+
+    describe() {
+        return {
+            source: this.source,
+            dir: path.basename(this.dir),
+            startAt: this.startAt,
+            speed: this.speed,
+            clock: this.startAt === null ? null : Math.floor(this._clock()),
+            files: this.listFiles(),
+        };
+    }
+
+    listFiles() {
+        try {
+            return fs.readdirSync(this.dir).filter(f => /_(minute|hour|day)\.(json|csv)$/.test(f)).sort();
+        } catch (e) {
+            return [];
+        }
+    }
+
+    _clock() {
+        if (this.startAt === null) return Infinity;
+        return this.startAt + ((Date.now() - this.startedAt) / 1000) * this.speed;
+    }
+
+    _load(name, timeframe) {
+        const key = `${name}_${timeframe}`;
+        if (this.series[key]) return this.series[key];
+        for (const ext of ['json', 'csv']) {
+            const file = path.join(this.dir, `${key}.${ext}`);
+            if (!fs.existsSync(file)) continue;
+            try {
+                const text = fs.readFileSync(file, 'utf8');
+                const candles = (ext === 'json' ? parseJsonCandles(text) : parseCsvCandles(text))
+                    .filter(c => [c.t, c.o, c.h, c.l, c.c].every(Number.isFinite))
+                    .sort((a, b) => a.t - b.t);
+                console.log(`[MarketData] Loaded ${candles.length} ${timeframe} candles from ${key}.${ext}`);
+                return (this.series[key] = candles);
+            } catch (e) {
+                console.error(`[MarketData] Failed to read ${key}.${ext}:`, e.message);
+            }
+        }
+        return null;
+    }
+
+    /** Recorded candles for a mint, trying its symbol then the raw mint as the file name */
+    _candlesFor(mint, timeframe) {
+        return this._load(this.symbolFor(mint), timeframe) || this._load(mint, timeframe);
+    }
+
+    _visible(candles, timeframe) {
+        const clock = this._clock();
+        const bar = TIMEFRAME_SECONDS[timeframe] || 0;
+        return clock === Infinity ? candles : candles.filter(c => c.t + bar <= clock);
+    }
+
+    async getPrices(mints) {
+        const prices = {};
+        for (const mint of mints) {
+            // Finest recording wins — it moves closest to the replay clock
+            for (const tf of ['minute', 'hour', 'day']) {
+                const candles = this._candlesFor(mint, tf);
+                if (!candles) continue;
+                const visible = this._visible(candles, tf);
+                if (visible.length > 0) prices[mint] = visible[visible.length - 1].c;
+                break;
+            }
+            if (prices[mint] === undefined && STABLECOINS.includes(this.symbolFor(mint))) prices[mint] = 1;
+        }
+        return prices;
+    }
+
+    async findPoolAddress(mint) {
+        const hasFile = Object.keys(TIMEFRAME_SECONDS).some(tf => this._candlesFor(mint, tf));
+        return hasFile ? mint : null;
+    }
+
+    async fetchOHLCV(poolKey, timeframe = 'day', limit = 200) {
+        const candles = this._candlesFor(poolKey, timeframe);
+        if (!candles) return [];
+        return this._visible(candles, timeframe).slice(-limit);
+    }
+}
+
+function normalizeCandle(row) {
+    if (Array.isArray(row)) {
+        const [t, o, h, l, c, v] = row.map(Number);
+        return { t: t > 1e12 ? Math.floor(t / 1000) : t, o, h, l, c, v: v || 0 };
+    }
+    const t = Number(row.t ?? row.time ?? row.timestamp);
+    return {
+        t: t > 1e12 ? Math.floor(t / 1000) : t,
+        o: Number(row.o ?? row.open),
+        h: Number(row.h ?? row.high),
+        l: Number(row.l ?? row.low),
+        c: Number(row.c ?? row.close),
+        v: Number(row.v ?? row.volume ?? 0),
+    };
+}
+
+function parseJsonCandles(text) {
+    const json = JSON.parse(text);
+    const rows = Array.isArray(json) ? json : json.data?.attributes?.ohlcv_list || json.candles || [];
+    return rows.map(normalizeCandle);
+}
+
+function parseCsvCandles(text) {
+    const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+    if (lines.length === 0) return [];
+    const first = lines[0].split(',').map(s => s.trim().toLowerCase());
+    const hasHeader = first.some(cell => isNaN(Number(cell)));
+    if (!hasHeader) return lines.map(line => normalizeCandle(line.split(',')));
+    return lines.slice(1).map(line => {
+        const cells = line.split(',');
+        return normalizeCandle(Object.fromEntries(first.map((name, i) => [name, cells[i]])));
+    });
+}
+
+// ─────────────────────────────────────────────────────────
+//  Synthetic: seeded random walk
+// ─────────────────────────────────────────────────────────
+
+// Starting prices — the walk is anchored here at the start of the day the provider was created
+const DEFAULT_BASE_PRICES = {
+    SOL: 150, USDC: 1, USDT: 1, JUP: 0.8, BONK: 0.00002, WIF: 1.5,
+    JTO: 2.5, PYTH: 0.3, RAY: 2, ORCA: 3, ETH: 3000, wBTC: 60000,
+};
+const SYNTHETIC_CACHE_LIMIT = 5000;
+
+/**
+ * Log-price is a Brownian motion built top-down so every timeframe agrees:
+ * day boundaries are a plain random walk, hours are a Brownian bridge between
+ * their day's endpoints, minutes a bridge between their hour's endpoints.
+ * Every increment is hashed from (seed, mint, bar index), so any bar can be
+ * generated on demand and the same seed always reproduces the same market.
+ */
+class SyntheticMarketData extends MarketDataProvider {
+    /**
+     * @param {{ seed?: string|number, dailyVolPct?: number, basePrices?: Object<string, number>, tokenMints?: Object }} opts
+     */
+    constructor(opts = {}) {
+        super(opts);
+        this.seed = String(opts.seed ?? 'clawkeep');
+        this.dailyVolPct = opts.dailyVolPct > 0 ? Number(opts.dailyVolPct) : 4;
+        this.basePrices = { ...DEFAULT_BASE_PRICES, ...(opts.basePrices || {}) };
+        this.anchorDay = Math.floor(Date.now() / 86400000);
+        this.dayLogs = {};          // { mint: Map(dayIndex → log price at day start) }
+        this.bridges = new Map();   // 'mint:h:day' / 'mint:m:hour' → log prices at sub-bar boundaries
+    }
+
+    get source() {
+        return 'synthetic';
+    }
+
+    describe() {
+        return { source: this.source, seed: this.seed, dailyVolPct: this.dailyVolPct };
+    }
+
+    _basePrice(mint) {
+        return this.basePrices[mint] ?? this.basePrices[this.symbolFor(mint)] ?? 1;
+    }
+
+    _dailySigma(mint) {
+        return STABLECOINS.includes(this.symbolFor(mint)) ? 0 : this.dailyVolPct / 100;
+    }
+
+    _gaussian(key) {
+        const u1 = hashUnit(`${this.seed}:${key}:a`);
+        const u2 = hashUnit(`${this.seed}:${key}:b`);
+        return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    }
+
+    _dayLog(mint, day) {
+        const logs = this.dayLogs[mint] || (this.dayLogs[mint] = new Map([[this.anchorDay, Math.log(this._basePrice(mint))]]));
+        if (logs.has(day)) return logs.get(day);
+        const sigma = this._dailySigma(mint);
+        const step = day > this.anchorDay ? 1 : -1;
+        let d = this.anchorDay;
+        let value = logs.get(d);
+        while (d !== day) {
+            const next = d + step;
+            if (logs.has(next)) { value = logs.get(next); d = next; continue; }
+            // Increment k moves the price from day k to day k + 1
+            const inc = sigma * this._gaussian(`${mint}:d:${Math.min(d, next)}`);
+            value += step * inc;
+            d = next;
+            logs.set(d, value);
+        }
+        return value;
+    }
+
+    /** Log prices at n + 1 evenly spaced points bridging `from` → `to` */
+    _bridge(key, from, to, n, sigma) {
+        if (this.bridges.has(key)) return this.bridges.get(key);
+        if (this.bridges.size > SYNTHETIC_CACHE_LIMIT) this.bridges.clear();
+        const walk = [0];
+        for (let i = 0; i < n; i++) walk.push(walk[i] + sigma * this._gaussian(`${key}:${i}`));
+        const drift = walk[n];
+        const points = walk.map((w, i) => from + w - (i / n) * drift + (i / n) * (to - from));
+        this.bridges.set(key, points);
+        return points;
+    }
+
+    _hourLogs(mint, day) {
+        const sigma = this._dailySigma(mint) / Math.sqrt(24);
+        return this._bridge(`${mint}:h:${day}`, this._dayLog(mint, day), this._dayLog(mint, day + 1), 24, sigma);
+    }
+
+    _minuteLogs(mint, hour) {
+        const day = Math.floor(hour / 24);
+        const hours = this._hourLogs(mint, day);
+        const i = hour - day * 24;
+        const sigma = this._dailySigma(mint) / Math.sqrt(24 * 60);
+        return this._bridge(`${mint}:m:${hour}`, hours[i], hours[i + 1], 60, sigma);
+    }
+
+    /** Log price at any unix second (linear within a minute) */
+    _logAt(mint, ts) {
+        const hour = Math.floor(ts / 3600);
+        const minutes = this._minuteLogs(mint, hour);
+        const offset = (ts - hour * 3600) / 60;
+        const i = Math.min(59, Math.floor(offset));
+        return minutes[i] + (offset - i) * (minutes[i + 1] - minutes[i]);
+    }
+
+    async getPrices(mints) {
+        const now = Date.now() / 1000;
+        const prices = {};
+        for (const mint of mints) prices[mint] = Math.exp(this._logAt(mint, now));
+        return prices;
+    }
+
+    async findPoolAddress(mint) {
+        return mint;
+    }
+
+    async fetchOHLCV(poolKey, timeframe = 'day', limit = 200) {
+        const bar = TIMEFRAME_SECONDS[timeframe];
+        if (!bar) return [];
+        const now = Math.floor(Date.now() / 1000);
+        const lastStart = Math.floor(now / bar) * bar;
+        // Highs/lows come from the next timeframe down: hours inside a day, minutes inside an hour
+        const sub = timeframe === 'day' ? 3600 : timeframe === 'hour' ? 60 : bar;
+        const candles = [];
+        for (let i = limit - 1; i >= 0; i--) {
+            const t = lastStart - i * bar;
+            const end = Math.min(t + bar, now);
+            const points = [];
+            for (let s = t; s < end; s += sub) points.push(Math.exp(this._logAt(poolKey, s)));
+            points.push(Math.exp(this._logAt(poolKey, end)));
+            const o = points[0];
+            const c = points[points.length - 1];
+            // Minute bars get a small hashed wick so they aren't bare line segments
+            const wick = sub === bar ? Math.abs(c - o) * hashUnit(`${this.seed}:${poolKey}:w:${t}`) : 0;
+            const ret = Math.abs(Math.log(c / o)) || 0;
+            candles.push({
+                t, o, c,
+                h: Math.max(...points) + wick,
+                l: Math.max(0, Math.min(...points) - wick),
+                v: Math.round(1000 * (bar / 60) * (0.5 + hashUnit(`${this.seed}:${poolKey}:v:${t}`)) * (1 + 50 * ret)),
+            });
+        }
+        return candles;
+    }
+}
+
+// FNV-1a + murmur finalizer → uniform in (0, 1)
+function hashUnit(str) {
+    let h = 2166136261;
+    for (let i = 0; i < str.length; i++) {
+        h ^= str.charCodeAt(i);
+        h = Math.imul(h, 16777619);
+    }
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+    return ((h >>> 0) + 0.5) / 4294967296;
+}
+
+/**
+ * Build a provider from saved settings
+ * @param {{ source?: string, dir?: string, startAt?: number, speed?: number, seed?: string, dailyVolPct?: number, basePrices?: Object }} config
+ * @param {{ tokenMints?: Object, knownPools?: Object }} deps
+ * @returns {MarketDataProvider}
+ */
+function createMarketDataProvider(config = {}, deps = {}) {
+    switch (config.source || 'live') {
+        case 'live':
+            return new LiveMarketData(deps);
+        case 'replay':
+            return new ReplayMarketData({ ...deps, dir: config.dir, startAt: config.startAt, speed: config.speed });
+        case 'synthetic':
+            return new SyntheticMarketData({ ...deps, seed: config.seed, dailyVolPct: config.dailyVolPct, basePrices: config.basePrices });
+        default:
+            throw new Error(`Unknown market data source: ${config.source}`);
+    }
+}
+
+module.exports = {
+    MarketDataProvider,
+    LiveMarketData,
+    ReplayMarketData,
+    SyntheticMarketData,
+    createMarketDataProvider,
+    MARKET_DATA_SOURCES,
+    JUPITER_PRICE_API,
+};
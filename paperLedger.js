@@ -0,0 +1,304 @@
+/**
+ * paperLedger.js — Simulated Wallet for Paper Trading
+ *
+ * Stands in for the on-chain side of SolanaTrader when paper mode is on:
+ *   - Spot swaps fill at the live Jupiter quote minus configurable slippage
+ *     (or at the provider's prices when the trader runs on replay/synthetic data)
+ *   - Perps open/close against the market data provider's prices with tracked collateral + PnL
+ *   - Balances persist per user in paper_wallet.json
+ *   - Every fill gets a fake "PAPER-…" signature so logs/UI flows stay identical
+ *
+ * No keypair or RPC connection is needed — only public price/quote APIs,
+ * and none at all on an offline market data source.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+// Decimals for tokens we report balances for (raw units are tracked for all mints)
+const KNOWN_DECIMALS = {
+    'So11111111111111111111111111111111111111112': 9,  // SOL
+    'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v': 6, // USDC
+    'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB': 6, // USDT
+};
+
+// Perps underlyings priced via the market data provider (same mints as jupiterPerps.js)
+const PERP_MINTS = {
+    'SOL': 'So11111111111111111111111111111111111111112',
+    'ETH': '7vfCXTUXx5WJV5JADk17DUJ4ksgau7utNKj4b963voxs',
+    'wBTC': '3NZ9JMVBmGAqocybic2c7LQCJScmgsAZ6vQqTDzcqmJh',
+};
+
+const DEFAULT_STATE = {
+    startingSol: 10,
+    startingUsdc: 1000,
+    slippageBps: 50,
+};
+
+class PaperLedger {
+    /**
+     * @param {string} dataDir - per-user trader data directory
+     * @param {Object} deps - { tokenMints, tokenDecimals, jupiterApi, marketData }
+     */
+    constructor(dataDir, deps) {
+        this.statePath = path.join(dataDir, 'paper_wallet.json');
+        this.tokenMints = deps.tokenMints;
+        this.tokenDecimals = deps.tokenDecimals || KNOWN_DECIMALS;
+        this.jupiterApi = deps.jupiterApi;
+        this.marketData = deps.marketData; // swapped by SolanaTrader when the data source changes
+        this.state = null;
+        this._load();
+    }
+
+    _load() {
+        try {
+            if (fs.existsSync(this.statePath)) {
+                this.state = JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+                return;
+            }
+        } catch (e) {
+            console.error('[PaperLedger] Failed to load paper wallet:', e.message);
+        }
+        this.reset();
+    }
+
+    _save() {
+        try {
+            fs.writeFileSync(this.statePath, JSON.stringify(this.state, null, 2));
+        } catch (e) {
+            console.error('[PaperLedger] Failed to save paper wallet:', e.message);
+        }
+    }
+
+    _fakeSignature() {
+        return `PAPER-${crypto.randomBytes(24).toString('hex')}`;
+    }
+
+    /**
+     * Reset balances to a fresh simulated wallet
+     * @param {{ sol?: number, usdc?: number, slippageBps?: number }} opts
+     */
+    reset(opts = {}) {
+        const sol = opts.sol ?? this.state?.startingSol ?? DEFAULT_STATE.startingSol;
+        const usdc = opts.usdc ?? this.state?.startingUsdc ?? DEFAULT_STATE.startingUsdc;
+        this.state = {
+            startingSol: sol,
+            startingUsdc: usdc,
+            slippageBps: opts.slippageBps ?? this.state?.slippageBps ?? DEFAULT_STATE.slippageBps,
+            balances: {
+                [this.tokenMints.SOL]: Math.round(sol * 1e9),
+                [this.tokenMints.USDC]: Math.round(usdc * 1e6),
+            },
+            perps: [],
+            createdAt: new Date().toISOString(),
+        };
+        this._save();
+        return this.getSummary();
+    }
+
+    setSlippage(bps) {
+        this.state.slippageBps = Math.max(0, Math.min(5000, parseInt(bps) || 0));
+        this._save();
+    }
+
+    async getPrice(symbol) {
+        const mint = PERP_MINTS[symbol] || this.tokenMints[symbol];
+        if (!mint) return null;
+        if (symbol === 'USDC' || symbol === 'USDT') return 1;
+        return this.marketData.getPrice(mint);
+    }
+
+    // --- Balances ---
+
+    getRawBalance(mint) {
+        return this.state.balances[mint] || 0;
+    }
+
+    getBalance(symbol) {
+        const mint = this.tokenMints[symbol] || symbol;
+        const decimals = KNOWN_DECIMALS[mint];
+        if (decimals === undefined) return this.getRawBalance(mint);
+        return this.getRawBalance(mint) / 10 ** decimals;
+    }
+
+    _adjust(mint, deltaRaw) {
+        this.state.balances[mint] = Math.max(0, (this.state.balances[mint] || 0) + deltaRaw);
+    }
+
+    // --- Spot ---
+
+    /**
+     * Simulate a Jupiter swap at the live quote
+     * @returns {Promise<Object>} same shape as SolanaTrader.swap + { paper: true }
+     */
+    async swap(inputMint, outputMint, amountRaw, slippageBps) {
+        amountRaw = Math.floor(Number(amountRaw));
+        if (!(amountRaw > 0)) return { error: 'Paper swap amount must be positive' };
+        const available = this.getRawBalance(inputMint);
+        if (amountRaw > available) {
+            return { error: `Insufficient paper balance: have ${available}, need ${amountRaw} (raw units)` };
+        }
+
+        let quote;
+        try {
+            if (this.marketData.isLive) {
+                const res = await fetch(`${this.jupiterApi}/quote?inputMint=${inputMint}&outputMint=${outputMint}&amount=${amountRaw}&slippageBps=${slippageBps || 50}`);
+                quote = await res.json();
+            } else {
+                quote = await this._offlineQuote(inputMint, outputMint, amountRaw);
+            }
+        } catch (e) {
+            return { error: `Paper swap failed: no quote (${e.message})` };
+        }
+        if (!quote || quote.error || !quote.outAmount) {
+            return { error: `Paper swap failed: ${quote?.error || 'no quote returned'}` };
+        }
+
+        const slip = this.state.slippageBps / 10000;
+        const outAmount = Math.floor(Number(quote.outAmount) * (1 - slip));
+
+        this._adjust(inputMint, -amountRaw);
+        this._adjust(outputMint, outAmount);
+        this._save();
+
+        return {
+            signature: this._fakeSignature(),
+            inAmount: String(amountRaw),
+            outAmount: String(outAmount),
+            quotedOutAmount: quote.outAmount,
+            inSymbol: inputMint,
+            outSymbol: outputMint,
+            paper: true,
+        };
+    }
+
+    /**
+     * Price-ratio quote for replay/synthetic data — there is no order book to ask
+     * @returns {Promise<{ outAmount?: string, error?: string }>} Jupiter quote shape
+     */
+    async _offlineQuote(inputMint, outputMint, amountRaw) {
+        const inDecimals = this.tokenDecimals[inputMint];
+        const outDecimals = this.tokenDecimals[outputMint];
+        if (inDecimals === undefined || outDecimals === undefined) return { error: 'unknown token decimals' };
+        const prices = await this.marketData.getPrices([inputMint, outputMint]);
+        if (!prices[inputMint] || !prices[outputMint]) return { error: 'no price from market data source' };
+        const outWhole = (amountRaw / 10 ** inDecimals) * prices[inputMint] / prices[outputMint];
+        return { outAmount: String(Math.floor(outWhole * 10 ** outDecimals)) };
+    }
+
+    // --- Perps (same interface as JupiterPerps) ---
+
+    async getMarkets() {
+        const markets = [];
+        for (const symbol of Object.keys(PERP_MINTS)) {
+            markets.push({ symbol: `${symbol}-PERP`, underlying: symbol, price: (await this.getPrice(symbol)) || 0, maxLeverage: 100 });
+        }
+        return { markets, pool: null, error: null };
+    }
+
+    async openPosition(market, side, collateralUsd, leverage, collateralToken = 'SOL') {
+        if (!PERP_MINTS[market]) return { error: `Unknown market: ${market}` };
+        if (leverage < 1.1 || leverage > 100) return { error: 'Leverage must be 1.1x to 100x' };
+        const price = await this.getPrice(market);
+        if (!price) return { error: `No price for ${market}` };
+
+        const collateralMint = this.tokenMints[collateralToken];
+        const collateralPrice = await this.getPrice(collateralToken);
+        if (!collateralMint || !collateralPrice) return { error: `Unsupported paper collateral: ${collateralToken}` };
+
+        const decimals = KNOWN_DECIMALS[collateralMint] ?? 6;
+        const collateralRaw = Math.round((collateralUsd / collateralPrice) * 10 ** decimals);
+        if (collateralRaw > this.getRawBalance(collateralMint)) {
+            return { error: `Insufficient paper ${collateralToken} for $${collateralUsd} collateral` };
+        }
+
+        // Slippage moves the entry against us
+        const slip = this.state.slippageBps / 10000;
+        const entryPrice = side === 'long' ? price * (1 + slip) : price * (1 - slip);
+        const position = {
+            key: `paper_${crypto.randomBytes(6).toString('hex')}`,
+            market,
+            side,
+            collateralUsd,
+            collateralToken,
+            sizeUsd: collateralUsd * leverage,
+            leverage,
+            entryPrice,
+            openTime: new Date().toISOString(),
+        };
+
+        this._adjust(collateralMint, -collateralRaw);
+        this.state.perps.push(position);
+        this._save();
+
+        return { signature: this._fakeSignature(), position, paper: true, error: null };
+    }
+
+    async closePosition(positionKey) {
+        const position = this.state.perps.find(p => p.key === positionKey);
+        if (!position) return { error: 'Paper position not found' };
+
+        const price = await this.getPrice(position.market);
+        if (!price) return { error: `No price for ${position.market}` };
+
+        const slip = this.state.slippageBps / 10000;
+        const exitPrice = position.side === 'long' ? price * (1 - slip) : price * (1 + slip);
+        const pnlUsd = this._pnl(position, exitPrice);
+
+        // Return collateral + PnL (a liquidated position returns nothing)
+        const payoutUsd = Math.max(0, position.collateralUsd + pnlUsd);
+        const collateralMint = this.tokenMints[position.collateralToken];
+        const collateralPrice = await this.getPrice(position.collateralToken);
+        const decimals = KNOWN_DECIMALS[collateralMint] ?? 6;
+        if (collateralPrice) this._adjust(collateralMint, Math.round((payoutUsd / collateralPrice) * 10 ** decimals));
+
+        this.state.perps = this.state.perps.filter(p => p.key !== positionKey);
+        this._save();
+
+        return { signature: this._fakeSignature(), pnlUsd, exitPrice, paper: true, error: null };
+    }
+
+    _pnl(position, price) {
+        const move = (price - position.entryPrice) / position.entryPrice;
+        return position.sizeUsd * move * (position.side === 'long' ? 1 : -1);
+    }
+
+    /**
+     * Open paper positions, marked to market, in JupiterPerps._formatPositions shape
+     */
+    async getPositions() {
+        const positions = [];
+        for (const p of this.state.perps) {
+            const price = await this.getPrice(p.market);
+            positions.push({
+                key: p.key,
+                market: p.market,
+                side: p.side,
+                sizeUsd: p.sizeUsd,
+                collateralUsd: p.collateralUsd,
+                entryPrice: p.entryPrice,
+                markPrice: price || p.entryPrice,
+                leverage: Number(p.leverage).toFixed(1),
+                pnlUsd: price ? this._pnl(p, price) : 0,
+                openTime: p.openTime,
+                paper: true,
+            });
+        }
+        return { positions, error: null };
+    }
+
+    getSummary() {
+        return {
+            sol: this.getBalance('SOL'),
+            usdc: this.getBalance('USDC'),
+            startingSol: this.state.startingSol,
+            startingUsdc: this.state.startingUsdc,
+            slippageBps: this.state.slippageBps,
+            openPerps: this.state.perps.length,
+            createdAt: this.state.createdAt,
+        };
+    }
+}
+
+module.exports = PaperLedger;
@@ -0,0 +1,614 @@
+/**
+ * ruleExpressions.js — Strategy Condition Expressions
+ *
+ * A small, safe expression language for strategy entry rules:
+ *
+ *   ema20 > ema50 and rsi < 70
+ *   barsSince(crossesAbove(close, avwap_current)) < 3
+ *   (stage >= 2 and rsi < 30) or crossesAbove(macd, macd_signal)
+ *   close > close[1] * 1.02
+ *
+ * Grammar (lowest → highest precedence):
+ *   or       and ( ('or' | '||') and )*
+ *   and      not ( ('and' | '&&') not )*
+ *   not      ('not' | '!') not | compare
+ *   compare  sum ( ('>' | '>=' | '<' | '<=' | '==' | '!=') sum )?
+ *   sum      product ( ('+' | '-') product )*
+ *   product  unary ( ('*' | '/') unary )*
+ *   unary    '-' unary | primary
+ *   primary  number | series ('[' barsAgo ']')? | fn '(' args ')' | '(' or ')'
+ *
+ * Expressions are parsed into a plain AST and interpreted — nothing is ever
+ * handed to eval / Function. Series are rebuilt from the candles computeAll
+ * ran on, so the same expression works in live evaluation and backtests.
+ * Volume-profile levels and the ladder stage are current-bar values only.
+ */
+
+const indicators = require('./indicators');
+
+const MAX_LENGTH = 500;         // characters per expression
+const MAX_DEPTH = 32;           // AST nesting
+const MAX_LOOKBACK = 200;       // bars barsSince / [n] may look back
+
+// Series an expression can reference. Keys are lowercase; `emaN` / `smaN` are also accepted.
+const SERIES = {
+    open: { label: 'open' },
+    high: { label: 'high' },
+    low: { label: 'low' },
+    close: { label: 'close' },
+    price: { label: 'price' },
+    volume: { label: 'volume' },
+    rsi: { label: 'RSI' },
+    atr: { label: 'ATR' },
+    avwap_major: { label: 'major AVWAP' },
+    avwap_current: { label: 'current AVWAP' },
+    macd: { label: 'MACD' },
+    macd_signal: { label: 'MACD signal' },
+    macd_hist: { label: 'MACD histogram' },
+    bb_upper: { label: 'upper BB' },
+    bb_middle: { label: 'middle BB' },
+    bb_lower: { label: 'lower BB' },
+    bb_width: { label: 'BB width' },
+    kc_upper: { label: 'upper KC' },
+    kc_middle: { label: 'middle KC' },
+    kc_lower: { label: 'lower KC' },
+    stoch_k: { label: 'Stoch %K' },
+    stoch_d: { label: 'Stoch %D' },
+    supertrend: { label: 'SuperTrend' },
+    obv: { label: 'OBV' },
+    obv_ema: { label: 'OBV EMA' },
+    adx: { label: 'ADX' },
+    plus_di: { label: '+DI' },
+    minus_di: { label: '-DI' },
+    tenkan: { label: 'Tenkan' },
+    kijun: { label: 'Kijun' },
+    span_a: { label: 'Senkou A' },
+    span_b: { label: 'Senkou B' },
+    poc: { label: 'POC', scalar: true },
+    vah: { label: 'VAH', scalar: true },
+    val: { label: 'VAL', scalar: true },
+    stage: { label: 'ladder stage', scalar: true },
+};
+
+const FUNCTIONS = {
+    crossesabove: { name: 'crossesAbove', args: ['number', 'number'], returns: 'bool' },
+    crossesbelow: { name: 'crossesBelow', args: ['number', 'number'], returns: 'bool' },
+    barssince: { name: 'barsSince', args: ['bool'], returns: 'number' },
+    abs: { name: 'abs', args: ['number'], returns: 'number' },
+    min: { name: 'min', args: ['number', 'number'], returns: 'number' },
+    max: { name: 'max', args: ['number', 'number'], returns: 'number' },
+};
+
+const COMPARE_OPS = ['>', '>=', '<', '<=', '==', '!='];
+
+function seriesInfo(name) {
+    if (SERIES[name]) return SERIES[name];
+    const m = name.match(/^(ema|sma)(\d{1,3})$/);
+    if (m && +m[2] >= 2) return { label: `${m[1].toUpperCase()}${m[2]}` };
+    return null;
+}
+
+function fail(message, position) {
+    const err = new Error(message);
+    err.position = position;
+    throw err;
+}
+
+
+// ─────────────────────────────────────────────────────────────────
+//  Tokenizer
+// ─────────────────────────────────────────────────────────────────
+
+function tokenize(src) {
+    const tokens = [];
+    let i = 0;
+    while (i < src.length) {
+        const ch = src[i];
+        if (/\s/.test(ch)) { i++; continue; }
+
+        const num = src.slice(i).match(/^(\d+(\.\d+)?|\.\d+)/);
+        if (num) {
+            tokens.push({ type: 'number', value: parseFloat(num[0]), pos: i });
+            i += num[0].length;
+            continue;
+        }
+
+        const ident = src.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+        if (ident) {
+            const word = ident[0].toLowerCase();
+            if (word === 'and' || word === 'or' || word === 'not') tokens.push({ type: 'op', value: word, pos: i });
+            else tokens.push({ type: 'ident', value: word, raw: ident[0], pos: i });
+            i += ident[0].length;
+            continue;
+        }
+
+        const two = src.slice(i, i + 2);
+        if (['>=', '<=', '==', '!=', '&&', '||'].includes(two)) {
+            tokens.push({ type: 'op', value: two === '&&' ? 'and' : two === '||' ? 'or' : two, pos: i });
+            i += 2;
+            continue;
+        }
+        if (ch === '=') fail("Use '==' to compare", i);
+        if ('><!+-*/'.includes(ch)) {
+            tokens.push({ type: 'op', value: ch === '!' ? 'not' : ch, pos: i });
+            i++;
+            continue;
+        }
+        if ('()[],'.includes(ch)) {
+            tokens.push({ type: 'punct', value: ch, pos: i });
+            i++;
+            continue;
+        }
+        fail(`Unexpected character '${ch}'`, i);
+    }
+    tokens.push({ type: 'end', value: null, pos: src.length });
+    return tokens;
+}
+
+
+// ─────────────────────────────────────────────────────────────────
+//  Parser (recursive descent → AST + static type check)
+// ─────────────────────────────────────────────────────────────────
+
+function parseTokens(tokens) {
+    let idx = 0;
+    let depth = 0;
+    const peek = () => tokens[idx];
+    const next = () => tokens[idx++];
+    const isOp = (...ops) => peek().type === 'op' && ops.includes(peek().value);
+    const expect = (value) => {
+        const tok = next();
+        if (tok.value !== value) fail(tok.type === 'end' ? `Expected '${value}' before the end` : `Expected '${value}'`, tok.pos);
+        return tok;
+    };
+    const nest = (fn) => {
+        if (++depth > MAX_DEPTH) fail('Expression is nested too deeply', peek().pos);
+        const node = fn();
+        depth--;
+        return node;
+    };
+    const need = (node, type, what) => {
+        if (node.valueType !== type) {
+            fail(type === 'bool' ? `${what} needs a condition, not a number` : `${what} needs a number, not a condition`, node.pos);
+        }
+        return node;
+    };
+
+    const logical = (op, sub) => () => {
+        let left = sub();
+        while (isOp(op)) {
+            const tok = next();
+            const right = sub();
+            left = { kind: 'logical', op, left: need(left, 'bool', `'${op}'`), right: need(right, 'bool', `'${op}'`), valueType: 'bool', pos: tok.pos };
+        }
+        return left;
+    };
+
+    const parseNot = () => nest(() => {
+        if (isOp('not')) {
+            const tok = next();
+            return { kind: 'not', arg: need(parseNot(), 'bool', "'not'"), valueType: 'bool', pos: tok.pos };
+        }
+        return parseCompare();
+    });
+    const parseAnd = logical('and', parseNot);
+    const parseOr = logical('or', parseAnd);
+
+    function parseCompare() {
+        const left = parseSum();
+        if (isOp(...COMPARE_OPS)) {
+            const tok = next();
+            const right = parseSum();
+            return { kind: 'compare', op: tok.value, left: need(left, 'number', `'${tok.value}'`), right: need(right, 'number', `'${tok.value}'`), valueType: 'bool', pos: tok.pos };
+        }
+        return left;
+    }
+
+    function arithmetic(ops, sub) {
+        return () => {
+            let left = sub();
+            while (isOp(...ops)) {
+                const tok = next();
+                const right = sub();
+                left = { kind: 'arith', op: tok.value, left: need(left, 'number', `'${tok.value}'`), right: need(right, 'number', `'${tok.value}'`), valueType: 'number', pos: tok.pos };
+            }
+            return left;
+        };
+    }
+    const parseUnary = () => nest(() => {
+        if (isOp('-')) {
+            const tok = next();
+            return { kind: 'neg', arg: need(parseUnary(), 'number', "'-'"), valueType: 'number', pos: tok.pos };
+        }
+        return parsePrimary();
+    });
+    const parseProduct = arithmetic(['*', '/'], parseUnary);
+    const parseSum = arithmetic(['+', '-'], parseProduct);
+
+    function parsePrimary() {
+        const tok = next();
+        if (tok.type === 'number') return { kind: 'number', value: tok.value, valueType: 'number', pos: tok.pos };
+
+        if (tok.type === 'punct' && tok.value === '(') {
+            const inner = nest(parseOr);
+            expect(')');
+            return inner;
+        }
+
+        if (tok.type === 'ident') {
+            if (peek().type === 'punct' && peek().value === '(') {
+                const fn = FUNCTIONS[tok.value];
+                if (!fn) fail(`Unknown function '${tok.raw}'`, tok.pos);
+                next();
+                const args = [];
+                if (!(peek().type === 'punct' && peek().value === ')')) {
+                    args.push(nest(parseOr));
+                    while (peek().type === 'punct' && peek().value === ',') {
+                        next();
+                        args.push(nest(parseOr));
+                    }
+                }
+                expect(')');
+                if (args.length !== fn.args.length) {
+                    fail(`${fn.name}() takes ${fn.args.length} argument${fn.args.length > 1 ? 's' : ''}`, tok.pos);
+                }
+                args.forEach((a, i) => need(a, fn.args[i], `${fn.name}()`));
+                return { kind: 'call', fn: tok.value, args, valueType: fn.returns, pos: tok.pos };
+            }
+
+            const info = seriesInfo(tok.value);
+            if (!info) fail(`Unknown series '${tok.raw}'`, tok.pos);
+            let barsAgo = 0;
+            if (peek().type === 'punct' && peek().value === '[') {
+                next();
+                const n = next();
+                if (n.type !== 'number' || !Number.isInteger(n.value)) fail('Bars-ago index must be a whole number', n.pos);
+                if (n.value > MAX_LOOKBACK) fail(`Can't look back more than ${MAX_LOOKBACK} bars`, n.pos);
+                barsAgo = n.value;
+                expect(']');
+            }
+            return { kind: 'series', name: tok.value, barsAgo, valueType: 'number', pos: tok.pos };
+        }
+
+        if (tok.type === 'end') fail('Expression ends too early', tok.pos);
+        fail(`Unexpected '${tok.value}'`, tok.pos);
+    }
+
+    const ast = parseOr();
+    if (peek().type !== 'end') fail(`Unexpected '${peek().value}'`, peek().pos);
+    return ast;
+}
+
+const parseCache = new Map();
+
+/**
+ * Parse and type-check an expression
+ * @param {string} src
+ * @returns {{ ast: Object } | { error: string, position: number }}
+ */
+function parseExpression(src) {
+    if (typeof src !== 'string' || !src.trim()) return { error: 'Expression is empty', position: 0 };
+    if (src.length > MAX_LENGTH) return { error: `Expression is longer than ${MAX_LENGTH} characters`, position: MAX_LENGTH };
+    if (parseCache.has(src)) return parseCache.get(src);
+
+    let result;
+    try {
+        const ast = parseTokens(tokenize(src));
+        result = ast.valueType === 'bool'
+            ? { ast }
+            : { error: 'Expression must be a condition, e.g. ema20 > ema50', position: 0 };
+    } catch (e) {
+        result = { error: e.message, position: e.position ?? 0 };
+    }
+    if (parseCache.size > 500) parseCache.clear();
+    parseCache.set(src, result);
+    return result;
+}
+
+
+// ─────────────────────────────────────────────────────────────────
+//  Series context — lazily rebuilds indicator history from candles
+// ─────────────────────────────────────────────────────────────────
+
+const contextCache = new WeakMap();
+
+/**
+ * @param {Object} ind - computeAll output (carries its candles)
+ * @param {Object} config - indicator config (same periods computeAll used)
+ */
+function seriesContext(ind, config = {}) {
+    if (contextCache.has(ind)) return contextCache.get(ind);
+    const candles = ind.candles || [];
+    const memo = {};
+    const group = (key, build) => memo[key] || (memo[key] = build());
+
+    const builders = {
+        open: () => candles.map(c => c.o),
+        high: () => candles.map(c => c.h),
+        low: () => candles.map(c => c.l),
+        close: () => candles.map(c => c.c),
+        price: () => candles.map(c => c.c),
+        volume: () => candles.map(c => c.v || 0),
+        rsi: () => indicators.calcRSI(candles, config.rsiPeriod || 14).values,
+        atr: () => indicators.calcATR(candles, config.atrPeriod || 14).values,
+        avwap_major: () => avwap().major.values,
+        avwap_current: () => avwap().current.values,
+        macd: () => macd().macd,
+        macd_signal: () => macd().signal,
+        macd_hist: () => macd().histogram,
+        bb_upper: () => bb().upper,
+        bb_middle: () => bb().middle,
+        bb_lower: () => bb().lower,
+        bb_width: () => bb().width,
+        kc_upper: () => kc().upper,
+        kc_middle: () => kc().middle,
+        kc_lower: () => kc().lower,
+        stoch_k: () => stoch().k,
+        stoch_d: () => stoch().d,
+        supertrend: () => indicators.calcSuperTrend(candles, config.supertrendPeriod || 10, config.supertrendMultiplier || 3).values,
+        obv: () => obv().values,
+        obv_ema: () => obv().ema,
+        adx: () => adx().adx,
+        plus_di: () => adx().plusDI,
+        minus_di: () => adx().minusDI,
+        tenkan: () => ichimoku().tenkan,
+        kijun: () => ichimoku().kijun,
+        span_a: () => ichimoku().spanA,
+        span_b: () => ichimoku().spanB,
+    };
+    const avwap = () => group('avwap', () => candles.length
+        ? indicators.dualAVWAP(candles, config.avwapMajorLookback || 400, config.avwapCurrentLookback || 63)
+        : { major: { values: [] }, current: { values: [] } });
+    const macd = () => group('macd', () => indicators.calcMACD(candles, config.macdFast || 12, config.macdSlow || 26, config.macdSignal || 9));
+    const bb = () => group('bb', () => indicators.calcBollinger(candles, config.bbPeriod || 20, config.bbStdDev || 2));
+    const kc = () => group('kc', () => indicators.calcKeltner(candles, config.keltnerPeriod || 20, config.keltnerAtrPeriod || 10, config.keltnerMultiplier || 2));
+    const stoch = () => group('stoch', () => indicators.calcStochRSI(candles, config.rsiPeriod || 14, config.stochPeriod || 14, config.stochK || 3, config.stochD || 3));
+    const obv = () => group('obv', () => indicators.calcOBV(candles, config.obvEmaPeriod || 20));
+    const adx = () => group('adx', () => indicators.calcADX(candles, config.adxPeriod || 14));
+    const ichimoku = () => group('ichimoku', () => indicators.calcIchimoku(candles));
+
+    const scalars = {
+        poc: ind.vp?.poc ?? null,
+        vah: ind.vp?.vah ?? null,
+        val: ind.vp?.val ?? null,
+        stage: ind.ladder?.stage ?? null,
+    };
+
+    const series = (name) => {
+        if (memo[`s:${name}`]) return memo[`s:${name}`];
+        let values;
+        const m = name.match(/^(ema|sma)(\d+)$/);
+        if (m) {
+            const closes = candles.map(c => c.c);
+            values = m[1] === 'ema' ? indicators.emaOf(closes, +m[2]) : indicators.smaOf(closes, +m[2]);
+        } else {
+            values = builders[name]();
+        }
+        return (memo[`s:${name}`] = values);
+    };
+
+    const ctx = {
+        bars: candles.length,
+        /** Value of a series `back` bars before the newest, or null */
+        at(name, back) {
+            if (name in scalars) return scalars[name];
+            const values = series(name);
+            const v = values[values.length - 1 - back];
+            return v === undefined || Number.isNaN(v) ? null : v;
+        },
+    };
+    contextCache.set(ind, ctx);
+    return ctx;
+}
+
+
+// ─────────────────────────────────────────────────────────────────
+//  Interpreter
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Evaluate an AST node `back` bars before the newest candle
+ * @returns {number|boolean|null} null = not enough history
+ */
+function evalNode(node, ctx, back = 0) {
+    switch (node.kind) {
+        case 'number':
+            return node.value;
+        case 'series':
+            return ctx.at(node.name, back + node.barsAgo);
+        case 'neg': {
+            const v = evalNode(node.arg, ctx, back);
+            return v === null ? null : -v;
+        }
+        case 'arith': {
+            const a = evalNode(node.left, ctx, back);
+            const b = evalNode(node.right, ctx, back);
+            if (a === null || b === null) return null;
+            switch (node.op) {
+                case '+': return a + b;
+                case '-': return a - b;
+                case '*': return a * b;
+                case '/': return b === 0 ? null : a / b;
+            }
+            return null;
+        }
+        case 'compare': {
+            const a = evalNode(node.left, ctx, back);
+            const b = evalNode(node.right, ctx, back);
+            if (a === null || b === null) return false;
+            switch (node.op) {
+                case '>': return a > b;
+                case '>=': return a >= b;
+                case '<': return a < b;
+                case '<=': return a <= b;
+                case '==': return a === b;
+                case '!=': return a !== b;
+            }
+            return false;
+        }
+        case 'logical':
+            return node.op === 'and'
+                ? !!evalNode(node.left, ctx, back) && !!evalNode(node.right, ctx, back)
+                : !!evalNode(node.left, ctx, back) || !!evalNode(node.right, ctx, back);
+        case 'not':
+            return !evalNode(node.arg, ctx, back);
+        case 'call':
+            return evalCall(node, ctx, back);
+    }
+    return null;
+}
+
+function evalCall(node, ctx, back) {
+    const [a, b] = node.args;
+    switch (node.fn) {
+        case 'crossesabove':
+        case 'crossesbelow': {
+            const a0 = evalNode(a, ctx, back), b0 = evalNode(b, ctx, back);
+            const a1 = evalNode(a, ctx, back + 1), b1 = evalNode(b, ctx, back + 1);
+            if ([a0, b0, a1, b1].includes(null)) return false;
+            return node.fn === 'crossesabove' ? a1 <= b1 && a0 > b0 : a1 >= b1 && a0 < b0;
+        }
+        case 'barssince': {
+            const limit = Math.min(MAX_LOOKBACK, ctx.bars - back);
+            for (let i = 0; i < limit; i++) {
+                if (evalNode(a, ctx, back + i)) return i;
+            }
+            return null;
+        }
+        case 'abs': {
+            const v = evalNode(a, ctx, back);
+            return v === null ? null : Math.abs(v);
+        }
+        case 'min':
+        case 'max': {
+            const x = evalNode(a, ctx, back), y = evalNode(b, ctx, back);
+            if (x === null || y === null) return null;
+            return node.fn === 'min' ? Math.min(x, y) : Math.max(x, y);
+        }
+    }
+    return null;
+}
+
+/**
+ * Evaluate an expression rule against one computeAll result
+ * @returns {boolean} false if the expression doesn't parse or lacks history
+ */
+function evaluateExpression(src, ind, config) {
+    const parsed = parseExpression(src);
+    if (parsed.error) return false;
+    return !!evalNode(parsed.ast, seriesContext(ind, config));
+}
+
+/**
+ * Evaluate an expression on every bar, oldest → newest (chart markers).
+ * Volume-profile levels and the ladder stage keep their current value on every bar.
+ * @returns {boolean[] | { error: string, position: number }}
+ */
+function evaluateHistory(src, ind, config) {
+    const parsed = parseExpression(src);
+    if (parsed.error) return parsed;
+    const ctx = seriesContext(ind, config);
+    const out = new Array(ctx.bars);
+    for (let back = 0; back < ctx.bars; back++) {
+        out[ctx.bars - 1 - back] = !!evalNode(parsed.ast, ctx, back);
+    }
+    return out;
+}
+
+
+// ─────────────────────────────────────────────────────────────────
+//  Explanations (Bot Brain / validation feedback)
+// ─────────────────────────────────────────────────────────────────
+
+const PRECEDENCE = { logical_or: 1, logical_and: 2, not: 3, compare: 4, 'arith_+': 5, 'arith_-': 5, 'arith_*': 6, 'arith_/': 6, neg: 7 };
+const precedenceOf = (node) => PRECEDENCE[node.kind === 'logical' || node.kind === 'arith' ? `${node.kind}_${node.op}` : node.kind] || 8;
+
+/** Plain-English rendering of an AST */
+function describeNode(node) {
+    const wrap = (child, min) => precedenceOf(child) < min ? `(${describeNode(child)})` : describeNode(child);
+    switch (node.kind) {
+        case 'number':
+            return String(node.value);
+        case 'series': {
+            const label = seriesInfo(node.name).label;
+            return node.barsAgo ? `${label} ${node.barsAgo} bar${node.barsAgo > 1 ? 's' : ''} ago` : label;
+        }
+        case 'neg':
+            return `-${wrap(node.arg, 7)}`;
+        case 'arith':
+            return `${wrap(node.left, precedenceOf(node))} ${node.op} ${wrap(node.right, precedenceOf(node) + 1)}`;
+        case 'compare': {
+            // barsSince(x) < n  →  "x in the last n bars"
+            if (node.left.kind === 'call' && node.left.fn === 'barssince' && node.right.kind === 'number' && (node.op === '<' || node.op === '<=')) {
+                const n = node.op === '<' ? node.right.value : node.right.value + 1;
+                return `${describeNode(node.left.args[0])} in the last ${n} bar${n === 1 ? '' : 's'}`;
+            }
+            return `${wrap(node.left, 5)} ${node.op} ${wrap(node.right, 5)}`;
+        }
+        case 'logical':
+            return `${wrap(node.left, precedenceOf(node))} ${node.op} ${wrap(node.right, precedenceOf(node))}`;
+        case 'not':
+            return `not ${wrap(node.arg, 8)}`;
+        case 'call': {
+            const [a, b] = node.args;
+            switch (node.fn) {
+                case 'crossesabove': return `${describeNode(a)} crosses above ${describeNode(b)}`;
+                case 'crossesbelow': return `${describeNode(a)} crosses below ${describeNode(b)}`;
+                case 'barssince': return `bars since ${describeNode(a)}`;
+                default: return `${FUNCTIONS[node.fn].name}(${node.args.map(describeNode).join(', ')})`;
+            }
+        }
+    }
+    return '';
+}
+
+/** Top-level clauses of an and/or chain (a and b and c → [a, b, c]) */
+function clausesOf(node) {
+    if (node.kind !== 'logical') return [node];
+    const op = node.op;
+    const out = [];
+    const walk = (n) => {
+        if (n.kind === 'logical' && n.op === op) { walk(n.left); walk(n.right); }
+        else out.push(n);
+    };
+    walk(node);
+    return out;
+}
+
+function seriesRefs(node, out = new Map()) {
+    if (node.kind === 'series') out.set(node.name, node);
+    for (const key of ['left', 'right', 'arg']) if (node[key]) seriesRefs(node[key], out);
+    if (node.args) node.args.forEach(a => seriesRefs(a, out));
+    return out;
+}
+
+/**
+ * Explain an expression: English description plus, when indicators are
+ * given, which clauses pass and the current value of every referenced series
+ * @returns {{ description: string, joiner?: 'and'|'or'|null, clauses?: Array<{ text, passed }>, values?: Object, passed?: boolean } | { error, position }}
+ */
+function explainExpression(src, ind, config) {
+    const parsed = parseExpression(src);
+    if (parsed.error) return parsed;
+    const { ast } = parsed;
+    const description = describeNode(ast);
+    if (!ind) return { description };
+
+    const ctx = seriesContext(ind, config);
+    const clauses = clausesOf(ast).map(c => ({ text: describeNode(c), passed: !!evalNode(c, ctx) }));
+    const values = {};
+    for (const name of seriesRefs(ast).keys()) {
+        const v = ctx.at(name, 0);
+        values[seriesInfo(name).label] = v === null ? null : +v.toPrecision(6);
+    }
+    return { description, joiner: ast.kind === 'logical' ? ast.op : null, clauses, values, passed: !!evalNode(ast, ctx) };
+}
+
+module.exports = {
+    parseExpression,
+    evaluateExpression,
+    evaluateHistory,
+    explainExpression,
+    SERIES_NAMES: Object.keys(SERIES),
+    FUNCTION_NAMES: Object.values(FUNCTIONS).map(f => f.name),
+};
@@ -13,7 +13,6 @@ const http = require('http');
 const crypto = require('crypto');
 
 // Auth dependencies
-const Database = require('better-sqlite3');
 const bcrypt = require('bcryptjs');
 const jwt = require('jsonwebtoken');
 
@@ -42,30 +41,13 @@ if (fs.existsSync(JWT_SECRET_PATH)) {
     console.log('[Auth] Generated new JWT secret');
 }
 
-// --- SQLite Database ---
-const db = new Database(path.join(DATA_DIR, 'openclaw.db'));
-db.pragma('journal_mode = WAL');
-
-// Create tables
-db.exec(`
-    CREATE TABLE IF NOT EXISTS users (
-        id TEXT PRIMARY KEY,
-        email TEXT UNIQUE NOT NULL,
-        password_hash TEXT NOT NULL,
-        name TEXT DEFAULT '',
-        role TEXT DEFAULT 'user',
-        created_at TEXT DEFAULT (datetime('now'))
-    );
-    CREATE TABLE IF NOT EXISTS user_data (
-        user_id TEXT NOT NULL,
-        key TEXT NOT NULL,
-        value TEXT DEFAULT '{}',
-        updated_at TEXT DEFAULT (datetime('now')),
-        PRIMARY KEY (user_id, key),
-        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-    );
-`);
-console.log('[DB] SQLite initialized');
+// --- SQLite Database (schema + migrations live in server/db.cjs) ---
+const store = require('./server/db.cjs');
+const { handleApiRequest } = require('./server/api.cjs');
+const vaultIndex = require('./server/vaultIndex.cjs');
+const missionScheduler = require('./server/missionScheduler.cjs');
+const toolApprovals = require('./server/toolApprovals.cjs');
+const db = store.db;
 
 // --- Auth Helpers ---
 function generateToken(user) {
@@ -213,113 +195,8 @@ const httpServer = http.createServer(async (req, res) => {
         const authUser = getAuthUser(req);
         if (!authUser) return sendJSON(res, 401, { error: 'Authentication required' });
 
-        // --- User Data (scoped per user) ---
-
-        // GET /api/sync/pull — pull all user data
-        if (url === '/api/sync/pull' && req.method === 'GET') {
-            const rows = db.prepare('SELECT key, value FROM user_data WHERE user_id = ?').all(authUser.id);
-            const result = { config: {} };
-            for (const row of rows) {
-                try {
-                    const parsed = JSON.parse(row.value);
-                    if (row.key.startsWith('config_')) {
-                        result.config[row.key.replace('config_', '')] = parsed;
-                    } else {
-                        result[row.key] = parsed;
-                    }
-                } catch { result[row.key] = row.value; }
-            }
-            return sendJSON(res, 200, result);
-        }
-
-        // POST /api/sync — push data
-        if (url === '/api/sync' && req.method === 'POST') {
-            const body = await parseBody(req);
-            const upsert = db.prepare(`
-                INSERT INTO user_data (user_id, key, value, updated_at) VALUES (?, ?, ?, datetime('now'))
-                ON CONFLICT(user_id, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
-            `);
-            const txn = db.transaction(() => {
-                for (const [key, value] of Object.entries(body)) {
-                    upsert.run(authUser.id, key, JSON.stringify(value));
-                }
-            });
-            txn();
-            return sendJSON(res, 200, { ok: true });
-        }
-
-        // GET /api/config/:key
-        const configGetMatch = url.match(/^\/api\/config\/(.+)$/);
-        if (configGetMatch && req.method === 'GET') {
-            const key = decodeURIComponent(configGetMatch[1]);
-            const row = db.prepare('SELECT value FROM user_data WHERE user_id = ? AND key = ?').get(authUser.id, `config_${key}`);
-            if (!row) return sendJSON(res, 200, { value: null });
-            try { return sendJSON(res, 200, { value: JSON.parse(row.value) }); }
-            catch { return sendJSON(res, 200, { value: row.value }); }
-        }
-
-        // PUT /api/config
-        if (url === '/api/config' && req.method === 'PUT') {
-            const { key, value } = await parseBody(req);
-            if (!key) return sendJSON(res, 400, { error: 'Key required' });
-            const upsert = db.prepare(`
-                INSERT INTO user_data (user_id, key, value, updated_at) VALUES (?, ?, ?, datetime('now'))
-                ON CONFLICT(user_id, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
-            `);
-            upsert.run(authUser.id, `config_${key}`, JSON.stringify(value));
-            return sendJSON(res, 200, { ok: true });
-        }
-
-        // --- CRUD resources (tasks, documents, agents, etc.) ---
-        const resourceMatch = url.match(/^\/api\/(tasks|documents|agents|expenses|checklists|chat|contacts|cron|events)(?:\/(.+))?$/);
-        if (resourceMatch) {
-            const resource = resourceMatch[1];
-            const resourceId = resourceMatch[2] ? decodeURIComponent(resourceMatch[2]) : null;
-            const dataKey = resource;
-
-            if (req.method === 'GET') {
-                const row = db.prepare('SELECT value FROM user_data WHERE user_id = ? AND key = ?').get(authUser.id, dataKey);
-                const items = row ? JSON.parse(row.value) : [];
-                if (resourceId) {
-                    const item = items.find(i => i.id === resourceId);
-                    return item ? sendJSON(res, 200, item) : sendJSON(res, 404, { error: 'Not found' });
-                }
-                return sendJSON(res, 200, items);
-            }
-
-            if (req.method === 'POST') {
-                const body = await parseBody(req);
-                const row = db.prepare('SELECT value FROM user_data WHERE user_id = ? AND key = ?').get(authUser.id, dataKey);
-                const items = row ? JSON.parse(row.value) : [];
-                items.unshift(body);
-                db.prepare(`INSERT INTO user_data (user_id, key, value, updated_at) VALUES (?, ?, ?, datetime('now'))
-                    ON CONFLICT(user_id, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`)
-                    .run(authUser.id, dataKey, JSON.stringify(items));
-                return sendJSON(res, 201, body);
-            }
-
-            if (req.method === 'PUT' && resourceId) {
-                const body = await parseBody(req);
-                const row = db.prepare('SELECT value FROM user_data WHERE user_id = ? AND key = ?').get(authUser.id, dataKey);
-                const items = row ? JSON.parse(row.value) : [];
-                const idx = items.findIndex(i => i.id === resourceId);
-                if (idx >= 0) items[idx] = { ...items[idx], ...body };
-                db.prepare(`INSERT INTO user_data (user_id, key, value, updated_at) VALUES (?, ?, ?, datetime('now'))
-                    ON CONFLICT(user_id, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`)
-                    .run(authUser.id, dataKey, JSON.stringify(items));
-                return sendJSON(res, 200, items[idx] || body);
-            }
-
-            if (req.method === 'DELETE' && resourceId) {
-                const row = db.prepare('SELECT value FROM user_data WHERE user_id = ? AND key = ?').get(authUser.id, dataKey);
-                const items = row ? JSON.parse(row.value) : [];
-                const filtered = items.filter(i => i.id !== resourceId);
-                db.prepare(`INSERT INTO user_data (user_id, key, value, updated_at) VALUES (?, ?, ?, datetime('now'))
-                    ON CONFLICT(user_id, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`)
-                    .run(authUser.id, dataKey, JSON.stringify(filtered));
-                return sendJSON(res, 200, { ok: true });
-            }
-        }
+        // --- User Data: sync, config and CRUD resources (scoped per user) ---
+        if (await handleApiRequest(req, res, authUser)) return;
 
         // --- Admin Routes (admin role only) ---
         if (url.startsWith('/api/admin/')) {
@@ -347,7 +224,7 @@ const httpServer = http.createServer(async (req, res) => {
             if (deleteMatch && req.method === 'DELETE') {
                 const targetId = decodeURIComponent(deleteMatch[1]);
                 if (targetId === authUser.id) return sendJSON(res, 400, { error: 'Cannot delete yourself' });
-                db.prepare('DELETE FROM user_data WHERE user_id = ?').run(targetId);
+                store.deleteUserData(targetId);
                 db.prepare('DELETE FROM users WHERE id = ?').run(targetId);
                 console.log(`[Admin] Deleted user: ${targetId}`);
                 return sendJSON(res, 200, { ok: true });
@@ -401,6 +278,7 @@ const httpServer = http.createServer(async (req, res) => {
 
 httpServer.listen(HTTP_PORT, () => {
     console.log(`[HTTP] Frontend serving on port ${HTTP_PORT}`);
+    missionScheduler.start({ getTrader: getTraderForUser });
 });
 
 // --- BrowserPilot: Headless Chrome Controller ---
@@ -425,8 +303,24 @@ class BrowserPilot {
         this.isActive = false;
         this.screencastActive = false;
         this.broadcastFrame = null; // set by WS handler
-        this.downloadPath = path.join(VAULT_DIR, 'downloads');
-        if (!fs.existsSync(this.downloadPath)) fs.mkdirSync(this.downloadPath, { recursive: true });
+        this.downloadPath = null;   // the signed-in user's vault downloads dir — set by useDownloadDir
+    }
+
+    /**
+     * Point downloads at one user's vault (null = refuse downloads). Called before each
+     * command, since a single browser is shared by every connected user.
+     */
+    async useDownloadDir(dir) {
+        if (dir && !fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+        if (dir === this.downloadPath) return;
+        this.downloadPath = dir;
+        if (this.cdp) await this._applyDownloadBehavior();
+    }
+
+    _applyDownloadBehavior() {
+        return this.cdp.send('Page.setDownloadBehavior', this.downloadPath
+            ? { behavior: 'allow', downloadPath: this.downloadPath }
+            : { behavior: 'deny' });
     }
 
     async launch() {
@@ -531,10 +425,7 @@ class BrowserPilot {
 
         // CDP session for screencast + downloads
         this.cdp = await this.page.createCDPSession();
-        await this.cdp.send('Page.setDownloadBehavior', {
-            behavior: 'allow',
-            downloadPath: this.downloadPath
-        });
+        await this._applyDownloadBehavior();
 
         this.isActive = true;
         console.log('[BrowserPilot] Chrome launched (stealth mode)');
@@ -731,6 +622,7 @@ class BrowserPilot {
 
     async downloadFile(url) {
         await this.launch();
+        if (!this.downloadPath) return this.getState('Download error: sign in to download into your vault');
         try {
             // Try direct HTTP download first (more reliable for PDFs)
             const fileName = path.basename(new URL(url).pathname) || 'download.pdf';
@@ -885,6 +777,63 @@ function getTraderForUser(userId) {
     return t;
 }
 
+// --- Document Vault (per-user isolation) ---
+const VAULT_USERS_DIR = path.join(VAULT_DIR, 'users');
+// Root-level vault entries owned by the server itself — never migrated into a user's vault
+// ('downloads' is where the browser saved files before they moved into each user's vault)
+const VAULT_RESERVED = ['users', 'downloads'];
+// Survives restarts; user ids are stripped of dots, so it can't collide with a vault
+const VAULT_MIGRATED_MARKER = path.join(VAULT_USERS_DIR, '.legacy-migrated');
+let vaultMigrated = fs.existsSync(VAULT_MIGRATED_MARKER);
+let firstAdminId = null; // looked up until an admin exists — the first one never changes
+
+function getVaultDirForUser(userId) {
+    if (!userId) return null;
+    const safeId = String(userId).replace(/[^a-zA-Z0-9_-]/g, '');
+    const userVaultDir = path.join(VAULT_USERS_DIR, safeId);
+    if (!fs.existsSync(userVaultDir)) fs.mkdirSync(userVaultDir, { recursive: true });
+
+    // One-time migration: files written before per-user vaults existed live at the
+    // vault root. Move them into the first admin's vault (same rule as trader files).
+    if (!vaultMigrated && !firstAdminId) {
+        firstAdminId = db.prepare('SELECT id FROM users WHERE role = ? ORDER BY created_at ASC LIMIT 1').get('admin')?.id || null;
+    }
+    if (!vaultMigrated && firstAdminId === userId) {
+        vaultMigrated = true;
+        for (const entry of fs.readdirSync(VAULT_DIR)) {
+            if (VAULT_RESERVED.includes(entry)) continue;
+            const src = path.join(VAULT_DIR, entry);
+            const dst = path.join(userVaultDir, entry);
+            try {
+                if (fs.existsSync(dst)) {
+                    console.warn(`[Vault] Migration skipped ${entry}: already exists in users/${safeId}/`);
+                    continue;
+                }
+                fs.renameSync(src, dst);
+                console.log(`[Vault] Migrated ${entry} → users/${safeId}/`);
+            } catch (e) {
+                console.error(`[Vault] Migration failed for ${entry}:`, e.message);
+            }
+        }
+        try {
+            fs.writeFileSync(VAULT_MIGRATED_MARKER, new Date().toISOString());
+        } catch (e) {
+            console.error(`[Vault] Could not write migration marker:`, e.message);
+        }
+    }
+
+    return userVaultDir;
+}
+
+// --- Risky trader commands ---
+// Each needs an approved row in server/toolApprovals.cjs for its tool; `args` are the
+// approved arguments the command must match (not the perps market — agents say BTC, the command wBTC)
+const RISKY_TRADER_COMMANDS = {
+    TRADER_SWAP: { toolName: 'executeSwap', args: (d) => ({ inputToken: d.inputMint, outputToken: d.outputMint, amount: d.amount }) },
+    TRADER_OPEN_PERP: { toolName: 'openPerp', args: (d) => ({ side: d.side, collateralUsd: d.collateralUsd, leverage: d.leverage }) },
+    TRADER_SEND_EMAIL: { toolName: 'sendEmail', args: (d) => ({ to: d.to, subject: d.subject, body: d.body }) },
+};
+
 // --- WebSocket Server (shares HTTP port) ---
 const wss = new WebSocket.Server({ server: httpServer });
 
@@ -904,16 +853,17 @@ Waiting for frontend connection...
 `);
 
 // Helper to recursively get files and build the Truth Index
-const getFilesRecursively = (dir, fileList = []) => {
+// `root` is the user's vault dir — paths in the index are relative to it
+const getFilesRecursively = (dir, fileList = [], root = dir) => {
     const files = fs.readdirSync(dir);
     files.forEach(file => {
         const filePath = path.join(dir, file);
         const stat = fs.statSync(filePath);
         if (stat.isDirectory()) {
-            getFilesRecursively(filePath, fileList);
+            getFilesRecursively(filePath, fileList, root);
         } else {
             // Determine category from folder structure
-            const relativePath = path.relative(VAULT_DIR, filePath);
+            const relativePath = path.relative(root, filePath);
             const category = path.dirname(relativePath) !== '.' ? path.dirname(relativePath) : 'MISC';
 
             fileList.push({
@@ -943,9 +893,11 @@ wss.on('connection', (ws) => {
             // Authentication Handshake — now validates JWT
             if (data.type === 'AUTH') {
                 if (data.token) {
+                    if (wsAuthUser) toolApprovals.unregister(wsAuthUser.id, ws);
                     wsAuthUser = verifyToken(data.token);
                     if (wsAuthUser) {
                         console.log(`[Auth] WS authenticated: ${wsAuthUser.email} (${wsAuthUser.role})`);
+                        toolApprovals.register(wsAuthUser.id, ws);
                         ws.send(JSON.stringify({ type: 'AUTH_SUCCESS', status: 'connected', user: wsAuthUser }));
                     } else {
                         ws.send(JSON.stringify({ type: 'AUTH_FAILED', error: 'Invalid token' }));
@@ -962,6 +914,16 @@ wss.on('connection', (ws) => {
                 ws.send(JSON.stringify({ type: 'PONG' }));
             }
 
+            // --- Tool Approvals (risky tool calls parked until the operator decides) ---
+            if (data.type && data.type.startsWith('APPROVAL_')) {
+                if (!wsAuthUser) {
+                    ws.send(JSON.stringify({ type: 'APPROVAL_ERROR', id: data.id || data.approval?.id, error: 'Not authenticated' }));
+                    return;
+                }
+                toolApprovals.handle(wsAuthUser.id, ws, data);
+                return;
+            }
+
             // --- BrowserPilot Commands ---
             if (data.type && data.type.startsWith('BROWSER_') && puppeteer) {
                 // Wire up screencast frame broadcasting to this client
@@ -984,6 +946,10 @@ wss.on('connection', (ws) => {
                 };
 
                 try {
+                    // Downloads go to the signed-in user's vault; without a user they are refused
+                    const userVaultDir = wsAuthUser ? getVaultDirForUser(wsAuthUser.id) : null;
+                    await pilot.useDownloadDir(userVaultDir && path.join(userVaultDir, 'downloads'));
+
                     let result;
                     switch (data.type) {
                         case 'BROWSER_NAVIGATE':
@@ -1064,13 +1030,23 @@ wss.on('connection', (ws) => {
                 }
             }
 
+            // --- Vault Commands (per-user isolated) ---
+            let userVaultDir = null;
+            if (['WRITE_FILE', 'SYNC_VAULT', 'READ_FILE', 'VAULT_SEARCH'].includes(data.type)) {
+                if (!wsAuthUser || !wsAuthUser.id) {
+                    ws.send(JSON.stringify({ type: 'OP_ERROR', requestId: data.requestId, message: 'Authentication required for vault access' }));
+                    return;
+                }
+                userVaultDir = getVaultDirForUser(wsAuthUser.id);
+            }
+
             // Write File to Disk (The Commitment Protocol)
             if (data.type === 'WRITE_FILE') {
                 const category = (data.category || 'MISC').toUpperCase().replace(/[^A-Z0-9]/g, '_');
                 const safeName = path.basename(data.name).replace(/[^a-zA-Z0-9._-]/g, '');
 
                 // Create category directory if it doesn't exist
-                const categoryDir = path.join(VAULT_DIR, category);
+                const categoryDir = path.join(userVaultDir, category);
                 if (!fs.existsSync(categoryDir)) {
                     fs.mkdirSync(categoryDir, { recursive: true });
                 }
@@ -1097,8 +1073,12 @@ wss.on('connection', (ws) => {
                         ws.send(JSON.stringify({ type: 'OP_SUCCESS', message: `Saved ${safeName} to ${category} Vault.` }));
 
                         // Auto-trigger re-index to confirm truth state
-                        const index = getFilesRecursively(VAULT_DIR);
+                        const index = getFilesRecursively(userVaultDir);
                         ws.send(JSON.stringify({ type: 'VAULT_INDEX', files: index }));
+
+                        // Keep the search index current for this file
+                        vaultIndex.indexFile(wsAuthUser.id, userVaultDir, path.relative(userVaultDir, filePath))
+                            .catch(e => console.error(`[VaultIndex] Index failed for ${category}/${safeName}:`, e.message));
                     }
                 });
             }
@@ -1106,21 +1086,35 @@ wss.on('connection', (ws) => {
             // Read Full Vault Index (The Retrieval Protocol)
             if (data.type === 'SYNC_VAULT') {
                 try {
-                    const index = getFilesRecursively(VAULT_DIR);
+                    const index = getFilesRecursively(userVaultDir);
                     ws.send(JSON.stringify({ type: 'VAULT_INDEX', files: index }));
                     console.log(`[Sync] Sent ${index.length} vault records to client.`);
+                    vaultIndex.syncUser(wsAuthUser.id, userVaultDir)
+                        .catch(e => console.error('[VaultIndex] Sync failed:', e.message));
                 } catch (err) {
                     ws.send(JSON.stringify({ type: 'OP_ERROR', message: "Vault indexing failed." }));
                 }
             }
 
+            // Search the vault — ranked snippets from the keyword + embedding index
+            if (data.type === 'VAULT_SEARCH') {
+                try {
+                    await vaultIndex.syncUser(wsAuthUser.id, userVaultDir);
+                    const results = await vaultIndex.search(wsAuthUser.id, String(data.query || ''), { category: data.category, limit: data.limit });
+                    ws.send(JSON.stringify({ type: 'VAULT_SEARCH_RESULTS', requestId: data.requestId, query: data.query, results }));
+                } catch (err) {
+                    console.error('[VaultIndex] Search failed:', err.message);
+                    ws.send(JSON.stringify({ type: 'OP_ERROR', requestId: data.requestId, message: 'Vault search failed.' }));
+                }
+            }
+
             // Read a specific file from the vault (The Retrieval Protocol)
             if (data.type === 'READ_FILE') {
                 try {
                     const safePath = path.normalize(data.path).replace(/\.\./g, '');
-                    const filePath = path.join(VAULT_DIR, safePath);
+                    const filePath = path.join(userVaultDir, safePath);
 
-                    if (!filePath.startsWith(VAULT_DIR)) {
+                    if (!filePath.startsWith(userVaultDir + path.sep)) {
                         ws.send(JSON.stringify({ type: 'OP_ERROR', message: 'Path traversal blocked.' }));
                         return;
                     }
@@ -1179,15 +1173,24 @@ wss.on('connection', (ws) => {
             // --- SolanaTrader Commands (per-user isolated) ---
             if (data.type && data.type.startsWith('TRADER_')) {
                 if (!wsAuthUser || !wsAuthUser.id) {
-                    ws.send(JSON.stringify({ type: 'TRADER_ERROR', error: 'Authentication required for trader commands' }));
+                    ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: 'Authentication required for trader commands' }));
                     return;
                 }
                 const trader = getTraderForUser(wsAuthUser.id);
                 if (!trader) {
-                    ws.send(JSON.stringify({ type: 'TRADER_ERROR', error: 'Could not initialize trader' }));
+                    ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: 'Could not initialize trader' }));
                     return;
                 }
                 console.log(`[SolanaTrader] ${wsAuthUser.email}: ${data.type}`);
+                // Money and email leave the server only against an operator approval, used once
+                const risky = RISKY_TRADER_COMMANDS[data.type];
+                if (risky) {
+                    const denied = toolApprovals.consume(wsAuthUser.id, data.approvalId, risky.toolName, risky.args(data));
+                    if (denied) {
+                        ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: denied }));
+                        return;
+                    }
+                }
                 // Wire broadcast to this WS client
                 trader.broadcastFn = (msg) => {
                     if (ws.readyState === WebSocket.OPEN) {
@@ -1209,13 +1212,17 @@ wss.on('connection', (ws) => {
                                 // Return status without balance
                                 status = {
                                     type: 'TRADER_STATUS',
-                                    walletCreated: !!trader.keypair,
-                                    publicKey: trader.keypair ? trader.keypair.publicKey.toBase58() : '',
+                                    walletCreated: !!trader.walletPublicKey,
+                                    publicKey: trader.walletPublicKey || '',
+                                    walletEncrypted: trader.walletEncrypted,
+                                    walletLocked: !!trader.walletPublicKey && !trader.keypair,
+                                    autoLockAt: trader.autoLockAt,
                                     balance: 0,
                                     isRunning: trader.isRunning,
                                     rules: trader.rules,
-                                    recentTrades: trader.tradeLog.slice(0, 30),
+                                    recentTrades: trader.getTradeLog().slice(0, 30),
                                     lastCheck: trader.lastCheck,
+                                    paperMode: trader.paperMode,
                                 };
                             }
                             console.log('[SolanaTrader] Sending status:', JSON.stringify(status).slice(0, 200));
@@ -1223,32 +1230,59 @@ wss.on('connection', (ws) => {
                             break;
                         }
                         case 'TRADER_GENERATE_WALLET': {
-                            const result = trader.generateWallet();
+                            const result = await trader.generateWallet(data.passphrase);
                             if (result.error) {
-                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', error: result.error }));
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error }));
                             } else {
                                 ws.send(JSON.stringify({ type: 'TRADER_WALLET', publicKey: result.publicKey, mnemonic: result.mnemonic || null }));
                             }
                             break;
                         }
                         case 'TRADER_IMPORT_KEY': {
-                            const result = trader.importKey(data.key);
+                            const result = await trader.importKey(data.key, data.passphrase);
                             if (result.error) {
-                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', error: result.error }));
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error }));
                             } else {
                                 ws.send(JSON.stringify({ type: 'TRADER_WALLET', publicKey: result.publicKey }));
                             }
                             break;
                         }
                         case 'TRADER_EXPORT_KEY': {
-                            const result = trader.exportKey();
+                            const result = await trader.exportKey(data.passphrase);
                             if (result.error) {
-                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', error: result.error }));
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error, context: 'export' }));
                             } else {
                                 ws.send(JSON.stringify({ type: 'TRADER_KEY_EXPORT', secretKey: result.secretKey, mnemonic: result.mnemonic || null }));
                             }
                             break;
                         }
+                        case 'TRADER_UNLOCK': {
+                            const result = await trader.unlock(data.passphrase);
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error, context: 'unlock' }));
+                            } else {
+                                ws.send(JSON.stringify({ type: 'TRADER_UNLOCKED', publicKey: result.publicKey, autoLockAt: result.autoLockAt }));
+                            }
+                            break;
+                        }
+                        case 'TRADER_LOCK': {
+                            const result = trader.lock();
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error }));
+                            } else {
+                                ws.send(JSON.stringify({ type: 'TRADER_LOCKED', reason: 'manual' }));
+                            }
+                            break;
+                        }
+                        case 'TRADER_ENCRYPT_WALLET': {
+                            const result = await trader.encryptWallet(data.passphrase);
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error, context: 'encrypt' }));
+                            } else {
+                                ws.send(JSON.stringify({ type: 'TRADER_WALLET_ENCRYPTED', publicKey: result.publicKey, autoLockAt: result.autoLockAt }));
+                            }
+                            break;
+                        }
                         case 'TRADER_RESET_WALLET': {
                             trader.resetWallet();
                             ws.send(JSON.stringify({ type: 'TRADER_WALLET_RESET' }));
@@ -1265,8 +1299,23 @@ wss.on('connection', (ws) => {
                             break;
                         }
                         case 'TRADER_ADD_RULE': {
-                            const rule = trader.addRule(data.rule || data);
-                            ws.send(JSON.stringify({ type: 'TRADER_RULE_ADDED', rule }));
+                            const result = await trader.addRule(data.rule || data);
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error, context: 'rule' }));
+                            } else {
+                                ws.send(JSON.stringify({ type: 'TRADER_RULE_ADDED', rule: result.rule }));
+                                // Linking an OCO partner also changes that rule's group
+                                if (result.rule.groupId) ws.send(JSON.stringify({ type: 'TRADER_RULES', rules: trader.rules }));
+                            }
+                            break;
+                        }
+                        case 'TRADER_UPDATE_RULE': {
+                            const result = await trader.updateRule(data.ruleId, data.rule);
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error, context: 'rule' }));
+                            } else {
+                                ws.send(JSON.stringify({ type: 'TRADER_RULES', rules: trader.rules }));
+                            }
                             break;
                         }
                         case 'TRADER_REMOVE_RULE': {
@@ -1283,40 +1332,144 @@ wss.on('connection', (ws) => {
                             const result = await trader.manualSwap(
                                 data.inputMint, data.outputMint, data.amount, data.slippageBps
                             );
+                            toolApprovals.recordOutcome(wsAuthUser.id, data.approvalId, !result.error, result.error || `Swapped (tx: ${result.signature || 'paper'})`);
                             if (result.error) {
-                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', error: result.error }));
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error }));
                             } else {
-                                ws.send(JSON.stringify({ type: 'TRADER_SWAP_RESULT', ...result }));
+                                ws.send(JSON.stringify({ type: 'TRADER_SWAP_RESULT', requestId: data.requestId, ...result }));
                             }
                             break;
                         }
                         case 'TRADER_WITHDRAW': {
                             const result = await trader.withdraw(data.destination, data.amount);
                             if (result.error) {
-                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', error: result.error }));
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error }));
                             } else {
                                 ws.send(JSON.stringify({ type: 'TRADER_WITHDRAW_RESULT', signature: result.signature }));
                             }
                             break;
                         }
                         case 'TRADER_HISTORY': {
-                            ws.send(JSON.stringify({ type: 'TRADER_HISTORY', history: trader.tradeLog.slice(0, 50) }));
+                            ws.send(JSON.stringify({ type: 'TRADER_HISTORY', history: trader.getTradeLog().slice(0, 50), paperMode: trader.paperMode }));
+                            break;
+                        }
+                        case 'TRADER_GET_DCA': {
+                            ws.send(JSON.stringify({ type: 'TRADER_DCA_PLANS', plans: trader.getDcaPlans() }));
+                            break;
+                        }
+                        case 'TRADER_ADD_DCA':
+                        case 'TRADER_UPDATE_DCA':
+                        case 'TRADER_RUN_DCA': {
+                            const result = data.type === 'TRADER_ADD_DCA' ? trader.addDcaPlan(data.plan || {})
+                                : data.type === 'TRADER_UPDATE_DCA' ? trader.updateDcaPlan(data.planId, data.plan)
+                                    : await trader.runDcaPlanNow(data.planId);
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error, context: 'dca' }));
+                            } else {
+                                ws.send(JSON.stringify({ type: 'TRADER_DCA_PLANS', plans: trader.getDcaPlans() }));
+                            }
+                            break;
+                        }
+                        case 'TRADER_DELETE_DCA': {
+                            trader.deleteDcaPlan(data.planId);
+                            ws.send(JSON.stringify({ type: 'TRADER_DCA_PLANS', plans: trader.getDcaPlans() }));
+                            break;
+                        }
+                        case 'TRADER_GET_ALERTS': {
+                            ws.send(JSON.stringify({ type: 'TRADER_ALERTS', ...trader.alerts.getState() }));
+                            break;
+                        }
+                        case 'TRADER_ADD_ALERT':
+                        case 'TRADER_UPDATE_ALERT':
+                        case 'TRADER_SET_ALERT_CHANNEL': {
+                            const result = data.type === 'TRADER_ADD_ALERT' ? trader.alerts.addAlert(data.alert || {})
+                                : data.type === 'TRADER_UPDATE_ALERT' ? trader.alerts.updateAlert(data.alertId, data.alert)
+                                    : trader.alerts.setChannel(data.channel, data.config);
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error, context: 'alerts' }));
+                            } else {
+                                ws.send(JSON.stringify({ type: 'TRADER_ALERTS', ...trader.alerts.getState() }));
+                            }
+                            break;
+                        }
+                        case 'TRADER_DELETE_ALERT': {
+                            trader.alerts.deleteAlert(data.alertId);
+                            ws.send(JSON.stringify({ type: 'TRADER_ALERTS', ...trader.alerts.getState() }));
+                            break;
+                        }
+                        case 'TRADER_CLEAR_ALERT_HISTORY': {
+                            trader.alerts.clearHistory();
+                            ws.send(JSON.stringify({ type: 'TRADER_ALERTS', ...trader.alerts.getState() }));
+                            break;
+                        }
+                        case 'TRADER_TEST_ALERT_CHANNEL': {
+                            const result = await trader.alerts.testChannel(data.channel);
+                            ws.send(JSON.stringify({ type: 'TRADER_ALERT_CHANNEL_TEST', channel: data.channel, ...result }));
+                            break;
+                        }
+                        case 'TRADER_SEND_EMAIL': {
+                            const result = await trader.alerts.sendEmail(data.to, data.subject, data.body);
+                            toolApprovals.recordOutcome(wsAuthUser.id, data.approvalId, !result.error, result.error || `Email sent to ${result.to}`);
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error }));
+                            } else {
+                                ws.send(JSON.stringify({ type: 'TRADER_EMAIL_SENT', requestId: data.requestId, to: result.to }));
+                            }
+                            break;
+                        }
+                        case 'TRADER_GET_PROPOSALS': {
+                            ws.send(JSON.stringify({ type: 'TRADER_PROPOSALS', proposals: trader.getProposals() }));
+                            break;
+                        }
+                        case 'TRADER_PROPOSE_TRADE': {
+                            const result = await trader.proposeTrade(data.proposal || {}, { agentId: data.agentId, agentName: data.agentName });
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error, context: 'proposals' }));
+                            } else {
+                                ws.send(JSON.stringify({ type: 'TRADER_PROPOSAL_CREATED', requestId: data.requestId, proposal: result.proposal }));
+                            }
+                            break;
+                        }
+                        case 'TRADER_APPROVE_PROPOSAL':
+                        case 'TRADER_REJECT_PROPOSAL': {
+                            const result = data.type === 'TRADER_APPROVE_PROPOSAL'
+                                ? await trader.approveProposal(data.proposalId)
+                                : trader.rejectProposal(data.proposalId, data.reason);
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error, context: 'proposals' }));
+                            } else {
+                                ws.send(JSON.stringify({ type: 'TRADER_PROPOSALS', proposals: trader.getProposals() }));
+                            }
+                            break;
+                        }
+                        case 'TRADER_PNL': {
+                            const pnl = await trader.getPnl({ days: data.days });
+                            ws.send(JSON.stringify({ type: 'TRADER_PNL', ...pnl }));
                             break;
                         }
                         // Phase 1: Indicators + Strategy Engine
                         case 'TRADER_INDICATORS': {
-                            const ind = await trader.getIndicators(data.pair || 'SOL/USDC', data.timeframe || 'day');
-                            ws.send(JSON.stringify({ type: 'TRADER_INDICATORS', ...ind }));
+                            const ind = await trader.getIndicators(data.pair || 'SOL/USDC', data.timeframe || 'day', { series: !!data.series });
+                            ws.send(JSON.stringify({ type: 'TRADER_INDICATORS', requestId: data.requestId, ...ind }));
                             break;
                         }
                         case 'TRADER_CANDLES': {
                             const result = await trader.getCandles(data.pair || 'SOL/USDC', data.timeframe || 'day', data.limit || 300);
-                            ws.send(JSON.stringify({ type: 'TRADER_CANDLES', ...result }));
+                            ws.send(JSON.stringify({ type: 'TRADER_CANDLES', requestId: data.requestId, ...result }));
                             break;
                         }
                         case 'TRADER_SAVE_STRATEGY': {
                             const result = trader.saveStrategy(data.strategy);
-                            ws.send(JSON.stringify({ type: 'TRADER_STRATEGIES', ...result }));
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error, context: 'strategy' }));
+                            } else {
+                                ws.send(JSON.stringify({ type: 'TRADER_STRATEGIES', ...result }));
+                            }
+                            break;
+                        }
+                        case 'TRADER_VALIDATE_EXPRESSION': {
+                            const result = await trader.validateExpression(data.expression, data.pair, data.timeframe || 'day');
+                            ws.send(JSON.stringify({ type: 'TRADER_EXPRESSION_CHECK', ...result }));
                             break;
                         }
                         case 'TRADER_DELETE_STRATEGY': {
@@ -1329,28 +1482,55 @@ wss.on('connection', (ws) => {
                             break;
                         }
                         case 'TRADER_GET_POSITIONS': {
-                            ws.send(JSON.stringify({ type: 'TRADER_POSITIONS', positions: trader.getPositions(data.status || 'all') }));
+                            ws.send(JSON.stringify({ type: 'TRADER_POSITIONS', requestId: data.requestId, positions: trader.getPositions(data.status || 'all') }));
                             break;
                         }
                         case 'TRADER_EVALUATE': {
-                            const result = await trader.evaluateStrategy(data.strategyName, data.pair || 'SOL/USDC');
-                            ws.send(JSON.stringify({ type: 'TRADER_EVALUATION', ...result }));
+                            const result = await trader.evaluateStrategy(data.strategyName, data.pair);
+                            ws.send(JSON.stringify({ type: 'TRADER_EVALUATION', requestId: data.requestId, ...result }));
+                            break;
+                        }
+                        case 'TRADER_SCAN': {
+                            await trader.scanStrategies(); // broadcasts TRADER_SCAN
+                            break;
+                        }
+                        case 'TRADER_GET_SCAN': {
+                            ws.send(JSON.stringify({ type: 'TRADER_SCAN', ...trader.getScanResults() }));
+                            break;
+                        }
+                        case 'TRADER_SET_WATCHLIST': {
+                            const result = trader.setWatchlist(data.pairs);
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error, context: 'watchlist' }));
+                            } else {
+                                ws.send(JSON.stringify({ type: 'TRADER_SCAN', ...trader.getScanResults() }));
+                            }
+                            break;
+                        }
+                        case 'TRADER_BACKTEST': {
+                            const result = await trader.backtest(data.strategyName, data.pair, data.options || {});
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error, context: 'backtest' }));
+                            } else {
+                                ws.send(JSON.stringify({ type: 'TRADER_BACKTEST', ...result }));
+                            }
                             break;
                         }
                         // Phase 3: Jupiter Perps
                         case 'TRADER_OPEN_PERP': {
                             const result = await trader.openPerp(data.market, data.side, data.collateralUsd, data.leverage, data.collateralToken);
+                            toolApprovals.recordOutcome(wsAuthUser.id, data.approvalId, !result.error, result.error || `Opened (tx: ${result.signature || 'paper'})`);
                             if (result.error) {
-                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', error: result.error }));
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error }));
                             } else {
-                                ws.send(JSON.stringify({ type: 'TRADER_PERP_OPENED', ...result }));
+                                ws.send(JSON.stringify({ type: 'TRADER_PERP_OPENED', requestId: data.requestId, ...result }));
                             }
                             break;
                         }
                         case 'TRADER_CLOSE_PERP': {
                             const result = await trader.closePerp(data.positionKey);
                             if (result.error) {
-                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', error: result.error }));
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error }));
                             } else {
                                 ws.send(JSON.stringify({ type: 'TRADER_PERP_CLOSED', signature: result.signature }));
                             }
@@ -1358,7 +1538,7 @@ wss.on('connection', (ws) => {
                         }
                         case 'TRADER_GET_PERPS': {
                             const result = await trader.getPerps();
-                            ws.send(JSON.stringify({ type: 'TRADER_PERPS_POSITIONS', ...result }));
+                            ws.send(JSON.stringify({ type: 'TRADER_PERPS_POSITIONS', requestId: data.requestId, ...result }));
                             break;
                         }
                         case 'TRADER_GET_PERPS_MARKETS': {
@@ -1378,10 +1558,53 @@ wss.on('connection', (ws) => {
                             ws.send(JSON.stringify({ type: 'TRADER_PERPS_AUTO_ACK', enabled: data.enabled }));
                             break;
                         }
+                        case 'TRADER_GET_PERPS_RISK': {
+                            ws.send(JSON.stringify({ type: 'TRADER_PERPS_RISK', ...trader.getPerpsRiskProfile() }));
+                            break;
+                        }
+                        case 'TRADER_SET_PERPS_RISK': {
+                            const result = trader.setPerpsRiskProfile(data.profile);
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error, context: 'perps_risk' }));
+                            } else {
+                                ws.send(JSON.stringify({ type: 'TRADER_PERPS_RISK', ...trader.getPerpsRiskProfile(), saved: true }));
+                            }
+                            break;
+                        }
+                        case 'TRADER_GET_MARKET_DATA': {
+                            ws.send(JSON.stringify({ type: 'TRADER_MARKET_DATA', ...trader.getMarketDataSource() }));
+                            break;
+                        }
+                        case 'TRADER_SET_MARKET_DATA': {
+                            const result = trader.setMarketDataSource(data.config || {});
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error, context: 'market_data' }));
+                            } else {
+                                console.log(`[SolanaTrader] Market data: ${result.marketData.source}`);
+                                ws.send(JSON.stringify({ type: 'TRADER_MARKET_DATA', ...result }));
+                            }
+                            break;
+                        }
+                        case 'TRADER_PAPER_MODE': {
+                            const result = trader.setPaperMode(data.enabled, {
+                                slippageBps: data.slippageBps,
+                                reset: data.reset,
+                                sol: data.sol,
+                                usdc: data.usdc,
+                            });
+                            if (result.error) {
+                                ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: result.error }));
+                            } else {
+                                console.log(`[SolanaTrader] Paper mode: ${result.paperMode ? 'ON' : 'OFF'}`);
+                                ws.send(JSON.stringify({ type: 'TRADER_PAPER_MODE_ACK', ...result }));
+                            }
+                            break;
+                        }
                     }
                 } catch (e) {
                     console.error('[SolanaTrader] WS handler error:', e.message);
-                    ws.send(JSON.stringify({ type: 'TRADER_ERROR', error: e.message }));
+                    if (risky) toolApprovals.recordOutcome(wsAuthUser.id, data.approvalId, false, e.message);
+                    ws.send(JSON.stringify({ type: 'TRADER_ERROR', requestId: data.requestId, error: e.message }));
                 }
             }
 
@@ -1392,5 +1615,6 @@ wss.on('connection', (ws) => {
 
     ws.on('close', () => {
         console.log('[Link] Frontend disconnected.');
+        if (wsAuthUser) toolApprovals.unregister(wsAuthUser.id, ws);
     });
 });
@@ -1,15 +1,22 @@
 /*
  * ClawKeep REST API Router
- * Adds /api/* endpoints to the HTTP server for persistent CRUD
+ * Per-user /api/* endpoints for resources, config and bulk sync.
+ * Mounted by server.js after token auth — every handler is scoped to authUser.
  */
 
-const { getAll, getById, insert, update, deleteById, deleteAll, getConfig, setConfig, bulkInsert } = require('./db.cjs');
+const {
+    getResource, listRows, getRow, insertRow, updateRow, deleteRow, deleteRows,
+    replaceAll, getUserValue, setUserValue, getUserValues, RESOURCES
+} = require('./db.cjs');
+const vaultIndex = require('./vaultIndex.cjs');
+const missionScheduler = require('./missionScheduler.cjs');
+const usage = require('./usage.cjs');
 
 // --- Helper: Parse JSON body from IncomingMessage ---
 function parseBody(req) {
     return new Promise((resolve, reject) => {
         let body = '';
-        req.on('data', chunk => body += chunk);
+        req.on('data', chunk => { body += chunk; if (body.length > 1e7) reject(new Error('Body too large')); });
         req.on('end', () => {
             try { resolve(body ? JSON.parse(body) : {}); }
             catch (e) { reject(new Error('Invalid JSON')); }
@@ -19,179 +26,274 @@ function parseBody(req) {
 }
 
 // --- Helper: Send JSON response ---
-function json(res, data, status = 200) {
+function json(res, data, status = 200, extraHeaders = {}) {
     res.writeHead(status, {
         'Content-Type': 'application/json',
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type'
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Expose-Headers': 'X-Total-Count',
+        ...extraHeaders
     });
     res.end(JSON.stringify(data));
 }
 
+// Query params that control paging/search rather than filter on a column
+const RESERVED_PARAMS = ['limit', 'offset', 'query'];
+
+function filtersFrom(searchParams) {
+    const filters = {};
+    for (const [key, value] of searchParams) {
+        if (!RESERVED_PARAMS.includes(key)) filters[key] = value;
+    }
+    return filters;
+}
+
 // --- CRUD route factory ---
-function crudRoutes(table) {
+function crudRoutes(name) {
     return {
-        async GET(req, res, id) {
+        async GET(req, res, id, userId, searchParams) {
             if (id) {
-                const row = getById(table, id);
-                if (!row) return json(res, { error: 'Not found' }, 404);
-                // Parse JSON fields
-                return json(res, parseJsonFields(row));
+                const item = getRow(name, userId, id);
+                return item ? json(res, item) : json(res, { error: 'Not found' }, 404);
             }
-            const rows = getAll(table).map(parseJsonFields);
-            json(res, rows);
+            const { items, total } = listRows(name, userId, {
+                filters: filtersFrom(searchParams),
+                search: searchParams.get('query'),
+                limit: searchParams.get('limit'),
+                offset: searchParams.get('offset'),
+            });
+            json(res, items, 200, { 'X-Total-Count': String(total) });
         },
-        async POST(req, res) {
+        async POST(req, res, id, userId) {
             const body = await parseBody(req);
-            if (!body.id) body.id = `${table.slice(0, -1)}_${Date.now()}`;
-            insert(table, body);
-            json(res, body, 201);
+            if (!body || typeof body !== 'object' || Array.isArray(body)) return json(res, { error: 'Expected a JSON object' }, 400);
+            json(res, insertRow(name, userId, body), 201);
         },
-        async PUT(req, res, id) {
+        async PUT(req, res, id, userId) {
             if (!id) return json(res, { error: 'ID required' }, 400);
             const body = await parseBody(req);
-            update(table, id, body);
-            const updated = getById(table, id);
-            json(res, parseJsonFields(updated || {}));
+            const updated = updateRow(name, userId, id, body);
+            return updated ? json(res, updated) : json(res, { error: 'Not found' }, 404);
         },
-        async DELETE(req, res, id) {
+        async DELETE(req, res, id, userId) {
             if (!id) return json(res, { error: 'ID required' }, 400);
-            deleteById(table, id);
-            json(res, { success: true });
+            deleteRow(name, userId, id);
+            json(res, { ok: true });
         }
     };
 }
 
-// Parse JSON string fields (tags, items) back to arrays
-function parseJsonFields(row) {
-    if (!row) return row;
-    const out = { ...row };
-    for (const key of ['tags', 'items']) {
-        if (typeof out[key] === 'string') {
-            try { out[key] = JSON.parse(out[key]); } catch { }
+// --- Memories: validated writes + bulk delete by category ---
+function memoryRoutes() {
+    const base = crudRoutes('memories');
+    const validConfidence = (c) => typeof c === 'number' && c >= 0 && c <= 1;
+    // Vectors come from the browser's embeddingService — same size as the vault index's
+    const embeddingError = (body) => {
+        if (body.embedding === undefined && body.embeddingModel === undefined) return null;
+        if (!Array.isArray(body.embedding) || body.embedding.length !== vaultIndex.EMBED_DIMENSIONS || !body.embedding.every(Number.isFinite)) {
+            return `embedding must be an array of ${vaultIndex.EMBED_DIMENSIONS} numbers`;
         }
-    }
-    return out;
+        if (typeof body.embeddingModel !== 'string' || !body.embeddingModel.trim()) return 'embeddingModel is required with an embedding';
+        return null;
+    };
+
+    return {
+        async GET(req, res, id, userId, searchParams) {
+            if (searchParams.has('category')) searchParams.set('category', searchParams.get('category').toUpperCase());
+            return base.GET(req, res, id, userId, searchParams);
+        },
+        async POST(req, res, id, userId) {
+            const body = await parseBody(req);
+            if (!body.fact || typeof body.fact !== 'string') return json(res, { error: 'fact is required' }, 400);
+            if (body.confidence !== undefined && !validConfidence(body.confidence)) return json(res, { error: 'confidence must be a number between 0 and 1' }, 400);
+            const invalidEmbedding = embeddingError(body);
+            if (invalidEmbedding) return json(res, { error: invalidEmbedding }, 400);
+            const now = new Date().toISOString();
+            const memory = {
+                id: body.id || `mem_${Date.now()}`,
+                fact: body.fact.trim(),
+                category: String(body.category || 'GENERAL').toUpperCase(),
+                source: body.source || 'conversation',
+                confidence: body.confidence ?? 0.9,
+                createdAt: body.createdAt || now,
+                lastAccessed: body.lastAccessed || now,
+                accessCount: body.accessCount || 0,
+                ...(body.embedding ? { embedding: body.embedding, embeddingModel: body.embeddingModel.trim() } : {})
+            };
+            json(res, insertRow('memories', userId, memory), 201);
+        },
+        async PUT(req, res, id, userId) {
+            if (!id) return json(res, { error: 'ID required' }, 400);
+            const body = await parseBody(req);
+            if (body.confidence !== undefined && !validConfidence(body.confidence)) return json(res, { error: 'confidence must be a number between 0 and 1' }, 400);
+            const invalidEmbedding = embeddingError(body);
+            if (invalidEmbedding) return json(res, { error: invalidEmbedding }, 400);
+            if (body.category) body.category = String(body.category).toUpperCase();
+            const updated = updateRow('memories', userId, id, body);
+            return updated ? json(res, updated) : json(res, { error: 'Not found' }, 404);
+        },
+        async DELETE(req, res, id, userId, searchParams) {
+            if (id) return base.DELETE(req, res, id, userId);
+            // DELETE /api/memories?category=X — forget a whole category
+            const category = searchParams.get('category');
+            if (!category) return json(res, { error: 'ID or category required' }, 400);
+            const deleted = deleteRows('memories', userId, { category: category.toUpperCase() });
+            json(res, { ok: true, deleted });
+        }
+    };
 }
 
 // --- Route Table ---
-const tables = {
-    tasks: crudRoutes('tasks'),
-    agents: crudRoutes('agents'),
-    expenses: crudRoutes('expenses'),
-    checklists: crudRoutes('checklists'),
-    chat: crudRoutes('chat_messages'),
-    contacts: crudRoutes('contacts'),
-    cron: crudRoutes('cron_jobs'),
-    events: crudRoutes('events'),
-    documents: crudRoutes('documents'),
-    memories: crudRoutes('memories'),
-    agent_logs: crudRoutes('agent_logs')
-};
-
-// --- Main API handler ---
-async function handleApiRequest(req, res) {
-    const url = new URL(req.url, `http://${req.headers.host}`);
-    const parts = url.pathname.split('/').filter(Boolean); // ['api', 'tasks', 'id?']
+const tables = {};
+for (const name of Object.keys(RESOURCES)) tables[name] = crudRoutes(name);
+tables.memories = memoryRoutes();
 
-    // CORS preflight
-    if (req.method === 'OPTIONS') {
-        res.writeHead(204, {
-            'Access-Control-Allow-Origin': '*',
-            'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-            'Access-Control-Allow-Headers': 'Content-Type'
-        });
-        return res.end();
-    }
+// Resources served over REST by this router
+const MOUNTED = ['tasks', 'documents', 'agents', 'expenses', 'checklists', 'chat', 'contacts', 'cron', 'events', 'memories', 'missions', 'agent_logs'];
+// Collections the browser owns and may replace wholesale through /api/sync. The
+// mission scheduler writes missions and field reports itself — those change row by row only.
+const SYNCED = MOUNTED.filter(name => name !== 'missions' && name !== 'agent_logs');
+// Field reports grow without bound — /sync/pull sends the latest, the rest are paged
+const PULL_LOG_LIMIT = 100;
 
+/**
+ * Handle an authenticated /api/* request
+ * @param {http.IncomingMessage} req
+ * @param {http.ServerResponse} res
+ * @param {{ id: string }} authUser - verified JWT payload
+ * @returns {Promise<boolean>} false if the route isn't handled here
+ */
+async function handleApiRequest(req, res, authUser) {
+    const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+    const parts = url.pathname.split('/').filter(Boolean); // ['api', 'tasks', 'id?']
     if (parts[0] !== 'api') return false;
 
-    const resource = parts[1]; // 'tasks', 'agents', etc.
-    const id = parts[2] || null;
+    const resource = parts[1];
+    const id = parts[2] ? decodeURIComponent(parts.slice(2).join('/')) : null;
+    const userId = authUser.id;
 
-    // --- Special: /api/config ---
-    if (resource === 'config') {
-        if (req.method === 'GET') {
-            const key = id;
-            if (key) {
-                const val = getConfig(key);
-                return json(res, { key, value: val });
-            }
-            // Return all config
-            const { getAll: ga } = require('./db.cjs');
-            const all = ga('config');
-            const configMap = {};
-            all.forEach(row => {
-                try { configMap[row.key] = JSON.parse(row.value); } catch { configMap[row.key] = row.value; }
-            });
-            return json(res, configMap);
-        }
-        if (req.method === 'PUT' || req.method === 'POST') {
-            const body = await parseBody(req);
-            if (body.key && body.value !== undefined) {
-                setConfig(body.key, body.value);
-                return json(res, { success: true });
+    try {
+        // --- /api/sync/pull — download all data at once ---
+        if (resource === 'sync' && parts[2] === 'pull' && req.method === 'GET') {
+            const data = { config: {} };
+            for (const row of getUserValues(userId)) {
+                let value;
+                try { value = JSON.parse(row.value); } catch { value = row.value; }
+                if (row.key.startsWith('config_')) data.config[row.key.replace('config_', '')] = value;
+                else data[row.key] = value;
             }
-            // Bulk set
-            for (const [k, v] of Object.entries(body)) {
-                setConfig(k, v);
+            for (const name of MOUNTED) {
+                data[name] = listRows(name, userId, name === 'agent_logs' ? { limit: PULL_LOG_LIMIT } : {}).items;
             }
-            return json(res, { success: true });
+            json(res, data);
+            return true;
         }
-    }
 
-    // --- Special: /api/sync (bulk upload all data) ---
-    if (resource === 'sync') {
-        if (req.method === 'POST') {
+        // --- /api/sync — push full collections (replaces each one sent) ---
+        if (resource === 'sync' && !parts[2] && req.method === 'POST') {
             const body = await parseBody(req);
             const synced = [];
-            for (const [table, items] of Object.entries(body)) {
-                if (tables[table] && Array.isArray(items) && items.length > 0) {
-                    const dbTable = table === 'chat' ? 'chat_messages' : table === 'cron' ? 'cron_jobs' : table;
-                    bulkInsert(dbTable, items);
-                    synced.push(`${table}: ${items.length}`);
+            const skipped = [];
+            for (const [key, value] of Object.entries(body)) {
+                if (SYNCED.includes(key) && Array.isArray(value)) {
+                    replaceAll(key, userId, value);
+                    synced.push(`${key}: ${value.length}`);
+                } else if (MOUNTED.includes(key)) {
+                    skipped.push(key); // server-owned (or not an array) — use the row endpoints
+                } else {
+                    setUserValue(userId, key, value);
                 }
             }
-            return json(res, { success: true, synced });
+            json(res, { ok: true, synced, ...(skipped.length ? { skipped } : {}) });
+            return true;
         }
-    }
 
-    // --- Special: /api/sync/pull (download all data at once) ---
-    if (resource === 'sync' && parts[2] === 'pull') {
-        if (req.method === 'GET') {
-            const data = {};
-            for (const name of Object.keys(tables)) {
-                const dbTable = name === 'chat' ? 'chat_messages' : name === 'cron' ? 'cron_jobs' : name;
-                data[name] = getAll(dbTable).map(parseJsonFields);
+        // --- /api/config/:key and PUT /api/config ---
+        if (resource === 'config') {
+            if (req.method === 'GET' && id) {
+                const value = getUserValue(userId, `config_${id}`);
+                json(res, { value: value === undefined ? null : value });
+                return true;
             }
-            data.config = {};
-            getAll('config').forEach(row => {
-                try { data.config[row.key] = JSON.parse(row.value); } catch { data.config[row.key] = row.value; }
+            if (req.method === 'PUT' || req.method === 'POST') {
+                const { key, value } = await parseBody(req);
+                if (!key) { json(res, { error: 'Key required' }, 400); return true; }
+                setUserValue(userId, `config_${key}`, value);
+                json(res, { ok: true });
+                return true;
+            }
+        }
+
+        // --- /api/vault/search?query=&category=&limit= — ranked snippets from the vault index ---
+        if (resource === 'vault' && parts[2] === 'search' && req.method === 'GET') {
+            const query = url.searchParams.get('query') || '';
+            if (!query.trim()) { json(res, { error: 'query required' }, 400); return true; }
+            const results = await vaultIndex.search(userId, query, {
+                category: url.searchParams.get('category'),
+                limit: url.searchParams.get('limit')
             });
-            return json(res, data);
+            json(res, { query, results, indexed: vaultIndex.getStats(userId) });
+            return true;
         }
-    }
 
-    // --- Standard CRUD ---
-    const handler = tables[resource];
-    if (!handler) {
-        return json(res, { error: `Unknown resource: ${resource}` }, 404);
-    }
+        // --- /api/missions/scheduler — does the server run missions itself? ---
+        if (resource === 'missions' && parts[2] === 'scheduler' && req.method === 'GET') {
+            json(res, { enabled: missionScheduler.isEnabled(), intervals: missionScheduler.INTERVALS });
+            return true;
+        }
 
-    try {
-        const method = req.method;
-        if (handler[method]) {
-            await handler[method](req, res, id);
-        } else {
-            json(res, { error: `Method ${method} not allowed` }, 405);
+        // --- POST /api/missions/:agentId/run — run a mission now on the server ---
+        if (resource === 'missions' && parts[3] === 'run' && req.method === 'POST') {
+            if (!missionScheduler.isEnabled()) { json(res, { error: 'Server scheduler disabled' }, 409); return true; }
+            const agentId = decodeURIComponent(parts[2]);
+            if (!getRow('missions', userId, agentId)) { json(res, { error: 'Agent not deployed' }, 404); return true; }
+            // Missions take a while — report lands in /api/agent_logs
+            missionScheduler.runMission(userId, agentId, { force: true })
+                .catch(e => console.error('[API] Mission run failed:', e.message));
+            json(res, { ok: true, started: true }, 202);
+            return true;
         }
+
+        // --- /api/usage — model usage entries and spend rollups ---
+        if (resource === 'usage') {
+            // GET /api/usage/summary?since=YYYY-MM-DD — totals, per-model, per-day from `since`, recent calls
+            if (parts[2] === 'summary' && req.method === 'GET') {
+                json(res, usage.summary(userId, url.searchParams.get('since')));
+                return true;
+            }
+            // POST /api/usage { entries } — idempotent by entry id
+            if (!parts[2] && req.method === 'POST') {
+                const { entries } = await parseBody(req);
+                if (!Array.isArray(entries)) { json(res, { error: 'entries array required' }, 400); return true; }
+                json(res, { ok: true, recorded: usage.recordMany(userId, entries) });
+                return true;
+            }
+            // GET /api/usage?agentId=&model=&day_gte=&limit=&offset= — raw entries, newest first
+            if (!parts[2] && req.method === 'GET') {
+                await tables.usage.GET(req, res, null, userId, url.searchParams);
+                return true;
+            }
+            if (!parts[2] && req.method === 'DELETE') {
+                usage.reset(userId);
+                json(res, { ok: true });
+                return true;
+            }
+        }
+
+        // --- Standard CRUD ---
+        if (!MOUNTED.includes(resource) || !getResource(resource)) return false;
+        const handler = tables[resource][req.method];
+        if (!handler) {
+            json(res, { error: `Method ${req.method} not allowed` }, 405);
+            return true;
+        }
+        await handler(req, res, id, userId, url.searchParams);
     } catch (err) {
         console.error(`[API] Error:`, err.message);
         json(res, { error: err.message }, 500);
     }
-
     return true;
 }
 
-module.exports = { handleApiRequest };
+module.exports = { handleApiRequest, MOUNTED };
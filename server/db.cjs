@@ -1,196 +1,249 @@
 /*
  * ClawKeep Database Module (SQLite)
- * Persistent storage for all Claw data
+ * Single persistence layer for server.js: auth tables + per-user resource rows.
+ * Schema changes live in migrations.cjs and are applied on load.
  */
 
 const Database = require('better-sqlite3');
+const fs = require('fs');
 const path = require('path');
+const { MIGRATIONS } = require('./migrations.cjs');
 
-const DB_PATH = path.join(__dirname, 'claw.db');
+const DB_PATH = process.env.CLAW_DB_PATH || path.join(__dirname, '..', 'data', 'openclaw.db');
+if (!fs.existsSync(path.dirname(DB_PATH))) fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
 const db = new Database(DB_PATH);
 
 // Enable WAL mode for better concurrent read performance
 db.pragma('journal_mode = WAL');
 
-// --- Schema Initialization ---
-db.exec(`
-  CREATE TABLE IF NOT EXISTS tasks (
-    id TEXT PRIMARY KEY,
-    title TEXT NOT NULL,
-    description TEXT DEFAULT '',
-    status TEXT DEFAULT 'TODO',
-    priority TEXT DEFAULT 'MEDIUM',
-    dueDate TEXT,
-    tags TEXT DEFAULT '[]',
-    emoji TEXT DEFAULT '',
-    color TEXT DEFAULT '',
-    createdAt TEXT DEFAULT (datetime('now')),
-    updatedAt TEXT DEFAULT (datetime('now'))
-  );
-
-  CREATE TABLE IF NOT EXISTS documents (
-    id TEXT PRIMARY KEY,
-    name TEXT NOT NULL,
-    category TEXT DEFAULT 'MISC',
-    type TEXT DEFAULT 'NOTE',
-    status TEXT DEFAULT 'ACTIVE',
-    lastModified TEXT DEFAULT (datetime('now')),
-    content TEXT DEFAULT '',
-    size TEXT DEFAULT '',
-    emoji TEXT DEFAULT '',
-    color TEXT DEFAULT ''
-  );
-
-  CREATE TABLE IF NOT EXISTS agents (
-    id TEXT PRIMARY KEY,
-    name TEXT NOT NULL,
-    mascot TEXT DEFAULT '',
-    specialty TEXT DEFAULT '',
-    quest TEXT DEFAULT '',
-    status TEXT DEFAULT 'ACTIVE',
-    color TEXT DEFAULT '',
-    lastDirective TEXT DEFAULT '',
-    createdAt TEXT DEFAULT (datetime('now'))
-  );
-
-  CREATE TABLE IF NOT EXISTS expenses (
-    id TEXT PRIMARY KEY,
-    description TEXT NOT NULL,
-    amount REAL NOT NULL,
-    category TEXT DEFAULT 'OTHER',
-    date TEXT DEFAULT (datetime('now')),
-    notes TEXT DEFAULT ''
-  );
-
-  CREATE TABLE IF NOT EXISTS checklists (
-    id TEXT PRIMARY KEY,
-    title TEXT NOT NULL,
-    items TEXT DEFAULT '[]',
-    category TEXT DEFAULT 'GENERAL',
-    emoji TEXT DEFAULT '',
-    createdAt TEXT DEFAULT (datetime('now'))
-  );
-
-  CREATE TABLE IF NOT EXISTS chat_messages (
-    id TEXT PRIMARY KEY,
-    role TEXT NOT NULL,
-    content TEXT NOT NULL,
-    timestamp TEXT DEFAULT (datetime('now'))
-  );
-
-  CREATE TABLE IF NOT EXISTS contacts (
-    id TEXT PRIMARY KEY,
-    name TEXT NOT NULL,
-    company TEXT DEFAULT '',
-    email TEXT DEFAULT '',
-    phone TEXT DEFAULT '',
-    role TEXT DEFAULT '',
-    notes TEXT DEFAULT '',
-    tags TEXT DEFAULT '[]',
-    createdAt TEXT DEFAULT (datetime('now'))
-  );
-
-  CREATE TABLE IF NOT EXISTS cron_jobs (
-    id TEXT PRIMARY KEY,
-    name TEXT NOT NULL,
-    command TEXT NOT NULL,
-    schedule TEXT NOT NULL,
-    lastRun TEXT,
-    nextRun TEXT,
-    status TEXT DEFAULT 'ACTIVE',
-    channel TEXT DEFAULT 'silent'
-  );
-
-  CREATE TABLE IF NOT EXISTS config (
-    key TEXT PRIMARY KEY,
-    value TEXT NOT NULL,
-    updatedAt TEXT DEFAULT (datetime('now'))
-  );
-
-  CREATE TABLE IF NOT EXISTS events (
-    id TEXT PRIMARY KEY,
-    title TEXT NOT NULL,
-    date TEXT NOT NULL,
-    time TEXT DEFAULT '',
-    type TEXT DEFAULT 'MEETING',
-    description TEXT DEFAULT '',
-    color TEXT DEFAULT ''
-  );
-`);
-
-console.log(`[DB] SQLite initialized at ${DB_PATH}`);
-
-// --- Generic CRUD Helpers ---
-
-function getAll(table) {
-  return db.prepare(`SELECT * FROM ${table} ORDER BY rowid DESC`).all();
-}
-
-function getById(table, id) {
-  return db.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(id);
-}
-
-function insert(table, data) {
-  const keys = Object.keys(data);
-  const placeholders = keys.map(() => '?').join(', ');
-  const stmt = db.prepare(`INSERT OR REPLACE INTO ${table} (${keys.join(', ')}) VALUES (${placeholders})`);
-  return stmt.run(...keys.map(k => {
-    const v = data[k];
-    // Serialize arrays/objects as JSON
-    return (typeof v === 'object' && v !== null) ? JSON.stringify(v) : v;
-  }));
-}
-
-function update(table, id, data) {
-  const keys = Object.keys(data).filter(k => k !== 'id');
-  if (keys.length === 0) return null;
-  const setClause = keys.map(k => `${k} = ?`).join(', ');
-  const stmt = db.prepare(`UPDATE ${table} SET ${setClause}, updatedAt = datetime('now') WHERE id = ?`);
-  return stmt.run(...keys.map(k => {
-    const v = data[k];
-    return (typeof v === 'object' && v !== null) ? JSON.stringify(v) : v;
-  }), id);
-}
-
-function deleteById(table, id) {
-  return db.prepare(`DELETE FROM ${table} WHERE id = ?`).run(id);
-}
-
-function deleteAll(table) {
-  return db.prepare(`DELETE FROM ${table}`).run();
-}
-
-// Config helpers
-function getConfig(key) {
-  const row = db.prepare('SELECT value FROM config WHERE key = ?').get(key);
-  if (!row) return null;
-  try { return JSON.parse(row.value); } catch { return row.value; }
+// --- Resource Registry ---
+// URL resource name → table + the columns that can be filtered on.
+// Everything else about a row lives in its JSON `data` column.
+// `search` names the JSON field matched by free-text `?query=`.
+const RESOURCES = {
+  tasks: { table: 'tasks', columns: ['status', 'priority', 'dueDate', 'projectId', 'assignedTo'] },
+  documents: { table: 'documents', columns: ['status', 'category', 'type', 'lastModified'] },
+  agents: { table: 'agents', columns: ['status', 'specialty'] },
+  expenses: { table: 'expenses', columns: ['category', 'vendor', 'amount', 'date'] },
+  checklists: { table: 'checklists', columns: ['category'] },
+  chat: { table: 'chat_messages', columns: ['role', 'timestamp'] },
+  contacts: { table: 'contacts', columns: ['type', 'tier', 'company'] },
+  cron: { table: 'cron_jobs', columns: ['status', 'channel'] },
+  events: { table: 'events', columns: ['type', 'start'] },
+  memories: { table: 'memories', columns: ['category', 'source', 'confidence'], search: 'fact' },
+  agent_logs: { table: 'agent_logs', columns: ['agentId', 'type'] },
+  missions: { table: 'agent_missions', columns: ['agentId', 'schedule', 'lastRun', 'isRunning'] },
+  approvals: { table: 'tool_approvals', columns: ['status', 'toolName', 'type'] },
+  usage: { table: 'usage_entries', columns: ['provider', 'model', 'agentId', 'day'] },
+};
+
+const MAX_PAGE_SIZE = 1000;
+
+// Column values must be SQLite scalars
+function toColumn(v) {
+  if (v === undefined || v === null) return null;
+  if (typeof v === 'boolean') return v ? 1 : 0;
+  if (typeof v === 'object') return JSON.stringify(v);
+  return v;
+}
+
+function parseData(row) {
+  try { return JSON.parse(row.data); } catch { return null; }
+}
+
+// --- Row Writes ---
+
+/**
+ * Upsert one item for a user. Keeps rowid on update so list order is stable.
+ */
+function writeRow(resource, userId, item) {
+  const { table, columns } = resource;
+  const sql = `
+    INSERT INTO ${table} (user_id, id, ${columns.join(', ')}, data, updatedAt)
+    VALUES (?, ?, ${columns.map(() => '?').join(', ')}, ?, datetime('now'))
+    ON CONFLICT(user_id, id) DO UPDATE SET
+      ${columns.map(c => `${c} = excluded.${c}`).join(', ')},
+      data = excluded.data,
+      updatedAt = excluded.updatedAt
+  `;
+  db.prepare(sql).run(userId, String(item.id), ...columns.map(c => toColumn(item[c])), JSON.stringify(item));
+  return item;
+}
+
+// --- Migrations ---
+
+function runMigrations() {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt TEXT DEFAULT (datetime('now'))
+    );
+  `);
+  const applied = new Set(db.prepare('SELECT version FROM schema_migrations').all().map(r => r.version));
+  const pending = MIGRATIONS.filter(m => !applied.has(m.version)).sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(migration.version, migration.name);
+    })();
+    console.log(`[DB] Migration ${migration.version} applied: ${migration.name}`);
+  }
+  return pending.map(m => m.version);
+}
+
+function getSchemaVersion() {
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get();
+  return row?.version || 0;
+}
+
+runMigrations();
+console.log(`[DB] SQLite initialized at ${DB_PATH} (schema v${getSchemaVersion()})`);
+
+// --- Per-User CRUD Helpers ---
+
+function getResource(name) {
+  return RESOURCES[name] || null;
+}
+
+// Build the WHERE clause shared by list + bulk delete
+function buildWhere(resource, userId, query) {
+  const where = ['user_id = ?'];
+  const params = [userId];
+
+  for (const [key, value] of Object.entries(query.filters || {})) {
+    const range = key.match(/^(.+)_(gte|lte)$/);
+    const column = range ? range[1] : key;
+    if (!resource.columns.includes(column)) continue;
+    where.push(`${column} ${range ? (range[2] === 'gte' ? '>=' : '<=') : '='} ?`);
+    params.push(value);
+  }
+  if (query.search && resource.search) {
+    where.push(`json_extract(data, '$.${resource.search}') LIKE ? ESCAPE '\\'`);
+    params.push(`%${String(query.search).replace(/[\\%_]/g, '\\$&')}%`);
+  }
+  return { whereSql: where.join(' AND '), params };
+}
+
+/**
+ * List a user's rows, newest first
+ * @param {Object} query - { filters: { column: value, column_gte, column_lte }, search, limit, offset }
+ * @returns {{ items: Object[], total: number }}
+ */
+function listRows(resourceName, userId, query = {}) {
+  const resource = RESOURCES[resourceName];
+  const { whereSql, params } = buildWhere(resource, userId, query);
+  const total = db.prepare(`SELECT COUNT(*) AS count FROM ${resource.table} WHERE ${whereSql}`).get(...params).count;
+
+  let sql = `SELECT data FROM ${resource.table} WHERE ${whereSql} ORDER BY rowid DESC`;
+  const limit = Math.min(parseInt(query.limit) || 0, MAX_PAGE_SIZE);
+  if (limit > 0) {
+    sql += ' LIMIT ? OFFSET ?';
+    params.push(limit, Math.max(0, parseInt(query.offset) || 0));
+  }
+  const items = db.prepare(sql).all(...params).map(parseData).filter(Boolean);
+  return { items, total };
 }
 
-function setConfig(key, value) {
-  const serialized = typeof value === 'object' ? JSON.stringify(value) : String(value);
-  db.prepare('INSERT OR REPLACE INTO config (key, value, updatedAt) VALUES (?, ?, datetime("now"))').run(key, serialized);
+function getRow(resourceName, userId, id) {
+  const { table } = RESOURCES[resourceName];
+  const row = db.prepare(`SELECT data FROM ${table} WHERE user_id = ? AND id = ?`).get(userId, id);
+  return row ? parseData(row) : null;
 }
 
-// Bulk insert (for syncing)
-function bulkInsert(table, items) {
-  const tx = db.transaction((rows) => {
-    for (const row of rows) {
-      insert(table, row);
+function insertRow(resourceName, userId, item) {
+  const resource = RESOURCES[resourceName];
+  if (!item.id) item.id = `${resourceName.replace(/s$/, '')}_${Date.now()}`;
+  return writeRow(resource, userId, item);
+}
+
+/**
+ * Merge a partial update into an existing row
+ * @returns {Object|null} the merged item, or null if not found
+ */
+function updateRow(resourceName, userId, id, patch) {
+  const existing = getRow(resourceName, userId, id);
+  if (!existing) return null;
+  return writeRow(RESOURCES[resourceName], userId, { ...existing, ...patch, id: existing.id });
+}
+
+function deleteRow(resourceName, userId, id) {
+  const { table } = RESOURCES[resourceName];
+  return db.prepare(`DELETE FROM ${table} WHERE user_id = ? AND id = ?`).run(userId, id).changes > 0;
+}
+
+/**
+ * Delete every row matching the filters (at least one filter is required)
+ * @returns {number} rows deleted
+ */
+function deleteRows(resourceName, userId, filters) {
+  const resource = RESOURCES[resourceName];
+  const { whereSql, params } = buildWhere(resource, userId, { filters });
+  if (params.length < 2) throw new Error('Bulk delete requires a filter');
+  return db.prepare(`DELETE FROM ${resource.table} WHERE ${whereSql}`).run(...params).changes;
+}
+
+/**
+ * Replace a user's whole collection (used by /api/sync, which pushes full arrays)
+ */
+function replaceAll(resourceName, userId, items) {
+  const resource = RESOURCES[resourceName];
+  db.transaction(() => {
+    db.prepare(`DELETE FROM ${resource.table} WHERE user_id = ?`).run(userId);
+    // Arrays are newest-first; insert oldest-first so rowid order matches
+    for (const item of [...items].reverse()) {
+      if (item && typeof item === 'object' && item.id) writeRow(resource, userId, item);
     }
-  });
-  tx(items);
+  })();
+}
+
+function deleteUserData(userId) {
+  db.transaction(() => {
+    for (const { table } of Object.values(RESOURCES)) {
+      db.prepare(`DELETE FROM ${table} WHERE user_id = ?`).run(userId);
+    }
+    db.prepare('DELETE FROM user_data WHERE user_id = ?').run(userId);
+    db.prepare('DELETE FROM usage_daily WHERE user_id = ?').run(userId);
+    db.prepare('DELETE FROM vault_chunks WHERE user_id = ?').run(userId);
+    db.prepare('DELETE FROM vault_files WHERE user_id = ?').run(userId);
+  })();
+}
+
+// --- Per-User Key/Value (config + non-resource sync keys) ---
+
+function getUserValue(userId, key) {
+  const row = db.prepare('SELECT value FROM user_data WHERE user_id = ? AND key = ?').get(userId, key);
+  if (!row) return undefined;
+  try { return JSON.parse(row.value); } catch { return row.value; }
+}
+
+function setUserValue(userId, key, value) {
+  db.prepare(`
+    INSERT INTO user_data (user_id, key, value, updated_at) VALUES (?, ?, ?, datetime('now'))
+    ON CONFLICT(user_id, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `).run(userId, key, JSON.stringify(value));
+}
+
+function getUserValues(userId) {
+  return db.prepare('SELECT key, value FROM user_data WHERE user_id = ?').all(userId);
 }
 
 module.exports = {
   db,
-  getAll,
-  getById,
-  insert,
-  update,
-  deleteById,
-  deleteAll,
-  getConfig,
-  setConfig,
-  bulkInsert
+  RESOURCES,
+  runMigrations,
+  getSchemaVersion,
+  getResource,
+  listRows,
+  getRow,
+  insertRow,
+  updateRow,
+  deleteRow,
+  deleteRows,
+  replaceAll,
+  deleteUserData,
+  getUserValue,
+  setUserValue,
+  getUserValues
 };
@@ -0,0 +1,204 @@
+/*
+ * ClawKeep Schema Migrations
+ * Ordered, versioned schema changes. Each migration runs once, inside a
+ * transaction, and is recorded in `schema_migrations`. Never edit a shipped
+ * migration — append a new one instead.
+ */
+
+// Per-user resource tables: every row is (user_id, id) + filterable columns +
+// the full JSON object in `data`, so fields the schema doesn't know about survive.
+const resourceTable = (table, columns) => `
+  CREATE TABLE IF NOT EXISTS ${table} (
+    user_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    ${columns.map(c => `${c},`).join('\n    ')}
+    data TEXT NOT NULL DEFAULT '{}',
+    createdAt TEXT DEFAULT (datetime('now')),
+    updatedAt TEXT DEFAULT (datetime('now')),
+    PRIMARY KEY (user_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_${table}_user ON ${table} (user_id);
+`;
+
+// Blob keys → table + filterable columns as they stood when v3 shipped. Frozen
+// here (not db.cjs's live RESOURCES) so later registry changes can't alter it.
+const V3_RESOURCES = {
+  tasks: { table: 'tasks', columns: ['status', 'priority', 'dueDate', 'projectId', 'assignedTo'] },
+  documents: { table: 'documents', columns: ['status', 'category', 'type', 'lastModified'] },
+  agents: { table: 'agents', columns: ['status', 'specialty'] },
+  expenses: { table: 'expenses', columns: ['category', 'vendor', 'amount', 'date'] },
+  checklists: { table: 'checklists', columns: ['category'] },
+  chat: { table: 'chat_messages', columns: ['role', 'timestamp'] },
+  contacts: { table: 'contacts', columns: ['type', 'tier', 'company'] },
+  cron: { table: 'cron_jobs', columns: ['status', 'channel'] },
+  events: { table: 'events', columns: ['type', 'start'] },
+  memories: { table: 'memories', columns: ['category', 'source', 'confidence'] },
+  agent_logs: { table: 'agent_logs', columns: ['agentId', 'type'] },
+};
+
+const MIGRATIONS = [
+  {
+    version: 1,
+    name: 'core_auth_tables',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id TEXT PRIMARY KEY,
+          email TEXT UNIQUE NOT NULL,
+          password_hash TEXT NOT NULL,
+          name TEXT DEFAULT '',
+          role TEXT DEFAULT 'user',
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+        CREATE TABLE IF NOT EXISTS user_data (
+          user_id TEXT NOT NULL,
+          key TEXT NOT NULL,
+          value TEXT DEFAULT '{}',
+          updated_at TEXT DEFAULT (datetime('now')),
+          PRIMARY KEY (user_id, key),
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'per_user_resource_tables',
+    up(db) {
+      db.exec([
+        resourceTable('tasks', ['status TEXT', 'priority TEXT', 'dueDate TEXT', 'projectId TEXT', 'assignedTo TEXT']),
+        resourceTable('documents', ['status TEXT', 'category TEXT', 'type TEXT', 'lastModified TEXT']),
+        resourceTable('agents', ['status TEXT', 'specialty TEXT']),
+        resourceTable('expenses', ['category TEXT', 'vendor TEXT', 'amount REAL', 'date TEXT']),
+        resourceTable('checklists', ['category TEXT']),
+        resourceTable('chat_messages', ['role TEXT', 'timestamp TEXT']),
+        resourceTable('contacts', ['type TEXT', 'tier TEXT', 'company TEXT']),
+        resourceTable('cron_jobs', ['status TEXT', 'channel TEXT']),
+        resourceTable('events', ['type TEXT', 'start TEXT']),
+        resourceTable('memories', ['category TEXT', 'source TEXT', 'confidence REAL']),
+        resourceTable('agent_logs', ['agentId TEXT', 'type TEXT']),
+      ].join('\n'));
+    }
+  },
+  {
+    version: 3,
+    name: 'import_user_data_blobs',
+    // Resources used to be stored as one JSON array per user in user_data.
+    // Explode each array into rows; config_* and unknown keys stay in user_data.
+    up(db) {
+      const rows = db.prepare('SELECT user_id, key, value FROM user_data').all();
+      const drop = db.prepare('DELETE FROM user_data WHERE user_id = ? AND key = ?');
+      const toColumn = (v) => {
+        if (v === undefined || v === null) return null;
+        if (typeof v === 'boolean') return v ? 1 : 0;
+        if (typeof v === 'object') return JSON.stringify(v);
+        return v;
+      };
+      const writeRow = ({ table, columns }, userId, item) => db.prepare(`
+        INSERT INTO ${table} (user_id, id, ${columns.join(', ')}, data, updatedAt)
+        VALUES (?, ?, ${columns.map(() => '?').join(', ')}, ?, datetime('now'))
+        ON CONFLICT(user_id, id) DO UPDATE SET
+          ${columns.map(c => `${c} = excluded.${c}`).join(', ')},
+          data = excluded.data,
+          updatedAt = excluded.updatedAt
+      `).run(userId, String(item.id), ...columns.map(c => toColumn(item[c])), JSON.stringify(item));
+      let imported = 0;
+      for (const row of rows) {
+        const resource = V3_RESOURCES[row.key];
+        if (!resource) continue;
+        let items;
+        try { items = JSON.parse(row.value); } catch { continue; }
+        if (!Array.isArray(items)) continue;
+        // Blobs were newest-first; insert oldest-first so rowid order matches
+        for (const item of [...items].reverse()) {
+          if (!item || typeof item !== 'object' || !item.id) continue;
+          writeRow(resource, row.user_id, item);
+          imported++;
+        }
+        drop.run(row.user_id, row.key);
+      }
+      if (imported > 0) console.log(`[DB] Imported ${imported} rows from legacy user_data blobs`);
+    }
+  },
+  {
+    version: 4,
+    name: 'vault_search_index',
+    // Chunked text of each user's vault files, an FTS5 keyword index kept in
+    // sync by triggers, and per-chunk embeddings (Float32 BLOBs) for semantic search.
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS vault_files (
+          user_id TEXT NOT NULL,
+          path TEXT NOT NULL,
+          mtime TEXT NOT NULL,
+          size INTEGER DEFAULT 0,
+          chunks INTEGER DEFAULT 0,
+          indexedAt TEXT DEFAULT (datetime('now')),
+          PRIMARY KEY (user_id, path)
+        );
+        CREATE TABLE IF NOT EXISTS vault_chunks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id TEXT NOT NULL,
+          path TEXT NOT NULL,
+          category TEXT,
+          chunk INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          embedding BLOB,
+          embeddingModel TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_vault_chunks_file ON vault_chunks (user_id, path);
+        CREATE VIRTUAL TABLE IF NOT EXISTS vault_chunks_fts USING fts5(text, content='vault_chunks', content_rowid='id');
+        CREATE TRIGGER IF NOT EXISTS vault_chunks_ai AFTER INSERT ON vault_chunks BEGIN
+          INSERT INTO vault_chunks_fts (rowid, text) VALUES (new.id, new.text);
+        END;
+        CREATE TRIGGER IF NOT EXISTS vault_chunks_ad AFTER DELETE ON vault_chunks BEGIN
+          INSERT INTO vault_chunks_fts (vault_chunks_fts, rowid, text) VALUES ('delete', old.id, old.text);
+        END;
+        CREATE TRIGGER IF NOT EXISTS vault_chunks_au AFTER UPDATE OF text ON vault_chunks BEGIN
+          INSERT INTO vault_chunks_fts (vault_chunks_fts, rowid, text) VALUES ('delete', old.id, old.text);
+          INSERT INTO vault_chunks_fts (rowid, text) VALUES (new.id, new.text);
+        END;
+      `);
+    }
+  },
+  {
+    version: 5,
+    name: 'agent_missions',
+    // Deployed agent missions (one per agent) so the server scheduler can run them
+    up(db) {
+      db.exec(resourceTable('agent_missions', ['agentId TEXT', 'schedule TEXT', 'lastRun INTEGER', 'isRunning INTEGER']));
+    }
+  },
+  {
+    version: 6,
+    name: 'tool_approvals',
+    // Risky tool calls parked for the operator — pending queue and audit trail
+    up(db) {
+      db.exec(resourceTable('tool_approvals', ['status TEXT', 'toolName TEXT', 'type TEXT']));
+    }
+  },
+  {
+    version: 7,
+    name: 'usage_accounting',
+    // Per-call model usage (raw rows are pruned) and per-day rollups kept for good
+    up(db) {
+      db.exec(resourceTable('usage_entries', ['provider TEXT', 'model TEXT', 'agentId TEXT', 'day TEXT']));
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_usage_entries_day ON usage_entries (user_id, day);
+        CREATE TABLE IF NOT EXISTS usage_daily (
+          user_id TEXT NOT NULL,
+          day TEXT NOT NULL,
+          model TEXT NOT NULL,
+          provider TEXT,
+          calls INTEGER NOT NULL DEFAULT 0,
+          inputTokens INTEGER NOT NULL DEFAULT 0,
+          outputTokens INTEGER NOT NULL DEFAULT 0,
+          cost REAL NOT NULL DEFAULT 0,
+          PRIMARY KEY (user_id, day, model)
+        );
+      `);
+    }
+  },
+];
+
+module.exports = { MIGRATIONS };
@@ -0,0 +1,384 @@
+/*
+ * ClawKeep Mission Scheduler
+ * Runs deployed agent missions on the server so they keep working while no
+ * browser is open. Missions live in `agent_missions` (one row per agent),
+ * field reports in `agent_logs`. Honors each user's guardrail sleep hours and
+ * hard budget, and records every Gemini call in the user's usage accounting.
+ *
+ * Needs a server-side Gemini key (GEMINI_API_KEY or API_KEY). Without one the
+ * scheduler stays off and the browser runs missions itself, as before.
+ * Market tools read the user's SolanaTrader (server.js passes getTrader to start);
+ * proposeTrade only queues a proposal the operator must approve.
+ */
+
+const { db, listRows, getRow, insertRow, updateRow } = require('./db.cjs');
+const vaultIndex = require('./vaultIndex.cjs');
+const usage = require('./usage.cjs');
+
+const INTERVALS = {
+  CONTINUOUS: 15 * 60 * 1000,
+  HOURLY: 60 * 60 * 1000,
+  DAILY: 24 * 60 * 60 * 1000,
+  MANUAL: 0
+};
+const TICK_MS = 60 * 1000;
+const MAX_TOOL_ROUNDS = 5;
+const AGENT_MODEL = 'gemini-2.5-flash';
+
+// --- Safe agent tools (agentTools.json, shared with the browser; trades only as proposals) ---
+// browserOnly tools (clawCommit) need browser services, so they are left out here —
+// the prompt's tool list is built from what is actually offered.
+
+const agentTools = require('../agentTools.json');
+const AGENT_TOOLS = agentTools.tools
+  .filter(tool => !tool.browserOnly)
+  .map(({ guide, browserOnly, ...declaration }) => declaration);
+const AGENT_TOOL_GUIDE = `You have access to these tools:\n${agentTools.tools
+  .filter(tool => !tool.browserOnly)
+  .map(tool => `- ${tool.name}: ${tool.guide}`).join('\n')}`;
+
+const TRADER_TIMEFRAMES = ['minute', 'hour', 'day'];
+const MAX_AGENT_CANDLES = 100;
+
+let getTrader = null; // (userId) => SolanaTrader, injected by server.js
+
+const newId = (prefix) => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
+
+function getLlmKey() {
+  return process.env.GEMINI_API_KEY || process.env.API_KEY || null;
+}
+
+function isEnabled() {
+  return !!getLlmKey();
+}
+
+// --- Guardrails (mirrors guardrailService.isAwake, in the operator's time zone) ---
+
+const { getGuardrails } = usage;
+
+function isAwake(settings, now = new Date()) {
+  if (settings.sleepOverride) return true;
+  const { awakeStart = 7, awakeEnd = 23 } = settings.sleepSchedule || {};
+  let hour = now.getHours();
+  if (settings.timeZone) {
+    try {
+      hour = Number(new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone: settings.timeZone }).format(now));
+    } catch { /* unknown zone — fall back to server time */ }
+  }
+  return awakeStart < awakeEnd
+    ? hour >= awakeStart && hour < awakeEnd
+    : hour >= awakeStart || hour < awakeEnd;
+}
+
+// --- Trader formatting (mirrors toolRegistryService) ---
+
+function fmtNum(n) {
+  const v = Number(n);
+  if (n === null || n === undefined || !Number.isFinite(v)) return '—';
+  return Math.abs(v) >= 1 ? v.toFixed(2) : v.toPrecision(4);
+}
+
+const fmtTime = (ms) => new Date(ms).toISOString().slice(0, 16).replace('T', ' ');
+
+function traderTarget(args) {
+  return {
+    pair: String(args.pair || 'SOL/USDC'),
+    timeframe: TRADER_TIMEFRAMES.includes(String(args.timeframe)) ? String(args.timeframe) : 'hour'
+  };
+}
+
+function formatCandles(res) {
+  const candles = res.candles || [];
+  if (candles.length === 0) return `🕯️ No ${res.timeframe} candles for ${res.pair}.`;
+  const first = candles[0].o, last = candles[candles.length - 1].c;
+  const change = first ? ((last - first) / first * 100).toFixed(2) : '—';
+  return `🕯️ ${res.pair} ${res.timeframe} — ${candles.length} candles (UTC, O/H/L/C, volume), ${change}% over the window:\n` +
+    candles.map(c => `${fmtTime(c.t)} O ${fmtNum(c.o)} H ${fmtNum(c.h)} L ${fmtNum(c.l)} C ${fmtNum(c.c)} V ${Math.round(c.v)}`).join('\n');
+}
+
+function formatIndicators(ind) {
+  const emas = Object.entries(ind.emas || {}).map(([k, v]) => `${k.toUpperCase()} ${fmtNum(v)}`).join(' · ');
+  return [
+    `📈 ${ind.pair} ${ind.timeframe} — price ${fmtNum(ind.price)}`,
+    `RSI ${fmtNum(ind.rsi?.current)} (${ind.rsi?.zone || '—'}) · ATR ${fmtNum(ind.atr?.current)}${ind.atr?.abnormal ? ' (abnormal)' : ''}`,
+    `EMAs: ${emas || '—'}`,
+    `MACD ${fmtNum(ind.macd?.macd)} / signal ${fmtNum(ind.macd?.signal)} / hist ${fmtNum(ind.macd?.histogram)}`,
+    `Bollinger ${fmtNum(ind.bollinger?.lower)}–${fmtNum(ind.bollinger?.upper)} · Stoch RSI K ${fmtNum(ind.stochRsi?.k)} D ${fmtNum(ind.stochRsi?.d)}`,
+    `ADX ${fmtNum(ind.adx?.adx)} (+DI ${fmtNum(ind.adx?.plusDI)} / −DI ${fmtNum(ind.adx?.minusDI)}) · SuperTrend ${ind.supertrend?.direction || '—'}`,
+    `Ichimoku: price ${ind.ichimoku?.cloud || '—'} the cloud · Ladder stage ${ind.ladder?.stage ?? '—'}`,
+    `Volume profile: VAL ${fmtNum(ind.vp?.val)} · POC ${fmtNum(ind.vp?.poc)} · VAH ${fmtNum(ind.vp?.vah)}`
+  ].join('\n');
+}
+
+function formatEvaluation(ev, strategyName) {
+  const entry = (ev.signals || []).some(sig => sig.type === 'entry');
+  const lines = (ev.ruleResults || []).map(r => `${r.passed ? '✅' : '❌'} ${r.label}${r.current ? ` — ${r.current}` : ''}`);
+  const exits = (ev.signals || []).filter(sig => sig.type !== 'entry').map(sig => `⚠️ ${sig.message}`);
+  return [`🧠 ${strategyName} on ${ev.pair} (${ev.timeframe}): ${entry ? 'ENTRY SIGNAL' : 'no entry signal'}`, ...lines, ...exits].join('\n');
+}
+
+function formatPositions(spot, perps) {
+  if (spot.length === 0 && perps.length === 0) return '📊 No open positions.';
+  return [
+    ...spot.map(p => `• ${p.pair} spot — size ${fmtNum(p.size)} @ avg ${fmtNum(p.avgPrice)} since ${fmtTime(p.entryDate)}${p.strategyName ? ` (${p.strategyName})` : ''}`),
+    ...perps.map(p => `• ${p.market}-PERP ${String(p.side).toUpperCase()} — $${fmtNum(p.sizeUsd)} size, ${p.leverage}x, entry ${fmtNum(p.entryPrice)}, mark ${fmtNum(p.markPrice)}, PnL $${fmtNum(p.pnlUsd)}${p.paper ? ' [PAPER]' : ''}`)
+  ].join('\n');
+}
+
+const TRADER_TOOLS = new Set(['getCandles', 'getIndicators', 'evaluateStrategy', 'getPositions', 'proposeTrade']);
+
+async function executeTraderTool(trader, source, name, args) {
+  switch (name) {
+    case 'getCandles': {
+      const { pair, timeframe } = traderTarget(args);
+      const limit = Math.min(Math.max(Math.floor(Number(args.limit) || 30), 1), MAX_AGENT_CANDLES);
+      const res = await trader.getCandles(pair, timeframe, limit);
+      return res.error ? `[TRADER] ${res.error}` : formatCandles(res);
+    }
+    case 'getIndicators': {
+      const { pair, timeframe } = traderTarget(args);
+      const ind = await trader.getIndicators(pair, timeframe);
+      return ind.error ? `[TRADER] ${ind.error}` : formatIndicators(ind);
+    }
+    case 'evaluateStrategy': {
+      if (!args.strategyName) return 'Error: evaluateStrategy requires "strategyName"';
+      const ev = await trader.evaluateStrategy(String(args.strategyName), args.pair);
+      return ev.error ? `[TRADER] ${ev.error}` : formatEvaluation(ev, args.strategyName);
+    }
+    case 'getPositions': {
+      const perps = await trader.getPerps();
+      return formatPositions(trader.getPositions('open'), perps.positions || []);
+    }
+    case 'proposeTrade': {
+      const { proposal, error } = await trader.proposeTrade(
+        { action: args.action, token: args.token, amountUsd: args.amountUsd, leverage: args.leverage, rationale: args.rationale },
+        source
+      );
+      if (error) return `[TRADER] ${error}`;
+      return `📝 Trade proposal queued for operator approval: ${proposal.action.toUpperCase()} $${proposal.amountUsd} ${proposal.token}${proposal.leverage ? ` @ ${proposal.leverage}x` : ''}${proposal.paper ? ' [PAPER]' : ''} (id: ${proposal.id}). Nothing is executed until the operator approves it — do not report it as a completed trade.`;
+    }
+  }
+}
+
+// --- Tool Execution (per user, server-side) ---
+
+async function executeTool(userId, agentId, name, args = {}, mission = {}) {
+  if (TRADER_TOOLS.has(name)) {
+    const trader = getTrader && getTrader(userId);
+    if (!trader) return '[TRADER] The trader is not available on this server.';
+    return executeTraderTool(trader, { agentId, agentName: `${mission.mascot || ''} ${mission.name || agentId}`.trim() }, name, args);
+  }
+  switch (name) {
+    case 'createTask': {
+      if (!args.title) return 'Error: createTask requires "title"';
+      const priority = ['HIGH', 'MEDIUM', 'LOW'].includes(String(args.priority).toUpperCase()) ? String(args.priority).toUpperCase() : 'MEDIUM';
+      const task = insertRow('tasks', userId, {
+        id: newId('task'),
+        title: args.title,
+        description: args.description || '',
+        status: 'TODO',
+        priority,
+        dueDate: args.dueDate || '',
+        assignedTo: agentId,
+        tags: ['agent']
+      });
+      return `✅ Task created: "${task.title}" [${task.priority}] (id: ${task.id})`;
+    }
+    case 'semanticSearch': {
+      const hits = await vaultIndex.search(userId, String(args.query || ''), { limit: 6 });
+      return hits.length === 0
+        ? `🔍 No vault documents matched "${args.query}".`
+        : hits.map(h => `• ${h.path} [${h.category}] — ${h.snippet}`).join('\n');
+    }
+    case 'clawMemory': {
+      if (String(args.action).toUpperCase() === 'REMEMBER') {
+        if (!args.fact) return 'Error: REMEMBER requires "fact"';
+        const now = new Date().toISOString();
+        insertRow('memories', userId, {
+          id: newId('mem'), fact: args.fact, category: String(args.category || 'GENERAL').toUpperCase(),
+          source: `agent:${agentId}`, confidence: 0.9, createdAt: now, lastAccessed: now, accessCount: 0
+        });
+        return `Memorized: "${args.fact}"`;
+      }
+      const { items } = listRows('memories', userId, { search: args.fact, limit: 5 });
+      return items.length === 0 ? 'No matching memories.' : items.map(m => `• [${m.category}] ${m.fact}`).join('\n');
+    }
+    default:
+      return `[BLOCKED] Tool "${name}" is not available to agents.`;
+  }
+}
+
+// --- Gemini (REST, function calling) ---
+
+async function generate(systemPrompt, contents) {
+  const res = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${AGENT_MODEL}:generateContent?key=${getLlmKey()}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      systemInstruction: { parts: [{ text: systemPrompt }] },
+      contents,
+      tools: [{ functionDeclarations: AGENT_TOOLS }]
+    })
+  });
+  if (!res.ok) throw new Error(`Gemini ${res.status}: ${(await res.text()).slice(0, 200)}`);
+  const data = await res.json();
+  const content = data.candidates?.[0]?.content || { role: 'model', parts: [] };
+  return {
+    content,
+    text: (content.parts || []).filter(p => p.text).map(p => p.text).join('').trim(),
+    functionCalls: (content.parts || []).filter(p => p.functionCall).map(p => p.functionCall),
+    usage: data.usageMetadata || null
+  };
+}
+
+function recordUsage(userId, agentId, runId, usageMetadata) {
+  usage.recordServerCall(userId, {
+    provider: 'gemini', model: AGENT_MODEL, agentId, missionId: runId,
+    inputTokens: usageMetadata?.promptTokenCount || 0,
+    outputTokens: (usageMetadata?.candidatesTokenCount || 0) + (usageMetadata?.thoughtsTokenCount || 0),
+    estimated: !usageMetadata
+  });
+}
+
+function buildSystemPrompt(mission, context) {
+  return `You are ${mission.mascot} ${mission.name}, an autonomous agent working for Claw.
+Your specialty is: ${mission.specialty}
+Your current quest/mission is: "${mission.quest}"
+
+${AGENT_TOOL_GUIDE}
+
+${agentTools.missionInstructions.join('\n')}
+
+Business Context:
+${context}`;
+}
+
+// --- Mission Runs ---
+
+const running = new Set(); // `${userId}:${agentId}` — in-process lock
+
+/**
+ * Run one mission now and record its field report
+ * @returns {Promise<{ ok: boolean, report?: string, error?: string }>}
+ */
+async function runMission(userId, agentId, { force = false } = {}) {
+  const lockKey = `${userId}:${agentId}`;
+  const mission = getRow('missions', userId, agentId);
+  if (!mission) return { ok: false, error: 'Agent not deployed.' };
+  if (running.has(lockKey)) return { ok: false, error: 'Agent already running a mission.' };
+  if (!getLlmKey()) return { ok: false, error: 'Server has no Gemini key — missions run in the browser.' };
+  if (!force && !isAwake(getGuardrails(userId))) return { ok: false, error: '💤 Sleep mode active — mission deferred until awake hours.' };
+  // A forced run may ignore sleep hours, but never the hard budget
+  const overBudget = usage.hardBudgetReason(userId, getGuardrails(userId));
+  if (overBudget) return { ok: false, error: `💸 ${overBudget} Mission skipped.` };
+
+  running.add(lockKey);
+  updateRow('missions', userId, agentId, { isRunning: true });
+
+  try {
+    const memories = listRows('memories', userId, { limit: 15 }).items;
+    const context = memories.length
+      ? `CLAW'S PERSISTENT MEMORY (${memories.length} facts):\n${memories.map(m => `• [${m.category}] ${m.fact}`).join('\n')}`
+      : '';
+    const systemPrompt = buildSystemPrompt(mission, context);
+    const contents = [{
+      role: 'user',
+      parts: [{ text: `Execute your quest: "${mission.quest}"\n\nFocus on your specialty (${mission.specialty}). Be specific, actionable, and flag urgent items with ⚠️.\nKeep your final report under 200 words. Start with "${mission.mascot} FIELD REPORT:"` }]
+    }];
+
+    const runId = newId('run');
+    let response = await generate(systemPrompt, contents);
+    recordUsage(userId, agentId, runId, response.usage);
+    for (let round = 0; round < MAX_TOOL_ROUNDS && response.functionCalls.length > 0; round++) {
+      contents.push(response.content);
+      const parts = [];
+      for (const call of response.functionCalls) {
+        let result;
+        try { result = await executeTool(userId, agentId, call.name, call.args, mission); }
+        catch (e) { result = `Error: ${e.message}`; }
+        parts.push({ functionResponse: { name: call.name, response: { result } } });
+      }
+      contents.push({ role: 'user', parts });
+      response = await generate(systemPrompt, contents);
+      recordUsage(userId, agentId, runId, response.usage);
+    }
+
+    const report = response.text || 'Agent reached max tool rounds without final report.';
+    const isAlert = report.includes('⚠️') || report.toLowerCase().includes('urgent');
+    const progressMatch = report.match(/PROGRESS:\s*(\d+)%\s*\|\s*ETA:\s*(.+)/i);
+
+    insertRow('agent_logs', userId, {
+      id: newId('alog'), agentId, type: isAlert ? 'ALERT' : 'REPORT', content: report,
+      createdAt: new Date().toISOString(), runner: 'server'
+    });
+    updateRow('missions', userId, agentId, {
+      isRunning: false,
+      lastRun: Date.now(),
+      lastReport: report.substring(0, 200),
+      ...(progressMatch ? { progress: Math.min(parseInt(progressMatch[1], 10), 100), estimatedCompletion: progressMatch[2].trim() } : {})
+    });
+    console.log(`[Missions] ${mission.mascot} ${mission.name} reported for ${userId}${isAlert ? ' ⚠️' : ''}`);
+    return { ok: true, report };
+  } catch (err) {
+    insertRow('agent_logs', userId, {
+      id: newId('alog'), agentId, type: 'ERROR', content: `Mission failed: ${err.message}`,
+      createdAt: new Date().toISOString(), runner: 'server'
+    });
+    // Count the failed run so a broken mission doesn't retry every tick
+    updateRow('missions', userId, agentId, { isRunning: false, lastRun: Date.now() });
+    console.error(`[Missions] ${agentId} failed for ${userId}:`, err.message);
+    return { ok: false, error: err.message };
+  } finally {
+    running.delete(lockKey);
+  }
+}
+
+// --- Scheduler Loop ---
+
+let timer = null;
+
+async function tick() {
+  const now = Date.now();
+  const rows = db.prepare(`SELECT user_id, id, schedule, lastRun FROM agent_missions WHERE schedule != 'MANUAL'`).all();
+  for (const row of rows) {
+    const interval = INTERVALS[row.schedule];
+    if (!interval || now - (row.lastRun || 0) < interval) continue;
+    if (running.has(`${row.user_id}:${row.id}`)) continue;
+    const guardrails = getGuardrails(row.user_id);
+    if (!isAwake(guardrails) || usage.hardBudgetReason(row.user_id, guardrails)) continue;
+    // Sequential on purpose — one mission at a time keeps API spend and load predictable
+    await runMission(row.user_id, row.id);
+  }
+}
+
+/**
+ * @param {{ getTrader?: (userId: string) => object }} deps - trader lookup for the market tools
+ */
+function start(deps = {}) {
+  if (timer) return;
+  getTrader = deps.getTrader || null;
+  if (!isEnabled()) {
+    console.log('[Missions] No server Gemini key — scheduler off, browsers run their own missions');
+    return;
+  }
+  // Missions marked running when the server last stopped never finished
+  for (const row of db.prepare('SELECT user_id, id FROM agent_missions WHERE isRunning = 1').all()) {
+    updateRow('missions', row.user_id, row.id, { isRunning: false });
+  }
+  let ticking = false;
+  timer = setInterval(async () => {
+    if (ticking) return;
+    ticking = true;
+    try { await tick(); }
+    catch (e) { console.error('[Missions] Tick failed:', e.message); }
+    finally { ticking = false; }
+  }, TICK_MS);
+  console.log('[Missions] Server-side scheduler started');
+}
+
+function stop() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
+
+module.exports = { start, stop, runMission, isEnabled, INTERVALS };
@@ -0,0 +1,190 @@
+/*
+ * ClawKeep Tool Approvals
+ * Risky tool calls parked by the browser's approvalQueueService. The server is
+ * the arbiter: it stores each PendingApproval in `tool_approvals` (which doubles
+ * as the audit trail), fans it out to every open session of the same user so it
+ * can be approved remotely, and accepts only the first decision. Grants
+ * ("allow for N minutes") are kept here too, and the risky trader commands in
+ * server.js run only after consume() claims an approved row for them — once.
+ *
+ * The tool loop that parked a call lives in one browser session; if that session
+ * disconnects, its pending approvals can never resume and are marked EXPIRED.
+ */
+
+const { listRows, getRow, insertRow, updateRow } = require('./db.cjs');
+
+const HISTORY_LIMIT = 50;
+const DECISIONS = ['APPROVED', 'REJECTED', 'EXPIRED'];
+const OUTCOMES = ['EXECUTED', 'FAILED'];
+const MAX_RESULT_CHARS = 2000;
+// Mirrors approvalQueueService — only browser actions can be allowed for a while
+const GRANTABLE_TYPES = ['BROWSER_ACTION'];
+const MAX_GRANT_MINUTES = 10;
+
+const sockets = new Map(); // userId → Set<ws> (authenticated sessions)
+const origins = new Map(); // approvalId → ws whose tool loop is waiting on it
+const grants = new Map();  // userId → Map<type, expiry ms>
+
+function send(ws, msg) {
+  if (ws.readyState === 1) ws.send(JSON.stringify(msg));
+}
+
+function sendToUser(userId, msg) {
+  for (const ws of sockets.get(userId) || []) send(ws, msg);
+}
+
+function register(userId, ws) {
+  if (!sockets.has(userId)) sockets.set(userId, new Set());
+  sockets.get(userId).add(ws);
+}
+
+/** A session closed — anything its tool loop was waiting on can't resume */
+function unregister(userId, ws) {
+  sockets.get(userId)?.delete(ws);
+  if (sockets.get(userId)?.size === 0) sockets.delete(userId);
+  for (const [id, origin] of origins) {
+    if (origin !== ws) continue;
+    origins.delete(id);
+    const approval = getRow('approvals', userId, id);
+    if (approval?.status !== 'PENDING') continue;
+    const expired = updateRow('approvals', userId, id, {
+      status: 'EXPIRED', decidedAt: new Date().toISOString(), decidedBy: 'session closed'
+    });
+    sendToUser(userId, { type: 'APPROVAL_RESOLVED', approval: expired });
+  }
+}
+
+function hasGrant(userId, type) {
+  const until = grants.get(userId)?.get(type);
+  return !!until && until > Date.now();
+}
+
+// Numbers compare by value, everything else as trimmed case-insensitive text
+function sameArg(a, b) {
+  const x = Number(a), y = Number(b);
+  if (a !== '' && b !== '' && Number.isFinite(x) && Number.isFinite(y)) return x === y;
+  return String(a ?? '').trim().toLowerCase() === String(b ?? '').trim().toLowerCase();
+}
+
+/**
+ * Claim an approved call for execution. Each approval runs once, for the tool
+ * it was asked for, with the arguments the operator saw.
+ * @param {Object} args - arguments about to be executed, keyed as in the approval
+ * @returns {string|null} why the call can't run, or null once it's claimed
+ */
+function consume(userId, id, toolName, args = {}) {
+  const approval = id ? getRow('approvals', userId, String(id)) : null;
+  if (!approval || approval.toolName !== toolName) return `${toolName} needs the operator's approval first`;
+  if (approval.consumedAt) return `Approval ${approval.id} was already used`;
+  if (approval.status !== 'APPROVED') return `Approval ${approval.id} is ${approval.status.toLowerCase()}`;
+  const changed = Object.keys(args).find(key => !sameArg(approval.args?.[key], args[key]));
+  if (changed) return `"${changed}" differs from what the operator approved`;
+  updateRow('approvals', userId, approval.id, { consumedAt: new Date().toISOString() });
+  return null;
+}
+
+/** Close the audit record of a call the server executed itself */
+function recordOutcome(userId, id, ok, result) {
+  const approval = id ? getRow('approvals', userId, String(id)) : null;
+  if (!approval || approval.status !== 'APPROVED') return;
+  const done = updateRow('approvals', userId, approval.id, {
+    status: ok ? 'EXECUTED' : 'FAILED', result: String(result || '').slice(0, MAX_RESULT_CHARS)
+  });
+  sendToUser(userId, { type: 'APPROVAL_RESOLVED', approval: done });
+}
+
+function list(userId) {
+  const pending = listRows('approvals', userId, { filters: { status: 'PENDING' } }).items;
+  const history = listRows('approvals', userId, { limit: HISTORY_LIMIT }).items.filter(a => a.status !== 'PENDING');
+  return [...pending, ...history];
+}
+
+/**
+ * Handle an APPROVAL_* message from an authenticated session
+ * @returns {boolean} true if the message was an approval message
+ */
+function handle(userId, ws, data) {
+  switch (data.type) {
+    case 'APPROVAL_LIST': {
+      send(ws, { type: 'APPROVAL_LIST', approvals: list(userId) });
+      return true;
+    }
+    case 'APPROVAL_REQUEST': {
+      const a = data.approval || {};
+      if (!a.id || !a.toolName) {
+        send(ws, { type: 'APPROVAL_ERROR', error: 'Approval request needs an id and toolName' });
+        return true;
+      }
+      if (getRow('approvals', userId, String(a.id))) {
+        send(ws, { type: 'APPROVAL_ERROR', id: a.id, error: 'Approval already exists' });
+        return true;
+      }
+      // Calls covered by a grant, or decided while the gateway was offline, arrive already decided.
+      // Approvals only count if the server granted them; refusals are kept as the client's claim.
+      const decided = DECISIONS.includes(a.status);
+      const granted = a.status === 'APPROVED' && hasGrant(userId, a.type);
+      if (a.status === 'APPROVED' && !granted) {
+        send(ws, { type: 'APPROVAL_ERROR', id: a.id, error: 'Only the operator can approve this — send it as PENDING' });
+        return true;
+      }
+      const approval = insertRow('approvals', userId, {
+        id: String(a.id), type: a.type, title: String(a.title || a.toolName), description: String(a.description || ''),
+        toolName: String(a.toolName), args: a.args || {}, caller: ['AGENT', 'OPERATOR'].includes(a.caller) ? a.caller : 'CLAW', agentId: a.agentId,
+        status: decided ? a.status : 'PENDING', createdAt: a.createdAt || new Date().toISOString(),
+        ...(decided ? {
+          decidedAt: new Date().toISOString(),
+          decidedBy: granted ? 'grant (server)' : `pre-decided by client (${String(a.decidedBy || 'unspecified').slice(0, 100)})`,
+          ...(a.note ? { note: String(a.note).slice(0, 500) } : {})
+        } : {})
+      });
+      if (approval.status === 'PENDING') origins.set(approval.id, ws);
+      sendToUser(userId, { type: 'APPROVAL_PENDING', approval });
+      return true;
+    }
+    case 'APPROVAL_DECISION': {
+      const approval = getRow('approvals', userId, data.id);
+      if (!approval) {
+        send(ws, { type: 'APPROVAL_ERROR', id: data.id, error: 'Approval not found' });
+        return true;
+      }
+      // First decision wins — later ones just get the current state back
+      if (approval.status !== 'PENDING' || !DECISIONS.includes(data.status)) {
+        send(ws, { type: 'APPROVAL_RESOLVED', approval });
+        return true;
+      }
+      const origin = origins.get(approval.id);
+      origins.delete(approval.id);
+      const decided = updateRow('approvals', userId, approval.id, {
+        status: data.status,
+        decidedAt: new Date().toISOString(),
+        decidedBy: data.status === 'EXPIRED' ? 'timeout' : origin && origin !== ws ? 'operator (remote session)' : 'operator',
+        ...(data.note ? { note: String(data.note).slice(0, 500) } : {})
+      });
+      const grantMinutes = data.status === 'APPROVED' && GRANTABLE_TYPES.includes(approval.type)
+        ? Math.min(MAX_GRANT_MINUTES, Math.max(0, Number(data.grantMinutes) || 0))
+        : 0;
+      if (grantMinutes > 0) {
+        if (!grants.has(userId)) grants.set(userId, new Map());
+        grants.get(userId).set(approval.type, Date.now() + grantMinutes * 60 * 1000);
+      }
+      sendToUser(userId, { type: 'APPROVAL_RESOLVED', approval: decided, grantMinutes });
+      return true;
+    }
+    case 'APPROVAL_REVOKE_GRANTS': {
+      grants.delete(userId);
+      return true;
+    }
+    case 'APPROVAL_OUTCOME': {
+      const approval = getRow('approvals', userId, data.id);
+      if (!approval || approval.status !== 'APPROVED' || !OUTCOMES.includes(data.status)) return true;
+      const done = updateRow('approvals', userId, approval.id, {
+        status: data.status, result: String(data.result || '').slice(0, MAX_RESULT_CHARS)
+      });
+      sendToUser(userId, { type: 'APPROVAL_RESOLVED', approval: done });
+      return true;
+    }
+  }
+  return false;
+}
+
+module.exports = { register, unregister, handle, consume, recordOutcome };
@@ -0,0 +1,205 @@
+/*
+ * ClawKeep Usage Accounting
+ * Per-call model usage for each user. Browsers post their entries (tokens as the
+ * provider reported them); the server's own calls (mission scheduler, vault
+ * embeddings) go through recordServerCall. Every entry is priced here from
+ * modelPrices.json — the table billingService uses — never from a client's `cost`. Raw entries (`usage_entries`)
+ * are kept for RETENTION_DAYS, the per-day rollups (`usage_daily`, one row per
+ * user, day and model) for good, so daily/weekly/monthly spend survives pruning.
+ *
+ * A "day" is the operator's calendar day (guardrail timeZone) — the same key the
+ * browser writes and the hard budget is checked against.
+ */
+
+const { db, getRow, insertRow, listRows, getUserValue } = require('./db.cjs');
+const modelPrices = require('../modelPrices.json');
+
+const RETENTION_DAYS = 90;
+const RECENT_LIMIT = 50;
+const MAX_BATCH = 200;
+
+const pruned = new Map(); // userId → day raw entries were last pruned
+
+const newId = (prefix) => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
+const toCount = (v) => Math.max(0, Math.round(Number(v) || 0));
+const emptyTotals = () => ({ calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+
+/** Guardrail settings the browser publishes (guardrailService.publish) — sleep hours, budget, timeZone */
+function getGuardrails(userId) {
+  let settings = getUserValue(userId, 'config_guardrail_settings');
+  if (typeof settings === 'string') {
+    try { settings = JSON.parse(settings); } catch { settings = null; }
+  }
+  return settings || {};
+}
+
+/** YYYY-MM-DD in the given IANA zone (server time if missing or unknown) */
+function dayKey(timeZone, now = new Date()) {
+  if (timeZone) {
+    try {
+      return new Intl.DateTimeFormat('en-CA', { year: 'numeric', month: '2-digit', day: '2-digit', timeZone }).format(now);
+    } catch { /* unknown zone — fall back to server time */ }
+  }
+  const pad = (n) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/** USD per 1M tokens, looked up like billingService.priceOf; `known` is false for the default price */
+function priceOf(model) {
+  if (model.endsWith(':free')) return { input: 0, output: 0, known: true };
+  const match = Object.keys(modelPrices.prices)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? { ...modelPrices.prices[match], known: true } : { ...modelPrices.defaultPrice, known: false };
+}
+
+function costOf(model, inputTokens, outputTokens) {
+  const price = priceOf(model);
+  return (inputTokens * price.input + outputTokens * price.output) / 1e6;
+}
+
+// --- Recording ---
+
+const UPSERT_DAILY = `
+  INSERT INTO usage_daily (user_id, day, model, provider, calls, inputTokens, outputTokens, cost)
+  VALUES (?, ?, ?, ?, 1, ?, ?, ?)
+  ON CONFLICT(user_id, day, model) DO UPDATE SET
+    provider = excluded.provider,
+    calls = calls + 1,
+    inputTokens = inputTokens + excluded.inputTokens,
+    outputTokens = outputTokens + excluded.outputTokens,
+    cost = cost + excluded.cost
+`;
+
+/**
+ * Store one usage entry and add it to the day's rollup.
+ * Idempotent by id — browsers re-send entries they couldn't confirm.
+ * @returns {Object|null} the stored entry, or null if it was invalid or already recorded
+ */
+function record(userId, entry) {
+  if (!entry || !entry.model) return null;
+  const id = String(entry.id || newId('usage'));
+  if (getRow('usage', userId, id)) return null;
+
+  const timestamp = entry.timestamp || new Date().toISOString();
+  const model = String(entry.model);
+  const inputTokens = toCount(entry.inputTokens);
+  const outputTokens = toCount(entry.outputTokens);
+  const stored = {
+    id,
+    timestamp,
+    day: /^\d{4}-\d{2}-\d{2}$/.test(entry.day || '') ? entry.day : dayKey(null, new Date(timestamp)),
+    provider: String(entry.provider || 'unknown'),
+    model,
+    ...(entry.agentId ? { agentId: String(entry.agentId) } : {}),
+    ...(entry.missionId ? { missionId: String(entry.missionId) } : {}),
+    inputTokens,
+    outputTokens,
+    ...(entry.estimated || !priceOf(model).known ? { estimated: true } : {}),
+    cost: costOf(model, inputTokens, outputTokens)
+  };
+
+  db.transaction(() => {
+    insertRow('usage', userId, stored);
+    db.prepare(UPSERT_DAILY).run(userId, stored.day, stored.model, stored.provider, stored.inputTokens, stored.outputTokens, stored.cost);
+  })();
+  prune(userId, stored.day);
+  return stored;
+}
+
+/**
+ * Record a model call the server made itself, on the operator's calendar day
+ * @param {Object} call - { provider, model, agentId?, missionId?, inputTokens, outputTokens, estimated? }
+ */
+function recordServerCall(userId, call) {
+  try {
+    return record(userId, {
+      ...call,
+      id: newId('usage'),
+      timestamp: new Date().toISOString(),
+      day: dayKey(getGuardrails(userId).timeZone)
+    });
+  } catch (e) {
+    console.error('[Usage] Record failed:', e.message);
+    return null;
+  }
+}
+
+/** Record a batch from the browser; returns how many were new */
+function recordMany(userId, entries) {
+  if (!Array.isArray(entries)) return 0;
+  return entries.slice(0, MAX_BATCH).filter(e => record(userId, e)).length;
+}
+
+// Raw entries only back the "recent calls" list — drop old ones once a day per user
+function prune(userId, today) {
+  if (pruned.get(userId) === today) return;
+  pruned.set(userId, today);
+  const cutoff = new Date(Date.parse(`${today}T00:00:00Z`) - RETENTION_DAYS * 86400000).toISOString().slice(0, 10);
+  db.prepare('DELETE FROM usage_entries WHERE user_id = ? AND day < ?').run(userId, cutoff);
+}
+
+// --- Reading ---
+
+/**
+ * All-time and per-model totals, per-day totals from `since` (YYYY-MM-DD), latest entries
+ */
+function summary(userId, since) {
+  const total = db.prepare(`
+    SELECT COALESCE(SUM(calls), 0) AS calls, COALESCE(SUM(inputTokens), 0) AS inputTokens,
+           COALESCE(SUM(outputTokens), 0) AS outputTokens, COALESCE(SUM(cost), 0) AS cost
+    FROM usage_daily WHERE user_id = ?
+  `).get(userId) || emptyTotals();
+
+  const days = {};
+  const dayRows = db.prepare(`
+    SELECT day, SUM(calls) AS calls, SUM(inputTokens) AS inputTokens, SUM(outputTokens) AS outputTokens, SUM(cost) AS cost
+    FROM usage_daily WHERE user_id = ? AND day >= ? GROUP BY day
+  `).all(userId, since || '0000-00-00');
+  for (const { day, ...totals } of dayRows) days[day] = totals;
+
+  const models = {};
+  const modelRows = db.prepare(`
+    SELECT model, MAX(provider) AS provider, SUM(calls) AS calls, SUM(inputTokens) AS inputTokens,
+           SUM(outputTokens) AS outputTokens, SUM(cost) AS cost
+    FROM usage_daily WHERE user_id = ? GROUP BY model
+  `).all(userId);
+  for (const { model, ...totals } of modelRows) models[model] = totals;
+
+  const recent = listRows('usage', userId, { limit: RECENT_LIMIT }).items;
+  return { total, days, models, recent };
+}
+
+/** Spend for the operator's current day and calendar month */
+function spend(userId, timeZone, now = new Date()) {
+  const today = dayKey(timeZone, now);
+  const row = (sql, arg) => db.prepare(`SELECT COALESCE(SUM(cost), 0) AS cost FROM usage_daily WHERE user_id = ? AND ${sql}`).get(userId, arg);
+  return {
+    today: row('day = ?', today).cost,
+    month: row('day >= ?', `${today.slice(0, 7)}-01`).cost
+  };
+}
+
+/**
+ * Hard budget check (mirrors guardrailService.getBudgetStatus) against the user's
+ * guardrail settings. Soft limits only downgrade models, so the server — which
+ * uses one cheap model — ignores them.
+ * @returns {string|null} why spending is blocked, or null if it's allowed
+ */
+function hardBudgetReason(userId, settings = {}) {
+  const { dailyHard = 0, monthlyHard = 0 } = settings.budget || {};
+  if (!(dailyHard > 0) && !(monthlyHard > 0)) return null;
+  const { today, month } = spend(userId, settings.timeZone);
+  if (dailyHard > 0 && today >= dailyHard) return `Daily budget of $${dailyHard.toFixed(2)} reached ($${today.toFixed(2)} spent today).`;
+  if (monthlyHard > 0 && month >= monthlyHard) return `Monthly budget of $${monthlyHard.toFixed(2)} reached ($${month.toFixed(2)} spent this month).`;
+  return null;
+}
+
+function reset(userId) {
+  db.transaction(() => {
+    db.prepare('DELETE FROM usage_entries WHERE user_id = ?').run(userId);
+    db.prepare('DELETE FROM usage_daily WHERE user_id = ?').run(userId);
+  })();
+}
+
+module.exports = { record, recordServerCall, recordMany, summary, spend, hardBudgetReason, reset, costOf, dayKey, getGuardrails };
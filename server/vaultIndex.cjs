@@ -0,0 +1,329 @@
+/*
+ * ClawKeep Vault Search Index
+ * Extracts text from each user's vault files, chunks it, and keeps an FTS5
+ * keyword index plus per-chunk embeddings in SQLite. Indexing is incremental
+ * (by mtime). search() fuses keyword and vector rankings and returns snippets.
+ *
+ * Embeddings use the server's own key: GEMINI_API_KEY / API_KEY (Gemini) or
+ * OPENROUTER_API_KEY. Without one, search is keyword-only. Each embedding call
+ * is billed to the user's usage accounting and skipped past their hard budget.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { db } = require('./db.cjs');
+const usage = require('./usage.cjs');
+
+// Optional: PDF text extraction (npm install pdf-parse)
+let pdfParse = null;
+try { pdfParse = require('pdf-parse'); }
+catch { console.log('[VaultIndex] pdf-parse not installed — PDFs will not be searchable'); }
+
+const TEXT_EXTS = ['.md', '.markdown', '.txt', '.csv', '.json', '.html', '.htm', '.xml', '.log', '.yml', '.yaml'];
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const CHUNK_CHARS = 1200;
+const CHUNK_OVERLAP = 200;
+const MAX_CHUNKS_PER_FILE = 500;
+const EMBED_BATCH_SIZE = 50;
+const EMBED_DIMENSIONS = 256;
+const RRF_K = 60; // Reciprocal-rank-fusion constant
+
+// --- Text Extraction + Chunking ---
+
+function isIndexable(relPath) {
+  const ext = path.extname(relPath).toLowerCase();
+  return TEXT_EXTS.includes(ext) || (ext === '.pdf' && !!pdfParse);
+}
+
+async function extractText(filePath) {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === '.pdf') {
+    const data = await pdfParse(fs.readFileSync(filePath));
+    return data.text || '';
+  }
+  const raw = fs.readFileSync(filePath, 'utf8');
+  return ext === '.html' || ext === '.htm'
+    ? raw.replace(/<script[\s\S]*?<\/script>|<style[\s\S]*?<\/style>/gi, ' ').replace(/<[^>]+>/g, ' ')
+    : raw;
+}
+
+/**
+ * Split text into ~CHUNK_CHARS pieces on paragraph/sentence boundaries,
+ * carrying CHUNK_OVERLAP chars forward so a fact split across chunks is still found.
+ */
+function chunkText(text) {
+  const clean = text.replace(/\r/g, '').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+  if (!clean) return [];
+  const chunks = [];
+  let start = 0;
+  while (start < clean.length && chunks.length < MAX_CHUNKS_PER_FILE) {
+    let end = Math.min(start + CHUNK_CHARS, clean.length);
+    if (end < clean.length) {
+      const window = clean.slice(start, end);
+      const breakAt = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('. '));
+      if (breakAt > CHUNK_CHARS / 2) end = start + breakAt + 1;
+    }
+    chunks.push(clean.slice(start, end).trim());
+    if (end >= clean.length) break;
+    start = end - CHUNK_OVERLAP;
+  }
+  return chunks.filter(Boolean);
+}
+
+function walk(dir, root = dir, out = []) {
+  if (!fs.existsSync(dir)) return out;
+  for (const entry of fs.readdirSync(dir)) {
+    const full = path.join(dir, entry);
+    const stat = fs.statSync(full);
+    if (stat.isDirectory()) walk(full, root, out);
+    else out.push({ relPath: path.relative(root, full), stat });
+  }
+  return out;
+}
+
+// --- Embeddings (server-side provider) ---
+
+function getEmbeddingModel() {
+  if (process.env.GEMINI_API_KEY || process.env.API_KEY) return 'gemini:text-embedding-004';
+  if (process.env.OPENROUTER_API_KEY) return 'openrouter:openai/text-embedding-3-small';
+  return null;
+}
+
+// Gemini's batch endpoint reports no token counts — those are estimated at ~4 chars/token
+function recordEmbedding(userId, model, texts, reportedTokens) {
+  const [provider, modelName] = model.split(':');
+  usage.recordServerCall(userId, {
+    provider,
+    model: modelName,
+    inputTokens: reportedTokens || Math.ceil(texts.join(' ').length / 4),
+    outputTokens: 0,
+    estimated: !reportedTokens
+  });
+}
+
+async function embed(userId, texts) {
+  const model = getEmbeddingModel();
+  if (!model || texts.length === 0) return null;
+  const overBudget = usage.hardBudgetReason(userId, usage.getGuardrails(userId));
+  if (overBudget) throw new Error(`Embedding skipped: ${overBudget}`);
+
+  if (model.startsWith('gemini:')) {
+    const key = process.env.GEMINI_API_KEY || process.env.API_KEY;
+    const res = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:batchEmbedContents?key=${key}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        requests: texts.map(text => ({
+          model: 'models/text-embedding-004',
+          content: { parts: [{ text }] },
+          outputDimensionality: EMBED_DIMENSIONS
+        }))
+      })
+    });
+    if (!res.ok) throw new Error(`Gemini embeddings ${res.status}`);
+    const data = await res.json();
+    recordEmbedding(userId, model, texts, 0);
+    return { model, vectors: (data.embeddings || []).map(e => e.values) };
+  }
+
+  const res = await fetch('https://openrouter.ai/api/v1/embeddings', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}` },
+    body: JSON.stringify({ model: 'openai/text-embedding-3-small', input: texts, dimensions: EMBED_DIMENSIONS })
+  });
+  if (!res.ok) throw new Error(`OpenRouter embeddings ${res.status}`);
+  const data = await res.json();
+  recordEmbedding(userId, model, texts, data.usage?.prompt_tokens || 0);
+  return { model, vectors: (data.data || []).sort((a, b) => a.index - b.index).map(d => d.embedding) };
+}
+
+const toBlob = (vector) => Buffer.from(new Float32Array(vector).buffer);
+const fromBlob = (blob) => new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4);
+
+function cosine(a, b) {
+  if (a.length !== b.length) return 0;
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) { dot += a[i] * b[i]; na += a[i] * a[i]; nb += b[i] * b[i]; }
+  return na && nb ? dot / (Math.sqrt(na) * Math.sqrt(nb)) : 0;
+}
+
+// One background embedding pass at a time per user
+const embedding = new Set();
+
+async function embedPending(userId) {
+  const model = getEmbeddingModel();
+  if (!model || embedding.has(userId)) return;
+  embedding.add(userId);
+  try {
+    const select = db.prepare(`
+      SELECT id, text FROM vault_chunks
+      WHERE user_id = ? AND (embeddingModel IS NULL OR embeddingModel != ?)
+      LIMIT ${EMBED_BATCH_SIZE}
+    `);
+    const update = db.prepare('UPDATE vault_chunks SET embedding = ?, embeddingModel = ? WHERE id = ?');
+    let batch;
+    while ((batch = select.all(userId, model)).length > 0) {
+      const result = await embed(userId, batch.map(c => c.text));
+      if (!result || result.vectors.length !== batch.length) break;
+      db.transaction(() => {
+        batch.forEach((c, i) => update.run(toBlob(result.vectors[i]), result.model, c.id));
+      })();
+    }
+  } catch (err) {
+    console.warn(`[VaultIndex] Embedding pass stopped: ${err.message}`);
+  } finally {
+    embedding.delete(userId);
+  }
+}
+
+// --- Indexing ---
+
+function removeFile(userId, relPath) {
+  db.transaction(() => {
+    db.prepare('DELETE FROM vault_chunks WHERE user_id = ? AND path = ?').run(userId, relPath);
+    db.prepare('DELETE FROM vault_files WHERE user_id = ? AND path = ?').run(userId, relPath);
+  })();
+}
+
+/**
+ * (Re)index one file if it changed since the last pass
+ * @returns {Promise<number>} chunks written (0 if unchanged or not indexable)
+ */
+async function indexFile(userId, vaultDir, relPath, { embedNow = true } = {}) {
+  const filePath = path.join(vaultDir, relPath);
+  if (!isIndexable(relPath) || !fs.existsSync(filePath)) return 0;
+  const stat = fs.statSync(filePath);
+  if (stat.size > MAX_FILE_BYTES) return 0;
+
+  const mtime = stat.mtime.toISOString();
+  const known = db.prepare('SELECT mtime FROM vault_files WHERE user_id = ? AND path = ?').get(userId, relPath);
+  if (known && known.mtime === mtime) return 0;
+
+  let chunks;
+  try {
+    chunks = chunkText(await extractText(filePath));
+  } catch (err) {
+    console.warn(`[VaultIndex] Could not extract ${relPath}: ${err.message}`);
+    chunks = [];
+  }
+  const category = path.dirname(relPath) !== '.' ? relPath.split(path.sep)[0] : 'MISC';
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM vault_chunks WHERE user_id = ? AND path = ?').run(userId, relPath);
+    const insert = db.prepare('INSERT INTO vault_chunks (user_id, path, category, chunk, text) VALUES (?, ?, ?, ?, ?)');
+    chunks.forEach((text, i) => insert.run(userId, relPath, category, i, text));
+    db.prepare(`
+      INSERT INTO vault_files (user_id, path, mtime, size, chunks, indexedAt) VALUES (?, ?, ?, ?, ?, datetime('now'))
+      ON CONFLICT(user_id, path) DO UPDATE SET mtime = excluded.mtime, size = excluded.size, chunks = excluded.chunks, indexedAt = excluded.indexedAt
+    `).run(userId, relPath, mtime, stat.size, chunks.length);
+  })();
+
+  if (embedNow) embedPending(userId);
+  return chunks.length;
+}
+
+/**
+ * Bring a user's index in line with their vault dir: index new/changed files,
+ * drop entries for files that no longer exist.
+ */
+async function syncUser(userId, vaultDir) {
+  const onDisk = walk(vaultDir).filter(f => isIndexable(f.relPath));
+  const seen = new Set(onDisk.map(f => f.relPath));
+  let changed = 0;
+
+  for (const { relPath } of onDisk) {
+    if (await indexFile(userId, vaultDir, relPath, { embedNow: false }) > 0) changed++;
+  }
+  for (const { path: relPath } of db.prepare('SELECT path FROM vault_files WHERE user_id = ?').all(userId)) {
+    if (!seen.has(relPath)) { removeFile(userId, relPath); changed++; }
+  }
+
+  if (changed > 0) console.log(`[VaultIndex] ${changed} file(s) re-indexed for ${userId}`);
+  embedPending(userId);
+  return { files: onDisk.length, changed };
+}
+
+// --- Search ---
+
+function ftsQuery(query) {
+  const terms = (String(query).toLowerCase().match(/[a-z0-9]+/g) || []).filter(t => t.length > 1);
+  return terms.length ? terms.map(t => `"${t}"`).join(' OR ') : null;
+}
+
+/**
+ * Hybrid search over a user's vault
+ * @param {{ category?: string, limit?: number }} options
+ * @returns {Promise<{ path, name, category, chunk, snippet, score, matchedBy: string[] }[]>}
+ */
+async function search(userId, query, { category, limit = 8 } = {}) {
+  const cat = category && category.toUpperCase() !== 'ALL' ? category.toUpperCase() : null;
+  const hits = new Map(); // chunk id → hit
+
+  const addHit = (row, rank, source, snippet) => {
+    const hit = hits.get(row.id) || { row, score: 0, matchedBy: [], snippet: null };
+    hit.score += 1 / (RRF_K + rank);
+    hit.matchedBy.push(source);
+    if (snippet && !hit.snippet) hit.snippet = snippet;
+    hits.set(row.id, hit);
+  };
+
+  // Keyword ranking (FTS5 bm25)
+  const match = ftsQuery(query);
+  if (match) {
+    const rows = db.prepare(`
+      SELECT c.id, c.path, c.category, c.chunk, c.text,
+             snippet(vault_chunks_fts, 0, '**', '**', '…', 32) AS snippet
+      FROM vault_chunks_fts JOIN vault_chunks c ON c.id = vault_chunks_fts.rowid
+      WHERE vault_chunks_fts MATCH ? AND c.user_id = ? ${cat ? 'AND c.category = ?' : ''}
+      ORDER BY bm25(vault_chunks_fts) LIMIT 50
+    `).all(...[match, userId, ...(cat ? [cat] : [])]);
+    rows.forEach((row, i) => addHit(row, i, 'keyword', row.snippet));
+  }
+
+  // Vector ranking (cosine over chunks embedded with the active model)
+  const model = getEmbeddingModel();
+  if (model) {
+    try {
+      const result = await embed(userId, [String(query)]);
+      const queryVector = result && result.vectors[0];
+      if (queryVector) {
+        const rows = db.prepare(`
+          SELECT id, path, category, chunk, text, embedding FROM vault_chunks
+          WHERE user_id = ? AND embeddingModel = ? ${cat ? 'AND category = ?' : ''}
+        `).all(...[userId, model, ...(cat ? [cat] : [])]);
+        rows
+          .map(row => ({ row, sim: cosine(queryVector, fromBlob(row.embedding)) }))
+          .filter(r => r.sim > 0.3)
+          .sort((a, b) => b.sim - a.sim)
+          .slice(0, 50)
+          .forEach(({ row }, i) => addHit(row, i, 'semantic'));
+      }
+    } catch (err) {
+      console.warn(`[VaultIndex] Semantic search unavailable: ${err.message}`);
+    }
+  }
+
+  // Rank, then keep at most two chunks per file so one long doc can't crowd the rest out
+  const perFile = {};
+  return [...hits.values()]
+    .sort((a, b) => b.score - a.score)
+    .filter(h => (perFile[h.row.path] = (perFile[h.row.path] || 0) + 1) <= 2)
+    .slice(0, Math.min(Number(limit) || 8, 50))
+    .map(h => ({
+      path: h.row.path,
+      name: path.basename(h.row.path),
+      category: h.row.category,
+      chunk: h.row.chunk,
+      snippet: (h.snippet || h.row.text.slice(0, 280)).replace(/\s+/g, ' ').trim(),
+      score: Number(h.score.toFixed(4)),
+      matchedBy: h.matchedBy
+    }));
+}
+
+function getStats(userId) {
+  return db.prepare(`
+    SELECT COUNT(*) AS files, COALESCE(SUM(chunks), 0) AS chunks FROM vault_files WHERE user_id = ?
+  `).get(userId);
+}
+
+module.exports = { indexFile, removeFile, syncUser, search, getStats, chunkText, EMBED_DIMENSIONS };
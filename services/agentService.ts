@@ -3,6 +3,7 @@ import { geminiService } from './geminiService';
 import { AgentOptions } from '../types';
 import { gatewayService } from './gatewayService';
 import { skillsService } from './skillsService';
+import { LLMStreamOptions } from './llmProviderService';
 
 export class AgentService {
     async executeCommand(
@@ -10,7 +11,8 @@ export class AgentService {
         history: any[],
         context: string,
         options: AgentOptions,
-        file?: { name: string; type: string; data: string } | null
+        file?: { name: string; type: string; data: string } | null,
+        stream?: LLMStreamOptions
     ) {
         // 1. Intercept CLI Commands
         const trimmed = message.trim();
@@ -21,8 +23,8 @@ export class AgentService {
         // 2. Standard Gemini Processing
         console.log(`[Pilot CLI] Synchronizing via Gemini v4.0: --agent ${options.agentId} --pilot-mode active`);
 
-        // Call Gemini with the specified Thinking Depth and optional file
-        const response = await geminiService.sendMessage(history, message, context, options.thinking, file);
+        // Call Gemini with the specified Thinking Depth, optional file and stream callbacks
+        const response = await geminiService.sendMessage(history, message, context, options.thinking, file, stream);
 
         // Mock Delivery logic if channel is not WEB
         if (options.channel !== 'WEB' && response.text) {
@@ -5,6 +5,7 @@
  */
 
 import { userScopeService } from './userScopeService';
+import { Task, Document, ClawAgent, Expense, Checklist, ClawMemory, AgentMission, AgentLog, UsageEntry, UsageSummary } from '../types';
 
 const API_BASE = (() => {
     const host = window.location.hostname;
@@ -37,7 +38,7 @@ function setOnAuthFailure(callback: () => void) {
     onAuthFailure = callback;
 }
 
-async function request(path: string, options: RequestInit = {}): Promise<any> {
+async function send(path: string, options: RequestInit = {}): Promise<Response> {
     try {
         const headers: Record<string, string> = {
             'Content-Type': 'application/json',
@@ -65,7 +66,7 @@ async function request(path: string, options: RequestInit = {}): Promise<any> {
 
         if (!res.ok) throw new Error(`API ${res.status}: ${res.statusText}`);
         isOnline = true;
-        return res.json();
+        return res;
     } catch (err) {
         if ((err as Error).message === 'Authentication required') throw err;
         isOnline = false;
@@ -74,6 +75,18 @@ async function request(path: string, options: RequestInit = {}): Promise<any> {
     }
 }
 
+async function request(path: string, options: RequestInit = {}): Promise<any> {
+    const res = await send(path, options);
+    return res.json();
+}
+
+/** GET a list endpoint with the server's X-Total-Count, for paging */
+async function requestPage<T>(path: string): Promise<{ items: T[]; total: number }> {
+    const res = await send(path);
+    const items: T[] = await res.json();
+    return { items, total: Number(res.headers.get('X-Total-Count')) || items.length };
+}
+
 // --- Auth Functions ---
 async function register(email: string, password: string, name?: string): Promise<{ user: any; token: string }> {
     const result = await request('/auth/register', {
@@ -205,6 +218,86 @@ function createResource<T extends { id: string }>(resourceName: string, localSto
     };
 }
 
+// --- Memories: CRUD + server-side search and bulk forget ---
+const memoryResource = createResource<ClawMemory>('memories', 'claw_memories');
+const memories = {
+    ...memoryResource,
+
+    async search(params: { query?: string; category?: string; limit?: number }): Promise<ClawMemory[]> {
+        const qs = new URLSearchParams();
+        if (params.query) qs.set('query', params.query);
+        if (params.category) qs.set('category', params.category);
+        if (params.limit) qs.set('limit', String(params.limit));
+        return await request(`/memories?${qs.toString()}`);
+    },
+
+    async deleteCategory(category: string): Promise<number> {
+        const res = await request(`/memories?category=${encodeURIComponent(category)}`, { method: 'DELETE' });
+        return res.deleted;
+    }
+};
+
+// --- Agent missions + field reports (the server may run missions itself) ---
+const missions = {
+    ...createResource<AgentMission>('missions', 'claw_agent_missions'),
+
+    /** Is the server-side scheduler running missions for this user? */
+    async schedulerEnabled(): Promise<boolean> {
+        try {
+            const res = await request('/missions/scheduler');
+            return !!res.enabled;
+        } catch {
+            return false;
+        }
+    },
+
+    async runOnServer(agentId: string): Promise<void> {
+        await request(`/missions/${encodeURIComponent(agentId)}/run`, { method: 'POST' });
+    }
+};
+
+const agentLogs = {
+    ...createResource<AgentLog>('agent_logs', 'claw_agent_logs'),
+
+    async page(params: { agentId?: string; type?: string; limit?: number; offset?: number }): Promise<{ items: AgentLog[]; total: number }> {
+        const qs = new URLSearchParams();
+        if (params.agentId) qs.set('agentId', params.agentId);
+        if (params.type) qs.set('type', params.type);
+        qs.set('limit', String(params.limit || 20));
+        qs.set('offset', String(params.offset || 0));
+        return requestPage<AgentLog>(`/agent_logs?${qs.toString()}`);
+    }
+};
+
+// --- Model usage accounting (the server keeps the daily rollups) ---
+const usage = {
+    /** Idempotent by entry id — returns how many were new to the server */
+    async record(entries: UsageEntry[]): Promise<number> {
+        const res = await request('/usage', {
+            method: 'POST',
+            body: JSON.stringify({ entries })
+        });
+        return res.recorded;
+    },
+
+    async summary(since: string): Promise<UsageSummary> {
+        return request(`/usage/summary?since=${encodeURIComponent(since)}`);
+    },
+
+    async page(params: { agentId?: string; model?: string; limit?: number; offset?: number }): Promise<{ items: UsageEntry[]; total: number }> {
+        const qs = new URLSearchParams();
+        if (params.agentId) qs.set('agentId', params.agentId);
+        if (params.model) qs.set('model', params.model);
+        qs.set('limit', String(params.limit || 50));
+        qs.set('offset', String(params.offset || 0));
+        return requestPage<UsageEntry>(`/usage?${qs.toString()}`);
+    },
+
+    async reset(): Promise<void> {
+        await request('/usage', { method: 'DELETE' });
+    }
+};
+
 // --- Config helpers (user-scoped) ---
 const config = {
     async get(key: string): Promise<any> {
@@ -267,15 +360,19 @@ const admin = {
 
 // --- Resource instances ---
 export const api = {
-    tasks: createResource('tasks', 'claw_tasks'),
-    documents: createResource('documents', 'claw_documents'),
-    agents: createResource('agents', 'claw_agents'),
-    expenses: createResource('expenses', 'claw_expenses'),
-    checklists: createResource('checklists', 'claw_checklists'),
+    tasks: createResource<Task>('tasks', 'claw_tasks'),
+    documents: createResource<Document>('documents', 'claw_documents'),
+    agents: createResource<ClawAgent>('agents', 'claw_agents'),
+    expenses: createResource<Expense>('expenses', 'claw_expenses'),
+    checklists: createResource<Checklist>('checklists', 'claw_checklists'),
     chat: createResource('chat', 'claw_chat_history'),
     contacts: createResource('contacts', 'claw_contacts'),
     cron: createResource('cron', 'claw_cron_jobs'),
     events: createResource('events', 'claw_events'),
+    memories,
+    missions,
+    agentLogs,
+    usage,
     config,
     pullAll,
     pushAll,
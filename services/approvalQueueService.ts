@@ -0,0 +1,227 @@
+/*
+ * Approval Queue Service — Human-in-the-Loop Gate for Risky Tool Calls
+ *
+ * toolRegistryService parks every RISKY call here and awaits the decision, which
+ * pauses the calling tool loop (Claw's chat or an agent mission) until then.
+ * While the gateway is connected the server (server/toolApprovals.cjs) is the
+ * arbiter: it stores the record, shows it to every session of the operator and
+ * takes the first decision. Offline, decisions are made on this device and the
+ * record is sent to the server's audit trail once the gateway reconnects — the
+ * server keeps refusals but only accepts approvals it granted itself, and runs
+ * trades and emails only against an approval it holds.
+ */
+
+import { gatewayService } from './gatewayService';
+import { ApprovalStatus, ApprovalType, PendingApproval } from '../types';
+
+export type ApprovalRequest = Pick<PendingApproval, 'type' | 'title' | 'description' | 'toolName' | 'args' | 'caller' | 'agentId'>;
+
+export interface ApprovalDecision {
+    id: string;
+    approved: boolean;
+    status: ApprovalStatus;
+    note?: string;
+}
+
+type Listener = (approvals: PendingApproval[]) => void;
+type Decision = 'APPROVED' | 'REJECTED' | 'EXPIRED';
+
+export const APPROVAL_TIMEOUT_MS = 15 * 60 * 1000;
+export const GRANT_MINUTES = 10;
+// Only browser actions can be allowed for a while — every deletion, email and trade is asked for
+export const GRANTABLE_TYPES: ApprovalType[] = ['BROWSER_ACTION'];
+const HISTORY_LIMIT = 50;
+const MAX_RESULT_CHARS = 2000;
+
+class ApprovalQueueService {
+    private approvals: PendingApproval[] = [];
+    private waiting: Map<string, { resolve: (d: ApprovalDecision) => void; timer: ReturnType<typeof setTimeout> }> = new Map();
+    private remote: Set<string> = new Set();          // ids the server knows as PENDING
+    private grants: Map<ApprovalType, number> = new Map(); // type → expiry (ms)
+    private listeners: Listener[] = [];
+    private initialized = false;
+
+    init() {
+        if (this.initialized) return;
+        this.initialized = true;
+        gatewayService.subscribeApprovals((data) => this.handleMessage(data));
+        gatewayService.subscribe((status) => {
+            if (status === 'CONNECTED') {
+                gatewayService.approvalList();
+                return;
+            }
+            // The server expires a closed session's pending calls — mirror that here
+            for (const id of Array.from(this.remote)) {
+                const approval = this.find(id);
+                this.remote.delete(id);
+                if (approval?.status !== 'PENDING') continue;
+                if (this.waiting.has(id)) {
+                    this.settle({ ...approval, status: 'EXPIRED', decidedAt: new Date().toISOString(), decidedBy: 'session closed' });
+                } else {
+                    this.approvals = this.approvals.filter(a => a.id !== id); // another session's — reloaded on reconnect
+                }
+            }
+            this.notify();
+        });
+    }
+
+    /**
+     * Park a tool call until the operator decides. Resolves (never rejects) with
+     * the decision; undecided calls expire after APPROVAL_TIMEOUT_MS.
+     */
+    request(req: ApprovalRequest): Promise<ApprovalDecision> {
+        const now = new Date().toISOString();
+        const approval: PendingApproval = {
+            ...req,
+            id: `approval_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+            status: 'PENDING',
+            createdAt: now,
+        };
+
+        if (this.hasGrant(req.type)) {
+            const granted: PendingApproval = { ...approval, status: 'APPROVED', decidedAt: now, decidedBy: `grant (${GRANT_MINUTES} min)` };
+            this.upsert(granted);
+            gatewayService.approvalRequest(granted);
+            return Promise.resolve({ id: granted.id, approved: true, status: 'APPROVED' });
+        }
+
+        this.upsert(approval);
+        if (gatewayService.getStatus() === 'CONNECTED') {
+            this.remote.add(approval.id);
+            gatewayService.approvalRequest(approval);
+        }
+        return new Promise(resolve => {
+            const timer = setTimeout(() => this.decide(approval.id, 'EXPIRED'), APPROVAL_TIMEOUT_MS);
+            this.waiting.set(approval.id, { resolve, timer });
+        });
+    }
+
+    /**
+     * Operator decision from the queue UI. `grantMinutes` also auto-approves further
+     * calls of the same type for that long (GRANTABLE_TYPES only).
+     */
+    decide(id: string, status: Decision, note?: string, grantMinutes?: number) {
+        const approval = this.find(id);
+        if (!approval || approval.status !== 'PENDING') return;
+
+        if (this.remote.has(id)) {
+            gatewayService.approvalDecide(id, status, note, grantMinutes);
+            return;
+        }
+        const decided: PendingApproval = {
+            ...approval,
+            status,
+            decidedAt: new Date().toISOString(),
+            decidedBy: status === 'EXPIRED' ? 'timeout' : 'operator',
+            ...(note ? { note } : {}),
+        };
+        this.settle(decided, grantMinutes);
+        gatewayService.approvalRequest(decided); // audit trail — queued until the gateway is back
+    }
+
+    /** Attach the tool's outcome to an approved call's audit record */
+    recordResult(id: string, ok: boolean, result: string) {
+        const approval = this.find(id);
+        if (!approval || approval.status !== 'APPROVED') return;
+        const status = ok ? 'EXECUTED' : 'FAILED';
+        this.upsert({ ...approval, status, result: result.slice(0, MAX_RESULT_CHARS) });
+        gatewayService.approvalOutcome(id, status, result.slice(0, MAX_RESULT_CHARS));
+    }
+
+    hasGrant(type: ApprovalType): boolean {
+        const until = this.grants.get(type);
+        if (until && until > Date.now()) return true;
+        this.grants.delete(type);
+        return false;
+    }
+
+    revokeGrants() {
+        this.grants.clear();
+        gatewayService.approvalRevokeGrants();
+        this.notify();
+    }
+
+    getGrants(): { type: ApprovalType; until: number }[] {
+        return Array.from(this.grants.entries())
+            .filter(([, until]) => until > Date.now())
+            .map(([type, until]) => ({ type, until }));
+    }
+
+    getApprovals(): PendingApproval[] {
+        return this.approvals;
+    }
+
+    getPending(): PendingApproval[] {
+        return this.approvals.filter(a => a.status === 'PENDING');
+    }
+
+    subscribe(callback: Listener): () => void {
+        this.listeners.push(callback);
+        callback(this.approvals);
+        return () => { this.listeners = this.listeners.filter(l => l !== callback); };
+    }
+
+    // ─── Internals ──────────────────────────────────────────
+
+    private handleMessage(data: any) {
+        switch (data.type) {
+            case 'APPROVAL_LIST': {
+                const server: PendingApproval[] = data.approvals || [];
+                const known = new Set(server.map(a => a.id));
+                const localOnly = this.approvals.filter(a => !known.has(a.id));
+                this.approvals = [...server, ...localOnly].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+                server.forEach(a => {
+                    if (a.status === 'PENDING') this.remote.add(a.id);
+                    else if (this.waiting.has(a.id)) this.settle(a);
+                });
+                this.notify();
+                break;
+            }
+            case 'APPROVAL_PENDING':
+                if (data.approval.status === 'PENDING') this.remote.add(data.approval.id);
+                this.upsert(data.approval);
+                break;
+            case 'APPROVAL_RESOLVED':
+                this.remote.delete(data.approval.id);
+                this.settle(data.approval, data.grantMinutes);
+                break;
+            case 'APPROVAL_ERROR':
+                // The server can't hold it (e.g. an unauthenticated session) — decide on this device instead
+                if (data.id && this.remote.has(data.id)) {
+                    console.warn(`[Approvals] ${data.error} — deciding ${data.id} locally`);
+                    this.remote.delete(data.id);
+                }
+                break;
+        }
+    }
+
+    private settle(approval: PendingApproval, grantMinutes?: number) {
+        this.upsert(approval);
+        const waiter = this.waiting.get(approval.id);
+        if (!waiter || approval.status === 'PENDING') return;
+        clearTimeout(waiter.timer);
+        this.waiting.delete(approval.id);
+        if (approval.status === 'APPROVED' && grantMinutes && GRANTABLE_TYPES.includes(approval.type)) {
+            this.grants.set(approval.type, Date.now() + grantMinutes * 60 * 1000);
+        }
+        waiter.resolve({ id: approval.id, approved: approval.status === 'APPROVED', status: approval.status, note: approval.note });
+    }
+
+    private find(id: string): PendingApproval | undefined {
+        return this.approvals.find(a => a.id === id);
+    }
+
+    private upsert(approval: PendingApproval) {
+        const rest = this.approvals.filter(a => a.id !== approval.id);
+        const pending = [approval, ...rest].filter(a => a.status === 'PENDING');
+        const history = [approval, ...rest].filter(a => a.status !== 'PENDING').slice(0, HISTORY_LIMIT);
+        this.approvals = [...pending, ...history].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        this.notify();
+    }
+
+    private notify() {
+        this.listeners.forEach(cb => cb(this.approvals));
+    }
+}
+
+export const approvalQueueService = new ApprovalQueueService();
@@ -5,108 +5,45 @@
  *
  * v2: Agents now have safe tools (createTask, semanticSearch, clawMemory, clawCommit),
  *     multi-turn execution loops, and progress tracking.
+ * v3: Missions and field reports persist per user on the VPS. When the server has
+ *     its own Gemini key it schedules and runs missions (server/missionScheduler.cjs)
+ *     and this service only manages them; otherwise the browser runs them as before.
+ * v4: Read-only trader tools (candles, indicators, strategy checks, positions) and
+ *     proposeTrade, which queues a trade for operator approval instead of executing it.
+ * v5: Delegation — Claw hands one-off directives to named agents, which run them
+ *     in parallel through the same tool loop (on their own model) and report back.
  */
 
 import { geminiService } from './geminiService';
 import { api } from './apiService';
 import { guardrailService } from './guardrailService';
-import { Type, FunctionDeclaration } from '@google/genai';
-
-interface AgentMission {
-    agentId: string;
-    name: string;
-    mascot: string;
-    quest: string;
-    specialty: string;
-    schedule: string;       // 'CONTINUOUS' | 'HOURLY' | 'DAILY' | 'MANUAL'
-    intervalMs: number;
-    lastRun: number;
-    isRunning: boolean;
-    // v2: Progress tracking
-    progress: number;                 // 0-100 completion percentage
-    estimatedCompletion: string | null; // "~30 min"
-    lastReport: string;               // Most recent report summary
-}
-
-interface AgentLog {
-    id: string;
-    agentId: string;
-    type: 'REPORT' | 'ALERT' | 'ERROR';
-    content: string;
-    createdAt: string;
-}
-
-// --- Safe Agent Tool Declarations ---
-// These are the ONLY tools agents can use. No email, no browser, no destructive ops.
-
-const agentCreateTaskTool: FunctionDeclaration = {
-    name: 'createTask',
-    description: 'Create a task for the operator based on your analysis. Use when you find something that needs action.',
-    parameters: {
-        type: Type.OBJECT,
-        properties: {
-            title: { type: Type.STRING, description: 'Task title' },
-            description: { type: Type.STRING, description: 'Task details' },
-            priority: { type: Type.STRING, enum: ['HIGH', 'MEDIUM', 'LOW'], description: 'Priority level' },
-            dueDate: { type: Type.STRING, description: 'Due date in ISO format (optional)' }
-        },
-        required: ['title', 'description'],
-    },
-};
-
-const agentSemanticSearchTool: FunctionDeclaration = {
-    name: 'semanticSearch',
-    description: 'Search the Company Vault for documents related to a query. Use to review specific docs for your quest.',
-    parameters: {
-        type: Type.OBJECT,
-        properties: {
-            query: { type: Type.STRING, description: 'Search query (e.g. "insurance expiration", "fleet maintenance")' }
-        },
-        required: ['query'],
-    },
+import { FunctionDeclaration } from '@google/genai';
+import { AgentMission, AgentLog, MissionSchedule, ClawAgent, Delegation } from '../types';
+import agentTools from '../agentTools.json';
+
+const INTERVALS: Record<MissionSchedule, number> = {
+    CONTINUOUS: 15 * 60 * 1000,  // 15 min
+    HOURLY: 60 * 60 * 1000,
+    DAILY: 24 * 60 * 60 * 1000,
+    MANUAL: 0
 };
 
-const agentMemoryTool: FunctionDeclaration = {
-    name: 'clawMemory',
-    description: 'Save or recall findings. Use REMEMBER to store an important finding. Use RECALL to check past knowledge.',
-    parameters: {
-        type: Type.OBJECT,
-        properties: {
-            action: { type: Type.STRING, enum: ['REMEMBER', 'RECALL'], description: 'REMEMBER to store, RECALL to search' },
-            fact: { type: Type.STRING, description: 'The fact to remember or query to recall' },
-            category: { type: Type.STRING, enum: ['GENERAL', 'FINANCE', 'LEGAL', 'OPERATIONS', 'PEOPLE', 'POLICY', 'SCHEDULE'], description: 'Category' }
-        },
-        required: ['action', 'fact'],
-    },
-};
-
-const agentCommitTool: FunctionDeclaration = {
-    name: 'clawCommit',
-    description: 'Log your progress. Use COMMIT to note what you are working on. Use UPDATE to mark progress.',
-    parameters: {
-        type: Type.OBJECT,
-        properties: {
-            action: { type: Type.STRING, enum: ['COMMIT', 'UPDATE'], description: 'COMMIT a finding, UPDATE progress' },
-            promise: { type: Type.STRING, description: 'What you found or are working on (for COMMIT)' },
-            eta: { type: Type.STRING, description: 'Estimated time remaining (for COMMIT)' },
-            commitmentId: { type: Type.STRING, description: 'ID to update (for UPDATE)' },
-            status: { type: Type.STRING, enum: ['IN_PROGRESS', 'FAILED'], description: 'Status (for UPDATE)' }
-        },
-        required: ['action'],
-    },
-};
+// --- Safe Agent Tool Declarations ---
+// These are the ONLY tools agents can use. No email, no browser, no destructive ops,
+// and no direct trades — proposeTrade waits for the operator. Declared once in
+// agentTools.json, which server/missionScheduler.cjs reads too.
 
-const AGENT_TOOLS: FunctionDeclaration[] = [
-    agentCreateTaskTool,
-    agentSemanticSearchTool,
-    agentMemoryTool,
-    agentCommitTool,
-];
+const AGENT_TOOLS = agentTools.tools.map(({ guide, browserOnly, ...declaration }) => declaration) as unknown as FunctionDeclaration[];
 
 // Safe tool names that agents are allowed to execute
-const SAFE_TOOL_NAMES = new Set(['createTask', 'semanticSearch', 'clawMemory', 'clawCommit']);
+const SAFE_TOOL_NAMES = new Set(agentTools.tools.map(tool => tool.name));
 
 const MAX_TOOL_ROUNDS = 5;
+const DELEGATION_HISTORY = 30;
+
+const AGENT_TOOL_GUIDE = `You have access to these tools:\n${agentTools.tools.map(tool => `- ${tool.name}: ${tool.guide}`).join('\n')}`;
+
+type DelegationListener = (delegations: Delegation[]) => void;
 
 class AutonomousAgentService {
     private missions: Map<string, AgentMission> = new Map();
@@ -114,17 +51,61 @@ class AutonomousAgentService {
     private logs: AgentLog[] = [];
     private contextProvider: (() => string) | null = null;
     private onReport: ((agentName: string, mascot: string, report: string, isAlert: boolean) => void) | null = null;
-    private toolHandler: ((action: { name: string; args: any }) => Promise<string | void>) | null = null;
+    private toolHandler: ((action: { name: string; args: any; agentId?: string }) => Promise<string | void>) | null = null;
+    private serverScheduled = false; // server/missionScheduler.cjs owns scheduled runs
+    private generation = 0; // bumped by restore() and destroy() — stale restores stop at their next await
+    private delegations: Delegation[] = [];
+    private delegationListeners: DelegationListener[] = [];
 
     init(
         contextProvider: () => string,
         onReport: (agentName: string, mascot: string, report: string, isAlert: boolean) => void,
-        toolHandler?: (action: { name: string; args: any }) => Promise<string | void>
+        toolHandler?: (action: { name: string; args: any; agentId?: string }) => Promise<string | void>
     ) {
         this.contextProvider = contextProvider;
         this.onReport = onReport;
         this.toolHandler = toolHandler || null;
-        console.log('[AgentService] Autonomous agent service initialized (v2 — with tools)');
+        void this.restore();
+        console.log('[AgentService] Autonomous agent service initialized (v3 — persisted missions)');
+    }
+
+    // --- Reload deployed missions after a refresh ---
+    private async restore() {
+        const generation = ++this.generation;
+        const serverScheduled = await api.missions.schedulerEnabled();
+        if (generation !== this.generation) return;
+        this.serverScheduled = serverScheduled;
+        if (this.serverScheduled) void guardrailService.publish();
+
+        const saved = await api.missions.list();
+        if (generation !== this.generation) return;
+        for (const mission of saved) {
+            this.missions.set(mission.agentId, { ...mission, isRunning: false });
+            this.scheduleLocal(mission);
+        }
+        if (saved.length > 0) {
+            console.log(`[AgentService] Restored ${saved.length} mission(s) — ${this.serverScheduled ? 'server' : 'browser'} scheduled`);
+        }
+    }
+
+    // Browser-side timers — only when the server isn't running missions itself
+    private scheduleLocal(mission: AgentMission) {
+        if (this.serverScheduled || mission.schedule === 'MANUAL' || mission.intervalMs <= 0) return;
+        const firstDelay = Math.max(5000, mission.lastRun + mission.intervalMs - Date.now());
+        const timer = setTimeout(() => {
+            this.runMission(mission.agentId);
+            this.timers.set(mission.agentId, setInterval(() => this.runMission(mission.agentId), mission.intervalMs));
+        }, firstDelay);
+        this.timers.set(mission.agentId, timer);
+    }
+
+    private clearTimer(agentId: string) {
+        const timer = this.timers.get(agentId);
+        if (timer) {
+            clearTimeout(timer);
+            clearInterval(timer);
+            this.timers.delete(agentId);
+        }
     }
 
     // --- Deploy an agent on a mission ---
@@ -134,23 +115,17 @@ class AutonomousAgentService {
         mascot: string,
         quest: string,
         specialty: string,
-        schedule: 'CONTINUOUS' | 'HOURLY' | 'DAILY' | 'MANUAL' = 'DAILY'
+        schedule: MissionSchedule = 'DAILY'
     ): string {
-        const intervalMap = {
-            CONTINUOUS: 15 * 60 * 1000,  // 15 min
-            HOURLY: 60 * 60 * 1000,
-            DAILY: 24 * 60 * 60 * 1000,
-            MANUAL: 0
-        };
-
         const mission: AgentMission = {
+            id: agentId,
             agentId,
             name,
             mascot,
             quest,
             specialty,
             schedule,
-            intervalMs: intervalMap[schedule],
+            intervalMs: INTERVALS[schedule] || 0,
             lastRun: 0,
             isRunning: false,
             progress: 0,
@@ -158,18 +133,12 @@ class AutonomousAgentService {
             lastReport: ''
         };
 
+        this.clearTimer(agentId);
         this.missions.set(agentId, mission);
+        void api.missions.create(mission);
+        this.scheduleLocal(mission);
 
-        // Start the schedule if not MANUAL
-        if (schedule !== 'MANUAL' && mission.intervalMs > 0) {
-            // Run the first check after a short delay
-            setTimeout(() => this.runMission(agentId), 5000);
-
-            const timer = setInterval(() => this.runMission(agentId), mission.intervalMs);
-            this.timers.set(agentId, timer);
-        }
-
-        return `${mascot} ${name} deployed on ${schedule} schedule. Quest: "${quest}"`;
+        return `${mascot} ${name} deployed on ${schedule} schedule${this.serverScheduled ? ' (runs on the server)' : ''}. Quest: "${quest}"`;
     }
 
     // --- Run an agent's mission (v2: multi-turn with tools) ---
@@ -184,6 +153,13 @@ class AutonomousAgentService {
         if (!mission) return 'Agent not deployed.';
         if (mission.isRunning) return 'Agent already running a mission.';
 
+        if (this.serverScheduled) {
+            try {
+                await api.missions.runOnServer(agentId);
+                return `${mission.mascot} ${mission.name} is running on the server — the field report will appear in its history.`;
+            } catch { /* server unreachable — run it here */ }
+        }
+
         mission.isRunning = true;
         const context = this.contextProvider?.() || '';
 
@@ -191,26 +167,9 @@ class AutonomousAgentService {
 Your specialty is: ${mission.specialty}
 Your current quest/mission is: "${mission.quest}"
 
-You have access to these tools:
-- createTask: Create action items for the operator when you find something that needs doing
-- semanticSearch: Search the Company Vault for relevant documents
-- clawMemory: Remember important findings (REMEMBER) or check past knowledge (RECALL)
-- clawCommit: Log your progress (COMMIT) or update status (UPDATE)
-
-WORKFLOW:
-1. Use semanticSearch to find relevant documents for your quest
-2. Analyze what you find against the business context
-3. Use createTask for any action items you discover
-4. Use clawMemory REMEMBER to store key findings
-5. Write your final field report
-
-VERIFICATION RULES:
-- If you only analyzed but changed nothing, say "ANALYSIS ONLY — no changes made."
-- If you created tasks or stored memories, list each one.
-- Do NOT claim you did something unless you used a tool.
+${AGENT_TOOL_GUIDE}
 
-PROGRESS FORMAT (include this on the LAST line of your report):
-PROGRESS: <0-100>% | ETA: <estimate or "ongoing">
+${agentTools.missionInstructions.join('\n')}
 
 Business Context:
 ${context}`;
@@ -221,50 +180,9 @@ Focus on your specialty (${mission.specialty}). Be specific, actionable, and fla
 Keep your final report under 200 words. Start with "${mission.mascot} FIELD REPORT:"`;
 
         try {
-            let finalReport = '';
-            let round = 0;
-
-            // Initial call with tools
-            let response = await geminiService.sendAgentMessage(systemPrompt, taskPrompt, AGENT_TOOLS);
-
-            while (round < MAX_TOOL_ROUNDS) {
-                round++;
-
-                // If no function calls, we're done
-                if (!response.functionCalls || response.functionCalls.length === 0) {
-                    finalReport = response.text || 'No findings to report.';
-                    break;
-                }
-
-                // Process function calls
-                const toolResults: string[] = [];
-                for (const call of response.functionCalls) {
-                    if (!SAFE_TOOL_NAMES.has(call.name)) {
-                        toolResults.push(`[BLOCKED] Tool "${call.name}" is not available to agents.`);
-                        continue;
-                    }
-
-                    if (this.toolHandler) {
-                        try {
-                            const result = await this.toolHandler({ name: call.name, args: call.args });
-                            toolResults.push(`[${call.name}] ${result}`);
-                        } catch (e: any) {
-                            toolResults.push(`[${call.name}] Error: ${e.message}`);
-                        }
-                    } else {
-                        toolResults.push(`[${call.name}] Tool handler not available.`);
-                    }
-                }
-
-                // Feed results back and continue
-                const toolResultsText = `Tool results:\n${toolResults.join('\n')}\n\nContinue your quest. If you have enough information, produce your final field report. Remember to include PROGRESS on the last line.`;
-                response = await geminiService.sendAgentMessage(systemPrompt, toolResultsText, AGENT_TOOLS);
-            }
-
-            // If we exhausted rounds, take whatever we have
-            if (!finalReport) {
-                finalReport = response.text || 'Agent reached max tool rounds without final report.';
-            }
+            const loop = await this.runToolLoop(agentId, `run_${Date.now()}_${agentId}`, systemPrompt, taskPrompt,
+                'Continue your quest. If you have enough information, produce your final field report. Remember to include PROGRESS on the last line.');
+            const finalReport = loop.text || (loop.exhausted ? 'Agent reached max tool rounds without final report.' : 'No findings to report.');
 
             // Parse progress from report
             this.parseProgress(mission, finalReport);
@@ -277,21 +195,22 @@ Keep your final report under 200 words. Start with "${mission.mascot} FIELD REPO
                 agentId,
                 type: isAlert ? 'ALERT' : 'REPORT',
                 content: finalReport,
-                createdAt: new Date().toISOString()
+                createdAt: new Date().toISOString(),
+                runner: 'browser'
             };
 
             this.logs.unshift(log);
             mission.lastRun = Date.now();
             mission.isRunning = false;
 
-            // Save log to API
-            try {
-                await fetch(`${this.getApiBase()}/agent_logs`, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify(log)
-                });
-            } catch { /* offline fallback */ }
+            // Persist the report and mission progress so they survive reloads
+            await api.agentLogs.create(log);
+            await api.missions.update(agentId, {
+                lastRun: mission.lastRun,
+                progress: mission.progress,
+                estimatedCompletion: mission.estimatedCompletion,
+                lastReport: mission.lastReport
+            });
 
             // Notify through callback
             this.onReport?.(mission.name, mission.mascot, finalReport, isAlert);
@@ -304,13 +223,169 @@ Keep your final report under 200 words. Start with "${mission.mascot} FIELD REPO
                 agentId,
                 type: 'ERROR',
                 content: `Mission failed: ${err.message}`,
-                createdAt: new Date().toISOString()
+                createdAt: new Date().toISOString(),
+                runner: 'browser'
             };
             this.logs.unshift(errorLog);
+            void api.agentLogs.create(errorLog);
             return `Mission error: ${err.message}`;
         }
     }
 
+    // --- Agent tool loop: call the model, run its safe tools, feed the results back ---
+    // `runId` (mission run or delegation id) tags every model call's usage entry
+    private async runToolLoop(
+        agentId: string,
+        runId: string,
+        systemPrompt: string,
+        taskPrompt: string,
+        followUp: string,
+        modelId?: string
+    ): Promise<{ text: string; toolsUsed: string[]; exhausted: boolean }> {
+        const toolsUsed: string[] = [];
+        const options = { attribution: { agentId, missionId: runId } };
+        let response = await geminiService.sendAgentMessage(systemPrompt, taskPrompt, AGENT_TOOLS, modelId, options);
+
+        for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+            // If no function calls, we're done
+            if (!response.functionCalls || response.functionCalls.length === 0) {
+                return { text: response.text || '', toolsUsed, exhausted: false };
+            }
+
+            // Process function calls
+            const toolResults: string[] = [];
+            for (const call of response.functionCalls) {
+                if (!SAFE_TOOL_NAMES.has(call.name)) {
+                    toolResults.push(`[BLOCKED] Tool "${call.name}" is not available to agents.`);
+                    continue;
+                }
+
+                if (this.toolHandler) {
+                    try {
+                        const result = await this.toolHandler({ name: call.name, args: call.args, agentId });
+                        toolResults.push(`[${call.name}] ${result}`);
+                        toolsUsed.push(call.name);
+                    } catch (e: any) {
+                        toolResults.push(`[${call.name}] Error: ${e.message}`);
+                    }
+                } else {
+                    toolResults.push(`[${call.name}] Tool handler not available.`);
+                }
+            }
+
+            // Feed results back and continue
+            response = await geminiService.sendAgentMessage(systemPrompt, `Tool results:\n${toolResults.join('\n')}\n\n${followUp}`, AGENT_TOOLS, modelId, options);
+        }
+
+        // If we exhausted rounds, take whatever we have
+        return { text: response.text || '', toolsUsed, exhausted: true };
+    }
+
+    // --- Delegation: one-off directives from Claw, run now and returned to the chat ---
+    async delegate(assignments: { agent: ClawAgent; directive: string }[]): Promise<Delegation[]> {
+        const batchId = `dbatch_${Date.now()}`;
+        const batch: Delegation[] = assignments.map(({ agent, directive }, i) => ({
+            id: `dlg_${Date.now()}_${i}`,
+            batchId,
+            agentId: agent.id,
+            agentName: agent.name,
+            mascot: agent.mascot,
+            directive,
+            model: agent.modelId || 'gemini',
+            status: 'QUEUED',
+            toolsUsed: [],
+            createdAt: new Date().toISOString(),
+        }));
+        this.delegations = [...batch, ...this.delegations].slice(0, DELEGATION_HISTORY);
+        this.notifyDelegations();
+
+        // Agents work in parallel; each one takes a single directive at a time
+        const busy = new Set<string>();
+        return Promise.all(batch.map((delegation, i) => {
+            const { agent } = assignments[i];
+            const alreadyBusy = busy.has(agent.id) || this.delegations.some(d => d.agentId === agent.id && d.status === 'RUNNING');
+            busy.add(agent.id);
+            if (alreadyBusy) return this.finishDelegation(delegation, { status: 'FAILED', error: `${agent.name} is already working on a delegated task` });
+            return this.runDelegation(delegation, agent);
+        }));
+    }
+
+    private async runDelegation(delegation: Delegation, agent: ClawAgent): Promise<Delegation> {
+        if (!guardrailService.isAwake()) {
+            return this.finishDelegation(delegation, { status: 'FAILED', error: 'Sleep mode active — delegation not run' });
+        }
+        if (agent.status === 'RETIRED') {
+            return this.finishDelegation(delegation, { status: 'FAILED', error: `${agent.name} is retired` });
+        }
+        this.updateDelegation(delegation.id, { status: 'RUNNING' });
+
+        const systemPrompt = `You are ${agent.mascot} ${agent.name}, a specialist agent on Claw's squad.
+Your specialty is: ${agent.specialty}
+Your standing quest is: "${agent.quest}"
+
+Claw, your squad leader, has delegated ONE task to you. Do only that task, then report back to Claw.
+
+${AGENT_TOOL_GUIDE}
+
+VERIFICATION RULES:
+- Base every claim on tool results or the business context — never invent prices, documents or facts.
+- Trade proposals are pending until approved — never report them as executed trades.
+- Do NOT claim you did something unless you used a tool.
+
+REPORT FORMAT (under 200 words):
+SUMMARY: one or two sentences that answer the directive
+FINDINGS:
+- specifics (numbers, names, document ids), flag urgent items with ⚠️
+ACTIONS: tasks created, memories stored, trades proposed — or "none"
+
+Business Context:
+${this.contextProvider?.() || ''}`;
+
+        try {
+            const loop = await this.runToolLoop(agent.id, delegation.id, systemPrompt, `Directive from Claw: "${delegation.directive}"`,
+                'Continue the delegated task. If you have enough information, write your report in the REPORT FORMAT.', agent.modelId);
+            const result = loop.text || (loop.exhausted ? 'Reached max tool rounds without a report.' : 'No findings to report.');
+            const log: AgentLog = {
+                id: `alog_${Date.now()}_${agent.id}`,
+                agentId: agent.id,
+                type: result.includes('⚠️') ? 'ALERT' : 'REPORT',
+                content: `DELEGATED BY CLAW: "${delegation.directive}"\n\n${result}`,
+                createdAt: new Date().toISOString(),
+                runner: 'browser'
+            };
+            this.logs.unshift(log);
+            void api.agentLogs.create(log);
+            void api.agents.update(agent.id, { lastDirective: delegation.directive });
+            return this.finishDelegation(delegation, { status: 'DONE', result, toolsUsed: loop.toolsUsed });
+        } catch (err: any) {
+            return this.finishDelegation(delegation, { status: 'FAILED', error: err.message });
+        }
+    }
+
+    private finishDelegation(delegation: Delegation, patch: Partial<Delegation>): Delegation {
+        return this.updateDelegation(delegation.id, { ...patch, finishedAt: new Date().toISOString() }) || { ...delegation, ...patch };
+    }
+
+    private updateDelegation(id: string, patch: Partial<Delegation>): Delegation | null {
+        this.delegations = this.delegations.map(d => d.id === id ? { ...d, ...patch } : d);
+        this.notifyDelegations();
+        return this.delegations.find(d => d.id === id) || null;
+    }
+
+    private notifyDelegations() {
+        this.delegationListeners.forEach(cb => cb(this.delegations));
+    }
+
+    getDelegations(): Delegation[] {
+        return this.delegations;
+    }
+
+    subscribeDelegations(callback: DelegationListener): () => void {
+        this.delegationListeners.push(callback);
+        callback(this.delegations);
+        return () => { this.delegationListeners = this.delegationListeners.filter(l => l !== callback); };
+    }
+
     // --- Parse PROGRESS line from agent report ---
     private parseProgress(mission: AgentMission, report: string): void {
         const match = report.match(/PROGRESS:\s*(\d+)%\s*\|\s*ETA:\s*(.+)/i);
@@ -322,12 +397,9 @@ Keep your final report under 200 words. Start with "${mission.mascot} FIELD REPO
 
     // --- Stand down an agent ---
     standDown(agentId: string): string {
-        const timer = this.timers.get(agentId);
-        if (timer) {
-            clearInterval(timer);
-            this.timers.delete(agentId);
-        }
+        this.clearTimer(agentId);
         this.missions.delete(agentId);
+        void api.missions.delete(agentId);
         return 'Agent stood down.';
     }
 
@@ -338,6 +410,20 @@ Keep your final report under 200 words. Start with "${mission.mascot} FIELD REPO
             .slice(0, limit);
     }
 
+    // --- Page through an agent's persisted field reports (server history) ---
+    async fetchLogs(agentId: string, limit: number = 10, offset: number = 0): Promise<{ items: AgentLog[]; total: number }> {
+        try {
+            return await api.agentLogs.page({ agentId, limit, offset });
+        } catch {
+            const local = this.logs.filter(l => l.agentId === agentId);
+            return { items: local.slice(offset, offset + limit), total: local.length };
+        }
+    }
+
+    isServerScheduled(): boolean {
+        return this.serverScheduled;
+    }
+
     // --- Get all agent logs ---
     getAllLogs(limit: number = 20): AgentLog[] {
         return this.logs.slice(0, limit);
@@ -353,20 +439,11 @@ Keep your final report under 200 words. Start with "${mission.mascot} FIELD REPO
         return this.missions.get(agentId) || null;
     }
 
-    private getApiBase(): string {
-        const host = window.location.hostname;
-        if (host === 'localhost' || host === '127.0.0.1') {
-            return (import.meta.env.VITE_API_HOST || window.location.origin) + '/api';
-        }
-        return `${window.location.protocol}//${host}:${window.location.port || '8080'}/api`;
-    }
-
     // --- Cleanup ---
+    // Stops browser timers only — persisted missions keep running on the server
     destroy() {
-        for (const timer of this.timers.values()) {
-            clearInterval(timer);
-        }
-        this.timers.clear();
+        this.generation++;
+        for (const agentId of [...this.timers.keys()]) this.clearTimer(agentId);
         this.missions.clear();
     }
 }
@@ -1,56 +1,183 @@
 /*
- * Billing Service Stub — Lightweight placeholder
- * Full billing was removed in the ClawKeep fork.
- * This stub keeps existing service imports from breaking.
+ * Billing Service — Token & Cost Accounting
+ * Every model call lands here with the provider's own token counts, is priced
+ * from MODEL_PRICES and becomes a UsageEntry. Entries are queued locally and
+ * posted to the server (server/usage.cjs), which keeps per-user daily rollups;
+ * the summary it sends back is what the today/week/month figures and the
+ * guardrail budgets read. Offline, the local copy keeps counting and pending
+ * entries are sent on the next sync.
  */
 
+import { api } from './apiService';
 import { userScopeService } from './userScopeService';
+import { UsageEntry, UsageSummary, UsageTotals } from '../types';
+import modelPrices from '../modelPrices.json';
 
-interface UsageStats {
-    totalCalls: number;
-    totalInputTokens: number;
-    totalOutputTokens: number;
-    totalCost: number;
-    models: Record<string, { calls: number; inputTokens: number; outputTokens: number; cost: number }>;
+export interface ModelPrice {
+    input: number;   // USD per 1M input tokens
+    output: number;  // USD per 1M output tokens
 }
 
-type Listener = (stats: UsageStats) => void;
+export interface UsageMeta {
+    provider?: string;
+    agentId?: string;
+    missionId?: string;
+    estimated?: boolean;
+}
+
+type Listener = (summary: UsageSummary) => void;
+
+// List prices, USD per 1M tokens, shared with server/usage.cjs (which re-prices what
+// the browser posts). Longest matching prefix wins, so dated and "-preview" variants
+// share their family's price.
+export const MODEL_PRICES: Record<string, ModelPrice> = modelPrices.prices;
+
+// Unknown models are priced high on purpose — a budget should trip early, not late
+const DEFAULT_PRICE: ModelPrice = modelPrices.defaultPrice;
+
+const SUMMARY_KEY = 'billing_summary';
+const PENDING_KEY = 'billing_pending';
+const RECENT_LIMIT = 50;
+const MAX_PENDING = 1000;
+const SYNC_DELAY_MS = 5000;
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+const emptySummary = (): UsageSummary => ({ total: emptyTotals(), days: {}, models: {}, recent: [] });
+
+/** The operator's IANA time zone — published with the guardrails as `timeZone` */
+export const operatorTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
 
-const EMPTY_STATS: UsageStats = {
-    totalCalls: 0,
-    totalInputTokens: 0,
-    totalOutputTokens: 0,
-    totalCost: 0,
-    models: {},
-};
+/** Calendar day YYYY-MM-DD in the operator's time zone — the same key server/usage.cjs uses */
+export function toDayKey(date: Date = new Date(), timeZone: string = operatorTimeZone()): string {
+    try {
+        return new Intl.DateTimeFormat('en-CA', { year: 'numeric', month: '2-digit', day: '2-digit', timeZone }).format(date);
+    } catch {
+        const pad = (n: number) => String(n).padStart(2, '0');
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+}
+
+// Week and month starts are counted from today's key, so they follow the same zone
+function weekStartKey(today: string = toDayKey()): string {
+    const monday = new Date(`${today}T00:00:00Z`);
+    monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+    return monday.toISOString().slice(0, 10);
+}
+
+function monthStartKey(today: string = toDayKey()): string {
+    return `${today.slice(0, 7)}-01`;
+}
+
+function addTotals(totals: UsageTotals | undefined, entry: UsageEntry): UsageTotals {
+    const t = totals || emptyTotals();
+    return {
+        calls: t.calls + 1,
+        inputTokens: t.inputTokens + entry.inputTokens,
+        outputTokens: t.outputTokens + entry.outputTokens,
+        cost: t.cost + entry.cost,
+    };
+}
+
+function addEntry(summary: UsageSummary, entry: UsageEntry): UsageSummary {
+    return {
+        total: addTotals(summary.total, entry),
+        days: { ...summary.days, [entry.day]: addTotals(summary.days[entry.day], entry) },
+        models: {
+            ...summary.models,
+            [entry.model]: { ...addTotals(summary.models[entry.model], entry), provider: entry.provider },
+        },
+        recent: [entry, ...summary.recent.filter(e => e.id !== entry.id)].slice(0, RECENT_LIMIT),
+    };
+}
+
+function providerOf(model: string): string {
+    if (model.startsWith('local/')) return 'local';
+    return model.includes('/') ? 'openrouter' : 'gemini';
+}
 
 class BillingService {
     private listeners: Listener[] = [];
+    private syncTimer: ReturnType<typeof setTimeout> | null = null;
+    private syncing: Promise<void> | null = null;
+
+    /** Load the server's totals and send anything recorded while offline */
+    init(): Promise<void> {
+        return this.sync();
+    }
+
+    // --- Pricing ---
+
+    /** Price for a model id; `known` is false when the default price was used */
+    priceOf(model: string): ModelPrice & { known: boolean } {
+        // OpenRouter's ":free" variants share an id prefix with the paid model
+        if (model.endsWith(':free')) return { input: 0, output: 0, known: true };
+        const match = Object.keys(MODEL_PRICES)
+            .filter(prefix => model.startsWith(prefix))
+            .sort((a, b) => b.length - a.length)[0];
+        return match ? { ...MODEL_PRICES[match], known: true } : { ...DEFAULT_PRICE, known: false };
+    }
+
+    costOf(model: string, inputTokens: number, outputTokens: number): number {
+        const price = this.priceOf(model);
+        return (inputTokens * price.input + outputTokens * price.output) / 1e6;
+    }
+
+    // --- Recording ---
 
-    private _load(): UsageStats {
+    /** Record one model call. Tokens should be the provider's reported usage. */
+    recordUsage(model: string, inputTokens: number, outputTokens: number, meta: UsageMeta = {}): UsageEntry {
+        const now = new Date();
+        const input = Math.max(0, Math.round(inputTokens || 0));
+        const output = Math.max(0, Math.round(outputTokens || 0));
+        const entry: UsageEntry = {
+            id: `usage_${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+            timestamp: now.toISOString(),
+            day: toDayKey(now),
+            provider: meta.provider || providerOf(model),
+            model,
+            ...(meta.agentId ? { agentId: meta.agentId } : {}),
+            ...(meta.missionId ? { missionId: meta.missionId } : {}),
+            inputTokens: input,
+            outputTokens: output,
+            ...(meta.estimated || !this.priceOf(model).known ? { estimated: true } : {}),
+            cost: this.costOf(model, input, output),
+        };
+
+        this.save(addEntry(this.getSummary(), entry));
+        this.savePending([...this.loadPending(), entry].slice(-MAX_PENDING));
+        this.scheduleSync();
+        return entry;
+    }
+
+    // --- Totals ---
+
+    getSummary(): UsageSummary {
         try {
-            const raw = userScopeService.scopedGet('billing_stats');
-            return raw ? JSON.parse(raw) : { ...EMPTY_STATS };
-        } catch { return { ...EMPTY_STATS }; }
+            const raw = userScopeService.scopedGet(SUMMARY_KEY);
+            return raw ? { ...emptySummary(), ...JSON.parse(raw) } : emptySummary();
+        } catch { return emptySummary(); }
     }
 
-    private _save(stats: UsageStats) {
-        userScopeService.scopedSet('billing_stats', JSON.stringify(stats));
-        this.listeners.forEach(l => l(stats));
+    getTodayCost(): number {
+        return this.getSummary().days[toDayKey()]?.cost || 0;
     }
 
-    getStats(): UsageStats { return this._load(); }
+    /** Since Monday */
+    getWeekCost(): number {
+        return this.sumDaysFrom(weekStartKey());
+    }
+
+    /** Calendar month to date */
+    getMonthCost(): number {
+        return this.sumDaysFrom(monthStartKey());
+    }
 
-    recordUsage(model: string, inputTokens: number, outputTokens: number) {
-        const stats = this._load();
-        stats.totalCalls++;
-        stats.totalInputTokens += inputTokens;
-        stats.totalOutputTokens += outputTokens;
-        if (!stats.models[model]) stats.models[model] = { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
-        stats.models[model].calls++;
-        stats.models[model].inputTokens += inputTokens;
-        stats.models[model].outputTokens += outputTokens;
-        this._save(stats);
+    getAllTimeCost(): number {
+        return this.getSummary().total.cost;
+    }
+
+    getTodayCalls(): number {
+        return this.getSummary().days[toDayKey()]?.calls || 0;
     }
 
     subscribe(callback: Listener): () => void {
@@ -58,15 +185,72 @@ class BillingService {
         return () => { this.listeners = this.listeners.filter(l => l !== callback); };
     }
 
-    reset() {
-        this._save({ ...EMPTY_STATS });
+    /** Erase the usage history here and on the server */
+    async reset(): Promise<void> {
+        this.savePending([]);
+        this.save(emptySummary());
+        try { await api.usage.reset(); } catch { /* offline — the next sync brings the server's totals back */ }
+    }
+
+    // --- Server Sync ---
+
+    /** Flush pending entries, then replace the local totals with the server's */
+    sync(): Promise<void> {
+        if (!this.syncing) {
+            this.syncing = this.runSync().finally(() => { this.syncing = null; });
+        }
+        return this.syncing;
+    }
+
+    private async runSync(): Promise<void> {
+        try {
+            const pending = this.loadPending();
+            if (pending.length > 0) {
+                await api.usage.record(pending);
+                const sent = new Set(pending.map(e => e.id));
+                this.savePending(this.loadPending().filter(e => !sent.has(e.id)));
+            }
+            const since = [weekStartKey(), monthStartKey()].sort()[0];
+            let summary: UsageSummary = { ...emptySummary(), ...(await api.usage.summary(since)) };
+            // Calls recorded while the request was in flight aren't on the server yet
+            for (const entry of this.loadPending()) summary = addEntry(summary, entry);
+            this.save(summary);
+        } catch {
+            // Offline — local totals stand until the next sync
+        }
+    }
+
+    private scheduleSync() {
+        if (this.syncTimer) return;
+        this.syncTimer = setTimeout(() => {
+            this.syncTimer = null;
+            void this.sync();
+        }, SYNC_DELAY_MS);
+    }
+
+    // --- Persistence ---
+
+    private sumDaysFrom(startKey: string): number {
+        return Object.entries(this.getSummary().days)
+            .filter(([day]) => day >= startKey)
+            .reduce((sum, [, totals]) => sum + totals.cost, 0);
     }
 
-    getTodayCost() { return 0; }
-    getWeekCost() { return 0; }
-    getMonthCost() { return 0; }
-    getAllTimeCost() { return this._load().totalCost; }
-    getTodayCalls() { return this._load().totalCalls; }
+    private loadPending(): UsageEntry[] {
+        try {
+            const raw = userScopeService.scopedGet(PENDING_KEY);
+            return raw ? JSON.parse(raw) : [];
+        } catch { return []; }
+    }
+
+    private savePending(entries: UsageEntry[]) {
+        userScopeService.scopedSet(PENDING_KEY, JSON.stringify(entries));
+    }
+
+    private save(summary: UsageSummary) {
+        userScopeService.scopedSet(SUMMARY_KEY, JSON.stringify(summary));
+        this.listeners.forEach(l => l(summary));
+    }
 }
 
 export const billingService = new BillingService();
@@ -0,0 +1,150 @@
+/*
+ * Chart Script Worker — runs user indicator scripts in isolation.
+ *
+ * Workers have no DOM or localStorage; on top of that, network, messaging and
+ * storage globals are removed before any user code runs, and scripts see only
+ * the API built below. The main thread (chartScriptService) enforces the timeout.
+ */
+
+import indicatorsSource from '../indicators.js?raw';
+import ruleExpressionsSource from '../ruleExpressions.js?raw';
+import type { ScriptCandle, ScriptLevel, ScriptMarker, ScriptPlot, ScriptResult, ScriptRule } from './chartScriptService';
+
+// Output limits — keep a script from flooding the chart
+const MAX_PLOTS = 20;
+const MAX_MARKERS = 500;
+const MAX_LEVELS = 20;
+const MAX_RULES = 5;
+const MAX_LOGS = 50;
+
+const PALETTE = ['#00ffaa', '#54a0ff', '#f59e0b', '#ff9ff3', '#a855f7', '#ff6b6b', '#4ecdc4'];
+
+// The trader's own indicator + expression modules (CommonJS sources, evaluated here)
+const loadCommonJs = (source: string, deps: Record<string, any> = {}) => {
+    const module = { exports: {} as any };
+    new Function('module', 'exports', 'require', source)(module, module.exports, (name: string) => deps[name]);
+    return module.exports;
+};
+const indicators = loadCommonJs(indicatorsSource);
+const ruleExpressions = loadCommonJs(ruleExpressionsSource, { './indicators': indicators });
+
+const scope = self as any;
+const post: (msg: any) => void = scope.postMessage.bind(scope);
+
+// Globals user code must not reach (shadowed as parameters and removed from the scope chain)
+const BLOCKED_GLOBALS = [
+    'self', 'globalThis', 'postMessage', 'close', 'onmessage', 'addEventListener',
+    'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts',
+    'indexedDB', 'caches', 'navigator', 'location', 'Worker', 'SharedWorker', 'BroadcastChannel',
+];
+
+const runScript = (code: string, candles: ScriptCandle[]): ScriptResult => {
+    if (/\bimport\s*\(/.test(code)) throw new Error('import() is not available in chart scripts');
+
+    const n = candles.length;
+    const open = candles.map(c => c.o);
+    const high = candles.map(c => c.h);
+    const low = candles.map(c => c.l);
+    const close = candles.map(c => c.c);
+    const volume = candles.map(c => c.v);
+    const time = candles.map(c => c.t / 1000);
+
+    const align = (values: number[]): number[] => {
+        if (!Array.isArray(values)) throw new Error('Expected an array of values');
+        if (values.length >= n) return values.slice(values.length - n);
+        return [...new Array(n - values.length).fill(NaN), ...values];
+    };
+    const ema = (period: number, src: number[] = close) => align(indicators.emaOf(src, period));
+    const sma = (period: number, src: number[] = close) => align(indicators.smaOf(src, period));
+    const rsi = (period = 14) => align(indicators.calcRSI(candles, period).values);
+
+    const result: ScriptResult = { plots: [], markers: [], levels: [], rules: [], logs: [] };
+    const nextColor = () => PALETTE[(result.plots.length + result.levels.length) % PALETTE.length];
+    const finite = (v: any) => typeof v === 'number' && isFinite(v) ? v : null;
+
+    const addPlot = (kind: ScriptPlot['kind'], values: number[], opts: any = {}, legacyColor?: string) => {
+        if (result.plots.length >= MAX_PLOTS) throw new Error(`At most ${MAX_PLOTS} plots per script`);
+        // Legacy signature: plot(values, label, color)
+        if (typeof opts === 'string') opts = { title: opts, color: legacyColor };
+        result.plots.push({
+            kind,
+            title: String(opts.title || `${kind === 'line' ? 'Plot' : 'Histogram'} ${result.plots.length + 1}`),
+            color: String(opts.color || nextColor()),
+            pane: String(opts.pane || (kind === 'histogram' ? 'lower' : 'price')),
+            lineWidth: Math.min(4, Math.max(1, Number(opts.lineWidth) || 2)),
+            values: align(values).map(finite),
+        });
+    };
+
+    const api: Record<string, any> = {
+        candles, open, high, low, close, volume, time,
+        ind: indicators,
+        ema, sma, rsi, align,
+        plot: (values: number[], opts?: any, color?: string) => addPlot('line', values, opts, color),
+        histogram: (values: number[], opts?: any) => addPlot('histogram', values, opts),
+        marker: (index: number, opts: any = {}) => {
+            if (result.markers.length >= MAX_MARKERS) return;
+            const i = Math.round(Number(index));
+            if (!(i >= 0 && i < n)) return;
+            const position = opts.position === 'above' ? 'above' : 'below';
+            const marker: ScriptMarker = {
+                index: i,
+                text: String(opts.text ?? ''),
+                color: String(opts.color || (position === 'below' ? '#00d4aa' : '#ff4757')),
+                position,
+                shape: ['circle', 'square', 'arrowUp', 'arrowDown'].includes(opts.shape) ? opts.shape : (position === 'below' ? 'arrowUp' : 'arrowDown'),
+            };
+            result.markers.push(marker);
+        },
+        hline: (price: number, opts: any = {}) => {
+            if (result.levels.length >= MAX_LEVELS) throw new Error(`At most ${MAX_LEVELS} levels per script`);
+            const level: ScriptLevel = { price: Number(price), title: String(opts.title || ''), color: String(opts.color || nextColor()), pane: String(opts.pane || 'price') };
+            if (!isFinite(level.price)) throw new Error('hline() needs a number');
+            result.levels.push(level);
+        },
+        rule: (expression: string, opts: any = {}) => {
+            if (result.rules.length >= MAX_RULES) throw new Error(`At most ${MAX_RULES} rules per script`);
+            const hits = ruleExpressions.evaluateHistory(String(expression), indicators.computeAll(candles));
+            if (!Array.isArray(hits)) throw new Error(`rule(): ${hits.error} (character ${hits.position + 1})`);
+            const title = String(opts.title || expression);
+            let count = 0, lastHit: number | null = null;
+            hits.forEach((hit: boolean, i: number) => {
+                if (!hit) return;
+                count++;
+                lastHit = i;
+                api.marker(i, { text: title, color: opts.color || '#f59e0b', position: 'below', shape: 'arrowUp' });
+            });
+            const rule: ScriptRule = { expression: String(expression), title, hits: count, lastHit };
+            result.rules.push(rule);
+        },
+        log: (...values: any[]) => {
+            if (result.logs.length >= MAX_LOGS) return;
+            result.logs.push(values.map(v => typeof v === 'string' ? v : JSON.stringify(v)).join(' ').slice(0, 500));
+        },
+    };
+
+    const names = [...Object.keys(api), ...BLOCKED_GLOBALS];
+    const fn = new Function(...names, `"use strict";\n${code}`);
+    fn(...Object.values(api), ...BLOCKED_GLOBALS.map(() => undefined));
+    return result;
+};
+
+scope.onmessage = (e: MessageEvent) => {
+    const { id, code, candles } = e.data || {};
+    try {
+        post({ id, ok: true, result: runScript(String(code || ''), candles || []) });
+    } catch (err: any) {
+        post({ id, ok: false, error: err?.message || String(err) });
+    }
+};
+
+// Strip the blocked globals from the worker scope and its prototypes so they
+// can't be recovered through the scope chain either (onmessage is already bound)
+for (let target = scope; target && target !== Object.prototype; target = Object.getPrototypeOf(target)) {
+    for (const key of BLOCKED_GLOBALS) {
+        if (key === 'self' || key === 'globalThis' || key === 'onmessage') continue;
+        try {
+            Object.defineProperty(target, key, { value: undefined, writable: false, configurable: false });
+        } catch { /* non-configurable on this engine — still shadowed as a parameter */ }
+    }
+}
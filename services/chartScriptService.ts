@@ -0,0 +1,213 @@
+/*
+ * Chart Script Service — Saved Custom Indicator Scripts + Sandboxed Runner
+ *
+ * Scripts are stored per user (scoped localStorage) and executed in a Web Worker
+ * (chartScript.worker.ts) with no DOM / storage / network access. A run that
+ * overruns SCRIPT_TIMEOUT_MS is killed by terminating the worker.
+ */
+
+import { userScopeService } from './userScopeService';
+
+export interface ChartScript {
+    id: string;
+    name: string;
+    code: string;
+    updatedAt: number;
+}
+
+export interface ScriptCandle { t: number; o: number; h: number; l: number; c: number; v: number; }
+
+export interface ScriptPlot {
+    kind: 'line' | 'histogram';
+    title: string;
+    color: string;
+    pane: string;               // 'price' overlays the candles; any other name gets its own pane
+    lineWidth: number;
+    values: (number | null)[];  // aligned to candles (oldest → newest)
+}
+
+export interface ScriptMarker {
+    index: number;              // candle index
+    text: string;
+    color: string;
+    position: 'above' | 'below';
+    shape: 'circle' | 'square' | 'arrowUp' | 'arrowDown';
+}
+
+export interface ScriptLevel {
+    price: number;
+    title: string;
+    color: string;
+    pane: string;
+}
+
+// A strategy-rule expression declared by the script — can be promoted into a strategy
+export interface ScriptRule {
+    expression: string;
+    title: string;
+    hits: number;               // bars on this chart where it was true
+    lastHit: number | null;     // candle index of the most recent match
+}
+
+export interface ScriptResult {
+    plots: ScriptPlot[];
+    markers: ScriptMarker[];
+    levels: ScriptLevel[];
+    rules: ScriptRule[];
+    logs: string[];
+}
+
+export const SCRIPT_TIMEOUT_MS = 3000;
+
+export const SCRIPT_API_DOC = `// ─── Chart Script API ─────────────────────────────
+// Runs in a sandboxed worker: no DOM, storage or network.
+//
+// Data (arrays, oldest → newest)
+//   open, high, low, close, volume, time (unix s), candles [{ o, h, l, c, v, t }]
+//
+// Indicators — every indicators.js function on \`ind\`, e.g.
+//   ind.calcRSI(candles, 14).values      ind.calcMACD(candles, 12, 26, 9).histogram
+//   ind.calcBollinger(candles, 20, 2)    ind.calcSuperTrend(candles, 10, 3)
+//   ind.calcADX(candles, 14)             ind.calcIchimoku(candles)
+//   ind.emaOf(values, n)  ind.smaOf(values, n)  ind.computeAll(candles)
+//   (indicator arrays end at the newest candle; plot() aligns them for you)
+//
+// Shorthands (full length, NaN during warm-up)
+//   ema(period, src = close)   sma(period, src = close)   rsi(period = 14)
+//   align(values) → pad an indicator array to candles.length
+//
+// Output
+//   plot(values, { title, color, pane: 'price' | 'any name', lineWidth })
+//   histogram(values, { title, color, pane })
+//   marker(index, { text, color, position: 'above' | 'below', shape })
+//   hline(price, { title, color, pane })
+//   rule(expression, { title })  → strategy-rule expression (see Strategy Builder);
+//                                  matching bars are marked, promote it from the panel
+//   log(...values)
+`;
+
+const DEFAULT_SCRIPT = `// EMA ribbon + MACD pane — see ? for the full API
+plot(ema(20), { title: 'EMA 20', color: '#00d4aa' });
+plot(ema(50), { title: 'EMA 50', color: '#f59e0b' });
+
+const macd = ind.calcMACD(candles);
+histogram(macd.histogram, { title: 'MACD hist', pane: 'MACD', color: '#54a0ff' });
+plot(macd.signal, { title: 'Signal', pane: 'MACD', color: '#ff9ff3' });
+hline(0, { pane: 'MACD', color: '#ffffff40' });
+
+rule('crossesAbove(ema20, ema50) and macd_hist > 0', { title: 'EMA 20/50 cross up' });
+`;
+
+const STORAGE_KEY = 'chart_scripts';
+const ACTIVE_KEY = 'chart_script_active';
+const LEGACY_KEY = 'chart_script';
+
+interface PendingRun {
+    resolve: (result: ScriptResult) => void;
+    reject: (err: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+class ChartScriptService {
+    private worker: Worker | null = null;
+    private pending = new Map<number, PendingRun>();
+    private nextRunId = 1;
+
+    // --- Saved scripts ---
+
+    list(): ChartScript[] {
+        try {
+            const raw = userScopeService.scopedGet(STORAGE_KEY);
+            const scripts = raw ? JSON.parse(raw) : null;
+            if (Array.isArray(scripts) && scripts.length > 0) return scripts;
+        } catch { /* fall through to defaults */ }
+
+        // First use (or last one deleted): carry over the old single script, else seed an example
+        const legacy = userScopeService.scopedGet(LEGACY_KEY);
+        const seeded = [{ id: crypto.randomUUID(), name: legacy ? 'My Script' : 'EMA + MACD', code: legacy || DEFAULT_SCRIPT, updatedAt: Date.now() }];
+        this.persist(seeded);
+        return seeded;
+    }
+
+    save(script: { id?: string; name: string; code: string }): ChartScript {
+        const scripts = this.list();
+        const saved: ChartScript = { id: script.id || crypto.randomUUID(), name: script.name.trim() || 'Untitled', code: script.code, updatedAt: Date.now() };
+        const idx = scripts.findIndex(s => s.id === saved.id);
+        if (idx >= 0) scripts[idx] = saved;
+        else scripts.push(saved);
+        this.persist(scripts);
+        return saved;
+    }
+
+    remove(id: string): ChartScript[] {
+        const scripts = this.list().filter(s => s.id !== id);
+        this.persist(scripts);
+        return scripts;
+    }
+
+    getActiveId(): string | null {
+        return userScopeService.scopedGet(ACTIVE_KEY);
+    }
+
+    setActiveId(id: string) {
+        userScopeService.scopedSet(ACTIVE_KEY, id);
+    }
+
+    newScriptTemplate(): string {
+        return DEFAULT_SCRIPT;
+    }
+
+    private persist(scripts: ChartScript[]) {
+        userScopeService.scopedSet(STORAGE_KEY, JSON.stringify(scripts));
+    }
+
+    // --- Sandboxed execution ---
+
+    /** Run a script against candles in the worker. Rejects on script errors and timeouts. */
+    run(code: string, candles: ScriptCandle[]): Promise<ScriptResult> {
+        const worker = this.ensureWorker();
+        const id = this.nextRunId++;
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pending.delete(id);
+                this.killWorker(`Script timed out after ${SCRIPT_TIMEOUT_MS / 1000}s`);
+                reject(new Error(`Script timed out after ${SCRIPT_TIMEOUT_MS / 1000}s`));
+            }, SCRIPT_TIMEOUT_MS);
+            this.pending.set(id, { resolve, reject, timer });
+            worker.postMessage({ id, code, candles });
+        });
+    }
+
+    private ensureWorker(): Worker {
+        if (this.worker) return this.worker;
+        const worker = new Worker(new URL('./chartScript.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (e: MessageEvent) => {
+            const { id, ok, result, error } = e.data || {};
+            const run = this.pending.get(id);
+            if (!run) return;
+            clearTimeout(run.timer);
+            this.pending.delete(id);
+            if (ok) run.resolve(result);
+            else run.reject(new Error(error || 'Script failed'));
+        };
+        worker.onerror = (e: ErrorEvent) => {
+            e.preventDefault();
+            this.killWorker(e.message || 'Script worker crashed');
+        };
+        this.worker = worker;
+        return worker;
+    }
+
+    // A runaway script can only be stopped by killing its worker; in-flight runs fail with it
+    private killWorker(reason: string) {
+        this.worker?.terminate();
+        this.worker = null;
+        this.pending.forEach(run => {
+            clearTimeout(run.timer);
+            run.reject(new Error(reason));
+        });
+        this.pending.clear();
+    }
+}
+
+export const chartScriptService = new ChartScriptService();
@@ -0,0 +1,151 @@
+/*
+ * Embedding Service
+ * Turns text into vectors via the configured provider (Gemini first, then
+ * OpenRouter) and offers a local BM25 ranker for when neither is reachable.
+ * Vectors from different models aren't comparable — callers store `model`
+ * alongside each vector and only compare like with like.
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import { getApiKey } from './geminiService';
+import { billingService } from './billingService';
+import { userScopeService } from './userScopeService';
+
+const GEMINI_EMBED_MODEL = 'text-embedding-004';
+const OPENROUTER_EMBED_MODEL = 'openai/text-embedding-3-small';
+const OPENROUTER_EMBED_URL = 'https://openrouter.ai/api/v1/embeddings';
+const DIMENSIONS = 256;       // Both providers can truncate — keeps stored vectors small
+const EMBED_TIMEOUT_MS = 15000;
+
+export interface EmbeddingResult {
+    vectors: number[][];
+    model: string;           // e.g. 'gemini:text-embedding-004'
+}
+
+const STOPWORDS = new Set(['the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'was', 'our', 'has', 'have', 'with', 'this', 'that', 'from', 'they', 'will', 'what', 'when', 'who', 'how', 'is', 'of', 'to', 'in', 'on', 'a', 'an', 'it', 'be', 'as', 'at', 'by', 'or']);
+
+const withTimeout = <T,>(promise: Promise<T>, ms: number): Promise<T> =>
+    Promise.race([
+        promise,
+        new Promise<never>((_, reject) => setTimeout(() => reject(new Error(`Embedding timed out after ${ms / 1000}s`)), ms))
+    ]);
+
+class EmbeddingService {
+    /** Which provider embed() would use right now (null → local BM25 only) */
+    getActiveModel(): string | null {
+        if (getApiKey()) return `gemini:${GEMINI_EMBED_MODEL}`;
+        if (userScopeService.scopedGet('env_OPENROUTER_API_KEY')) return `openrouter:${OPENROUTER_EMBED_MODEL}`;
+        return null;
+    }
+
+    /**
+     * Embed a batch of texts. Returns null when no provider is configured or
+     * the call fails — callers should fall back to bm25().
+     */
+    async embed(texts: string[]): Promise<EmbeddingResult | null> {
+        const model = this.getActiveModel();
+        if (!model || texts.length === 0) return null;
+        try {
+            const vectors = model.startsWith('gemini:')
+                ? await this.embedGemini(texts)
+                : await this.embedOpenRouter(texts);
+            // Embedding APIs don't report usage in this path — count ~4 characters per token
+            const [provider, modelName] = model.split(':');
+            billingService.recordUsage(modelName, Math.ceil(texts.join(' ').length / 4), 0, { provider, estimated: true });
+            return { vectors, model };
+        } catch (err) {
+            console.warn('[Embedding] Provider failed — using local ranking.', (err as Error).message);
+            return null;
+        }
+    }
+
+    private async embedGemini(texts: string[]): Promise<number[][]> {
+        const ai = new GoogleGenAI({ apiKey: getApiKey() });
+        const res = await withTimeout(ai.models.embedContent({
+            model: GEMINI_EMBED_MODEL,
+            contents: texts,
+            config: { outputDimensionality: DIMENSIONS },
+        }), EMBED_TIMEOUT_MS);
+        const vectors = (res.embeddings || []).map(e => e.values || []);
+        if (vectors.length !== texts.length) throw new Error('Gemini returned the wrong number of embeddings');
+        return vectors;
+    }
+
+    private async embedOpenRouter(texts: string[]): Promise<number[][]> {
+        const res = await withTimeout(fetch(OPENROUTER_EMBED_URL, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${userScopeService.scopedGet('env_OPENROUTER_API_KEY')}`,
+                'HTTP-Referer': window.location.origin,
+                'X-Title': 'ClawKeep',
+            },
+            body: JSON.stringify({ model: OPENROUTER_EMBED_MODEL, input: texts, dimensions: DIMENSIONS }),
+        }), EMBED_TIMEOUT_MS);
+        if (!res.ok) throw new Error(`OpenRouter ${res.status}: ${res.statusText}`);
+        const data = await res.json();
+        return (data.data || [])
+            .sort((a: any, b: any) => a.index - b.index)
+            .map((d: any) => d.embedding as number[]);
+    }
+
+    cosine(a: number[], b: number[]): number {
+        if (a.length === 0 || a.length !== b.length) return 0;
+        let dot = 0, normA = 0, normB = 0;
+        for (let i = 0; i < a.length; i++) {
+            dot += a[i] * b[i];
+            normA += a[i] * a[i];
+            normB += b[i] * b[i];
+        }
+        return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+    }
+
+    tokenize(text: string): string[] {
+        return text.toLowerCase()
+            .split(/[^a-z0-9$%.]+/)
+            .map(t => t.replace(/^\.+|\.+$/g, ''))
+            .filter(t => t.length > 1 && !STOPWORDS.has(t));
+    }
+
+    /**
+     * Offline ranking — Okapi BM25 of `query` against each doc,
+     * normalised to 0–1 so it can stand in for cosine similarity.
+     */
+    bm25(query: string, docs: string[], k1 = 1.2, b = 0.75): number[] {
+        const queryTerms = [...new Set(this.tokenize(query))];
+        const docTerms = docs.map(d => this.tokenize(d));
+        if (queryTerms.length === 0 || docs.length === 0) return docs.map(() => 0);
+
+        const avgLen = docTerms.reduce((sum, t) => sum + t.length, 0) / docs.length || 1;
+        const docFreq = new Map<string, number>();
+        for (const terms of docTerms) {
+            for (const term of new Set(terms)) docFreq.set(term, (docFreq.get(term) || 0) + 1);
+        }
+
+        const raw = docTerms.map(terms => {
+            let score = 0;
+            for (const q of queryTerms) {
+                const tf = terms.filter(t => t === q).length;
+                if (tf === 0) continue;
+                const df = docFreq.get(q) || 0;
+                const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+                score += idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * terms.length / avgLen));
+            }
+            return score;
+        });
+        const max = Math.max(...raw);
+        return max > 0 ? raw.map(s => s / max) : raw;
+    }
+
+    /** Token-set overlap — a rough duplicate check when no vectors are available */
+    jaccard(a: string, b: string): number {
+        const setA = new Set(this.tokenize(a));
+        const setB = new Set(this.tokenize(b));
+        if (setA.size === 0 || setB.size === 0) return 0;
+        let shared = 0;
+        setA.forEach(t => { if (setB.has(t)) shared++; });
+        return shared / (setA.size + setB.size - shared);
+    }
+}
+
+export const embeddingService = new EmbeddingService();
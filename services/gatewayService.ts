@@ -1,5 +1,5 @@
 
-import { GatewayStatus, GatewayConfig, DoctorReport, UserIdentity, AISoul, SoulMemory, Document } from '../types';
+import { GatewayStatus, GatewayConfig, DoctorReport, UserIdentity, AISoul, SoulMemory, Document, VaultSearchHit, PendingApproval } from '../types';
 import { userScopeService } from './userScopeService';
 
 type StatusListener = (status: GatewayStatus) => void;
@@ -8,6 +8,7 @@ type VaultListener = (documents: Document[]) => void;
 type BrowserUpdateListener = (update: { url: string; title: string; screenshot: string; action: string; status: string; extraction?: any }) => void;
 type FrameListener = (frame: { type: string; data: string; metadata: any }) => void;
 type TraderListener = (data: any) => void;
+type ApprovalListener = (data: any) => void;
 
 class GatewayService {
     private ws: WebSocket | null = null;
@@ -31,6 +32,7 @@ class GatewayService {
     private browserListeners: BrowserUpdateListener[] = [];
     private frameListeners: FrameListener[] = [];
     private traderListeners: TraderListener[] = [];
+    private approvalListeners: ApprovalListener[] = [];
     private email: string = localStorage.getItem('claw_user_email') || '';
     private password: string = localStorage.getItem('claw_user_password') || '';
     private heartbeatInterval: any = null;
@@ -96,6 +98,9 @@ class GatewayService {
                         }
                     } else if (data.type === 'AUTH_FAILED') {
                         this.setStatus('AUTH_FAILED');
+                    } else if (data.type === 'OP_ERROR' && data.requestId && this.pendingReads.has(data.requestId)) {
+                        this.pendingReads.get(data.requestId)!.reject(new Error(data.message));
+                        this.pendingReads.delete(data.requestId);
                     } else if (data.type === 'OP_SUCCESS') {
                         console.log(`[Gateway] Operation Success: ${data.message}`);
                     } else if (data.type === 'VAULT_INDEX') {
@@ -121,12 +126,25 @@ class GatewayService {
                             pending.resolve({ content: data.content, binary: data.binary, size: data.size });
                             this.pendingReads.delete(data.requestId);
                         }
+                    } else if (data.type === 'VAULT_SEARCH_RESULTS') {
+                        const pending = this.pendingReads.get(data.requestId);
+                        if (pending) {
+                            pending.resolve(data.results || []);
+                            this.pendingReads.delete(data.requestId);
+                        }
                     } else if (data.type === 'BROWSER_UPDATE') {
                         this.browserListeners.forEach(cb => cb(data));
                     } else if (data.type === 'BROWSER_FRAME') {
                         this.frameListeners.forEach(cb => cb(data));
+                    } else if (data.type?.startsWith('TRADER_') && data.requestId && this.pendingReads.has(data.requestId)) {
+                        const pending = this.pendingReads.get(data.requestId)!;
+                        this.pendingReads.delete(data.requestId);
+                        if (data.type === 'TRADER_ERROR') pending.reject(new Error(data.error));
+                        else pending.resolve(data);
                     } else if (data.type && (data.type.startsWith('TRADER_'))) {
                         this.traderListeners.forEach(cb => cb(data));
+                    } else if (data.type?.startsWith('APPROVAL_')) {
+                        this.approvalListeners.forEach(cb => cb(data));
                     }
                 } catch (e) {
                     if (event.data === 'OK') {
@@ -200,6 +218,26 @@ class GatewayService {
         });
     }
 
+    /** Ranked snippets from the server's keyword + embedding index of the user's vault */
+    searchVault(query: string, options: { category?: string; limit?: number } = {}): Promise<VaultSearchHit[]> {
+        return new Promise((resolve, reject) => {
+            if (this.status !== 'CONNECTED') {
+                reject(new Error('Gateway not connected'));
+                return;
+            }
+            const requestId = `search_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+            this.pendingReads.set(requestId, { resolve, reject });
+            this.send({ type: 'VAULT_SEARCH', query, ...options, requestId });
+
+            setTimeout(() => {
+                if (this.pendingReads.has(requestId)) {
+                    this.pendingReads.delete(requestId);
+                    reject(new Error('Vault search timed out'));
+                }
+            }, 20000);
+        });
+    }
+
     // ----------------------------
 
     private send(data: any) {
@@ -281,41 +319,90 @@ class GatewayService {
         return () => { this.traderListeners = this.traderListeners.filter(l => l !== callback); };
     }
     traderStatus() { this.send({ type: 'TRADER_STATUS' }); }
-    traderGenerateWallet() { this.send({ type: 'TRADER_GENERATE_WALLET' }); }
-    traderExportKey() { this.send({ type: 'TRADER_EXPORT_KEY' }); }
+    traderGenerateWallet(passphrase: string) { this.send({ type: 'TRADER_GENERATE_WALLET', passphrase }); }
+    traderExportKey(passphrase: string) { this.send({ type: 'TRADER_EXPORT_KEY', passphrase }); }
+    traderUnlock(passphrase: string) { this.send({ type: 'TRADER_UNLOCK', passphrase }); }
+    traderLock() { this.send({ type: 'TRADER_LOCK' }); }
+    traderEncryptWallet(passphrase: string) { this.send({ type: 'TRADER_ENCRYPT_WALLET', passphrase }); }
     traderStart(interval?: number) { this.send({ type: 'TRADER_START', interval }); }
     traderStop() { this.send({ type: 'TRADER_STOP' }); }
     traderAddRule(rule: any) { this.send({ type: 'TRADER_ADD_RULE', rule }); }
+    traderUpdateRule(ruleId: string, rule: any) { this.send({ type: 'TRADER_UPDATE_RULE', ruleId, rule }); }
     traderRemoveRule(ruleId: string) { this.send({ type: 'TRADER_REMOVE_RULE', ruleId }); }
     traderToggleRule(ruleId: string) { this.send({ type: 'TRADER_TOGGLE_RULE', ruleId }); }
-    traderSwap(inputMint: string, outputMint: string, amount: string, slippageBps?: number) {
-        this.send({ type: 'TRADER_SWAP', inputMint, outputMint, amount, slippageBps });
+    traderSwap(inputMint: string, outputMint: string, amount: string, slippageBps?: number, approvalId?: string) {
+        this.send({ type: 'TRADER_SWAP', inputMint, outputMint, amount, slippageBps, approvalId });
     }
     traderWithdraw(destination: string, amount: number) {
         this.send({ type: 'TRADER_WITHDRAW', destination, amount });
     }
     traderHistory() { this.send({ type: 'TRADER_HISTORY' }); }
+    traderGetDcaPlans() { this.send({ type: 'TRADER_GET_DCA' }); }
+    traderAddDcaPlan(plan: any) { this.send({ type: 'TRADER_ADD_DCA', plan }); }
+    traderUpdateDcaPlan(planId: string, plan: any) { this.send({ type: 'TRADER_UPDATE_DCA', planId, plan }); }
+    traderDeleteDcaPlan(planId: string) { this.send({ type: 'TRADER_DELETE_DCA', planId }); }
+    traderRunDcaPlan(planId: string) { this.send({ type: 'TRADER_RUN_DCA', planId }); }
+    traderGetAlerts() { this.send({ type: 'TRADER_GET_ALERTS' }); }
+    traderAddAlert(alert: any) { this.send({ type: 'TRADER_ADD_ALERT', alert }); }
+    traderUpdateAlert(alertId: string, alert: any) { this.send({ type: 'TRADER_UPDATE_ALERT', alertId, alert }); }
+    traderDeleteAlert(alertId: string) { this.send({ type: 'TRADER_DELETE_ALERT', alertId }); }
+    traderClearAlertHistory() { this.send({ type: 'TRADER_CLEAR_ALERT_HISTORY' }); }
+    traderSetAlertChannel(channel: string, config: any) { this.send({ type: 'TRADER_SET_ALERT_CHANNEL', channel, config }); }
+    traderTestAlertChannel(channel: string) { this.send({ type: 'TRADER_TEST_ALERT_CHANNEL', channel }); }
+    traderGetProposals() { this.send({ type: 'TRADER_GET_PROPOSALS' }); }
+    traderApproveProposal(proposalId: string) { this.send({ type: 'TRADER_APPROVE_PROPOSAL', proposalId }); }
+    traderRejectProposal(proposalId: string, reason?: string) { this.send({ type: 'TRADER_REJECT_PROPOSAL', proposalId, reason }); }
+    traderPnl(days = 30) { this.send({ type: 'TRADER_PNL', days }); }
     traderSetApiKey(key: string) { this.send({ type: 'TRADER_SET_API_KEY', key }); }
-    traderImportKey(key: string) { this.send({ type: 'TRADER_IMPORT_KEY', key }); }
+    traderImportKey(key: string, passphrase: string) { this.send({ type: 'TRADER_IMPORT_KEY', key, passphrase }); }
     traderResetWallet() { this.send({ type: 'TRADER_RESET_WALLET' }); }
     // Phase 1: Indicators + Strategy Engine
-    traderGetIndicators(pair = 'SOL/USDC', timeframe = 'day') { this.send({ type: 'TRADER_INDICATORS', pair, timeframe }); }
+    traderGetIndicators(pair = 'SOL/USDC', timeframe = 'day', series = false) { this.send({ type: 'TRADER_INDICATORS', pair, timeframe, series }); }
     traderGetCandles(pair = 'SOL/USDC', timeframe = 'day', limit = 300) { this.send({ type: 'TRADER_CANDLES', pair, timeframe, limit }); }
     traderGetStrategies() { this.send({ type: 'TRADER_GET_STRATEGIES' }); }
     traderSaveStrategy(strategy: any) { this.send({ type: 'TRADER_SAVE_STRATEGY', strategy }); }
     traderDeleteStrategy(name: string) { this.send({ type: 'TRADER_DELETE_STRATEGY', name }); }
+    traderValidateExpression(expression: string, pair?: string, timeframe = 'day') { this.send({ type: 'TRADER_VALIDATE_EXPRESSION', expression, pair, timeframe }); }
     traderGetPositions(status = 'all') { this.send({ type: 'TRADER_GET_POSITIONS', status }); }
     traderEvaluate(strategyName: string, pair = 'SOL/USDC') { this.send({ type: 'TRADER_EVALUATE', strategyName, pair }); }
+    traderBacktest(strategyName: string, pair = 'SOL/USDC', options: { timeframe?: string; limit?: number; initialCapital?: number; positionSizePct?: number; feeBps?: number; slippageBps?: number } = {}) {
+        this.send({ type: 'TRADER_BACKTEST', strategyName, pair, options });
+    }
 
     // Phase 3: Jupiter Perps
-    traderOpenPerp(market: string, side: 'long' | 'short', collateralUsd: number, leverage: number, collateralToken = 'SOL') {
-        this.send({ type: 'TRADER_OPEN_PERP', market, side, collateralUsd, leverage, collateralToken });
+    traderOpenPerp(market: string, side: 'long' | 'short', collateralUsd: number, leverage: number, collateralToken = 'SOL', approvalId?: string) {
+        this.send({ type: 'TRADER_OPEN_PERP', market, side, collateralUsd, leverage, collateralToken, approvalId });
     }
     traderClosePerp(positionKey: string) { this.send({ type: 'TRADER_CLOSE_PERP', positionKey }); }
     traderGetPerps() { this.send({ type: 'TRADER_GET_PERPS' }); }
     traderGetPerpsMarkets() { this.send({ type: 'TRADER_GET_PERPS_MARKETS' }); }
     traderKeepAlive(enabled: boolean) { this.send({ type: 'TRADER_KEEP_ALIVE', enabled }); }
     traderPerpsAuto(enabled: boolean) { this.send({ type: 'TRADER_PERPS_AUTO', enabled }); }
+    traderGetPerpsRisk() { this.send({ type: 'TRADER_GET_PERPS_RISK' }); }
+    traderSetPerpsRisk(profile: Record<string, any>) { this.send({ type: 'TRADER_SET_PERPS_RISK', profile }); }
+    traderPaperMode(enabled: boolean, options: { slippageBps?: number; reset?: boolean; sol?: number; usdc?: number } = {}) {
+        this.send({ type: 'TRADER_PAPER_MODE', enabled, ...options });
+    }
+    traderScan() { this.send({ type: 'TRADER_SCAN' }); }
+    traderGetScan() { this.send({ type: 'TRADER_GET_SCAN' }); }
+    traderSetWatchlist(pairs: string[]) { this.send({ type: 'TRADER_SET_WATCHLIST', pairs }); }
+    traderGetMarketData() { this.send({ type: 'TRADER_GET_MARKET_DATA' }); }
+    traderSetMarketData(config: { source: 'live' | 'replay' | 'synthetic'; dir?: string; startAt?: number; speed?: number; seed?: string; dailyVolPct?: number }) {
+        this.send({ type: 'TRADER_SET_MARKET_DATA', config });
+    }
+
+    // --- Tool Approvals (the server stores them and fans them out to every session) ---
+    subscribeApprovals(callback: ApprovalListener): () => void {
+        this.approvalListeners.push(callback);
+        return () => { this.approvalListeners = this.approvalListeners.filter(l => l !== callback); };
+    }
+    approvalList() { this.send({ type: 'APPROVAL_LIST' }); }
+    approvalRequest(approval: PendingApproval) { this.send({ type: 'APPROVAL_REQUEST', approval }); }
+    approvalDecide(id: string, status: 'APPROVED' | 'REJECTED' | 'EXPIRED', note?: string, grantMinutes?: number) {
+        this.send({ type: 'APPROVAL_DECISION', id, status, note, grantMinutes });
+    }
+    approvalOutcome(id: string, status: 'EXECUTED' | 'FAILED', result: string) { this.send({ type: 'APPROVAL_OUTCOME', id, status, result }); }
+    approvalRevokeGrants() { this.send({ type: 'APPROVAL_REVOKE_GRANTS' }); }
 
     // CDP real-time input forwarding
     browserMouse(eventType: string, x: number, y: number, button = 'left', clickCount = 1) {
@@ -413,6 +500,24 @@ class GatewayService {
         });
     }
 
+    /**
+     * Send a trader command and wait for its reply. The server echoes `requestId`;
+     * tagged replies go only to this request, never to the trader listeners.
+     */
+    traderRequestAsync(message: any, timeoutMs: number = 20000): Promise<any> {
+        return new Promise((resolve, reject) => {
+            const requestId = `trader_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+            this.pendingReads.set(requestId, { resolve, reject });
+            this.send({ ...message, requestId });
+            setTimeout(() => {
+                if (this.pendingReads.has(requestId)) {
+                    this.pendingReads.delete(requestId);
+                    reject(new Error(`${message.type} timed out`));
+                }
+            }, timeoutMs);
+        });
+    }
+
     private notifyListeners() {
         this.statusListeners.forEach(cb => cb(this.status));
     }
@@ -1,17 +1,15 @@
 
-import { GoogleGenAI, FunctionDeclaration, Type } from "@google/genai";
+import { FunctionDeclaration, Type } from "@google/genai";
 import { ThinkingDepth, AISoul, AppView, Document } from '../types';
 import { activityService } from './activityService';
 import { gatewayService } from './gatewayService';
-import { billingService } from './billingService';
 import { guardrailService } from './guardrailService';
 import { commitmentService } from './commitmentService';
-import { openRouterService } from './openRouterService';
 import { userScopeService } from './userScopeService';
+import { llmProviderService, getGeminiKey, LLMBlockedError, LLMStreamOptions, LLMChatOptions } from './llmProviderService';
 
 /** Get API key from user settings (localStorage) or build-time env */
-export const getApiKey = (): string =>
-  userScopeService.scopedGet('env_API_KEY') || process.env.API_KEY || '';
+export const getApiKey = getGeminiKey;
 
 // --- Visual Curation Tools ---
 
@@ -148,9 +146,42 @@ const browseWebTool: FunctionDeclaration = {
   },
 };
 
+// --- Trader Tools (each call waits in the approval queue) ---
+
+const executeSwapTool: FunctionDeclaration = {
+  name: 'executeSwap',
+  description: 'Trade Desk: Swap tokens through Jupiter from the trader wallet (paper or live, whichever mode the trader is in). Use when the operator asks to buy, sell or convert a token. Executes only after the operator approves it in the approval queue.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      inputToken: { type: Type.STRING, description: 'Token to sell — symbol (SOL, USDC, JUP, BONK…) or mint address' },
+      outputToken: { type: Type.STRING, description: 'Token to buy — symbol or mint address' },
+      amount: { type: Type.NUMBER, description: 'Amount of the input token (in token units, e.g. 0.5 SOL)' },
+      slippageBps: { type: Type.NUMBER, description: 'Max slippage in basis points (default 50)' }
+    },
+    required: ['inputToken', 'outputToken', 'amount'],
+  },
+};
+
+const openPerpTool: FunctionDeclaration = {
+  name: 'openPerp',
+  description: 'Trade Desk: Open a leveraged Jupiter perpetual position (SOL, ETH or BTC). Use only when the operator explicitly asks for a long or short. Executes only after the operator approves it in the approval queue.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      market: { type: Type.STRING, enum: ['SOL', 'ETH', 'BTC'] },
+      side: { type: Type.STRING, enum: ['long', 'short'] },
+      collateralUsd: { type: Type.NUMBER, description: 'Collateral in USD' },
+      leverage: { type: Type.NUMBER, description: 'Leverage multiplier (e.g. 2 for 2x)' },
+      collateralToken: { type: Type.STRING, enum: ['SOL', 'USDC'], description: 'Token used as collateral (default SOL)' }
+    },
+    required: ['market', 'side', 'collateralUsd', 'leverage'],
+  },
+};
+
 const marketSweepTool: FunctionDeclaration = {
   name: 'marketSweep',
-  description: 'Market Watch: Look up current stock/crypto/market data. After getting results, ALWAYS use configureView to add the data to a Dashboard widget or createView for a dedicated watchlist page. Never just return text — populate the app.',
+  description: 'Market Watch: Look up current stock/crypto/market data and summarize it for the operator.',
   parameters: {
     type: Type.OBJECT,
     properties: {
@@ -242,7 +273,7 @@ const generateDocumentTool: FunctionDeclaration = {
 
 const semanticSearchTool: FunctionDeclaration = {
   name: 'semanticSearch',
-  description: 'Heritage Scan: Conceptual search.',
+  description: 'Heritage Scan: Search the text of Company Vault files (keyword + semantic). Returns ranked passages with their vault file paths.',
   parameters: {
     type: Type.OBJECT,
     properties: {
@@ -255,13 +286,13 @@ const semanticSearchTool: FunctionDeclaration = {
 
 const sendEmailTool: FunctionDeclaration = {
   name: 'sendEmail',
-  description: 'Broadcast: Email external vendors. REQUIRES APPROVAL.',
+  description: 'Broadcast: Email external vendors (plain text, from the operator\'s configured SMTP account). The call waits in the approval queue until the operator approves it.',
   parameters: {
     type: Type.OBJECT,
     properties: {
-      to: { type: Type.STRING },
+      to: { type: Type.STRING, description: 'Recipient email address' },
       subject: { type: Type.STRING },
-      body: { type: Type.STRING }
+      body: { type: Type.STRING, description: 'Plain-text message body' }
     },
     required: ['to', 'subject', 'body'],
   },
@@ -360,6 +391,30 @@ const manageAgentTool: FunctionDeclaration = {
   },
 };
 
+const delegateTool: FunctionDeclaration = {
+  name: 'delegate',
+  description: 'Squad Dispatch: Hand one-off sub-tasks to existing squad agents. Each agent works its directive right now on its own model, using its specialty and its safe tools (vault search, tasks, memory, market data, trade proposals); agents run in parallel and their structured reports come back to you. Use it to split research or analysis across specialists, then synthesize their results for the operator.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      assignments: {
+        type: Type.ARRAY,
+        description: 'One entry per agent (max 3)',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            agentId: { type: Type.STRING, description: 'ID of the agent (or use agentName)' },
+            agentName: { type: Type.STRING, description: 'Codename of the agent, e.g. "Neko"' },
+            directive: { type: Type.STRING, description: 'The specific task — what to find out or do, and what to report back' }
+          },
+          required: ['directive'],
+        }
+      }
+    },
+    required: ['assignments'],
+  },
+};
+
 // --- Data Management Tools ---
 
 const purgeDataTool: FunctionDeclaration = {
@@ -373,9 +428,8 @@ const purgeDataTool: FunctionDeclaration = {
         items: { type: Type.STRING, enum: ['AGENTS', 'TASKS', 'DOCUMENTS', 'CONTRACTS', 'EXPENSES', 'CHAT_HISTORY', 'ALL'] },
         description: 'Which data stores to purge. Use ALL for complete factory reset.'
       },
-      confirmation: { type: Type.STRING, description: 'Must be "CONFIRMED" to proceed. Always confirm with the operator before purging.' }
     },
-    required: ['targets', 'confirmation'],
+    required: ['targets'],
   },
 };
 
@@ -466,14 +520,15 @@ const scheduleAutomationTool: FunctionDeclaration = {
 
 const clawMemoryTool: FunctionDeclaration = {
   name: 'clawMemory',
-  description: 'Persistent Memory: Remember important facts, recall past knowledge, or forget outdated info. Use REMEMBER to store a business fact (e.g. "Operator prefers biweekly payroll"). Use RECALL to search your memory for relevant facts. Use FORGET to remove outdated info. Use STATUS to see memory stats.',
+  description: 'Persistent Memory: Remember important facts, recall past knowledge, or forget outdated info. Use REMEMBER to store a business fact (e.g. "Operator prefers biweekly payroll"). Use RECALL to search your memory for relevant facts. Use FORGET to remove outdated info. Use CONFIDENCE to raise or lower how sure you are of a memory. Use STATUS to see memory stats.',
   parameters: {
     type: Type.OBJECT,
     properties: {
-      action: { type: Type.STRING, enum: ['REMEMBER', 'RECALL', 'FORGET', 'FORGET_CATEGORY', 'STATUS'], description: 'Memory operation' },
+      action: { type: Type.STRING, enum: ['REMEMBER', 'RECALL', 'FORGET', 'FORGET_CATEGORY', 'CONFIDENCE', 'STATUS'], description: 'Memory operation' },
       fact: { type: Type.STRING, description: 'The fact to remember or query to recall' },
       category: { type: Type.STRING, enum: ['GENERAL', 'FINANCE', 'LEGAL', 'OPERATIONS', 'PEOPLE', 'POLICY', 'PREFERENCE', 'SCHEDULE'], description: 'Category for the memory' },
-      memoryId: { type: Type.STRING, description: 'ID of memory to forget (for FORGET action)' }
+      memoryId: { type: Type.STRING, description: 'ID of memory to forget or re-score (for FORGET / CONFIDENCE)' },
+      confidence: { type: Type.NUMBER, description: 'New confidence 0–1 (for CONFIDENCE action)' }
     },
     required: ['action'],
   },
@@ -497,55 +552,45 @@ const clawCommitTool: FunctionDeclaration = {
   },
 };
 
-const configureViewTool: FunctionDeclaration = {
-  name: 'configureView',
-  description: 'UI Control: Modify any view/page in the app. You can change titles, layouts, colors, add/remove widgets (stat-row, data-table, timeline, markdown, card-grid, chart, key-value, embed, list), and reorder sections. The embed widget is a SANDBOX — you can inject full HTML/CSS/JS to build interactive buttons, forms, mini-tools, and Web3 connectors. Use GET to inspect current config. Use RESET to restore defaults.',
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      viewId: { type: Type.STRING, description: 'Which view to configure: DASHBOARD, PAYROLL, TASKS, CALENDAR, EMAIL, DOCUMENTS, PROJECTS, SCRAPBOOK, KNOWLEDGE, QUESTIONS, ECONOMY, SETTINGS, or any custom view ID' },
-      action: { type: Type.STRING, enum: ['SET_TITLE', 'SET_LAYOUT', 'ADD_WIDGET', 'REMOVE_WIDGET', 'UPDATE_WIDGET', 'REORDER', 'SET_COLOR', 'RESET', 'GET'], description: 'What to do' },
-      title: { type: Type.STRING, description: 'New page title (for SET_TITLE)' },
-      subtitle: { type: Type.STRING, description: 'Subtitle text (for SET_TITLE)' },
-      layout: { type: Type.STRING, enum: ['single', 'two-column', 'grid-2', 'grid-3', 'dashboard'], description: 'Layout mode (for SET_LAYOUT)' },
-      accentColor: { type: Type.STRING, description: 'HSL color string e.g. "217 91% 60%" (for SET_COLOR)' },
-      widgetId: { type: Type.STRING, description: 'Widget ID to target (for REMOVE_WIDGET, UPDATE_WIDGET, REORDER)' },
-      widgetType: { type: Type.STRING, enum: ['stat-row', 'data-table', 'timeline', 'markdown', 'card-grid', 'chart', 'key-value', 'embed', 'list'], description: 'Type of widget (for ADD_WIDGET)' },
-      widgetTitle: { type: Type.STRING, description: 'Widget section title (for ADD_WIDGET)' },
-      data: { type: Type.STRING, description: 'Data source key like "tasks.active", "documents.all", "expenses.recent" (for ADD_WIDGET)' },
-      staticContent: { type: Type.STRING, description: 'Direct JSON content for the widget — use JSON.stringify for arrays/objects. For EMBED widgets: provide raw HTML/CSS/JS as a string (it renders in a sandboxed iframe with dark-theme base styles, utility classes, and pre-styled button/card/badge components)' },
-      columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Column names for data-table widget' },
-      chartType: { type: Type.STRING, enum: ['bar', 'line', 'pie', 'doughnut'], description: 'Chart type (for chart widget)' },
-      widgetColor: { type: Type.STRING, description: 'Widget accent color HSL (for ADD_WIDGET)' },
-      order: { type: Type.NUMBER, description: 'Position order number (for ADD_WIDGET, REORDER)' },
-      span: { type: Type.NUMBER, description: 'Grid column span 1-3 (for ADD_WIDGET)' },
-      height: { type: Type.NUMBER, description: 'Pixel height for embed widgets (default 280)' },
-    },
-    required: ['viewId', 'action'],
-  },
-};
-
-const createViewTool: FunctionDeclaration = {
-  name: 'createView',
-  description: 'Create an entirely new custom page/view in the app. It will appear in the sidebar navigation. You can populate it with any combination of widgets including interactive embed sandboxes with full HTML/CSS/JS.',
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      viewId: { type: Type.STRING, description: 'Unique ID for the new view (e.g. "WEEKLY_REPORT", "COMPETITOR_INTEL")' },
-      title: { type: Type.STRING, description: 'Display title for the view' },
-      icon: { type: Type.STRING, description: 'Emoji icon for the sidebar (e.g. "📊", "🎯")' },
-      layout: { type: Type.STRING, enum: ['single', 'two-column', 'grid-2', 'grid-3', 'dashboard'], description: 'Layout mode' },
-      widgets: { type: Type.STRING, description: 'JSON array of widget configs: [{type, title, staticContent?, data?, columns?, chartType?, order, span?, height?}]. For embed widgets, staticContent is raw HTML/CSS/JS that renders in a sandboxed iframe.' },
-    },
-    required: ['viewId', 'title', 'icon'],
-  },
-};
+// Everything Claw can call — one list for every provider
+const CLAW_TOOLS: FunctionDeclaration[] = [
+  askOperatorTool,
+  organizeVaultTool,
+  createTaskTool,
+  generateDocumentTool,
+  semanticSearchTool,
+  browseWebTool,
+  calculateDepreciationTool,
+  sendEmailTool,
+  deleteDocumentTool,
+  saveNoteTool,
+  manageProjectTool,
+  marketSweepTool,
+  riskAuditTool,
+  forensicOcrTool,
+  heritageMappingTool,
+  sentinelScanTool,
+  curateVisualsTool,
+  scheduleRecurringTaskTool,
+  retrieveGovFormTool,
+  fillPdfFormTool,
+  generateEvidencePacketTool,
+  manageAgentTool,
+  delegateTool,
+  startTimerTool,
+  dailyBriefingTool,
+  logExpenseTool,
+  quickSearchTool,
+  createChecklistTool,
+  scheduleAutomationTool,
+  clawMemoryTool,
+  clawCommitTool,
+  purgeDataTool,
+  executeSwapTool,
+  openPerpTool
+];
 
 export class GeminiService {
-  private estimateTokens(text: string): number {
-    return Math.ceil((text || "").length / 4);
-  }
-
   private determineModel(message: string, thinkingDepth: ThinkingDepth, hasFile: boolean): string {
     const preferred = userScopeService.scopedGet('preferred_model');
     const DEPRECATED = ['gemini-2.5-flash-lite-latest', 'gemini-2.5-flash-lite'];
@@ -563,62 +608,21 @@ export class GeminiService {
     return 'gemini-3-flash-preview';
   }
 
-  /** Check if model is an OpenRouter model (contains a slash like 'anthropic/claude-3.5') */
-  private isOpenRouterModel(modelName: string): boolean {
-    return modelName.includes('/');
-  }
-
+  /**
+   * One turn of Claw's chat on whichever provider the selected model lives on.
+   * Pass `stream` to receive text and tool calls as they arrive and to cancel.
+   * Guardrail and missing-key refusals come back as the reply text.
+   */
   async sendMessage(
     history: { role: string; content: string }[],
     newMessage: string,
     contextData: string,
     thinkingDepth: ThinkingDepth = 'LOW',
-    file?: { name: string; type: string; data: string } | null
-  ) {
+    file?: { name: string; type: string; data: string } | null,
+    stream?: LLMStreamOptions
+  ): Promise<{ text: string; functionCalls: any[]; aborted?: boolean }> {
     const modelName = this.determineModel(newMessage, thinkingDepth, !!file);
 
-    // Guardrail: Block API usage during sleep mode (zero tokens consumed)
-    if (!guardrailService.isApiAllowed()) {
-      activityService.log('IDLE', '💤 Sleep mode — API call blocked by guardrails.');
-      return {
-        text: '💤 I\'m currently in sleep mode (set in Settings). No API calls are being made to save costs. I\'ll be fully operational during awake hours, or you can wake me up manually from Settings.',
-        functionCalls: []
-      };
-    }
-
-    // Guardrail: OpenRouter/OpenAI model selected but no API key
-    if (this.isOpenRouterModel(modelName)) {
-      const isOpenAIModel = modelName.startsWith('openai/');
-      const hasKey = isOpenAIModel
-        ? (openRouterService.isOpenAIAvailable() || openRouterService.isAvailable())
-        : openRouterService.isAvailable();
-      if (!hasKey) {
-        const provider = isOpenAIModel ? 'OpenAI or OpenRouter' : 'OpenRouter';
-        activityService.log('IDLE', `⚠️ ${modelName} requires an ${provider} API key.`);
-        return {
-          text: `⚠️ You've selected **${modelName}** but no ${provider} API key is configured.\n\nTo use this model:\n1. Go to **Vault → Secrets**\n2. Add your API key\n3. Try again!\n\nOr switch back to a Gemini model in **Settings → Model Selector**.`,
-          functionCalls: []
-        };
-      }
-    }
-
-    // Guardrail: Gemini model selected but no Gemini key (and no OpenRouter fallback)
-    if (!this.isOpenRouterModel(modelName) && !getApiKey()) {
-      // If OpenRouter is available, suggest switching
-      if (openRouterService.isAvailable()) {
-        activityService.log('IDLE', `⚠️ No Gemini API key — switch to an OpenRouter model.`);
-        return {
-          text: `⚠️ No Gemini API key is configured, so **${modelName}** can't be used.\n\nYou have an OpenRouter key set — switch to an OpenRouter model in **Settings → Model Selector** to get started!`,
-          functionCalls: []
-        };
-      }
-      activityService.log('IDLE', '⚠️ No API key configured.');
-      return {
-        text: `⚠️ No API key configured.\n\nTo get started, add at least one key in **Vault → Secrets**:\n- **Gemini API Key** — free at [ai.google.dev](https://ai.google.dev)\n- **OpenRouter API Key** — free at [openrouter.ai](https://openrouter.ai)\n\nEither one will work!`,
-        functionCalls: []
-      };
-    }
-
     activityService.log('THINKING', `🧠 ${modelName.includes('/') ? modelName.split('/').pop() : modelName}`);
 
     try {
@@ -639,7 +643,7 @@ export class GeminiService {
         All deadlines, schedules, and time-sensitive decisions must be based on this real-time timestamp.
         
         YOUR AI ENGINE:
-        - You are powered by the model: ${modelName}${this.isOpenRouterModel(modelName) ? ' (via OpenRouter gateway)' : ' by Google Gemini'}.
+        - You are powered by the model: ${modelName} (via ${llmProviderService.getProvider(modelName).label}).
         - If the operator asks what model you are, tell them: "I'm running on ${modelName.includes('/') ? modelName.split('/').pop() : modelName}."
         - The operator can switch your model in Settings → Model Selector.
         
@@ -696,12 +700,14 @@ export class GeminiService {
         5. SCROLL: Scroll the page → browseWeb({action: 'SCROLL', input: 'down'})
         6. SUBMIT: Press Enter to submit forms → browseWeb({action: 'SUBMIT'})
         
-        CRITICAL: You MUST ask the operator before using browseWeb or quickSearch.
-        Present what you want to look up, which URL you plan to visit, and WHY.
-        Wait for the operator to say "yes", "go ahead", or explicitly approve before calling the tool.
-        NEVER browse or search the internet autonomously without explicit operator approval.
-        Once approved, you may chain multiple browseWeb calls to complete the approved task
-        without asking between each step — but the INITIAL decision to go online always needs approval.
+        APPROVAL QUEUE — ENFORCED:
+        Risky tools (browseWeb, quickSearch, sendEmail, deleteDocument, purgeData, executeSwap, openPerp)
+        are parked in the operator's approval queue with their full arguments. Your call simply waits
+        until the operator approves or rejects it — you do NOT need to ask in chat first.
+        - Briefly say what you are about to do and WHY before the call, so the operator can decide.
+        - A result starting with [REJECTED] means it did NOT happen. Never claim otherwise, and do not
+          retry the same call unless the operator asks — adjust the plan or ask what they want instead.
+        - The operator may allow browser actions for a few minutes; then browseWeb calls run without waiting.
         
         TAX & GOV NAVIGATOR:
         - You can Retrieve official forms (IRS.gov) — downloads the REAL PDF.
@@ -716,6 +722,9 @@ export class GeminiService {
         - When the operator asks to "create an agent", use the manageAgent tool with action CREATE.
         - When asked to "deploy" or "activate" an agent, use DEPLOY with a schedule.
         - DEPLOY makes an agent run its quest independently on a schedule (CONTINUOUS=15min, HOURLY, DAILY, MANUAL).
+        - Use 'delegate' to hand one-off sub-tasks to existing agents that match the work (by specialty) —
+          several agents run in parallel and their reports come back to you. Synthesize their results for the
+          operator and credit the agent; never present a FAILED delegation as done.
         - Choose cute animal mascot emojis for your agents (🐕 🐱 🦊 🦉 🐼 🦔 🐋 🦝 🐰 🐸).
         
         AGENT RULES (HARD LIMITS — enforced in code, you CANNOT bypass):
@@ -793,88 +802,6 @@ export class GeminiService {
         - FOCUS AREAS: These topics are your primary monitoring responsibilities.
         - The HUD changes per persona — Octo focuses on tasks, Sharky on markets, Boss Crab on operations.
         
-        🦀 PROTOCOL: UNLEASHED ARCHITECT — YOUR CREATIVE POWERS:
-        You are the Lead UI/UX Engineer of ClawKeep. You don't just answer — you BUILD.
-        
-        THE "SHOW, DON'T TELL" MANDATE:
-        - When the operator asks to "track", "watch", "monitor", "show me", or build something:
-          → USE 'configureView' to ADD WIDGETS to existing views (Dashboard, or any page).
-          → Or USE 'createView' to create an entirely new page that appears in the sidebar.
-        - Prefer building something visual over giving a text-only answer.
-        
-        WIDGET TYPES (your building blocks):
-        - 'stat-row': Key metrics in a row (revenue, margins, etc.) — data: [{label, value, icon?, trend?}]
-        - 'data-table': Tables with columns — data: [{col1: val, col2: val}] + columns: ['col1','col2']
-        - 'card-grid': Cards — data: [{title, value, subtitle?, icon?, color?}]
-        - 'chart': Bar/line/pie/doughnut — data: {labels: [...], datasets: [{label, data: [...]}]}
-        - 'key-value': Key-value pairs — data: {key: value, ...}
-        - 'list': Bulleted items — data: ['item1', 'item2'] or [{text, icon?, done?}]
-        - 'markdown': Rich text — data: 'markdown string'
-        - 'timeline': Events — data: [{time, title, description?, icon?}]
-        - 'embed': 🔥 YOUR SANDBOX — THE GENIE'S LAMP 🔥
-        
-        THE EMBED SANDBOX (your most powerful tool):
-        The 'embed' widget is a FULL HTML/CSS/JS sandbox rendered in a secure iframe.
-        When you set widgetType to 'embed', put raw HTML in staticContent (not JSON, raw HTML string).
-        The sandbox comes pre-loaded with:
-        - Dark theme (bg: #0a0a0f, text: #e2e8f0)
-        - Pre-styled <button> with gradient backgrounds, hover/active states
-        - Utility classes: .btn, .btn-success, .btn-danger, .btn-warning
-        - .card class for glass-panel containers
-        - .badge, .badge-green, .badge-red, .badge-blue for status labels
-        - .status-dot.green/.red/.yellow for live indicators
-        - Flex/grid utilities: .flex, .flex-col, .gap-2, .grid, .grid-2, .grid-3
-        - Spacing: .mt-2, .mb-3, .p-4, etc.
-        - Typography: .text-xs, .text-lg, .font-bold, .font-mono
-        - .glow, .animate-pulse for effects
-        - Styled <input>, <select>, <textarea> elements
-        
-        Use the embed sandbox to create INTERACTIVE elements:
-        - Buttons that change text/color on click
-        - Forms with inputs and validation
-        - Status monitors with live indicators
-        - Mini-calculators and tools
-        - Countdown timers, progress bars, toggles
-        - Links: <a href="..." target="_blank"> opens in new tab
-        
-        WEB3 CAPABILITIES (pre-loaded in every embed):
-        The sandbox auto-loads ethers.js v6 AND @solana/web3.js and provides these helpers:
-        
-        ETHEREUM:
-        - connectWallet() — async, returns {address, balance, provider, signer} or {error}
-        - Full ethers.js API: new ethers.BrowserProvider(), contract calls, etc.
-        
-        SOLANA:
-        - connectPhantom() — async, returns {address, balance, connection} or {error}
-        - Full solanaWeb3 API: solanaWeb3.Connection, solanaWeb3.PublicKey, etc.
-        
-        SHARED:
-        - shortAddr(address) — returns "0x1234...abcd" format (works for both chains)
-        - window.ethereum detection for MetaMask/injected EVM wallets
-        - window.solana / window.phantom?.solana detection for Phantom wallet
-        
-        EMBED EXAMPLE — a real EVM wallet connector:
-        staticContent: '<div class="card flex flex-col gap-3 items-center"><h2>🔗 Wallet</h2><button id="btn" onclick="go()">Connect Wallet</button><div id="info" class="badge badge-red">Disconnected</div><div id="bal" class="text-lg font-bold text-accent"></div><script>async function go(){const b=document.getElementById("btn");const i=document.getElementById("info");b.textContent="Connecting...";b.disabled=true;const r=await connectWallet();if(r.error){i.textContent=r.error;i.className="badge badge-red";b.textContent="Retry";b.disabled=false}else{i.textContent=shortAddr(r.address);i.className="badge badge-green";document.getElementById("bal").textContent=parseFloat(r.balance).toFixed(4)+" ETH";b.textContent="Connected ✓";b.className="btn btn-success"}}</script></div>'
-        
-        EMBED EXAMPLE — Phantom/Solana wallet connector:
-        staticContent: '<div class="card flex flex-col gap-3 items-center"><h2>👻 Phantom</h2><button id="btn" class="btn" style="background:linear-gradient(135deg,#9945FF,#14F195)" onclick="go()">Connect Phantom</button><div id="info" class="badge badge-red">Disconnected</div><div id="bal" class="text-lg font-bold text-accent"></div><script>async function go(){const b=document.getElementById("btn");const i=document.getElementById("info");b.textContent="Connecting...";b.disabled=true;const r=await connectPhantom();if(r.error){i.textContent=r.error;i.className="badge badge-red";b.textContent="Retry";b.disabled=false}else{i.textContent=shortAddr(r.address);i.className="badge badge-green";document.getElementById("bal").textContent=r.balance+" SOL";b.textContent="Connected ✓";b.style.background="linear-gradient(135deg,#059669,#10b981)"}}</script></div>'
-        
-        EMBED EXAMPLE — a quick calculator:
-        staticContent: '<div class="card"><h3 class="mb-3">💰 Revenue Calculator</h3><div class="flex gap-2 mb-3"><input id="price" type="number" placeholder="Price $"><input id="units" type="number" placeholder="Units"></div><button onclick="document.getElementById(\"result\").textContent=\"$\"+(document.getElementById(\"price\").value*document.getElementById(\"units\").value).toLocaleString()">Calculate</button><div id="result" class="text-lg font-bold mt-3 text-accent"></div></div>'
-        
-        Set height parameter (default 280px) to control embed widget height.
-        
-        WILD CREATIVITY & DESIGN RULES:
-        - Use all available space. Prefer 'dashboard' or 'grid-3' layout for multi-widget pages.
-        - Use SET_COLOR to match the vibe: Emerald for finance, Indigo for crypto, Rose for HR, Amber for alerts.
-        - Use emojis as widget icons and in titles.
-        - When creating a view, add LOGICAL SECONDARY WIDGETS beyond what was asked.
-          e.g., If asked for a wallet watcher, add a price ticker AND a network status embed.
-        
-        DATA RULES:
-        - ALWAYS populate widgets with REAL data using 'staticContent' (JSON-stringified for data widgets, raw HTML for embeds).
-        - Don't just talk about data — PUT IT IN THE APP where the operator can see it anytime.
-        
         GUARDRAIL STATUS (SET BY THE OPERATOR — YOU CANNOT CHANGE THESE):
         - Sleep Mode: ${guardrailService.isAwake() ? 'AWAKE' : 'SLEEPING — do NOT use browse/email/agent tools'}
         - Email: ${guardrailService.isEmailAllowed() ? 'ENABLED' : 'DISABLED — do NOT attempt to send emails'}
@@ -885,117 +812,29 @@ export class GeminiService {
         ${commitmentService.getCommitmentContext()}
       `;
 
-      const config: any = {
+      const result = await llmProviderService.stream({
+        model: modelName,
         systemInstruction,
-        tools: [{
-          functionDeclarations: [
-            askOperatorTool,
-            organizeVaultTool,
-            createTaskTool,
-            generateDocumentTool,
-            semanticSearchTool,
-            browseWebTool,
-            calculateDepreciationTool,
-            sendEmailTool,
-            deleteDocumentTool,
-            saveNoteTool,
-            manageProjectTool,
-            marketSweepTool,
-            riskAuditTool,
-            forensicOcrTool,
-            heritageMappingTool,
-            sentinelScanTool,
-            curateVisualsTool,
-            scheduleRecurringTaskTool,
-            retrieveGovFormTool,
-            fillPdfFormTool,
-            generateEvidencePacketTool,
-            manageAgentTool,
-            startTimerTool,
-            dailyBriefingTool,
-            logExpenseTool,
-            quickSearchTool,
-            createChecklistTool,
-            scheduleAutomationTool,
-            clawMemoryTool,
-            clawCommitTool,
-            purgeDataTool,
-            configureViewTool,
-            createViewTool
-          ]
-        }],
-      };
-
-      // === OpenRouter Routing ===
-      // If the selected model is from OpenRouter (contains '/'), delegate to openRouterService
-      if (this.isOpenRouterModel(modelName)) {
-        const allTools = [
-          askOperatorTool, organizeVaultTool, createTaskTool, generateDocumentTool,
-          semanticSearchTool, browseWebTool, calculateDepreciationTool, sendEmailTool,
-          deleteDocumentTool, saveNoteTool, manageProjectTool, marketSweepTool,
-          riskAuditTool, forensicOcrTool, heritageMappingTool, sentinelScanTool,
-          curateVisualsTool, scheduleRecurringTaskTool, retrieveGovFormTool, fillPdfFormTool,
-          generateEvidencePacketTool, manageAgentTool, startTimerTool, dailyBriefingTool,
-          logExpenseTool, quickSearchTool, createChecklistTool, scheduleAutomationTool,
-          clawMemoryTool, clawCommitTool, purgeDataTool, configureViewTool, createViewTool
-        ];
-        return openRouterService.sendMessage(history, newMessage, systemInstruction, modelName, allTools, file);
-      }
-
-      // === Gemini Native Path ===
-      const ai = new GoogleGenAI({ apiKey: getApiKey() });
-      if (modelName.includes('gemini-3') || modelName.includes('gemini-2.5')) {
-        config.thinkingConfig = { thinkingBudget: thinkingDepth === 'HIGH' ? 4096 : 1024 };
-      }
-
-      const mergedHistory = this.prepareHistory(history);
-      const parts: any[] = [{ text: newMessage || "Awaiting Directive" }];
-      if (file) {
-        parts.push({ inlineData: { mimeType: file.type, data: file.data } });
-      }
-
-      const chat = ai.chats.create({ model: modelName, config: config, history: mergedHistory });
-
-      let attempts = 0;
-      const maxRetries = 2;
-      let result;
-
-      // Timeout wrapper — prevents infinite spinner if API hangs
-      const withTimeout = <T,>(promise: Promise<T>, ms: number): Promise<T> => {
-        return Promise.race([
-          promise,
-          new Promise<never>((_, reject) => setTimeout(() => reject(new Error('API call timed out after ' + (ms / 1000) + 's')), ms))
-        ]);
-      };
-
-      while (attempts < maxRetries) {
-        try {
-          result = await withTimeout(chat.sendMessage({ message: parts }), 60000);
-          break;
-        } catch (error: any) {
-          attempts++;
-          const isRetryable = error.message?.includes('504') || error.message?.includes('500') || error.message?.includes('fetch failed') || error.message?.includes('timed out');
-          if (isRetryable && attempts < maxRetries) {
-            activityService.log('THINKING', `Neural Static Detected. Rerouting...`);
-            await new Promise(resolve => setTimeout(resolve, 2000));
-          } else {
-            throw error;
-          }
-        }
-      }
-
-      if (!result) throw new Error("Neural Link Severed.");
-
-      const inputStr = JSON.stringify(mergedHistory) + newMessage + systemInstruction;
-      billingService.recordUsage(modelName, this.estimateTokens(inputStr), this.estimateTokens(result.text || ""));
+        history,
+        message: newMessage,
+        file,
+        tools: CLAW_TOOLS,
+        thinkingBudget: thinkingDepth === 'HIGH' ? 4096 : 1024,
+        ...stream,
+      });
 
       return {
         text: result.text,
-        functionCalls: result.functionCalls || []
+        functionCalls: result.functionCalls,
+        aborted: result.aborted
       };
 
     } catch (error: any) {
-      console.error('Gemini Error:', error);
+      if (error instanceof LLMBlockedError) {
+        activityService.log('IDLE', error.message);
+        return { text: error.message, functionCalls: [] };
+      }
+      console.error('[Claw] Model error:', error);
       return { text: `Neural Link Failure: ${error.message}`, functionCalls: [] };
     }
   }
@@ -1003,115 +842,51 @@ export class GeminiService {
   async deepScanDocument(fileName: string, content: string): Promise<any> {
     const prompt = `Task: Perform a forensic scan on "${fileName}". Snippet: ${content.substring(0, 2000)}. Return JSON with category, expiryDate, summary, and suggestedTask. DO NOT HALLUCINATE DATES. Respond ONLY with valid JSON.`;
     try {
-      // Try Gemini first, fall back to OpenRouter
-      if (getApiKey()) {
-        const ai = new GoogleGenAI({ apiKey: getApiKey() });
-        const response = await ai.models.generateContent({
-          model: 'gemini-3-flash-preview',
-          contents: prompt,
-          config: { responseMimeType: "application/json" }
-        });
-        return JSON.parse(response.text || '{}');
-      } else if (openRouterService.isAvailable()) {
-        const result = await openRouterService.sendAgentMessage(
-          'You are a document scanner. Respond ONLY with valid JSON, no markdown.',
-          prompt,
-          []
-        );
-        try { return JSON.parse(result.text || '{}'); }
-        catch { return { category: 'OPERATIONS', summary: result.text || 'Scan complete.' }; }
-      }
-      return { category: 'OPERATIONS', summary: 'No API key available for scanning.' };
-    } catch (e) {
-      return { category: 'OPERATIONS', summary: 'Scan failed.' };
-    }
-  }
-
-  private prepareHistory(history: { role: string; content: string }[]) {
-    const mappedHistory = history.map(h => {
-      if (h.role === 'system') return { role: 'user', content: `[PILOT OVERRIDE]: ${h.content}` };
-      return h;
-    }).filter(h => (h.role === 'user' || h.role === 'model') && typeof h.content === 'string');
-
-    const mergedHistory: any[] = [];
-    if (mappedHistory.length > 0) {
-      let current = { role: mappedHistory[0].role, parts: [{ text: mappedHistory[0].content }] };
-      for (let i = 1; i < mappedHistory.length; i++) {
-        if (mappedHistory[i].role === current.role) {
-          current.parts[0].text += `\n\n${mappedHistory[i].content}`;
-        } else {
-          mergedHistory.push(current);
-          current = { role: mappedHistory[i].role, parts: [{ text: mappedHistory[i].content }] };
-        }
-      }
-      mergedHistory.push(current);
+      const result = await llmProviderService.stream({
+        model: llmProviderService.pickModel('gemini-3-flash-preview'),
+        systemInstruction: 'You are a document scanner. Respond ONLY with valid JSON, no markdown.',
+        message: prompt,
+        json: true,
+      });
+      try { return JSON.parse(result.text || '{}'); }
+      catch { return { category: 'OPERATIONS', summary: result.text || 'Scan complete.' }; }
+    } catch (e: any) {
+      return { category: 'OPERATIONS', summary: e instanceof LLMBlockedError ? e.message : 'Scan failed.' };
     }
-    return mergedHistory;
   }
 
   /**
-   * Lightweight Gemini call for agents — accepts custom system prompt and tools.
-   * Uses flash model, respects guardrails, records billing.
+   * Lightweight call for agents — accepts custom system prompt and tools.
+   * Runs on the agent's pinned model when its provider is set up, a default
+   * model otherwise. `options` carries prior chat turns and stream callbacks for agent chat.
    */
   async sendAgentMessage(
     systemPrompt: string,
     message: string,
-    toolDeclarations: FunctionDeclaration[]
-  ): Promise<{ text: string; functionCalls: any[] }> {
+    toolDeclarations: FunctionDeclaration[],
+    modelId?: string,
+    options?: LLMChatOptions
+  ): Promise<{ text: string; functionCalls: any[]; aborted?: boolean }> {
     try {
-      if (!guardrailService.isApiAllowed()) {
-        return { text: '💤 API blocked — sleep mode active.', functionCalls: [] };
-      }
-
-      // Route through OpenRouter if no Gemini key is available
-      if (!getApiKey() && openRouterService.isAvailable()) {
-        return openRouterService.sendAgentMessage(systemPrompt, message, toolDeclarations);
-      }
-
-      if (!getApiKey()) {
-        return { text: '⚠️ No API key configured. Add a Gemini or OpenRouter key in Vault → Secrets.', functionCalls: [] };
-      }
-
-      const ai = new GoogleGenAI({ apiKey: getApiKey() });
-      const modelName = 'gemini-3-flash-preview';
-
-      const config: any = {
-        systemInstruction: systemPrompt,
-      };
-
-      if (toolDeclarations.length > 0) {
-        config.tools = [{ functionDeclarations: toolDeclarations }];
-      }
-
-      if (modelName.includes('gemini-3') || modelName.includes('gemini-2.5')) {
-        config.thinkingConfig = { thinkingBudget: 512 };
-      }
-
-      const chat = ai.chats.create({ model: modelName, config, history: [] });
-
-      let result;
-      try {
-        result = await chat.sendMessage({ message: [{ text: message }] });
-      } catch (error: any) {
-        // One retry for transient errors
-        if (error.message?.includes('500') || error.message?.includes('504')) {
-          await new Promise(r => setTimeout(r, 2000));
-          result = await chat.sendMessage({ message: [{ text: message }] });
-        } else {
-          throw error;
-        }
-      }
-
-      if (!result) throw new Error('Agent neural link failed.');
-
-      billingService.recordUsage(modelName, this.estimateTokens(systemPrompt + message), this.estimateTokens(result.text || ''));
+      const now = new Date();
+      const result = await llmProviderService.stream({
+        model: llmProviderService.pickModel(modelId),
+        systemInstruction: `${systemPrompt}\n\nCURRENT DATE AND TIME: ${now.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })} at ${now.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}. CURRENT YEAR: ${now.getFullYear()}. Use this timestamp for ALL date references.`,
+        message,
+        tools: toolDeclarations,
+        thinkingBudget: 512,
+        title: 'ClawKeep Agent',
+        ...options,
+      });
 
       return {
-        text: result.text || '',
-        functionCalls: result.functionCalls || []
+        text: result.text,
+        functionCalls: result.functionCalls,
+        aborted: result.aborted
       };
     } catch (error: any) {
-      console.error('[AgentGemini] Error:', error.message);
+      if (error instanceof LLMBlockedError) return { text: error.message, functionCalls: [] };
+      console.error('[Agent] Model error:', error.message);
       return { text: `Agent error: ${error.message}`, functionCalls: [] };
     }
   }
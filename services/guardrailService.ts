@@ -1,11 +1,12 @@
 /*
  * Guardrail Service
  * Central enforcement point for sleep mode, email consent, internet abilities,
- * and API usage controls. Only the operator can change these settings —
+ * API usage controls and spending budgets. Only the operator can change these settings —
  * Claw and agents cannot modify guardrails.
  */
 
 import { api } from './apiService';
+import { billingService, operatorTimeZone } from './billingService';
 import { userScopeService } from './userScopeService';
 
 export interface GuardrailSettings {
@@ -17,18 +18,44 @@ export interface GuardrailSettings {
     emailEnabled: boolean;     // Email consent toggle
     internetEnabled: boolean;  // Browser/web abilities toggle
     apiInSleep: boolean;       // Allow API calls during sleep (default: false)
+    budget: BudgetSettings;
+}
+
+/** Spending limits in USD over the operator's day / calendar month — 0 = no limit */
+export interface BudgetSettings {
+    dailySoft: number;         // Over this, calls use downgradeModel
+    dailyHard: number;         // Over this, no calls at all
+    monthlySoft: number;
+    monthlyHard: number;
+    downgradeModel: string;    // Cheaper model used past a soft limit
+}
+
+export interface BudgetStatus {
+    level: 'OK' | 'SOFT' | 'HARD';
+    reason?: string;
+    today: number;             // USD spent today
+    month: number;             // USD spent this month
 }
 
 type GuardrailListener = (settings: GuardrailSettings) => void;
 
 const STORAGE_BASE = 'guardrail_settings';
 
+const DEFAULT_BUDGET: BudgetSettings = {
+    dailySoft: 0,
+    dailyHard: 0,
+    monthlySoft: 0,
+    monthlyHard: 0,
+    downgradeModel: 'gemini-3-flash-preview',
+};
+
 const DEFAULT_SETTINGS: GuardrailSettings = {
     sleepSchedule: { awakeStart: 7, awakeEnd: 23 },
     sleepOverride: false,
     emailEnabled: true,
     internetEnabled: true,
     apiInSleep: false,
+    budget: DEFAULT_BUDGET,
 };
 
 class GuardrailService {
@@ -39,7 +66,8 @@ class GuardrailService {
         const saved = userScopeService.scopedGet(STORAGE_BASE);
         if (saved) {
             try {
-                this.settings = { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+                const parsed = JSON.parse(saved);
+                this.settings = { ...DEFAULT_SETTINGS, ...parsed, budget: { ...DEFAULT_BUDGET, ...parsed.budget } };
             } catch {
                 this.settings = { ...DEFAULT_SETTINGS };
             }
@@ -82,6 +110,44 @@ class GuardrailService {
         return this.settings.apiInSleep;
     }
 
+    /** Where spending stands against the budget — hard limits are checked first */
+    getBudgetStatus(): BudgetStatus {
+        const { dailySoft, dailyHard, monthlySoft, monthlyHard } = this.settings.budget;
+        const today = billingService.getTodayCost();
+        const month = billingService.getMonthCost();
+        const usd = (n: number) => `$${n.toFixed(2)}`;
+
+        if (dailyHard > 0 && today >= dailyHard) {
+            return { level: 'HARD', reason: `Daily budget of ${usd(dailyHard)} reached (${usd(today)} spent today).`, today, month };
+        }
+        if (monthlyHard > 0 && month >= monthlyHard) {
+            return { level: 'HARD', reason: `Monthly budget of ${usd(monthlyHard)} reached (${usd(month)} spent this month).`, today, month };
+        }
+        if (dailySoft > 0 && today >= dailySoft) {
+            return { level: 'SOFT', reason: `Daily soft limit of ${usd(dailySoft)} passed (${usd(today)} spent today).`, today, month };
+        }
+        if (monthlySoft > 0 && month >= monthlySoft) {
+            return { level: 'SOFT', reason: `Monthly soft limit of ${usd(monthlySoft)} passed (${usd(month)} spent this month).`, today, month };
+        }
+        return { level: 'OK', today, month };
+    }
+
+    /**
+     * The model a call may use under the budget: past a hard limit it's blocked,
+     * past a soft limit the downgrade model replaces pricier ones.
+     */
+    budgetModel(model: string): { model: string; blocked?: string; downgraded?: string } {
+        const status = this.getBudgetStatus();
+        if (status.level === 'HARD') return { model, blocked: status.reason };
+
+        const fallback = this.settings.budget.downgradeModel;
+        if (status.level === 'SOFT' && fallback && fallback !== model) {
+            const perMillion = (m: string) => { const p = billingService.priceOf(m); return p.input + p.output; };
+            if (perMillion(fallback) < perMillion(model)) return { model: fallback, downgraded: status.reason };
+        }
+        return { model };
+    }
+
     /** Get time until next wake (in minutes), or 0 if awake */
     getMinutesUntilWake(): number {
         if (this.isAwake()) return 0;
@@ -114,7 +180,7 @@ class GuardrailService {
     // --- Settings Management ---
 
     getSettings(): GuardrailSettings {
-        return { ...this.settings };
+        return { ...this.settings, budget: { ...this.settings.budget } };
     }
 
     updateSettings(partial: Partial<GuardrailSettings>): void {
@@ -153,11 +219,17 @@ class GuardrailService {
         this.notify();
     }
 
+    updateBudget(partial: Partial<BudgetSettings>): void {
+        this.settings.budget = { ...this.settings.budget, ...partial };
+        this.persist();
+        this.notify();
+    }
+
     // --- Subscriptions ---
 
     subscribe(listener: GuardrailListener): () => void {
         this.listeners.push(listener);
-        listener(this.settings);
+        listener(this.getSettings());
         return () => {
             this.listeners = this.listeners.filter(l => l !== listener);
         };
@@ -165,28 +237,23 @@ class GuardrailService {
 
     // --- Persistence ---
 
+    /** Push settings to the VPS — the server-side mission scheduler enforces sleep hours from this copy */
+    publish(): Promise<void> {
+        return api.config.set('guardrail_settings', {
+            ...this.settings,
+            timeZone: operatorTimeZone(),
+        });
+    }
+
     private persist(): void {
         // Dual-write: localStorage (offline) + API config (VPS)
         userScopeService.scopedSet(STORAGE_BASE, JSON.stringify(this.settings));
-        try {
-            fetch(this.getApiBase() + '/config', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ key: 'guardrail_settings', value: JSON.stringify(this.settings) })
-            }).catch(() => { /* offline fallback */ });
-        } catch { /* offline fallback */ }
+        void this.publish();
     }
 
     private notify(): void {
-        this.listeners.forEach(l => l(this.settings));
-    }
-
-    private getApiBase(): string {
-        const host = window.location.hostname;
-        if (host === 'localhost' || host === '127.0.0.1') {
-            return (import.meta.env.VITE_API_HOST || window.location.origin) + '/api';
-        }
-        return `${window.location.protocol}//${host}:${window.location.port || '8080'}/api`;
+        const settings = this.getSettings();
+        this.listeners.forEach(l => l(settings));
     }
 }
 
@@ -0,0 +1,594 @@
+/**
+ * LLM Provider Service — One Streaming Interface for Every Model Backend
+ *
+ * Gemini, OpenRouter, direct OpenAI and a local OpenAI-compatible endpoint
+ * (Ollama, llama.cpp, LM Studio...) sit behind the same `stream()` call:
+ * callers hand over one request (system prompt, history, message, Gemini-style
+ * tool declarations) and get text deltas and tool calls as they arrive, can
+ * cancel through an AbortSignal, and usage is recorded once, here. The
+ * guardrails are applied here too: sleep mode and a hard budget limit block the
+ * call, a soft limit swaps in the cheaper downgrade model.
+ *
+ * Model ids pick the provider: `local/<name>` → local endpoint, `openai/...` →
+ * OpenAI when its key is set, any other `vendor/model` → OpenRouter, and plain
+ * ids (`gemini-3-flash-preview`) → Gemini.
+ */
+
+import { GoogleGenAI, FunctionDeclaration, Type } from '@google/genai';
+import { billingService } from './billingService';
+import { guardrailService } from './guardrailService';
+import { activityService } from './activityService';
+import { userScopeService } from './userScopeService';
+
+const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
+const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
+const LOCAL_PREFIX = 'local/';
+// A stream that goes quiet this long is treated like a hung request
+const IDLE_TIMEOUT_MS = 60000;
+const GEMINI_MAX_ATTEMPTS = 2;
+// What pickModel falls back to when the preferred model's provider isn't set up
+const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+const DEFAULT_COMPATIBLE_MODEL = 'openai/gpt-4o-mini';
+
+// --- Types ---
+
+export type LLMProviderId = 'gemini' | 'openrouter' | 'openai' | 'local';
+
+export interface LLMMessage {
+    role: string;
+    content: string;
+}
+
+export interface LLMFile {
+    name: string;
+    type: string;
+    data: string; // base64
+}
+
+export interface LLMFunctionCall {
+    name: string;
+    args: Record<string, any>;
+}
+
+export interface LLMUsage {
+    inputTokens: number;
+    outputTokens: number;
+    estimated: boolean; // the provider didn't report usage — counted from characters
+}
+
+export type LLMStreamEvent =
+    | { type: 'text'; delta: string }
+    | { type: 'tool_call'; call: LLMFunctionCall }
+    | { type: 'usage'; usage: LLMUsage };
+
+/** What UI callers pass to follow a response as it is generated */
+export interface LLMStreamOptions {
+    onEvent?: (event: LLMStreamEvent) => void;
+    signal?: AbortSignal;
+    attribution?: { agentId?: string; missionId?: string }; // who the usage entry is billed to
+}
+
+/** Stream options plus earlier turns, for chats that keep their own history */
+export interface LLMChatOptions extends LLMStreamOptions {
+    history?: LLMMessage[];
+}
+
+export interface LLMRequest extends LLMStreamOptions {
+    model: string;
+    systemInstruction: string;
+    history?: LLMMessage[];
+    message: string;
+    file?: LLMFile | null;
+    tools?: FunctionDeclaration[];
+    maxTokens?: number;
+    temperature?: number;
+    thinkingBudget?: number; // Gemini 2.5/3 only
+    json?: boolean;          // answer with JSON only — enforced on Gemini, asked for in the prompt elsewhere
+    title?: string;          // X-Title sent to OpenRouter
+}
+
+export interface LLMResponse {
+    text: string;
+    functionCalls: LLMFunctionCall[];
+    usage: LLMUsage;
+    provider: LLMProviderId;
+    model: string;           // the model that answered (differs from the request after a budget downgrade)
+    aborted?: boolean;
+}
+
+/**
+ * The call was refused before reaching a model — sleep mode, hard budget, or a
+ * provider that isn't set up. The message is written for the operator.
+ */
+export class LLMBlockedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LLMBlockedError';
+    }
+}
+
+export interface LLMProvider {
+    id: LLMProviderId;
+    label: string;
+    isAvailable(): boolean;
+    stream(req: LLMRequest, signal: AbortSignal, emit: (event: LLMStreamEvent) => void): Promise<Omit<LLMResponse, 'provider' | 'model'>>;
+}
+
+// --- Format Converters ---
+
+/** Convert Gemini Type enum to JSON Schema type string */
+function convertType(geminiType: any): string {
+    switch (geminiType) {
+        case Type.STRING: return 'string';
+        case Type.NUMBER: return 'number';
+        case Type.INTEGER: return 'integer';
+        case Type.BOOLEAN: return 'boolean';
+        case Type.ARRAY: return 'array';
+        case Type.OBJECT: return 'object';
+        default: return 'string';
+    }
+}
+
+/** Convert a Gemini parameter schema → JSON Schema (recursive) */
+function convertSchema(geminiSchema: any): any {
+    if (!geminiSchema) return {};
+
+    const schema: any = { type: convertType(geminiSchema.type) };
+
+    if (geminiSchema.description) schema.description = geminiSchema.description;
+    if (geminiSchema.enum) schema.enum = geminiSchema.enum;
+
+    if (geminiSchema.properties) {
+        schema.properties = {};
+        for (const [key, val] of Object.entries(geminiSchema.properties)) {
+            schema.properties[key] = convertSchema(val);
+        }
+    }
+
+    if (geminiSchema.required) {
+        schema.required = geminiSchema.required;
+    }
+
+    if (geminiSchema.items) {
+        schema.items = convertSchema(geminiSchema.items);
+    }
+
+    return schema;
+}
+
+/** Convert Gemini FunctionDeclaration[] → OpenAI tools[] */
+export function convertTools(geminiTools: FunctionDeclaration[]): any[] {
+    return geminiTools.map(tool => ({
+        type: 'function',
+        function: {
+            name: tool.name,
+            description: tool.description || '',
+            parameters: convertSchema(tool.parameters),
+        }
+    }));
+}
+
+/** Chat history → OpenAI messages, system prompt first */
+function toOpenAIMessages(history: LLMMessage[], systemInstruction: string): any[] {
+    const messages: any[] = [
+        { role: 'system', content: systemInstruction }
+    ];
+
+    for (const msg of history) {
+        messages.push({
+            role: msg.role === 'model' ? 'assistant' : 'user',
+            content: msg.content
+        });
+    }
+
+    return messages;
+}
+
+/**
+ * Chat history → Gemini contents. Gemini wants strictly alternating user/model
+ * turns, so consecutive messages from the same side are merged.
+ */
+function toGeminiHistory(history: LLMMessage[]): any[] {
+    const mappedHistory = history.map(h => {
+        if (h.role === 'system') return { role: 'user', content: `[PILOT OVERRIDE]: ${h.content}` };
+        if (h.role === 'assistant') return { role: 'model', content: h.content };
+        return h;
+    }).filter(h => (h.role === 'user' || h.role === 'model') && typeof h.content === 'string');
+
+    const mergedHistory: any[] = [];
+    if (mappedHistory.length > 0) {
+        let current = { role: mappedHistory[0].role, parts: [{ text: mappedHistory[0].content }] };
+        for (let i = 1; i < mappedHistory.length; i++) {
+            if (mappedHistory[i].role === current.role) {
+                current.parts[0].text += `\n\n${mappedHistory[i].content}`;
+            } else {
+                mergedHistory.push(current);
+                current = { role: mappedHistory[i].role, parts: [{ text: mappedHistory[i].content }] };
+            }
+        }
+        mergedHistory.push(current);
+    }
+    return mergedHistory;
+}
+
+const estimateTokens = (text: string) => Math.ceil((text || '').length / 4);
+
+// --- Gemini ---
+
+/** Gemini key from user settings (localStorage) or build-time env */
+export const getGeminiKey = (): string =>
+    userScopeService.scopedGet('env_API_KEY') || process.env.API_KEY || '';
+
+const geminiProvider: LLMProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+
+    isAvailable: () => !!getGeminiKey(),
+
+    async stream(req, signal, emit) {
+        const ai = new GoogleGenAI({ apiKey: getGeminiKey() });
+        const tools = req.tools || [];
+        const config: any = {
+            systemInstruction: req.systemInstruction,
+            abortSignal: signal,
+        };
+        if (tools.length > 0) config.tools = [{ functionDeclarations: tools }];
+        if (req.thinkingBudget && (req.model.includes('gemini-3') || req.model.includes('gemini-2.5'))) {
+            config.thinkingConfig = { thinkingBudget: req.thinkingBudget };
+        }
+        if (req.maxTokens) config.maxOutputTokens = req.maxTokens;
+        if (req.temperature !== undefined) config.temperature = req.temperature;
+        if (req.json) config.responseMimeType = 'application/json';
+
+        const history = toGeminiHistory(req.history || []);
+        const parts: any[] = [{ text: req.message || 'Awaiting Directive' }];
+        if (req.file) {
+            parts.push({ inlineData: { mimeType: req.file.type, data: req.file.data } });
+        }
+
+        let text = '';
+        const functionCalls: LLMFunctionCall[] = [];
+        let reported: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number } | undefined;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const chat = ai.chats.create({ model: req.model, config, history });
+                const stream = await chat.sendMessageStream({ message: parts });
+                for await (const chunk of stream) {
+                    if (chunk.text) {
+                        text += chunk.text;
+                        emit({ type: 'text', delta: chunk.text });
+                    }
+                    for (const fc of chunk.functionCalls || []) {
+                        const call = { name: fc.name || '', args: (fc.args || {}) as Record<string, any> };
+                        functionCalls.push(call);
+                        emit({ type: 'tool_call', call });
+                    }
+                    if (chunk.usageMetadata) reported = chunk.usageMetadata;
+                }
+                break;
+            } catch (error: any) {
+                // Only retry before anything reached the caller — a half-streamed answer can't be replayed
+                const retryable = /500|504|fetch failed|timed out/.test(error?.message || '');
+                if (signal.aborted || !retryable || attempt >= GEMINI_MAX_ATTEMPTS || text || functionCalls.length) throw error;
+                await new Promise(resolve => setTimeout(resolve, 2000));
+            }
+        }
+
+        const usage: LLMUsage = reported?.promptTokenCount
+            ? {
+                inputTokens: reported.promptTokenCount,
+                outputTokens: (reported.candidatesTokenCount || 0) + (reported.thoughtsTokenCount || 0),
+                estimated: false,
+            }
+            : {
+                inputTokens: estimateTokens(JSON.stringify(history) + req.message + req.systemInstruction),
+                outputTokens: estimateTokens(text),
+                estimated: true,
+            };
+        return { text, functionCalls, usage };
+    },
+};
+
+// --- OpenAI-compatible (OpenRouter, OpenAI, local) ---
+
+interface CompatibleEndpoint {
+    url: string;
+    key: string;
+    model: string;
+    headers?: Record<string, string>;
+}
+
+/** Tool-call arguments as an object — models sometimes emit malformed JSON, which becomes {} */
+function parseToolArgs(name: string, raw: string | undefined): Record<string, any> {
+    try { return JSON.parse(raw || '{}'); } catch {
+        console.warn(`[LLM] Unparseable arguments for ${name}:`, raw);
+        return {};
+    }
+}
+
+/** Read an OpenAI-style SSE body, emitting text as it arrives and tool calls once their arguments are complete */
+async function readCompatibleStream(
+    response: Response,
+    emit: (event: LLMStreamEvent) => void
+): Promise<{ text: string; functionCalls: LLMFunctionCall[]; reported?: { prompt_tokens?: number; completion_tokens?: number } }> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    const pendingCalls: { name: string; arguments: string }[] = [];
+    let buffer = '';
+    let text = '';
+    let reported: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+
+    const handleLine = (line: string) => {
+        if (!line.startsWith('data:')) return; // comments (": OPENROUTER PROCESSING") and blank keep-alives
+        const payload = line.slice(5).trim();
+        if (!payload || payload === '[DONE]') return;
+        let data: any;
+        try { data = JSON.parse(payload); } catch { return; }
+        if (data.error) throw new Error(data.error.message || 'Stream error');
+        if (data.usage) reported = data.usage;
+
+        const delta = data.choices?.[0]?.delta;
+        if (!delta) return;
+        if (delta.content) {
+            text += delta.content;
+            emit({ type: 'text', delta: delta.content });
+        }
+        for (const tc of delta.tool_calls || []) {
+            const index = tc.index ?? pendingCalls.length;
+            if (!pendingCalls[index]) pendingCalls[index] = { name: '', arguments: '' };
+            if (tc.function?.name) pendingCalls[index].name += tc.function.name;
+            if (tc.function?.arguments) pendingCalls[index].arguments += tc.function.arguments;
+        }
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(line => handleLine(line.trim()));
+    }
+    if (buffer.trim()) handleLine(buffer.trim());
+
+    const functionCalls: LLMFunctionCall[] = pendingCalls.filter(Boolean).map(pc => ({
+        name: pc.name,
+        args: parseToolArgs(pc.name, pc.arguments)
+    }));
+    functionCalls.forEach(call => emit({ type: 'tool_call', call }));
+    return { text, functionCalls, reported };
+}
+
+function compatibleProvider(
+    id: Exclude<LLMProviderId, 'gemini'>,
+    label: string,
+    isAvailable: () => boolean,
+    endpoint: (req: LLMRequest) => CompatibleEndpoint
+): LLMProvider {
+    return {
+        id,
+        label,
+        isAvailable,
+
+        async stream(req, signal, emit) {
+            const { url, key, model, headers: extraHeaders } = endpoint(req);
+            const messages = toOpenAIMessages(req.history || [], req.systemInstruction);
+
+            const userContent: any[] = [{ type: 'text', text: req.message || 'Awaiting Directive' }];
+            if (req.file) {
+                userContent.push({
+                    type: 'image_url',
+                    image_url: { url: `data:${req.file.type};base64,${req.file.data}` }
+                });
+            }
+            messages.push({
+                role: 'user',
+                content: userContent.length === 1 ? userContent[0].text : userContent
+            });
+
+            const tools = convertTools(req.tools || []);
+            const body: any = {
+                model,
+                messages,
+                tools: tools.length > 0 ? tools : undefined,
+                tool_choice: tools.length > 0 ? 'auto' : undefined,
+                max_tokens: req.maxTokens || 4096,
+                temperature: req.temperature ?? 0.7,
+                stream: true,
+                stream_options: { include_usage: true },
+            };
+
+            const headers: Record<string, string> = { 'Content-Type': 'application/json', ...extraHeaders };
+            if (key) headers['Authorization'] = `Bearer ${key}`;
+
+            const post = () => fetch(url, { method: 'POST', headers, body: JSON.stringify(body), signal });
+            let response = await post();
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}));
+                const errorMsg = errorData?.error?.message || response.statusText;
+                // Some models reject tool definitions outright — answer without them rather than fail
+                if (response.status === 404 && errorMsg.toLowerCase().includes('tool') && body.tools) {
+                    console.warn(`[LLM] ${model} doesn't support tools on ${label} — retrying without tools`);
+                    body.tools = undefined;
+                    body.tool_choice = undefined;
+                    response = await post();
+                    if (!response.ok) {
+                        const retryError = await response.json().catch(() => ({}));
+                        throw new Error(`${label} ${response.status}: ${retryError?.error?.message || response.statusText}`);
+                    }
+                } else {
+                    throw new Error(`${label} ${response.status}: ${errorMsg}`);
+                }
+            }
+
+            // Endpoints that ignore `stream` answer with a single JSON body
+            if (!(response.headers.get('content-type') || '').includes('text/event-stream')) {
+                const data = await response.json();
+                const choice = data.choices?.[0];
+                if (!choice) throw new Error(`No response from ${label}`);
+                const text = choice.message?.content || '';
+                if (text) emit({ type: 'text', delta: text });
+                const functionCalls = (choice.message?.tool_calls || []).map((tc: any) => ({
+                    name: tc.function.name,
+                    args: parseToolArgs(tc.function.name, tc.function.arguments)
+                }));
+                functionCalls.forEach((call: LLMFunctionCall) => emit({ type: 'tool_call', call }));
+                return { text, functionCalls, usage: compatibleUsage(data.usage, messages, text) };
+            }
+
+            const { text, functionCalls, reported } = await readCompatibleStream(response, emit);
+            return { text, functionCalls, usage: compatibleUsage(reported, messages, text) };
+        },
+    };
+}
+
+function compatibleUsage(reported: { prompt_tokens?: number; completion_tokens?: number } | undefined, messages: any[], text: string): LLMUsage {
+    if (reported?.prompt_tokens) {
+        return { inputTokens: reported.prompt_tokens, outputTokens: reported.completion_tokens || 0, estimated: false };
+    }
+    return { inputTokens: estimateTokens(JSON.stringify(messages)), outputTokens: estimateTokens(text), estimated: true };
+}
+
+const getOpenRouterKey = () => userScopeService.scopedGet('env_OPENROUTER_API_KEY') || '';
+const getOpenAIKey = () => userScopeService.scopedGet('env_OPENAI_API_KEY') || '';
+const getLocalUrl = () => (userScopeService.scopedGet('env_LOCAL_LLM_URL') || '').trim().replace(/\/+$/, '');
+
+const openRouterProvider = compatibleProvider('openrouter', 'OpenRouter', () => !!getOpenRouterKey(), req => ({
+    url: OPENROUTER_API_URL,
+    key: getOpenRouterKey(),
+    model: req.model,
+    headers: { 'HTTP-Referer': window.location.origin, 'X-Title': req.title || 'ClawKeep' },
+}));
+
+const openAIProvider = compatibleProvider('openai', 'OpenAI', () => !!getOpenAIKey(), req => ({
+    url: OPENAI_API_URL,
+    key: getOpenAIKey(),
+    model: req.model.replace('openai/', ''), // direct API wants the bare model id
+}));
+
+// Ollama serves /v1/chat/completions, llama.cpp and LM Studio too — the base URL is all that differs
+const localProvider = compatibleProvider('local', 'Local', () => !!getLocalUrl(), req => {
+    const base = getLocalUrl();
+    return {
+        url: base.endsWith('/chat/completions') ? base : `${base}/chat/completions`,
+        key: userScopeService.scopedGet('env_LOCAL_LLM_API_KEY') || '',
+        model: req.model.slice(LOCAL_PREFIX.length),
+    };
+});
+
+// --- Service ---
+
+class LLMProviderService {
+    /** Which backend serves a model id */
+    getProvider(modelId: string): LLMProvider {
+        if (modelId.startsWith(LOCAL_PREFIX)) return localProvider;
+        if (modelId.startsWith('openai/') && openAIProvider.isAvailable()) return openAIProvider;
+        if (modelId.includes('/')) return openRouterProvider;
+        return geminiProvider;
+    }
+
+    /** True if the backend for this model id has the key (or URL) it needs */
+    isAvailable(modelId: string): boolean {
+        return this.getProvider(modelId).isAvailable();
+    }
+
+    isLocalModel(modelId: string): boolean {
+        return modelId.startsWith(LOCAL_PREFIX);
+    }
+
+    /**
+     * The preferred model when its provider is set up, otherwise a default on one
+     * that is (Gemini first). With nothing set up the preference is returned as is
+     * and `stream()` explains what is missing.
+     */
+    pickModel(preferred?: string): string {
+        if (preferred && this.isAvailable(preferred)) return preferred;
+        if (geminiProvider.isAvailable()) return DEFAULT_GEMINI_MODEL;
+        if (this.isAvailable(DEFAULT_COMPATIBLE_MODEL)) return DEFAULT_COMPATIBLE_MODEL;
+        return preferred || DEFAULT_GEMINI_MODEL;
+    }
+
+    /**
+     * Run one model turn. Text and tool calls are emitted through `onEvent` as
+     * they arrive; the resolved response holds the full result either way.
+     * Aborting through `signal` resolves with what was generated so far and
+     * `aborted: true`. Other failures reject; calls the guardrails or a missing
+     * key refuse reject with an LLMBlockedError.
+     */
+    async stream(request: LLMRequest): Promise<LLMResponse> {
+        let req = request;
+        if (!guardrailService.isApiAllowed()) {
+            throw new LLMBlockedError('💤 Sleep mode is on (set in Settings) — no model calls until awake hours, or wake me up manually from Settings.');
+        }
+        const budget = guardrailService.budgetModel(req.model);
+        if (budget.blocked) throw new LLMBlockedError(`💸 ${budget.blocked} Raise the limit in Settings → Operator Guardrails.`);
+        if (budget.downgraded && this.isAvailable(budget.model)) {
+            activityService.log('IDLE', `💸 ${budget.downgraded} Using ${budget.model} instead of ${req.model}.`);
+            req = { ...req, model: budget.model };
+        }
+
+        const provider = this.getProvider(req.model);
+        if (!provider.isAvailable()) {
+            throw new LLMBlockedError(provider.id === 'local'
+                ? `⚠️ ${req.model} needs a local model endpoint. Add LOCAL_LLM_URL in Vault → Secrets (e.g. http://localhost:11434/v1 for Ollama).`
+                : `🔑 ${req.model} needs a ${provider.label} API key. Add it in Vault → Secrets, or switch models in Settings → Model Selector.`);
+        }
+
+        // One controller per call: the caller's signal and the idle timer both abort it
+        const controller = new AbortController();
+        const onCallerAbort = () => controller.abort();
+        req.signal?.addEventListener('abort', onCallerAbort);
+        if (req.signal?.aborted) controller.abort();
+
+        let timedOut = false;
+        let idleTimer: ReturnType<typeof setTimeout> | undefined;
+        const resetIdle = () => {
+            clearTimeout(idleTimer);
+            idleTimer = setTimeout(() => { timedOut = true; controller.abort(); }, IDLE_TIMEOUT_MS);
+        };
+
+        let partial = '';
+        const emit = (event: LLMStreamEvent) => {
+            resetIdle();
+            if (event.type === 'text') partial += event.delta;
+            try { req.onEvent?.(event); } catch (e) { console.error('[LLM] Stream listener failed:', e); }
+        };
+
+        resetIdle();
+        try {
+            const result = await provider.stream(req, controller.signal, emit);
+            this.recordUsage(req, provider.id, result.usage);
+            return { ...result, provider: provider.id, model: req.model };
+        } catch (error: any) {
+            if (timedOut) throw new Error(`API call timed out after ${IDLE_TIMEOUT_MS / 1000}s`);
+            if (!req.signal?.aborted) throw error;
+
+            // Stopped by the caller — keep the text that arrived (those tokens are billed all the
+            // same) but drop tool calls: the operator asked for nothing more to happen
+            const usage: LLMUsage = {
+                inputTokens: estimateTokens(JSON.stringify(req.history || []) + req.message + req.systemInstruction),
+                outputTokens: estimateTokens(partial),
+                estimated: true,
+            };
+            this.recordUsage(req, provider.id, usage);
+            return { text: partial, functionCalls: [], usage, provider: provider.id, model: req.model, aborted: true };
+        } finally {
+            clearTimeout(idleTimer);
+            req.signal?.removeEventListener('abort', onCallerAbort);
+        }
+    }
+
+    private recordUsage(req: LLMRequest, provider: LLMProviderId, usage: LLMUsage) {
+        billingService.recordUsage(req.model, usage.inputTokens, usage.outputTokens, {
+            provider,
+            agentId: req.attribution?.agentId,
+            missionId: req.attribution?.missionId,
+            estimated: usage.estimated,
+        });
+        try { req.onEvent?.({ type: 'usage', usage }); } catch { /* listener errors were already logged */ }
+    }
+}
+
+export const llmProviderService = new LLMProviderService();
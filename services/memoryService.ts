@@ -6,55 +6,47 @@
 
 import { api } from './apiService';
 import { userScopeService } from './userScopeService';
+import { embeddingService } from './embeddingService';
+import { ClawMemory as Memory } from '../types';
 
-interface Memory {
-    id: string;
-    fact: string;
-    category: string;
-    source: string;
-    confidence: number;
-    createdAt: string;
-    lastAccessed: string;
-    accessCount: number;
-}
+const DUPLICATE_THRESHOLD = 0.92;     // ≥ this → same fact, don't store
+const MERGE_THRESHOLD = 0.8;          // ≥ this → store, but suggest a merge
+const MIN_SEMANTIC_SIMILARITY = 0.45; // cosine floor for a recall hit
+const MIN_LEXICAL_SCORE = 0.1;        // normalised BM25 floor when offline
+const EMBED_BATCH_SIZE = 50;
 
 class MemoryService {
     private localCache: Memory[] = [];
 
+    // Loads from /api/memories (per-user, shared across devices).
+    // Falls back to scoped localStorage when the VPS is unreachable.
     async init() {
-        try {
-            const memories = await api.config.get('memories_cache');
-            if (memories && Array.isArray(memories)) {
-                this.localCache = memories;
+        const local: Memory[] = JSON.parse(userScopeService.scopedGet('memories') || '[]');
+        this.localCache = await api.memories.list();
+
+        // First run against the server — upload memories that only lived in this browser
+        if (api.isOnline && !userScopeService.scopedGet('memories_uploaded')) {
+            if (this.localCache.length === 0 && local.length > 0) {
+                this.localCache = local;
+                await api.memories.save(local);
             }
-            // Also try to load from API
-            const serverMemories = await fetch(`${this.getApiBase()}/memories`).then(r => r.json()).catch(() => []);
-            if (serverMemories.length > 0) {
-                this.localCache = serverMemories;
-            }
-        } catch {
-            const saved = userScopeService.scopedGet('memories');
-            if (saved) this.localCache = JSON.parse(saved);
+            userScopeService.scopedSet('memories_uploaded', '1');
         }
+        this.persist();
         console.log(`[Memory] Loaded ${this.localCache.length} memories`);
-    }
-
-    private getApiBase(): string {
-        const host = window.location.hostname;
-        if (host === 'localhost' || host === '127.0.0.1') {
-            return (import.meta.env.VITE_API_HOST || window.location.origin) + '/api';
-        }
-        return `${window.location.protocol}//${host}:${window.location.port || '8080'}/api`;
+        void this.backfillEmbeddings();
     }
 
     // --- Save a new memory ---
     async remember(fact: string, category: string = 'GENERAL', source: string = 'conversation'): Promise<string> {
-        // Check for duplicates — don't store near-identical facts
-        const isDuplicate = this.localCache.some(m =>
-            m.fact.toLowerCase().includes(fact.toLowerCase().slice(0, 30)) ||
-            fact.toLowerCase().includes(m.fact.toLowerCase().slice(0, 30))
-        );
-        if (isDuplicate) return 'Memory already exists (similar fact found).';
+        const embedded = await embeddingService.embed([fact]);
+        const vector = embedded?.vectors[0];
+
+        // Check for duplicates — near-identical facts are rejected, close ones flagged for merging
+        const nearest = this.findSimilar(fact, vector, embedded?.model)[0];
+        if (nearest && nearest.similarity >= DUPLICATE_THRESHOLD) {
+            return `Memory already exists: "${nearest.memory.fact}" (id: ${nearest.memory.id}, ${Math.round(nearest.similarity * 100)}% similar).`;
+        }
 
         const memory: Memory = {
             id: `mem_${Date.now()}`,
@@ -64,43 +56,57 @@ class MemoryService {
             confidence: 0.9,
             createdAt: new Date().toISOString(),
             lastAccessed: new Date().toISOString(),
-            accessCount: 0
+            accessCount: 0,
+            ...(vector ? { embedding: vector, embeddingModel: embedded!.model } : {})
         };
 
         this.localCache.unshift(memory);
+        await api.memories.create(memory);
         this.persist();
 
-        // Save to server
-        try {
-            await fetch(`${this.getApiBase()}/memories`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(memory)
-            });
-        } catch { /* offline fallback */ }
-
-        return `Memorized: "${fact}" [${category}]`;
+        const mergeHint = nearest && nearest.similarity >= MERGE_THRESHOLD
+            ? ` — overlaps with "${nearest.memory.fact}" (id: ${nearest.memory.id}); consider merging and forgetting one.`
+            : '';
+        return `Memorized: "${fact}" [${category}]${mergeHint}`;
+    }
+
+    /**
+     * Memories most similar to `text`, best first. Uses cosine similarity when
+     * a vector from the same model is available, token overlap otherwise.
+     */
+    findSimilar(text: string, vector?: number[], model?: string, limit = 3): { memory: Memory; similarity: number }[] {
+        return this.localCache
+            .map(m => ({
+                memory: m,
+                similarity: vector && m.embedding && m.embeddingModel === model
+                    ? embeddingService.cosine(vector, m.embedding)
+                    : embeddingService.jaccard(text, m.fact)
+            }))
+            .filter(s => s.similarity > 0)
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, limit);
     }
 
     // --- Recall memories relevant to a query ---
     async recall(query: string, limit: number = 5): Promise<Memory[]> {
-        const q = query.toLowerCase();
-        const words = q.split(/\s+/).filter(w => w.length > 2);
-
-        // Score each memory by word overlap
-        const scored = this.localCache.map(m => {
-            const factLower = m.fact.toLowerCase();
-            const catLower = m.category.toLowerCase();
-            let score = 0;
-            for (const word of words) {
-                if (factLower.includes(word)) score += 2;
-                if (catLower.includes(word)) score += 1;
-            }
-            // Boost recent and frequently accessed memories
-            const ageHours = (Date.now() - new Date(m.createdAt).getTime()) / 3600000;
-            if (ageHours < 24) score += 1;  // Recent boost
-            score += Math.min(m.accessCount * 0.1, 0.5); // Frequency boost
-            return { memory: m, score };
+        if (!query.trim() || this.localCache.length === 0) return [];
+        const embedded = await embeddingService.embed([query]);
+        const queryVector = embedded?.vectors[0];
+
+        // Lexical scores cover memories that have no vector for the active model
+        const lexical = embeddingService.bm25(query, this.localCache.map(m => `${m.fact} ${m.category}`));
+
+        const scored = this.localCache.map((m, i) => {
+            const semantic = queryVector && m.embedding && m.embeddingModel === embedded!.model;
+            const similarity = semantic ? embeddingService.cosine(queryVector!, m.embedding!) : lexical[i];
+            if (similarity < (semantic ? MIN_SEMANTIC_SIMILARITY : MIN_LEXICAL_SCORE)) return { memory: m, score: 0 };
+
+            // Weight by recency, use and confidence — relevance still dominates
+            const ageDays = (Date.now() - new Date(m.createdAt).getTime()) / 86400000;
+            const recency = 0.15 * Math.exp(-ageDays / 30);
+            const frequency = Math.min(m.accessCount * 0.02, 0.1);
+            const confidence = 0.5 + 0.5 * (m.confidence ?? 0.9);
+            return { memory: m, score: similarity * (1 + recency + frequency) * confidence };
         });
 
         const results = scored
@@ -114,11 +120,47 @@ class MemoryService {
             m.accessCount += 1;
             m.lastAccessed = new Date().toISOString();
         });
-        if (results.length > 0) this.persist();
+        if (results.length > 0) {
+            this.persist();
+            results.forEach(m => { void api.memories.update(m.id, { accessCount: m.accessCount, lastAccessed: m.lastAccessed }); });
+        }
 
         return results;
     }
 
+    /** Pairs of stored memories similar enough that one should probably be merged away */
+    getMergeSuggestions(limit: number = 5): { a: Memory; b: Memory; similarity: number }[] {
+        const pairs: { a: Memory; b: Memory; similarity: number }[] = [];
+        for (let i = 0; i < this.localCache.length; i++) {
+            for (let j = i + 1; j < this.localCache.length; j++) {
+                const a = this.localCache[i], b = this.localCache[j];
+                const similarity = a.embedding && b.embedding && a.embeddingModel === b.embeddingModel
+                    ? embeddingService.cosine(a.embedding, b.embedding)
+                    : embeddingService.jaccard(a.fact, b.fact);
+                if (similarity >= MERGE_THRESHOLD) pairs.push({ a, b, similarity });
+            }
+        }
+        return pairs.sort((x, y) => y.similarity - x.similarity).slice(0, limit);
+    }
+
+    // Embed memories saved offline or under a different provider, then store the vectors server-side
+    private async backfillEmbeddings() {
+        const model = embeddingService.getActiveModel();
+        if (!model) return;
+        const missing = this.localCache.filter(m => m.embeddingModel !== model);
+        for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+            const batch = missing.slice(i, i + EMBED_BATCH_SIZE);
+            const embedded = await embeddingService.embed(batch.map(m => m.fact));
+            if (!embedded) return;
+            for (const [j, m] of batch.entries()) {
+                m.embedding = embedded.vectors[j];
+                m.embeddingModel = embedded.model;
+                await api.memories.update(m.id, { embedding: m.embedding, embeddingModel: m.embeddingModel });
+            }
+        }
+        if (missing.length > 0) console.log(`[Memory] Embedded ${missing.length} memories with ${model}`);
+    }
+
     // --- Get all memories for context injection ---
     getTopMemories(limit: number = 10): Memory[] {
         return this.localCache
@@ -140,18 +182,29 @@ class MemoryService {
         const found = this.localCache.find(m => m.id === memoryId);
         if (!found) return 'Memory not found.';
         this.localCache = this.localCache.filter(m => m.id !== memoryId);
+        await api.memories.delete(memoryId);
         this.persist();
-        try {
-            await fetch(`${this.getApiBase()}/memories/${memoryId}`, { method: 'DELETE' });
-        } catch { /* offline */ }
         return `Forgotten: "${found.fact}"`;
     }
 
+    // --- Adjust how sure Claw is of a memory ---
+    async setConfidence(memoryId: string, confidence: number): Promise<string> {
+        const found = this.localCache.find(m => m.id === memoryId);
+        if (!found) return 'Memory not found.';
+        found.confidence = Math.max(0, Math.min(1, confidence));
+        await api.memories.update(memoryId, { confidence: found.confidence });
+        this.persist();
+        return `Confidence for "${found.fact}" set to ${Math.round(found.confidence * 100)}%.`;
+    }
+
     // --- Forget all memories in a category ---
     async forgetCategory(category: string): Promise<string> {
         const count = this.localCache.filter(m => m.category === category.toUpperCase()).length;
         this.localCache = this.localCache.filter(m => m.category !== category.toUpperCase());
         this.persist();
+        try {
+            await api.memories.deleteCategory(category);
+        } catch { /* offline — local cache already cleared */ }
         return `Cleared ${count} memories from [${category}].`;
     }
 
@@ -164,8 +217,10 @@ class MemoryService {
         return { total: this.localCache.length, categories };
     }
 
+    // Vectors stay server-side only — they'd blow the localStorage quota
     private persist() {
-        userScopeService.scopedSet('memories', JSON.stringify(this.localCache));
+        const slim = this.localCache.map(({ embedding, embeddingModel, ...m }) => m);
+        userScopeService.scopedSet('memories', JSON.stringify(slim));
     }
 }
 
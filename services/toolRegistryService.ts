@@ -0,0 +1,869 @@
+/*
+ * Tool Registry Service
+ * Maps every tool name the model can call to a handler, an argument
+ * validator and a result formatter. Both Claw's chat loop and the
+ * autonomous agents execute function calls through here, so a tool that
+ * isn't registered is reported back to the model instead of dropped.
+ *
+ * Tools are tagged by risk. RISKY calls are parked in approvalQueueService with
+ * their full arguments and only run once the operator approves them.
+ */
+
+import { api } from './apiService';
+import { activityService } from './activityService';
+import { gatewayService } from './gatewayService';
+import { guardrailService } from './guardrailService';
+import { heartbeatService } from './heartbeatService';
+import { memoryService } from './memoryService';
+import { commitmentService } from './commitmentService';
+import { autonomousAgentService } from './autonomousAgentService';
+import { approvalQueueService } from './approvalQueueService';
+import { Task, TaskStatus, Priority, Document, ClawAgent, Expense, ExpenseCategory, Checklist, VaultSearchHit, ToolRisk, ApprovalType, Delegation } from '../types';
+
+export type ToolCaller = 'CLAW' | 'AGENT';
+
+export interface ToolCall {
+    name: string;
+    args?: Record<string, any>;
+}
+
+export interface ToolContext {
+    caller: ToolCaller;
+    agentId?: string;
+    /** Set for RISKY tools — the server only runs trader commands that carry it */
+    approvalId?: string;
+}
+
+export interface ApprovalPreview {
+    type: ApprovalType;
+    title: string;
+    description: string;
+}
+
+export interface ToolDefinition<A = any, R = any> {
+    name: string;
+    /** READ / WRITE run immediately; RISKY waits for the operator (defaults to WRITE) */
+    risk?: ToolRisk;
+    /** What the operator is asked to approve — required for RISKY tools */
+    approval?: (args: A) => ApprovalPreview;
+    /** Returns an error message when the arguments are unusable, null when they are fine */
+    validate?: (args: A) => string | null;
+    handler: (args: A, ctx: ToolContext) => Promise<R> | R;
+    /** Turns the handler result into the text fed back to the model */
+    format?: (result: R, args: A) => string;
+}
+
+// Declared to the model in geminiService but with no executor in this build
+const UNIMPLEMENTED_TOOLS = new Set([
+    'curateVisuals', 'organizeVault', 'forensicOcr', 'heritageMapping', 'sentinelScan',
+    'marketSweep', 'riskAudit', 'manageProject', 'retrieveGovForm',
+    'fillPdfForm', 'generateEvidencePacket',
+]);
+
+const BROWSE_RESULT_LIMIT = 4000;
+const MAX_DELEGATIONS = 3;
+
+// --- Validation helpers ---
+
+const requireFields = (...fields: string[]) => (args: any): string | null => {
+    const missing = fields.filter(f => args?.[f] === undefined || args?.[f] === null || args?.[f] === '');
+    return missing.length > 0 ? `missing required argument(s): ${missing.join(', ')}` : null;
+};
+
+const requireNumber = (field: string, min?: number) => (args: any): string | null => {
+    const value = Number(args?.[field]);
+    if (args?.[field] === undefined || Number.isNaN(value)) return `"${field}" must be a number`;
+    if (min !== undefined && value < min) return `"${field}" must be at least ${min}`;
+    return null;
+};
+
+const requireOneOf = (field: string, allowed: string[]) => (args: any): string | null => {
+    const value = String(args?.[field] || '').toUpperCase();
+    return allowed.includes(value) ? null : `"${field}" must be one of ${allowed.join(', ')}`;
+};
+
+const all = (...checks: ((args: any) => string | null)[]) => (args: any): string | null => {
+    for (const check of checks) {
+        const err = check(args);
+        if (err) return err;
+    }
+    return null;
+};
+
+// --- Trader formatting (compact text — candles and indicators are fed to the model) ---
+
+const TRADER_TIMEFRAMES = ['minute', 'hour', 'day'];
+const MAX_AGENT_CANDLES = 100;
+
+const fmtNum = (n: any): string => {
+    const v = Number(n);
+    if (n === null || n === undefined || !Number.isFinite(v)) return '—';
+    return Math.abs(v) >= 1 ? v.toFixed(2) : v.toPrecision(4);
+};
+
+const fmtTime = (ms: number) => new Date(ms).toISOString().slice(0, 16).replace('T', ' ');
+
+const traderTarget = (args: any) => ({
+    pair: String(args.pair || 'SOL/USDC'),
+    timeframe: TRADER_TIMEFRAMES.includes(String(args.timeframe)) ? String(args.timeframe) : 'hour',
+});
+
+// Jupiter perps list bitcoin as wBTC
+const perpMarket = (market: any) => {
+    const m = String(market).toUpperCase();
+    return m === 'BTC' || m === 'WBTC' ? 'wBTC' : m;
+};
+
+const newId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
+
+class ToolRegistryService {
+    private tools: Map<string, ToolDefinition> = new Map();
+    private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+    constructor() {
+        this.registerBuiltins();
+    }
+
+    register<A = any, R = any>(tool: ToolDefinition<A, R>) {
+        this.tools.set(tool.name, tool as ToolDefinition);
+    }
+
+    unregister(name: string) {
+        this.tools.delete(name);
+    }
+
+    has(name: string): boolean {
+        return this.tools.has(name);
+    }
+
+    getRegisteredNames(): string[] {
+        return Array.from(this.tools.keys()).sort();
+    }
+
+    /**
+     * Execute a model function call. Always resolves to text for the model —
+     * unknown tools, bad arguments and handler failures are reported, not thrown.
+     */
+    async execute(call: ToolCall, ctx: ToolContext = { caller: 'CLAW' }): Promise<string> {
+        const name = call?.name || '';
+        const args = call?.args || {};
+        const tool = this.tools.get(name);
+
+        if (!tool) {
+            const reason = UNIMPLEMENTED_TOOLS.has(name)
+                ? `[UNAVAILABLE] Tool "${name}" is declared but has no executor in this deployment. Tell the operator it can't be done automatically yet.`
+                : `[UNKNOWN TOOL] "${name}" is not a registered tool. Available tools: ${this.getRegisteredNames().join(', ')}`;
+            console.warn(`[ToolRegistry] ${reason}`);
+            return reason;
+        }
+
+        const invalid = tool.validate?.(args);
+        if (invalid) {
+            return `[INVALID ARGS] ${name}: ${invalid}`;
+        }
+
+        let approvalId: string | null = null;
+        if (tool.risk === 'RISKY') {
+            const preview = tool.approval?.(args) || { type: 'ASSET_COMMIT', title: name, description: '' };
+            activityService.log('THINKING', `⏸️ Awaiting approval: ${preview.title}`, { args });
+            const decision = await approvalQueueService.request({ ...preview, toolName: name, args, caller: ctx.caller, agentId: ctx.agentId });
+            if (!decision.approved) {
+                const why = decision.status === 'EXPIRED' ? 'the approval request expired without a decision' : 'the operator rejected it';
+                return `[REJECTED] ${name} was not executed — ${why}.${decision.note ? ` Operator note: "${decision.note}".` : ''} Do not retry it unless the operator asks.`;
+            }
+            approvalId = decision.id;
+        }
+
+        activityService.log('TERMINAL', `🔧 ${ctx.caller === 'AGENT' ? `Agent ${ctx.agentId || ''} → ` : ''}${name}`, { args });
+        let output: string;
+        let ok = true;
+        try {
+            const result = await tool.handler(args, approvalId ? { ...ctx, approvalId } : ctx);
+            if (tool.format) output = tool.format(result, args);
+            else if (typeof result === 'string') output = result;
+            else output = result === undefined ? `${name} completed.` : JSON.stringify(result);
+        } catch (e: any) {
+            console.error(`[ToolRegistry] ${name} failed:`, e);
+            output = `[TOOL ERROR] ${name}: ${e?.message || e}`;
+            ok = false;
+        }
+        if (approvalId) approvalQueueService.recordResult(approvalId, ok, output);
+        return output;
+    }
+
+    // ─── Built-in tools ─────────────────────────────────────
+
+    private registerBuiltins() {
+        // --- Tasks ---
+
+        this.register<any, Task>({
+            name: 'createTask',
+            validate: requireFields('title'),
+            handler: async (args, ctx) => {
+                const priority = String(args.priority || 'MEDIUM').toUpperCase();
+                const task: Task = {
+                    id: newId('task'),
+                    title: args.title,
+                    description: args.description || '',
+                    status: TaskStatus.TODO,
+                    priority: (Object.values(Priority) as string[]).includes(priority) ? priority as Priority : Priority.MEDIUM,
+                    dueDate: args.dueDate || '',
+                    assignedTo: ctx.agentId,
+                    tags: ctx.caller === 'AGENT' ? ['agent'] : [],
+                    emoji: args.emoji,
+                    color: args.color,
+                };
+                return api.tasks.create(task);
+            },
+            format: (task) => `✅ Task created: "${task.title}" [${task.priority}]${task.dueDate ? ` due ${task.dueDate}` : ''} (id: ${task.id})`,
+        });
+
+        this.register<any, Task[]>({
+            name: 'scheduleRecurringTask',
+            validate: all(
+                requireFields('title', 'startDate', 'frequency'),
+                requireNumber('iterations', 1),
+                requireOneOf('frequency', ['DAILY', 'WEEKLY', 'BIWEEKLY', 'MONTHLY']),
+            ),
+            handler: async (args) => {
+                const start = new Date(args.startDate);
+                if (Number.isNaN(start.getTime())) throw new Error(`invalid startDate "${args.startDate}"`);
+                const count = Math.min(Math.floor(Number(args.iterations)), 52);
+                const created: Task[] = [];
+                for (let i = 0; i < count; i++) {
+                    const due = new Date(start);
+                    switch (String(args.frequency).toUpperCase()) {
+                        case 'DAILY': due.setDate(due.getDate() + i); break;
+                        case 'WEEKLY': due.setDate(due.getDate() + i * 7); break;
+                        case 'BIWEEKLY': due.setDate(due.getDate() + i * 14); break;
+                        case 'MONTHLY': due.setMonth(due.getMonth() + i); break;
+                    }
+                    created.push(await api.tasks.create({
+                        id: newId('task'),
+                        title: args.title,
+                        description: args.description || '',
+                        status: TaskStatus.TODO,
+                        priority: Priority.MEDIUM,
+                        dueDate: due.toISOString(),
+                        tags: ['recurring'],
+                        emoji: args.emoji,
+                        color: args.color,
+                    }));
+                }
+                return created;
+            },
+            format: (tasks, args) => `🔁 Scheduled ${tasks.length} × "${args.title}" (${String(args.frequency).toUpperCase()}) starting ${tasks[0]?.dueDate.slice(0, 10)}.`,
+        });
+
+        this.register({
+            name: 'askOperator',
+            validate: requireFields('question'),
+            handler: (args) => `❓ **Question for the operator** [${args.category || 'GENERAL'}]: ${args.question}`,
+        });
+
+        this.register({
+            name: 'sendEmail',
+            risk: 'RISKY',
+            approval: (args) => ({ type: 'EMAIL', title: `Email ${args.to}: "${args.subject}"`, description: 'Sent from the SMTP account configured for trader alerts.' }),
+            validate: requireFields('to', 'subject', 'body'),
+            handler: (args, ctx) => gatewayService.traderRequestAsync({ type: 'TRADER_SEND_EMAIL', to: args.to, subject: args.subject, body: args.body, approvalId: ctx.approvalId }, 30000),
+            format: (res, args) => `📧 Email "${args.subject}" sent to ${res.to}.`,
+        });
+
+        // --- Vault documents ---
+
+        this.register<any, Document>({
+            name: 'generateDocument',
+            validate: requireFields('name', 'content'),
+            handler: async (args) => {
+                const doc: Document = {
+                    id: newId('doc'),
+                    name: args.name,
+                    type: args.type || 'REPORT',
+                    status: 'ACTIVE',
+                    category: args.category,
+                    content: args.content,
+                    lastModified: new Date().toISOString(),
+                    size: args.size || `${Math.max(1, Math.round(args.content.length / 1024))} KB`,
+                    emoji: args.emoji,
+                    color: args.color,
+                };
+                const saved = await api.documents.create(doc);
+                gatewayService.saveFileToServer(saved);
+                return saved;
+            },
+            format: (doc) => `📄 Document stored in the vault: "${doc.name}" [${doc.category || 'MISC'}] (id: ${doc.id})`,
+        });
+
+        this.register<any, Document>({
+            name: 'saveNote',
+            validate: requireFields('content'),
+            handler: async (args) => {
+                const stamp = new Date().toISOString();
+                return api.documents.create({
+                    id: newId('note'),
+                    name: `Note — ${stamp.slice(0, 16).replace('T', ' ')}`,
+                    type: 'OTHER',
+                    status: 'ACTIVE',
+                    content: args.content,
+                    lastModified: stamp,
+                    concepts: args.tags || [],
+                    emoji: args.emoji,
+                    color: args.color,
+                });
+            },
+            format: (note) => `📝 Note saved to the scrapbook (id: ${note.id}).`,
+        });
+
+        this.register<any, { hits: VaultSearchHit[]; docs: Document[] }>({
+            name: 'semanticSearch',
+            risk: 'READ',
+            validate: requireFields('query'),
+            handler: async (args) => {
+                const category = String(args.category || 'ALL').toUpperCase();
+
+                // Prefer the server's vault index (file text, keyword + embeddings)
+                try {
+                    const hits = await gatewayService.searchVault(String(args.query), { category, limit: 8 });
+                    if (hits.length > 0) return { hits, docs: [] };
+                } catch { /* gateway offline — fall back to document metadata */ }
+
+                const docs = await api.documents.list();
+                const words = String(args.query).toLowerCase().split(/\s+/).filter(w => w.length > 2);
+                return {
+                    hits: [],
+                    docs: docs
+                        .filter(d => d.status !== 'TRASHED' && (category === 'ALL' || d.category === category))
+                        .map(d => {
+                            const haystack = `${d.name} ${d.category || ''} ${(d.concepts || []).join(' ')} ${d.content || ''}`.toLowerCase();
+                            return { doc: d, score: words.reduce((s, w) => s + (haystack.includes(w) ? 1 : 0), 0) };
+                        })
+                        .filter(s => s.score > 0)
+                        .sort((a, b) => b.score - a.score)
+                        .slice(0, 8)
+                        .map(s => s.doc),
+                };
+            },
+            format: ({ hits, docs }, args) => {
+                if (hits.length > 0) {
+                    return `🔍 ${hits.length} vault passage(s) matched "${args.query}":\n` + hits.map(h =>
+                        `• ${h.path} [${h.category}] — ${h.snippet}`
+                    ).join('\n');
+                }
+                return docs.length === 0
+                    ? `🔍 No vault documents matched "${args.query}".`
+                    : `🔍 ${docs.length} document(s) matched "${args.query}":\n` + docs.map(d =>
+                        `• ${d.name} [${d.category || 'MISC'}] (id: ${d.id})${d.content ? ` — ${d.content.slice(0, 160).replace(/\s+/g, ' ')}` : ''}`
+                    ).join('\n');
+            },
+        });
+
+        this.register<any, Document>({
+            name: 'deleteDocument',
+            risk: 'RISKY',
+            approval: (args) => ({ type: 'DELETION', title: `Move document ${args.documentId} to the Trash Bin`, description: 'The document is hidden from the vault until restored or permanently deleted.' }),
+            validate: requireFields('documentId'),
+            handler: async (args) => {
+                const doc = await api.documents.get(args.documentId);
+                if (!doc) throw new Error(`document ${args.documentId} not found`);
+                return api.documents.update(doc.id, { status: 'TRASHED' });
+            },
+            format: (doc, args) => `🗑️ Moved "${doc?.name || args.documentId}" to the Trash Bin — the operator must approve permanent deletion.`,
+        });
+
+        // --- Money ---
+
+        this.register<any, Expense>({
+            name: 'logExpense',
+            validate: all(requireFields('vendor'), requireNumber('amount', 0)),
+            handler: async (args) => {
+                const category = String(args.category || 'OTHER').toUpperCase() as ExpenseCategory;
+                return api.expenses.create({
+                    id: newId('exp'),
+                    amount: Number(args.amount),
+                    category,
+                    vendor: args.vendor,
+                    note: args.note || '',
+                    date: args.date || new Date().toISOString(),
+                });
+            },
+            format: (exp) => `💸 Logged $${exp.amount.toFixed(2)} at ${exp.vendor} [${exp.category}].`,
+        });
+
+        this.register({
+            name: 'calculateDepreciation',
+            risk: 'READ',
+            validate: all(requireNumber('purchasePrice', 0), requireNumber('usefulLife', 1), requireOneOf('method', ['STRAIGHT_LINE', 'MACRS'])),
+            handler: (args) => {
+                const price = Number(args.purchasePrice);
+                const life = Math.round(Number(args.usefulLife));
+                const method = String(args.method).toUpperCase();
+                const schedule: number[] = [];
+                if (method === 'STRAIGHT_LINE') {
+                    for (let y = 0; y < life; y++) schedule.push(price / life);
+                } else {
+                    // 200% declining balance, switching to straight-line when it's larger (half-year convention)
+                    let basis = price;
+                    const rate = 2 / life;
+                    for (let y = 0; y <= life; y++) {
+                        const remaining = life - y + 0.5;
+                        const ddb = basis * rate * (y === 0 ? 0.5 : 1);
+                        const sl = remaining > 0 ? basis / remaining : basis;
+                        const amount = Math.min(basis, y === 0 ? ddb : Math.max(ddb, sl));
+                        schedule.push(amount);
+                        basis -= amount;
+                    }
+                }
+                return `🧮 ${method} depreciation of $${price.toLocaleString()} over ${life} years:\n` +
+                    schedule.map((d, i) => `Year ${i + 1}: $${d.toFixed(2)}`).join('\n');
+            },
+        });
+
+        // --- Checklists ---
+
+        this.register<any, Checklist>({
+            name: 'createChecklist',
+            validate: (args) => requireFields('title')(args) || (Array.isArray(args.items) && args.items.length > 0 ? null : '"items" must be a non-empty array'),
+            handler: async (args) => api.checklists.create({
+                id: newId('chk'),
+                title: args.title,
+                category: args.category || 'OTHER',
+                items: args.items.map((text: string) => ({ text: String(text), done: false })),
+                createdAt: new Date().toISOString(),
+                emoji: args.emoji,
+            }),
+            format: (list) => `📋 Checklist "${list.title}" created with ${list.items.length} steps.`,
+        });
+
+        // --- Productivity ---
+
+        this.register({
+            name: 'startTimer',
+            validate: all(requireFields('label'), requireNumber('minutes', 0)),
+            handler: (args) => {
+                const id = newId('timer');
+                const ms = Number(args.minutes) * 60000;
+                this.timers.set(id, setTimeout(() => {
+                    this.timers.delete(id);
+                    activityService.log('TERMINAL', `⏰ Timer done: ${args.label}`);
+                    if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+                        new Notification('⏰ ClawKeep Timer', { body: args.label });
+                    }
+                }, ms));
+                if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+                    Notification.requestPermission().catch(() => { });
+                }
+                return `⏱️ Timer set: "${args.label}" in ${args.minutes} min.`;
+            },
+        });
+
+        this.register({
+            name: 'dailyBriefing',
+            risk: 'READ',
+            handler: async (args) => {
+                const scope = String(args.scope || 'FULL').toUpperCase();
+                const lines: string[] = [`📰 **Briefing** — ${new Date().toLocaleDateString()}`];
+                const now = Date.now();
+
+                if (scope === 'FULL' || scope === 'TASKS' || scope === 'DEADLINES') {
+                    const tasks = (await api.tasks.list()).filter(t => t.status !== TaskStatus.COMPLETED);
+                    const overdue = tasks.filter(t => t.dueDate && new Date(t.dueDate).getTime() < now);
+                    const upcoming = tasks
+                        .filter(t => t.dueDate && new Date(t.dueDate).getTime() >= now)
+                        .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime())
+                        .slice(0, 5);
+                    if (scope !== 'DEADLINES') lines.push(`Open tasks: ${tasks.length}`);
+                    lines.push(`Overdue: ${overdue.length}${overdue.length ? ` — ${overdue.slice(0, 5).map(t => t.title).join(', ')}` : ''}`);
+                    if (upcoming.length) lines.push(`Upcoming: ${upcoming.map(t => `${t.title} (${t.dueDate.slice(0, 10)})`).join(', ')}`);
+                }
+
+                if (scope === 'FULL' || scope === 'AGENTS') {
+                    const agents = await api.agents.list();
+                    const deployed = autonomousAgentService.getDeployedMissions();
+                    lines.push(`Squad: ${agents.length} agents, ${deployed.length} deployed`);
+                    deployed.forEach(m => lines.push(`• ${m.mascot} ${m.name} — ${m.schedule}, ${m.progress}%${m.isRunning ? ' (running)' : ''}`));
+                }
+
+                if (scope === 'FULL') {
+                    lines.push(`Claw status: ${guardrailService.getStatusText()}`);
+                }
+                return lines.join('\n');
+            },
+        });
+
+        this.register({
+            name: 'quickSearch',
+            risk: 'RISKY',
+            approval: (args) => ({ type: 'BROWSER_ACTION', title: `Search the web for "${args.query}"`, description: 'Opens DuckDuckGo in the server browser and reads the results.' }),
+            validate: requireFields('query'),
+            handler: async (args) => {
+                if (!guardrailService.isInternetAllowed()) return '🚫 Internet access is disabled by the operator.';
+                await gatewayService.browserNavigateAsync(`https://html.duckduckgo.com/html/?q=${encodeURIComponent(args.query)}`);
+                const page = await gatewayService.browserExtractAsync();
+                const text = page?.extraction?.text || '';
+                return text ? `🔎 Results for "${args.query}":\n${text.slice(0, 2000)}` : `🔎 No results captured for "${args.query}".`;
+            },
+        });
+
+        this.register({
+            name: 'browseWeb',
+            risk: 'RISKY',
+            approval: (args) => {
+                const action = String(args.action).toUpperCase();
+                const target = args.url || args.target || (action === 'TYPE' ? `"${args.input}"` : args.input) || '';
+                return { type: 'BROWSER_ACTION', title: `Browser ${action}${target ? ` ${target}` : ''}`, description: 'Drives the real browser on the server — watch it in the Live Browser view.' };
+            },
+            validate: requireOneOf('action', ['NAVIGATE', 'SCRAPE', 'CLICK', 'TYPE', 'SCROLL', 'SUBMIT']),
+            handler: async (args) => {
+                if (!guardrailService.isInternetAllowed()) return { action: 'Internet access is disabled by the operator.', status: 'BLOCKED' };
+                switch (String(args.action).toUpperCase()) {
+                    case 'NAVIGATE':
+                        if (!args.url) throw new Error('NAVIGATE requires "url"');
+                        return gatewayService.browserNavigateAsync(args.url);
+                    case 'SCRAPE':
+                        if (args.url) await gatewayService.browserNavigateAsync(args.url);
+                        return gatewayService.browserExtractAsync();
+                    case 'CLICK':
+                        if (!args.target) throw new Error('CLICK requires "target" (a CSS selector)');
+                        return gatewayService.browserClickAsync(args.target);
+                    case 'TYPE':
+                        if (!args.input) throw new Error('TYPE requires "input"');
+                        return gatewayService.browserTypeAsync(args.input);
+                    case 'SCROLL':
+                        return gatewayService.browserScrollAsync(String(args.input).toLowerCase() === 'up' ? 'up' : 'down');
+                    case 'SUBMIT':
+                        return gatewayService.browserKeyAsync('Enter');
+                }
+            },
+            format: (update: any) => {
+                if (!update) return '🌐 No browser response.';
+                const lines = [`🌐 ${update.action || update.status || 'Done'}${update.title ? ` — ${update.title}` : ''}${update.url ? ` (${update.url})` : ''}`];
+                const ex = update.extraction;
+                if (ex) {
+                    if (ex.text) lines.push(`PAGE TEXT:\n${ex.text}`);
+                    if (ex.links?.length) lines.push(`LINKS:\n${ex.links.slice(0, 20).map((l: any) => `• ${l.text} → ${l.href} [${l.selector}]`).join('\n')}`);
+                    if (ex.buttons?.length) lines.push(`BUTTONS:\n${ex.buttons.map((b: any) => `• ${b.text} [${b.selector}]`).join('\n')}`);
+                    if (ex.inputs?.length) lines.push(`INPUTS:\n${ex.inputs.map((i: any) => `• ${i.label || i.placeholder || i.name || i.type} [${i.selector}]`).join('\n')}`);
+                }
+                return lines.join('\n\n').slice(0, BROWSE_RESULT_LIMIT);
+            },
+        });
+
+        this.register({
+            name: 'scheduleAutomation',
+            validate: requireOneOf('action', ['START', 'STOP', 'SET_INTERVAL', 'SET_WINDOW', 'STATUS', 'FORCE_PULSE']),
+            handler: async (args) => {
+                switch (String(args.action).toUpperCase()) {
+                    case 'START': heartbeatService.start(args.intervalMinutes ? Number(args.intervalMinutes) : undefined); break;
+                    case 'STOP': heartbeatService.stop(); break;
+                    case 'SET_INTERVAL': heartbeatService.setInterval(Number(args.intervalMinutes) || 30); break;
+                    case 'SET_WINDOW': heartbeatService.setActiveWindow(Number(args.startHour ?? 9), Number(args.endHour ?? 12)); break;
+                    case 'FORCE_PULSE': return heartbeatService.forcePulse();
+                }
+                const s = heartbeatService.getStatus();
+                return `💓 Heartbeat ${s.config.enabled ? 'ON' : 'OFF'} — every ${s.config.intervalMinutes}min, active ${s.config.activeStartHour}:00–${s.config.activeEndHour}:00 (${s.config.mode}). Pulses: ${s.pulseCount}${s.nextPulse ? `, next ${new Date(s.nextPulse).toLocaleTimeString()}` : ''}.`;
+            },
+        });
+
+        // --- Memory & accountability ---
+
+        this.register({
+            name: 'clawMemory',
+            validate: requireOneOf('action', ['REMEMBER', 'RECALL', 'FORGET', 'FORGET_CATEGORY', 'CONFIDENCE', 'STATUS']),
+            handler: async (args, ctx) => {
+                switch (String(args.action).toUpperCase()) {
+                    case 'REMEMBER':
+                        if (!args.fact) throw new Error('REMEMBER requires "fact"');
+                        return memoryService.remember(args.fact, args.category || 'GENERAL', ctx.caller === 'AGENT' ? `agent:${ctx.agentId}` : 'conversation');
+                    case 'RECALL': {
+                        const found = await memoryService.recall(args.fact || args.category || '');
+                        return found.length === 0
+                            ? 'No matching memories.'
+                            : found.map(m => `• [${m.category}] ${m.fact} (id: ${m.id})`).join('\n');
+                    }
+                    case 'FORGET':
+                        if (!args.memoryId) throw new Error('FORGET requires "memoryId"');
+                        return memoryService.forget(args.memoryId);
+                    case 'FORGET_CATEGORY':
+                        if (!args.category) throw new Error('FORGET_CATEGORY requires "category"');
+                        return memoryService.forgetCategory(args.category);
+                    case 'CONFIDENCE':
+                        if (!args.memoryId || typeof args.confidence !== 'number') throw new Error('CONFIDENCE requires "memoryId" and numeric "confidence"');
+                        return memoryService.setConfidence(args.memoryId, args.confidence);
+                    default: {
+                        const stats = memoryService.getStats();
+                        const merges = memoryService.getMergeSuggestions();
+                        const mergeLines = merges.map(p => `\n  ↔ "${p.a.fact}" (${p.a.id}) ≈ "${p.b.fact}" (${p.b.id}) — ${Math.round(p.similarity * 100)}%`).join('');
+                        return `🧠 ${stats.total} memories — ${Object.entries(stats.categories).map(([c, n]) => `${c}: ${n}`).join(', ') || 'empty'}${merges.length ? `\nPossible duplicates to merge:${mergeLines}` : ''}`;
+                    }
+                }
+            },
+        });
+
+        this.register({
+            name: 'clawCommit',
+            validate: requireOneOf('action', ['COMMIT', 'UPDATE', 'VERIFY', 'LIST']),
+            handler: (args) => {
+                const action = String(args.action).toUpperCase();
+                if (action === 'LIST') return commitmentService.getCommitmentContext();
+                // The commitment ledger isn't tracked in this fork — acknowledge so the model keeps going
+                return `📌 ${action} noted${args.promise ? `: "${args.promise}"` : ''}${args.verificationNote ? ` — ${args.verificationNote}` : ''} (ledger not persisted in this build).`;
+            },
+        });
+
+        // --- Squad management ---
+
+        this.register({
+            name: 'manageAgent',
+            validate: (args) => requireOneOf('action', ['CREATE', 'DIRECT', 'RETIRE', 'DELETE', 'DEPLOY'])(args)
+                || (String(args.action).toUpperCase() !== 'CREATE' && !args.agentId ? `"agentId" is required for ${args.action}` : null)
+                || (String(args.action).toUpperCase() === 'CREATE' && !args.name ? '"name" is required for CREATE' : null),
+            handler: async (args) => {
+                const action = String(args.action).toUpperCase();
+                if (action === 'CREATE') {
+                    const agent: ClawAgent = {
+                        id: newId('agent'),
+                        name: args.name,
+                        mascot: args.mascot || '🐾',
+                        quest: args.quest || '',
+                        status: 'IDLE',
+                        specialty: args.specialty || 'General',
+                        color: args.color || 'emerald',
+                        createdAt: new Date().toISOString(),
+                    };
+                    await api.agents.create(agent);
+                    return `${agent.mascot} Agent "${agent.name}" created (id: ${agent.id}).`;
+                }
+
+                const agent = await api.agents.get(args.agentId);
+                if (!agent) throw new Error(`agent ${args.agentId} not found`);
+
+                switch (action) {
+                    case 'DIRECT':
+                        await api.agents.update(agent.id, { quest: args.quest || agent.quest, lastDirective: args.quest || '' });
+                        return `${agent.mascot} ${agent.name} redirected: "${args.quest || agent.quest}"`;
+                    case 'DEPLOY': {
+                        await api.agents.update(agent.id, { status: 'ON_MISSION' });
+                        return autonomousAgentService.deployAgent(agent.id, agent.name, agent.mascot, args.quest || agent.quest, agent.specialty, args.schedule || 'DAILY');
+                    }
+                    case 'RETIRE':
+                        autonomousAgentService.standDown(agent.id);
+                        await api.agents.update(agent.id, { status: 'RETIRED' });
+                        return `${agent.mascot} ${agent.name} retired.`;
+                    default:
+                        autonomousAgentService.standDown(agent.id);
+                        await api.agents.delete(agent.id);
+                        return `${agent.mascot} ${agent.name} removed from the squad.`;
+                }
+            },
+        });
+
+        this.register<any, Delegation[]>({
+            name: 'delegate',
+            validate: (args) => {
+                if (!Array.isArray(args.assignments) || args.assignments.length === 0) return '"assignments" must be a non-empty array';
+                if (args.assignments.length > MAX_DELEGATIONS) return `at most ${MAX_DELEGATIONS} assignments per call`;
+                const bad = args.assignments.findIndex((a: any) => !a?.directive || !(a.agentId || a.agentName));
+                return bad >= 0 ? `assignment ${bad + 1} needs a directive and an agentId or agentName` : null;
+            },
+            handler: async (args) => {
+                const squad = await api.agents.list();
+                const assignments = args.assignments.map((a: any) => {
+                    const agent = squad.find(x => x.id === a.agentId)
+                        || squad.find(x => x.name.toLowerCase() === String(a.agentName || a.agentId).toLowerCase());
+                    if (!agent) {
+                        throw new Error(`no agent "${a.agentName || a.agentId}" — the squad is: ${squad.map(x => `${x.name} (${x.id})`).join(', ') || 'empty'}`);
+                    }
+                    return { agent, directive: String(a.directive) };
+                });
+                return autonomousAgentService.delegate(assignments);
+            },
+            format: (results) => {
+                const done = results.filter(d => d.status === 'DONE').length;
+                return [`🧭 Delegation results — ${done}/${results.length} completed:`, ...results.map(d => [
+                    `### ${d.mascot} ${d.agentName} — ${d.status}${d.toolsUsed.length ? ` (tools: ${d.toolsUsed.join(', ')})` : ''}`,
+                    `Directive: ${d.directive}`,
+                    d.status === 'DONE' ? d.result : `Error: ${d.error}`,
+                ].join('\n'))].join('\n\n');
+            },
+        });
+
+        this.register({
+            name: 'purgeData',
+            risk: 'RISKY',
+            approval: (args) => ({ type: 'DELETION', title: `Permanently purge ${args.targets.join(', ')}`, description: 'Clears the selected data stores. This cannot be undone.' }),
+            validate: (args) => Array.isArray(args.targets) && args.targets.length > 0 ? null : '"targets" must be a non-empty array',
+            handler: async (args) => {
+                const targets = new Set<string>(args.targets.map((t: string) => String(t).toUpperCase()));
+                const everything = targets.has('ALL');
+                const stores: [string, { save: (items: any[]) => Promise<void> }][] = [
+                    ['AGENTS', api.agents], ['TASKS', api.tasks], ['DOCUMENTS', api.documents],
+                    ['EXPENSES', api.expenses], ['CHAT_HISTORY', api.chat],
+                ];
+                const cleared: string[] = [];
+                for (const [key, store] of stores) {
+                    if (everything || targets.has(key)) {
+                        await store.save([]);
+                        cleared.push(key);
+                    }
+                }
+                if (everything || targets.has('AGENTS')) {
+                    autonomousAgentService.getDeployedMissions().forEach(m => autonomousAgentService.standDown(m.agentId));
+                }
+                return cleared.length ? `🧹 Purged: ${cleared.join(', ')}.` : 'Nothing matched the purge targets.';
+            },
+        });
+
+        // --- Trading (market data is read-only; agents propose trades, Claw's trades need approval) ---
+
+        this.register({
+            name: 'getCandles',
+            risk: 'READ',
+            handler: async (args) => {
+                const { pair, timeframe } = traderTarget(args);
+                const limit = Math.min(Math.max(Math.floor(Number(args.limit) || 30), 1), MAX_AGENT_CANDLES);
+                return gatewayService.traderRequestAsync({ type: 'TRADER_CANDLES', pair, timeframe, limit });
+            },
+            format: (res) => {
+                if (res.error) return `[TRADER] ${res.error}`;
+                const candles: any[] = res.candles || [];
+                if (candles.length === 0) return `🕯️ No ${res.timeframe} candles for ${res.pair}.`;
+                const first = candles[0].o, last = candles[candles.length - 1].c;
+                const change = first ? ((last - first) / first * 100).toFixed(2) : '—';
+                return `🕯️ ${res.pair} ${res.timeframe} — ${candles.length} candles (UTC, O/H/L/C, volume), ${change}% over the window:\n` +
+                    candles.map(c => `${fmtTime(c.t)} O ${fmtNum(c.o)} H ${fmtNum(c.h)} L ${fmtNum(c.l)} C ${fmtNum(c.c)} V ${Math.round(c.v)}`).join('\n');
+            },
+        });
+
+        this.register({
+            name: 'getIndicators',
+            risk: 'READ',
+            handler: (args) => gatewayService.traderRequestAsync({ type: 'TRADER_INDICATORS', ...traderTarget(args) }),
+            format: (ind) => {
+                if (ind.error) return `[TRADER] ${ind.error}`;
+                const emas = Object.entries(ind.emas || {}).map(([k, v]) => `${k.toUpperCase()} ${fmtNum(v)}`).join(' · ');
+                return [
+                    `📈 ${ind.pair} ${ind.timeframe} — price ${fmtNum(ind.price)}`,
+                    `RSI ${fmtNum(ind.rsi?.current)} (${ind.rsi?.zone || '—'}) · ATR ${fmtNum(ind.atr?.current)}${ind.atr?.abnormal ? ' (abnormal)' : ''}`,
+                    `EMAs: ${emas || '—'}`,
+                    `MACD ${fmtNum(ind.macd?.macd)} / signal ${fmtNum(ind.macd?.signal)} / hist ${fmtNum(ind.macd?.histogram)}`,
+                    `Bollinger ${fmtNum(ind.bollinger?.lower)}–${fmtNum(ind.bollinger?.upper)} · Stoch RSI K ${fmtNum(ind.stochRsi?.k)} D ${fmtNum(ind.stochRsi?.d)}`,
+                    `ADX ${fmtNum(ind.adx?.adx)} (+DI ${fmtNum(ind.adx?.plusDI)} / −DI ${fmtNum(ind.adx?.minusDI)}) · SuperTrend ${ind.supertrend?.direction || '—'}`,
+                    `Ichimoku: price ${ind.ichimoku?.cloud || '—'} the cloud · Ladder stage ${ind.ladder?.stage ?? '—'}`,
+                    `Volume profile: VAL ${fmtNum(ind.vp?.val)} · POC ${fmtNum(ind.vp?.poc)} · VAH ${fmtNum(ind.vp?.vah)}`,
+                ].join('\n');
+            },
+        });
+
+        this.register({
+            name: 'evaluateStrategy',
+            risk: 'READ',
+            validate: requireFields('strategyName'),
+            handler: (args) => gatewayService.traderRequestAsync({ type: 'TRADER_EVALUATE', strategyName: args.strategyName, pair: args.pair }),
+            format: (ev, args) => {
+                if (ev.error) return `[TRADER] ${ev.error}`;
+                const entry = (ev.signals || []).some((sig: any) => sig.type === 'entry');
+                const lines = (ev.ruleResults || []).map((r: any) => `${r.passed ? '✅' : '❌'} ${r.label}${r.current ? ` — ${r.current}` : ''}`);
+                const exits = (ev.signals || []).filter((sig: any) => sig.type !== 'entry').map((sig: any) => `⚠️ ${sig.message}`);
+                return [`🧠 ${args.strategyName} on ${ev.pair} (${ev.timeframe}): ${entry ? 'ENTRY SIGNAL' : 'no entry signal'}`, ...lines, ...exits].join('\n');
+            },
+        });
+
+        this.register({
+            name: 'getPositions',
+            risk: 'READ',
+            handler: async () => {
+                const [spot, perps] = await Promise.all([
+                    gatewayService.traderRequestAsync({ type: 'TRADER_GET_POSITIONS', status: 'open' }),
+                    gatewayService.traderRequestAsync({ type: 'TRADER_GET_PERPS' }),
+                ]);
+                return { spot: spot.positions || [], perps: perps.positions || [] };
+            },
+            format: ({ spot, perps }) => {
+                if (spot.length === 0 && perps.length === 0) return '📊 No open positions.';
+                return [
+                    ...spot.map((p: any) => `• ${p.pair} spot — size ${fmtNum(p.size)} @ avg ${fmtNum(p.avgPrice)} since ${fmtTime(p.entryDate)}${p.strategyName ? ` (${p.strategyName})` : ''}`),
+                    ...perps.map((p: any) => `• ${p.market}-PERP ${String(p.side).toUpperCase()} — $${fmtNum(p.sizeUsd)} size, ${p.leverage}x, entry ${fmtNum(p.entryPrice)}, mark ${fmtNum(p.markPrice)}, PnL $${fmtNum(p.pnlUsd)}${p.paper ? ' [PAPER]' : ''}`),
+                ].join('\n');
+            },
+        });
+
+        this.register({
+            name: 'proposeTrade',
+            validate: all(
+                requireFields('action', 'token', 'rationale'),
+                requireOneOf('action', ['BUY', 'SELL', 'LONG', 'SHORT']),
+                requireNumber('amountUsd', 0),
+            ),
+            handler: async (args, ctx) => {
+                const mission = ctx.agentId ? autonomousAgentService.getMissionStatus(ctx.agentId) : null;
+                const res = await gatewayService.traderRequestAsync({
+                    type: 'TRADER_PROPOSE_TRADE',
+                    proposal: { action: args.action, token: args.token, amountUsd: Number(args.amountUsd), leverage: args.leverage, rationale: args.rationale },
+                    agentId: ctx.agentId || null,
+                    agentName: mission ? `${mission.mascot} ${mission.name}` : ctx.caller === 'CLAW' ? 'Claw' : ctx.agentId,
+                });
+                return res.proposal;
+            },
+            format: (p) => `📝 Trade proposal queued for operator approval: ${p.action.toUpperCase()} $${p.amountUsd} ${p.token}${p.leverage ? ` @ ${p.leverage}x` : ''}${p.paper ? ' [PAPER]' : ''} (id: ${p.id}). Nothing is executed until the operator approves it — do not report it as a completed trade.`,
+        });
+
+        this.register({
+            name: 'executeSwap',
+            risk: 'RISKY',
+            approval: (args) => ({
+                type: 'ASSET_COMMIT',
+                title: `Swap ${args.amount} ${String(args.inputToken).toUpperCase()} → ${String(args.outputToken).toUpperCase()}`,
+                description: `Jupiter swap from the trader wallet (paper or live, whichever mode the trader is in), ${args.slippageBps || 50} bps max slippage.`,
+            }),
+            validate: all(requireFields('inputToken', 'outputToken'), requireNumber('amount', 0)),
+            handler: (args, ctx) => gatewayService.traderRequestAsync({
+                type: 'TRADER_SWAP',
+                inputMint: String(args.inputToken).toUpperCase(),
+                outputMint: String(args.outputToken).toUpperCase(),
+                amount: String(args.amount),
+                slippageBps: args.slippageBps ? Number(args.slippageBps) : undefined,
+                approvalId: ctx.approvalId,
+            }, 60000),
+            format: (res, args) => `💱 Swapped ${args.amount} ${String(args.inputToken).toUpperCase()} → ${String(args.outputToken).toUpperCase()}${res.signature ? ` (tx: ${res.signature})` : ''}.`,
+        });
+
+        this.register({
+            name: 'openPerp',
+            risk: 'RISKY',
+            approval: (args) => ({
+                type: 'ASSET_COMMIT',
+                title: `Open ${String(args.side).toUpperCase()} ${perpMarket(args.market)}-PERP — $${args.collateralUsd} × ${args.leverage}x`,
+                description: `Jupiter perpetual funded with ${args.collateralToken || 'SOL'} collateral. Leveraged positions can be liquidated.`,
+            }),
+            validate: all(
+                requireFields('market', 'side'),
+                (args) => ['long', 'short'].includes(String(args.side).toLowerCase()) ? null : '"side" must be long or short',
+                requireNumber('collateralUsd', 1),
+                requireNumber('leverage', 1),
+            ),
+            handler: (args, ctx) => gatewayService.traderRequestAsync({
+                type: 'TRADER_OPEN_PERP',
+                market: perpMarket(args.market),
+                side: String(args.side).toLowerCase(),
+                collateralUsd: Number(args.collateralUsd),
+                leverage: Number(args.leverage),
+                collateralToken: args.collateralToken || 'SOL',
+                approvalId: ctx.approvalId,
+            }, 60000),
+            format: (res, args) => `📈 Opened ${String(args.side).toUpperCase()} ${perpMarket(args.market)}-PERP, $${args.collateralUsd} × ${args.leverage}x${res.signature ? ` (tx: ${res.signature})` : ''}${res.paper ? ' [PAPER]' : ''}.`,
+        });
+
+        // --- UI configuration ---
+        // Custom view configs aren't part of this build (viewConfigService is a stub), so these
+        // fail loudly instead of reporting changes that never happen.
+
+        const viewsUnavailable = () => {
+            throw new Error('Custom views are not available in this build — answer in chat instead');
+        };
+        this.register({ name: 'configureView', handler: viewsUnavailable });
+        this.register({ name: 'createView', handler: viewsUnavailable });
+    }
+}
+
+export const toolRegistryService = new ToolRegistryService();
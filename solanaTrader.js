@@ -4,13 +4,21 @@
  * Handles: wallet gen/import, balance checks, Jupiter swaps,
  * price monitoring, stop-loss/take-profit rule evaluation,
  * technical indicators (ATR, RSI, EMA, AVWAP, VP), and strategy evaluation.
+ * Paper mode routes swaps and perps through a simulated wallet (paperLedger.js).
+ * Every fill is also appended to a per-mode trade ledger (tradeLedger.js) for P&L.
  * 
  * Requires: npm install @solana/web3.js bs58 bip39 ed25519-hd-key
  * (Jupiter API & GeckoTerminal API are REST — no extra SDK needed)
  */
 
 const indicators = require('./indicators');
+const ruleExpressions = require('./ruleExpressions');
 const JupiterPerps = require('./jupiterPerps');
+const backtester = require('./backtester');
+const PaperLedger = require('./paperLedger');
+const TradeLedger = require('./tradeLedger');
+const AlertEngine = require('./alertEngine');
+const { createMarketDataProvider, MARKET_DATA_SOURCES } = require('./marketData');
 
 const crypto = require('crypto');
 const fs = require('fs');
@@ -81,10 +89,98 @@ const TOKEN_MINTS = {
     'ORCA': 'orcaEKTdK7LKz57vaAYr9QeNsVEPfiu6QeMU1kektZE',
 };
 
+// SPL decimals for the mints above — anything else is resolved from the mint account
+const TOKEN_DECIMALS = {
+    [TOKEN_MINTS.SOL]: 9,
+    [TOKEN_MINTS.USDC]: 6,
+    [TOKEN_MINTS.USDT]: 6,
+    [TOKEN_MINTS.JUP]: 6,
+    [TOKEN_MINTS.BONK]: 5,
+    [TOKEN_MINTS.WIF]: 6,
+    [TOKEN_MINTS.JTO]: 9,
+    [TOKEN_MINTS.PYTH]: 6,
+    [TOKEN_MINTS.RAY]: 6,
+    [TOKEN_MINTS.ORCA]: 6,
+};
+
+const RULE_TYPES = ['stop-loss', 'take-profit', 'trailing-stop'];
+const RULE_DEFAULTS = {
+    token: 'SOL',
+    outputToken: 'USDC',
+    type: 'stop-loss',
+    triggerMode: 'price',   // 'price' | 'percent' (stop-loss / take-profit only)
+    triggerPrice: 0,
+    triggerPct: 0,
+    trailPct: 0,
+    entryPrice: null,       // reference for percent triggers
+    highWater: null,        // trailing-stop high-water mark
+    sizePct: 100,           // share of the token balance to sell when triggered
+    cooldownSec: 300,
+    groupId: null,          // one-cancels-other group
+};
+const DCA_CADENCES = ['hourly', 'daily', 'weekly', 'monthly'];
+const DCA_FILTER_INDICATORS = ['rsi'];
+const DCA_HISTORY_LIMIT = 50;
+const DCA_DEFAULTS = {
+    name: '',
+    side: 'buy',            // buy: spend quoteToken for token · sell: token into quoteToken
+    token: 'SOL',
+    quoteToken: 'USDC',
+    amountMode: 'usd',      // 'usd' per run, or 'percent' of the input token balance
+    amount: 0,
+    cadence: 'weekly',
+    hourUtc: 14,
+    weekday: 1,             // weekly: 0 = Sunday
+    dayOfMonth: 1,          // monthly: 1–28
+    minPrice: null,         // optional band on the token price
+    maxPrice: null,
+    filter: null,           // { indicator: 'rsi', op: 'below' | 'above', value, timeframe }
+    totalBudgetUsd: null,   // plan completes once this much has been traded
+};
+// Agent trade proposals wait for operator approval before anything executes
+const PROPOSAL_ACTIONS = ['buy', 'sell', 'long', 'short'];
+const PROPOSAL_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_PENDING_PROPOSALS = 20;
+const PROPOSAL_HISTORY_LIMIT = 50;  // resolved proposals kept for the UI
+const MAX_PROPOSAL_LEVERAGE = 20;
+// Strategies evaluate on a primary timeframe; any rule may pin its own (finest → coarsest)
+const STRATEGY_TIMEFRAMES = ['minute', 'hour', 'day'];
+const DEFAULT_WATCHLIST = ['SOL/USDC'];
+const MINT_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const SOL_FEE_RESERVE = 0.01; // SOL kept back from rule sells so the wallet can still pay fees
+
+// Portfolio snapshots are refreshed at most this often (one stored row per UTC day)
+const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+
 const JUPITER_API = 'https://quote-api.jup.ag/v6';
-const JUPITER_PRICE_API = 'https://api.jup.ag/price/v2';
 const RPC_ENDPOINT = 'https://api.mainnet-beta.solana.com';
-const GECKO_API = 'https://api.geckoterminal.com/api/v2';
+
+// Perps underlyings supported by Jupiter Perps
+const PERP_MARKETS = ['SOL', 'ETH', 'wBTC'];
+
+// Default risk profile for autonomous perps (persisted per user in perps_risk.json)
+const DEFAULT_PERPS_RISK = {
+    leverage: 3,
+    collateralPct: 5,           // % of wallet value committed per entry
+    maxCollateralUsd: 50,
+    minCollateralUsd: 5,
+    takeProfitPct: 20,          // ROI on collateral
+    stopLossPct: 15,            // ROI on collateral (positive number)
+    maxConcurrentPositions: 3,
+    allowedMarkets: ['SOL'],
+    collateralToken: 'SOL',
+};
+
+/**
+ * Contract between evaluateStrategy and the auto-perps loop
+ * @typedef {Object} PerpsSignal
+ * @property {'long'|'short'|'exit'|'none'} action
+ * @property {string} market - perps underlying ('SOL', 'ETH', 'wBTC')
+ * @property {string} pair - pair the strategy was evaluated on
+ * @property {string} strategyName - strategy that produced the signal
+ * @property {string} reason - human-readable trigger description
+ * @property {string} [positionKey] - position to close (exit only)
+ */
 
 // Known pool addresses for common pairs (GeckoTerminal Solana)
 const KNOWN_POOLS = {
@@ -92,6 +188,70 @@ const KNOWN_POOLS = {
     'SOL/USDT': '5bghK4jSW3pKCoKYGSfgBR8bTVKuEgmfkEyJfo9aZMBj',
 };
 
+// Symbols the market data providers know — spot tokens plus the perps underlyings (same mints as jupiterPerps.js)
+const MARKET_DATA_SYMBOLS = {
+    ...TOKEN_MINTS,
+    'ETH': '7vfCXTUXx5WJV5JADk17DUJ4ksgau7utNKj4b963voxs',
+    'wBTC': '3NZ9JMVBmGAqocybic2c7LQCJScmgsAZ6vQqTDzcqmJh',
+};
+// Replay files are read from here inside each user's trader data dir
+const REPLAY_DIR = 'market_data';
+
+// ── Wallet encryption at rest ──────────────────────────────
+// burner_wallet.json holds { version, publicKey, kdf, cipher, iv, tag, ciphertext }.
+// The secret key + mnemonic are sealed with AES-256-GCM under a key derived
+// from the user's passphrase (scrypt); only the public key stays readable so
+// balances can be shown while the wallet is locked.
+const WALLET_FILE_VERSION = 2;
+const WALLET_KDF = { name: 'scrypt', N: 1 << 15, r: 8, p: 1 };
+const MIN_PASSPHRASE_LENGTH = 8;
+const WALLET_AUTO_LOCK_MS = 15 * 60 * 1000;
+
+function deriveWalletKey(passphrase, salt, kdf) {
+    return new Promise((resolve, reject) => {
+        const maxmem = 256 * kdf.N * kdf.r;
+        crypto.scrypt(passphrase, salt, 32, { N: kdf.N, r: kdf.r, p: kdf.p, maxmem }, (err, key) => {
+            if (err) reject(err); else resolve(key);
+        });
+    });
+}
+
+async function sealWallet(payload, passphrase) {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = await deriveWalletKey(passphrase, salt, WALLET_KDF);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]);
+    return {
+        version: WALLET_FILE_VERSION,
+        kdf: { ...WALLET_KDF, salt: salt.toString('base64') },
+        cipher: 'aes-256-gcm',
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        ciphertext: ciphertext.toString('base64'),
+    };
+}
+
+async function openWallet(file, passphrase) {
+    const key = await deriveWalletKey(passphrase, Buffer.from(file.kdf.salt, 'base64'), file.kdf);
+    try {
+        const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+        const plaintext = Buffer.concat([decipher.update(Buffer.from(file.ciphertext, 'base64')), decipher.final()]);
+        return JSON.parse(plaintext.toString('utf8'));
+    } catch (e) {
+        // GCM auth failure — wrong passphrase or tampered file
+        throw new Error('Incorrect passphrase');
+    }
+}
+
+function checkPassphrase(passphrase) {
+    if (typeof passphrase !== 'string' || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`;
+    }
+    return null;
+}
+
 
 
 class SolanaTrader {
@@ -102,25 +262,47 @@ class SolanaTrader {
         this.logPath = path.join(dataDir, 'trade_log.json');
         this.strategiesPath = path.join(dataDir, 'strategies.json');
         this.positionsPath = path.join(dataDir, 'positions.json');
-
-        this.keypair = null;
+        this.paperLogPath = path.join(dataDir, 'paper_trade_log.json');
+        this.settingsPath = path.join(dataDir, 'trader_settings.json');
+        this.perpsRiskPath = path.join(dataDir, 'perps_risk.json');
+        this.perpsOwnersPath = path.join(dataDir, 'perps_owners.json');
+        this.dcaPath = path.join(dataDir, 'dca_plans.json');
+        this.proposalsPath = path.join(dataDir, 'trade_proposals.json');
+
+        this.keypair = null;        // decrypted keypair — only in memory while unlocked
         this.connection = null;
         this.mnemonic = null; // BIP39 seed phrase
+        this.walletPublicKey = null; // base58, readable even while locked
+        this.walletEncrypted = false;
+        this.autoLockMs = WALLET_AUTO_LOCK_MS;
+        this.autoLockTimer = null;
+        this.autoLockAt = null;
         this.rules = [];
         this.tradeLog = [];
+        this.paperTradeLog = [];    // separate history so simulated fills never mix with real ones
+        this.paperMode = false;     // route swaps/perps through the simulated wallet
+        this.paper = null;          // PaperLedger instance (lazy init)
+        this.ledgers = { live: null, paper: null }; // TradeLedger per mode (lazy init)
+        this.decimalsCache = {};    // { mint: decimals } for mints outside TOKEN_DECIMALS
         this.isRunning = false;
         this.monitorInterval = null;
         this.lastCheck = null;
         this.broadcastFn = null; // set by server.js to send WS messages
 
         // Phase 1: Indicator engine
-        this.ohlcvCache = {};       // { 'SOL/USDC_day': { candles, fetchedAt } }
-        this.poolCache = {};        // { tokenMint: poolAddress }
+        this.marketDataConfig = { source: 'live' }; // persisted in trader_settings.json
+        this.marketData = null;     // MarketDataProvider — every price and candle read goes through it
         this.strategies = [];       // saved strategy configs
         this.positions = [];        // active positions with entry tracking
         this.perps = null;          // JupiterPerps instance (lazy init)
         this.keepAlive = false;     // Keep bot running even when WS disconnects
         this.perpsAutoEnabled = false; // Allow autonomous perps trading
+        this.perpsRisk = { ...DEFAULT_PERPS_RISK };
+        this.dcaPlans = [];         // recurring buy/sell plans (dca_plans.json)
+        this.proposals = [];        // agent-suggested trades awaiting approval (trade_proposals.json)
+        this.watchlist = [...DEFAULT_WATCHLIST]; // pairs scanned for strategies that don't list their own
+        this.scanResults = { scannedAt: null, results: [] }; // latest strategy × pair matrix
+        this.perpsOwners = {};      // { 'SOL:long': strategyName } — which strategy opened each auto position (perps_owners.json)
         this.indicatorConfig = {    // default indicator params
             atrPeriod: 14,
             rsiPeriod: 14,
@@ -128,14 +310,42 @@ class SolanaTrader {
             vpBins: 50,
             avwapMajorLookback: 400,
             avwapCurrentLookback: 63,
+            macdFast: 12, macdSlow: 26, macdSignal: 9,
+            bbPeriod: 20, bbStdDev: 2,
+            keltnerPeriod: 20, keltnerAtrPeriod: 10, keltnerMultiplier: 2,
+            stochPeriod: 14, stochK: 3, stochD: 3,
+            supertrendPeriod: 10, supertrendMultiplier: 3,
+            obvEmaPeriod: 20,
+            adxPeriod: 14,
         };
 
         // Load saved state
         this._loadWallet();
         this._loadRules();
+        this._loadSettings();
         this._loadLog();
         this._loadStrategies();
+        this._loadPerpsRisk();
+        this._loadPerpsOwners();
         this._loadPositions();
+        this._loadDcaPlans();
+        this._loadProposals();
+        try {
+            this.marketData = this._createMarketData(this.marketDataConfig);
+        } catch (e) {
+            console.error('[SolanaTrader] Market data setup failed, using live:', e.message);
+            this.marketData = this._createMarketData({ source: 'live' });
+        }
+        this.alerts = new AlertEngine(dataDir, {
+            getPrice: (symbol) => this.marketData.getPrice(MARKET_DATA_SYMBOLS[symbol] || this._ruleMint(symbol)),
+            getCandles: (pair, timeframe, limit) => this.getCandles(pair, timeframe, limit),
+            getIndicators: (pair, timeframe) => this.getIndicators(pair, timeframe),
+            getPerpPositions: () => this.getPerps(),
+            isKnownToken: (token) => !!this._ruleMint(token),
+            indicatorConfig: this.indicatorConfig,
+            broadcast: (msg) => { if (this.broadcastFn) this.broadcastFn(msg); },
+            log: (entry) => this._log(entry),
+        });
     }
 
     // --- Wallet Management ---
@@ -143,60 +353,97 @@ class SolanaTrader {
     _loadWallet() {
         try {
             if (fs.existsSync(this.walletPath)) {
-                if (!loadSolanaDeps()) return;
                 const data = JSON.parse(fs.readFileSync(this.walletPath, 'utf8'));
+                if (data.ciphertext) {
+                    // Encrypted wallets load locked — TRADER_UNLOCK decrypts into memory
+                    this.walletPublicKey = data.publicKey;
+                    this.walletEncrypted = true;
+                    console.log(`[SolanaTrader] Loaded encrypted wallet (locked): ${data.publicKey}`);
+                    return;
+                }
+                if (!loadSolanaDeps()) return;
                 this.keypair = Keypair.fromSecretKey(Uint8Array.from(data.secretKey));
                 if (data.mnemonic) this.mnemonic = data.mnemonic;
-                console.log(`[SolanaTrader] Loaded wallet: ${this.keypair.publicKey.toBase58()}`);
+                this.walletPublicKey = this.keypair.publicKey.toBase58();
+                this.walletEncrypted = false;
+                console.warn(`[SolanaTrader] Wallet ${this.walletPublicKey} is stored in plaintext — set a passphrase to encrypt it`);
             }
         } catch (e) {
             console.error('[SolanaTrader] Failed to load wallet:', e.message);
         }
     }
 
-    _saveWallet() {
+    async _saveWallet(passphrase) {
         if (!this.keypair) return;
-        const data = {
+        const file = await sealWallet({
             secretKey: Array.from(this.keypair.secretKey),
             mnemonic: this.mnemonic || null,
-        };
-        fs.writeFileSync(this.walletPath, JSON.stringify(data));
+        }, passphrase);
+        file.publicKey = this.keypair.publicKey.toBase58();
+        // Write-then-rename so a crash never leaves a half-written (or plaintext) wallet behind
+        const tmpPath = `${this.walletPath}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify(file), { mode: 0o600 });
+        fs.renameSync(tmpPath, this.walletPath);
+        this.walletPublicKey = file.publicKey;
+        this.walletEncrypted = true;
     }
 
-    generateWallet() {
+    async _readSealedWallet(passphrase) {
+        const file = JSON.parse(fs.readFileSync(this.walletPath, 'utf8'));
+        if (!file.ciphertext) throw new Error('Wallet is not encrypted');
+        return openWallet(file, passphrase);
+    }
+
+    // Swap in a freshly generated/imported keypair and persist it encrypted
+    async _adoptWallet(keypair, mnemonic, passphrase) {
+        this.keypair = keypair;
+        this.mnemonic = mnemonic;
+        this.perps = null; // JupiterPerps holds the previous keypair
+        await this._saveWallet(passphrase);
+        this._armAutoLock();
+        return this.keypair.publicKey.toBase58();
+    }
+
+    async generateWallet(passphrase) {
         if (!loadSolanaDeps()) return { error: 'Solana dependencies not installed' };
+        const invalid = checkPassphrase(passphrase);
+        if (invalid) return { error: invalid };
 
         // Try BIP39 mnemonic generation if deps available
         if (loadBip39Deps()) {
             const mnemonic = bip39.generateMnemonic();
             const seed = bip39.mnemonicToSeedSync(mnemonic);
             const derived = derivePath("m/44'/501'/0'/0'", seed.toString('hex'));
-            this.keypair = Keypair.fromSeed(derived.key);
-            this.mnemonic = mnemonic;
-            this._saveWallet();
-            console.log(`[SolanaTrader] Generated wallet (BIP39): ${this.keypair.publicKey.toBase58()}`);
-            return { publicKey: this.keypair.publicKey.toBase58(), mnemonic };
+            const publicKey = await this._adoptWallet(Keypair.fromSeed(derived.key), mnemonic, passphrase);
+            console.log(`[SolanaTrader] Generated wallet (BIP39): ${publicKey}`);
+            return { publicKey, mnemonic };
         }
 
         // Fallback: generate without mnemonic
-        this.keypair = Keypair.generate();
-        this.mnemonic = null;
-        this._saveWallet();
-        console.log(`[SolanaTrader] Generated wallet: ${this.keypair.publicKey.toBase58()}`);
-        return { publicKey: this.keypair.publicKey.toBase58() };
+        const publicKey = await this._adoptWallet(Keypair.generate(), null, passphrase);
+        console.log(`[SolanaTrader] Generated wallet: ${publicKey}`);
+        return { publicKey };
     }
 
     resetWallet() {
         this.stop(); // stop bot if running
+        this._clearAutoLock();
         this.keypair = null;
         this.mnemonic = null;
+        this.perps = null;
+        this.walletPublicKey = null;
+        this.walletEncrypted = false;
         try { if (fs.existsSync(this.walletPath)) fs.unlinkSync(this.walletPath); } catch (e) { }
         console.log('[SolanaTrader] Wallet reset');
         return { ok: true };
     }
 
-    importKey(keyInput) {
+    async importKey(keyInput, passphrase) {
         if (!loadSolanaDeps()) return { error: 'Solana dependencies not installed' };
+        const invalid = checkPassphrase(passphrase);
+        if (invalid) return { error: invalid };
+
+        let keypair, mnemonic = null;
         try {
             const trimmed = keyInput.trim();
 
@@ -207,30 +454,105 @@ class SolanaTrader {
 
                 const seed = bip39.mnemonicToSeedSync(trimmed);
                 const derived = derivePath("m/44'/501'/0'/0'", seed.toString('hex'));
-                this.keypair = Keypair.fromSeed(derived.key);
-                this.mnemonic = trimmed;
-                this._saveWallet();
-                console.log(`[SolanaTrader] Imported wallet from seed phrase: ${this.keypair.publicKey.toBase58()}`);
-                return { publicKey: this.keypair.publicKey.toBase58() };
+                keypair = Keypair.fromSeed(derived.key);
+                mnemonic = trimmed;
+            } else {
+                // Otherwise treat as base58 private key
+                keypair = Keypair.fromSecretKey(bs58Decode(trimmed));
             }
-
-            // Otherwise treat as base58 private key
-            const decoded = bs58Decode(trimmed);
-            this.keypair = Keypair.fromSecretKey(decoded);
-            this.mnemonic = null;
-            this._saveWallet();
-            console.log(`[SolanaTrader] Imported wallet from private key: ${this.keypair.publicKey.toBase58()}`);
-            return { publicKey: this.keypair.publicKey.toBase58() };
         } catch (e) {
             return { error: `Invalid key: ${e.message}` };
         }
+
+        const publicKey = await this._adoptWallet(keypair, mnemonic, passphrase);
+        console.log(`[SolanaTrader] Imported wallet from ${mnemonic ? 'seed phrase' : 'private key'}: ${publicKey}`);
+        return { publicKey };
+    }
+
+    // Re-encrypt a legacy plaintext burner_wallet.json under a new passphrase
+    async encryptWallet(passphrase) {
+        if (this.walletEncrypted) return { error: 'Wallet is already encrypted' };
+        if (!this.keypair) return { error: 'No wallet' };
+        const invalid = checkPassphrase(passphrase);
+        if (invalid) return { error: invalid };
+
+        await this._saveWallet(passphrase);
+        this._armAutoLock();
+        this._log({ type: 'system', message: 'Wallet encrypted with passphrase' });
+        return { publicKey: this.walletPublicKey, autoLockAt: this.autoLockAt };
+    }
+
+    async unlock(passphrase) {
+        if (!this.walletPublicKey) return { error: 'No wallet' };
+        if (!this.walletEncrypted) return { error: 'Wallet is not encrypted — set a passphrase first' };
+        if (!loadSolanaDeps()) return { error: 'Solana dependencies not installed' };
+
+        let payload;
+        try {
+            payload = await this._readSealedWallet(passphrase || '');
+        } catch (e) {
+            return { error: e.message };
+        }
+        this.keypair = Keypair.fromSecretKey(Uint8Array.from(payload.secretKey));
+        this.mnemonic = payload.mnemonic || null;
+        this.perps = null;
+        this._armAutoLock();
+        this._log({ type: 'system', message: 'Wallet unlocked' });
+        return { publicKey: this.walletPublicKey, autoLockAt: this.autoLockAt };
+    }
+
+    // Drop the decrypted keypair from memory. A live bot can't sign without it, so it stops too.
+    lock(reason = 'manual') {
+        if (!this.walletEncrypted) return { error: 'Wallet is not encrypted — set a passphrase first' };
+        this._clearAutoLock();
+        if (!this.keypair) return { ok: true };
+        if (this.isRunning && !this.paperMode) this.stop();
+        this.keypair = null;
+        this.mnemonic = null;
+        this.perps = null;
+        this._log({ type: 'system', message: reason === 'idle' ? 'Wallet auto-locked after inactivity' : 'Wallet locked' });
+        if (this.broadcastFn) this.broadcastFn({ type: 'TRADER_LOCKED', reason });
+        return { ok: true };
+    }
+
+    _armAutoLock() {
+        this._clearAutoLock();
+        if (!this.walletEncrypted || !this.keypair) return;
+        this.autoLockAt = Date.now() + this.autoLockMs;
+        this.autoLockTimer = setTimeout(() => {
+            // A live bot signing on every tick isn't idle — keep the key until it stops
+            if (this.isRunning && !this.paperMode) { this._armAutoLock(); return; }
+            this.lock('idle');
+        }, this.autoLockMs);
+        if (this.autoLockTimer.unref) this.autoLockTimer.unref();
     }
 
-    exportKey() {
-        if (!this.keypair || !loadSolanaDeps()) return { error: 'No wallet' };
+    _clearAutoLock() {
+        if (this.autoLockTimer) clearTimeout(this.autoLockTimer);
+        this.autoLockTimer = null;
+        this.autoLockAt = null;
+    }
+
+    _noKeyError() {
+        return this.walletPublicKey ? 'Wallet is locked — unlock it with your passphrase' : 'No wallet configured';
+    }
+
+    // Export always re-derives from the passphrase, even while unlocked
+    async exportKey(passphrase) {
+        if (!this.walletPublicKey || !loadSolanaDeps()) return { error: 'No wallet' };
+        if (!this.walletEncrypted) return { error: 'Set a wallet passphrase before exporting the key' };
+        if (!passphrase) return { error: 'Confirm your passphrase to export the key' };
+
+        let payload;
+        try {
+            payload = await this._readSealedWallet(passphrase);
+        } catch (e) {
+            return { error: e.message };
+        }
+        this._log({ type: 'system', message: 'Private key exported' });
         return {
-            secretKey: bs58Encode(this.keypair.secretKey),
-            mnemonic: this.mnemonic || null,
+            secretKey: bs58Encode(Uint8Array.from(payload.secretKey)),
+            mnemonic: payload.mnemonic || null,
         };
     }
 
@@ -243,11 +565,12 @@ class SolanaTrader {
     }
 
     async getBalance() {
-        if (!this.keypair) return 0;
+        if (this.paperMode) return this._getPaper().getBalance('SOL');
+        if (!this.walletPublicKey) return 0;
         const conn = this._getConnection();
         if (!conn) return 0;
         try {
-            const lamports = await conn.getBalance(this.keypair.publicKey);
+            const lamports = await conn.getBalance(new PublicKey(this.walletPublicKey));
             return lamports / LAMPORTS_PER_SOL;
         } catch (e) {
             console.error('[SolanaTrader] Balance error:', e.message);
@@ -257,13 +580,14 @@ class SolanaTrader {
 
     // Get USDC SPL token balance
     async getUsdcBalance() {
-        if (!this.keypair) return 0;
+        if (this.paperMode) return this._getPaper().getBalance('USDC');
+        if (!this.walletPublicKey) return 0;
         const conn = this._getConnection();
         if (!conn) return 0;
         try {
             const usdcMint = new PublicKey(TOKEN_MINTS['USDC']);
             const tokenAccounts = await conn.getTokenAccountsByOwner(
-                this.keypair.publicKey,
+                new PublicKey(this.walletPublicKey),
                 { mint: usdcMint }
             );
             if (tokenAccounts.value.length === 0) return 0;
@@ -278,26 +602,22 @@ class SolanaTrader {
         }
     }
 
-    // Get current SOL price in USD via Jupiter Price API
+    // Get current SOL price in USD from the market data provider
     async getSolPrice() {
-        try {
-            const resp = await fetch(`${JUPITER_PRICE_API}?ids=${TOKEN_MINTS['SOL']}`);
-            if (!resp.ok) return 0;
-            const json = await resp.json();
-            const price = json.data?.[TOKEN_MINTS['SOL']]?.price;
-            return price ? parseFloat(price) : 0;
-        } catch (e) {
-            console.error('[SolanaTrader] SOL price error:', e.message);
-            return 0;
-        }
+        return (await this.marketData.getPrice(TOKEN_MINTS['SOL'])) || 0;
     }
 
     // --- Rules Management ---
+    //
+    // A rule sells `sizePct` of `token` into `outputToken` when its trigger fires:
+    //   stop-loss / take-profit   triggerMode 'price' (triggerPrice) or 'percent' (triggerPct from entryPrice)
+    //   trailing-stop             price falls trailPct below the high-water mark seen since arming
+    // Rules sharing a groupId are one-cancels-other; cooldownSec spaces out re-fires and retries.
 
     _loadRules() {
         try {
             if (fs.existsSync(this.rulesPath)) {
-                this.rules = JSON.parse(fs.readFileSync(this.rulesPath, 'utf8'));
+                this.rules = JSON.parse(fs.readFileSync(this.rulesPath, 'utf8')).map(r => this._upgradeRule(r));
             }
         } catch (e) {
             this.rules = [];
@@ -308,20 +628,107 @@ class SolanaTrader {
         fs.writeFileSync(this.rulesPath, JSON.stringify(this.rules, null, 2));
     }
 
-    addRule(rule) {
+    // Rules saved before trigger modes existed only had triggerPrice + sell-all/sell-half
+    _upgradeRule(rule) {
+        if (rule.sizePct !== undefined) return rule;
+        const { action, ...rest } = rule;
+        return {
+            ...RULE_DEFAULTS,
+            ...rest,
+            triggerMode: 'price',
+            sizePct: action === 'sell-half' ? 50 : 100,
+        };
+    }
+
+    _ruleMint(token) {
+        return TOKEN_MINTS[token] || (MINT_PATTERN.test(token) ? token : null);
+    }
+
+    /**
+     * Validate and fill a rule from user input, merged over an existing rule when editing
+     * @returns {Promise<Object>} the rule, or { error }
+     */
+    async _buildRule(input, existing = null) {
+        const rule = { ...RULE_DEFAULTS, ...(existing || {}), ...input };
+        rule.token = String(rule.token || '').trim();
+        rule.outputToken = String(rule.outputToken || '').trim();
+        if (!this._ruleMint(rule.token)) return { error: `Unknown token: ${rule.token}` };
+        if (!this._ruleMint(rule.outputToken)) return { error: `Unknown output token: ${rule.outputToken}` };
+        if (rule.token === rule.outputToken) return { error: 'Token and output token must differ' };
+        if (!RULE_TYPES.includes(rule.type)) return { error: `Unknown rule type: ${rule.type}` };
+
+        rule.sizePct = Number(rule.sizePct);
+        if (!(rule.sizePct > 0 && rule.sizePct <= 100)) return { error: 'Size must be between 1% and 100%' };
+        rule.cooldownSec = Math.max(0, Number(rule.cooldownSec) || 0);
+
+        // Percent and trailing triggers need a reference price — default to the current price
+        const needsReference = rule.type === 'trailing-stop' || rule.triggerMode === 'percent';
+        const tokenChanged = existing && existing.token !== rule.token;
+        let price = null;
+        if (needsReference && (!rule.entryPrice || tokenChanged || (rule.type === 'trailing-stop' && !rule.highWater))) {
+            const mint = this._ruleMint(rule.token);
+            price = (await this._getPricesByMint([mint]))[mint] ?? null;
+            if (!price) return { error: `No price available for ${rule.token}` };
+        }
+
+        if (rule.type === 'trailing-stop') {
+            rule.trailPct = Number(rule.trailPct);
+            if (!(rule.trailPct > 0 && rule.trailPct < 100)) return { error: 'Trail must be between 0% and 100%' };
+            if (price) rule.highWater = price;
+            if (!rule.entryPrice || tokenChanged) rule.entryPrice = price;
+        } else if (rule.triggerMode === 'percent') {
+            rule.triggerPct = Number(rule.triggerPct);
+            if (!(rule.triggerPct > 0)) return { error: 'Trigger percent must be positive' };
+            if (rule.type === 'stop-loss' && rule.triggerPct >= 100) return { error: 'Stop-loss percent must be below 100%' };
+            if (input.entryPrice !== undefined) rule.entryPrice = Number(input.entryPrice);
+            else if (price) rule.entryPrice = price;
+        } else {
+            rule.triggerMode = 'price';
+            rule.triggerPrice = Number(rule.triggerPrice);
+            if (!(rule.triggerPrice > 0)) return { error: 'Trigger price must be positive' };
+        }
+        return rule;
+    }
+
+    // Put `rule` in the same OCO group as `partnerId` (creating the group if needed)
+    _linkOco(rule, partnerId) {
+        const partner = this.rules.find(r => r.id === partnerId);
+        if (!partner) return;
+        if (!partner.groupId) partner.groupId = crypto.randomUUID().slice(0, 8);
+        rule.groupId = partner.groupId;
+    }
+
+    async addRule(input) {
+        const rule = await this._buildRule(input);
+        if (rule.error) return rule;
+        const { ocoWith, ...fields } = rule;
         const newRule = {
+            ...fields,
             id: crypto.randomUUID(),
-            token: rule.token || 'SOL',
-            type: rule.type || 'stop-loss',
-            triggerPrice: rule.triggerPrice || 0,
-            action: rule.action || 'sell-all',
-            outputToken: rule.outputToken || 'USDC',
+            groupId: null,
+            lastTriggeredAt: null,
+            triggerCount: 0,
             active: true,
             createdAt: new Date().toISOString(),
         };
+        if (ocoWith) this._linkOco(newRule, ocoWith);
         this.rules.push(newRule);
         this._saveRules();
-        return newRule;
+        return { rule: newRule };
+    }
+
+    async updateRule(ruleId, patch) {
+        const idx = this.rules.findIndex(r => r.id === ruleId);
+        if (idx < 0) return { error: 'Rule not found' };
+        const { id, createdAt, triggerCount, lastTriggeredAt, ...editable } = patch || {};
+        const rule = await this._buildRule(editable, this.rules[idx]);
+        if (rule.error) return rule;
+        const { ocoWith, ...fields } = rule;
+        if (ocoWith === '') fields.groupId = null;
+        else if (ocoWith) this._linkOco(fields, ocoWith);
+        this.rules[idx] = fields;
+        this._saveRules();
+        return { rule: fields };
     }
 
     removeRule(ruleId) {
@@ -339,6 +746,118 @@ class SolanaTrader {
         return ruleId;
     }
 
+    /**
+     * Spendable raw balance of a mint — SOL keeps a reserve for transaction fees
+     * @returns {Promise<number>}
+     */
+    async _getRawTokenBalance(mint) {
+        if (this.paperMode) return this._getPaper().getRawBalance(mint);
+        if (!this.walletPublicKey) return 0;
+        if (mint === TOKEN_MINTS.SOL) {
+            const sol = await this.getBalance();
+            return Math.max(0, this._toLamports(sol - SOL_FEE_RESERVE));
+        }
+        const conn = this._getConnection();
+        if (!conn) return 0;
+        try {
+            const res = await conn.getParsedTokenAccountsByOwner(new PublicKey(this.walletPublicKey), { mint: new PublicKey(mint) });
+            return res.value.reduce((sum, acc) => sum + Number(acc.account.data.parsed.info.tokenAmount.amount), 0);
+        } catch (e) {
+            console.error(`[SolanaTrader] Token balance error for ${mint}:`, e.message);
+            return 0;
+        }
+    }
+
+    /**
+     * Which trigger (if any) a rule hits at `price`. Trailing stops ratchet their
+     * high-water mark as a side effect.
+     * @returns {string|null} human-readable trigger description
+     */
+    _checkRuleTrigger(rule, price) {
+        if (rule.type === 'trailing-stop') {
+            if (price > (rule.highWater || 0)) {
+                rule.highWater = price;
+                this._rulesDirty = true;
+            }
+            const stop = rule.highWater * (1 - rule.trailPct / 100);
+            return price <= stop ? `${rule.trailPct}% below high $${rule.highWater}` : null;
+        }
+        const level = rule.triggerMode === 'percent'
+            ? rule.entryPrice * (rule.type === 'stop-loss' ? 1 - rule.triggerPct / 100 : 1 + rule.triggerPct / 100)
+            : rule.triggerPrice;
+        const label = rule.triggerMode === 'percent'
+            ? `${rule.type === 'stop-loss' ? '-' : '+'}${rule.triggerPct}% from $${rule.entryPrice}`
+            : `$${rule.triggerPrice}`;
+        if (rule.type === 'stop-loss' && price <= level) return label;
+        if (rule.type === 'take-profit' && price >= level) return label;
+        return null;
+    }
+
+    async _evaluateRules() {
+        const activeRules = this.rules.filter(r => r.active);
+        if (activeRules.length === 0) return;
+
+        const mints = [...new Set(activeRules.map(r => this._ruleMint(r.token)).filter(Boolean))];
+        const prices = await this._getPricesByMint(mints);
+        const now = Date.now();
+        this._rulesDirty = false;
+
+        for (const rule of activeRules) {
+            if (!rule.active) continue; // cancelled by an OCO sibling earlier in this pass
+            const inputMint = this._ruleMint(rule.token);
+            const outputMint = this._ruleMint(rule.outputToken);
+            const price = prices[inputMint];
+            if (!inputMint || !outputMint || price === undefined) continue;
+
+            const trigger = this._checkRuleTrigger(rule, price);
+            if (!trigger) continue;
+            if (rule.lastTriggeredAt && now - Date.parse(rule.lastTriggeredAt) < rule.cooldownSec * 1000) continue;
+
+            this._log({
+                type: 'rule_trigger',
+                message: `${rule.type.toUpperCase()} triggered: ${rule.token} @ $${price} (${trigger}) — selling ${rule.sizePct}%`,
+            });
+            rule.lastTriggeredAt = new Date().toISOString();
+            this._rulesDirty = true;
+
+            const amount = Math.floor((await this._getRawTokenBalance(inputMint)) * rule.sizePct / 100);
+            if (amount <= 0) {
+                this._log({ type: 'error', message: `Rule ${rule.type} on ${rule.token}: nothing to sell` });
+                continue;
+            }
+
+            const result = await this.swap(inputMint, outputMint, amount, 50, `rule:${rule.type}`);
+            if (result.error) {
+                this._log({ type: 'error', message: `Auto-swap failed: ${result.error}` });
+                continue;
+            }
+
+            rule.triggerCount = (rule.triggerCount || 0) + 1;
+            if (rule.sizePct >= 100) rule.active = false;
+            else if (rule.type === 'trailing-stop') rule.highWater = price; // re-arm from here for the next slice
+            if (rule.groupId) {
+                for (const sibling of this.rules) {
+                    if (sibling.groupId === rule.groupId && sibling.id !== rule.id && sibling.active) {
+                        sibling.active = false;
+                        this._log({ type: 'system', message: `OCO: cancelled ${sibling.type} on ${sibling.token}` });
+                    }
+                }
+            }
+
+            if (this.broadcastFn) {
+                this.broadcastFn({
+                    type: 'TRADER_SWAP_RESULT',
+                    ...result,
+                });
+            }
+        }
+
+        if (this._rulesDirty) {
+            this._saveRules();
+            if (this.broadcastFn) this.broadcastFn({ type: 'TRADER_RULES', rules: this.rules });
+        }
+    }
+
     // --- Trade Log ---
 
     _loadLog() {
@@ -349,21 +868,34 @@ class SolanaTrader {
         } catch (e) {
             this.tradeLog = [];
         }
+        try {
+            if (fs.existsSync(this.paperLogPath)) {
+                this.paperTradeLog = JSON.parse(fs.readFileSync(this.paperLogPath, 'utf8'));
+            }
+        } catch (e) {
+            this.paperTradeLog = [];
+        }
     }
 
     _saveLog() {
         // Keep last 200 entries
-        this.tradeLog = this.tradeLog.slice(0, 200);
-        fs.writeFileSync(this.logPath, JSON.stringify(this.tradeLog, null, 2));
+        if (this.paperMode) {
+            this.paperTradeLog = this.paperTradeLog.slice(0, 200);
+            fs.writeFileSync(this.paperLogPath, JSON.stringify(this.paperTradeLog, null, 2));
+        } else {
+            this.tradeLog = this.tradeLog.slice(0, 200);
+            fs.writeFileSync(this.logPath, JSON.stringify(this.tradeLog, null, 2));
+        }
     }
 
     _log(entry) {
         const logEntry = {
             id: crypto.randomUUID(),
             ...entry,
+            ...(this.paperMode ? { paper: true } : {}),
             timestamp: new Date().toISOString(),
         };
-        this.tradeLog.unshift(logEntry);
+        this.getTradeLog().unshift(logEntry);
         this._saveLog();
 
         // Broadcast to frontend
@@ -373,24 +905,350 @@ class SolanaTrader {
         return logEntry;
     }
 
+    /**
+     * Trade log for the active mode (paper or live)
+     * @returns {Array}
+     */
+    getTradeLog() {
+        return this.paperMode ? this.paperTradeLog : this.tradeLog;
+    }
+
+    // --- Paper Trading ---
+
+    _loadSettings() {
+        try {
+            if (fs.existsSync(this.settingsPath)) {
+                const settings = JSON.parse(fs.readFileSync(this.settingsPath, 'utf8'));
+                this.paperMode = !!settings.paperMode;
+                if (settings.marketData) this.marketDataConfig = settings.marketData;
+                if (Array.isArray(settings.watchlist) && settings.watchlist.length > 0) this.watchlist = settings.watchlist;
+            }
+        } catch (e) {
+            console.error('[SolanaTrader] Failed to load settings:', e.message);
+        }
+    }
+
+    _saveSettings() {
+        try {
+            fs.writeFileSync(this.settingsPath, JSON.stringify({ paperMode: this.paperMode, marketData: this.marketDataConfig, watchlist: this.watchlist }, null, 2));
+        } catch (e) {
+            console.error('[SolanaTrader] Failed to save settings:', e.message);
+        }
+    }
+
+    _getPaper() {
+        if (!this.paper) {
+            this.paper = new PaperLedger(this.dataDir, {
+                tokenMints: TOKEN_MINTS,
+                tokenDecimals: TOKEN_DECIMALS,
+                jupiterApi: JUPITER_API,
+                marketData: this.marketData,
+            });
+        }
+        return this.paper;
+    }
+
+    /**
+     * Switch between paper and live trading. Refused while the bot is running
+     * so a single session never mixes simulated and real fills.
+     * @param {boolean} enabled
+     * @param {{ slippageBps?: number, reset?: boolean, sol?: number, usdc?: number }} options
+     */
+    setPaperMode(enabled, options = {}) {
+        if (this.isRunning && !!enabled !== this.paperMode) {
+            return { error: 'Stop the bot before switching between paper and live trading' };
+        }
+        this.paperMode = !!enabled;
+        this._saveSettings();
+
+        const paper = this._getPaper();
+        if (options.reset) paper.reset({ sol: options.sol, usdc: options.usdc });
+        if (options.slippageBps !== undefined) paper.setSlippage(options.slippageBps);
+
+        this._log({ type: 'system', message: `Trading mode: ${this.paperMode ? 'PAPER (simulated wallet)' : 'LIVE'}` });
+        return { paperMode: this.paperMode, paper: paper.getSummary() };
+    }
+
+    // --- Market Data Source ---
+
+    /**
+     * Build a provider from settings; replay files are confined to this user's market_data dir
+     * @returns {MarketDataProvider}
+     */
+    _createMarketData(config) {
+        const deps = { tokenMints: MARKET_DATA_SYMBOLS, knownPools: KNOWN_POOLS };
+        if (config.source !== 'replay') return createMarketDataProvider(config, deps);
+        const root = path.join(this.dataDir, REPLAY_DIR);
+        const dir = path.resolve(root, config.dir || '');
+        if (dir !== root && !dir.startsWith(root + path.sep)) throw new Error('Replay directory must be inside market_data');
+        fs.mkdirSync(dir, { recursive: true });
+        return createMarketDataProvider({ ...config, dir }, deps);
+    }
+
+    _offlineDataError() {
+        return `Market data source is ${this.marketData.source} — switch back to live data or use paper mode to trade`;
+    }
+
+    getMarketDataSource() {
+        return { marketData: this.marketData.describe(), sources: MARKET_DATA_SOURCES };
+    }
+
+    /**
+     * Switch where prices and candles come from. Refused while the bot is running,
+     * like paper mode, so one session never evaluates against two markets.
+     * @param {{ source: string, dir?: string, startAt?: number, speed?: number, seed?: string, dailyVolPct?: number }} config
+     */
+    setMarketDataSource(config = {}) {
+        if (!MARKET_DATA_SOURCES.includes(config.source)) return { error: `Unknown market data source: ${config.source}` };
+        if (this.isRunning) return { error: 'Stop the bot before changing the market data source' };
+
+        const { source, dir, startAt, speed, seed, dailyVolPct } = config;
+        const settings = { source, dir, startAt, speed, seed, dailyVolPct };
+        let provider;
+        try {
+            provider = this._createMarketData(settings);
+        } catch (e) {
+            return { error: `Could not start the ${source} data source: ${e.message}` };
+        }
+        this.marketData = provider;
+        this.marketDataConfig = settings;
+        if (this.paper) this.paper.marketData = provider;
+        this._saveSettings();
+
+        this._log({ type: 'system', message: `Market data: ${source.toUpperCase()}${source === 'live' ? '' : ' (live trading blocked)'}` });
+        return this.getMarketDataSource();
+    }
+
+    _toLamports(sol) {
+        // LAMPORTS_PER_SOL is only set once web3 is loaded — paper mode may run without it
+        return Math.floor(sol * (LAMPORTS_PER_SOL || 1e9));
+    }
+
+    // --- Trade Ledger ---
+
+    /**
+     * Ledger for the active mode — paper fills never land in the live books
+     * @returns {TradeLedger}
+     */
+    _getLedger() {
+        const mode = this.paperMode ? 'paper' : 'live';
+        if (!this.ledgers[mode]) {
+            this.ledgers[mode] = new TradeLedger(this.dataDir, {
+                prefix: this.paperMode ? 'paper' : '',
+                symbolFor: (mint) => this._symbolFor(mint),
+            });
+        }
+        return this.ledgers[mode];
+    }
+
+    _symbolFor(mint) {
+        return Object.keys(TOKEN_MINTS).find(sym => TOKEN_MINTS[sym] === mint) || `${mint.slice(0, 4)}…${mint.slice(-4)}`;
+    }
+
+    async _getTokenDecimals(mint) {
+        if (TOKEN_DECIMALS[mint] !== undefined) return TOKEN_DECIMALS[mint];
+        if (this.decimalsCache[mint] !== undefined) return this.decimalsCache[mint];
+        const conn = this._getConnection();
+        if (!conn) return null;
+        try {
+            const info = await conn.getParsedAccountInfo(new PublicKey(mint));
+            const decimals = info.value?.data?.parsed?.info?.decimals;
+            if (typeof decimals === 'number') {
+                this.decimalsCache[mint] = decimals;
+                return decimals;
+            }
+        } catch (e) {
+            console.error(`[SolanaTrader] Decimals lookup failed for ${mint}:`, e.message);
+        }
+        return null;
+    }
+
+    async _getPricesByMint(mints) {
+        if (mints.length === 0) return {};
+        return this.marketData.getPrices(mints);
+    }
+
+    // Network fee actually charged for a confirmed transaction (lamports), best effort
+    async _getTxFee(signature) {
+        try {
+            const tx = await this._getConnection().getTransaction(signature, { maxSupportedTransactionVersion: 0, commitment: 'confirmed' });
+            return tx?.meta?.fee || 0;
+        } catch (e) {
+            return 0;
+        }
+    }
+
+    /**
+     * What a landed swap actually moved out of and into the wallet, in raw base units,
+     * read from the transaction's balance changes rather than the quote. SOL counts the
+     * wallet's lamports (it pays the fee as account 0, so the fee is added back) plus
+     * any wrapped SOL it holds.
+     * @returns {Promise<{ err: any, feeLamports: number, inRaw: bigint, outRaw: bigint }|null>} null if the transaction can't be read
+     */
+    async _getSwapFill(signature, inputMint, outputMint) {
+        let tx = null;
+        for (let attempt = 0; attempt < 3 && !tx; attempt++) {
+            if (attempt > 0) await new Promise(r => setTimeout(r, 1500));
+            try {
+                tx = await this._getConnection().getTransaction(signature, { maxSupportedTransactionVersion: 0, commitment: 'confirmed' });
+            } catch (e) {
+                console.error(`[SolanaTrader] getTransaction ${signature} failed:`, e.message);
+            }
+        }
+        if (!tx?.meta) return null;
+
+        const { meta } = tx;
+        const tokenTotal = (balances, mint) => (balances || [])
+            .filter(b => b.owner === this.walletPublicKey && b.mint === mint)
+            .reduce((sum, b) => sum + BigInt(b.uiTokenAmount.amount), 0n);
+        const delta = (mint) => {
+            const tokens = tokenTotal(meta.postTokenBalances, mint) - tokenTotal(meta.preTokenBalances, mint);
+            if (mint !== TOKEN_MINTS.SOL) return tokens;
+            return tokens + BigInt(meta.postBalances[0] - meta.preBalances[0] + (meta.fee || 0));
+        };
+        return { err: meta.err, feeLamports: meta.fee || 0, inRaw: -delta(inputMint), outRaw: delta(outputMint) };
+    }
+
+    /**
+     * Append a filled swap (and its network fee) to the ledger with amounts in whole tokens.
+     * A swap whose token decimals can't be looked up is left out of the ledger (raw base
+     * units taken as whole tokens would wreck cost basis) and flagged `unrecorded`.
+     * @returns {Promise<Object>} the swap ledger entry, or a stand-in with raw amounts
+     */
+    async _recordSwap({ inputMint, outputMint, inRaw, outRaw, signature, strategy, feeLamports = 0 }) {
+        const [inDecimals, outDecimals, prices] = await Promise.all([
+            this._getTokenDecimals(inputMint),
+            this._getTokenDecimals(outputMint),
+            this._getPricesByMint([inputMint, outputMint, TOKEN_MINTS.SOL]),
+        ]);
+        if (inDecimals === null || outDecimals === null) {
+            const unknown = [inDecimals === null && inputMint, outDecimals === null && outputMint].filter(Boolean).map(m => this._symbolFor(m));
+            this._log({ type: 'error', message: `Swap ${signature} not added to the P&L ledger — unknown decimals for ${unknown.join(', ')}` });
+            if (feeLamports > 0) this._recordFee(feeLamports, signature, strategy, prices[TOKEN_MINTS.SOL]);
+            return {
+                unrecorded: true,
+                inSymbol: this._symbolFor(inputMint),
+                inAmount: `${inRaw} (raw units)`,
+                outSymbol: this._symbolFor(outputMint),
+                outAmount: `${outRaw} (raw units)`,
+            };
+        }
+        const inAmount = Number(inRaw) / 10 ** inDecimals;
+        const outAmount = Number(outRaw) / 10 ** outDecimals;
+        const ledger = this._getLedger();
+        const entry = ledger.record({
+            kind: 'swap',
+            signature,
+            strategy,
+            inMint: inputMint,
+            inSymbol: this._symbolFor(inputMint),
+            inAmount,
+            inDecimals,
+            outMint: outputMint,
+            outSymbol: this._symbolFor(outputMint),
+            outAmount,
+            outDecimals,
+            inUsd: prices[inputMint] !== undefined ? inAmount * prices[inputMint] : null,
+            outUsd: prices[outputMint] !== undefined ? outAmount * prices[outputMint] : null,
+        });
+        if (feeLamports > 0) this._recordFee(feeLamports, signature, strategy, prices[TOKEN_MINTS.SOL]);
+        return entry;
+    }
+
+    _recordFee(feeLamports, signature, strategy, solPrice) {
+        const amount = feeLamports / 1e9;
+        this._getLedger().record({
+            kind: 'fee',
+            signature,
+            strategy,
+            mint: TOKEN_MINTS.SOL,
+            amount,
+            usd: solPrice ? amount * solPrice : null,
+        });
+    }
+
+    _recordPerpOpen(market, side, collateralUsd, leverage, collateralToken, result, strategy) {
+        this._getLedger().record({
+            kind: 'perp_open',
+            signature: result.signature,
+            strategy,
+            market,
+            side,
+            slot: `${market}:${side}`,
+            positionKey: result.position?.key || null,
+            collateralUsd,
+            collateralToken,
+            leverage,
+            sizeUsd: collateralUsd * leverage,
+            entryPrice: result.position?.entryPrice ?? null,
+        });
+    }
+
+    // Live closes don't report PnL, so fall back to the last mark of the position being closed
+    _recordPerpClose(pos, result, strategy) {
+        this._getLedger().record({
+            kind: 'perp_close',
+            signature: result.signature,
+            strategy,
+            market: pos.market,
+            side: pos.side,
+            slot: `${pos.market}:${pos.side}`,
+            positionKey: pos.key,
+            pnlUsd: result.pnlUsd ?? pos.pnlUsd ?? 0,
+            exitPrice: result.exitPrice ?? pos.markPrice ?? null,
+        });
+    }
+
+    /**
+     * Realized/unrealized P&L for the active mode plus daily snapshots and recent ledger entries
+     * @param {{ days?: number }} opts
+     */
+    async getPnl(opts = {}) {
+        const ledger = this._getLedger();
+        const [prices, perps] = await Promise.all([
+            this._getPricesByMint(ledger.heldMints()),
+            this._initPerps() ? this.getPerps() : Promise.resolve({ positions: [] }),
+        ]);
+        return {
+            paperMode: this.paperMode,
+            ...ledger.computePnl(prices, perps.positions || [], this.perpsOwners),
+            snapshots: ledger.getSnapshots(opts.days || 30),
+            recent: ledger.list({ limit: 20 }),
+        };
+    }
+
+    /**
+     * Refresh today's portfolio snapshot if the last one is older than SNAPSHOT_INTERVAL_MS
+     * @param {{ totalUsd: number, sol: number, usdc: number, solPrice: number }} [values] - reuse balances already fetched
+     */
+    async _snapshotPortfolio(values = null) {
+        if (!this.walletPublicKey && !this.paperMode) return;
+        const ledger = this._getLedger();
+        const last = ledger.snapshots[ledger.snapshots.length - 1];
+        if (last && Date.now() - Date.parse(last.updatedAt) < SNAPSHOT_INTERVAL_MS) return;
+
+        if (!values) {
+            const [sol, usdc, solPrice] = await Promise.all([this.getBalance(), this.getUsdcBalance(), this.getSolPrice()]);
+            values = { sol, usdc, solPrice, totalUsd: sol * solPrice + usdc };
+        }
+        if (!values.solPrice) return; // don't record a zero-priced day on a price API hiccup
+        ledger.snapshot(values);
+    }
+
     // --- Jupiter Swap ---
 
     async getPrice(tokenSymbol) {
         const mint = TOKEN_MINTS[tokenSymbol];
         if (!mint) return null;
-        try {
-            const res = await fetch(`${JUPITER_PRICE_API}?ids=${mint}`);
-            const data = await res.json();
-            return data.data?.[mint]?.price ? parseFloat(data.data[mint].price) : null;
-        } catch (e) {
-            console.error(`[SolanaTrader] Price fetch error for ${tokenSymbol}:`, e.message);
-            return null;
-        }
+        return this.marketData.getPrice(mint);
     }
 
-    async swap(inputMint, outputMint, amountLamports, slippageBps = 50) {
-        if (!this.keypair) return { error: 'No wallet configured' };
+    async swap(inputMint, outputMint, amountLamports, slippageBps = 50, strategy = 'manual') {
+        if (this.paperMode) return this._paperSwap(inputMint, outputMint, amountLamports, slippageBps, strategy);
+        if (!this.keypair) return { error: this._noKeyError() };
+        if (!this.marketData.isLive) return { error: this._offlineDataError() };
         if (!loadSolanaDeps()) return { error: 'Solana deps not installed' };
+        this._armAutoLock();
 
         try {
             // 1. Get quote from Jupiter
@@ -424,16 +1282,33 @@ class SolanaTrader {
             const rawTx = tx.serialize();
             const signature = await conn.sendRawTransaction(rawTx, { skipPreflight: true, maxRetries: 2 });
 
-            // 5. Confirm
+            // 5. Confirm — a landed transaction can still have failed (slippage exceeded, etc.)
             const latestBlockhash = await conn.getLatestBlockhash();
-            await conn.confirmTransaction({ signature, ...latestBlockhash }, 'confirmed');
+            const confirmation = await conn.confirmTransaction({ signature, ...latestBlockhash }, 'confirmed');
+            const fill = await this._getSwapFill(signature, inputMint, outputMint);
+            const txError = confirmation.value?.err || fill?.err;
+            if (txError) {
+                if (fill?.feeLamports) this._recordFee(fill.feeLamports, signature, strategy, await this.getSolPrice());
+                const errMsg = `Swap failed on-chain: ${JSON.stringify(txError)}`;
+                this._log({ type: 'error', message: errMsg, txHash: signature });
+                return { error: errMsg };
+            }
+            if (!fill) {
+                this._log({ type: 'error', message: `Swap ${signature} confirmed but its transaction couldn't be read — not added to the P&L ledger`, txHash: signature });
+                return { signature, inSymbol: inputMint, outSymbol: outputMint, unrecorded: true };
+            }
 
-            const inAmount = quoteData.inAmount;
-            const outAmount = quoteData.outAmount;
+            // 6. Book what actually filled, not what was quoted
+            const inAmount = fill.inRaw.toString();
+            const outAmount = fill.outRaw.toString();
+            const entry = await this._recordSwap({
+                inputMint, outputMint, inRaw: inAmount, outRaw: outAmount, signature, strategy,
+                feeLamports: fill.feeLamports,
+            });
 
             this._log({
                 type: 'trade',
-                message: `Swap ${inAmount} → ${outAmount}`,
+                message: `Swap ${entry.inAmount} ${entry.inSymbol} → ${entry.outAmount} ${entry.outSymbol}`,
                 txHash: signature,
                 inSymbol: inputMint,
                 outSymbol: outputMint,
@@ -449,18 +1324,35 @@ class SolanaTrader {
         }
     }
 
+    async _paperSwap(inputMint, outputMint, amountLamports, slippageBps, strategy) {
+        const result = await this._getPaper().swap(inputMint, outputMint, amountLamports, slippageBps);
+        if (result.error) {
+            this._log({ type: 'error', message: result.error });
+            return result;
+        }
+        const entry = await this._recordSwap({
+            inputMint, outputMint, inRaw: result.inAmount, outRaw: result.outAmount, signature: result.signature, strategy,
+        });
+        this._log({
+            type: 'trade',
+            message: `[PAPER] Swap ${entry.inAmount} ${entry.inSymbol} → ${entry.outAmount} ${entry.outSymbol}`,
+            txHash: result.signature,
+            inSymbol: inputMint,
+            outSymbol: outputMint,
+            inAmount: result.inAmount,
+            outAmount: result.outAmount,
+        });
+        return result;
+    }
+
     async manualSwap(inputSymbol, outputSymbol, amount, slippageBps) {
         const inputMint = TOKEN_MINTS[inputSymbol] || inputSymbol;
         const outputMint = TOKEN_MINTS[outputSymbol] || outputSymbol;
 
         // Convert amount to smallest unit
-        let amountLamports;
-        if (inputSymbol === 'SOL') {
-            amountLamports = Math.floor(parseFloat(amount) * LAMPORTS_PER_SOL);
-        } else {
-            // For USDC/USDT (6 decimals)
-            amountLamports = Math.floor(parseFloat(amount) * 1_000_000);
-        }
+        const decimals = await this._getTokenDecimals(inputMint);
+        if (decimals === null) return { error: `Unknown decimals for ${inputSymbol}` };
+        const amountLamports = Math.floor(parseFloat(amount) * 10 ** decimals);
 
         return this.swap(inputMint, outputMint, amountLamports, slippageBps || 50);
     }
@@ -468,8 +1360,10 @@ class SolanaTrader {
     // --- Withdraw ---
 
     async withdraw(destination, amountSOL) {
-        if (!this.keypair) return { error: 'No wallet' };
+        if (this.paperMode) return { error: 'Withdrawals are disabled in paper mode' };
+        if (!this.keypair) return { error: this._noKeyError() };
         if (!loadSolanaDeps()) return { error: 'Solana deps not installed' };
+        this._armAutoLock();
 
         try {
             const conn = this._getConnection();
@@ -491,6 +1385,17 @@ class SolanaTrader {
             const signature = await conn.sendRawTransaction(tx.serialize(), { skipPreflight: true });
             await conn.confirmTransaction(signature, 'confirmed');
 
+            const solPrice = await this.getSolPrice();
+            this._getLedger().record({
+                kind: 'withdraw',
+                signature,
+                mint: TOKEN_MINTS.SOL,
+                amount: amountSOL,
+                usd: solPrice ? amountSOL * solPrice : null,
+                destination,
+            });
+            this._recordFee(await this._getTxFee(signature), signature, 'manual', solPrice);
+
             this._log({
                 type: 'withdraw',
                 message: `Withdrew ${amountSOL} SOL to ${destination.slice(0, 8)}...`,
@@ -509,13 +1414,13 @@ class SolanaTrader {
 
     async start(intervalMs = 30000) {
         if (this.isRunning) return;
-        if (!this.keypair) {
-            this._log({ type: 'error', message: 'Cannot start: no wallet configured' });
+        if (!this.keypair && !this.paperMode) {
+            this._log({ type: 'error', message: `Cannot start: ${this._noKeyError().toLowerCase()}` });
             return;
         }
 
         this.isRunning = true;
-        this._log({ type: 'system', message: `Bot started — monitoring every ${intervalMs / 1000}s` });
+        this._log({ type: 'system', message: `Bot started${this.paperMode ? ' in PAPER mode' : ''} — monitoring every ${intervalMs / 1000}s` });
 
         const check = async () => {
             try {
@@ -523,71 +1428,33 @@ class SolanaTrader {
                 const activeRules = this.rules.filter(r => r.active);
 
                 // ── Spot Rules Evaluation ────────────────────────
-                if (activeRules.length > 0) {
-                    const tokens = [...new Set(activeRules.map(r => r.token))];
-
-                    for (const tokenSymbol of tokens) {
-                        const price = await this.getPrice(tokenSymbol);
-                        if (price === null) continue;
-
-                        for (const rule of activeRules.filter(r => r.token === tokenSymbol)) {
-                            let triggered = false;
-
-                            if (rule.type === 'stop-loss' && price <= rule.triggerPrice) {
-                                triggered = true;
-                            } else if (rule.type === 'take-profit' && price >= rule.triggerPrice) {
-                                triggered = true;
-                            }
-
-                            if (triggered) {
-                                this._log({
-                                    type: 'rule_trigger',
-                                    message: `${rule.type.toUpperCase()} triggered: ${tokenSymbol} @ $${price} (trigger: $${rule.triggerPrice})`,
-                                });
-
-                                const inputMint = TOKEN_MINTS[rule.token];
-                                const outputMint = TOKEN_MINTS[rule.outputToken];
-                                if (!inputMint || !outputMint) continue;
-
-                                let amount;
-                                if (rule.token === 'SOL') {
-                                    const bal = await this.getBalance();
-                                    amount = rule.action === 'sell-all' ? bal * 0.98 : bal * 0.5;
-                                    amount = Math.floor(amount * LAMPORTS_PER_SOL);
-                                } else {
-                                    amount = 0;
-                                }
-
-                                if (amount > 0) {
-                                    const result = await this.swap(inputMint, outputMint, amount);
-                                    if (result.error) {
-                                        this._log({ type: 'error', message: `Auto-swap failed: ${result.error}` });
-                                    } else {
-                                        rule.active = false;
-                                        this._saveRules();
-
-                                        if (this.broadcastFn) {
-                                            this.broadcastFn({
-                                                type: 'TRADER_SWAP_RESULT',
-                                                ...result,
-                                            });
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
+                await this._evaluateRules();
+
+                // ── Scheduled DCA Plans ──────────────────────────
+                await this._runDcaPlans();
+
+                // ── Strategy Scanner (every strategy × pair) ─────
+                const indicatorCache = new Map();
+                await this.scanStrategies({ indicatorCache });
+
+                // ── Price / Indicator Alerts ─────────────────────
+                try {
+                    await this.alerts.evaluate({ indicatorCache });
+                } catch (alertErr) {
+                    console.error('[SolanaTrader] Alert engine error:', alertErr.message);
                 }
 
                 // ── Autonomous Perps Management ──────────────────
                 if (this.perpsAutoEnabled) {
                     try {
-                        await this._autoManagePerps();
+                        await this._autoManagePerps({ indicatorCache });
                     } catch (perpsErr) {
                         console.error('[SolanaTrader] Auto-perps error:', perpsErr.message);
                     }
                 }
 
+                await this._snapshotPortfolio();
+
             } catch (e) {
                 console.error('[SolanaTrader] Monitor error:', e.message);
             }
@@ -602,86 +1469,212 @@ class SolanaTrader {
 
     // ── Autonomous Perps Management ─────────────────────────
     // Called each bot loop when perpsAutoEnabled is true.
-    // Manages existing positions (TP/SL) and evaluates strategies for new entries.
-    async _autoManagePerps() {
+    // Manages existing positions (TP/SL + strategy exits) and opens new
+    // entries from PerpsSignals, all bounded by the user's risk profile.
+    async _autoManagePerps(opts = {}) {
         const perps = this._initPerps();
         if (!perps) return;
+        const risk = this.perpsRisk;
 
         // 1. Monitor existing positions for TP/SL
-        const { positions } = await perps.getPositions();
-        if (positions && positions.length > 0) {
-            for (const pos of positions) {
-                const pnlPct = pos.collateralUsd > 0 ? (pos.pnlUsd / pos.collateralUsd) * 100 : 0;
-                const takeProfitPct = 20;  // Close at +20% ROI
-                const stopLossPct = -15;   // Close at -15% ROI
-
-                if (pnlPct >= takeProfitPct) {
-                    this._log({
-                        type: 'perp_close',
-                        message: `🎯 Auto TP: ${pos.side.toUpperCase()} ${pos.market}-PERP at +${pnlPct.toFixed(1)}% ROI ($${pos.pnlUsd.toFixed(2)} profit)`,
-                    });
-                    const result = await perps.closePosition(pos.key);
-                    if (!result.error && this.broadcastFn) {
-                        this.broadcastFn({ type: 'TRADER_PERP_CLOSED', signature: result.signature });
+        const { positions: current } = await perps.getPositions();
+        const closed = new Set();
+        let positions = current || [];
+        for (const pos of positions) {
+            const pnlPct = pos.collateralUsd > 0 ? (pos.pnlUsd / pos.collateralUsd) * 100 : 0;
+            let reason = null;
+            if (pnlPct >= risk.takeProfitPct) {
+                reason = `🎯 Auto TP: ${pos.side.toUpperCase()} ${pos.market}-PERP at +${pnlPct.toFixed(1)}% ROI ($${pos.pnlUsd.toFixed(2)} profit)`;
+            } else if (pnlPct <= -risk.stopLossPct) {
+                reason = `🛑 Auto SL: ${pos.side.toUpperCase()} ${pos.market}-PERP at ${pnlPct.toFixed(1)}% ROI ($${pos.pnlUsd.toFixed(2)} loss)`;
+            }
+            if (reason && await this._autoClosePerp(perps, pos, reason)) closed.add(pos.key);
+        }
+        positions = positions.filter(p => !closed.has(p.key));
+
+        // 2. Evaluate perps strategies into typed signals
+        const perpsStrategies = this.strategies.filter(s => s.autoPerps || s.name?.toLowerCase().includes('perp'));
+        if (perpsStrategies.length === 0 && this.strategies.length > 0) {
+            // If no perps-specific strategies, use the first available strategy
+            perpsStrategies.push(this.strategies[0]);
+        }
+
+        let opened = false;
+        const targets = perpsStrategies.flatMap(strategy => this._strategyPairs(strategy).map(pair => ({ strategy, pair })));
+        for (const { strategy, pair } of targets) {
+            const market = pair.split('/')[0];
+            if (!risk.allowedMarkets.includes(market)) continue;
+
+            try {
+                // Strategy exit rules are long-biased (stops below entry), so they only judge long perps
+                const owned = positions.filter(p => !closed.has(p.key) && p.market === market && this.perpsOwners[`${p.market}:${p.side}`] === strategy.name);
+                const evalResult = await this.evaluateStrategy(strategy.name, pair, {
+                    indicatorCache: opts.indicatorCache,
+                    positions: owned.filter(p => p.side === 'long').map(p => ({
+                        id: p.key, pair, status: 'open',
+                        entryPrice: p.entryPrice, avgPrice: p.entryPrice,
+                        entryDate: new Date(p.openTime).getTime() || Date.now(),
+                    })),
+                });
+                if (!evalResult || evalResult.error) continue;
+
+                for (const signal of evalResult.perpsSignals) {
+                    if (signal.action === 'exit') {
+                        const pos = owned.find(p => p.key === signal.positionKey);
+                        if (pos && await this._autoClosePerp(perps, pos, `🚪 Strategy exit: ${pos.side.toUpperCase()} ${pos.market}-PERP — ${signal.reason} (${strategy.name})`)) closed.add(pos.key);
+                        continue;
                     }
-                } else if (pnlPct <= stopLossPct) {
-                    this._log({
-                        type: 'perp_close',
-                        message: `🛑 Auto SL: ${pos.side.toUpperCase()} ${pos.market}-PERP at ${pnlPct.toFixed(1)}% ROI ($${pos.pnlUsd.toFixed(2)} loss)`,
-                    });
-                    const result = await perps.closePosition(pos.key);
-                    if (!result.error && this.broadcastFn) {
-                        this.broadcastFn({ type: 'TRADER_PERP_CLOSED', signature: result.signature });
+                    if (signal.action !== 'long' && signal.action !== 'short') continue;
+
+                    // An entry in the opposite direction closes this strategy's existing position
+                    const opposite = owned.find(p => p.side !== signal.action);
+                    if (opposite && !closed.has(opposite.key)) {
+                        const flipped = await this._autoClosePerp(perps, opposite, `🔄 Signal flip: closing ${opposite.side.toUpperCase()} ${market}-PERP for ${signal.action.toUpperCase()} (${strategy.name})`);
+                        if (flipped) closed.add(opposite.key);
                     }
+                    if (opened) continue; // at most one new entry per cycle
+                    const openCount = positions.filter(p => !closed.has(p.key)).length;
+                    if (openCount >= risk.maxConcurrentPositions) continue;
+                    if (owned.some(p => p.side === signal.action && !closed.has(p.key))) continue; // already positioned
+
+                    opened = await this._autoOpenPerp(signal);
                 }
+            } catch (stratErr) {
+                console.error('[SolanaTrader] Strategy eval error:', stratErr.message);
+            }
+        }
+    }
+
+    async _autoClosePerp(perps, pos, message) {
+        this._log({ type: 'perp_close', message });
+        const result = await perps.closePosition(pos.key);
+        if (result.error) {
+            this._log({ type: 'error', message: `Auto-close failed: ${result.error}` });
+            return false;
+        }
+        this._recordPerpClose(pos, result, this.perpsOwners[`${pos.market}:${pos.side}`] || 'auto-perps');
+        delete this.perpsOwners[`${pos.market}:${pos.side}`];
+        this._savePerpsOwners();
+        if (this.broadcastFn) this.broadcastFn({ type: 'TRADER_PERP_CLOSED', signature: result.signature });
+        return true;
+    }
+
+    /**
+     * Size and open a position for an entry signal using the risk profile
+     * @param {PerpsSignal} signal
+     * @returns {Promise<boolean>} true if a position was opened
+     */
+    async _autoOpenPerp(signal) {
+        const risk = this.perpsRisk;
+        const walletUsd = risk.collateralToken === 'USDC'
+            ? await this.getUsdcBalance()
+            : (await this.getBalance()) * (await this.getSolPrice());
+
+        const collateralUsd = Math.min(walletUsd * (risk.collateralPct / 100), risk.maxCollateralUsd);
+        if (collateralUsd < risk.minCollateralUsd) return false;
+
+        this._log({
+            type: 'perp_open',
+            message: `🤖 Auto-entry: ${signal.action.toUpperCase()} ${signal.market}-PERP | $${collateralUsd.toFixed(2)} × ${risk.leverage}x = $${(collateralUsd * risk.leverage).toFixed(2)} | Strategy: ${signal.strategyName}`,
+        });
+
+        const result = await this.openPerp(signal.market, signal.action, collateralUsd, risk.leverage, risk.collateralToken, signal.strategyName);
+        if (result.error) return false;
+
+        this.perpsOwners[`${signal.market}:${signal.action}`] = signal.strategyName;
+        this._savePerpsOwners();
+        if (this.broadcastFn) {
+            this.broadcastFn({ type: 'TRADER_PERP_OPENED', ...result, strategyName: signal.strategyName });
+        }
+        return true;
+    }
+
+    // ── Perps Risk Profile ──────────────────────────────────
+
+    _loadPerpsRisk() {
+        try {
+            if (fs.existsSync(this.perpsRiskPath)) {
+                this.perpsRisk = { ...DEFAULT_PERPS_RISK, ...JSON.parse(fs.readFileSync(this.perpsRiskPath, 'utf8')) };
+            }
+        } catch (e) {
+            console.error('[SolanaTrader] Failed to load perps risk profile:', e.message);
+        }
+    }
+
+    _savePerpsRisk() {
+        try {
+            fs.writeFileSync(this.perpsRiskPath, JSON.stringify(this.perpsRisk, null, 2));
+        } catch (e) {
+            console.error('[SolanaTrader] Failed to save perps risk profile:', e.message);
+        }
+    }
+
+    // Which strategy owns each auto-opened position — survives restarts so exits and P&L stay attributed
+    _loadPerpsOwners() {
+        try {
+            if (fs.existsSync(this.perpsOwnersPath)) {
+                this.perpsOwners = JSON.parse(fs.readFileSync(this.perpsOwnersPath, 'utf8'));
             }
+        } catch (e) {
+            console.error('[SolanaTrader] Failed to load perps owners:', e.message);
         }
+    }
 
-        // 2. Evaluate strategies for new perps entries (only if < 3 open positions)
-        const openPositionCount = positions ? positions.length : 0;
-        if (openPositionCount >= 3) return; // Max 3 concurrent positions
-
-        const perpsStrategies = this.strategies.filter(s => s.autoPerps || s.name?.toLowerCase().includes('perp'));
-        if (perpsStrategies.length === 0 && this.strategies.length > 0) {
-            // If no perps-specific strategies, use the first available strategy 
-            // but only on larger timeframes to avoid noise
-            const fallback = this.strategies[0];
-            if (fallback) perpsStrategies.push(fallback);
+    _savePerpsOwners() {
+        try {
+            fs.writeFileSync(this.perpsOwnersPath, JSON.stringify(this.perpsOwners, null, 2));
+        } catch (e) {
+            console.error('[SolanaTrader] Failed to save perps owners:', e.message);
         }
+    }
 
-        for (const strategy of perpsStrategies.slice(0, 1)) { // Evaluate at most 1 strategy per cycle
-            try {
-                const evalResult = await this.evaluateStrategy(strategy.name, 'SOL/USDC');
-                if (!evalResult || evalResult.error) continue;
-
-                const { entrySignal, exitSignal, thinking } = evalResult;
-
-                if (entrySignal && entrySignal !== 'none') {
-                    const side = entrySignal === 'long' ? 'long' : 'short';
-                    const balance = await this.getBalance();
-                    const solPrice = await this.getSolPrice();
-                    const balanceUsd = balance * solPrice;
-
-                    // Conservative: use 5% of balance as collateral, 3× leverage
-                    const collateralUsd = Math.min(balanceUsd * 0.05, 50); // Max $50 auto-entry
-                    const autoLeverage = 3;
+    getPerpsRiskProfile() {
+        return { profile: this.perpsRisk, defaults: DEFAULT_PERPS_RISK, markets: PERP_MARKETS };
+    }
 
-                    if (collateralUsd >= 5) { // Min $5 collateral
-                        this._log({
-                            type: 'perp_open',
-                            message: `🤖 Auto-entry: ${side.toUpperCase()} SOL-PERP | $${collateralUsd.toFixed(2)} × ${autoLeverage}x = $${(collateralUsd * autoLeverage).toFixed(2)} | Strategy: ${strategy.name}`,
-                        });
+    /**
+     * Update the autonomous perps risk profile (partial updates allowed)
+     * @param {Object} patch - any subset of DEFAULT_PERPS_RISK fields
+     * @returns {{ profile: Object } | { error: string }}
+     */
+    setPerpsRiskProfile(patch = {}) {
+        const next = { ...this.perpsRisk };
+        const num = (key, min, max) => {
+            if (patch[key] === undefined) return null;
+            const v = Number(patch[key]);
+            if (!Number.isFinite(v) || v < min || v > max) return `${key} must be between ${min} and ${max}`;
+            next[key] = v;
+            return null;
+        };
 
-                        const result = await this.openPerp('SOL', side, collateralUsd, autoLeverage, 'SOL');
-                        if (!result.error && this.broadcastFn) {
-                            this.broadcastFn({ type: 'TRADER_PERP_OPENED', ...result });
-                        }
-                    }
-                }
-            } catch (stratErr) {
-                console.error('[SolanaTrader] Strategy eval error:', stratErr.message);
+        const error = num('leverage', 1.1, 20)
+            || num('collateralPct', 0.1, 100)
+            || num('maxCollateralUsd', 1, 1_000_000)
+            || num('minCollateralUsd', 1, 1_000_000)
+            || num('takeProfitPct', 1, 1000)
+            || num('stopLossPct', 1, 100)
+            || num('maxConcurrentPositions', 0, 10);
+        if (error) return { error };
+
+        if (patch.allowedMarkets !== undefined) {
+            if (!Array.isArray(patch.allowedMarkets) || patch.allowedMarkets.some(m => !PERP_MARKETS.includes(m))) {
+                return { error: `allowedMarkets must be a subset of ${PERP_MARKETS.join(', ')}` };
             }
+            next.allowedMarkets = [...new Set(patch.allowedMarkets)];
         }
+        if (patch.collateralToken !== undefined) {
+            if (!['SOL', 'USDC'].includes(patch.collateralToken)) return { error: 'collateralToken must be SOL or USDC' };
+            next.collateralToken = patch.collateralToken;
+        }
+        if (next.minCollateralUsd > next.maxCollateralUsd) {
+            return { error: 'minCollateralUsd cannot exceed maxCollateralUsd' };
+        }
+        next.maxConcurrentPositions = Math.floor(next.maxConcurrentPositions);
+
+        this.perpsRisk = next;
+        this._savePerpsRisk();
+        this._log({ type: 'system', message: `Perps risk profile updated: ${next.leverage}x, ${next.collateralPct}% (max $${next.maxCollateralUsd}), TP +${next.takeProfitPct}% / SL -${next.stopLossPct}%, max ${next.maxConcurrentPositions} positions` });
+        return { profile: this.perpsRisk };
     }
 
     stop() {
@@ -696,22 +1689,31 @@ class SolanaTrader {
 
     // Full status for frontend
     async getStatus() {
-        const solBalance = this.keypair ? await this.getBalance() : 0;
-        const [usdcBalance, solPrice] = this.keypair
+        const hasFunds = this.walletPublicKey || this.paperMode;
+        const solBalance = hasFunds ? await this.getBalance() : 0;
+        const [usdcBalance, solPrice] = hasFunds
             ? await Promise.all([this.getUsdcBalance(), this.getSolPrice()])
             : [0, 0];
+        const totalUsd = (solBalance * solPrice) + usdcBalance;
+        await this._snapshotPortfolio({ sol: solBalance, usdc: usdcBalance, solPrice, totalUsd });
         return {
             type: 'TRADER_STATUS',
-            walletCreated: !!this.keypair,
-            publicKey: this.keypair ? this.keypair.publicKey.toBase58() : '',
+            walletCreated: !!this.walletPublicKey,
+            publicKey: this.walletPublicKey || '',
+            walletEncrypted: this.walletEncrypted,
+            walletLocked: !!this.walletPublicKey && !this.keypair,
+            autoLockAt: this.autoLockAt,
             balance: solBalance,
             usdcBalance,
             solPrice,
-            totalUsd: (solBalance * solPrice) + usdcBalance,
+            totalUsd,
             isRunning: this.isRunning,
             rules: this.rules,
-            recentTrades: this.tradeLog.slice(0, 30),
+            recentTrades: this.getTradeLog().slice(0, 30),
             lastCheck: this.lastCheck,
+            paperMode: this.paperMode,
+            paper: this.paperMode ? this._getPaper().getSummary() : null,
+            marketData: this.marketData.describe(),
             hasStrategies: this.strategies.length > 0,
             positionCount: this.positions.length,
             keepAlive: this.keepAlive,
@@ -724,6 +1726,8 @@ class SolanaTrader {
     // ─────────────────────────────────────────────────────────
 
     _initPerps() {
+        // Paper ledger exposes the same interface as JupiterPerps
+        if (this.paperMode) return this._getPaper();
         if (!this.perps && this.keypair) {
             if (!loadSolanaDeps()) return null;
             const conn = this._getConnection();
@@ -732,15 +1736,17 @@ class SolanaTrader {
         return this.perps;
     }
 
-    async openPerp(market, side, collateralUsd, leverage, collateralToken = 'SOL') {
+    async openPerp(market, side, collateralUsd, leverage, collateralToken = 'SOL', strategy = 'manual') {
+        if (!this.paperMode && !this.marketData.isLive) return { error: this._offlineDataError() };
         const perps = this._initPerps();
-        if (!perps) return { error: 'Wallet not configured or deps missing' };
+        if (!perps) return { error: this.keypair ? 'Solana deps not installed' : this._noKeyError() };
 
         const result = await perps.openPosition(market, side, collateralUsd, leverage, collateralToken);
         if (!result.error) {
+            this._recordPerpOpen(market, side, collateralUsd, leverage, collateralToken, result, strategy);
             this._log({
                 type: 'perp_open',
-                message: `Opened ${side.toUpperCase()} ${market}-PERP: $${collateralUsd} × ${leverage}x = $${(collateralUsd * leverage).toFixed(2)} size`,
+                message: `${result.paper ? '[PAPER] ' : ''}Opened ${side.toUpperCase()} ${market}-PERP: $${collateralUsd} × ${leverage}x = $${(collateralUsd * leverage).toFixed(2)} size`,
                 txHash: result.signature,
             });
         } else {
@@ -751,11 +1757,15 @@ class SolanaTrader {
 
     async closePerp(positionKey) {
         const perps = this._initPerps();
-        if (!perps) return { error: 'Wallet not configured or deps missing' };
+        if (!perps) return { error: this.keypair ? 'Solana deps not installed' : this._noKeyError() };
 
+        const { positions } = await perps.getPositions();
+        const pos = (positions || []).find(p => p.key === positionKey);
         const result = await perps.closePosition(positionKey);
         if (!result.error) {
-            this._log({ type: 'perp_close', message: `Closed perp position`, txHash: result.signature });
+            if (pos) this._recordPerpClose(pos, result, 'manual');
+            const pnl = result.paper ? ` (PnL $${result.pnlUsd.toFixed(2)})` : '';
+            this._log({ type: 'perp_close', message: `${result.paper ? '[PAPER] ' : ''}Closed perp position${pnl}`, txHash: result.signature });
         } else {
             this._log({ type: 'error', message: `Perp close failed: ${result.error}` });
         }
@@ -775,72 +1785,17 @@ class SolanaTrader {
     }
 
     // ─────────────────────────────────────────────────────────
-    //  OHLCV Data Feed (GeckoTerminal — free, no API key)
+    //  OHLCV Data Feed (via the market data provider)
     // ─────────────────────────────────────────────────────────
 
     /**
-     * Find the top liquidity pool address for a token mint on Solana
-     * @param {string} tokenMint - Solana token mint address
-     * @returns {Promise<string|null>} pool address
-     */
-    async findPoolAddress(tokenMint) {
-        if (this.poolCache[tokenMint]) return this.poolCache[tokenMint];
-
-        try {
-            const url = `${GECKO_API}/networks/solana/tokens/${tokenMint}/pools?page=1`;
-            const resp = await fetch(url);
-            if (!resp.ok) throw new Error(`GeckoTerminal pool search failed: ${resp.status}`);
-            const json = await resp.json();
-
-            if (json.data && json.data.length > 0) {
-                // Pick the pool with the highest reserve (most liquid)
-                const pool = json.data[0];
-                const addr = pool.attributes.address;
-                this.poolCache[tokenMint] = addr;
-                console.log(`[SolanaTrader] Found pool for ${tokenMint}: ${addr} (${pool.attributes.name})`);
-                return addr;
-            }
-            return null;
-        } catch (e) {
-            console.error(`[SolanaTrader] Pool discovery error:`, e.message);
-            return null;
-        }
-    }
-
-    /**
-     * Fetch OHLCV candle data from GeckoTerminal
-     * @param {string} poolAddress - Solana pool address
-     * @param {string} timeframe - 'day', 'hour', 'minute'
-     * @param {number} limit - number of candles (max 1000)
-     * @returns {Promise<Array>} candles as [{ t, o, h, l, c, v }, ...]
+     * Resolve a pair, symbol or mint to the provider's candle-series key
+     * @param {string} pair - e.g. 'SOL/USDC', 'JUP' or a mint address
+     * @returns {Promise<string|null>} pool address (live) or series key (replay/synthetic)
      */
-    async fetchOHLCV(poolAddress, timeframe = 'day', limit = 200) {
-        const cacheKey = `${poolAddress}_${timeframe}`;
-        const cached = this.ohlcvCache[cacheKey];
-        const now = Date.now();
-        // Cache: 5 min for day, 1 min for hour/minute
-        const ttl = timeframe === 'day' ? 300000 : 60000;
-        if (cached && (now - cached.fetchedAt) < ttl) {
-            return cached.candles;
-        }
-
-        try {
-            const url = `${GECKO_API}/networks/solana/pools/${poolAddress}/ohlcv/${timeframe}?limit=${limit}`;
-            const resp = await fetch(url);
-            if (!resp.ok) throw new Error(`OHLCV fetch failed: ${resp.status}`);
-            const json = await resp.json();
-
-            const raw = json.data?.attributes?.ohlcv_list || [];
-            // API returns newest first, we want oldest first
-            const candles = raw.reverse().map(([t, o, h, l, c, v]) => ({ t, o, h, l, c, v }));
-
-            this.ohlcvCache[cacheKey] = { candles, fetchedAt: now };
-            console.log(`[SolanaTrader] Fetched ${candles.length} ${timeframe} candles for pool ${poolAddress.slice(0, 8)}...`);
-            return candles;
-        } catch (e) {
-            console.error(`[SolanaTrader] OHLCV fetch error:`, e.message);
-            return cached ? cached.candles : [];
-        }
+    async _resolvePool(pair) {
+        const mint = TOKEN_MINTS[pair] || TOKEN_MINTS[pair.split('/')[0]] || pair;
+        return this.marketData.findPoolAddress(mint, pair);
     }
 
     /**
@@ -852,14 +1807,10 @@ class SolanaTrader {
      */
     async getCandles(pair = 'SOL/USDC', timeframe = 'day', limit = 300) {
         try {
-            let poolAddress = KNOWN_POOLS[pair];
-            if (!poolAddress) {
-                const mint = TOKEN_MINTS[pair] || pair;
-                poolAddress = await this.findPoolAddress(mint);
-            }
+            const poolAddress = await this._resolvePool(pair);
             if (!poolAddress) return { error: `No pool found for ${pair}` };
 
-            const candles = await this.fetchOHLCV(poolAddress, timeframe, limit);
+            const candles = await this.marketData.fetchOHLCV(poolAddress, timeframe, limit);
             return { candles, pair, timeframe, candleCount: candles.length };
         } catch (e) {
             console.error(`[SolanaTrader] getCandles error:`, e.message);
@@ -871,23 +1822,18 @@ class SolanaTrader {
      * Get computed indicators for a token pair
      * @param {string} pair - e.g. 'SOL/USDC' or a pool address
      * @param {string} timeframe - 'day', 'hour', 'minute'
+     * @param {{ series?: boolean }} opts - series: include full band/oscillator arrays (chart overlays)
      * @returns {Promise<Object>} computed indicators
      */
-    async getIndicators(pair = 'SOL/USDC', timeframe = 'day') {
+    async getIndicators(pair = 'SOL/USDC', timeframe = 'day', opts = {}) {
         try {
-            // Resolve pool address
-            let poolAddress = KNOWN_POOLS[pair];
-            if (!poolAddress) {
-                // Try as token mint → find pool
-                const mint = TOKEN_MINTS[pair] || pair;
-                poolAddress = await this.findPoolAddress(mint);
-            }
+            const poolAddress = await this._resolvePool(pair);
             if (!poolAddress) return { error: `No pool found for ${pair}` };
 
-            const candles = await this.fetchOHLCV(poolAddress, timeframe, 500);
+            const candles = await this.marketData.fetchOHLCV(poolAddress, timeframe, 500);
             if (candles.length < 15) return { error: `Insufficient data: only ${candles.length} candles` };
 
-            const result = indicators.computeAll(candles, this.indicatorConfig);
+            const result = indicators.computeAll(candles, { ...this.indicatorConfig, series: !!opts.series });
             result.pair = pair;
             result.timeframe = timeframe;
             result.candleCount = candles.length;
@@ -920,6 +1866,18 @@ class SolanaTrader {
 
     saveStrategy(strategy) {
         if (!strategy.name) return { error: 'Strategy needs a name' };
+        const timeframes = [strategy.timeframe, ...(strategy.entryRules || []).map(r => r.timeframe)].filter(Boolean);
+        const badTf = timeframes.find(tf => !STRATEGY_TIMEFRAMES.includes(tf));
+        if (badTf) return { error: `Unknown timeframe: ${badTf}` };
+        if (strategy.pairs !== undefined) {
+            if (!Array.isArray(strategy.pairs)) return { error: 'Strategy pairs must be a list' };
+            strategy = { ...strategy, pairs: [...new Set(strategy.pairs.map(p => String(p).trim()).filter(Boolean))] };
+        }
+        for (const [i, rule] of (strategy.entryRules || []).entries()) {
+            if (rule.indicator !== 'expression') continue;
+            const parsed = ruleExpressions.parseExpression(rule.expression);
+            if (parsed.error) return { error: `Entry rule ${i + 1}: ${parsed.error} (at character ${parsed.position + 1})` };
+        }
         // Upsert by name
         const idx = this.strategies.findIndex(s => s.name === strategy.name);
         if (idx >= 0) {
@@ -942,6 +1900,477 @@ class SolanaTrader {
         return { strategies: this.strategies };
     }
 
+    /**
+     * Check an expression rule for the Strategy Builder: parse errors with their position,
+     * else a plain-English description and (when a pair is given) how it reads right now
+     */
+    async validateExpression(expression, pair, timeframe = 'day') {
+        const parsed = ruleExpressions.parseExpression(expression);
+        if (parsed.error) return { expression, ok: false, error: parsed.error, position: parsed.position };
+        if (!pair) return { expression, ok: true, ...ruleExpressions.explainExpression(expression) };
+
+        const ind = await this.getIndicators(pair, timeframe);
+        if (ind.error) return { expression, ok: true, ...ruleExpressions.explainExpression(expression), previewError: ind.error };
+        return { expression, ok: true, pair, timeframe, ...ruleExpressions.explainExpression(expression, ind, this.indicatorConfig) };
+    }
+
+    // ─────────────────────────────────────────────────────────
+    //  DCA Plans (recurring buys/sells run by the monitor loop)
+    // ─────────────────────────────────────────────────────────
+
+    _loadDcaPlans() {
+        try {
+            if (fs.existsSync(this.dcaPath)) {
+                this.dcaPlans = JSON.parse(fs.readFileSync(this.dcaPath, 'utf8'));
+            }
+        } catch (e) {
+            this.dcaPlans = [];
+        }
+    }
+
+    _saveDcaPlans() {
+        try {
+            fs.writeFileSync(this.dcaPath, JSON.stringify(this.dcaPlans, null, 2));
+        } catch (e) {
+            console.error('[SolanaTrader] Failed to save DCA plans:', e.message);
+        }
+    }
+
+    _broadcastDcaPlans() {
+        if (this.broadcastFn) this.broadcastFn({ type: 'TRADER_DCA_PLANS', plans: this.dcaPlans });
+    }
+
+    /**
+     * Next scheduled run strictly after `from` (all cadences are in UTC)
+     * @returns {number} epoch ms
+     */
+    _nextDcaRun(plan, from = Date.now()) {
+        const d = new Date(from);
+        d.setUTCMinutes(0, 0, 0);
+        if (plan.cadence === 'hourly') {
+            d.setUTCHours(d.getUTCHours() + 1);
+            return d.getTime();
+        }
+        d.setUTCHours(plan.hourUtc);
+        if (plan.cadence === 'daily') {
+            if (d.getTime() <= from) d.setUTCDate(d.getUTCDate() + 1);
+        } else if (plan.cadence === 'weekly') {
+            d.setUTCDate(d.getUTCDate() + ((plan.weekday - d.getUTCDay() + 7) % 7));
+            if (d.getTime() <= from) d.setUTCDate(d.getUTCDate() + 7);
+        } else {
+            d.setUTCDate(plan.dayOfMonth);
+            if (d.getTime() <= from) d.setUTCMonth(d.getUTCMonth() + 1, plan.dayOfMonth);
+        }
+        return d.getTime();
+    }
+
+    /**
+     * Validate a plan from user input, merged over an existing plan when editing
+     * @returns {Object} the plan fields, or { error }
+     */
+    _buildDcaPlan(input, existing = null) {
+        const plan = { ...DCA_DEFAULTS, ...(existing || {}), ...input };
+        if (!this._ruleMint(plan.token)) return { error: `Unknown token: ${plan.token}` };
+        if (!this._ruleMint(plan.quoteToken)) return { error: `Unknown quote token: ${plan.quoteToken}` };
+        if (plan.token === plan.quoteToken) return { error: 'Token and quote token must differ' };
+        if (!['buy', 'sell'].includes(plan.side)) return { error: `Unknown side: ${plan.side}` };
+        if (!['usd', 'percent'].includes(plan.amountMode)) return { error: `Unknown amount mode: ${plan.amountMode}` };
+        if (!DCA_CADENCES.includes(plan.cadence)) return { error: `Unknown cadence: ${plan.cadence}` };
+
+        plan.amount = Number(plan.amount);
+        if (!(plan.amount > 0)) return { error: 'Amount must be positive' };
+        if (plan.amountMode === 'percent' && plan.amount > 100) return { error: 'Percent amount must be 100 or less' };
+        plan.hourUtc = Math.min(23, Math.max(0, Math.floor(Number(plan.hourUtc) || 0)));
+        plan.weekday = Math.min(6, Math.max(0, Math.floor(Number(plan.weekday) || 0)));
+        plan.dayOfMonth = Math.min(28, Math.max(1, Math.floor(Number(plan.dayOfMonth) || 1)));
+        plan.totalBudgetUsd = plan.totalBudgetUsd ? Number(plan.totalBudgetUsd) : null;
+
+        plan.minPrice = plan.minPrice ? Number(plan.minPrice) : null;
+        plan.maxPrice = plan.maxPrice ? Number(plan.maxPrice) : null;
+        if (plan.minPrice && plan.maxPrice && plan.minPrice > plan.maxPrice) return { error: 'Price band minimum is above maximum' };
+
+        if (plan.filter) {
+            const { indicator, op, value, timeframe } = plan.filter;
+            if (!DCA_FILTER_INDICATORS.includes(indicator)) return { error: `Unsupported filter indicator: ${indicator}` };
+            if (!['below', 'above'].includes(op)) return { error: `Unknown filter operator: ${op}` };
+            if (!Number.isFinite(Number(value))) return { error: 'Filter value must be a number' };
+            plan.filter = { indicator, op, value: Number(value), timeframe: timeframe || 'day' };
+        }
+
+        if (!plan.name) {
+            const size = plan.amountMode === 'usd' ? `$${plan.amount}` : `${plan.amount}%`;
+            plan.name = `${plan.side === 'buy' ? 'Buy' : 'Sell'} ${size} ${plan.token} ${plan.cadence}`;
+        }
+        return plan;
+    }
+
+    getDcaPlans() {
+        return this.dcaPlans;
+    }
+
+    addDcaPlan(input) {
+        const fields = this._buildDcaPlan(input);
+        if (fields.error) return fields;
+        const plan = {
+            ...fields,
+            id: crypto.randomUUID(),
+            status: 'active',
+            spentUsd: 0,
+            runs: 0,
+            history: [],
+            createdAt: new Date().toISOString(),
+        };
+        plan.nextRunAt = this._nextDcaRun(plan);
+        this.dcaPlans.push(plan);
+        this._saveDcaPlans();
+        this._log({ type: 'system', message: `DCA plan added: ${plan.name}` });
+        return { plan };
+    }
+
+    /**
+     * Edit a plan, or pause/resume it via { status }
+     */
+    updateDcaPlan(planId, patch) {
+        const idx = this.dcaPlans.findIndex(p => p.id === planId);
+        if (idx < 0) return { error: 'DCA plan not found' };
+        const current = this.dcaPlans[idx];
+        const { id, createdAt, spentUsd, runs, history, nextRunAt, ...editable } = patch || {};
+        if (editable.status && !['active', 'paused'].includes(editable.status)) return { error: `Unknown status: ${editable.status}` };
+
+        const fields = this._buildDcaPlan(editable, current);
+        if (fields.error) return fields;
+        const resumed = current.status !== 'active' && fields.status === 'active';
+        if (resumed && fields.totalBudgetUsd && fields.spentUsd >= fields.totalBudgetUsd) {
+            return { error: 'Budget exhausted — raise the budget to resume this plan' };
+        }
+        // Resuming or rescheduling never fires a backlog of missed runs
+        const scheduleChanged = ['cadence', 'hourUtc', 'weekday', 'dayOfMonth'].some(k => fields[k] !== current[k]);
+        if (resumed || scheduleChanged) fields.nextRunAt = this._nextDcaRun(fields);
+
+        this.dcaPlans[idx] = fields;
+        this._saveDcaPlans();
+        return { plan: fields };
+    }
+
+    deleteDcaPlan(planId) {
+        this.dcaPlans = this.dcaPlans.filter(p => p.id !== planId);
+        this._saveDcaPlans();
+        return planId;
+    }
+
+    _recordDcaRun(plan, run) {
+        plan.history = [{ at: new Date().toISOString(), ...run }, ...(plan.history || [])].slice(0, DCA_HISTORY_LIMIT);
+    }
+
+    /**
+     * Execute one slice of a plan, honouring its price band, indicator filter and budget.
+     * Skips and failures are recorded in the plan history — the schedule still advances.
+     */
+    async _executeDcaPlan(plan) {
+        const tokenMint = this._ruleMint(plan.token);
+        const quoteMint = this._ruleMint(plan.quoteToken);
+        const inputMint = plan.side === 'buy' ? quoteMint : tokenMint;
+        const outputMint = plan.side === 'buy' ? tokenMint : quoteMint;
+
+        const prices = await this._getPricesByMint([tokenMint, quoteMint]);
+        const price = prices[tokenMint];
+        const inputPrice = prices[inputMint];
+        if (!price || !inputPrice) {
+            this._recordDcaRun(plan, { status: 'failed', reason: 'No price available' });
+            return;
+        }
+
+        if ((plan.minPrice && price < plan.minPrice) || (plan.maxPrice && price > plan.maxPrice)) {
+            this._recordDcaRun(plan, { status: 'skipped', price, reason: `${plan.token} $${price} outside band $${plan.minPrice ?? '—'}–$${plan.maxPrice ?? '—'}` });
+            return;
+        }
+
+        if (plan.filter) {
+            const ind = await this.getIndicators(plan.token === 'SOL' ? 'SOL/USDC' : plan.token, plan.filter.timeframe);
+            const current = ind.error ? null : ind[plan.filter.indicator]?.current;
+            if (current === null || current === undefined) {
+                this._recordDcaRun(plan, { status: 'skipped', price, reason: `${plan.filter.indicator.toUpperCase()} unavailable${ind.error ? `: ${ind.error}` : ''}` });
+                return;
+            }
+            const pass = plan.filter.op === 'below' ? current < plan.filter.value : current > plan.filter.value;
+            if (!pass) {
+                this._recordDcaRun(plan, { status: 'skipped', price, reason: `${plan.filter.indicator.toUpperCase()} ${current.toFixed(1)} not ${plan.filter.op} ${plan.filter.value}` });
+                return;
+            }
+        }
+
+        const decimals = await this._getTokenDecimals(inputMint);
+        if (decimals === null) {
+            this._recordDcaRun(plan, { status: 'failed', reason: 'Unknown token decimals' });
+            return;
+        }
+        const balanceRaw = await this._getRawTokenBalance(inputMint);
+        let usd = plan.amountMode === 'usd'
+            ? plan.amount
+            : (balanceRaw * plan.amount / 100) / 10 ** decimals * inputPrice;
+        if (plan.totalBudgetUsd) usd = Math.min(usd, plan.totalBudgetUsd - plan.spentUsd);
+        const amountRaw = Math.floor(usd / inputPrice * 10 ** decimals);
+        if (amountRaw <= 0) {
+            this._recordDcaRun(plan, { status: 'skipped', price, reason: 'Nothing to trade' });
+            return;
+        }
+        if (amountRaw > balanceRaw) {
+            this._recordDcaRun(plan, { status: 'failed', price, reason: `Insufficient ${plan.side === 'buy' ? plan.quoteToken : plan.token} balance` });
+            return;
+        }
+
+        const result = await this.swap(inputMint, outputMint, amountRaw, 50, `dca:${plan.name}`);
+        if (result.error) {
+            this._recordDcaRun(plan, { status: 'failed', price, reason: result.error });
+            return;
+        }
+
+        plan.spentUsd += usd;
+        plan.runs += 1;
+        this._recordDcaRun(plan, { status: 'filled', price, usd, inAmount: result.inAmount, outAmount: result.outAmount, signature: result.signature });
+        if (plan.totalBudgetUsd && plan.spentUsd >= plan.totalBudgetUsd - 0.01) {
+            plan.status = 'completed';
+            this._log({ type: 'system', message: `DCA plan completed — budget of $${plan.totalBudgetUsd} used: ${plan.name}` });
+        }
+        if (this.broadcastFn) this.broadcastFn({ type: 'TRADER_SWAP_RESULT', ...result });
+    }
+
+    async _runDcaPlans(now = Date.now()) {
+        const due = this.dcaPlans.filter(p => p.status === 'active' && p.nextRunAt <= now);
+        if (due.length === 0) return;
+        for (const plan of due) {
+            this._log({ type: 'system', message: `DCA: running ${plan.name}` });
+            try {
+                await this._executeDcaPlan(plan);
+            } catch (e) {
+                this._recordDcaRun(plan, { status: 'failed', reason: e.message });
+            }
+            // Missed runs (bot stopped over a slot) collapse into this single run
+            plan.nextRunAt = this._nextDcaRun(plan, now);
+        }
+        this._saveDcaPlans();
+        this._broadcastDcaPlans();
+    }
+
+    /**
+     * Run a plan immediately (same band/filter/budget checks), leaving its schedule alone
+     */
+    async runDcaPlanNow(planId) {
+        const plan = this.dcaPlans.find(p => p.id === planId);
+        if (!plan) return { error: 'DCA plan not found' };
+        if (plan.status === 'completed') return { error: 'Plan budget is exhausted' };
+        await this._executeDcaPlan(plan);
+        this._saveDcaPlans();
+        return { plan };
+    }
+
+    // ─────────────────────────────────────────────────────────
+    //  Trade Proposals (suggested by agents, executed only on approval)
+    // ─────────────────────────────────────────────────────────
+
+    _loadProposals() {
+        try {
+            if (fs.existsSync(this.proposalsPath)) {
+                this.proposals = JSON.parse(fs.readFileSync(this.proposalsPath, 'utf8'));
+            }
+        } catch (e) {
+            this.proposals = [];
+        }
+        // An execution cut short by a crash or restart never reported back — its outcome is unknown
+        let interrupted = false;
+        for (const p of this.proposals) {
+            if (p.status !== 'executing') continue;
+            p.status = 'failed';
+            p.error = 'Interrupted by a server restart — check the wallet before proposing it again';
+            p.resolvedAt = new Date().toISOString();
+            interrupted = true;
+        }
+        if (interrupted) this._saveProposals();
+    }
+
+    _saveProposals() {
+        const resolved = this.proposals.filter(p => p.status !== 'pending' && p.status !== 'executing');
+        if (resolved.length > PROPOSAL_HISTORY_LIMIT) {
+            const drop = new Set(resolved.slice(0, resolved.length - PROPOSAL_HISTORY_LIMIT).map(p => p.id));
+            this.proposals = this.proposals.filter(p => !drop.has(p.id));
+        }
+        try {
+            fs.writeFileSync(this.proposalsPath, JSON.stringify(this.proposals, null, 2));
+        } catch (e) {
+            console.error('[SolanaTrader] Failed to save trade proposals:', e.message);
+        }
+    }
+
+    _broadcastProposals() {
+        if (this.broadcastFn) this.broadcastFn({ type: 'TRADER_PROPOSALS', proposals: this.proposals });
+    }
+
+    /** Mark pending proposals past their expiry; returns true if any changed */
+    _expireProposals(now = Date.now()) {
+        let changed = false;
+        for (const p of this.proposals) {
+            if (p.status === 'pending' && new Date(p.expiresAt).getTime() <= now) {
+                p.status = 'expired';
+                p.resolvedAt = new Date(now).toISOString();
+                changed = true;
+            }
+        }
+        if (changed) this._saveProposals();
+        return changed;
+    }
+
+    getProposals() {
+        this._expireProposals();
+        return this.proposals;
+    }
+
+    /**
+     * Record a trade an agent wants to make. Nothing is executed until the
+     * operator approves it (approveProposal).
+     * @param {Object} input - { action, token, amountUsd, leverage?, rationale }
+     * @param {Object} source - { agentId, agentName } of the proposing agent
+     * @returns {Object} { proposal } or { error }
+     */
+    async proposeTrade(input, source = {}) {
+        const action = String(input.action || '').toLowerCase();
+        if (!PROPOSAL_ACTIONS.includes(action)) return { error: `Unknown action: ${input.action} (use ${PROPOSAL_ACTIONS.join(', ')})` };
+        const isPerp = action === 'long' || action === 'short';
+        const token = String(input.token || (isPerp ? 'SOL' : '')).trim();
+        if (isPerp) {
+            if (!PERP_MARKETS.includes(token)) return { error: `Unsupported perps market: ${token} (use ${PERP_MARKETS.join(', ')})` };
+        } else {
+            if (!this._ruleMint(token)) return { error: `Unknown token: ${token}` };
+            if (token === 'USDC') return { error: 'Token must differ from the USDC quote' };
+        }
+        const amountUsd = Number(input.amountUsd);
+        if (!(amountUsd > 0)) return { error: 'amountUsd must be positive' };
+        let leverage = null;
+        if (isPerp) {
+            leverage = Number(input.leverage) || this.perpsRisk.leverage;
+            if (!(leverage >= 1 && leverage <= MAX_PROPOSAL_LEVERAGE)) return { error: `Leverage must be between 1 and ${MAX_PROPOSAL_LEVERAGE}` };
+        }
+        const rationale = String(input.rationale || '').trim().slice(0, 1000);
+        if (!rationale) return { error: 'A rationale is required' };
+
+        this._expireProposals();
+        if (this.proposals.filter(p => p.status === 'pending').length >= MAX_PENDING_PROPOSALS) {
+            return { error: `Too many pending proposals (max ${MAX_PENDING_PROPOSALS}) — wait for the operator to review them` };
+        }
+
+        const mint = MARKET_DATA_SYMBOLS[token] || this._ruleMint(token);
+        const priceAtProposal = await this.marketData.getPrice(mint).catch(() => null);
+        const now = Date.now();
+        const proposal = {
+            id: crypto.randomUUID(),
+            action,
+            token,
+            amountUsd,
+            leverage,
+            rationale,
+            source: { agentId: source.agentId || null, agentName: source.agentName || 'Agent' },
+            priceAtProposal,
+            paper: this.paperMode,
+            status: 'pending',
+            createdAt: new Date(now).toISOString(),
+            expiresAt: new Date(now + PROPOSAL_TTL_MS).toISOString(),
+        };
+        this.proposals.push(proposal);
+        this._saveProposals();
+        this._log({ type: 'system', message: `Trade proposal from ${proposal.source.agentName}: ${action.toUpperCase()} $${amountUsd} ${token}${leverage ? ` @ ${leverage}x` : ''} — awaiting approval` });
+        this._broadcastProposals();
+        return { proposal };
+    }
+
+    /**
+     * Operator approval — executes the proposal at current prices. A proposal only
+     * runs in the mode (paper/live) it was made in; one from the other mode expires.
+     */
+    async approveProposal(proposalId) {
+        this._expireProposals();
+        const proposal = this.proposals.find(p => p.id === proposalId);
+        if (!proposal) return { error: 'Proposal not found' };
+        if (proposal.status !== 'pending') return { error: `Proposal is already ${proposal.status}` };
+        if (!!proposal.paper !== !!this.paperMode) {
+            const made = proposal.paper ? 'paper' : 'live';
+            proposal.status = 'expired';
+            proposal.error = `Proposed in ${made} mode — the trader is now in ${this.paperMode ? 'paper' : 'live'} mode`;
+            proposal.resolvedAt = new Date().toISOString();
+            this._saveProposals();
+            this._broadcastProposals();
+            return { error: `${proposal.error}. Ask the agent to propose it again.` };
+        }
+
+        proposal.status = 'executing';
+        this._saveProposals();
+        this._broadcastProposals();
+
+        let result;
+        try {
+            result = await this._executeProposal(proposal);
+        } catch (e) {
+            result = { error: e.message };
+        }
+        proposal.resolvedAt = new Date().toISOString();
+        if (result.error) {
+            proposal.status = 'failed';
+            proposal.error = result.error;
+        } else {
+            proposal.status = 'executed';
+            proposal.signature = result.signature || null;
+        }
+        this._log({
+            type: result.error ? 'error' : 'system',
+            message: result.error
+                ? `Trade proposal failed: ${result.error}`
+                : `Trade proposal approved and executed: ${proposal.action.toUpperCase()} $${proposal.amountUsd} ${proposal.token}`,
+        });
+        this._saveProposals();
+        this._broadcastProposals();
+        return { proposal };
+    }
+
+    rejectProposal(proposalId, reason = '') {
+        const proposal = this.proposals.find(p => p.id === proposalId);
+        if (!proposal) return { error: 'Proposal not found' };
+        if (proposal.status !== 'pending') return { error: `Proposal is already ${proposal.status}` };
+        proposal.status = 'rejected';
+        proposal.resolvedAt = new Date().toISOString();
+        if (reason) proposal.rejectReason = String(reason).slice(0, 500);
+        this._saveProposals();
+        this._broadcastProposals();
+        return { proposal };
+    }
+
+    /**
+     * Spot proposals swap against USDC; perps proposals open a position with
+     * the configured collateral token
+     */
+    async _executeProposal(proposal) {
+        const label = `agent:${proposal.source.agentName}`;
+        if (proposal.action === 'long' || proposal.action === 'short') {
+            return this.openPerp(proposal.token, proposal.action, proposal.amountUsd, proposal.leverage, this.perpsRisk.collateralToken, label);
+        }
+
+        const tokenMint = this._ruleMint(proposal.token);
+        const usdcMint = TOKEN_MINTS.USDC;
+        const inputMint = proposal.action === 'buy' ? usdcMint : tokenMint;
+        const outputMint = proposal.action === 'buy' ? tokenMint : usdcMint;
+
+        const prices = await this._getPricesByMint([inputMint]);
+        const inputPrice = prices[inputMint];
+        if (!inputPrice) return { error: 'No price available' };
+        const decimals = await this._getTokenDecimals(inputMint);
+        if (decimals === null) return { error: 'Unknown token decimals' };
+        const amountRaw = Math.floor(proposal.amountUsd / inputPrice * 10 ** decimals);
+        if (amountRaw <= 0) return { error: 'Nothing to trade' };
+        const balanceRaw = await this._getRawTokenBalance(inputMint);
+        if (amountRaw > balanceRaw) return { error: `Insufficient ${proposal.action === 'buy' ? 'USDC' : proposal.token} balance` };
+
+        const result = await this.swap(inputMint, outputMint, amountRaw, 50, label);
+        if (!result.error && this.broadcastFn) this.broadcastFn({ type: 'TRADER_SWAP_RESULT', ...result });
+        return result;
+    }
+
     // ─────────────────────────────────────────────────────────
     //  Position Tracking
     // ─────────────────────────────────────────────────────────
@@ -1015,15 +2444,28 @@ class SolanaTrader {
     }
 
     /**
- * Evaluate strategy conditions against current indicators
- * Returns signals (entry/exit) + detailed rule-by-rule thinking
- */
-    async evaluateStrategy(strategyName, pair = 'SOL/USDC') {
+     * Evaluate a saved strategy against live indicators
+     * Entry rules read the indicators of their own `timeframe` (default: the strategy's);
+     * exit rules always use the strategy's primary timeframe.
+     * @param {string} strategyName
+     * @param {string} [pair] - defaults to the first pair the strategy watches
+     * @param {{ positions?: Array, indicatorCache?: Map }} options - positions to run exit rules against
+     *   (default: open spot positions); indicatorCache shares indicator fetches across one scan cycle
+     * @returns {Promise<Object>} { signals, perpsSignals, ruleResults, indicators, timeframes, openPositions, strategyName }
+     */
+    async evaluateStrategy(strategyName, pair, options = {}) {
         const strategy = this.strategies.find(s => s.name === strategyName);
         if (!strategy) return { error: `Strategy '${strategyName}' not found` };
-
-        const ind = await this.getIndicators(pair, 'day');
-        if (ind.error) return { error: ind.error };
+        pair = pair || this._strategyPairs(strategy)[0];
+
+        const primary = strategy.timeframe || 'day';
+        const byTimeframe = {};
+        for (const tf of this._strategyTimeframes(strategy)) {
+            const tfInd = await this._getIndicatorsCached(pair, tf, options.indicatorCache);
+            if (tfInd.error) return { error: `${pair} ${tf}: ${tfInd.error}`, pair, strategyName };
+            byTimeframe[tf] = tfInd;
+        }
+        const ind = byTimeframe[primary];
 
         const signals = [];
         const ruleResults = []; // Detailed thinking log
@@ -1032,60 +2474,208 @@ class SolanaTrader {
         if (strategy.entryRules) {
             let allEntryMet = true;
             for (const rule of strategy.entryRules) {
-                const met = this._evaluateRule(rule, ind);
-                const detail = this._describeRule(rule, ind, met);
-                ruleResults.push({ ...detail, side: 'entry', passed: met });
+                const tf = rule.timeframe || primary;
+                const met = this._evaluateRule(rule, byTimeframe[tf]);
+                const detail = this._describeRule(rule, byTimeframe[tf], met);
+                if (tf !== primary) detail.label = `${detail.label} · ${tf}`;
+                ruleResults.push({ ...detail, side: 'entry', passed: met, timeframe: tf });
                 if (!met) allEntryMet = false;
             }
             if (allEntryMet) {
-                signals.push({ type: 'entry', message: `All entry conditions met for ${strategy.name}`, pair });
+                signals.push({ type: 'entry', side: strategy.direction === 'short' ? 'short' : 'long', message: `All entry conditions met for ${strategy.name}`, pair });
             }
         }
 
         // Evaluate exit rules against open positions
-        const openPositions = this.positions.filter(p => p.pair === pair && p.status === 'open');
+        const openPositions = options.positions || this.positions.filter(p => p.pair === pair && p.status === 'open');
         for (const pos of openPositions) {
             const holdDays = Math.floor((Date.now() - pos.entryDate) / 86400000);
             if (strategy.exitRules) {
                 for (const rule of strategy.exitRules) {
-                    if (rule.type === 'hard_stop') {
-                        const stopPrice = pos.entryPrice - (rule.atrMultiplier || 1.2) * ind.atr.current;
-                        const hit = ind.price <= stopPrice;
-                        ruleResults.push({
-                            side: 'exit', label: '🛑 Hard Stop', passed: !hit,
-                            detail: `Stop @ $${stopPrice.toFixed(2)} (entry $${pos.entryPrice.toFixed(2)} - ${rule.atrMultiplier}×ATR)`,
-                            current: `Price: $${ind.price.toFixed(2)}`
-                        });
-                        if (hit) signals.push({ type: 'exit_stop', posId: pos.id, message: `Hard stop hit ($${ind.price.toFixed(2)} <= $${stopPrice.toFixed(2)})`, urgent: true });
-                    }
-                    if (rule.type === 'profit_target') {
-                        const minHold = rule.minHoldDays || 0;
-                        const targetPct = rule.percent || 20;
-                        const targetPrice = pos.avgPrice * (1 + targetPct / 100);
-                        const holdOk = holdDays >= minHold;
-                        const priceOk = ind.price >= targetPrice;
-                        ruleResults.push({
-                            side: 'exit', label: '🎯 Profit Target', passed: holdOk && priceOk,
-                            detail: `Target $${targetPrice.toFixed(2)} (+${targetPct}%), min hold ${minHold}d`,
-                            current: `Hold: ${holdDays}d, Price: $${ind.price.toFixed(2)}`
-                        });
-                        if (holdOk && priceOk) signals.push({ type: 'exit_profit', posId: pos.id, message: `+${targetPct}% target reached after ${holdDays} days` });
-                    }
-                    if (rule.type === 'emergency') {
-                        const hit = ind.atr.abnormal && ind.price < ind.vp.poc;
-                        ruleResults.push({
-                            side: 'exit', label: '⚠️ Emergency', passed: !hit,
-                            detail: `ATR abnormal + price below POC ($${ind.vp.poc.toFixed(2)})`,
-                            current: `ATR abnormal: ${ind.atr.abnormal}, Price vs POC: ${ind.price > ind.vp.poc ? 'above' : 'BELOW'}`
-                        });
-                        if (hit) signals.push({ type: 'exit_emergency', posId: pos.id, message: 'Abnormal ATR + below POC — emergency exit', urgent: true });
+                    const { result, signal } = this._evaluateExitRule(rule, pos, ind, holdDays);
+                    if (result) ruleResults.push(result);
+                    if (signal) signals.push(signal);
+                }
+            }
+        }
+
+        const perpsSignals = this._toPerpsSignals(signals, strategy, pair);
+        const timeframes = Object.fromEntries(Object.entries(byTimeframe).map(([tf, i]) => [tf, { price: i.price, rsi: i.rsi?.current, stage: i.ladder?.stage }]));
+        return { signals, perpsSignals, ruleResults, indicators: ind, timeframe: primary, timeframes, pair, openPositions: openPositions.length, strategyName };
+    }
+
+    /** Pairs a strategy watches — its own list, else the legacy single pair, else the trader watchlist */
+    _strategyPairs(strategy) {
+        if (Array.isArray(strategy.pairs) && strategy.pairs.length > 0) return strategy.pairs;
+        if (strategy.pair) return [strategy.pair];
+        return this.watchlist;
+    }
+
+    /** Every timeframe a strategy's rules read, primary first */
+    _strategyTimeframes(strategy) {
+        const primary = strategy.timeframe || 'day';
+        return [...new Set([primary, ...(strategy.entryRules || []).map(r => r.timeframe || primary)])];
+    }
+
+    async _getIndicatorsCached(pair, timeframe, cache) {
+        if (!cache) return this.getIndicators(pair, timeframe);
+        const key = `${pair}|${timeframe}`;
+        if (!cache.has(key)) cache.set(key, this.getIndicators(pair, timeframe));
+        return cache.get(key);
+    }
+
+    // ─────────────────────────────────────────────────────────
+    //  Strategy Scanner (every saved strategy × the pairs it watches)
+    // ─────────────────────────────────────────────────────────
+
+    /**
+     * Evaluate every saved strategy on every pair it watches and keep the matrix
+     * for the Bot Brain view. Runs each bot cycle; also callable on demand.
+     * @param {{ indicatorCache?: Map }} opts
+     * @returns {Promise<{ scannedAt: string, results: Array }>}
+     */
+    async scanStrategies(opts = {}) {
+        const indicatorCache = opts.indicatorCache || new Map();
+        const results = [];
+        for (const strategy of this.strategies) {
+            for (const pair of this._strategyPairs(strategy)) {
+                const row = { strategyName: strategy.name, pair, timeframe: strategy.timeframe || 'day' };
+                try {
+                    const ev = await this.evaluateStrategy(strategy.name, pair, { indicatorCache });
+                    if (ev.error) {
+                        results.push({ ...row, error: ev.error });
+                        continue;
                     }
+                    const entries = ev.ruleResults.filter(r => r.side === 'entry');
+                    results.push({
+                        ...row,
+                        firing: ev.signals.some(sig => sig.type === 'entry'),
+                        exitSignals: ev.signals.filter(sig => sig.type.startsWith('exit')).length,
+                        passed: entries.filter(r => r.passed).length,
+                        total: entries.length,
+                        price: ev.indicators.price,
+                        failing: entries.filter(r => !r.passed).map(r => r.label),
+                    });
+                } catch (e) {
+                    results.push({ ...row, error: e.message });
                 }
             }
         }
 
-        return { signals, ruleResults, indicators: ind, openPositions: openPositions.length, strategyName };
+        const previouslyFiring = new Set(this.scanResults.results.filter(r => r.firing).map(r => `${r.strategyName}|${r.pair}`));
+        for (const r of results) {
+            if (r.firing && !previouslyFiring.has(`${r.strategyName}|${r.pair}`)) {
+                this._log({ type: 'signal', message: `📡 ${r.strategyName} firing on ${r.pair} (${r.timeframe})` });
+            }
+        }
+
+        this.scanResults = { scannedAt: new Date().toISOString(), results };
+        if (this.broadcastFn) this.broadcastFn({ type: 'TRADER_SCAN', ...this.scanResults, watchlist: this.watchlist });
+        return this.scanResults;
+    }
+
+    getScanResults() {
+        return { ...this.scanResults, watchlist: this.watchlist };
+    }
+
+    setWatchlist(pairs) {
+        if (!Array.isArray(pairs)) return { error: 'Watchlist must be a list of pairs' };
+        const cleaned = [...new Set(pairs.map(p => String(p).trim()).filter(Boolean))];
+        if (cleaned.length === 0) return { error: 'Watchlist needs at least one pair' };
+        this.watchlist = cleaned;
+        this._saveSettings();
+        return { watchlist: this.watchlist };
+    }
+
+    /**
+     * Map raw strategy signals onto the PerpsSignal contract
+     * @returns {PerpsSignal[]} exits first, then at most one entry; [{ action: 'none' }] if nothing fired
+     */
+    _toPerpsSignals(signals, strategy, pair) {
+        const market = pair.split('/')[0];
+        const base = { market, pair, strategyName: strategy.name };
+        const out = signals
+            .filter(s => s.type.startsWith('exit'))
+            .map(s => ({ ...base, action: 'exit', reason: s.message, positionKey: s.posId }));
+        const entry = signals.find(s => s.type === 'entry');
+        if (entry) out.push({ ...base, action: entry.side, reason: entry.message });
+        return out.length > 0 ? out : [{ ...base, action: 'none', reason: 'No conditions met' }];
+    }
+
+    /**
+     * Backtest a saved strategy by replaying historical candles bar-by-bar
+     * @param {string} strategyName - saved strategy name
+     * @param {string} [pair] - e.g. 'SOL/USDC'; defaults to the first pair the strategy watches
+     * @param {Object} options - timeframe (default: the strategy's), limit, initialCapital, positionSizePct, feeBps, slippageBps
+     * @returns {Promise<Object>} { summary, equityCurve, trades } or { error }
+     */
+    async backtest(strategyName, pair, options = {}) {
+        const strategy = this.strategies.find(s => s.name === strategyName);
+        if (!strategy) return { error: `Strategy '${strategyName}' not found` };
+        pair = pair || this._strategyPairs(strategy)[0];
+
+        const timeframe = options.timeframe || strategy.timeframe || 'day';
+        const limit = Math.min(Math.max(parseInt(options.limit) || 500, 50), 1000);
+        const { candles, error } = await this.getCandles(pair, timeframe, limit);
+        if (error) return { error };
+
+        const result = backtester.runBacktest(candles, strategy, {
+            evaluateRule: (rule, ind) => this._evaluateRule(rule, ind),
+            evaluateExitRule: (rule, pos, ind, holdDays) => this._evaluateExitRule(rule, pos, ind, holdDays),
+        }, { ...options, timeframe, indicatorConfig: this.indicatorConfig });
+        if (result.error) return result;
+
+        console.log(`[SolanaTrader] Backtest ${strategyName} on ${pair} (${timeframe}): ${result.trades.length} trades, ${result.summary.totalReturnPct.toFixed(1)}%`);
+        return { ...result, pair, strategyName };
+    }
+
+    /**
+     * Evaluate a single exit rule against an open position
+     * Shared by the live evaluator and the backtester
+     * @returns {{ result: Object|null, signal: Object|null }}
+     */
+    _evaluateExitRule(rule, pos, ind, holdDays) {
+        if (rule.type === 'hard_stop') {
+            const stopPrice = pos.entryPrice - (rule.atrMultiplier || 1.2) * ind.atr.current;
+            const hit = ind.price <= stopPrice;
+            return {
+                result: {
+                    side: 'exit', label: '🛑 Hard Stop', passed: !hit,
+                    detail: `Stop @ $${stopPrice.toFixed(2)} (entry $${pos.entryPrice.toFixed(2)} - ${rule.atrMultiplier}×ATR)`,
+                    current: `Price: $${ind.price.toFixed(2)}`
+                },
+                signal: hit ? { type: 'exit_stop', posId: pos.id, stopPrice, message: `Hard stop hit ($${ind.price.toFixed(2)} <= $${stopPrice.toFixed(2)})`, urgent: true } : null,
+            };
+        }
+        if (rule.type === 'profit_target') {
+            const minHold = rule.minHoldDays || 0;
+            const targetPct = rule.percent || 20;
+            const targetPrice = pos.avgPrice * (1 + targetPct / 100);
+            const holdOk = holdDays >= minHold;
+            const priceOk = ind.price >= targetPrice;
+            return {
+                result: {
+                    side: 'exit', label: '🎯 Profit Target', passed: holdOk && priceOk,
+                    detail: `Target $${targetPrice.toFixed(2)} (+${targetPct}%), min hold ${minHold}d`,
+                    current: `Hold: ${holdDays}d, Price: $${ind.price.toFixed(2)}`
+                },
+                signal: holdOk && priceOk ? { type: 'exit_profit', posId: pos.id, message: `+${targetPct}% target reached after ${holdDays} days` } : null,
+            };
+        }
+        if (rule.type === 'emergency') {
+            const hit = ind.atr.abnormal && ind.price < ind.vp.poc;
+            return {
+                result: {
+                    side: 'exit', label: '⚠️ Emergency', passed: !hit,
+                    detail: `ATR abnormal + price below POC ($${ind.vp.poc.toFixed(2)})`,
+                    current: `ATR abnormal: ${ind.atr.abnormal}, Price vs POC: ${ind.price > ind.vp.poc ? 'above' : 'BELOW'}`
+                },
+                signal: hit ? { type: 'exit_emergency', posId: pos.id, message: 'Abnormal ATR + below POC — emergency exit', urgent: true } : null,
+            };
+        }
+        return { result: null, signal: null };
     }
+
     /**
      * Evaluate a single rule condition against indicators
      */
@@ -1114,6 +2704,42 @@ class SolanaTrader {
                     return ind.diamond.hasDiamond;
                 case 'atr_abnormal':
                     return ind.atr.abnormal === (rule.value !== false);
+                case 'macd_cross':
+                    return this._crossed(ind.macd.prev.macd, ind.macd.prev.signal, ind.macd.macd, ind.macd.signal, rule.direction);
+                case 'macd_histogram':
+                    return ind.macd.histogram !== null && this._compare(ind.macd.histogram, rule.condition, rule.value);
+                case 'bb_cross': {
+                    const band = rule.band || 'lower';
+                    return this._crossed(ind.prevPrice, ind.bollinger.prev[band], ind.price, ind.bollinger[band], rule.direction);
+                }
+                case 'bb_width':
+                    return ind.bollinger.width !== null && this._compare(ind.bollinger.width, rule.condition, rule.value);
+                case 'keltner_cross': {
+                    const band = rule.band || 'lower';
+                    return this._crossed(ind.prevPrice, ind.keltner.prev[band], ind.price, ind.keltner[band], rule.direction);
+                }
+                case 'stoch_rsi':
+                    return ind.stochRsi.k !== null && this._compare(ind.stochRsi.k, rule.condition, rule.value);
+                case 'stoch_rsi_cross':
+                    return this._crossed(ind.stochRsi.prev.k, ind.stochRsi.prev.d, ind.stochRsi.k, ind.stochRsi.d, rule.direction);
+                case 'supertrend':
+                    return ind.supertrend.direction === (rule.direction === 'below' ? 'down' : 'up');
+                case 'supertrend_flip': {
+                    const want = rule.direction === 'below' ? 'down' : 'up';
+                    return ind.supertrend.direction === want && ind.supertrend.prev.direction !== null && ind.supertrend.prev.direction !== want;
+                }
+                case 'obv_cross':
+                    return this._crossed(ind.obv.prev.current, ind.obv.prev.ema, ind.obv.current, ind.obv.ema, rule.direction);
+                case 'adx':
+                    return ind.adx.adx !== null && this._compare(ind.adx.adx, rule.condition, rule.value);
+                case 'di_cross':
+                    return this._crossed(ind.adx.prev.plusDI, ind.adx.prev.minusDI, ind.adx.plusDI, ind.adx.minusDI, rule.direction);
+                case 'ichimoku_cloud':
+                    return ind.ichimoku.cloud === (rule.position || 'above');
+                case 'tk_cross':
+                    return this._crossed(ind.ichimoku.prev.tenkan, ind.ichimoku.prev.kijun, ind.ichimoku.tenkan, ind.ichimoku.kijun, rule.direction);
+                case 'expression':
+                    return ruleExpressions.evaluateExpression(rule.expression, ind, this.indicatorConfig);
                 default:
                     return true;
             }
@@ -1126,6 +2752,8 @@ class SolanaTrader {
      * Describe a rule evaluation in human-readable form for the "Bot Brain" view
      */
     _describeRule(rule, ind, passed) {
+        const dir = rule.direction === 'below' ? 'below' : 'above';
+        const fmt = (v, digits = 2) => v === null || v === undefined ? 'n/a' : v.toFixed(digits);
         try {
             switch (rule.indicator) {
                 case 'rsi':
@@ -1148,6 +2776,46 @@ class SolanaTrader {
                     return { label: `Diamond (${rule.color || 'any'})`, detail: `Diamond pattern ${rule.color ? rule.color + ' ' : ''}detected`, current: ind.diamond.hasDiamond ? `${ind.diamond.color} diamond found` : 'No diamond' };
                 case 'atr_abnormal':
                     return { label: 'ATR Abnormal', detail: 'Abnormal volatility detected', current: `ATR abnormal: ${ind.atr.abnormal}` };
+                case 'macd_cross':
+                    return { label: `MACD crosses ${dir} signal`, detail: `MACD line crosses ${dir} its signal line this bar`, current: `MACD ${fmt(ind.macd.macd, 4)} / signal ${fmt(ind.macd.signal, 4)}` };
+                case 'macd_histogram':
+                    return { label: `MACD hist ${rule.condition || '>'} ${rule.value}`, detail: `MACD histogram must be ${rule.condition || '>'} ${rule.value}`, current: `Current: ${fmt(ind.macd.histogram, 4)}` };
+                case 'bb_cross': {
+                    const band = rule.band || 'lower';
+                    return { label: `Close crosses ${dir} ${band} BB`, detail: `Close crosses ${dir} the ${band} Bollinger Band ($${fmt(ind.bollinger[band])})`, current: `Price: $${ind.price.toFixed(2)}` };
+                }
+                case 'bb_width':
+                    return { label: `BB width ${rule.condition || '<'} ${rule.value}`, detail: `Bollinger width (fraction of middle) must be ${rule.condition || '<'} ${rule.value}`, current: `Current: ${fmt(ind.bollinger.width, 3)}` };
+                case 'keltner_cross': {
+                    const band = rule.band || 'lower';
+                    return { label: `Close crosses ${dir} ${band} KC`, detail: `Close crosses ${dir} the ${band} Keltner Channel ($${fmt(ind.keltner[band])})`, current: `Price: $${ind.price.toFixed(2)}` };
+                }
+                case 'stoch_rsi':
+                    return { label: `Stoch RSI ${rule.condition || '<'} ${rule.value}`, detail: `Stoch RSI %K must be ${rule.condition || '<'} ${rule.value}`, current: `%K ${fmt(ind.stochRsi.k, 1)} / %D ${fmt(ind.stochRsi.d, 1)}` };
+                case 'stoch_rsi_cross':
+                    return { label: `Stoch %K crosses ${dir} %D`, detail: `Stoch RSI %K crosses ${dir} %D this bar`, current: `%K ${fmt(ind.stochRsi.k, 1)} / %D ${fmt(ind.stochRsi.d, 1)}` };
+                case 'supertrend':
+                    return { label: `SuperTrend ${rule.direction === 'below' ? 'down' : 'up'}`, detail: `SuperTrend must be in a${rule.direction === 'below' ? ' down' : 'n up'}trend`, current: `Current: ${ind.supertrend.direction || 'n/a'} ($${fmt(ind.supertrend.value)})` };
+                case 'supertrend_flip':
+                    return { label: `SuperTrend flips ${rule.direction === 'below' ? 'down' : 'up'}`, detail: `SuperTrend flips ${rule.direction === 'below' ? 'down' : 'up'} this bar`, current: `Was ${ind.supertrend.prev.direction || 'n/a'}, now ${ind.supertrend.direction || 'n/a'}` };
+                case 'obv_cross':
+                    return { label: `OBV crosses ${dir} EMA`, detail: `On-balance volume crosses ${dir} its EMA this bar`, current: `OBV ${fmt(ind.obv.current, 0)} / EMA ${fmt(ind.obv.ema, 0)}` };
+                case 'adx':
+                    return { label: `ADX ${rule.condition || '>'} ${rule.value}`, detail: `Trend strength (ADX) must be ${rule.condition || '>'} ${rule.value}`, current: `ADX ${fmt(ind.adx.adx, 1)} (+DI ${fmt(ind.adx.plusDI, 1)} / -DI ${fmt(ind.adx.minusDI, 1)})` };
+                case 'di_cross':
+                    return { label: `+DI crosses ${dir} -DI`, detail: `+DI crosses ${dir} -DI this bar`, current: `+DI ${fmt(ind.adx.plusDI, 1)} / -DI ${fmt(ind.adx.minusDI, 1)}` };
+                case 'ichimoku_cloud':
+                    return { label: `Price ${rule.position || 'above'} cloud`, detail: `Price must be ${rule.position || 'above'} the Ichimoku cloud`, current: `Current: ${ind.ichimoku.cloud || 'n/a'}` };
+                case 'expression': {
+                    const ex = ruleExpressions.explainExpression(rule.expression, ind, this.indicatorConfig);
+                    if (ex.error) return { label: rule.label || 'Expression', detail: `Invalid expression: ${ex.error}`, current: '' };
+                    const clauses = ex.clauses.length > 1
+                        ? ex.clauses.map(c => `${c.passed ? '✓' : '✗'} ${c.text}`).join(` ${ex.joiner} `)
+                        : Object.entries(ex.values).map(([k, v]) => `${k} ${v === null ? 'n/a' : v}`).join(' · ');
+                    return { label: rule.label || rule.expression, detail: ex.description, current: clauses };
+                }
+                case 'tk_cross':
+                    return { label: `Tenkan crosses ${dir} Kijun`, detail: `Ichimoku Tenkan crosses ${dir} Kijun this bar`, current: `Tenkan ${fmt(ind.ichimoku.tenkan)} / Kijun ${fmt(ind.ichimoku.kijun)}` };
                 default:
                     return { label: rule.label || rule.indicator, detail: 'Custom rule', current: '' };
             }
@@ -1156,6 +2824,16 @@ class SolanaTrader {
         }
     }
 
+    /**
+     * True when series A crosses series B in `direction` between the previous bar and this one
+     */
+    _crossed(prevA, prevB, a, b, direction = 'above') {
+        if ([prevA, prevB, a, b].some(v => v === null || v === undefined)) return false;
+        return direction === 'below'
+            ? prevA >= prevB && a < b
+            : prevA <= prevB && a > b;
+    }
+
     _compare(actual, condition, value) {
         switch (condition) {
             case '>': return actual > value;
@@ -0,0 +1,302 @@
+/**
+ * tradeLedger.js — Append-only Trade Ledger & P&L Accounting
+ *
+ * Every fill SolanaTrader makes is appended as one JSON line:
+ *   - swap        token in → token out, amounts in whole-token units + USD value at fill
+ *   - fee         network fee paid in SOL
+ *   - withdraw    tokens sent out of the wallet (no P&L — the cost basis leaves with them)
+ *   - perp_open / perp_close   Jupiter Perps (or paper) positions with realized PnL on close
+ *     (perps collateral is not moved through the spot lots — perps P&L is tracked per market)
+ *
+ * P&L is derived by replaying the ledger: spot tokens use FIFO lots for cost
+ * basis, perps realize on close. A swap with no USD value on either side opens
+ * an unknown-basis lot, so selling it later realizes nothing rather than the
+ * whole proceeds. Daily portfolio snapshots are kept alongside.
+ * Paper and live trading each get their own ledger files (see `prefix`).
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+// Lot quantities below this are treated as fully consumed (float dust)
+const DUST = 1e-9;
+const MAX_SNAPSHOTS = 365;
+
+class TradeLedger {
+    /**
+     * @param {string} dataDir - per-user trader data directory
+     * @param {{ prefix?: string, symbolFor?: (mint: string) => string }} opts
+     */
+    constructor(dataDir, opts = {}) {
+        const prefix = opts.prefix ? `${opts.prefix}_` : '';
+        this.ledgerPath = path.join(dataDir, `${prefix}trade_ledger.jsonl`);
+        this.snapshotsPath = path.join(dataDir, `${prefix}portfolio_snapshots.json`);
+        this.symbolFor = opts.symbolFor || (mint => mint.slice(0, 4) + '…');
+        this.entries = [];
+        this.snapshots = [];
+        this._load();
+    }
+
+    _load() {
+        try {
+            if (fs.existsSync(this.ledgerPath)) {
+                this.entries = fs.readFileSync(this.ledgerPath, 'utf8')
+                    .split('\n')
+                    .filter(Boolean)
+                    .map(line => { try { return JSON.parse(line); } catch (e) { return null; } })
+                    .filter(Boolean);
+            }
+        } catch (e) {
+            console.error('[TradeLedger] Failed to load ledger:', e.message);
+        }
+        try {
+            if (fs.existsSync(this.snapshotsPath)) {
+                this.snapshots = JSON.parse(fs.readFileSync(this.snapshotsPath, 'utf8'));
+            }
+        } catch (e) {
+            this.snapshots = [];
+        }
+    }
+
+    /**
+     * Append an entry. The ledger file is never rewritten.
+     * @param {Object} entry - { kind, ...fields }
+     */
+    record(entry) {
+        const full = {
+            id: crypto.randomUUID(),
+            timestamp: new Date().toISOString(),
+            strategy: 'manual',
+            ...entry,
+        };
+        this.entries.push(full);
+        try {
+            fs.appendFileSync(this.ledgerPath, JSON.stringify(full) + '\n');
+        } catch (e) {
+            console.error('[TradeLedger] Failed to append entry:', e.message);
+        }
+        return full;
+    }
+
+    /**
+     * Most recent entries first
+     * @param {{ limit?: number, kind?: string }} opts
+     */
+    list(opts = {}) {
+        const items = opts.kind ? this.entries.filter(e => e.kind === opts.kind) : this.entries;
+        return items.slice(-(opts.limit || 100)).reverse();
+    }
+
+    /** Mints with open FIFO lots — the caller fetches prices for these before computing P&L */
+    heldMints() {
+        return Object.keys(this._replay().lots);
+    }
+
+    /**
+     * Replay the ledger into FIFO lots and realized P&L buckets
+     */
+    _replay() {
+        const lots = {};        // mint → [{ qty, unitCost (null = unknown basis), strategy }]
+        const tokens = {};      // mint → { realizedUsd, unknownBasisQty, trades }
+        const strategies = {};  // strategy → { realizedUsd, trades }
+        const markets = {};     // market → { realizedUsd, trades, open: { key → entry } }
+        let feesUsd = 0;
+        let withdrawnUsd = 0;
+
+        const tokenBucket = (mint) => tokens[mint] || (tokens[mint] = { realizedUsd: 0, unknownBasisQty: 0, trades: 0 });
+        const strategyBucket = (name) => strategies[name] || (strategies[name] = { realizedUsd: 0, trades: 0 });
+        const marketBucket = (name) => markets[name] || (markets[name] = { realizedUsd: 0, trades: 0, open: {} });
+
+        // Remove qty from the oldest lots; proceedsUsd === null means a transfer (no realization)
+        const dispose = (mint, qty, proceedsUsd, strategy) => {
+            const queue = lots[mint] || [];
+            const unitProceeds = proceedsUsd === null || qty <= 0 ? null : proceedsUsd / qty;
+            let remaining = qty;
+            while (remaining > DUST && queue.length > 0) {
+                const lot = queue[0];
+                const take = Math.min(lot.qty, remaining);
+                if (unitProceeds !== null && lot.unitCost === null) {
+                    tokenBucket(mint).unknownBasisQty += take;
+                } else if (unitProceeds !== null) {
+                    const pnl = take * (unitProceeds - lot.unitCost);
+                    tokenBucket(mint).realizedUsd += pnl;
+                    strategyBucket(lot.strategy).realizedUsd += pnl;
+                }
+                lot.qty -= take;
+                remaining -= take;
+                if (lot.qty <= DUST) queue.shift();
+            }
+            // Sold more than the ledger knows we bought (pre-ledger funding) — basis unknown, realize nothing
+            if (remaining > DUST) tokenBucket(mint).unknownBasisQty += remaining;
+            if (queue.length === 0) delete lots[mint];
+            else lots[mint] = queue;
+        };
+
+        // costUsd === null means the fill couldn't be priced — the lot's basis is unknown
+        const acquire = (mint, qty, costUsd, strategy) => {
+            if (!(qty > 0)) return;
+            (lots[mint] || (lots[mint] = [])).push({ qty, unitCost: costUsd === null ? null : costUsd / qty, strategy });
+        };
+
+        for (const e of this.entries) {
+            switch (e.kind) {
+                case 'swap': {
+                    // Value the fill by what we received; fall back to what we gave up
+                    const valueUsd = e.outUsd ?? e.inUsd ?? null;
+                    dispose(e.inMint, e.inAmount, valueUsd, e.strategy);
+                    acquire(e.outMint, e.outAmount, valueUsd, e.strategy);
+                    tokenBucket(e.inMint).trades++;
+                    tokenBucket(e.outMint).trades++;
+                    strategyBucket(e.strategy).trades++;
+                    break;
+                }
+                case 'fee': {
+                    // A fee is a disposal with zero proceeds — its cost basis is realized as a loss
+                    dispose(e.mint, e.amount, 0, e.strategy);
+                    feesUsd += e.usd || 0;
+                    break;
+                }
+                case 'withdraw': {
+                    dispose(e.mint, e.amount, null, e.strategy);
+                    withdrawnUsd += e.usd || 0;
+                    break;
+                }
+                case 'perp_open': {
+                    // Live opens don't know their position account yet — fall back to the market:side slot
+                    const m = marketBucket(e.market);
+                    m.open[e.positionKey || e.slot] = e;
+                    m.trades++;
+                    strategyBucket(e.strategy).trades++;
+                    break;
+                }
+                case 'perp_close': {
+                    const m = marketBucket(e.market);
+                    const key = m.open[e.positionKey] ? e.positionKey : e.slot;
+                    const opened = m.open[key];
+                    delete m.open[key];
+                    m.realizedUsd += e.pnlUsd || 0;
+                    strategyBucket(opened?.strategy || e.strategy).realizedUsd += e.pnlUsd || 0;
+                    break;
+                }
+            }
+        }
+
+        return { lots, tokens, strategies, markets, feesUsd, withdrawnUsd };
+    }
+
+    /**
+     * Realized + unrealized P&L per token, perps market and strategy
+     * @param {Object<string, number>} pricesByMint - current USD prices for held mints
+     * @param {Array} perpPositions - live positions in JupiterPerps._formatPositions shape
+     * @param {Object<string, string>} perpsOwners - { 'SOL:long': strategyName }
+     */
+    computePnl(pricesByMint = {}, perpPositions = [], perpsOwners = {}) {
+        const { lots, tokens, strategies, markets, feesUsd, withdrawnUsd } = this._replay();
+        const strategyRow = (name) => strategies[name] || (strategies[name] = { realizedUsd: 0, trades: 0 });
+
+        const tokenRows = [];
+        const mints = new Set([...Object.keys(tokens), ...Object.keys(lots)]);
+        for (const mint of mints) {
+            const bucket = tokens[mint] || { realizedUsd: 0, unknownBasisQty: 0, trades: 0 };
+            const price = pricesByMint[mint];
+            let qty = 0, pricedQty = 0, costUsd = 0, unrealizedUsd = 0;
+            for (const lot of lots[mint] || []) {
+                qty += lot.qty;
+                if (lot.unitCost === null) continue;
+                pricedQty += lot.qty;
+                costUsd += lot.qty * lot.unitCost;
+                if (price !== undefined) {
+                    const pnl = lot.qty * (price - lot.unitCost);
+                    unrealizedUsd += pnl;
+                    const s = strategyRow(lot.strategy);
+                    s.unrealizedUsd = (s.unrealizedUsd || 0) + pnl;
+                }
+            }
+            tokenRows.push({
+                mint,
+                symbol: this.symbolFor(mint),
+                qty,
+                costUsd,
+                avgCost: pricedQty > 0 ? costUsd / pricedQty : 0,
+                price: price ?? null,
+                valueUsd: price !== undefined ? qty * price : null,
+                realizedUsd: bucket.realizedUsd,
+                unrealizedUsd,
+                // sold from, or still held in, lots with no known cost
+                unknownBasisQty: bucket.unknownBasisQty + (qty - pricedQty),
+                trades: bucket.trades,
+            });
+        }
+
+        // Perps: realized from the ledger, unrealized from whatever is open right now
+        for (const pos of perpPositions) {
+            const m = markets[pos.market] || (markets[pos.market] = { realizedUsd: 0, trades: 0, open: {} });
+            m.unrealizedUsd = (m.unrealizedUsd || 0) + (pos.pnlUsd || 0);
+            m.openPositions = (m.openPositions || 0) + 1;
+            const slot = `${pos.market}:${pos.side}`;
+            const owner = (m.open[pos.key] || m.open[slot])?.strategy || perpsOwners[slot] || 'manual';
+            const s = strategyRow(owner);
+            s.unrealizedUsd = (s.unrealizedUsd || 0) + (pos.pnlUsd || 0);
+        }
+        const marketRows = Object.entries(markets).map(([market, m]) => ({
+            market,
+            realizedUsd: m.realizedUsd,
+            unrealizedUsd: m.unrealizedUsd || 0,
+            openPositions: m.openPositions || 0,
+            trades: m.trades,
+        }));
+
+        const strategyRows = Object.entries(strategies).map(([strategy, s]) => ({
+            strategy,
+            realizedUsd: s.realizedUsd,
+            unrealizedUsd: s.unrealizedUsd || 0,
+            trades: s.trades,
+        }));
+
+        const sum = (rows, key) => rows.reduce((acc, r) => acc + (r[key] || 0), 0);
+        const realizedUsd = sum(tokenRows, 'realizedUsd') + sum(marketRows, 'realizedUsd');
+        const unrealizedUsd = sum(tokenRows, 'unrealizedUsd') + sum(marketRows, 'unrealizedUsd');
+
+        return {
+            realizedUsd,
+            unrealizedUsd,
+            totalUsd: realizedUsd + unrealizedUsd,
+            feesUsd,
+            withdrawnUsd,
+            tokens: tokenRows.sort((a, b) => Math.abs(b.realizedUsd + b.unrealizedUsd) - Math.abs(a.realizedUsd + a.unrealizedUsd)),
+            markets: marketRows,
+            strategies: strategyRows.sort((a, b) => (b.realizedUsd + b.unrealizedUsd) - (a.realizedUsd + a.unrealizedUsd)),
+            entryCount: this.entries.length,
+            since: this.entries[0]?.timestamp || null,
+        };
+    }
+
+    // --- Daily Snapshots ---
+
+    /**
+     * Upsert today's portfolio snapshot (UTC day). The last write of the day wins,
+     * so each stored day reflects its closing state.
+     * @param {{ totalUsd: number, sol: number, usdc: number, solPrice: number, realizedUsd?: number, unrealizedUsd?: number }} snap
+     */
+    snapshot(snap) {
+        const date = new Date().toISOString().slice(0, 10);
+        const entry = { date, ...snap, updatedAt: new Date().toISOString() };
+        const idx = this.snapshots.findIndex(s => s.date === date);
+        if (idx >= 0) this.snapshots[idx] = entry;
+        else this.snapshots.push(entry);
+        this.snapshots = this.snapshots.slice(-MAX_SNAPSHOTS);
+        try {
+            fs.writeFileSync(this.snapshotsPath, JSON.stringify(this.snapshots, null, 2));
+        } catch (e) {
+            console.error('[TradeLedger] Failed to save snapshots:', e.message);
+        }
+        return entry;
+    }
+
+    getSnapshots(days = 30) {
+        return this.snapshots.slice(-days);
+    }
+}
+
+module.exports = TradeLedger;
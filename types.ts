@@ -202,13 +202,28 @@ export interface ChatMessage {
   isThinking?: boolean;
 }
 
+// READ: no side effects · WRITE: changes ClawKeep data · RISKY: external, destructive or money — parked for approval
+export type ToolRisk = 'READ' | 'WRITE' | 'RISKY';
+
+export type ApprovalType = 'DELETION' | 'EMAIL' | 'BROWSER_TAKEOVER' | 'ASSET_COMMIT' | 'BROWSER_ACTION';
+export type ApprovalStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'EXPIRED' | 'EXECUTED' | 'FAILED';
+
+/** A risky tool call parked until the operator decides — also its audit record */
 export interface PendingApproval {
   id: string;
-  type: 'DELETION' | 'EMAIL' | 'BROWSER_TAKEOVER' | 'ASSET_COMMIT' | 'BROWSER_ACTION';
+  type: ApprovalType;
   title: string;
   description: string;
-  action: () => void;
-  onCancel: () => void;
+  toolName: string;
+  args: Record<string, any>;          // full arguments, shown as the preview
+  caller: 'CLAW' | 'AGENT' | 'OPERATOR'; // OPERATOR: a trade placed by hand from a panel
+  agentId?: string;
+  status: ApprovalStatus;
+  createdAt: string;
+  decidedAt?: string;
+  decidedBy?: string;                 // 'operator', 'operator (remote session)', 'timeout', 'grant (server)', 'pre-decided by client (…)'
+  note?: string;                      // operator's reason on reject
+  result?: string;                    // tool output (truncated) once executed
 }
 
 export type ThinkingDepth = 'LOW' | 'MEDIUM' | 'HIGH';
@@ -273,25 +288,34 @@ export interface UserIdentity {
   soulMemories: Record<AISoul, SoulMemory>;
 }
 
-export interface ModelUsage {
+export interface UsageTotals {
+  calls: number;
   inputTokens: number;
   outputTokens: number;
-  cost: number;
-  calls: number;
-}
-
-export interface UsageStats {
-  totalCost: number;
-  totalTokens: number;
-  byModel: Record<string, ModelUsage>;
+  cost: number;        // USD
 }
 
+/** One model call, as billed */
 export interface UsageEntry {
+  id: string;
   timestamp: string;   // ISO date string
+  day: string;         // operator's local calendar day, YYYY-MM-DD
+  provider: string;    // 'gemini' | 'openrouter' | 'openai' | 'local' | 'embedding'
   model: string;
+  agentId?: string;
+  missionId?: string;  // mission run or delegation id
   inputTokens: number;
   outputTokens: number;
-  cost: number;
+  estimated?: boolean; // tokens or price guessed (provider sent no usage, or model not in the price table)
+  cost: number;        // USD
+}
+
+/** Rollups served by /api/usage/summary (days only from `since`) */
+export interface UsageSummary {
+  total: UsageTotals;
+  days: Record<string, UsageTotals>;
+  models: Record<string, UsageTotals & { provider: string }>;
+  recent: UsageEntry[];
 }
 
 export interface ActivityLog {
@@ -405,3 +429,135 @@ export interface Checklist {
   createdAt: string;
   emoji?: string;
 }
+
+export interface ClawMemory {
+  id: string;
+  fact: string;
+  category: string;
+  source: string;
+  confidence: number; // 0–1
+  createdAt: string;
+  lastAccessed: string;
+  accessCount: number;
+  embedding?: number[];    // vector from embeddingModel — only comparable within one model
+  embeddingModel?: string;
+}
+
+export interface VaultSearchHit {
+  path: string;        // relative to the user's vault, e.g. LEGAL/lease.pdf
+  name: string;
+  category: string;
+  chunk: number;
+  snippet: string;     // keyword matches wrapped in **
+  score: number;
+  matchedBy: ('keyword' | 'semantic')[];
+}
+
+export type MissionSchedule = 'CONTINUOUS' | 'HOURLY' | 'DAILY' | 'MANUAL';
+
+export interface AgentMission {
+  id: string;                         // same as agentId — one mission per agent
+  agentId: string;
+  name: string;
+  mascot: string;
+  quest: string;
+  specialty: string;
+  schedule: MissionSchedule;
+  intervalMs: number;
+  lastRun: number;
+  isRunning: boolean;
+  progress: number;                   // 0-100 completion percentage
+  estimatedCompletion: string | null; // "~30 min"
+  lastReport: string;                 // Most recent report summary
+}
+
+export interface AgentLog {
+  id: string;
+  agentId: string;
+  type: 'REPORT' | 'ALERT' | 'ERROR';
+  content: string;
+  createdAt: string;
+  runner?: 'server' | 'browser';
+}
+
+export type DelegationStatus = 'QUEUED' | 'RUNNING' | 'DONE' | 'FAILED';
+
+/** A one-off directive Claw handed to a squad agent, and what came back */
+export interface Delegation {
+  id: string;
+  batchId: string;                    // delegations issued by the same tool call
+  agentId: string;
+  agentName: string;
+  mascot: string;
+  directive: string;
+  model: string;                      // agent's modelId, or 'gemini' for the default
+  status: DelegationStatus;
+  toolsUsed: string[];
+  createdAt: string;
+  finishedAt?: string;
+  result?: string;
+  error?: string;
+}
+
+export interface TokenPnl {
+  mint: string;
+  symbol: string;
+  qty: number;             // whole tokens still held in FIFO lots
+  costUsd: number;
+  avgCost: number;
+  price: number | null;
+  valueUsd: number | null;
+  realizedUsd: number;
+  unrealizedUsd: number;
+  unknownBasisQty: number; // sold or held without a known cost (funded before the ledger existed, or an unpriced fill)
+  trades: number;
+}
+
+export interface MarketPnl {
+  market: string;          // perps underlying, e.g. SOL
+  realizedUsd: number;
+  unrealizedUsd: number;
+  openPositions: number;
+  trades: number;
+}
+
+export interface StrategyPnl {
+  strategy: string;        // strategy name, 'manual', or 'rule:<type>'
+  realizedUsd: number;
+  unrealizedUsd: number;
+  trades: number;
+}
+
+export interface PortfolioSnapshot {
+  date: string;            // UTC YYYY-MM-DD
+  totalUsd: number;
+  sol: number;
+  usdc: number;
+  solPrice: number;
+  updatedAt: string;
+}
+
+export interface LedgerEntry {
+  id: string;
+  kind: 'swap' | 'fee' | 'withdraw' | 'perp_open' | 'perp_close';
+  timestamp: string;
+  strategy: string;
+  signature?: string;
+  [field: string]: any;
+}
+
+export interface TraderPnl {
+  paperMode: boolean;
+  realizedUsd: number;
+  unrealizedUsd: number;
+  totalUsd: number;
+  feesUsd: number;
+  withdrawnUsd: number;
+  tokens: TokenPnl[];
+  markets: MarketPnl[];
+  strategies: StrategyPnl[];
+  entryCount: number;
+  since: string | null;
+  snapshots: PortfolioSnapshot[];
+  recent: LedgerEntry[];
+}